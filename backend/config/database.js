@@ -1,6 +1,8 @@
 const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
 const fs = require('fs');
+const { v4: uuidv4 } = require('uuid');
+const { findMatchingClient, missingClientDetails, clientFromContact, caseContact } = require('../services/clients');
 
 const DB_PATH = process.env.DATABASE_PATH || './database.sqlite';
 
@@ -65,6 +67,14 @@ class Database {
     });
   }
 
+  // Adds a column to an existing table (CREATE TABLE IF NOT EXISTS leaves old tables untouched)
+  async ensureColumn(table, column, definition) {
+    const columns = await this.all(`PRAGMA table_info(${table})`);
+    if (!columns.some(existing => existing.name === column)) {
+      await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   async close() {
     return new Promise((resolve, reject) => {
       this.db.close((err) => {
@@ -80,6 +90,62 @@ class Database {
 
 const database = new Database();
 
+// One-time migration from clients identified by the name typed on each case. Links every
+// case without a client to the matching client record (see findMatchingClient), creating
+// one when none matches, and fills in contact details the case is missing. Cases that
+// already have a client are left alone, so this is a no-op once everything is linked.
+async function linkCaseClients() {
+  const unlinked = await database.all(
+    `SELECT id, user_id, client_name, client_email, client_phone, client_date_of_birth, created_at
+     FROM cases WHERE client_id IS NULL AND TRIM(COALESCE(client_name, '')) != ''
+     ORDER BY created_at ASC`
+  );
+  const clientsByUser = new Map();
+
+  for (const caseRow of unlinked) {
+    if (!clientsByUser.has(caseRow.user_id)) {
+      clientsByUser.set(caseRow.user_id, await database.all('SELECT * FROM clients WHERE user_id = ?', [caseRow.user_id]));
+    }
+    const known = clientsByUser.get(caseRow.user_id);
+    let client = findMatchingClient(known, caseRow);
+
+    if (!client) {
+      client = { id: uuidv4(), user_id: caseRow.user_id, ...clientFromContact(caseRow) };
+      await database.run(
+        `INSERT INTO clients (id, user_id, name, email, phone, date_of_birth, preferred_contact_method, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))`,
+        [client.id, client.user_id, client.name, client.email, client.phone, client.date_of_birth,
+          client.preferred_contact_method, caseRow.created_at]
+      );
+      known.push(client);
+    } else {
+      const missing = missingClientDetails(client, caseRow);
+      if (Object.keys(missing).length > 0) {
+        Object.assign(client, missing);
+        await database.run(
+          'UPDATE clients SET email = ?, phone = ?, date_of_birth = ?, updated_at = datetime("now") WHERE id = ?',
+          [client.email, client.phone, client.date_of_birth, client.id]
+        );
+      }
+    }
+
+    // Linking only fills in what the case is missing; what was typed on the case stays
+    const contact = caseContact(client);
+    await database.run(
+      `UPDATE cases SET client_id = ?,
+         client_email = COALESCE(NULLIF(client_email, ''), ?),
+         client_phone = COALESCE(NULLIF(client_phone, ''), ?),
+         client_date_of_birth = COALESCE(NULLIF(client_date_of_birth, ''), ?)
+       WHERE id = ?`,
+      [client.id, contact.client_email, contact.client_phone, contact.client_date_of_birth, caseRow.id]
+    );
+  }
+
+  if (unlinked.length > 0) {
+    console.log(`✅ Linked ${unlinked.length} case(s) to client records`);
+  }
+}
+
 async function initializeDatabase() {
   await database.connect();
   
@@ -101,6 +167,30 @@ async function initializeDatabase() {
     )
   `);
 
+  // Clients with their contact details; cases link to one by client_id
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS clients (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      email TEXT,
+      phone TEXT,
+      address_line TEXT,
+      city TEXT,
+      state TEXT,
+      postal_code TEXT,
+      date_of_birth DATE,
+      preferred_contact_method TEXT NOT NULL DEFAULT 'email'
+        CHECK (preferred_contact_method IN ('email', 'phone', 'text', 'mail')),
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_clients_user ON clients (user_id, name)');
+
   // Create cases table
   await database.run(`
     CREATE TABLE IF NOT EXISTS cases (
@@ -127,6 +217,167 @@ async function initializeDatabase() {
     )
   `);
 
+  // Statute of limitations inputs and the rule that produced statute_of_limitations
+  await database.ensureColumn('cases', 'jurisdiction', 'TEXT');
+  await database.ensureColumn('cases', 'discovery_date', 'DATE');
+  await database.ensureColumn('cases', 'client_date_of_birth', 'DATE');
+  await database.ensureColumn('cases', 'statute_rule', 'TEXT');
+
+  // Attorney responsible for the case; overdue urgent deadlines escalate to them
+  await database.ensureColumn('cases', 'assigned_attorney_id', 'INTEGER');
+
+  // Latest insurer offer, kept up to date from the negotiation ledger
+  await database.ensureColumn('cases', 'current_offer', 'DECIMAL(15,2)');
+
+  // Set once both sides approve the settlement statement; money figures are then final
+  await database.ensureColumn('cases', 'financials_locked', 'BOOLEAN DEFAULT 0');
+
+  // The case's client; client_* columns are kept as a copy of its contact details
+  await database.ensureColumn('cases', 'client_id', 'TEXT REFERENCES clients (id)');
+  await linkCaseClients();
+
+  // Client portal users (role 'client') see only the client record they were invited for
+  await database.ensureColumn('users', 'client_id', 'TEXT REFERENCES clients (id)');
+
+  // Links emailed to clients so they can create a portal login
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS portal_invitations (
+      id TEXT PRIMARY KEY,
+      token TEXT UNIQUE NOT NULL,
+      client_id TEXT NOT NULL,
+      invited_by INTEGER NOT NULL,
+      email TEXT NOT NULL,
+      expires_at DATETIME NOT NULL,
+      accepted_at DATETIME,
+      accepted_user_id INTEGER,
+      revoked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (client_id) REFERENCES clients (id) ON DELETE CASCADE,
+      FOREIGN KEY (invited_by) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (accepted_user_id) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Each case's message thread between the client (through the portal) and the firm
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS client_messages (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      sender TEXT NOT NULL CHECK (sender IN ('client', 'attorney')),
+      sender_user_id INTEGER,
+      sender_name TEXT NOT NULL,
+      message TEXT NOT NULL DEFAULT '',
+      read_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (sender_user_id) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_client_messages_case ON client_messages (case_id, created_at)');
+
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS message_attachments (
+      id TEXT PRIMARY KEY,
+      message_id TEXT NOT NULL,
+      original_name TEXT NOT NULL,
+      file_path TEXT NOT NULL,
+      file_size INTEGER,
+      mime_type TEXT,
+      FOREIGN KEY (message_id) REFERENCES client_messages (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Every status and priority transition on a case, with who made it
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS case_status_history (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      actor_name TEXT,
+      field TEXT NOT NULL DEFAULT 'status' CHECK (field IN ('status', 'priority')),
+      from_value TEXT,
+      to_value TEXT NOT NULL,
+      changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_case_status_history_case ON case_status_history (case_id, changed_at)');
+
+  // A user's own workflow per case type (stages are JSON); the standard workflow applies otherwise.
+  // firm_key is user:<id>.
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS case_workflows (
+      id TEXT PRIMARY KEY,
+      firm_key TEXT NOT NULL,
+      case_type TEXT NOT NULL,
+      stages TEXT NOT NULL,
+      updated_by INTEGER,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (firm_key, case_type),
+      FOREIGN KEY (updated_by) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Workflows used to be keyed on the free-text firm name; they move to the user who saved them
+  await database.run(
+    `UPDATE OR IGNORE case_workflows SET firm_key = 'user:' || updated_by
+     WHERE firm_key NOT LIKE 'user:%' AND updated_by IS NOT NULL`
+  );
+
+  // Workflow checklist items ticked off on a case
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS case_checklist_items (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      item_id TEXT NOT NULL,
+      completed_by TEXT,
+      completed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (case_id, item_id),
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Everyone on a case besides the client (adverse parties, insureds, witnesses, opposing
+  // counsel); with the clients table this is the registry conflict checks search
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS case_parties (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      role TEXT NOT NULL CHECK (role IN ('adverse_party', 'insured', 'witness', 'opposing_counsel')),
+      name TEXT NOT NULL,
+      email TEXT,
+      phone TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_case_parties_user ON case_parties (user_id, name)');
+
+  // The conflict check cleared when a case was opened; parties and matches are JSON
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS conflict_checks (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      parties TEXT NOT NULL,
+      matches TEXT NOT NULL,
+      checked_at DATETIME NOT NULL,
+      cleared_by TEXT NOT NULL,
+      cleared_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      notes TEXT,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
   // Create documents table
   await database.run(`
     CREATE TABLE IF NOT EXISTS documents (
@@ -146,6 +397,57 @@ async function initializeDatabase() {
     )
   `);
 
+  // Case documents shared with the client on the portal, optionally until expires_at
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS document_shares (
+      id TEXT PRIMARY KEY,
+      document_id TEXT NOT NULL,
+      case_id TEXT NOT NULL,
+      shared_by INTEGER NOT NULL,
+      expires_at DATETIME,
+      revoked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (document_id) REFERENCES documents (id) ON DELETE CASCADE,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (shared_by) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Documents the firm asked the client to upload; the upload is filed under document_type
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS document_requests (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      requested_by INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      document_type TEXT NOT NULL DEFAULT 'other',
+      notes TEXT,
+      document_id TEXT,
+      fulfilled_at DATETIME,
+      cancelled_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (requested_by) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (document_id) REFERENCES documents (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Every view and download of a document, by the firm or the client
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS document_access_log (
+      id TEXT PRIMARY KEY,
+      document_id TEXT NOT NULL,
+      user_id INTEGER,
+      actor TEXT NOT NULL CHECK (actor IN ('client', 'attorney')),
+      action TEXT NOT NULL CHECK (action IN ('view', 'download')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (document_id) REFERENCES documents (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_document_access_log_document ON document_access_log (document_id, created_at)');
+
   // Create case_notes table
   await database.run(`
     CREATE TABLE IF NOT EXISTS case_notes (
@@ -177,6 +479,348 @@ async function initializeDatabase() {
     )
   `);
 
+  // Court-rule deadlines link back to the trigger event they were computed from
+  await database.ensureColumn('deadlines', 'trigger_id', 'TEXT');
+  await database.ensureColumn('deadlines', 'rule_id', 'TEXT');
+
+  // Trigger events (complaint served, hearing date, ...) that generate deadline chains
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS deadline_triggers (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      rule_set TEXT NOT NULL,
+      trigger_type TEXT NOT NULL,
+      trigger_date DATE NOT NULL,
+      service_method TEXT DEFAULT 'personal',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Court closures skipped by the deadline calculator on top of the federal holidays
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS court_holidays (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      date DATE NOT NULL,
+      name TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create calendar_events table
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS calendar_events (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      case_id TEXT,
+      title TEXT NOT NULL,
+      description TEXT,
+      start_date DATETIME NOT NULL,
+      end_date DATETIME,
+      event_type TEXT DEFAULT 'meeting',
+      location TEXT,
+      attendees TEXT,
+      priority TEXT DEFAULT 'medium',
+      reminder_minutes INTEGER DEFAULT 15,
+      recurrence_rule TEXT,
+      recurrence_exceptions TEXT,
+      recurrence_parent_id TEXT,
+      series_end_date DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE SET NULL,
+      FOREIGN KEY (recurrence_parent_id) REFERENCES calendar_events (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run(
+    'CREATE INDEX IF NOT EXISTS idx_calendar_events_user_start ON calendar_events (user_id, start_date)'
+  );
+
+  // IANA zone a recurring series repeats in; null repeats in the server's zone
+  await database.ensureColumn('calendar_events', 'time_zone', 'TEXT');
+
+  // Secret tokens for the per-user subscribable ICS feed
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS calendar_feeds (
+      user_id INTEGER PRIMARY KEY,
+      token TEXT UNIQUE NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // In-app notifications (deadline reminders, escalations, ...)
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      category TEXT NOT NULL,
+      title TEXT NOT NULL,
+      message TEXT,
+      case_id TEXT,
+      read_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run(
+    'CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications (user_id, created_at)'
+  );
+
+  // Negotiation ledger: one negotiation per case and every demand/offer made in it
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS negotiations (
+      id TEXT PRIMARY KEY,
+      case_id TEXT UNIQUE NOT NULL,
+      user_id INTEGER NOT NULL,
+      insurance_company TEXT,
+      current_offer DECIMAL(15,2) DEFAULT 0,
+      demand_amount DECIMAL(15,2) DEFAULT 0,
+      status TEXT DEFAULT 'pending',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS negotiation_messages (
+      id TEXT PRIMARY KEY,
+      negotiation_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      amount DECIMAL(15,2),
+      message TEXT,
+      sender TEXT NOT NULL,
+      ai_generated BOOLEAN DEFAULT 0,
+      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (negotiation_id) REFERENCES negotiations (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run(
+    'CREATE INDEX IF NOT EXISTS idx_negotiation_messages_negotiation ON negotiation_messages (negotiation_id, timestamp)'
+  );
+
+  // Closing statement for a settled case; costs and liens are JSON arrays of line items
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS settlement_statements (
+      id TEXT PRIMARY KEY,
+      case_id TEXT UNIQUE NOT NULL,
+      user_id INTEGER NOT NULL,
+      gross_settlement DECIMAL(15,2) NOT NULL,
+      fee_stage TEXT NOT NULL CHECK (fee_stage IN ('pre_suit', 'litigation')),
+      fee_percent DECIMAL(5,2) NOT NULL,
+      costs TEXT NOT NULL DEFAULT '[]',
+      liens TEXT NOT NULL DEFAULT '[]',
+      attorney_approved_by TEXT,
+      attorney_approved_at DATETIME,
+      client_approved_by TEXT,
+      client_approved_at DATETIME,
+      locked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Lien register; document_ids is a JSON array of linked correspondence
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS case_liens (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      type TEXT NOT NULL CHECK (type IN ('medical', 'medicare', 'health_plan')),
+      holder TEXT NOT NULL,
+      asserted_amount DECIMAL(15,2) NOT NULL,
+      reduction_amount DECIMAL(15,2) DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'asserted'
+        CHECK (status IN ('asserted', 'negotiating', 'final', 'paid', 'waived')),
+      document_ids TEXT NOT NULL DEFAULT '[]',
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_case_liens_case ON case_liens (case_id)');
+
+  // Costs advanced on a case; the receipt is an uploaded case document
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS case_expenses (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      date DATE NOT NULL,
+      category TEXT NOT NULL
+        CHECK (category IN ('filing_fee', 'service', 'records', 'expert', 'deposition', 'travel', 'other')),
+      description TEXT NOT NULL,
+      vendor TEXT,
+      amount DECIMAL(15,2) NOT NULL,
+      billable BOOLEAN DEFAULT 0,
+      reimbursable BOOLEAN DEFAULT 1,
+      receipt_document_id TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (receipt_document_id) REFERENCES documents (id) ON DELETE SET NULL
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_case_expenses_case ON case_expenses (case_id, date)');
+
+  // Member's hourly rate, used when a time entry is recorded without one
+  await database.ensureColumn('users', 'billing_rate', 'DECIMAL(10,2)');
+
+  // Time recorded on a case by a member of the firm; rate is fixed when the entry is
+  // recorded. A running timer has timer_started_at set, and minutes are added on stop.
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS time_entries (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      timekeeper_id INTEGER NOT NULL,
+      timekeeper_name TEXT NOT NULL,
+      date DATE NOT NULL,
+      minutes INTEGER NOT NULL DEFAULT 0,
+      activity_code TEXT NOT NULL,
+      description TEXT NOT NULL,
+      rate DECIMAL(10,2) NOT NULL,
+      timer_started_at DATETIME,
+      invoice_id TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (timekeeper_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (invoice_id) REFERENCES invoices (id) ON DELETE SET NULL
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_time_entries_case ON time_entries (case_id, date)');
+
+  // Invoices built from unbilled time; lines is a JSON snapshot of the billed entries
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS invoices (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      invoice_number TEXT NOT NULL,
+      issue_date DATE NOT NULL,
+      due_date DATE NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'USD',
+      lines TEXT NOT NULL DEFAULT '[]',
+      total DECIMAL(15,2) NOT NULL,
+      status TEXT NOT NULL DEFAULT 'unpaid' CHECK (status IN ('unpaid', 'paid')),
+      paid_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, invoice_number),
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_invoices_case ON invoices (case_id, issue_date)');
+
+  // Client trust (IOLTA) journal: money held for a client on a case. Amounts are positive;
+  // the type gives the direction.
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS trust_transactions (
+      id TEXT PRIMARY KEY,
+      case_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      client_name TEXT NOT NULL,
+      type TEXT NOT NULL CHECK (type IN ('deposit', 'disbursement')),
+      date DATE NOT NULL,
+      amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+      counterparty TEXT NOT NULL,
+      reference TEXT,
+      description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (case_id) REFERENCES cases (id) ON DELETE RESTRICT,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_trust_transactions_user ON trust_transactions (user_id, date)');
+
+  // One imported bank statement per user and month
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS trust_bank_statements (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      month TEXT NOT NULL,
+      ending_balance DECIMAL(15,2) NOT NULL,
+      imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, month),
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Bank statement lines (deposits positive) and the journal entry each was matched to
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS trust_bank_lines (
+      id TEXT PRIMARY KEY,
+      statement_id TEXT NOT NULL,
+      date DATE NOT NULL,
+      description TEXT,
+      amount DECIMAL(15,2) NOT NULL,
+      reference TEXT,
+      matched_transaction_id TEXT,
+      FOREIGN KEY (statement_id) REFERENCES trust_bank_statements (id) ON DELETE CASCADE,
+      FOREIGN KEY (matched_transaction_id) REFERENCES trust_transactions (id) ON DELETE SET NULL
+    )
+  `);
+
+  await database.run('CREATE INDEX IF NOT EXISTS idx_trust_bank_lines_statement ON trust_bank_lines (statement_id)');
+
+  // Set when a month is signed off; the journal balance then carries into later months
+  await database.ensureColumn('trust_bank_statements', 'reconciled_at', 'DATETIME');
+  await database.ensureColumn('trust_bank_statements', 'journal_balance', 'DECIMAL(15,2)');
+
+  // One row of preferences per user; toggle groups are JSON objects of booleans
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS user_preferences (
+      user_id INTEGER PRIMARY KEY,
+      theme TEXT NOT NULL DEFAULT 'light' CHECK (theme IN ('light', 'dark', 'system')),
+      accent_color TEXT NOT NULL DEFAULT '#1e40af',
+      sidebar_collapsed BOOLEAN NOT NULL DEFAULT 0,
+      notifications TEXT NOT NULL DEFAULT '{}',
+      dashboard TEXT NOT NULL DEFAULT '{}',
+      date_format TEXT NOT NULL DEFAULT 'MM/DD/YYYY' CHECK (date_format IN ('MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD')),
+      time_format TEXT NOT NULL DEFAULT '12h' CHECK (time_format IN ('12h', '24h')),
+      two_factor_enabled BOOLEAN NOT NULL DEFAULT 0,
+      session_timeout_minutes INTEGER NOT NULL DEFAULT 30,
+      password_expiry_days INTEGER NOT NULL DEFAULT 90,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Reminders and escalations already delivered, so each goes out only once
+  await database.run(`
+    CREATE TABLE IF NOT EXISTS reminder_log (
+      reminder_key TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      sent_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
   // Create sessions table for token management
   await database.run(`
     CREATE TABLE IF NOT EXISTS sessions (
@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const { database } = require('../config/database');
+const { CLIENT_ROLE } = require('../services/portal');
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
 
@@ -46,7 +47,7 @@ async function authenticateToken(req, res, next) {
 
     // Get user data
     const user = await database.get(
-      'SELECT id, email, first_name, last_name, role, firm_name, phone FROM users WHERE id = ? AND is_active = 1',
+      'SELECT id, email, first_name, last_name, role, firm_name, phone, client_id FROM users WHERE id = ? AND is_active = 1',
       [decoded.id]
     );
 
@@ -106,8 +107,20 @@ function requireRole(roles) {
   };
 }
 
+// Client portal users may only use the portal routes, which are scoped to their own client
+function requireStaff(req, res, next) {
+  if (req.user && req.user.role === CLIENT_ROLE) {
+    return res.status(403).json({
+      error: 'Insufficient permissions',
+      message: 'Client portal accounts can only access the client portal'
+    });
+  }
+  next();
+}
+
 module.exports = {
   generateToken,
   authenticateToken,
-  requireRole
+  requireRole,
+  requireStaff
 };
\ No newline at end of file
@@ -0,0 +1,94 @@
+const multer = require('multer');
+const contentDisposition = require('content-disposition');
+const path = require('path');
+const fs = require('fs');
+const { v4: uuidv4 } = require('uuid');
+
+// Uploaded files live here; records store their path relative to the backend folder
+const BACKEND_ROOT = path.join(__dirname, '..');
+const UPLOAD_PATH = path.join(BACKEND_ROOT, 'uploads');
+
+// Configure multer for file uploads
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    if (!fs.existsSync(UPLOAD_PATH)) {
+      fs.mkdirSync(UPLOAD_PATH, { recursive: true });
+    }
+    cb(null, UPLOAD_PATH);
+  },
+  filename: (req, file, cb) => {
+    const uniqueName = `${uuidv4()}${path.extname(file.originalname)}`;
+    cb(null, uniqueName);
+  }
+});
+
+const fileFilter = (req, file, cb) => {
+  // Allow common document types
+  const allowedTypes = [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp'
+  ];
+
+  if (allowedTypes.includes(file.mimetype)) {
+    // Browsers send the name as UTF-8, which multer reads as latin1
+    file.originalname = Buffer.from(file.originalname, 'latin1').toString('utf8');
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only PDF, Word, Excel, text, and image files are allowed.'), false);
+  }
+};
+
+const upload = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: parseInt(process.env.MAX_FILE_SIZE) || 10 * 1024 * 1024 // 10MB default
+  }
+});
+
+const relativeUploadPath = (file) => path.relative(BACKEND_ROOT, file.path);
+
+// Cleans up files multer already stored when the request fails
+function removeUploadedFiles(files = []) {
+  for (const file of files) {
+    if (file && fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+  }
+}
+
+// Types a browser may display from our origin; anything else (html, svg, ...) is only ever
+// downloaded, since an uploaded page could otherwise run script as the app
+const INLINE_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Streams a stored upload as a download, or for the browser to display when inline and its
+// type allows it. Returns false when the file is missing on disk.
+function sendUploadedFile(res, { file_path, original_name, mime_type }, { inline = false } = {}) {
+  const filePath = path.join(BACKEND_ROOT, file_path);
+  if (!fs.existsSync(filePath)) {
+    return false;
+  }
+
+  const type = inline && INLINE_TYPES.includes(mime_type) ? 'inline' : 'attachment';
+  // content-disposition quotes the name and adds an RFC 5987 filename* for non-ASCII names
+  res.setHeader('Content-Disposition', contentDisposition(original_name, { type }));
+  res.setHeader('Content-Type', mime_type || 'application/octet-stream');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  fs.createReadStream(filePath).pipe(res);
+  return true;
+}
+
+module.exports = {
+  upload,
+  relativeUploadPath,
+  removeUploadedFiles,
+  sendUploadedFile
+};
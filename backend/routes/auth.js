@@ -4,6 +4,7 @@ const { body, validationResult } = require('express-validator');
 const { v4: uuidv4 } = require('uuid');
 const { database } = require('../config/database');
 const { generateToken, authenticateToken } = require('../middleware/auth');
+const { CLIENT_ROLE } = require('../services/portal');
 
 const router = express.Router();
 
@@ -131,6 +132,14 @@ router.post('/login', [
       });
     }
 
+    // Clients have their own sign-in, which only leads to the portal
+    if (user.role === CLIENT_ROLE) {
+      return res.status(403).json({
+        error: 'Client portal account',
+        message: 'Sign in through the client portal instead'
+      });
+    }
+
     // Generate token
     const token = generateToken(user.id, user.email);
     
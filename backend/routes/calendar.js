@@ -0,0 +1,569 @@
+const express = require('express');
+const crypto = require('crypto');
+const { body, validationResult, query } = require('express-validator');
+const { v4: uuidv4 } = require('uuid');
+const { database } = require('../config/database');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const { isValidRRule, isValidTimeZone, getSeriesEnd, expandEvents } = require('../services/recurrence');
+const { buildCalendar } = require('../services/ical');
+const { getFederalHolidays } = require('../services/courtRules');
+
+const router = express.Router();
+
+const EVENT_TYPES = ['meeting', 'court', 'deadline', 'consultation', 'deposition', 'other'];
+const EVENT_PRIORITIES = ['low', 'medium', 'high'];
+
+// Request body fields that map onto calendar_events columns
+const EVENT_FIELDS = {
+  title: 'title',
+  description: 'description',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  eventType: 'event_type',
+  location: 'location',
+  attendees: 'attendees',
+  caseId: 'case_id',
+  priority: 'priority',
+  reminderMinutes: 'reminder_minutes',
+  recurrenceRule: 'recurrence_rule',
+  recurrenceExceptions: 'recurrence_exceptions',
+  recurrenceParentId: 'recurrence_parent_id',
+  timeZone: 'time_zone'
+};
+
+const recurrenceValidators = [
+  body('recurrenceRule').optional({ checkFalsy: true }).custom(isValidRRule).withMessage('Invalid recurrence rule'),
+  body('recurrenceExceptions').optional({ checkFalsy: true }).trim(),
+  body('recurrenceParentId').optional({ checkFalsy: true }).trim(),
+  body('timeZone').optional({ checkFalsy: true }).custom(isValidTimeZone).withMessage('Invalid time zone')
+];
+
+// How far back the subscribable feed reaches
+const FEED_HISTORY_DAYS = 90;
+
+// Subscribable ICS feed. Calendar apps cannot send an Authorization header,
+// so this route is authenticated by the secret feed token in the URL instead.
+router.get('/feed/:token.ics', async (req, res) => {
+  try {
+    const feed = await database.get(
+      `SELECT f.user_id, u.first_name, u.last_name FROM calendar_feeds f
+       JOIN users u ON u.id = f.user_id
+       WHERE f.token = ? AND u.is_active = 1`,
+      [req.params.token]
+    );
+
+    if (!feed) {
+      return res.status(404).json({
+        error: 'Feed not found',
+        message: 'Calendar feed not found or the link has been reset'
+      });
+    }
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const events = await database.all(
+      `SELECT e.*, c.case_number FROM calendar_events e
+       LEFT JOIN cases c ON c.id = e.case_id
+       WHERE e.user_id = ? AND COALESCE(e.series_end_date, e.end_date, e.start_date) >= ?
+       ORDER BY e.start_date ASC`,
+      [feed.user_id, since]
+    );
+
+    const deadlines = await database.all(
+      `SELECT d.*, c.case_number FROM deadlines d
+       JOIN cases c ON c.id = d.case_id
+       WHERE d.user_id = ? AND d.due_date >= ?
+       ORDER BY d.due_date ASC`,
+      [feed.user_id, since.slice(0, 10)]
+    );
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="calendar.ics"');
+    res.send(buildCalendar({
+      name: `${feed.first_name} ${feed.last_name} - Legal Calendar`,
+      events,
+      deadlines
+    }));
+
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).json({
+      error: 'Failed to build feed',
+      message: 'An error occurred while building the calendar feed'
+    });
+  }
+});
+
+// All other routes require authentication
+router.use(authenticateToken, requireStaff);
+
+function feedUrl(req, token) {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${token}.ics`;
+}
+
+// Get (creating on first use) the user's feed subscription URL
+router.get('/feed', async (req, res) => {
+  try {
+    let feed = await database.get(
+      'SELECT token FROM calendar_feeds WHERE user_id = ?',
+      [req.user.id]
+    );
+
+    if (!feed) {
+      feed = { token: crypto.randomBytes(24).toString('hex') };
+      await database.run(
+        'INSERT INTO calendar_feeds (user_id, token) VALUES (?, ?)',
+        [req.user.id, feed.token]
+      );
+    }
+
+    res.json({
+      feedUrl: feedUrl(req, feed.token)
+    });
+
+  } catch (error) {
+    console.error('Get feed error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch feed',
+      message: 'An error occurred while fetching the calendar feed'
+    });
+  }
+});
+
+// Reset the feed token, invalidating previously shared subscription URLs
+router.post('/feed/reset', async (req, res) => {
+  try {
+    const token = crypto.randomBytes(24).toString('hex');
+
+    await database.run(
+      `INSERT INTO calendar_feeds (user_id, token) VALUES (?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET token = excluded.token, created_at = CURRENT_TIMESTAMP`,
+      [req.user.id, token]
+    );
+
+    res.json({
+      message: 'Calendar feed link reset successfully',
+      feedUrl: feedUrl(req, token)
+    });
+
+  } catch (error) {
+    console.error('Reset feed error:', error);
+    res.status(500).json({
+      error: 'Failed to reset feed',
+      message: 'An error occurred while resetting the calendar feed'
+    });
+  }
+});
+
+async function findOwnedCase(caseId, userId) {
+  return database.get(
+    'SELECT id FROM cases WHERE id = ? AND user_id = ?',
+    [caseId, userId]
+  );
+}
+
+// List events overlapping a date range
+router.get('/events', [
+  query('start').isISO8601().withMessage('Valid range start is required'),
+  query('end').isISO8601().withMessage('Valid range end is required'),
+  query('caseId').optional().trim(),
+  query('eventType').optional().isIn(EVENT_TYPES),
+  query('expand').optional().isBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { start, end, caseId, eventType, expand } = req.query;
+
+    // An event overlaps the range when it starts before the range ends and ends
+    // (for recurring series, with their last occurrence) after the range starts
+    let whereClause = 'WHERE user_id = ? AND start_date <= ? AND COALESCE(series_end_date, end_date, start_date) >= ?';
+    const params = [req.user.id, end, start];
+
+    if (caseId) {
+      whereClause += ' AND case_id = ?';
+      params.push(caseId);
+    }
+
+    if (eventType) {
+      whereClause += ' AND event_type = ?';
+      params.push(eventType);
+    }
+
+    const events = await database.all(
+      `SELECT * FROM calendar_events ${whereClause} ORDER BY start_date ASC`,
+      params
+    );
+
+    res.json({
+      events: expand === 'true' ? expandEvents(events, new Date(start), new Date(end)) : events
+    });
+
+  } catch (error) {
+    console.error('Get events error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch events',
+      message: 'An error occurred while fetching calendar events'
+    });
+  }
+});
+
+// Get a specific event
+router.get('/events/:id', async (req, res) => {
+  try {
+    const event = await database.get(
+      'SELECT * FROM calendar_events WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!event) {
+      return res.status(404).json({
+        error: 'Event not found',
+        message: 'Event not found or you do not have permission to view it'
+      });
+    }
+
+    res.json({
+      event
+    });
+
+  } catch (error) {
+    console.error('Get event error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch event',
+      message: 'An error occurred while fetching the event'
+    });
+  }
+});
+
+// Create a new event
+router.post('/events', [
+  body('title').trim().isLength({ min: 1 }).withMessage('Title is required'),
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
+  body('endDate').optional({ checkFalsy: true }).isISO8601(),
+  body('eventType').optional().isIn(EVENT_TYPES),
+  body('priority').optional().isIn(EVENT_PRIORITIES),
+  body('reminderMinutes').optional().isInt({ min: 0 }),
+  body('description').optional().trim(),
+  body('location').optional().trim(),
+  body('attendees').optional().trim(),
+  body('caseId').optional({ checkFalsy: true }).trim(),
+  ...recurrenceValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const {
+      title,
+      description,
+      startDate,
+      endDate,
+      eventType = 'meeting',
+      location,
+      attendees,
+      caseId,
+      priority = 'medium',
+      reminderMinutes = 15,
+      recurrenceRule,
+      recurrenceExceptions,
+      recurrenceParentId,
+      timeZone
+    } = req.body;
+
+    if (endDate && new Date(endDate) < new Date(startDate)) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'End date cannot be before start date'
+      });
+    }
+
+    if (caseId && !(await findOwnedCase(caseId, req.user.id))) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to add events to it'
+      });
+    }
+
+    const eventId = uuidv4();
+    const seriesEndDate = getSeriesEnd({
+      start_date: startDate,
+      end_date: endDate || startDate,
+      recurrence_rule: recurrenceRule,
+      time_zone: timeZone
+    });
+
+    await database.run(
+      `INSERT INTO calendar_events (
+        id, user_id, case_id, title, description, start_date, end_date,
+        event_type, location, attendees, priority, reminder_minutes,
+        recurrence_rule, recurrence_exceptions, recurrence_parent_id, series_end_date, time_zone
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        eventId, req.user.id, caseId || null, title, description || null,
+        startDate, endDate || startDate, eventType, location || null,
+        attendees || null, priority, reminderMinutes,
+        recurrenceRule || null, recurrenceExceptions || null, recurrenceParentId || null, seriesEndDate,
+        timeZone || null
+      ]
+    );
+
+    const newEvent = await database.get(
+      'SELECT * FROM calendar_events WHERE id = ?',
+      [eventId]
+    );
+
+    res.status(201).json({
+      message: 'Event created successfully',
+      event: newEvent
+    });
+
+  } catch (error) {
+    console.error('Create event error:', error);
+    res.status(500).json({
+      error: 'Failed to create event',
+      message: 'An error occurred while creating the event'
+    });
+  }
+});
+
+// Update an event
+router.put('/events/:id', [
+  body('title').optional().trim().isLength({ min: 1 }),
+  body('startDate').optional().isISO8601(),
+  body('endDate').optional({ checkFalsy: true }).isISO8601(),
+  body('eventType').optional().isIn(EVENT_TYPES),
+  body('priority').optional().isIn(EVENT_PRIORITIES),
+  body('reminderMinutes').optional().isInt({ min: 0 }),
+  body('description').optional().trim(),
+  body('location').optional().trim(),
+  body('attendees').optional().trim(),
+  body('caseId').optional({ nullable: true }).trim(),
+  ...recurrenceValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingEvent = await database.get(
+      'SELECT * FROM calendar_events WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingEvent) {
+      return res.status(404).json({
+        error: 'Event not found',
+        message: 'Event not found or you do not have permission to update it'
+      });
+    }
+
+    const startDate = req.body.startDate || existingEvent.start_date;
+    const endDate = req.body.endDate || existingEvent.end_date;
+    if (endDate && new Date(endDate) < new Date(startDate)) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'End date cannot be before start date'
+      });
+    }
+
+    if (req.body.caseId && !(await findOwnedCase(req.body.caseId, req.user.id))) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to link events to it'
+      });
+    }
+
+    const updates = [];
+    const values = [];
+
+    // Build dynamic update query from known fields only
+    Object.keys(EVENT_FIELDS).forEach(key => {
+      if (req.body[key] !== undefined) {
+        updates.push(`${EVENT_FIELDS[key]} = ?`);
+        values.push(['caseId', 'recurrenceRule', 'recurrenceParentId', 'timeZone'].includes(key) ? req.body[key] || null : req.body[key]);
+      }
+    });
+
+    if (updates.length > 0) {
+      const recurrenceRule = req.body.recurrenceRule !== undefined
+        ? req.body.recurrenceRule
+        : existingEvent.recurrence_rule;
+      updates.push('series_end_date = ?');
+      values.push(getSeriesEnd({
+        start_date: startDate,
+        end_date: endDate || startDate,
+        recurrence_rule: recurrenceRule,
+        time_zone: req.body.timeZone !== undefined ? req.body.timeZone : existingEvent.time_zone
+      }));
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({
+        error: 'No updates provided',
+        message: 'At least one field must be provided for update'
+      });
+    }
+
+    updates.push('updated_at = datetime("now")');
+    values.push(req.params.id);
+
+    await database.run(
+      `UPDATE calendar_events SET ${updates.join(', ')} WHERE id = ?`,
+      values
+    );
+
+    const updatedEvent = await database.get(
+      'SELECT * FROM calendar_events WHERE id = ?',
+      [req.params.id]
+    );
+
+    res.json({
+      message: 'Event updated successfully',
+      event: updatedEvent
+    });
+
+  } catch (error) {
+    console.error('Update event error:', error);
+    res.status(500).json({
+      error: 'Failed to update event',
+      message: 'An error occurred while updating the event'
+    });
+  }
+});
+
+// Delete an event
+router.delete('/events/:id', async (req, res) => {
+  try {
+    const existingEvent = await database.get(
+      'SELECT id FROM calendar_events WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingEvent) {
+      return res.status(404).json({
+        error: 'Event not found',
+        message: 'Event not found or you do not have permission to delete it'
+      });
+    }
+
+    // Deleting a series also removes the occurrences that were edited individually
+    await database.run(
+      'DELETE FROM calendar_events WHERE id = ? OR recurrence_parent_id = ?',
+      [req.params.id, req.params.id]
+    );
+
+    res.json({
+      message: 'Event deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete event error:', error);
+    res.status(500).json({
+      error: 'Failed to delete event',
+      message: 'An error occurred while deleting the event'
+    });
+  }
+});
+
+// List the user's court holidays (federal holidays are built into the deadline calculator)
+router.get('/court-holidays', async (req, res) => {
+  try {
+    const holidays = await database.all(
+      'SELECT * FROM court_holidays WHERE user_id = ? ORDER BY date ASC',
+      [req.user.id]
+    );
+
+    res.json({
+      holidays,
+      federalHolidays: getFederalHolidays(new Date().getFullYear())
+    });
+
+  } catch (error) {
+    console.error('Get court holidays error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch court holidays',
+      message: 'An error occurred while fetching court holidays'
+    });
+  }
+});
+
+// Add a court closure that court-rule deadlines should skip
+router.post('/court-holidays', [
+  body('date').isISO8601().withMessage('Valid date is required'),
+  body('name').trim().isLength({ min: 1 }).withMessage('Name is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const holidayId = uuidv4();
+    await database.run(
+      'INSERT INTO court_holidays (id, user_id, date, name) VALUES (?, ?, ?, ?)',
+      [holidayId, req.user.id, req.body.date.slice(0, 10), req.body.name]
+    );
+
+    const holiday = await database.get('SELECT * FROM court_holidays WHERE id = ?', [holidayId]);
+
+    res.status(201).json({
+      message: 'Court holiday added successfully',
+      holiday
+    });
+
+  } catch (error) {
+    console.error('Add court holiday error:', error);
+    res.status(500).json({
+      error: 'Failed to add court holiday',
+      message: 'An error occurred while adding the court holiday'
+    });
+  }
+});
+
+router.delete('/court-holidays/:id', async (req, res) => {
+  try {
+    const result = await database.run(
+      'DELETE FROM court_holidays WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (result.changes === 0) {
+      return res.status(404).json({
+        error: 'Court holiday not found',
+        message: 'Court holiday not found or you do not have permission to delete it'
+      });
+    }
+
+    res.json({
+      message: 'Court holiday deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete court holiday error:', error);
+    res.status(500).json({
+      error: 'Failed to delete court holiday',
+      message: 'An error occurred while deleting the court holiday'
+    });
+  }
+});
+
+module.exports = router;
@@ -2,12 +2,319 @@ const express = require('express');
 const { body, validationResult, query } = require('express-validator');
 const { v4: uuidv4 } = require('uuid');
 const { database } = require('../config/database');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const { JURISDICTIONS, calculateStatuteOfLimitations } = require('../services/statuteOfLimitations');
+const { RULE_SETS, TRIGGER_TYPES, SERVICE_METHODS, generateDeadlineChain } = require('../services/courtRules');
+const { notify } = require('../services/notifications');
+const { MESSAGE_TYPES, SENDERS, AMOUNT_REQUIRED, summarizeNegotiation } = require('../services/negotiationLedger');
+const {
+  FEE_STAGES,
+  LIEN_TYPES,
+  approvalProblem,
+  toStatement,
+  approveStatement
+} = require('../services/settlementStatement');
+const { LIEN_STATUSES, RESOLVED_LIEN_STATUSES, toLien } = require('../services/liens');
+const { EXPENSE_CATEGORIES, summarizeExpenses } = require('../services/expenses');
+const { ANALYTICS_RANGES, rangeStart, timeInStage, buildCaseAnalytics } = require('../services/analytics');
+const { workflowKey, toCaseWorkflow, findStage, transitionBlocker } = require('../services/workflow');
+const { clientFromContact, caseContact } = require('../services/clients');
+const { PARTY_ROLES, searchConflicts, clearanceProblem, loadRegistry } = require('../services/conflicts');
+const {
+  ACTIVITY_CODES,
+  INVOICE_STATUSES,
+  elapsedMinutes,
+  isUnbilled,
+  buildInvoiceLines,
+  invoiceTotal,
+  nextInvoiceNumber,
+  invoiceDueDate,
+  toDateString,
+  toTimeEntry,
+  toInvoice
+} = require('../services/billing');
 
 const router = express.Router();
 
+const CASE_TYPES = ['personal_injury', 'auto_accident', 'medical_malpractice', 'workers_comp', 'other'];
+
+// Case fields whose every change is kept in case_status_history
+const TRACKED_FIELDS = ['status', 'priority'];
+
+// Case fields copied from the case's client record
+const CLIENT_CONTACT_FIELDS = ['clientName', 'clientEmail', 'clientPhone', 'clientDateOfBirth'];
+
+const CLIENT_NOT_FOUND = {
+  error: 'Client not found',
+  message: 'Client not found or you do not have permission to use it'
+};
+
+// Roles of the parties sent with a new case; the client is the case's client record
+const CASE_PARTY_ROLES = Object.keys(PARTY_ROLES).filter(role => role !== 'client');
+
+// Case fields that feed the statute of limitations calculation
+const STATUTE_INPUTS = ['jurisdiction', 'caseType', 'incidentDate', 'discoveryDate', 'clientDateOfBirth'];
+
+// Request fields a case update may set and the cases columns they are stored in
+const CASE_UPDATE_FIELDS = {
+  title: 'title',
+  clientId: 'client_id',
+  clientName: 'client_name',
+  clientEmail: 'client_email',
+  clientPhone: 'client_phone',
+  clientDateOfBirth: 'client_date_of_birth',
+  status: 'status',
+  priority: 'priority',
+  description: 'description',
+  insuranceCompany: 'insurance_company',
+  insuranceAdjuster: 'insurance_adjuster',
+  insuranceClaimNumber: 'insurance_claim_number',
+  caseType: 'case_type',
+  incidentDate: 'incident_date',
+  jurisdiction: 'jurisdiction',
+  discoveryDate: 'discovery_date',
+  assignedAttorneyId: 'assigned_attorney_id'
+};
+
+// Case fields a case update may not set, and where they come from instead
+const DERIVED_CASE_FIELDS = {
+  settlementAmount: 'The settlement amount is set when both sides approve the settlement statement',
+  financialsLocked: 'Case financials lock only when both sides approve the settlement statement',
+  currentOffer: 'The current offer follows the negotiation ledger; record the offer there'
+};
+
+const statuteValidators = [
+  body('jurisdiction').optional({ checkFalsy: true }).trim().toUpperCase().isIn(Object.keys(JURISDICTIONS))
+    .withMessage(`Jurisdiction must be one of ${Object.keys(JURISDICTIONS).join(', ')}`),
+  body('discoveryDate').optional({ checkFalsy: true }).isISO8601(),
+  body('clientDateOfBirth').optional({ checkFalsy: true }).isISO8601()
+];
+
+const FINANCIALS_LOCKED = {
+  error: 'Financials locked',
+  message: 'Case financials are locked by an approved settlement statement'
+};
+
+const deadlineTriggerValidators = [
+  body('ruleSet').isIn(Object.keys(RULE_SETS)).withMessage(`Rule set must be one of ${Object.keys(RULE_SETS).join(', ')}`),
+  body('triggerType').isIn(Object.keys(TRIGGER_TYPES)).withMessage('Valid trigger type is required'),
+  body('triggerDate').isISO8601().withMessage('Valid trigger date is required'),
+  body('serviceMethod').optional().isIn(Object.keys(SERVICE_METHODS))
+];
+
+const lienValidators = [
+  body('type').isIn(LIEN_TYPES).withMessage(`Lien type must be one of ${LIEN_TYPES.join(', ')}`),
+  body('holder').trim().isLength({ min: 1 }).withMessage('Lienholder is required'),
+  body('assertedAmount').isFloat({ gt: 0 }).withMessage('Asserted amount must be a positive amount'),
+  body('reductionAmount').optional().isFloat({ min: 0 })
+    .custom((value, { req }) => Number(value) <= Number(req.body.assertedAmount))
+    .withMessage('Reduction cannot exceed the asserted amount'),
+  body('status').optional().isIn(LIEN_STATUSES).withMessage(`Status must be one of ${LIEN_STATUSES.join(', ')}`),
+  body('documentIds').optional().isArray(),
+  body('notes').optional().trim()
+];
+
+const expenseValidators = [
+  body('date').isISO8601().withMessage('Valid expense date is required'),
+  body('category').isIn(EXPENSE_CATEGORIES).withMessage(`Category must be one of ${EXPENSE_CATEGORIES.join(', ')}`),
+  body('description').trim().isLength({ min: 1 }).withMessage('Description is required'),
+  body('vendor').optional().trim(),
+  body('amount').isFloat({ gt: 0 }).withMessage('Amount must be a positive amount'),
+  body('billable').optional().isBoolean(),
+  body('reimbursable').optional().isBoolean(),
+  body('receiptDocumentId').optional({ nullable: true }).isString()
+];
+
+const timeEntryValidators = [
+  body('timekeeperId').optional().isInt({ min: 1 }).toInt(),
+  body('activityCode').isIn(Object.keys(ACTIVITY_CODES))
+    .withMessage(`Activity code must be one of ${Object.keys(ACTIVITY_CODES).join(', ')}`),
+  body('description').trim().isLength({ min: 1 }).withMessage('Description is required'),
+  body('rate').optional().isFloat({ gt: 0 }).withMessage('Rate must be a positive amount')
+];
+
+const manualTimeEntryValidators = [
+  ...timeEntryValidators,
+  body('date').isISO8601().withMessage('Valid date is required'),
+  body('minutes').isInt({ min: 1 }).withMessage('Minutes must be a positive whole number').toInt()
+];
+
+const BILLED_ENTRY = {
+  error: 'Time entry billed',
+  message: 'Time entries on an invoice cannot be changed'
+};
+
+// The member who did the work, who must belong to the requesting user's firm. Users
+// without a firm can only record their own time.
+async function findTimekeeper(userId, timekeeperId) {
+  return database.get(
+    `SELECT id, first_name, last_name, billing_rate FROM users
+     WHERE id = ? AND is_active = 1
+       AND (id = ? OR (COALESCE(firm_name, '') != ''
+         AND firm_name = (SELECT firm_name FROM users WHERE id = ?)))`,
+    [timekeeperId || userId, userId, userId]
+  );
+}
+
+// Who did the work and the rate it is billed at: the rate sent with the entry, else the
+// member's own billing rate. Returns an error response body when neither resolves.
+async function timekeeperFields(req) {
+  const timekeeper = await findTimekeeper(req.user.id, req.body.timekeeperId);
+  if (!timekeeper) {
+    return {
+      error: {
+        error: 'Invalid timekeeper',
+        message: 'Time can only be recorded for active members of your firm'
+      }
+    };
+  }
+
+  const rate = Number(req.body.rate) || Number(timekeeper.billing_rate) || 0;
+  if (rate <= 0) {
+    return {
+      error: {
+        error: 'Billing rate required',
+        message: 'Send a rate or set a billing rate for this member'
+      }
+    };
+  }
+
+  return {
+    timekeeperId: timekeeper.id,
+    timekeeperName: `${timekeeper.first_name} ${timekeeper.last_name}`,
+    rate
+  };
+}
+
+// Number of a case's liens that are neither paid nor waived
+async function countUnresolvedLiens(caseId) {
+  const { count } = await database.get(
+    `SELECT COUNT(*) AS count FROM case_liens
+     WHERE case_id = ? AND status NOT IN (${RESOLVED_LIEN_STATUSES.map(() => '?').join(', ')})`,
+    [caseId, ...RESOLVED_LIEN_STATUSES]
+  );
+  return count;
+}
+
+// The workflow the user applies to a case type
+async function findCaseWorkflow(user, caseType) {
+  const row = await database.get(
+    'SELECT * FROM case_workflows WHERE firm_key = ? AND case_type = ?',
+    [workflowKey(user), caseType]
+  );
+  return toCaseWorkflow(row, caseType);
+}
+
+async function listChecklistItems(caseId) {
+  return database.all(
+    'SELECT * FROM case_checklist_items WHERE case_id = ? ORDER BY completed_at ASC',
+    [caseId]
+  );
+}
+
+// Adds a stage's tasks to the case's deadlines; called when the case enters the stage
+async function createStageTasks(userId, caseId, stage) {
+  for (const task of stage.tasks) {
+    const due = new Date();
+    due.setDate(due.getDate() + task.dueInDays);
+    await database.run(
+      'INSERT INTO deadlines (case_id, user_id, title, description, due_date, priority) VALUES (?, ?, ?, ?, ?, ?)',
+      [caseId, userId, task.title, `Workflow task for the ${stage.status} stage`,
+        `${toDateString(due)}${COURT_DEADLINE_TIME}`, task.priority]
+    );
+  }
+}
+
+async function findClient(userId, clientId) {
+  return database.get('SELECT * FROM clients WHERE id = ? AND user_id = ?', [clientId, userId]);
+}
+
+// Copies a client's contact details onto every one of their cases
+async function syncClientCases(client) {
+  const contact = caseContact(client);
+  await database.run(
+    `UPDATE cases SET client_name = ?, client_email = ?, client_phone = ?,
+       client_date_of_birth = COALESCE(?, client_date_of_birth), updated_at = datetime("now")
+     WHERE client_id = ?`,
+    [contact.client_name, contact.client_email, contact.client_phone, contact.client_date_of_birth, client.id]
+  );
+}
+
+// Linked correspondence must be documents filed on the same case
+async function findForeignDocuments(caseId, documentIds) {
+  if (documentIds.length === 0) return [];
+  const rows = await database.all(
+    `SELECT id FROM documents WHERE case_id = ? AND id IN (${documentIds.map(() => '?').join(', ')})`,
+    [caseId, ...documentIds]
+  );
+  return documentIds.filter(id => !rows.some(row => row.id === id));
+}
+
+// Tells the case owner and the assigned attorney that a case changed status.
+// Settling a case is a settlement alert rather than a plain case update.
+async function notifyStatusChange(previous, updated) {
+  const recipients = new Set([updated.user_id, updated.assigned_attorney_id].filter(Boolean));
+  const settled = updated.status === 'settled';
+
+  for (const userId of recipients) {
+    await notify(userId, {
+      category: settled ? 'settlement' : 'case_update',
+      title: settled ? `Case settled: ${updated.case_number}` : `Case ${updated.case_number} is now ${updated.status}`,
+      message: `${updated.title} moved from ${previous.status} to ${updated.status}.`,
+      caseId: updated.id
+    });
+  }
+}
+
+// Court deadlines are calendared for the end of the business day
+const COURT_DEADLINE_TIME = 'T17:00';
+
+// Brings the deadlines linked to a trigger in line with its recomputed chain. Existing
+// deadlines keep their id and status; deadlines whose rule no longer applies are removed.
+async function syncDeadlineChain(trigger) {
+  const holidays = await database.all(
+    'SELECT date, name FROM court_holidays WHERE user_id = ?',
+    [trigger.user_id]
+  );
+  const chain = generateDeadlineChain({
+    ruleSet: trigger.rule_set,
+    triggerType: trigger.trigger_type,
+    triggerDate: trigger.trigger_date,
+    serviceMethod: trigger.service_method,
+    holidays
+  });
+  const linked = await database.all('SELECT id, rule_id FROM deadlines WHERE trigger_id = ?', [trigger.id]);
+
+  for (const computed of chain) {
+    const description = `Computed from ${TRIGGER_TYPES[trigger.trigger_type].toLowerCase()} on ${trigger.trigger_date}. ${computed.explanation.join(' ')}`;
+    const dueDate = `${computed.dueDate}${COURT_DEADLINE_TIME}`;
+    const existing = linked.find(row => row.rule_id === computed.rule.id);
+
+    if (existing) {
+      await database.run(
+        'UPDATE deadlines SET title = ?, description = ?, due_date = ?, priority = ? WHERE id = ?',
+        [computed.rule.title, description, dueDate, computed.rule.priority, existing.id]
+      );
+    } else {
+      await database.run(
+        `INSERT INTO deadlines (case_id, user_id, title, description, due_date, priority, trigger_id, rule_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [trigger.case_id, trigger.user_id, computed.rule.title, description, dueDate, computed.rule.priority, trigger.id, computed.rule.id]
+      );
+    }
+  }
+
+  for (const row of linked) {
+    if (!chain.some(computed => computed.rule.id === row.rule_id)) {
+      await database.run('DELETE FROM deadlines WHERE id = ?', [row.id]);
+    }
+  }
+
+  return database.all('SELECT * FROM deadlines WHERE trigger_id = ? ORDER BY due_date ASC', [trigger.id]);
+}
+
 // All routes require authentication
-router.use(authenticateToken);
+router.use(authenticateToken, requireStaff);
 
 // Get all cases for the authenticated user
 router.get('/', [
@@ -55,9 +362,12 @@ router.get('/', [
     const countResult = await database.get(countQuery, params);
     const total = countResult.total;
 
-    // Get cases with pagination
+    // Get cases with pagination; unresolved_liens flags cases that cannot be closed yet
     const casesQuery = `
-      SELECT * FROM cases 
+      SELECT cases.*,
+        (SELECT COUNT(*) FROM case_liens l
+         WHERE l.case_id = cases.id AND l.status NOT IN ('paid', 'waived')) AS unresolved_liens
+      FROM cases 
       ${whereClause} 
       ORDER BY created_at DESC 
       LIMIT ? OFFSET ?
@@ -116,11 +426,34 @@ router.get('/:id', async (req, res) => {
       [req.params.id]
     );
 
+    // Status and priority changes, oldest first
+    const history = await database.all(
+      'SELECT * FROM case_status_history WHERE case_id = ? ORDER BY changed_at ASC',
+      [req.params.id]
+    );
+
+    const workflow = await findCaseWorkflow(req.user, caseData.case_type);
+    const checklist = await listChecklistItems(req.params.id);
+
+    // Governing rule, citation and explanation for the stored deadline
+    const statuteOfLimitations = calculateStatuteOfLimitations({
+      jurisdiction: caseData.jurisdiction,
+      caseType: caseData.case_type,
+      incidentDate: caseData.incident_date,
+      discoveryDate: caseData.discovery_date,
+      clientDateOfBirth: caseData.client_date_of_birth
+    });
+
     res.json({
       case: caseData,
+      statuteOfLimitations,
       notes,
       deadlines,
-      documents
+      documents,
+      history,
+      timeInStage: timeInStage([caseData], history),
+      workflow,
+      checklist
     });
 
   } catch (error) {
@@ -135,16 +468,27 @@ router.get('/:id', async (req, res) => {
 // Create a new case
 router.post('/', [
   body('title').trim().isLength({ min: 1 }).withMessage('Title is required'),
-  body('clientName').trim().isLength({ min: 1 }).withMessage('Client name is required'),
+  body('clientId').optional().isString(),
+  body('clientName').if(body('clientId').not().exists()).trim().isLength({ min: 1 }).withMessage('Client name is required'),
   body('clientEmail').optional().isEmail(),
   body('clientPhone').optional().trim(),
-  body('caseType').isIn(['personal_injury', 'auto_accident', 'medical_malpractice', 'workers_comp', 'other']),
+  body('caseType').isIn(CASE_TYPES),
   body('priority').optional().isIn(['low', 'medium', 'high', 'urgent']),
   body('description').optional().trim(),
   body('incidentDate').optional().isISO8601(),
   body('insuranceCompany').optional().trim(),
   body('insuranceAdjuster').optional().trim(),
-  body('insuranceClaimNumber').optional().trim()
+  body('insuranceClaimNumber').optional().trim(),
+  body('assignedAttorneyId').optional({ checkFalsy: true }).isInt(),
+  body('parties').optional().isArray(),
+  body('parties.*.role').isIn(CASE_PARTY_ROLES)
+    .withMessage(`Party role must be one of ${CASE_PARTY_ROLES.join(', ')}`),
+  body('parties.*.name').trim().isLength({ min: 1 }).withMessage('Party name is required'),
+  body('parties.*.email').optional({ checkFalsy: true }).isEmail(),
+  body('parties.*.phone').optional().trim(),
+  body('conflictCheck.cleared').optional().isBoolean(),
+  body('conflictCheck.notes').optional().trim(),
+  ...statuteValidators
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -157,6 +501,7 @@ router.post('/', [
 
     const {
       title,
+      clientId,
       clientName,
       clientEmail,
       clientPhone,
@@ -166,33 +511,108 @@ router.post('/', [
       incidentDate,
       insuranceCompany,
       insuranceAdjuster,
-      insuranceClaimNumber
+      insuranceClaimNumber,
+      jurisdiction,
+      discoveryDate,
+      clientDateOfBirth,
+      assignedAttorneyId,
+      parties = [],
+      conflictCheck = {}
     } = req.body;
 
+    // The case links to the given client, or to a new client record for the details sent
+    let client;
+    if (clientId) {
+      client = await findClient(req.user.id, clientId);
+      if (!client) {
+        return res.status(404).json(CLIENT_NOT_FOUND);
+      }
+    } else {
+      client = {
+        id: uuidv4(),
+        ...clientFromContact({
+          client_name: clientName,
+          client_email: clientEmail,
+          client_phone: clientPhone,
+          client_date_of_birth: clientDateOfBirth
+        })
+      };
+    }
+
+    // The firm must not open a case against someone it represents or has represented
+    const searched = [
+      { role: 'client', name: client.name, email: client.email || '', phone: client.phone || '' },
+      ...parties.map(party => ({ role: party.role, name: party.name, email: party.email || '', phone: party.phone || '' }))
+    ];
+    const conflicts = searchConflicts(searched, await loadRegistry(req.user.id), clientId ? [client.id] : []);
+    const problem = clearanceProblem(conflicts, conflictCheck.cleared === true, conflictCheck.notes);
+    if (problem) {
+      return res.status(409).json({
+        error: 'Conflict check not cleared',
+        message: problem,
+        conflictCheck: conflicts
+      });
+    }
+
+    if (!clientId) {
+      await database.run(
+        `INSERT INTO clients (id, user_id, name, email, phone, date_of_birth, preferred_contact_method)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [client.id, req.user.id, client.name, client.email, client.phone, client.date_of_birth, client.preferred_contact_method]
+      );
+    }
+    const contact = caseContact(client);
+    const dateOfBirth = clientDateOfBirth || contact.client_date_of_birth;
+
     const caseId = uuidv4();
     const caseNumber = `${caseType.toUpperCase()}-${new Date().getFullYear()}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
 
-    // Calculate statute of limitations (2 years from incident date for most cases)
-    let statuteOfLimitations = null;
-    if (incidentDate) {
-      const incident = new Date(incidentDate);
-      statuteOfLimitations = new Date(incident.getTime() + (2 * 365 * 24 * 60 * 60 * 1000)); // 2 years
-    }
+    // Statute of limitations from the jurisdiction's rule for this case type
+    const statute = calculateStatuteOfLimitations({
+      jurisdiction,
+      caseType,
+      incidentDate,
+      discoveryDate,
+      clientDateOfBirth: dateOfBirth
+    });
 
-    const result = await database.run(
+    await database.run(
       `INSERT INTO cases (
-        id, user_id, case_number, title, client_name, client_email, client_phone,
+        id, user_id, case_number, title, client_id, client_name, client_email, client_phone,
         case_type, priority, description, incident_date, statute_of_limitations,
-        insurance_company, insurance_adjuster, insurance_claim_number
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        insurance_company, insurance_adjuster, insurance_claim_number,
+        jurisdiction, discovery_date, client_date_of_birth, statute_rule, assigned_attorney_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
-        caseId, req.user.id, caseNumber, title, clientName, clientEmail || null,
-        clientPhone || null, caseType, priority, description || null,
-        incidentDate || null, statuteOfLimitations ? statuteOfLimitations.toISOString() : null,
-        insuranceCompany || null, insuranceAdjuster || null, insuranceClaimNumber || null
+        caseId, req.user.id, caseNumber, title, client.id, contact.client_name, contact.client_email,
+        contact.client_phone, caseType, priority, description || null,
+        incidentDate || null, statute ? statute.deadline : null,
+        insuranceCompany || null, insuranceAdjuster || null, insuranceClaimNumber || null,
+        jurisdiction || null, discoveryDate || null, dateOfBirth || null,
+        statute ? statute.ruleId : null, assignedAttorneyId || null
       ]
     );
 
+    // Record the parties and who cleared the check, which completes the intake checklist item
+    for (const party of searched.slice(1)) {
+      await database.run(
+        'INSERT INTO case_parties (id, case_id, user_id, role, name, email, phone) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [uuidv4(), caseId, req.user.id, party.role, party.name, party.email || null, party.phone || null]
+      );
+    }
+    const clearedBy = `${req.user.first_name} ${req.user.last_name}`;
+    await database.run(
+      `INSERT INTO conflict_checks (id, case_id, user_id, parties, matches, checked_at, cleared_by, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), caseId, req.user.id, JSON.stringify(conflicts.parties), JSON.stringify(conflicts.matches),
+        conflicts.checked_at, clearedBy, conflictCheck.notes || null]
+    );
+    await database.run(
+      `INSERT OR IGNORE INTO case_checklist_items (id, case_id, user_id, item_id, completed_by)
+       VALUES (?, ?, ?, 'conflict_check', ?)`,
+      [uuidv4(), caseId, req.user.id, clearedBy]
+    );
+
     // Get the created case
     const newCase = await database.get(
       'SELECT * FROM cases WHERE id = ?',
@@ -201,7 +621,8 @@ router.post('/', [
 
     res.status(201).json({
       message: 'Case created successfully',
-      case: newCase
+      case: newCase,
+      statuteOfLimitations: statute
     });
 
   } catch (error) {
@@ -216,16 +637,20 @@ router.post('/', [
 // Update a case
 router.put('/:id', [
   body('title').optional().trim().isLength({ min: 1 }),
+  body('clientId').optional().isString(),
   body('clientName').optional().trim().isLength({ min: 1 }),
   body('clientEmail').optional().isEmail(),
   body('clientPhone').optional().trim(),
   body('status').optional().isIn(['open', 'closed', 'settled', 'dismissed']),
   body('priority').optional().isIn(['low', 'medium', 'high', 'urgent']),
   body('description').optional().trim(),
-  body('settlementAmount').optional().isFloat({ min: 0 }),
   body('insuranceCompany').optional().trim(),
   body('insuranceAdjuster').optional().trim(),
-  body('insuranceClaimNumber').optional().trim()
+  body('insuranceClaimNumber').optional().trim(),
+  body('caseType').optional().isIn(CASE_TYPES),
+  body('incidentDate').optional({ checkFalsy: true }).isISO8601(),
+  body('assignedAttorneyId').optional({ checkFalsy: true }).isInt(),
+  ...statuteValidators
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -236,6 +661,14 @@ router.put('/:id', [
       });
     }
 
+    const derived = Object.keys(DERIVED_CASE_FIELDS).find(key => req.body[key] !== undefined);
+    if (derived) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: DERIVED_CASE_FIELDS[derived]
+      });
+    }
+
     // Check if case exists and belongs to user
     const existingCase = await database.get(
       'SELECT * FROM cases WHERE id = ? AND user_id = ?',
@@ -249,17 +682,70 @@ router.put('/:id', [
       });
     }
 
+    // Moving the case to another client brings that client's contact details with it
+    const newClient = req.body.clientId ? await findClient(req.user.id, req.body.clientId) : null;
+    if (req.body.clientId && !newClient) {
+      return res.status(404).json(CLIENT_NOT_FOUND);
+    }
+
+    // The workflow decides where the case can go next and what must be done first
+    const statusChanging = req.body.status !== undefined && req.body.status !== existingCase.status;
+    const workflow = statusChanging
+      ? await findCaseWorkflow(req.user, req.body.caseType || existingCase.case_type)
+      : null;
+
+    if (statusChanging) {
+      const completed = await listChecklistItems(req.params.id);
+      const blocker = transitionBlocker(
+        workflow,
+        existingCase.status,
+        req.body.status,
+        new Set(completed.map(row => row.item_id))
+      );
+      if (blocker) {
+        return res.status(409).json({
+          error: 'Transition blocked',
+          message: blocker
+        });
+      }
+    }
+
+    if (req.body.status === 'closed' && existingCase.status !== 'closed') {
+      const unresolved = await countUnresolvedLiens(req.params.id);
+      if (unresolved > 0) {
+        return res.status(409).json({
+          error: 'Unresolved liens',
+          message: `Resolve every lien (paid or waived) before closing the case; ${unresolved} still open`
+        });
+      }
+    }
+
     const updates = [];
     const values = [];
 
-    // Build dynamic update query
-    Object.keys(req.body).forEach(key => {
-      if (req.body[key] !== undefined) {
-        const dbField = key.replace(/([A-Z])/g, '_$1').toLowerCase();
-        updates.push(`${dbField} = ?`);
-        values.push(req.body[key]);
+    // Only the updatable fields are written; the statute of limitations is always derived and
+    // a new client's contact details replace any sent with it
+    for (const [field, column] of Object.entries(CASE_UPDATE_FIELDS)) {
+      if (newClient && CLIENT_CONTACT_FIELDS.includes(field)) continue;
+      if (req.body[field] !== undefined) {
+        updates.push(`${column} = ?`);
+        values.push(req.body[field]);
       }
-    });
+    }
+
+    // Recompute the statute of limitations when any of its inputs change
+    if (STATUTE_INPUTS.some(key => req.body[key] !== undefined)) {
+      const input = (key, column) => (req.body[key] !== undefined ? req.body[key] : existingCase[column]);
+      const statute = calculateStatuteOfLimitations({
+        jurisdiction: input('jurisdiction', 'jurisdiction'),
+        caseType: input('caseType', 'case_type'),
+        incidentDate: input('incidentDate', 'incident_date'),
+        discoveryDate: input('discoveryDate', 'discovery_date'),
+        clientDateOfBirth: input('clientDateOfBirth', 'client_date_of_birth')
+      });
+      updates.push('statute_of_limitations = ?', 'statute_rule = ?');
+      values.push(statute ? statute.deadline : null, statute ? statute.ruleId : null);
+    }
 
     if (updates.length === 0) {
       return res.status(400).json({
@@ -276,12 +762,50 @@ router.put('/:id', [
       values
     );
 
+    if (newClient) {
+      await syncClientCases(newClient);
+    } else if (existingCase.client_id && CLIENT_CONTACT_FIELDS.some(key => req.body[key] !== undefined)) {
+      // Contact details edited on a case belong to its client, and so to all of their cases
+      const edited = await database.get('SELECT * FROM cases WHERE id = ?', [req.params.id]);
+      await database.run(
+        `UPDATE clients SET name = ?, email = ?, phone = ?, date_of_birth = COALESCE(?, date_of_birth),
+           updated_at = datetime("now")
+         WHERE id = ? AND user_id = ?`,
+        [edited.client_name, edited.client_email, edited.client_phone, edited.client_date_of_birth,
+          existingCase.client_id, req.user.id]
+      );
+      const client = await findClient(req.user.id, existingCase.client_id);
+      if (client) await syncClientCases(client);
+    }
+
     // Get updated case
     const updatedCase = await database.get(
       'SELECT * FROM cases WHERE id = ?',
       [req.params.id]
     );
 
+    for (const field of TRACKED_FIELDS) {
+      if (updatedCase[field] !== existingCase[field]) {
+        await database.run(
+          `INSERT INTO case_status_history (id, case_id, user_id, actor_name, field, from_value, to_value)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [uuidv4(), updatedCase.id, req.user.id, `${req.user.first_name} ${req.user.last_name}`, field,
+            existingCase[field], updatedCase[field]]
+        );
+      }
+    }
+
+    if (updatedCase.status !== existingCase.status) {
+      const stage = findStage(workflow, updatedCase.status);
+      if (stage) await createStageTasks(req.user.id, updatedCase.id, stage);
+      // The change is saved; a failed notification must not report the update as failed
+      try {
+        await notifyStatusChange(existingCase, updatedCase);
+      } catch (error) {
+        console.error('Case status notification error:', error);
+      }
+    }
+
     res.json({
       message: 'Case updated successfully',
       case: updatedCase
@@ -312,6 +836,19 @@ router.delete('/:id', async (req, res) => {
       });
     }
 
+    // Trust records must be kept, so a case with trust activity cannot be deleted
+    const trustActivity = await database.get(
+      'SELECT id FROM trust_transactions WHERE case_id = ? LIMIT 1',
+      [req.params.id]
+    );
+
+    if (trustActivity) {
+      return res.status(409).json({
+        error: 'Trust activity on case',
+        message: 'Cases with trust account transactions cannot be deleted'
+      });
+    }
+
     // Delete case (cascade will handle related records)
     await database.run(
       'DELETE FROM cases WHERE id = ?',
@@ -439,20 +976,1353 @@ router.post('/:id/deadlines', [
   }
 });
 
-// Get case statistics
-router.get('/stats/overview', async (req, res) => {
+// List the trigger events of a case with the deadlines generated from each
+router.get('/:id/deadline-triggers', async (req, res) => {
   try {
-    const stats = await database.get(`
-      SELECT 
-        COUNT(*) as total_cases,
-        COUNT(CASE WHEN status = 'open' THEN 1 END) as open_cases,
-        COUNT(CASE WHEN status = 'settled' THEN 1 END) as settled_cases,
-        COUNT(CASE WHEN status = 'closed' THEN 1 END) as closed_cases,
-        COALESCE(SUM(settlement_amount), 0) as total_settlements,
-        COALESCE(AVG(settlement_amount), 0) as avg_settlement
-      FROM cases 
-      WHERE user_id = ?
-    `, [req.user.id]);
+    const triggers = await database.all(
+      'SELECT * FROM deadline_triggers WHERE case_id = ? AND user_id = ? ORDER BY trigger_date ASC',
+      [req.params.id, req.user.id]
+    );
+
+    for (const trigger of triggers) {
+      trigger.deadlines = await database.all(
+        'SELECT * FROM deadlines WHERE trigger_id = ? ORDER BY due_date ASC',
+        [trigger.id]
+      );
+    }
+
+    res.json({ triggers });
+
+  } catch (error) {
+    console.error('Get deadline triggers error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch deadline triggers',
+      message: 'An error occurred while fetching deadline triggers'
+    });
+  }
+});
+
+// Add a trigger event and generate its chain of court-rule deadlines
+router.post('/:id/deadline-triggers', deadlineTriggerValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to add deadlines'
+      });
+    }
+
+    const { ruleSet, triggerType, triggerDate, serviceMethod = 'personal' } = req.body;
+    const triggerId = uuidv4();
+
+    await database.run(
+      `INSERT INTO deadline_triggers (id, case_id, user_id, rule_set, trigger_type, trigger_date, service_method)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [triggerId, req.params.id, req.user.id, ruleSet, triggerType, triggerDate.slice(0, 10), serviceMethod]
+    );
+
+    const trigger = await database.get('SELECT * FROM deadline_triggers WHERE id = ?', [triggerId]);
+    trigger.deadlines = await syncDeadlineChain(trigger);
+
+    res.status(201).json({
+      message: 'Deadline chain created successfully',
+      trigger
+    });
+
+  } catch (error) {
+    console.error('Create deadline trigger error:', error);
+    res.status(500).json({
+      error: 'Failed to create deadline chain',
+      message: 'An error occurred while creating the deadline chain'
+    });
+  }
+});
+
+// Move a trigger event (or change its service method) and recompute the linked deadlines
+router.put('/:id/deadline-triggers/:triggerId', deadlineTriggerValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingTrigger = await database.get(
+      'SELECT id FROM deadline_triggers WHERE id = ? AND case_id = ? AND user_id = ?',
+      [req.params.triggerId, req.params.id, req.user.id]
+    );
+
+    if (!existingTrigger) {
+      return res.status(404).json({
+        error: 'Trigger not found',
+        message: 'Trigger not found or you do not have permission to update it'
+      });
+    }
+
+    const { ruleSet, triggerType, triggerDate, serviceMethod = 'personal' } = req.body;
+
+    await database.run(
+      `UPDATE deadline_triggers
+       SET rule_set = ?, trigger_type = ?, trigger_date = ?, service_method = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [ruleSet, triggerType, triggerDate.slice(0, 10), serviceMethod, req.params.triggerId]
+    );
+
+    const trigger = await database.get('SELECT * FROM deadline_triggers WHERE id = ?', [req.params.triggerId]);
+    trigger.deadlines = await syncDeadlineChain(trigger);
+
+    res.json({
+      message: 'Deadline chain recomputed successfully',
+      trigger
+    });
+
+  } catch (error) {
+    console.error('Update deadline trigger error:', error);
+    res.status(500).json({
+      error: 'Failed to update deadline chain',
+      message: 'An error occurred while recomputing the deadline chain'
+    });
+  }
+});
+
+// Delete a trigger event together with the deadlines generated from it
+router.delete('/:id/deadline-triggers/:triggerId', async (req, res) => {
+  try {
+    const existingTrigger = await database.get(
+      'SELECT id FROM deadline_triggers WHERE id = ? AND case_id = ? AND user_id = ?',
+      [req.params.triggerId, req.params.id, req.user.id]
+    );
+
+    if (!existingTrigger) {
+      return res.status(404).json({
+        error: 'Trigger not found',
+        message: 'Trigger not found or you do not have permission to delete it'
+      });
+    }
+
+    await database.run('DELETE FROM deadlines WHERE trigger_id = ?', [req.params.triggerId]);
+    await database.run('DELETE FROM deadline_triggers WHERE id = ?', [req.params.triggerId]);
+
+    res.json({
+      message: 'Deadline chain deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete deadline trigger error:', error);
+    res.status(500).json({
+      error: 'Failed to delete deadline chain',
+      message: 'An error occurred while deleting the deadline chain'
+    });
+  }
+});
+
+// Get a case's negotiation with its full ledger (null until the first entry)
+router.get('/:id/negotiation', async (req, res) => {
+  try {
+    const negotiation = await database.get(
+      'SELECT * FROM negotiations WHERE case_id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (negotiation) {
+      negotiation.messages = await database.all(
+        'SELECT * FROM negotiation_messages WHERE negotiation_id = ? ORDER BY timestamp ASC',
+        [negotiation.id]
+      );
+    }
+
+    res.json({ negotiation: negotiation || null });
+
+  } catch (error) {
+    console.error('Get negotiation error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch negotiation',
+      message: 'An error occurred while fetching the negotiation'
+    });
+  }
+});
+
+// Record a demand, offer or reply. The negotiation totals are replayed from the
+// ledger and the insurer's latest offer becomes the case's current_offer.
+router.post('/:id/negotiation/messages', [
+  body('type').isIn(MESSAGE_TYPES).withMessage(`Type must be one of ${MESSAGE_TYPES.join(', ')}`),
+  body('sender').isIn(SENDERS).withMessage(`Sender must be one of ${SENDERS.join(', ')}`),
+  body('amount').if(body('type').isIn(AMOUNT_REQUIRED)).isFloat({ gt: 0 })
+    .withMessage('A positive amount is required for demands, offers and counters'),
+  body('message').optional().trim(),
+  body('aiGenerated').optional().isBoolean(),
+  body('timestamp').optional().isISO8601()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id, insurance_company, financials_locked FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to negotiate it'
+      });
+    }
+
+    if (existingCase.financials_locked) {
+      return res.status(409).json(FINANCIALS_LOCKED);
+    }
+
+    let negotiation = await database.get('SELECT id FROM negotiations WHERE case_id = ?', [req.params.id]);
+    if (!negotiation) {
+      negotiation = { id: uuidv4() };
+      await database.run(
+        'INSERT INTO negotiations (id, case_id, user_id, insurance_company) VALUES (?, ?, ?, ?)',
+        [negotiation.id, req.params.id, req.user.id, existingCase.insurance_company]
+      );
+    }
+
+    const { type, sender, amount, message, aiGenerated, timestamp } = req.body;
+    await database.run(
+      `INSERT INTO negotiation_messages (id, negotiation_id, type, amount, message, sender, ai_generated, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        uuidv4(),
+        negotiation.id,
+        type,
+        AMOUNT_REQUIRED.includes(type) ? amount : null,
+        message || null,
+        sender,
+        aiGenerated === true || aiGenerated === 'true' ? 1 : 0,
+        timestamp || new Date().toISOString()
+      ]
+    );
+
+    const messages = await database.all(
+      'SELECT * FROM negotiation_messages WHERE negotiation_id = ? ORDER BY timestamp ASC',
+      [negotiation.id]
+    );
+    const summary = summarizeNegotiation(messages);
+
+    await database.run(
+      `UPDATE negotiations SET current_offer = ?, demand_amount = ?, status = ?, updated_at = datetime("now")
+       WHERE id = ?`,
+      [summary.currentOffer, summary.demandAmount, summary.status, negotiation.id]
+    );
+
+    if (summary.currentOffer) {
+      await database.run(
+        'UPDATE cases SET current_offer = ?, updated_at = datetime("now") WHERE id = ?',
+        [summary.currentOffer, req.params.id]
+      );
+    }
+
+    const updated = await database.get('SELECT * FROM negotiations WHERE id = ?', [negotiation.id]);
+    updated.messages = messages;
+
+    res.status(201).json({
+      message: 'Negotiation entry recorded successfully',
+      negotiation: updated
+    });
+
+  } catch (error) {
+    console.error('Record negotiation entry error:', error);
+    res.status(500).json({
+      error: 'Failed to record negotiation entry',
+      message: 'An error occurred while recording the negotiation entry'
+    });
+  }
+});
+
+// Get a case's settlement distribution statement (null until one is saved)
+router.get('/:id/settlement-statement', async (req, res) => {
+  try {
+    const row = await database.get(
+      'SELECT * FROM settlement_statements WHERE case_id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    res.json({ statement: row ? toStatement(row) : null });
+
+  } catch (error) {
+    console.error('Get settlement statement error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch settlement statement',
+      message: 'An error occurred while fetching the settlement statement'
+    });
+  }
+});
+
+// Create or replace the statement. Saving withdraws earlier approvals, since they
+// were given for different figures; a locked statement can no longer change.
+router.put('/:id/settlement-statement', [
+  body('grossSettlement').isFloat({ gt: 0 }).withMessage('Gross settlement must be a positive amount'),
+  body('feeStage').isIn(Object.keys(FEE_STAGES))
+    .withMessage(`Fee stage must be one of ${Object.keys(FEE_STAGES).join(', ')}`),
+  body('feePercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Fee percent must be between 0 and 100'),
+  body('costs').optional().isArray(),
+  body('costs.*.description').trim().isLength({ min: 1 }).withMessage('Each cost needs a description'),
+  body('costs.*.amount').isFloat({ min: 0 }).withMessage('Each cost needs a non-negative amount'),
+  body('liens').optional().isArray(),
+  body('liens.*.type').isIn(LIEN_TYPES).withMessage(`Lien type must be one of ${LIEN_TYPES.join(', ')}`),
+  body('liens.*.holder').trim().isLength({ min: 1 }).withMessage('Each lien needs a lienholder'),
+  body('liens.*.amount').isFloat({ min: 0 }).withMessage('Each lien needs a non-negative amount')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id, financials_locked FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to update it'
+      });
+    }
+
+    if (existingCase.financials_locked) {
+      return res.status(409).json(FINANCIALS_LOCKED);
+    }
+
+    const { grossSettlement, feeStage } = req.body;
+    const feePercent = req.body.feePercent !== undefined ? req.body.feePercent : FEE_STAGES[feeStage].percent;
+    const costs = (req.body.costs || []).map(({ id, description, amount }) => ({
+      id: id || uuidv4(), description, amount: Number(amount)
+    }));
+    const liens = (req.body.liens || []).map(({ id, type, holder, amount }) => ({
+      id: id || uuidv4(), type, holder, amount: Number(amount)
+    }));
+
+    await database.run(
+      `INSERT INTO settlement_statements (id, case_id, user_id, gross_settlement, fee_stage, fee_percent, costs, liens)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(case_id) DO UPDATE SET
+         gross_settlement = excluded.gross_settlement,
+         fee_stage = excluded.fee_stage,
+         fee_percent = excluded.fee_percent,
+         costs = excluded.costs,
+         liens = excluded.liens,
+         attorney_approved_by = NULL,
+         attorney_approved_at = NULL,
+         client_approved_by = NULL,
+         client_approved_at = NULL,
+         updated_at = datetime("now")`,
+      [uuidv4(), req.params.id, req.user.id, grossSettlement, feeStage, feePercent, JSON.stringify(costs), JSON.stringify(liens)]
+    );
+
+    const row = await database.get('SELECT * FROM settlement_statements WHERE case_id = ?', [req.params.id]);
+
+    res.json({
+      message: 'Settlement statement saved successfully',
+      statement: toStatement(row)
+    });
+
+  } catch (error) {
+    console.error('Save settlement statement error:', error);
+    res.status(500).json({
+      error: 'Failed to save settlement statement',
+      message: 'An error occurred while saving the settlement statement'
+    });
+  }
+});
+
+// Record the attorney's approval; the client approves from the client portal. Once both
+// have approved, the statement is locked and the gross becomes the case's settlement amount.
+router.post('/:id/settlement-statement/approve', [
+  body('party').optional().equals('attorney')
+    .withMessage('The client approves the statement from the client portal'),
+  body('name').trim().isLength({ min: 1 }).withMessage('Name of the approving person is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const row = await database.get(
+      'SELECT * FROM settlement_statements WHERE case_id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!row) {
+      return res.status(404).json({
+        error: 'Settlement statement not found',
+        message: 'Save a settlement statement before approving it'
+      });
+    }
+
+    if (row.locked_at) {
+      return res.status(409).json(FINANCIALS_LOCKED);
+    }
+
+    const problem = approvalProblem(toStatement(row).distribution);
+    if (problem) {
+      return res.status(409).json({
+        error: 'Statement cannot be approved',
+        message: problem
+      });
+    }
+
+    const updated = await approveStatement(row, 'attorney', req.body.name);
+
+    res.json({
+      message: updated.lockedAt ? 'Settlement statement approved and locked' : 'Approval recorded',
+      statement: updated
+    });
+
+  } catch (error) {
+    console.error('Approve settlement statement error:', error);
+    res.status(500).json({
+      error: 'Failed to approve settlement statement',
+      message: 'An error occurred while approving the settlement statement'
+    });
+  }
+});
+
+// Get the case's parties and the conflict check cleared when it was opened
+router.get('/:id/conflict-check', async (req, res) => {
+  try {
+    const caseData = await database.get(
+      'SELECT id FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!caseData) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to view it'
+      });
+    }
+
+    const parties = await database.all(
+      'SELECT * FROM case_parties WHERE case_id = ? ORDER BY created_at ASC',
+      [caseData.id]
+    );
+    const report = await database.get(
+      'SELECT * FROM conflict_checks WHERE case_id = ? ORDER BY cleared_at DESC LIMIT 1',
+      [caseData.id]
+    );
+
+    res.json({
+      parties,
+      conflictCheck: report
+        ? { ...report, parties: JSON.parse(report.parties), matches: JSON.parse(report.matches) }
+        : null
+    });
+
+  } catch (error) {
+    console.error('Get conflict check error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch conflict check',
+      message: 'An error occurred while fetching the conflict check'
+    });
+  }
+});
+
+// The case's workflow checklist: the items of its current stage and which are done
+router.get('/:id/checklist', async (req, res) => {
+  try {
+    const caseData = await database.get(
+      'SELECT id, case_type, status FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!caseData) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to view it'
+      });
+    }
+
+    const workflow = await findCaseWorkflow(req.user, caseData.case_type);
+    const stage = findStage(workflow, caseData.status);
+
+    res.json({
+      status: caseData.status,
+      items: stage ? stage.checklist : [],
+      transitions: stage ? stage.transitions : [],
+      completed: await listChecklistItems(req.params.id)
+    });
+
+  } catch (error) {
+    console.error('Get checklist error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch checklist',
+      message: 'An error occurred while fetching the checklist'
+    });
+  }
+});
+
+// Check a workflow checklist item off, or back on
+router.put('/:id/checklist/:itemId', [
+  body('completed').isBoolean().withMessage('Completed must be true or false')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const caseData = await database.get(
+      'SELECT id FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!caseData) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to update it'
+      });
+    }
+
+    if (req.body.completed === true || req.body.completed === 'true') {
+      await database.run(
+        `INSERT OR IGNORE INTO case_checklist_items (id, case_id, user_id, item_id, completed_by)
+         VALUES (?, ?, ?, ?, ?)`,
+        [uuidv4(), req.params.id, req.user.id, req.params.itemId, `${req.user.first_name} ${req.user.last_name}`]
+      );
+    } else {
+      await database.run(
+        'DELETE FROM case_checklist_items WHERE case_id = ? AND item_id = ?',
+        [req.params.id, req.params.itemId]
+      );
+    }
+
+    res.json({
+      message: 'Checklist updated successfully',
+      completed: await listChecklistItems(req.params.id)
+    });
+
+  } catch (error) {
+    console.error('Update checklist error:', error);
+    res.status(500).json({
+      error: 'Failed to update checklist',
+      message: 'An error occurred while updating the checklist'
+    });
+  }
+});
+
+// List a case's liens with their payoff amounts
+router.get('/:id/liens', async (req, res) => {
+  try {
+    const liens = await database.all(
+      'SELECT * FROM case_liens WHERE case_id = ? AND user_id = ? ORDER BY created_at ASC',
+      [req.params.id, req.user.id]
+    );
+
+    res.json({ liens: liens.map(toLien) });
+
+  } catch (error) {
+    console.error('Get liens error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch liens',
+      message: 'An error occurred while fetching the liens'
+    });
+  }
+});
+
+// Add a lien to the case's register
+router.post('/:id/liens', lienValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to add liens'
+      });
+    }
+
+    const { type, holder, assertedAmount, reductionAmount = 0, status = 'asserted', documentIds = [], notes } = req.body;
+    const foreignDocuments = await findForeignDocuments(req.params.id, documentIds);
+    if (foreignDocuments.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid documents',
+        message: `Documents not found on this case: ${foreignDocuments.join(', ')}`
+      });
+    }
+
+    const lienId = uuidv4();
+    await database.run(
+      `INSERT INTO case_liens (id, case_id, user_id, type, holder, asserted_amount, reduction_amount, status, document_ids, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [lienId, req.params.id, req.user.id, type, holder, assertedAmount, reductionAmount, status,
+        JSON.stringify(documentIds), notes || null]
+    );
+
+    const lien = await database.get('SELECT * FROM case_liens WHERE id = ?', [lienId]);
+
+    res.status(201).json({
+      message: 'Lien added successfully',
+      lien: toLien(lien)
+    });
+
+  } catch (error) {
+    console.error('Create lien error:', error);
+    res.status(500).json({
+      error: 'Failed to add lien',
+      message: 'An error occurred while adding the lien'
+    });
+  }
+});
+
+// Replace a lien, e.g. to record a negotiated reduction or mark it paid
+router.put('/:id/liens/:lienId', lienValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingLien = await database.get(
+      'SELECT id FROM case_liens WHERE id = ? AND case_id = ? AND user_id = ?',
+      [req.params.lienId, req.params.id, req.user.id]
+    );
+
+    if (!existingLien) {
+      return res.status(404).json({
+        error: 'Lien not found',
+        message: 'Lien not found or you do not have permission to update it'
+      });
+    }
+
+    const { type, holder, assertedAmount, reductionAmount = 0, status = 'asserted', documentIds = [], notes } = req.body;
+    const foreignDocuments = await findForeignDocuments(req.params.id, documentIds);
+    if (foreignDocuments.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid documents',
+        message: `Documents not found on this case: ${foreignDocuments.join(', ')}`
+      });
+    }
+
+    await database.run(
+      `UPDATE case_liens SET type = ?, holder = ?, asserted_amount = ?, reduction_amount = ?, status = ?,
+         document_ids = ?, notes = ?, updated_at = datetime("now")
+       WHERE id = ?`,
+      [type, holder, assertedAmount, reductionAmount, status, JSON.stringify(documentIds), notes || null,
+        req.params.lienId]
+    );
+
+    const lien = await database.get('SELECT * FROM case_liens WHERE id = ?', [req.params.lienId]);
+
+    res.json({
+      message: 'Lien updated successfully',
+      lien: toLien(lien)
+    });
+
+  } catch (error) {
+    console.error('Update lien error:', error);
+    res.status(500).json({
+      error: 'Failed to update lien',
+      message: 'An error occurred while updating the lien'
+    });
+  }
+});
+
+// Remove a lien from the register
+router.delete('/:id/liens/:lienId', async (req, res) => {
+  try {
+    const result = await database.run(
+      'DELETE FROM case_liens WHERE id = ? AND case_id = ? AND user_id = ?',
+      [req.params.lienId, req.params.id, req.user.id]
+    );
+
+    if (result.changes === 0) {
+      return res.status(404).json({
+        error: 'Lien not found',
+        message: 'Lien not found or you do not have permission to delete it'
+      });
+    }
+
+    res.json({
+      message: 'Lien deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete lien error:', error);
+    res.status(500).json({
+      error: 'Failed to delete lien',
+      message: 'An error occurred while deleting the lien'
+    });
+  }
+});
+
+// List a case's expenses with running totals
+router.get('/:id/expenses', async (req, res) => {
+  try {
+    const expenses = await database.all(
+      'SELECT * FROM case_expenses WHERE case_id = ? AND user_id = ? ORDER BY date DESC, created_at DESC',
+      [req.params.id, req.user.id]
+    );
+
+    res.json({
+      expenses,
+      totals: summarizeExpenses(expenses)
+    });
+
+  } catch (error) {
+    console.error('Get expenses error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch expenses',
+      message: 'An error occurred while fetching the expenses'
+    });
+  }
+});
+
+// Record a cost advanced on the case. Upload the receipt through the document
+// upload endpoint first and pass its id as receiptDocumentId.
+router.post('/:id/expenses', expenseValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id, financials_locked FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to add expenses'
+      });
+    }
+
+    if (existingCase.financials_locked) {
+      return res.status(409).json(FINANCIALS_LOCKED);
+    }
+
+    const { date, category, description, vendor, amount, billable = false, reimbursable = true, receiptDocumentId } = req.body;
+    const foreignDocuments = await findForeignDocuments(req.params.id, receiptDocumentId ? [receiptDocumentId] : []);
+    if (foreignDocuments.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid documents',
+        message: `Documents not found on this case: ${foreignDocuments.join(', ')}`
+      });
+    }
+
+    const expenseId = uuidv4();
+    await database.run(
+      `INSERT INTO case_expenses
+         (id, case_id, user_id, date, category, description, vendor, amount, billable, reimbursable, receipt_document_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [expenseId, req.params.id, req.user.id, date.slice(0, 10), category, description, vendor || null, amount,
+        billable ? 1 : 0, reimbursable ? 1 : 0, receiptDocumentId || null]
+    );
+
+    const expense = await database.get('SELECT * FROM case_expenses WHERE id = ?', [expenseId]);
+
+    res.status(201).json({
+      message: 'Expense recorded successfully',
+      expense
+    });
+
+  } catch (error) {
+    console.error('Create expense error:', error);
+    res.status(500).json({
+      error: 'Failed to record expense',
+      message: 'An error occurred while recording the expense'
+    });
+  }
+});
+
+// Replace an expense
+router.put('/:id/expenses/:expenseId', expenseValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingExpense = await database.get(
+      `SELECT case_expenses.id, cases.financials_locked
+       FROM case_expenses JOIN cases ON cases.id = case_expenses.case_id
+       WHERE case_expenses.id = ? AND case_expenses.case_id = ? AND case_expenses.user_id = ?`,
+      [req.params.expenseId, req.params.id, req.user.id]
+    );
+
+    if (!existingExpense) {
+      return res.status(404).json({
+        error: 'Expense not found',
+        message: 'Expense not found or you do not have permission to update it'
+      });
+    }
+
+    if (existingExpense.financials_locked) {
+      return res.status(409).json(FINANCIALS_LOCKED);
+    }
+
+    const { date, category, description, vendor, amount, billable = false, reimbursable = true, receiptDocumentId } = req.body;
+    const foreignDocuments = await findForeignDocuments(req.params.id, receiptDocumentId ? [receiptDocumentId] : []);
+    if (foreignDocuments.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid documents',
+        message: `Documents not found on this case: ${foreignDocuments.join(', ')}`
+      });
+    }
+
+    await database.run(
+      `UPDATE case_expenses SET date = ?, category = ?, description = ?, vendor = ?, amount = ?, billable = ?,
+         reimbursable = ?, receipt_document_id = ?, updated_at = datetime("now")
+       WHERE id = ?`,
+      [date.slice(0, 10), category, description, vendor || null, amount, billable ? 1 : 0, reimbursable ? 1 : 0,
+        receiptDocumentId || null, req.params.expenseId]
+    );
+
+    const expense = await database.get('SELECT * FROM case_expenses WHERE id = ?', [req.params.expenseId]);
+
+    res.json({
+      message: 'Expense updated successfully',
+      expense
+    });
+
+  } catch (error) {
+    console.error('Update expense error:', error);
+    res.status(500).json({
+      error: 'Failed to update expense',
+      message: 'An error occurred while updating the expense'
+    });
+  }
+});
+
+// Remove an expense; its receipt stays with the case documents
+router.delete('/:id/expenses/:expenseId', async (req, res) => {
+  try {
+    const existingExpense = await database.get(
+      `SELECT case_expenses.id, cases.financials_locked
+       FROM case_expenses JOIN cases ON cases.id = case_expenses.case_id
+       WHERE case_expenses.id = ? AND case_expenses.case_id = ? AND case_expenses.user_id = ?`,
+      [req.params.expenseId, req.params.id, req.user.id]
+    );
+
+    if (!existingExpense) {
+      return res.status(404).json({
+        error: 'Expense not found',
+        message: 'Expense not found or you do not have permission to delete it'
+      });
+    }
+
+    if (existingExpense.financials_locked) {
+      return res.status(409).json(FINANCIALS_LOCKED);
+    }
+
+    await database.run('DELETE FROM case_expenses WHERE id = ?', [existingExpense.id]);
+
+    res.json({
+      message: 'Expense deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete expense error:', error);
+    res.status(500).json({
+      error: 'Failed to delete expense',
+      message: 'An error occurred while deleting the expense'
+    });
+  }
+});
+
+// List a case's time entries, running timers included
+router.get('/:id/time-entries', async (req, res) => {
+  try {
+    const entries = await database.all(
+      'SELECT * FROM time_entries WHERE case_id = ? AND user_id = ? ORDER BY date DESC, created_at DESC',
+      [req.params.id, req.user.id]
+    );
+
+    res.json({
+      entries: entries.map(toTimeEntry)
+    });
+
+  } catch (error) {
+    console.error('Get time entries error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch time entries',
+      message: 'An error occurred while fetching the time entries'
+    });
+  }
+});
+
+// Record time manually
+router.post('/:id/time-entries', manualTimeEntryValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to record time'
+      });
+    }
+
+    const fields = await timekeeperFields(req);
+    if (fields.error) {
+      return res.status(400).json(fields.error);
+    }
+
+    const { date, minutes, activityCode, description } = req.body;
+    const entryId = uuidv4();
+    await database.run(
+      `INSERT INTO time_entries
+         (id, case_id, user_id, timekeeper_id, timekeeper_name, date, minutes, activity_code, description, rate)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [entryId, req.params.id, req.user.id, fields.timekeeperId, fields.timekeeperName, date.slice(0, 10), minutes,
+        activityCode, description, fields.rate]
+    );
+
+    const entry = await database.get('SELECT * FROM time_entries WHERE id = ?', [entryId]);
+
+    res.status(201).json({
+      message: 'Time entry recorded successfully',
+      entry: toTimeEntry(entry)
+    });
+
+  } catch (error) {
+    console.error('Create time entry error:', error);
+    res.status(500).json({
+      error: 'Failed to record time entry',
+      message: 'An error occurred while recording the time entry'
+    });
+  }
+});
+
+// Start a timer: an entry dated today with no minutes until it is stopped
+router.post('/:id/time-entries/timer', timeEntryValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to record time'
+      });
+    }
+
+    const fields = await timekeeperFields(req);
+    if (fields.error) {
+      return res.status(400).json(fields.error);
+    }
+
+    const now = new Date();
+    const entryId = uuidv4();
+    await database.run(
+      `INSERT INTO time_entries
+         (id, case_id, user_id, timekeeper_id, timekeeper_name, date, minutes, activity_code, description, rate,
+          timer_started_at)
+       VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?)`,
+      [entryId, req.params.id, req.user.id, fields.timekeeperId, fields.timekeeperName, toDateString(now),
+        req.body.activityCode, req.body.description, fields.rate, now.toISOString()]
+    );
+
+    const entry = await database.get('SELECT * FROM time_entries WHERE id = ?', [entryId]);
+
+    res.status(201).json({
+      message: 'Timer started',
+      entry: toTimeEntry(entry)
+    });
+
+  } catch (error) {
+    console.error('Start timer error:', error);
+    res.status(500).json({
+      error: 'Failed to start timer',
+      message: 'An error occurred while starting the timer'
+    });
+  }
+});
+
+// Stop a running timer; the elapsed time, at least one minute, is added to the entry
+router.post('/:id/time-entries/:entryId/stop', async (req, res) => {
+  try {
+    const entry = await database.get(
+      'SELECT * FROM time_entries WHERE id = ? AND case_id = ? AND user_id = ?',
+      [req.params.entryId, req.params.id, req.user.id]
+    );
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Time entry not found',
+        message: 'Time entry not found or you do not have permission to stop it'
+      });
+    }
+
+    if (!entry.timer_started_at) {
+      return res.status(409).json({
+        error: 'Timer not running',
+        message: 'This time entry has no running timer'
+      });
+    }
+
+    await database.run(
+      `UPDATE time_entries SET minutes = ?, timer_started_at = NULL, updated_at = datetime("now")
+       WHERE id = ?`,
+      [Number(entry.minutes) + Math.max(1, elapsedMinutes(entry.timer_started_at)), entry.id]
+    );
+
+    const stopped = await database.get('SELECT * FROM time_entries WHERE id = ?', [entry.id]);
+
+    res.json({
+      message: 'Timer stopped',
+      entry: toTimeEntry(stopped)
+    });
+
+  } catch (error) {
+    console.error('Stop timer error:', error);
+    res.status(500).json({
+      error: 'Failed to stop timer',
+      message: 'An error occurred while stopping the timer'
+    });
+  }
+});
+
+// Replace an unbilled time entry
+router.put('/:id/time-entries/:entryId', manualTimeEntryValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingEntry = await database.get(
+      'SELECT id, invoice_id FROM time_entries WHERE id = ? AND case_id = ? AND user_id = ?',
+      [req.params.entryId, req.params.id, req.user.id]
+    );
+
+    if (!existingEntry) {
+      return res.status(404).json({
+        error: 'Time entry not found',
+        message: 'Time entry not found or you do not have permission to update it'
+      });
+    }
+
+    if (existingEntry.invoice_id) {
+      return res.status(409).json(BILLED_ENTRY);
+    }
+
+    const fields = await timekeeperFields(req);
+    if (fields.error) {
+      return res.status(400).json(fields.error);
+    }
+
+    const { date, minutes, activityCode, description } = req.body;
+    await database.run(
+      `UPDATE time_entries SET timekeeper_id = ?, timekeeper_name = ?, date = ?, minutes = ?, activity_code = ?,
+         description = ?, rate = ?, updated_at = datetime("now")
+       WHERE id = ?`,
+      [fields.timekeeperId, fields.timekeeperName, date.slice(0, 10), minutes, activityCode, description, fields.rate,
+        req.params.entryId]
+    );
+
+    const entry = await database.get('SELECT * FROM time_entries WHERE id = ?', [req.params.entryId]);
+
+    res.json({
+      message: 'Time entry updated successfully',
+      entry: toTimeEntry(entry)
+    });
+
+  } catch (error) {
+    console.error('Update time entry error:', error);
+    res.status(500).json({
+      error: 'Failed to update time entry',
+      message: 'An error occurred while updating the time entry'
+    });
+  }
+});
+
+// Remove an unbilled time entry
+router.delete('/:id/time-entries/:entryId', async (req, res) => {
+  try {
+    const existingEntry = await database.get(
+      'SELECT id, invoice_id FROM time_entries WHERE id = ? AND case_id = ? AND user_id = ?',
+      [req.params.entryId, req.params.id, req.user.id]
+    );
+
+    if (!existingEntry) {
+      return res.status(404).json({
+        error: 'Time entry not found',
+        message: 'Time entry not found or you do not have permission to delete it'
+      });
+    }
+
+    if (existingEntry.invoice_id) {
+      return res.status(409).json(BILLED_ENTRY);
+    }
+
+    await database.run('DELETE FROM time_entries WHERE id = ?', [req.params.entryId]);
+
+    res.json({
+      message: 'Time entry deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete time entry error:', error);
+    res.status(500).json({
+      error: 'Failed to delete time entry',
+      message: 'An error occurred while deleting the time entry'
+    });
+  }
+});
+
+// List a case's invoices, newest first
+router.get('/:id/invoices', async (req, res) => {
+  try {
+    const invoices = await database.all(
+      'SELECT * FROM invoices WHERE case_id = ? AND user_id = ? ORDER BY issue_date DESC, created_at DESC',
+      [req.params.id, req.user.id]
+    );
+
+    res.json({
+      invoices: invoices.map(toInvoice)
+    });
+
+  } catch (error) {
+    console.error('Get invoices error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch invoices',
+      message: 'An error occurred while fetching the invoices'
+    });
+  }
+});
+
+// Invoice every finished, unbilled time entry on the case
+router.post('/:id/invoices', [
+  body('currency').optional().trim().isLength({ min: 3, max: 3 }).toUpperCase()
+    .withMessage('Currency must be a three-letter code')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id FROM cases WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to invoice it'
+      });
+    }
+
+    const entries = await database.all(
+      'SELECT * FROM time_entries WHERE case_id = ? AND user_id = ? AND invoice_id IS NULL',
+      [req.params.id, req.user.id]
+    );
+    const unbilled = entries.filter(isUnbilled);
+
+    if (unbilled.length === 0) {
+      return res.status(400).json({
+        error: 'Nothing to invoice',
+        message: 'This case has no unbilled time'
+      });
+    }
+
+    const existingNumbers = await database.all('SELECT invoice_number FROM invoices WHERE user_id = ?', [req.user.id]);
+    const now = new Date();
+    const lines = buildInvoiceLines(unbilled);
+    const invoiceId = uuidv4();
+
+    await database.run(
+      `INSERT INTO invoices (id, case_id, user_id, invoice_number, issue_date, due_date, currency, lines, total)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [invoiceId, req.params.id, req.user.id, nextInvoiceNumber(existingNumbers.map(row => row.invoice_number), now),
+        toDateString(now), invoiceDueDate(now), req.body.currency || 'USD', JSON.stringify(lines), invoiceTotal(lines)]
+    );
+    await database.run(
+      `UPDATE time_entries SET invoice_id = ?, updated_at = datetime("now")
+       WHERE id IN (${unbilled.map(() => '?').join(', ')})`,
+      [invoiceId, ...unbilled.map(entry => entry.id)]
+    );
+
+    const invoice = await database.get('SELECT * FROM invoices WHERE id = ?', [invoiceId]);
+
+    res.status(201).json({
+      message: 'Invoice created successfully',
+      invoice: toInvoice(invoice)
+    });
+
+  } catch (error) {
+    console.error('Create invoice error:', error);
+    res.status(500).json({
+      error: 'Failed to create invoice',
+      message: 'An error occurred while creating the invoice'
+    });
+  }
+});
+
+// Mark an invoice paid or unpaid
+router.put('/:id/invoices/:invoiceId/status', [
+  body('status').isIn(INVOICE_STATUSES).withMessage(`Status must be one of ${INVOICE_STATUSES.join(', ')}`)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const result = await database.run(
+      `UPDATE invoices SET status = ?, paid_at = ?, updated_at = datetime("now")
+       WHERE id = ? AND case_id = ? AND user_id = ?`,
+      [req.body.status, req.body.status === 'paid' ? new Date().toISOString() : null,
+        req.params.invoiceId, req.params.id, req.user.id]
+    );
+
+    if (result.changes === 0) {
+      return res.status(404).json({
+        error: 'Invoice not found',
+        message: 'Invoice not found or you do not have permission to update it'
+      });
+    }
+
+    const invoice = await database.get('SELECT * FROM invoices WHERE id = ?', [req.params.invoiceId]);
+
+    res.json({
+      message: 'Invoice updated successfully',
+      invoice: toInvoice(invoice)
+    });
+
+  } catch (error) {
+    console.error('Update invoice error:', error);
+    res.status(500).json({
+      error: 'Failed to update invoice',
+      message: 'An error occurred while updating the invoice'
+    });
+  }
+});
+
+// Get case statistics; analytics cover the requested range (default six months)
+router.get('/stats/overview', [
+  query('range').optional().isIn(Object.keys(ANALYTICS_RANGES))
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const range = req.query.range || '6months';
+    const stats = await database.get(`
+      SELECT 
+        COUNT(*) as total_cases,
+        COUNT(CASE WHEN status = 'open' THEN 1 END) as open_cases,
+        COUNT(CASE WHEN status = 'settled' THEN 1 END) as settled_cases,
+        COUNT(CASE WHEN status = 'closed' THEN 1 END) as closed_cases,
+        COALESCE(SUM(settlement_amount), 0) as total_settlements,
+        COALESCE(AVG(settlement_amount), 0) as avg_settlement
+      FROM cases 
+      WHERE user_id = ?
+    `, [req.user.id]);
+
+    // Costs count toward the range by the date they were incurred
+    const expenses = await database.all(
+      'SELECT category, amount, billable, reimbursable FROM case_expenses WHERE user_id = ? AND date >= ?',
+      [req.user.id, rangeStart(range).toISOString().slice(0, 10)]
+    );
+
+    const [cases, history, statements, negotiations] = await Promise.all([
+      database.all('SELECT id, case_type, status, settlement_amount, created_at FROM cases WHERE user_id = ?', [req.user.id]),
+      database.all(
+        "SELECT case_id, field, from_value, to_value, changed_at FROM case_status_history WHERE user_id = ? AND field = 'status'",
+        [req.user.id]
+      ),
+      database.all('SELECT case_id, locked_at FROM settlement_statements WHERE user_id = ?', [req.user.id]),
+      database.all(
+        'SELECT case_id, status, current_offer, demand_amount, updated_at FROM negotiations WHERE user_id = ?',
+        [req.user.id]
+      )
+    ]);
 
     const recentCases = await database.all(`
       SELECT id, case_number, title, client_name, status, created_at
@@ -473,6 +2343,8 @@ router.get('/stats/overview', async (req, res) => {
 
     res.json({
       stats,
+      expenses: summarizeExpenses(expenses),
+      analytics: buildCaseAnalytics(range, cases, history, statements, negotiations),
       recentCases,
       upcomingDeadlines
     });
@@ -0,0 +1,423 @@
+const express = require('express');
+const { body, validationResult, query } = require('express-validator');
+const { v4: uuidv4 } = require('uuid');
+const { database } = require('../config/database');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const { CONTACT_METHODS, caseContact, validateClient, summarizeClientCases } = require('../services/clients');
+const {
+  INVITATION_DAYS,
+  invitationLink,
+  invitationExpiry,
+  invitationStatus,
+  createInvitationToken
+} = require('../services/portal');
+const { sendEmail } = require('../services/email');
+
+const router = express.Router();
+
+// Where invitation links point; the frontend serves the portal
+const PORTAL_URL = process.env.PORTAL_URL || 'http://localhost:5173';
+
+// Request fields and the clients columns they are stored in
+const CLIENT_FIELDS = {
+  name: 'name',
+  email: 'email',
+  phone: 'phone',
+  addressLine: 'address_line',
+  city: 'city',
+  state: 'state',
+  postalCode: 'postal_code',
+  dateOfBirth: 'date_of_birth',
+  preferredContactMethod: 'preferred_contact_method',
+  notes: 'notes'
+};
+
+const clientValidators = [
+  body('email').optional({ checkFalsy: true }).isEmail().withMessage('Valid email is required'),
+  body('phone').optional().trim(),
+  body('addressLine').optional().trim(),
+  body('city').optional().trim(),
+  body('state').optional({ checkFalsy: true }).trim().toUpperCase().isLength({ min: 2, max: 2 })
+    .withMessage('State must be a two-letter code'),
+  body('postalCode').optional().trim(),
+  body('dateOfBirth').optional({ checkFalsy: true }).isISO8601().withMessage('Valid date of birth is required'),
+  body('preferredContactMethod').optional().isIn(CONTACT_METHODS)
+    .withMessage(`Preferred contact method must be one of ${CONTACT_METHODS.join(', ')}`),
+  body('notes').optional().trim()
+];
+
+// All routes require authentication
+router.use(authenticateToken, requireStaff);
+
+// Client columns from the request, with blank values stored as null
+function clientColumns(reqBody) {
+  const columns = {};
+  for (const [field, column] of Object.entries(CLIENT_FIELDS)) {
+    if (reqBody[field] !== undefined) {
+      columns[column] = typeof reqBody[field] === 'string' && reqBody[field].trim() === ''
+        ? null
+        : reqBody[field];
+    }
+  }
+  if (typeof columns.name === 'string') columns.name = columns.name.trim().replace(/\s+/g, ' ');
+  return columns;
+}
+
+async function findClient(userId, clientId) {
+  return database.get('SELECT * FROM clients WHERE id = ? AND user_id = ?', [clientId, userId]);
+}
+
+// Invitations with their status, newest first; the token is only ever emailed
+async function listInvitations(clientId) {
+  const invitations = await database.all(
+    'SELECT * FROM portal_invitations WHERE client_id = ? ORDER BY created_at DESC',
+    [clientId]
+  );
+  return invitations.map(({ token, ...invitation }) => ({ ...invitation, status: invitationStatus(invitation) }));
+}
+
+async function listClientCases(clientId) {
+  return database.all(
+    'SELECT id, case_number, title, case_type, status, settlement_amount, created_at FROM cases WHERE client_id = ? ORDER BY created_at DESC',
+    [clientId]
+  );
+}
+
+// List clients with their case totals
+router.get('/', [
+  query('search').optional().trim()
+], async (req, res) => {
+  try {
+    let whereClause = 'WHERE user_id = ?';
+    const params = [req.user.id];
+
+    if (req.query.search) {
+      whereClause += ' AND (name LIKE ? OR email LIKE ? OR phone LIKE ?)';
+      const term = `%${req.query.search}%`;
+      params.push(term, term, term);
+    }
+
+    const clients = await database.all(`SELECT * FROM clients ${whereClause} ORDER BY name ASC`, params);
+    const cases = await database.all(
+      'SELECT client_id, status, settlement_amount FROM cases WHERE user_id = ? AND client_id IS NOT NULL',
+      [req.user.id]
+    );
+
+    res.json({
+      clients: clients.map(client => ({
+        ...client,
+        ...summarizeClientCases(cases.filter(caseData => caseData.client_id === client.id))
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get clients error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch clients',
+      message: 'An error occurred while fetching clients'
+    });
+  }
+});
+
+// Get a client with their cases
+router.get('/:id', async (req, res) => {
+  try {
+    const client = await findClient(req.user.id, req.params.id);
+    if (!client) {
+      return res.status(404).json({
+        error: 'Client not found',
+        message: 'Client not found or you do not have permission to view it'
+      });
+    }
+
+    const cases = await listClientCases(client.id);
+    res.json({
+      client: { ...client, ...summarizeClientCases(cases) },
+      cases
+    });
+
+  } catch (error) {
+    console.error('Get client error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch client',
+      message: 'An error occurred while fetching the client'
+    });
+  }
+});
+
+// Add a client
+router.post('/', [
+  body('name').trim().isLength({ min: 1 }).withMessage('Client name is required'),
+  ...clientValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const client = { preferred_contact_method: 'email', ...clientColumns(req.body) };
+    const problem = validateClient(client);
+    if (problem) {
+      return res.status(400).json({
+        error: 'Invalid client',
+        message: problem
+      });
+    }
+
+    const id = uuidv4();
+    const columns = Object.keys(client);
+    await database.run(
+      `INSERT INTO clients (id, user_id, ${columns.join(', ')}) VALUES (?, ?, ${columns.map(() => '?').join(', ')})`,
+      [id, req.user.id, ...columns.map(column => client[column])]
+    );
+
+    res.status(201).json({
+      message: 'Client created successfully',
+      client: await findClient(req.user.id, id)
+    });
+
+  } catch (error) {
+    console.error('Create client error:', error);
+    res.status(500).json({
+      error: 'Failed to create client',
+      message: 'An error occurred while creating the client'
+    });
+  }
+});
+
+// Update a client; contact details are copied to each of their cases
+router.put('/:id', [
+  body('name').optional().trim().isLength({ min: 1 }).withMessage('Client name cannot be empty'),
+  ...clientValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existing = await findClient(req.user.id, req.params.id);
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Client not found',
+        message: 'Client not found or you do not have permission to update it'
+      });
+    }
+
+    const updates = clientColumns(req.body);
+    const problem = validateClient({ ...existing, ...updates });
+    if (problem) {
+      return res.status(400).json({
+        error: 'Invalid client',
+        message: problem
+      });
+    }
+
+    const columns = Object.keys(updates);
+    if (columns.length === 0) {
+      return res.status(400).json({
+        error: 'No updates provided',
+        message: 'At least one field must be provided for update'
+      });
+    }
+
+    await database.run(
+      `UPDATE clients SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = datetime("now") WHERE id = ?`,
+      [...columns.map(column => updates[column]), existing.id]
+    );
+
+    const client = await findClient(req.user.id, existing.id);
+    const contact = caseContact(client);
+    await database.run(
+      `UPDATE cases SET client_name = ?, client_email = ?, client_phone = ?,
+         client_date_of_birth = COALESCE(?, client_date_of_birth), updated_at = datetime("now")
+       WHERE client_id = ?`,
+      [contact.client_name, contact.client_email, contact.client_phone, contact.client_date_of_birth, client.id]
+    );
+
+    res.json({
+      message: 'Client updated successfully',
+      client
+    });
+
+  } catch (error) {
+    console.error('Update client error:', error);
+    res.status(500).json({
+      error: 'Failed to update client',
+      message: 'An error occurred while updating the client'
+    });
+  }
+});
+
+// Delete a client that has no cases
+router.delete('/:id', async (req, res) => {
+  try {
+    const client = await findClient(req.user.id, req.params.id);
+    if (!client) {
+      return res.status(404).json({
+        error: 'Client not found',
+        message: 'Client not found or you do not have permission to delete it'
+      });
+    }
+
+    const cases = await listClientCases(client.id);
+    if (cases.length > 0) {
+      return res.status(409).json({
+        error: 'Client has cases',
+        message: `This client has ${cases.length} case(s); move or delete them first`
+      });
+    }
+
+    await database.run('DELETE FROM clients WHERE id = ?', [client.id]);
+
+    res.json({ message: 'Client deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete client error:', error);
+    res.status(500).json({
+      error: 'Failed to delete client',
+      message: 'An error occurred while deleting the client'
+    });
+  }
+});
+
+// List a client's portal invitations
+router.get('/:id/invitations', async (req, res) => {
+  try {
+    const client = await findClient(req.user.id, req.params.id);
+    if (!client) {
+      return res.status(404).json({
+        error: 'Client not found',
+        message: 'Client not found or you do not have permission to view it'
+      });
+    }
+
+    res.json({ invitations: await listInvitations(client.id) });
+
+  } catch (error) {
+    console.error('Get portal invitations error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch invitations',
+      message: 'An error occurred while fetching portal invitations'
+    });
+  }
+});
+
+// Email a client a link to create their portal login; earlier unused links stop working
+router.post('/:id/invitations', async (req, res) => {
+  try {
+    const client = await findClient(req.user.id, req.params.id);
+    if (!client) {
+      return res.status(404).json({
+        error: 'Client not found',
+        message: 'Client not found or you do not have permission to invite them'
+      });
+    }
+
+    if (!client.email) {
+      return res.status(400).json({
+        error: 'Client has no email',
+        message: 'Add an email address for this client before inviting them to the portal'
+      });
+    }
+
+    const existingLogin = await database.get(
+      'SELECT id FROM users WHERE client_id = ? AND is_active = 1',
+      [client.id]
+    );
+    if (existingLogin) {
+      return res.status(409).json({
+        error: 'Client already has portal access',
+        message: 'This client already has a portal login'
+      });
+    }
+
+    await database.run(
+      `UPDATE portal_invitations SET revoked_at = datetime("now")
+       WHERE client_id = ? AND accepted_at IS NULL AND revoked_at IS NULL`,
+      [client.id]
+    );
+
+    const now = new Date();
+    const token = createInvitationToken();
+    await database.run(
+      `INSERT INTO portal_invitations (id, token, client_id, invited_by, email, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), token, client.id, req.user.id, client.email, invitationExpiry(now)]
+    );
+
+    const sender = `${req.user.first_name} ${req.user.last_name}`;
+    await sendEmail({
+      to: client.email,
+      subject: `${req.user.firm_name || sender} invited you to your client portal`,
+      text: [
+        `Hello ${client.name},`,
+        '',
+        `${sender} invited you to the ${req.user.firm_name || 'firm'} client portal, where you can follow your cases and reach your legal team.`,
+        '',
+        `Create your login here: ${invitationLink(PORTAL_URL, token)}`,
+        '',
+        `The link works for ${INVITATION_DAYS} days.`
+      ].join('\n')
+    });
+
+    res.status(201).json({
+      message: 'Invitation sent successfully',
+      invitations: await listInvitations(client.id)
+    });
+
+  } catch (error) {
+    console.error('Send portal invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to send invitation',
+      message: 'An error occurred while sending the portal invitation'
+    });
+  }
+});
+
+// Withdraw an invitation; if the client already used it, their portal login is disabled
+router.delete('/:id/invitations/:invitationId', async (req, res) => {
+  try {
+    const client = await findClient(req.user.id, req.params.id);
+    const invitation = client && await database.get(
+      'SELECT * FROM portal_invitations WHERE id = ? AND client_id = ?',
+      [req.params.invitationId, client.id]
+    );
+    if (!invitation) {
+      return res.status(404).json({
+        error: 'Invitation not found',
+        message: 'Invitation not found or you do not have permission to revoke it'
+      });
+    }
+
+    await database.run(
+      'UPDATE portal_invitations SET revoked_at = COALESCE(revoked_at, datetime("now")) WHERE id = ?',
+      [invitation.id]
+    );
+    if (invitation.accepted_user_id) {
+      await database.run('UPDATE users SET is_active = 0 WHERE id = ?', [invitation.accepted_user_id]);
+      await database.run('DELETE FROM sessions WHERE user_id = ?', [invitation.accepted_user_id]);
+    }
+
+    res.json({
+      message: 'Invitation revoked successfully',
+      invitations: await listInvitations(client.id)
+    });
+
+  } catch (error) {
+    console.error('Revoke portal invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke invitation',
+      message: 'An error occurred while revoking the portal invitation'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,50 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const { PARTY_ROLES, searchConflicts, loadRegistry } = require('../services/conflicts');
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken, requireStaff);
+
+// Search every client and case party on record for the parties of a prospective case
+router.post('/search', [
+  body('parties').isArray({ min: 1 }).withMessage('At least one party is required'),
+  body('parties.*.role').isIn(Object.keys(PARTY_ROLES))
+    .withMessage(`Party role must be one of ${Object.keys(PARTY_ROLES).join(', ')}`),
+  body('parties.*.name').trim().isLength({ min: 1 }).withMessage('Party name is required'),
+  body('parties.*.email').optional({ checkFalsy: true }).isEmail(),
+  body('parties.*.phone').optional().trim(),
+  body('clientId').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const parties = req.body.parties.map(party => ({
+      role: party.role,
+      name: party.name,
+      email: party.email || '',
+      phone: party.phone || ''
+    }));
+    // The client already chosen for the case is not a conflict with itself
+    const excluded = req.body.clientId ? [req.body.clientId] : [];
+
+    res.json(searchConflicts(parties, await loadRegistry(req.user.id), excluded));
+
+  } catch (error) {
+    console.error('Conflict search error:', error);
+    res.status(500).json({
+      error: 'Failed to search conflicts',
+      message: 'An error occurred while searching for conflicts'
+    });
+  }
+});
+
+module.exports = router;
@@ -1,65 +1,29 @@
 const express = require('express');
-const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
 const { v4: uuidv4 } = require('uuid');
 const { body, validationResult } = require('express-validator');
 const { database } = require('../config/database');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const { upload, sendUploadedFile } = require('../middleware/upload');
+const {
+  DOCUMENT_TYPES,
+  isShareActive,
+  requestStatus,
+  shareDocument,
+  revokeShare,
+  logAccess,
+  listAccess
+} = require('../services/documentSharing');
 
 const router = express.Router();
 
 // All routes require authentication
-router.use(authenticateToken);
-
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    const uploadPath = path.join(__dirname, '..', 'uploads');
-    if (!fs.existsSync(uploadPath)) {
-      fs.mkdirSync(uploadPath, { recursive: true });
-    }
-    cb(null, uploadPath);
-  },
-  filename: (req, file, cb) => {
-    const uniqueName = `${uuidv4()}${path.extname(file.originalname)}`;
-    cb(null, uniqueName);
-  }
-});
-
-const fileFilter = (req, file, cb) => {
-  // Allow common document types
-  const allowedTypes = [
-    'application/pdf',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'text/plain',
-    'image/jpeg',
-    'image/png',
-    'image/gif',
-    'image/webp'
-  ];
-
-  if (allowedTypes.includes(file.mimetype)) {
-    cb(null, true);
-  } else {
-    cb(new Error('Invalid file type. Only PDF, Word, Excel, text, and image files are allowed.'), false);
-  }
-};
-
-const upload = multer({
-  storage,
-  fileFilter,
-  limits: {
-    fileSize: parseInt(process.env.MAX_FILE_SIZE) || 10 * 1024 * 1024 // 10MB default
-  }
-});
+router.use(authenticateToken, requireStaff);
 
 // Upload document to a case
 router.post('/upload/:caseId', upload.single('document'), [
-  body('documentType').optional().isIn(['contract', 'medical_record', 'police_report', 'insurance_doc', 'correspondence', 'photo', 'other']),
+  body('documentType').optional().isIn(Object.keys(DOCUMENT_TYPES)),
   body('description').optional().trim()
 ], async (req, res) => {
   try {
@@ -144,7 +108,7 @@ router.post('/upload/:caseId', upload.single('document'), [
   }
 });
 
-// Get all documents for a case
+// Get all documents for a case, each with its active share with the client, if any
 router.get('/case/:caseId', async (req, res) => {
   try {
     const { caseId } = req.params;
@@ -170,9 +134,16 @@ router.get('/case/:caseId', async (req, res) => {
        ORDER BY uploaded_at DESC`,
       [caseId]
     );
+    const shares = (await database.all(
+      'SELECT * FROM document_shares WHERE case_id = ? AND revoked_at IS NULL ORDER BY created_at DESC',
+      [caseId]
+    )).filter(share => isShareActive(share));
 
     res.json({
-      documents
+      documents: documents.map(document => ({
+        ...document,
+        share: shares.find(share => share.document_id === document.id) || null
+      }))
     });
 
   } catch (error) {
@@ -184,8 +155,8 @@ router.get('/case/:caseId', async (req, res) => {
   }
 });
 
-// Download a document
-router.get('/download/:documentId', async (req, res) => {
+// Stream a document to its owner, logging the view or download against the file
+const sendDocument = (action) => async (req, res) => {
   try {
     const { documentId } = req.params;
 
@@ -198,40 +169,39 @@ router.get('/download/:documentId', async (req, res) => {
     if (!document || document.user_id !== req.user.id) {
       return res.status(404).json({
         error: 'Document not found',
-        message: 'Document not found or you do not have permission to download it'
+        message: `Document not found or you do not have permission to ${action} it`
       });
     }
 
-    const filePath = path.join(__dirname, '..', document.file_path);
-
-    // Check if file exists
-    if (!fs.existsSync(filePath)) {
+    if (!sendUploadedFile(res, document, { inline: action === 'view' })) {
       return res.status(404).json({
         error: 'File not found',
         message: 'The requested file could not be found on the server'
       });
     }
 
-    // Set appropriate headers
-    res.setHeader('Content-Disposition', `attachment; filename="${document.original_name}"`);
-    res.setHeader('Content-Type', document.mime_type);
-
-    // Stream the file
-    const fileStream = fs.createReadStream(filePath);
-    fileStream.pipe(res);
+    await logAccess(document.id, req.user.id, 'attorney', action);
 
   } catch (error) {
-    console.error('Download document error:', error);
-    res.status(500).json({
-      error: 'Download failed',
-      message: 'An error occurred while downloading the document'
-    });
+    console.error(`${action === 'view' ? 'View' : 'Download'} document error:`, error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: `${action === 'view' ? 'View' : 'Download'} failed`,
+        message: 'An error occurred while opening the document'
+      });
+    }
   }
-});
+};
+
+// Download a document
+router.get('/download/:documentId', sendDocument('download'));
+
+// Open a document in the browser
+router.get('/view/:documentId', sendDocument('view'));
 
 // Update document metadata
 router.put('/:documentId', [
-  body('documentType').optional().isIn(['contract', 'medical_record', 'police_report', 'insurance_doc', 'correspondence', 'photo', 'other']),
+  body('documentType').optional().isIn(Object.keys(DOCUMENT_TYPES)),
   body('description').optional().trim()
 ], async (req, res) => {
   try {
@@ -389,4 +359,260 @@ router.get('/stats/overview', async (req, res) => {
   }
 });
 
+// Share a document with its case's client on the portal, optionally until expiresAt
+router.post('/:documentId/share', [
+  body('expiresAt').optional({ nullable: true }).isISO8601()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { documentId } = req.params;
+    const expiresAt = req.body.expiresAt || null;
+
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Choose an expiry date in the future'
+      });
+    }
+
+    // Get document and verify ownership
+    const document = await database.get(
+      'SELECT d.*, c.user_id FROM documents d JOIN cases c ON d.case_id = c.id WHERE d.id = ?',
+      [documentId]
+    );
+
+    if (!document || document.user_id !== req.user.id) {
+      return res.status(404).json({
+        error: 'Document not found',
+        message: 'Document not found or you do not have permission to share it'
+      });
+    }
+
+    const share = await shareDocument(document, req.user.id, expiresAt);
+
+    res.status(201).json({
+      message: 'Document shared successfully',
+      share
+    });
+
+  } catch (error) {
+    console.error('Share document error:', error);
+    res.status(500).json({
+      error: 'Share failed',
+      message: 'An error occurred while sharing the document'
+    });
+  }
+});
+
+// Stop sharing a document with the client
+router.delete('/:documentId/share', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+
+    // Get document and verify ownership
+    const document = await database.get(
+      'SELECT d.*, c.user_id FROM documents d JOIN cases c ON d.case_id = c.id WHERE d.id = ?',
+      [documentId]
+    );
+
+    if (!document || document.user_id !== req.user.id) {
+      return res.status(404).json({
+        error: 'Document not found',
+        message: 'Document not found or you do not have permission to share it'
+      });
+    }
+
+    await revokeShare(documentId);
+
+    res.json({
+      message: 'Document is no longer shared'
+    });
+
+  } catch (error) {
+    console.error('Revoke document share error:', error);
+    res.status(500).json({
+      error: 'Revoke failed',
+      message: 'An error occurred while revoking the share'
+    });
+  }
+});
+
+// A document's sharing history and every view and download of it
+router.get('/:documentId/access-log', async (req, res) => {
+  try {
+    const { documentId } = req.params;
+
+    // Get document and verify ownership
+    const document = await database.get(
+      'SELECT d.*, c.user_id FROM documents d JOIN cases c ON d.case_id = c.id WHERE d.id = ?',
+      [documentId]
+    );
+
+    if (!document || document.user_id !== req.user.id) {
+      return res.status(404).json({
+        error: 'Document not found',
+        message: 'Document not found or you do not have permission to view it'
+      });
+    }
+
+    const shares = await database.all(
+      'SELECT * FROM document_shares WHERE document_id = ? ORDER BY created_at DESC',
+      [documentId]
+    );
+
+    res.json({
+      shares,
+      accessLog: await listAccess(documentId)
+    });
+
+  } catch (error) {
+    console.error('Get document access log error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch access log',
+      message: 'An error occurred while fetching the document activity'
+    });
+  }
+});
+
+// Documents requested from the case's client
+router.get('/case/:caseId/requests', async (req, res) => {
+  try {
+    const { caseId } = req.params;
+
+    // Check if case exists and belongs to user
+    const existingCase = await database.get(
+      'SELECT * FROM cases WHERE id = ? AND user_id = ?',
+      [caseId, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to view documents'
+      });
+    }
+
+    const requests = await database.all(
+      'SELECT * FROM document_requests WHERE case_id = ? ORDER BY created_at DESC',
+      [caseId]
+    );
+
+    res.json({
+      requests
+    });
+
+  } catch (error) {
+    console.error('Get document requests error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch document requests',
+      message: 'An error occurred while fetching document requests'
+    });
+  }
+});
+
+// Ask the client to upload a document through the portal; it is filed under documentType
+router.post('/case/:caseId/requests', [
+  body('title').trim().notEmpty(),
+  body('documentType').optional().isIn(Object.keys(DOCUMENT_TYPES)),
+  body('notes').optional().trim()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { caseId } = req.params;
+    const { title, documentType = 'other', notes } = req.body;
+
+    // Check if case exists and belongs to user
+    const existingCase = await database.get(
+      'SELECT * FROM cases WHERE id = ? AND user_id = ?',
+      [caseId, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to request documents'
+      });
+    }
+
+    const requestId = uuidv4();
+    await database.run(
+      `INSERT INTO document_requests (id, case_id, requested_by, title, document_type, notes)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [requestId, caseId, req.user.id, title, documentType, notes || null]
+    );
+
+    const documentRequest = await database.get(
+      'SELECT * FROM document_requests WHERE id = ?',
+      [requestId]
+    );
+
+    res.status(201).json({
+      message: 'Document requested successfully',
+      request: documentRequest
+    });
+
+  } catch (error) {
+    console.error('Create document request error:', error);
+    res.status(500).json({
+      error: 'Request failed',
+      message: 'An error occurred while requesting the document'
+    });
+  }
+});
+
+// Cancel a document request the client has not fulfilled yet
+router.delete('/requests/:requestId', async (req, res) => {
+  try {
+    const documentRequest = await database.get(
+      `SELECT r.*, c.user_id FROM document_requests r JOIN cases c ON r.case_id = c.id
+       WHERE r.id = ?`,
+      [req.params.requestId]
+    );
+
+    if (!documentRequest || documentRequest.user_id !== req.user.id) {
+      return res.status(404).json({
+        error: 'Request not found',
+        message: 'Document request not found or you do not have permission to cancel it'
+      });
+    }
+
+    if (requestStatus(documentRequest) !== 'open') {
+      return res.status(409).json({
+        error: 'Request closed',
+        message: 'Only open document requests can be cancelled'
+      });
+    }
+
+    await database.run(
+      `UPDATE document_requests SET cancelled_at = datetime('now') WHERE id = ?`,
+      [documentRequest.id]
+    );
+
+    res.json({
+      message: 'Document request cancelled'
+    });
+
+  } catch (error) {
+    console.error('Cancel document request error:', error);
+    res.status(500).json({
+      error: 'Cancel failed',
+      message: 'An error occurred while cancelling the document request'
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
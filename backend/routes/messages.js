@@ -0,0 +1,174 @@
+const express = require('express');
+const { database } = require('../config/database');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const { upload, removeUploadedFiles, sendUploadedFile } = require('../middleware/upload');
+const {
+  MAX_ATTACHMENTS,
+  unreadMessages,
+  groupThreads,
+  isAwaitingReply,
+  awaitingSince,
+  messageProblem,
+  listThread,
+  listUserMessages,
+  createMessage,
+  markThreadRead
+} = require('../services/messages');
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken, requireStaff);
+
+// The case's owner and its assigned attorney can both read and answer its thread
+async function findCase(caseId, userId) {
+  return database.get(
+    'SELECT * FROM cases WHERE id = ? AND (user_id = ? OR assigned_attorney_id = ?)',
+    [caseId, userId, userId]
+  );
+}
+
+const caseNotFound = (res) => res.status(404).json({
+  error: 'Case not found',
+  message: 'Case not found or you do not have permission to view its messages'
+});
+
+// Client threads across the user's cases; only those waiting for a reply unless ?all=true
+router.get('/inbox', async (req, res) => {
+  try {
+    const threads = groupThreads(await listUserMessages(req.user.id))
+      .filter(thread => req.query.all === 'true' || isAwaitingReply(thread))
+      .map(thread => ({
+        case_id: thread.case_id,
+        case_number: thread.latest.case_number,
+        client_name: thread.latest.client_name,
+        message_count: thread.messages.length,
+        unread: unreadMessages(thread.messages, 'attorney').length,
+        awaiting_since: awaitingSince(thread),
+        latest: thread.latest
+      }));
+
+    res.json({ threads });
+
+  } catch (error) {
+    console.error('Get message inbox error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch inbox',
+      message: 'An error occurred while fetching client messages'
+    });
+  }
+});
+
+// A case's thread, oldest first
+router.get('/cases/:caseId', async (req, res) => {
+  try {
+    if (!await findCase(req.params.caseId, req.user.id)) {
+      return caseNotFound(res);
+    }
+
+    res.json({ messages: await listThread(req.params.caseId) });
+
+  } catch (error) {
+    console.error('Get case messages error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch messages',
+      message: 'An error occurred while fetching messages'
+    });
+  }
+});
+
+// Reply to the client; multipart with a `message` field and up to five `attachments`
+router.post('/cases/:caseId', upload.array('attachments', MAX_ATTACHMENTS), async (req, res) => {
+  const files = req.files || [];
+  try {
+    const caseData = await findCase(req.params.caseId, req.user.id);
+    if (!caseData) {
+      removeUploadedFiles(files);
+      return caseNotFound(res);
+    }
+
+    const text = (req.body.message || '').trim();
+    const problem = messageProblem(text, files.map(file => ({ name: file.originalname, size: file.size })));
+    if (problem) {
+      removeUploadedFiles(files);
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: problem
+      });
+    }
+
+    const message = await createMessage(caseData, {
+      sender: 'attorney',
+      senderUserId: req.user.id,
+      senderName: `${req.user.first_name} ${req.user.last_name}`,
+      text,
+      files
+    });
+
+    res.status(201).json({
+      message: 'Message sent successfully',
+      clientMessage: message
+    });
+
+  } catch (error) {
+    console.error('Send message error:', error);
+    removeUploadedFiles(files);
+    res.status(500).json({
+      error: 'Failed to send message',
+      message: 'An error occurred while sending the message'
+    });
+  }
+});
+
+// Read receipts for the client's messages on the case
+router.post('/cases/:caseId/read', async (req, res) => {
+  try {
+    if (!await findCase(req.params.caseId, req.user.id)) {
+      return caseNotFound(res);
+    }
+
+    res.json({ marked: await markThreadRead(req.params.caseId, 'attorney') });
+
+  } catch (error) {
+    console.error('Mark messages read error:', error);
+    res.status(500).json({
+      error: 'Failed to mark messages read',
+      message: 'An error occurred while updating the messages'
+    });
+  }
+});
+
+// Download a message attachment
+router.get('/attachments/:attachmentId', async (req, res) => {
+  try {
+    const attachment = await database.get(
+      `SELECT message_attachments.*, client_messages.case_id FROM message_attachments
+       JOIN client_messages ON client_messages.id = message_attachments.message_id
+       WHERE message_attachments.id = ?`,
+      [req.params.attachmentId]
+    );
+
+    if (!attachment || !await findCase(attachment.case_id, req.user.id)) {
+      return res.status(404).json({
+        error: 'Attachment not found',
+        message: 'Attachment not found or you do not have permission to download it'
+      });
+    }
+
+    if (!sendUploadedFile(res, attachment)) {
+      res.status(404).json({
+        error: 'File not found',
+        message: 'The requested file could not be found on the server'
+      });
+    }
+
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    res.status(500).json({
+      error: 'Download failed',
+      message: 'An error occurred while downloading the attachment'
+    });
+  }
+});
+
+module.exports = router;
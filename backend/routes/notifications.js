@@ -0,0 +1,165 @@
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const { database } = require('../config/database');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const { notificationEvents } = require('../services/notifications');
+
+const router = express.Router();
+
+// Comments sent on idle streams so proxies do not close the connection
+const STREAM_KEEPALIVE_MS = 25000;
+
+// Live notification stream (Server-Sent Events). EventSource cannot send an
+// Authorization header, so the token may also be passed as ?token=.
+router.get('/stream', (req, res, next) => {
+  if (!req.headers['authorization'] && req.query.token) {
+    req.headers['authorization'] = `Bearer ${req.query.token}`;
+  }
+  next();
+}, authenticateToken, requireStaff, (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const onNotification = notification => {
+    if (notification.user_id !== req.user.id) return;
+    res.write(`event: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+  };
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), STREAM_KEEPALIVE_MS);
+
+  notificationEvents.on('notification', onNotification);
+  req.on('close', () => {
+    clearInterval(keepalive);
+    notificationEvents.off('notification', onNotification);
+  });
+});
+
+// All other routes require authentication
+router.use(authenticateToken, requireStaff);
+
+// Get notifications with the unread count
+router.get('/', [
+  query('unread').optional().isBoolean(),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const limit = parseInt(req.query.limit) || 50;
+    const unreadOnly = req.query.unread === 'true';
+
+    const notifications = await database.all(
+      `SELECT * FROM notifications
+       WHERE user_id = ? ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY created_at DESC
+       LIMIT ?`,
+      [req.user.id, limit]
+    );
+
+    const { unread_count } = await database.get(
+      'SELECT COUNT(*) as unread_count FROM notifications WHERE user_id = ? AND read_at IS NULL',
+      [req.user.id]
+    );
+
+    res.json({
+      notifications,
+      unreadCount: unread_count
+    });
+
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch notifications',
+      message: 'An error occurred while fetching notifications'
+    });
+  }
+});
+
+// Mark every notification as read
+router.post('/read-all', async (req, res) => {
+  try {
+    const result = await database.run(
+      'UPDATE notifications SET read_at = datetime("now") WHERE user_id = ? AND read_at IS NULL',
+      [req.user.id]
+    );
+
+    res.json({
+      message: 'Notifications marked as read',
+      updated: result.changes
+    });
+
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({
+      error: 'Failed to update notifications',
+      message: 'An error occurred while marking notifications as read'
+    });
+  }
+});
+
+// Mark a notification as read
+router.post('/:id/read', async (req, res) => {
+  try {
+    const result = await database.run(
+      'UPDATE notifications SET read_at = COALESCE(read_at, datetime("now")) WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (result.changes === 0) {
+      return res.status(404).json({
+        error: 'Notification not found',
+        message: 'Notification not found or you do not have permission to update it'
+      });
+    }
+
+    res.json({
+      message: 'Notification marked as read'
+    });
+
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      error: 'Failed to update notification',
+      message: 'An error occurred while marking the notification as read'
+    });
+  }
+});
+
+// Delete a notification
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await database.run(
+      'DELETE FROM notifications WHERE id = ? AND user_id = ?',
+      [req.params.id, req.user.id]
+    );
+
+    if (result.changes === 0) {
+      return res.status(404).json({
+        error: 'Notification not found',
+        message: 'Notification not found or you do not have permission to delete it'
+      });
+    }
+
+    res.json({
+      message: 'Notification deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete notification error:', error);
+    res.status(500).json({
+      error: 'Failed to delete notification',
+      message: 'An error occurred while deleting the notification'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,614 @@
+const express = require('express');
+const bcrypt = require('bcryptjs');
+const { body, validationResult } = require('express-validator');
+const { v4: uuidv4 } = require('uuid');
+const { database } = require('../config/database');
+const { generateToken, authenticateToken, requireRole } = require('../middleware/auth');
+const { upload, removeUploadedFiles, sendUploadedFile } = require('../middleware/upload');
+const { CLIENT_ROLE, invitationStatus, invitationProblem } = require('../services/portal');
+const { notify } = require('../services/notifications');
+const { approvalProblem, toStatement, approveStatement } = require('../services/settlementStatement');
+const {
+  MAX_ATTACHMENTS,
+  messageProblem,
+  listThread,
+  createMessage,
+  markThreadRead
+} = require('../services/messages');
+const {
+  listSharedDocuments,
+  findSharedDocument,
+  logAccess,
+  requestStatus,
+  fulfillRequest
+} = require('../services/documentSharing');
+
+const router = express.Router();
+
+// Case columns a client may see; internal notes, values and strategy stay with the firm
+const PORTAL_CASE_COLUMNS = [
+  'id', 'case_number', 'title', 'case_type', 'status', 'description', 'incident_date',
+  'settlement_amount', 'created_at', 'updated_at'
+].map(column => `cases.${column}`).concat(
+  `(SELECT MIN(deadlines.due_date) FROM deadlines WHERE deadlines.case_id = cases.id
+    AND deadlines.status = 'pending' AND deadlines.due_date >= date('now')) AS next_deadline`
+).join(', ');
+
+async function findInvitation(token) {
+  return database.get(
+    `SELECT portal_invitations.*, clients.name AS client_name, users.first_name, users.last_name, users.firm_name
+     FROM portal_invitations
+     JOIN clients ON clients.id = portal_invitations.client_id
+     JOIN users ON users.id = portal_invitations.invited_by
+     WHERE portal_invitations.token = ?`,
+    [token]
+  );
+}
+
+// One of the signed-in client's cases, or undefined
+async function findClientCase(caseId, clientId) {
+  return database.get('SELECT * FROM cases WHERE id = ? AND client_id = ?', [caseId, clientId]);
+}
+
+const caseNotFound = (res) => res.status(404).json({
+  error: 'Case not found',
+  message: 'Case not found or you do not have permission to view it'
+});
+
+// Signs a portal user in the same way staff sessions are created
+async function startSession(user) {
+  const token = generateToken(user.id, user.email);
+  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+
+  await database.run(
+    'INSERT INTO sessions (id, user_id, token, expires_at) VALUES (?, ?, ?, ?)',
+    [uuidv4(), user.id, token, expiresAt.toISOString()]
+  );
+  await database.run('UPDATE users SET last_login = datetime("now") WHERE id = ?', [user.id]);
+
+  const { password: _, ...userWithoutPassword } = user;
+  return { user: userWithoutPassword, token };
+}
+
+// Look up an invitation before signing up, to show who it is from
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const invitation = await findInvitation(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({
+        error: 'Invitation not found',
+        message: 'This invitation link is not valid'
+      });
+    }
+
+    res.json({
+      invitation: {
+        email: invitation.email,
+        clientName: invitation.client_name,
+        invitedBy: `${invitation.first_name} ${invitation.last_name}`,
+        firmName: invitation.firm_name,
+        expiresAt: invitation.expires_at,
+        status: invitationStatus(invitation)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch invitation',
+      message: 'An error occurred while fetching the invitation'
+    });
+  }
+});
+
+// Create a portal login from an invitation. The login uses the invited email address.
+router.post('/register', [
+  body('token').trim().isLength({ min: 1 }).withMessage('Invitation token is required'),
+  body('password').isLength({ min: 8 }).withMessage('Password must be at least 8 characters'),
+  body('firstName').trim().isLength({ min: 1 }).withMessage('First name is required'),
+  body('lastName').trim().isLength({ min: 1 }).withMessage('Last name is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { token, password, firstName, lastName } = req.body;
+
+    const invitation = await findInvitation(token);
+    if (!invitation) {
+      return res.status(404).json({
+        error: 'Invitation not found',
+        message: 'This invitation link is not valid'
+      });
+    }
+    const problem = invitationProblem(invitation);
+    if (problem) {
+      return res.status(410).json({
+        error: 'Invitation unavailable',
+        message: problem
+      });
+    }
+
+    // A client whose access was revoked and who is invited again gets their login back.
+    // Emails are compared case-insensitively but otherwise as the firm entered them.
+    const existing = await database.get('SELECT * FROM users WHERE LOWER(email) = LOWER(?)', [invitation.email.trim()]);
+    if (existing && !(existing.role === CLIENT_ROLE && existing.client_id === invitation.client_id)) {
+      return res.status(409).json({
+        error: 'User already exists',
+        message: 'An account with this email already exists. Ask your attorney to invite a different address.'
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 12);
+    let userId;
+    if (existing) {
+      userId = existing.id;
+      await database.run(
+        `UPDATE users SET password = ?, first_name = ?, last_name = ?, is_active = 1, updated_at = datetime("now")
+         WHERE id = ?`,
+        [hashedPassword, firstName, lastName, userId]
+      );
+    } else {
+      const result = await database.run(
+        `INSERT INTO users (email, password, first_name, last_name, role, firm_name, client_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [invitation.email.trim(), hashedPassword, firstName, lastName, CLIENT_ROLE, invitation.firm_name, invitation.client_id]
+      );
+      userId = result.id;
+    }
+
+    await database.run(
+      'UPDATE portal_invitations SET accepted_at = datetime("now"), accepted_user_id = ? WHERE id = ?',
+      [userId, invitation.id]
+    );
+
+    const user = await database.get('SELECT * FROM users WHERE id = ?', [userId]);
+    res.status(201).json({
+      message: 'Portal account created successfully',
+      ...await startSession(user)
+    });
+
+  } catch (error) {
+    console.error('Portal registration error:', error);
+    res.status(500).json({
+      error: 'Registration failed',
+      message: 'An error occurred while creating your portal account'
+    });
+  }
+});
+
+// Portal sign-in; staff accounts sign in through /api/auth/login. The login's email is the
+// client's address exactly as invited, so it is not normalized (normalizeEmail would strip
+// dots and +tags from gmail addresses and never match).
+router.post('/login', [
+  body('email').trim().isEmail(),
+  body('password').notEmpty().withMessage('Password is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const user = await database.get(
+      'SELECT * FROM users WHERE LOWER(email) = LOWER(?) AND role = ?',
+      [req.body.email, CLIENT_ROLE]
+    );
+    if (!user || !user.is_active || !(await bcrypt.compare(req.body.password, user.password))) {
+      return res.status(401).json({
+        error: 'Invalid credentials',
+        message: 'Email or password is incorrect'
+      });
+    }
+
+    res.json({
+      message: 'Login successful',
+      ...await startSession(user)
+    });
+
+  } catch (error) {
+    console.error('Portal login error:', error);
+    res.status(500).json({
+      error: 'Login failed',
+      message: 'An error occurred during login'
+    });
+  }
+});
+
+// Everything below is for signed-in clients and only reads their own client's records
+router.use(authenticateToken, requireRole([CLIENT_ROLE]));
+
+// The signed-in client and the attorneys on their cases
+router.get('/me', async (req, res) => {
+  try {
+    const client = await database.get(
+      `SELECT id, name, email, phone, address_line, city, state, postal_code, date_of_birth, preferred_contact_method
+       FROM clients WHERE id = ?`,
+      [req.user.client_id]
+    );
+    const attorneys = await database.all(
+      `SELECT DISTINCT users.id, users.first_name, users.last_name, users.email, users.phone, users.firm_name
+       FROM cases JOIN users ON users.id = COALESCE(cases.assigned_attorney_id, cases.user_id)
+       WHERE cases.client_id = ?`,
+      [req.user.client_id]
+    );
+
+    res.json({ user: req.user, client, attorneys });
+
+  } catch (error) {
+    console.error('Get portal profile error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch profile',
+      message: 'An error occurred while fetching your profile'
+    });
+  }
+});
+
+// The client's cases
+router.get('/cases', async (req, res) => {
+  try {
+    const cases = await database.all(
+      `SELECT ${PORTAL_CASE_COLUMNS} FROM cases WHERE cases.client_id = ? ORDER BY cases.created_at DESC`,
+      [req.user.client_id]
+    );
+
+    res.json({ cases });
+
+  } catch (error) {
+    console.error('Get portal cases error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch cases',
+      message: 'An error occurred while fetching your cases'
+    });
+  }
+});
+
+// One of the client's cases; another client's case is reported as not found
+router.get('/cases/:id', async (req, res) => {
+  try {
+    const caseData = await database.get(
+      `SELECT ${PORTAL_CASE_COLUMNS} FROM cases WHERE cases.id = ? AND cases.client_id = ?`,
+      [req.params.id, req.user.client_id]
+    );
+
+    if (!caseData) {
+      return caseNotFound(res);
+    }
+
+    res.json({ case: caseData });
+
+  } catch (error) {
+    console.error('Get portal case error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch case',
+      message: 'An error occurred while fetching the case'
+    });
+  }
+});
+
+// The case's settlement distribution statement (null until the firm saves one)
+router.get('/cases/:id/settlement-statement', async (req, res) => {
+  try {
+    if (!await findClientCase(req.params.id, req.user.client_id)) {
+      return caseNotFound(res);
+    }
+
+    const row = await database.get('SELECT * FROM settlement_statements WHERE case_id = ?', [req.params.id]);
+    res.json({ statement: row ? toStatement(row) : null });
+
+  } catch (error) {
+    console.error('Get portal settlement statement error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch settlement statement',
+      message: 'An error occurred while fetching the settlement statement'
+    });
+  }
+});
+
+// The client approves the statement in their own name; the attorney on the case is told
+router.post('/cases/:id/settlement-statement/approve', async (req, res) => {
+  try {
+    const caseData = await findClientCase(req.params.id, req.user.client_id);
+    if (!caseData) {
+      return caseNotFound(res);
+    }
+
+    const row = await database.get('SELECT * FROM settlement_statements WHERE case_id = ?', [caseData.id]);
+    if (!row) {
+      return res.status(404).json({
+        error: 'Settlement statement not found',
+        message: 'Your attorney has not prepared a settlement statement yet'
+      });
+    }
+
+    if (row.locked_at) {
+      return res.status(409).json({
+        error: 'Settlement statement locked',
+        message: 'This settlement statement has already been approved'
+      });
+    }
+
+    const problem = approvalProblem(toStatement(row).distribution);
+    if (problem) {
+      return res.status(409).json({
+        error: 'Statement cannot be approved',
+        message: problem
+      });
+    }
+
+    const name = `${req.user.first_name} ${req.user.last_name}`;
+    const statement = await approveStatement(row, 'client', name);
+
+    await notify(caseData.assigned_attorney_id || caseData.user_id, {
+      category: 'settlement',
+      title: `${name} approved the settlement statement`,
+      message: statement.lockedAt
+        ? 'Both sides have approved. The statement and case financials are now locked.'
+        : 'The statement is waiting for attorney approval.',
+      caseId: caseData.id
+    });
+
+    res.json({
+      message: 'Approval recorded',
+      statement
+    });
+
+  } catch (error) {
+    console.error('Approve portal settlement statement error:', error);
+    res.status(500).json({
+      error: 'Failed to approve settlement statement',
+      message: 'An error occurred while approving the settlement statement'
+    });
+  }
+});
+
+// The case's message thread with the firm, oldest first
+router.get('/cases/:id/messages', async (req, res) => {
+  try {
+    if (!await findClientCase(req.params.id, req.user.client_id)) {
+      return caseNotFound(res);
+    }
+
+    res.json({ messages: await listThread(req.params.id) });
+
+  } catch (error) {
+    console.error('Get portal messages error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch messages',
+      message: 'An error occurred while fetching your messages'
+    });
+  }
+});
+
+// Message the legal team; multipart with a `message` field and up to five `attachments`
+router.post('/cases/:id/messages', upload.array('attachments', MAX_ATTACHMENTS), async (req, res) => {
+  const files = req.files || [];
+  try {
+    const caseData = await findClientCase(req.params.id, req.user.client_id);
+    if (!caseData) {
+      removeUploadedFiles(files);
+      return caseNotFound(res);
+    }
+
+    const text = (req.body.message || '').trim();
+    const problem = messageProblem(text, files.map(file => ({ name: file.originalname, size: file.size })));
+    if (problem) {
+      removeUploadedFiles(files);
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: problem
+      });
+    }
+
+    const message = await createMessage(caseData, {
+      sender: 'client',
+      senderUserId: req.user.id,
+      senderName: `${req.user.first_name} ${req.user.last_name}`,
+      text,
+      files
+    });
+
+    res.status(201).json({
+      message: 'Message sent successfully',
+      clientMessage: message
+    });
+
+  } catch (error) {
+    console.error('Send portal message error:', error);
+    removeUploadedFiles(files);
+    res.status(500).json({
+      error: 'Failed to send message',
+      message: 'An error occurred while sending your message'
+    });
+  }
+});
+
+// Read receipts for the firm's messages on the case; these drive the unread count
+router.post('/cases/:id/messages/read', async (req, res) => {
+  try {
+    if (!await findClientCase(req.params.id, req.user.client_id)) {
+      return caseNotFound(res);
+    }
+
+    res.json({ marked: await markThreadRead(req.params.id, 'client') });
+
+  } catch (error) {
+    console.error('Mark portal messages read error:', error);
+    res.status(500).json({
+      error: 'Failed to mark messages read',
+      message: 'An error occurred while updating your messages'
+    });
+  }
+});
+
+// Download an attachment from one of the client's threads
+router.get('/messages/attachments/:attachmentId', async (req, res) => {
+  try {
+    const attachment = await database.get(
+      `SELECT message_attachments.* FROM message_attachments
+       JOIN client_messages ON client_messages.id = message_attachments.message_id
+       JOIN cases ON cases.id = client_messages.case_id
+       WHERE message_attachments.id = ? AND cases.client_id = ?`,
+      [req.params.attachmentId, req.user.client_id]
+    );
+
+    if (!attachment) {
+      return res.status(404).json({
+        error: 'Attachment not found',
+        message: 'Attachment not found or you do not have permission to download it'
+      });
+    }
+
+    if (!sendUploadedFile(res, attachment)) {
+      res.status(404).json({
+        error: 'File not found',
+        message: 'The requested file could not be found on the server'
+      });
+    }
+
+  } catch (error) {
+    console.error('Download portal attachment error:', error);
+    res.status(500).json({
+      error: 'Download failed',
+      message: 'An error occurred while downloading the attachment'
+    });
+  }
+});
+
+// Documents the firm currently shares on the client's cases
+router.get('/documents', async (req, res) => {
+  try {
+    res.json({ documents: await listSharedDocuments(req.user.client_id) });
+
+  } catch (error) {
+    console.error('Get portal documents error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch documents',
+      message: 'An error occurred while fetching your documents'
+    });
+  }
+});
+
+// Open or download a shared document; every access is logged for the firm
+const sendSharedDocument = (action) => async (req, res) => {
+  try {
+    const document = await findSharedDocument(req.params.documentId, req.user.client_id);
+    if (!document) {
+      return res.status(404).json({
+        error: 'Document not found',
+        message: 'Document not found or it is no longer shared with you'
+      });
+    }
+
+    if (!sendUploadedFile(res, document, { inline: action === 'view' })) {
+      return res.status(404).json({
+        error: 'File not found',
+        message: 'The requested file could not be found on the server'
+      });
+    }
+
+    await logAccess(document.id, req.user.id, 'client', action);
+
+  } catch (error) {
+    console.error('Open portal document error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Download failed',
+        message: 'An error occurred while opening the document'
+      });
+    }
+  }
+};
+
+router.get('/documents/:documentId/view', sendSharedDocument('view'));
+router.get('/documents/:documentId/download', sendSharedDocument('download'));
+
+// Documents the firm asked the client for across their cases, open ones first
+router.get('/document-requests', async (req, res) => {
+  try {
+    const requests = await database.all(
+      `SELECT document_requests.id, document_requests.case_id, document_requests.title,
+              document_requests.document_type, document_requests.notes, document_requests.fulfilled_at,
+              document_requests.created_at, cases.case_number
+       FROM document_requests JOIN cases ON cases.id = document_requests.case_id
+       WHERE cases.client_id = ? AND document_requests.cancelled_at IS NULL
+       ORDER BY document_requests.fulfilled_at IS NOT NULL, document_requests.created_at DESC`,
+      [req.user.client_id]
+    );
+
+    res.json({ requests });
+
+  } catch (error) {
+    console.error('Get portal document requests error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch document requests',
+      message: 'An error occurred while fetching your document requests'
+    });
+  }
+});
+
+// Upload the file for a request; multipart with a `document` field
+router.post('/document-requests/:requestId/upload', upload.single('document'), async (req, res) => {
+  try {
+    const documentRequest = await database.get(
+      `SELECT document_requests.* FROM document_requests
+       JOIN cases ON cases.id = document_requests.case_id
+       WHERE document_requests.id = ? AND cases.client_id = ?`,
+      [req.params.requestId, req.user.client_id]
+    );
+
+    if (!documentRequest) {
+      removeUploadedFiles([req.file]);
+      return res.status(404).json({
+        error: 'Request not found',
+        message: 'Document request not found or you do not have permission to upload for it'
+      });
+    }
+
+    if (requestStatus(documentRequest) !== 'open') {
+      removeUploadedFiles([req.file]);
+      return res.status(409).json({
+        error: 'Request closed',
+        message: 'This request is no longer open'
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'No file uploaded',
+        message: 'Please select a file to upload'
+      });
+    }
+
+    const caseData = await findClientCase(documentRequest.case_id, req.user.client_id);
+    const fulfilled = await fulfillRequest(
+      documentRequest,
+      caseData,
+      req.file,
+      `${req.user.first_name} ${req.user.last_name}`
+    );
+
+    res.status(201).json({
+      message: 'Document uploaded successfully',
+      request: fulfilled
+    });
+
+  } catch (error) {
+    console.error('Upload requested document error:', error);
+    removeUploadedFiles([req.file]);
+    res.status(500).json({
+      error: 'Upload failed',
+      message: 'An error occurred while uploading the document'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,559 @@
+const express = require('express');
+const { body, validationResult, query } = require('express-validator');
+const { v4: uuidv4 } = require('uuid');
+const { database } = require('../config/database');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const {
+  TRANSACTION_TYPES,
+  findOverdrawnCase,
+  buildClientLedgers,
+  parseBankStatementCsv,
+  matchBankLines,
+  monthEnd,
+  isReconciledDate,
+  reconcileTrustAccount
+} = require('../services/trust');
+
+const router = express.Router();
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const TRUST_OVERDRAFT = {
+  error: 'Insufficient trust funds',
+  message: 'A client ledger cannot go below zero. Disburse no more than the funds held for that client.'
+};
+
+const TRUST_RECONCILED = {
+  error: 'Month reconciled',
+  message: 'Transactions in a reconciled month cannot be changed'
+};
+
+const transactionValidators = [
+  body('caseId').isString().withMessage('Case is required'),
+  body('type').isIn(TRANSACTION_TYPES).withMessage(`Type must be one of ${TRANSACTION_TYPES.join(', ')}`),
+  body('date').isISO8601().withMessage('Valid date is required'),
+  body('amount').isFloat({ gt: 0 }).withMessage('Amount must be a positive amount'),
+  body('counterparty').trim().isLength({ min: 1 }).withMessage('Payor or payee is required'),
+  body('reference').optional().trim(),
+  body('description').optional().trim()
+];
+
+// All routes require authentication
+router.use(authenticateToken, requireStaff);
+
+// Ledger writes for a user run one at a time: the overdraft check and the write it allows
+// must not interleave with another request's, or two disbursements could both pass against
+// the same balance. The database shares one connection, so a transaction cannot isolate them.
+const ledgerQueues = new Map();
+
+function withLedgerLock(userId, task) {
+  const run = (ledgerQueues.get(userId) || Promise.resolve()).then(task);
+  const settled = run.catch(() => {});
+  ledgerQueues.set(userId, settled);
+  settled.then(() => {
+    if (ledgerQueues.get(userId) === settled) ledgerQueues.delete(userId);
+  });
+  return run;
+}
+
+async function listJournal(userId) {
+  return database.all(
+    'SELECT * FROM trust_transactions WHERE user_id = ? ORDER BY date, created_at',
+    [userId]
+  );
+}
+
+async function listCases(userId) {
+  return database.all('SELECT id, case_number, client_name FROM cases WHERE user_id = ?', [userId]);
+}
+
+// The last month signed off, if any; transactions up to its end are final
+async function reconciledThrough(userId) {
+  const row = await database.get(
+    'SELECT MAX(month) AS month FROM trust_bank_statements WHERE user_id = ? AND reconciled_at IS NOT NULL',
+    [userId]
+  );
+  return row && row.month;
+}
+
+// The latest signed-off statement before the month, which the journal balance carries from
+async function openingStatement(userId, month) {
+  return database.get(
+    `SELECT month, journal_balance FROM trust_bank_statements
+     WHERE user_id = ? AND month < ? AND reconciled_at IS NOT NULL
+     ORDER BY month DESC LIMIT 1`,
+    [userId, month]
+  );
+}
+
+// The reconciliation report for a month, as of its last day
+async function buildReconciliation(userId, month) {
+  const [statement, lines, journal, cases, opening] = await Promise.all([
+    database.get('SELECT * FROM trust_bank_statements WHERE user_id = ? AND month = ?', [userId, month]),
+    listBankLines(userId),
+    listJournal(userId),
+    listCases(userId),
+    openingStatement(userId, month)
+  ]);
+
+  return reconcileTrustAccount(
+    month,
+    statement,
+    lines.filter(line => line.month <= month),
+    journal.filter(transaction => transaction.date <= monthEnd(month)),
+    cases,
+    opening
+  );
+}
+
+// Every imported bank line with the month of its statement
+async function listBankLines(userId) {
+  return database.all(
+    `SELECT l.*, s.month FROM trust_bank_lines l
+     JOIN trust_bank_statements s ON s.id = l.statement_id
+     WHERE s.user_id = ?
+     ORDER BY l.date`,
+    [userId]
+  );
+}
+
+// The trust journal, optionally for one case
+router.get('/transactions', [
+  query('caseId').optional().isString()
+], async (req, res) => {
+  try {
+    const journal = await listJournal(req.user.id);
+
+    res.json({
+      transactions: req.query.caseId
+        ? journal.filter(transaction => transaction.case_id === req.query.caseId)
+        : journal
+    });
+
+  } catch (error) {
+    console.error('Get trust transactions error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch trust transactions',
+      message: 'An error occurred while fetching the trust journal'
+    });
+  }
+});
+
+// Record a deposit or disbursement against a client's ledger
+router.post('/transactions', transactionValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const existingCase = await database.get(
+      'SELECT id, client_name FROM cases WHERE id = ? AND user_id = ?',
+      [req.body.caseId, req.user.id]
+    );
+
+    if (!existingCase) {
+      return res.status(404).json({
+        error: 'Case not found',
+        message: 'Case not found or you do not have permission to record trust funds for it'
+      });
+    }
+
+    const { type, date, amount, counterparty, reference, description } = req.body;
+    const transaction = {
+      id: uuidv4(),
+      case_id: existingCase.id,
+      client_name: existingCase.client_name,
+      type,
+      date: date.slice(0, 10),
+      amount: Number(amount)
+    };
+
+    await withLedgerLock(req.user.id, async () => {
+      if (isReconciledDate(transaction.date, await reconciledThrough(req.user.id))) {
+        return res.status(409).json(TRUST_RECONCILED);
+      }
+
+      if (findOverdrawnCase([...await listJournal(req.user.id), transaction])) {
+        return res.status(409).json(TRUST_OVERDRAFT);
+      }
+
+      await database.run(
+        `INSERT INTO trust_transactions
+           (id, case_id, user_id, client_name, type, date, amount, counterparty, reference, description)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [transaction.id, transaction.case_id, req.user.id, transaction.client_name, type, transaction.date,
+          transaction.amount, counterparty, reference || null, description || null]
+      );
+
+      const saved = await database.get('SELECT * FROM trust_transactions WHERE id = ?', [transaction.id]);
+
+      res.status(201).json({
+        message: 'Trust transaction recorded successfully',
+        transaction: saved
+      });
+    });
+
+  } catch (error) {
+    console.error('Create trust transaction error:', error);
+    res.status(500).json({
+      error: 'Failed to record trust transaction',
+      message: 'An error occurred while recording the trust transaction'
+    });
+  }
+});
+
+// Replace a transaction; refused if any client ledger would go negative
+router.put('/transactions/:transactionId', transactionValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    await withLedgerLock(req.user.id, async () => {
+      const journal = await listJournal(req.user.id);
+      const existing = journal.find(transaction => transaction.id === req.params.transactionId);
+
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Trust transaction not found',
+          message: 'Trust transaction not found or you do not have permission to update it'
+        });
+      }
+
+      const existingCase = await database.get(
+        'SELECT id, client_name FROM cases WHERE id = ? AND user_id = ?',
+        [req.body.caseId, req.user.id]
+      );
+
+      if (!existingCase) {
+        return res.status(404).json({
+          error: 'Case not found',
+          message: 'Case not found or you do not have permission to record trust funds for it'
+        });
+      }
+
+      const { type, date, amount, counterparty, reference, description } = req.body;
+      const updated = {
+        ...existing,
+        case_id: existingCase.id,
+        client_name: existingCase.client_name,
+        type,
+        date: date.slice(0, 10),
+        amount: Number(amount)
+      };
+
+      const reconciledMonth = await reconciledThrough(req.user.id);
+      if (isReconciledDate(existing.date, reconciledMonth) || isReconciledDate(updated.date, reconciledMonth)) {
+        return res.status(409).json(TRUST_RECONCILED);
+      }
+
+      if (findOverdrawnCase([...journal.filter(transaction => transaction.id !== existing.id), updated])) {
+        return res.status(409).json(TRUST_OVERDRAFT);
+      }
+
+      await database.run(
+        `UPDATE trust_transactions SET case_id = ?, client_name = ?, type = ?, date = ?, amount = ?, counterparty = ?,
+           reference = ?, description = ?, updated_at = datetime("now")
+         WHERE id = ?`,
+        [updated.case_id, updated.client_name, type, updated.date, updated.amount, counterparty, reference || null,
+          description || null, existing.id]
+      );
+
+      const saved = await database.get('SELECT * FROM trust_transactions WHERE id = ?', [existing.id]);
+
+      res.json({
+        message: 'Trust transaction updated successfully',
+        transaction: saved
+      });
+    });
+
+  } catch (error) {
+    console.error('Update trust transaction error:', error);
+    res.status(500).json({
+      error: 'Failed to update trust transaction',
+      message: 'An error occurred while updating the trust transaction'
+    });
+  }
+});
+
+// Remove a transaction entered in error; bank lines matched to it become unmatched
+router.delete('/transactions/:transactionId', async (req, res) => {
+  try {
+    await withLedgerLock(req.user.id, async () => {
+      const journal = await listJournal(req.user.id);
+      const existing = journal.find(transaction => transaction.id === req.params.transactionId);
+
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Trust transaction not found',
+          message: 'Trust transaction not found or you do not have permission to delete it'
+        });
+      }
+
+      if (isReconciledDate(existing.date, await reconciledThrough(req.user.id))) {
+        return res.status(409).json(TRUST_RECONCILED);
+      }
+
+      if (findOverdrawnCase(journal.filter(transaction => transaction.id !== existing.id))) {
+        return res.status(409).json(TRUST_OVERDRAFT);
+      }
+
+      await database.run('UPDATE trust_bank_lines SET matched_transaction_id = NULL WHERE matched_transaction_id = ?', [existing.id]);
+      await database.run('DELETE FROM trust_transactions WHERE id = ?', [existing.id]);
+
+      res.json({
+        message: 'Trust transaction deleted successfully'
+      });
+    });
+
+  } catch (error) {
+    console.error('Delete trust transaction error:', error);
+    res.status(500).json({
+      error: 'Failed to delete trust transaction',
+      message: 'An error occurred while deleting the trust transaction'
+    });
+  }
+});
+
+// Per-client ledgers with their running balances
+router.get('/ledgers', async (req, res) => {
+  try {
+    const [journal, cases] = await Promise.all([listJournal(req.user.id), listCases(req.user.id)]);
+
+    res.json({
+      ledgers: buildClientLedgers(journal, cases)
+    });
+
+  } catch (error) {
+    console.error('Get trust ledgers error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch client ledgers',
+      message: 'An error occurred while fetching the client ledgers'
+    });
+  }
+});
+
+// Import a month's bank statement CSV, replacing any earlier import for that month, and
+// match its lines against the journal
+router.post('/statements', [
+  body('month').matches(MONTH_PATTERN).withMessage('Month must be formatted as YYYY-MM'),
+  body('endingBalance').isFloat().withMessage('Ending balance is required'),
+  body('csv').isString().isLength({ min: 1 }).withMessage('Statement CSV is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    let parsed;
+    try {
+      parsed = parseBankStatementCsv(req.body.csv);
+    } catch (parseError) {
+      return res.status(400).json({
+        error: 'Invalid statement',
+        message: parseError.message
+      });
+    }
+
+    const { month, endingBalance } = req.body;
+    if (isReconciledDate(monthEnd(month), await reconciledThrough(req.user.id))) {
+      return res.status(409).json(TRUST_RECONCILED);
+    }
+
+    await database.run('DELETE FROM trust_bank_statements WHERE user_id = ? AND month = ?', [req.user.id, month]);
+    await database.run(
+      'DELETE FROM trust_bank_lines WHERE statement_id NOT IN (SELECT id FROM trust_bank_statements)'
+    );
+
+    const [journal, otherLines] = await Promise.all([listJournal(req.user.id), listBankLines(req.user.id)]);
+    const lines = matchBankLines(
+      parsed.map(line => ({ ...line, id: uuidv4() })),
+      journal,
+      otherLines.map(line => line.matched_transaction_id).filter(Boolean)
+    );
+
+    const statementId = uuidv4();
+    await database.run(
+      'INSERT INTO trust_bank_statements (id, user_id, month, ending_balance) VALUES (?, ?, ?, ?)',
+      [statementId, req.user.id, month, endingBalance]
+    );
+    for (const line of lines) {
+      await database.run(
+        `INSERT INTO trust_bank_lines (id, statement_id, date, description, amount, reference, matched_transaction_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [line.id, statementId, line.date, line.description, line.amount, line.reference || null,
+          line.matched_transaction_id || null]
+      );
+    }
+
+    res.status(201).json({
+      message: 'Bank statement imported successfully',
+      statement: { id: statementId, month, ending_balance: Number(endingBalance), lines },
+      matched: lines.filter(line => line.matched_transaction_id).length
+    });
+
+  } catch (error) {
+    console.error('Import bank statement error:', error);
+    res.status(500).json({
+      error: 'Failed to import bank statement',
+      message: 'An error occurred while importing the bank statement'
+    });
+  }
+});
+
+// Manually match a bank line to a journal transaction, or unmatch it with null
+router.put('/statements/:month/lines/:lineId', [
+  body('transactionId').optional({ nullable: true }).isString()
+], async (req, res) => {
+  try {
+    const line = await database.get(
+      `SELECT l.id, s.reconciled_at FROM trust_bank_lines l
+       JOIN trust_bank_statements s ON s.id = l.statement_id
+       WHERE l.id = ? AND s.month = ? AND s.user_id = ?`,
+      [req.params.lineId, req.params.month, req.user.id]
+    );
+
+    if (!line) {
+      return res.status(404).json({
+        error: 'Bank line not found',
+        message: 'Bank statement line not found or you do not have permission to update it'
+      });
+    }
+
+    if (line.reconciled_at) {
+      return res.status(409).json(TRUST_RECONCILED);
+    }
+
+    const { transactionId } = req.body;
+    if (transactionId) {
+      const transaction = await database.get(
+        'SELECT id FROM trust_transactions WHERE id = ? AND user_id = ?',
+        [transactionId, req.user.id]
+      );
+      const alreadyMatched = await database.get(
+        'SELECT id FROM trust_bank_lines WHERE matched_transaction_id = ? AND id != ?',
+        [transactionId, line.id]
+      );
+
+      if (!transaction || alreadyMatched) {
+        return res.status(400).json({
+          error: 'Invalid match',
+          message: 'The transaction does not exist or is already matched to another bank line'
+        });
+      }
+    }
+
+    await database.run(
+      'UPDATE trust_bank_lines SET matched_transaction_id = ? WHERE id = ?',
+      [transactionId || null, line.id]
+    );
+
+    res.json({
+      message: transactionId ? 'Bank line matched' : 'Bank line unmatched'
+    });
+
+  } catch (error) {
+    console.error('Match bank line error:', error);
+    res.status(500).json({
+      error: 'Failed to update bank line',
+      message: 'An error occurred while matching the bank line'
+    });
+  }
+});
+
+// Monthly three-way reconciliation report
+router.get('/reconciliation', [
+  query('month').matches(MONTH_PATTERN).withMessage('Month must be formatted as YYYY-MM')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    res.json({
+      reconciliation: await buildReconciliation(req.user.id, req.query.month)
+    });
+
+  } catch (error) {
+    console.error('Get trust reconciliation error:', error);
+    res.status(500).json({
+      error: 'Failed to build reconciliation',
+      message: 'An error occurred while reconciling the trust account'
+    });
+  }
+});
+
+// Sign off a balanced month: records the journal balance later months carry forward from
+// and makes the month's transactions final
+router.post('/statements/:month/reconcile', async (req, res) => {
+  try {
+    if (!MONTH_PATTERN.test(req.params.month)) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Month must be formatted as YYYY-MM'
+      });
+    }
+
+    await withLedgerLock(req.user.id, async () => {
+      const { month } = req.params;
+      const statement = await database.get(
+        'SELECT id, reconciled_at FROM trust_bank_statements WHERE user_id = ? AND month = ?',
+        [req.user.id, month]
+      );
+
+      if (!statement) {
+        return res.status(404).json({
+          error: 'Bank statement not found',
+          message: 'Import the bank statement for the month first'
+        });
+      }
+
+      if (statement.reconciled_at) {
+        return res.status(409).json(TRUST_RECONCILED);
+      }
+
+      const reconciliation = await buildReconciliation(req.user.id, month);
+      if (!reconciliation.balanced) {
+        return res.status(409).json({
+          error: 'Reconciliation does not balance',
+          message: 'A month can only be signed off once the bank, journal and client ledgers agree'
+        });
+      }
+
+      await database.run(
+        'UPDATE trust_bank_statements SET reconciled_at = datetime("now"), journal_balance = ? WHERE id = ?',
+        [reconciliation.journalBalance, statement.id]
+      );
+
+      res.json({
+        message: 'Month reconciled successfully',
+        reconciliation: await buildReconciliation(req.user.id, month)
+      });
+    });
+
+  } catch (error) {
+    console.error('Reconcile trust month error:', error);
+    res.status(500).json({
+      error: 'Failed to reconcile month',
+      message: 'An error occurred while signing off the reconciliation'
+    });
+  }
+});
+
+module.exports = router;
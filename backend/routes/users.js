@@ -1,12 +1,50 @@
 const express = require('express');
 const { body, validationResult, query } = require('express-validator');
 const { database } = require('../config/database');
-const { authenticateToken, requireRole } = require('../middleware/auth');
+const { authenticateToken, requireRole, requireStaff } = require('../middleware/auth');
+const {
+  THEMES,
+  DATE_FORMATS,
+  TIME_FORMATS,
+  SESSION_TIMEOUT_MINUTES,
+  PASSWORD_EXPIRY_DAYS,
+  DEFAULT_PREFERENCES,
+  getUserPreferences,
+  updateUserPreferences
+} = require('../services/preferences');
 
 const router = express.Router();
 
+const isBooleanValue = value => typeof value === 'boolean';
+
+// Toggle groups may only set known keys, and only to booleans
+const isToggleGroup = group => value => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([key, toggle]) =>
+    Object.prototype.hasOwnProperty.call(DEFAULT_PREFERENCES[group], key) && isBooleanValue(toggle)
+  );
+};
+
+const preferenceValidators = [
+  body('theme').optional().isIn(THEMES),
+  body('accentColor').optional().matches(/^#[0-9a-fA-F]{6}$/).withMessage('Accent color must be a hex color such as #1e40af'),
+  body('sidebarCollapsed').optional().custom(isBooleanValue).withMessage('sidebarCollapsed must be a boolean'),
+  body('notifications').optional().custom(isToggleGroup('notifications'))
+    .withMessage(`Notifications may only set ${Object.keys(DEFAULT_PREFERENCES.notifications).join(', ')} to booleans`),
+  body('dashboard').optional().custom(isToggleGroup('dashboard'))
+    .withMessage(`Dashboard may only set ${Object.keys(DEFAULT_PREFERENCES.dashboard).join(', ')} to booleans`),
+  body('dateFormat').optional().isIn(DATE_FORMATS),
+  body('timeFormat').optional().isIn(TIME_FORMATS),
+  body('security').optional().isObject(),
+  body('security.twoFactorEnabled').optional().custom(isBooleanValue).withMessage('twoFactorEnabled must be a boolean'),
+  body('security.sessionTimeoutMinutes').optional().isIn(SESSION_TIMEOUT_MINUTES)
+    .withMessage(`Session timeout must be one of ${SESSION_TIMEOUT_MINUTES.join(', ')} minutes`).toInt(),
+  body('security.passwordExpiryDays').optional().isIn(PASSWORD_EXPIRY_DAYS)
+    .withMessage(`Password expiry must be one of ${PASSWORD_EXPIRY_DAYS.join(', ')} days`).toInt()
+];
+
 // All routes require authentication
-router.use(authenticateToken);
+router.use(authenticateToken, requireStaff);
 
 // Get user dashboard data
 router.get('/dashboard', async (req, res) => {
@@ -226,23 +264,7 @@ router.get('/activity', [
 // Get user preferences
 router.get('/preferences', async (req, res) => {
   try {
-    // For now, return default preferences
-    // In a real app, you might have a preferences table
-    const preferences = {
-      theme: 'light',
-      notifications: {
-        email: true,
-        deadlines: true,
-        caseUpdates: true
-      },
-      dashboard: {
-        showRecentCases: true,
-        showUpcomingDeadlines: true,
-        showRecentActivity: true
-      },
-      dateFormat: 'MM/DD/YYYY',
-      timeFormat: '12h'
-    };
+    const preferences = await getUserPreferences(req.user.id);
 
     res.json({
       preferences
@@ -258,13 +280,7 @@ router.get('/preferences', async (req, res) => {
 });
 
 // Update user preferences
-router.put('/preferences', [
-  body('theme').optional().isIn(['light', 'dark']),
-  body('notifications').optional().isObject(),
-  body('dashboard').optional().isObject(),
-  body('dateFormat').optional().isIn(['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD']),
-  body('timeFormat').optional().isIn(['12h', '24h'])
-], async (req, res) => {
+router.put('/preferences', preferenceValidators, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -274,9 +290,15 @@ router.put('/preferences', [
       });
     }
 
-    // For now, just return the updated preferences
-    // In a real app, you would save these to a preferences table
-    const updatedPreferences = req.body;
+    const { theme, accentColor, sidebarCollapsed, notifications, dashboard, dateFormat, timeFormat, security } = req.body;
+    const updatedPreferences = await updateUserPreferences(req.user.id, {
+      theme, accentColor, sidebarCollapsed, notifications, dashboard, dateFormat, timeFormat,
+      security: security && {
+        twoFactorEnabled: security.twoFactorEnabled,
+        sessionTimeoutMinutes: security.sessionTimeoutMinutes,
+        passwordExpiryDays: security.passwordExpiryDays
+      }
+    });
 
     res.json({
       message: 'Preferences updated successfully',
@@ -365,6 +387,53 @@ router.get('/stats', async (req, res) => {
   }
 });
 
+// Admin only: set a firm member's hourly billing rate. Time entries recorded without a
+// rate bill at this one; null clears it.
+router.put('/:id/billing-rate', requireRole(['admin']), [
+  body('billingRate').optional({ nullable: true }).isFloat({ gt: 0 }).withMessage('Billing rate must be a positive amount')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const result = await database.run(
+      `UPDATE users SET billing_rate = ?, updated_at = datetime("now")
+       WHERE id = ? AND (id = ? OR (COALESCE(firm_name, '') != ''
+         AND firm_name = (SELECT firm_name FROM users WHERE id = ?)))`,
+      [req.body.billingRate || null, req.params.id, req.user.id, req.user.id]
+    );
+
+    if (result.changes === 0) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User not found or not a member of your firm'
+      });
+    }
+
+    const user = await database.get(
+      'SELECT id, first_name, last_name, billing_rate FROM users WHERE id = ?',
+      [req.params.id]
+    );
+
+    res.json({
+      message: 'Billing rate updated successfully',
+      user
+    });
+
+  } catch (error) {
+    console.error('Update billing rate error:', error);
+    res.status(500).json({
+      error: 'Failed to update billing rate',
+      message: 'An error occurred while updating the billing rate'
+    });
+  }
+});
+
 // Admin only: Get all users (for admin dashboard)
 router.get('/admin/all', requireRole(['admin']), [
   query('page').optional().isInt({ min: 1 }),
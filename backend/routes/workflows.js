@@ -0,0 +1,122 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const { v4: uuidv4 } = require('uuid');
+const { database } = require('../config/database');
+const { authenticateToken, requireStaff } = require('../middleware/auth');
+const { workflowKey, toCaseWorkflow, validateWorkflow } = require('../services/workflow');
+
+const router = express.Router();
+
+const CASE_TYPES = ['personal_injury', 'auto_accident', 'medical_malpractice', 'workers_comp', 'other'];
+
+const caseTypeValidator = param('caseType').isIn(CASE_TYPES).withMessage(`Case type must be one of ${CASE_TYPES.join(', ')}`);
+
+// All routes require authentication
+router.use(authenticateToken, requireStaff);
+
+async function findWorkflowRow(user, caseType) {
+  return database.get(
+    'SELECT * FROM case_workflows WHERE firm_key = ? AND case_type = ?',
+    [workflowKey(user), caseType]
+  );
+}
+
+// The user's workflow for a case type, or the standard one
+router.get('/:caseType', [caseTypeValidator], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const row = await findWorkflowRow(req.user, req.params.caseType);
+    res.json({ workflow: toCaseWorkflow(row, req.params.caseType) });
+
+  } catch (error) {
+    console.error('Get workflow error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch workflow',
+      message: 'An error occurred while fetching the workflow'
+    });
+  }
+});
+
+// Save the user's workflow for a case type
+router.put('/:caseType', [
+  caseTypeValidator,
+  body('stages').isArray({ min: 1 }).withMessage('Stages are required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const problem = validateWorkflow(req.body.stages);
+    if (problem) {
+      return res.status(400).json({
+        error: 'Invalid workflow',
+        message: problem
+      });
+    }
+
+    await database.run(
+      `INSERT INTO case_workflows (id, firm_key, case_type, stages, updated_by)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (firm_key, case_type) DO UPDATE SET
+         stages = excluded.stages, updated_by = excluded.updated_by, updated_at = datetime("now")`,
+      [uuidv4(), workflowKey(req.user), req.params.caseType, JSON.stringify(req.body.stages), req.user.id]
+    );
+
+    const row = await findWorkflowRow(req.user, req.params.caseType);
+    res.json({
+      message: 'Workflow saved successfully',
+      workflow: toCaseWorkflow(row, req.params.caseType)
+    });
+
+  } catch (error) {
+    console.error('Save workflow error:', error);
+    res.status(500).json({
+      error: 'Failed to save workflow',
+      message: 'An error occurred while saving the workflow'
+    });
+  }
+});
+
+// Drop the user's workflow so the standard one applies again
+router.delete('/:caseType', [caseTypeValidator], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    await database.run(
+      'DELETE FROM case_workflows WHERE firm_key = ? AND case_type = ?',
+      [workflowKey(req.user), req.params.caseType]
+    );
+
+    res.json({
+      message: 'Workflow reset to standard',
+      workflow: toCaseWorkflow(null, req.params.caseType)
+    });
+
+  } catch (error) {
+    console.error('Reset workflow error:', error);
+    res.status(500).json({
+      error: 'Failed to reset workflow',
+      message: 'An error occurred while resetting the workflow'
+    });
+  }
+});
+
+module.exports = router;
@@ -8,8 +8,17 @@ require('dotenv').config();
 const authRoutes = require('./routes/auth');
 const userRoutes = require('./routes/users');
 const caseRoutes = require('./routes/cases');
+const clientRoutes = require('./routes/clients');
 const documentRoutes = require('./routes/documents');
+const calendarRoutes = require('./routes/calendar');
+const notificationRoutes = require('./routes/notifications');
+const trustRoutes = require('./routes/trust');
+const workflowRoutes = require('./routes/workflows');
+const conflictRoutes = require('./routes/conflicts');
+const portalRoutes = require('./routes/portal');
+const messageRoutes = require('./routes/messages');
 const { initializeDatabase } = require('./config/database');
+const { startReminderScheduler } = require('./services/reminderScheduler');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -53,7 +62,15 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/cases', caseRoutes);
+app.use('/api/clients', clientRoutes);
 app.use('/api/documents', documentRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/trust', trustRoutes);
+app.use('/api/workflows', workflowRoutes);
+app.use('/api/conflicts', conflictRoutes);
+app.use('/api/portal', portalRoutes);
+app.use('/api/messages', messageRoutes);
 
 // Error handling middleware
 app.use((err, req, res, next) => {
@@ -92,6 +109,10 @@ async function startServer() {
   try {
     await initializeDatabase();
     console.log('✅ Database initialized successfully');
+
+    if (process.env.REMINDER_SCHEDULER !== 'off') {
+      startReminderScheduler();
+    }
     
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -0,0 +1,185 @@
+// Case analytics over a rolling time range: monthly intake, settlements and revenue,
+// time to settle and time in each stage from the status history, and negotiation outcomes.
+// Mirrors src/lib/analytics.ts - keep in sync.
+
+const ANALYTICS_RANGES = {
+  '1month': 1,
+  '3months': 3,
+  '6months': 6,
+  '1year': 12
+};
+
+// Statuses that end a case without a settlement
+const UNSETTLED_OUTCOMES = ['closed', 'dismissed'];
+
+const DAY_MS = 86400000;
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone marker
+const toDate = value => new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+
+const percent = (part, whole) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : null);
+const average = values =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+
+const daysBetween = (from, to) =>
+  Math.max(0, Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS));
+
+const monthKey = date => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Rolling window: the same day the given number of months ago
+function rangeStart(range, now = new Date()) {
+  return new Date(now.getFullYear(), now.getMonth() - ANALYTICS_RANGES[range], now.getDate());
+}
+
+// Every calendar month the window touches, oldest first, with nothing counted yet
+function emptyMonths(since, now) {
+  const months = [];
+  for (let date = new Date(since.getFullYear(), since.getMonth(), 1); date <= now; date.setMonth(date.getMonth() + 1)) {
+    months.push({
+      month: monthKey(date),
+      label: `${date.toLocaleString('en-US', { month: 'short' })} ${String(date.getFullYear()).slice(2)}`,
+      cases: 0,
+      settlements: 0,
+      revenue: 0
+    });
+  }
+  return months;
+}
+
+const statusChanges = history =>
+  history.filter(change => change.field === 'status').sort((a, b) => toDate(a.changed_at) - toDate(b.changed_at));
+
+// First time each case entered one of the statuses
+function firstTransitions(history, statuses) {
+  const dates = new Map();
+  for (const change of statusChanges(history)) {
+    if (statuses.includes(change.to_value) && !dates.has(change.case_id)) {
+      dates.set(change.case_id, change.changed_at);
+    }
+  }
+  return dates;
+}
+
+// Each stretch a case spent in one status, from intake or the change into it until the
+// change out of it. The last stretch is still running and has no end.
+function stageVisits(caseRow, history) {
+  const changes = statusChanges(history).filter(change => change.case_id === caseRow.id);
+  const visits = [];
+  let status = changes.length > 0 ? changes[0].from_value : caseRow.status;
+  let enteredAt = caseRow.created_at;
+  for (const change of changes) {
+    visits.push({ status, enteredAt, leftAt: change.changed_at });
+    status = change.to_value;
+    enteredAt = change.changed_at;
+  }
+  visits.push({ status, enteredAt });
+  return visits;
+}
+
+// Average days per status over the finished stretches that match the filter, in the
+// order cases move through them
+function timeInStage(cases, history, endedIn = () => true) {
+  const stages = new Map();
+  const finished = cases
+    .flatMap(caseRow => stageVisits(caseRow, history))
+    .filter(visit => visit.leftAt && endedIn(visit.leftAt))
+    .sort((a, b) => toDate(a.enteredAt) - toDate(b.enteredAt));
+
+  for (const visit of finished) {
+    const days = stages.get(visit.status) || [];
+    days.push(daysBetween(visit.enteredAt, visit.leftAt));
+    stages.set(visit.status, days);
+  }
+  return [...stages.entries()].map(([status, days]) => ({
+    status,
+    averageDays: Math.round(average(days) * 10) / 10,
+    visits: days.length
+  }));
+}
+
+// When each case settled: its first move to settled in the status history or, for cases
+// settled before the history was kept, when both sides approved the settlement statement
+function settlementDates(history, statements) {
+  const dates = firstTransitions(history, ['settled']);
+  for (const statement of statements) {
+    if (statement.locked_at && !dates.has(statement.case_id)) dates.set(statement.case_id, statement.locked_at);
+  }
+  return dates;
+}
+
+function buildCaseAnalytics(range, cases, history, statements, negotiations, now = new Date()) {
+  const since = rangeStart(range, now);
+  const inRange = value => !!value && toDate(value) >= since && toDate(value) <= now;
+  const amount = caseRow => Number(caseRow.settlement_amount) || 0;
+
+  const settledOn = settlementDates(history, statements);
+  const endedOn = firstTransitions(history, UNSETTLED_OUTCOMES);
+  const opened = cases.filter(caseRow => inRange(caseRow.created_at));
+  const settled = cases.filter(caseRow => inRange(settledOn.get(caseRow.id)));
+  const lost = cases.filter(caseRow => !settledOn.has(caseRow.id) && inRange(endedOn.get(caseRow.id)));
+
+  const monthly = emptyMonths(since, now);
+  const bucket = value => monthly.find(month => month.month === monthKey(toDate(value)));
+  for (const caseRow of opened) {
+    const month = bucket(caseRow.created_at);
+    if (month) month.cases++;
+  }
+  for (const caseRow of settled) {
+    const month = bucket(settledOn.get(caseRow.id));
+    if (!month) continue;
+    month.settlements++;
+    month.revenue += amount(caseRow);
+  }
+
+  const daysToSettle = settled.map(caseRow => daysBetween(caseRow.created_at, settledOn.get(caseRow.id)));
+  const averageDays = average(daysToSettle);
+
+  const byType = new Map();
+  const byStatus = new Map();
+  for (const caseRow of opened) {
+    const type = byType.get(caseRow.case_type || 'other') || { count: 0, value: 0 };
+    type.count++;
+    type.value += amount(caseRow);
+    byType.set(caseRow.case_type || 'other', type);
+    byStatus.set(caseRow.status, (byStatus.get(caseRow.status) || 0) + 1);
+  }
+
+  const concluded = negotiations.filter(negotiation =>
+    inRange(negotiation.updated_at) && (negotiation.status === 'accepted' || negotiation.status === 'rejected')
+  );
+  const accepted = concluded.filter(negotiation => negotiation.status === 'accepted');
+  const recovered = average(
+    accepted
+      .filter(negotiation => Number(negotiation.demand_amount) > 0)
+      .map(negotiation => (Number(negotiation.current_offer) / Number(negotiation.demand_amount)) * 100)
+  );
+
+  return {
+    range,
+    since: since.toISOString(),
+    newCases: opened.length,
+    openCases: opened.filter(caseRow => caseRow.status !== 'settled' && !UNSETTLED_OUTCOMES.includes(caseRow.status)).length,
+    settledCases: settled.length,
+    totalSettlements: settled.reduce((total, caseRow) => total + amount(caseRow), 0),
+    averageSettlement: average(settled.map(amount)),
+    avgDaysToSettle: averageDays === null ? null : Math.round(averageDays),
+    fastestDaysToSettle: daysToSettle.length > 0 ? Math.min(...daysToSettle) : null,
+    slowestDaysToSettle: daysToSettle.length > 0 ? Math.max(...daysToSettle) : null,
+    successRate: percent(settled.length, settled.length + lost.length),
+    negotiationSuccess: percent(accepted.length, concluded.length),
+    demandRecovered: recovered === null ? null : Math.round(recovered * 10) / 10,
+    monthly,
+    casesByType: [...byType.entries()].map(([type, data]) => ({ type, ...data })),
+    casesByStatus: [...byStatus.entries()].map(([status, count]) => ({ status, count })),
+    timeInStage: timeInStage(cases, history, inRange)
+  };
+}
+
+module.exports = {
+  ANALYTICS_RANGES,
+  rangeStart,
+  settlementDates,
+  stageVisits,
+  timeInStage,
+  buildCaseAnalytics
+};
@@ -0,0 +1,94 @@
+// Hourly billing: time entries recorded against a case and the invoices built from
+// unbilled time. Mirrors src/lib/billing.ts - keep in sync.
+
+// UTBMS litigation activity codes
+const ACTIVITY_CODES = {
+  A101: 'Plan and prepare for',
+  A102: 'Research',
+  A103: 'Draft/revise',
+  A104: 'Review/analyze',
+  A105: 'Communicate (in firm)',
+  A106: 'Communicate (with client)',
+  A107: 'Communicate (other outside counsel)',
+  A108: 'Communicate (other external)',
+  A109: 'Appear for/attend',
+  A110: 'Manage data/files',
+  A111: 'Other'
+};
+
+const INVOICE_STATUSES = ['unpaid', 'paid'];
+const INVOICE_TERMS_DAYS = 30;
+
+const roundCents = value => Math.round(value * 100) / 100;
+const nonNegative = value => (Number.isFinite(Number(value)) && Number(value) > 0 ? Number(value) : 0);
+
+// Billed in tenths of an hour, rounded up, as is customary
+const billableHours = minutes => Math.ceil(nonNegative(minutes) / 6) / 10;
+
+const entryAmount = entry => roundCents(billableHours(entry.minutes) * nonNegative(entry.rate));
+
+// Whole minutes the timer has been running
+const elapsedMinutes = (startedAt, now = new Date()) =>
+  Math.max(0, Math.floor((now.getTime() - new Date(startedAt).getTime()) / 60000));
+
+// Entries that can go on the next invoice: finished and not yet billed
+const isUnbilled = entry => !entry.invoice_id && !entry.timer_started_at && Number(entry.minutes) > 0;
+
+function buildInvoiceLines(entries) {
+  return [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(entry => ({
+      timeEntryId: entry.id,
+      date: entry.date,
+      timekeeperName: entry.timekeeper_name,
+      activityCode: entry.activity_code,
+      description: entry.description,
+      hours: billableHours(entry.minutes),
+      rate: nonNegative(entry.rate),
+      amount: entryAmount(entry)
+    }));
+}
+
+const invoiceTotal = lines => roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+
+// INV-2024-0001, numbered per user and year
+function nextInvoiceNumber(existingNumbers, date = new Date()) {
+  const prefix = `INV-${date.getFullYear()}-`;
+  const last = existingNumbers
+    .filter(number => number.startsWith(prefix))
+    .map(number => parseInt(number.slice(prefix.length), 10) || 0)
+    .reduce((max, value) => Math.max(max, value), 0);
+  return `${prefix}${String(last + 1).padStart(4, '0')}`;
+}
+
+const toDateString = date =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+function invoiceDueDate(issueDate) {
+  const due = new Date(issueDate);
+  due.setDate(due.getDate() + INVOICE_TERMS_DAYS);
+  return toDateString(due);
+}
+
+// Row from time_entries with its amount added
+const toTimeEntry = row => ({ ...row, amount: entryAmount(row) });
+
+// Row from invoices with its lines parsed
+const toInvoice = row => ({ ...row, lines: JSON.parse(row.lines || '[]') });
+
+module.exports = {
+  ACTIVITY_CODES,
+  INVOICE_STATUSES,
+  INVOICE_TERMS_DAYS,
+  billableHours,
+  entryAmount,
+  elapsedMinutes,
+  isUnbilled,
+  buildInvoiceLines,
+  invoiceTotal,
+  nextInvoiceNumber,
+  invoiceDueDate,
+  toDateString,
+  toTimeEntry,
+  toInvoice
+};
@@ -0,0 +1,97 @@
+// Client records and matching case contact details to them.
+// Mirrors src/lib/clients.ts - keep in sync. Works on snake_case clients rows and the
+// client_* columns of cases.
+
+const CONTACT_METHODS = ['email', 'phone', 'text', 'mail'];
+
+// Case and spacing differences in a name are typing, not a different person
+const normalizeName = name => String(name || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const normalizeEmail = email => String(email || '').trim().toLowerCase();
+
+// Formatting differences in a phone number are typing as well
+const normalizePhone = phone => String(phone || '').replace(/\D/g, '');
+
+const conflicts = (a, b) => Boolean(a && b && a !== b);
+const agrees = (a, b) => Boolean(a && b && a === b);
+
+// The client a case's contact details belong to. The names must match, nothing known about
+// the two may disagree, and the email, phone number or date of birth must agree. Family
+// members often share an email address or phone, and a shared name alone is not evidence
+// of the same person either, so without both the case gets a client of its own.
+function findMatchingClient(clients, contact) {
+  const name = normalizeName(contact.client_name);
+  if (!name) return undefined;
+
+  const email = normalizeEmail(contact.client_email);
+  const phone = normalizePhone(contact.client_phone);
+  return clients.find(client =>
+    normalizeName(client.name) === name &&
+    !conflicts(normalizeEmail(client.email), email) &&
+    !conflicts(client.date_of_birth, contact.client_date_of_birth) &&
+    (agrees(normalizeEmail(client.email), email) ||
+      agrees(normalizePhone(client.phone), phone) ||
+      agrees(client.date_of_birth, contact.client_date_of_birth))
+  );
+}
+
+// Details a case knows that its client record is still missing
+function missingClientDetails(client, contact) {
+  const updates = {};
+  if (!client.email && contact.client_email) updates.email = contact.client_email.trim();
+  if (!client.phone && contact.client_phone) updates.phone = contact.client_phone.trim();
+  if (!client.date_of_birth && contact.client_date_of_birth) updates.date_of_birth = contact.client_date_of_birth;
+  return updates;
+}
+
+function clientFromContact(contact) {
+  const email = String(contact.client_email || '').trim();
+  const phone = String(contact.client_phone || '').trim();
+  return {
+    name: String(contact.client_name).trim().replace(/\s+/g, ' '),
+    email: email || null,
+    phone: phone || null,
+    date_of_birth: contact.client_date_of_birth || null,
+    preferred_contact_method: !email && phone ? 'phone' : 'email'
+  };
+}
+
+// The copy of the client's contact details kept on each of their cases
+const caseContact = client => ({
+  client_name: client.name,
+  client_email: client.email || null,
+  client_phone: client.phone || null,
+  client_date_of_birth: client.date_of_birth || null
+});
+
+// Problems that stop a client being saved, or null when it can be
+function validateClient(client) {
+  if (!String(client.name || '').trim()) return 'Client name is required';
+  const method = client.preferred_contact_method;
+  if (method === 'email' && !client.email) return 'An email address is needed to contact the client by email';
+  if ((method === 'phone' || method === 'text') && !client.phone) return 'A phone number is needed to call or text the client';
+  if (method === 'mail' && !client.address_line) return 'A mailing address is needed to contact the client by mail';
+  return null;
+}
+
+const CLOSED_STATUSES = ['settled', 'closed', 'dismissed'];
+
+function summarizeClientCases(cases) {
+  return {
+    total_cases: cases.length,
+    open_cases: cases.filter(caseData => !CLOSED_STATUSES.includes(caseData.status)).length,
+    total_settlements: cases
+      .filter(caseData => CLOSED_STATUSES.includes(caseData.status))
+      .reduce((total, caseData) => total + (Number(caseData.settlement_amount) || 0), 0)
+  };
+}
+
+module.exports = {
+  CONTACT_METHODS,
+  findMatchingClient,
+  missingClientDetails,
+  clientFromContact,
+  caseContact,
+  validateClient,
+  summarizeClientCases
+};
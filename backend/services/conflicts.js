@@ -0,0 +1,300 @@
+// Conflict-of-interest search over every client and case party the firm has recorded.
+// Mirrors src/lib/conflicts.ts - keep in sync. Registry entries are built from snake_case
+// clients and case_parties rows.
+
+const { database } = require('../config/database');
+
+const PARTY_ROLES = {
+  client: 'Client',
+  adverse_party: 'Adverse party',
+  insured: "Insurer's insured",
+  witness: 'Witness',
+  opposing_counsel: 'Opposing counsel'
+};
+
+// Sides of a case: a match across them means the firm was for someone it would now be against
+const ADVERSE_ROLES = ['adverse_party', 'insured'];
+
+// Scores below this are too weak to show
+const MATCH_THRESHOLD = 0.8;
+
+// Common nicknames and the formal first name they stand for
+const NICKNAMES = {
+  bill: 'william', billy: 'william', will: 'william', willy: 'william', liam: 'william',
+  bob: 'robert', bobby: 'robert', rob: 'robert', robbie: 'robert', bert: 'robert',
+  rick: 'richard', ricky: 'richard', rich: 'richard', dick: 'richard',
+  jim: 'james', jimmy: 'james', jamie: 'james',
+  jack: 'john', johnny: 'john', jon: 'john',
+  mike: 'michael', mikey: 'michael', mick: 'michael',
+  liz: 'elizabeth', beth: 'elizabeth', betty: 'elizabeth', eliza: 'elizabeth', lisa: 'elizabeth',
+  maggie: 'margaret', peggy: 'margaret', meg: 'margaret',
+  kate: 'katherine', katie: 'katherine', kathy: 'katherine', cathy: 'katherine', catherine: 'katherine',
+  joe: 'joseph', joey: 'joseph',
+  tom: 'thomas', tommy: 'thomas',
+  chuck: 'charles', charlie: 'charles',
+  chris: 'christopher',
+  dan: 'daniel', danny: 'daniel',
+  dave: 'david',
+  ed: 'edward', eddie: 'edward', ted: 'edward',
+  tony: 'anthony',
+  jen: 'jennifer', jenny: 'jennifer',
+  pat: 'patricia', patty: 'patricia', trish: 'patricia',
+  sue: 'susan', suzy: 'susan',
+  steve: 'steven', stephen: 'steven',
+  alex: 'alexander',
+  ben: 'benjamin',
+  nick: 'nicholas',
+  matt: 'matthew',
+  andy: 'andrew', drew: 'andrew',
+  sam: 'samuel',
+  becky: 'rebecca',
+  deb: 'deborah', debbie: 'deborah',
+  tim: 'timothy',
+  greg: 'gregory',
+  larry: 'lawrence',
+  ken: 'kenneth',
+  ron: 'ronald',
+  don: 'donald',
+  jerry: 'gerald',
+  pete: 'peter',
+  vicky: 'victoria',
+  abby: 'abigail'
+};
+
+// Words that do not tell two people or companies apart
+const IGNORED_WORDS = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'jr', 'sr', 'ii', 'iii', 'iv', 'esq', 'md',
+  'the', 'inc', 'llc', 'llp', 'ltd', 'corp', 'co', 'company', 'corporation', 'pc', 'pa'
+]);
+
+// Lowercase words of a name without accents, punctuation, titles or suffixes. "Smith, John"
+// is read as "John Smith".
+function nameTokens(name) {
+  const text = String(name || '');
+  const [last, first] = text.includes(',') ? text.split(',', 2) : [text, ''];
+  return `${first} ${last}`
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !IGNORED_WORDS.has(word));
+}
+
+const formalName = word => NICKNAMES[word] || word;
+
+// American Soundex: names that sound alike share a code
+function soundex(word) {
+  const codes = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3', l: '4', m: '5', n: '5', r: '6'
+  };
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0].toUpperCase();
+  let previous = codes[letters[0]] || '';
+  for (const letter of letters.slice(1)) {
+    const digit = codes[letter] || '';
+    if (digit && digit !== previous) code += digit;
+    // h and w do not separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') previous = digit;
+  }
+  return code.padEnd(4, '0').slice(0, 4);
+}
+
+// Jaro-Winkler similarity, 0 to 1; forgives typos and transposed letters
+function jaroWinkler(a, b) {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+const normalizeEmail = email => String(email || '').trim().toLowerCase();
+
+// The last ten digits, so +1 (555) 123-4567 and 555.123.4567 are the same number
+const normalizePhone = phone => String(phone || '').replace(/\D/g, '').slice(-10);
+
+// How alike two names are, 0 to 1, and why
+function compareNames(a, b) {
+  const aTokens = nameTokens(a);
+  const bTokens = nameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return null;
+
+  const sameWords = (x, y) => x.length === y.length && [...x].sort().join(' ') === [...y].sort().join(' ');
+  if (sameWords(aTokens, bTokens)) return { score: 1, reason: 'Same name' };
+  if (sameWords(aTokens.map(formalName), bTokens.map(formalName))) return { score: 0.95, reason: 'Name variant' };
+
+  const aFirst = formalName(aTokens[0]);
+  const bFirst = formalName(bTokens[0]);
+  const aLast = aTokens[aTokens.length - 1];
+  const bLast = bTokens[bTokens.length - 1];
+
+  if (aTokens.length > 1 && bTokens.length > 1 && aLast === bLast &&
+      (aFirst.length === 1 || bFirst.length === 1) && aFirst[0] === bFirst[0]) {
+    return { score: 0.85, reason: 'Same last name and first initial' };
+  }
+
+  const similarity = jaroWinkler(aTokens.map(formalName).join(' '), bTokens.map(formalName).join(' '));
+  // Soundex alone would pair John with Jane, so each word must also be spelled alike
+  const soundsAlike = aTokens.length === bTokens.length && aTokens.every((word, index) => {
+    const other = formalName(bTokens[index]);
+    return soundex(formalName(word)) === soundex(other) && jaroWinkler(formalName(word), other) >= 0.75;
+  });
+  if (soundsAlike) return { score: Math.max(0.85, similarity), reason: 'Sounds alike' };
+  if (similarity >= 0.9) return { score: similarity, reason: 'Similar spelling' };
+  return null;
+}
+
+// Whether the match puts the firm on both sides: a former client is now adverse, or
+// someone the firm was against is now the client
+function matchSeverity(searched, known) {
+  const adverse = role => ADVERSE_ROLES.includes(role);
+  return (searched === 'client' && adverse(known)) || (adverse(searched) && known === 'client')
+    ? 'conflict'
+    : 'review';
+}
+
+function matchParty(party, entry) {
+  const reasons = [];
+  let score = 0;
+
+  const name = compareNames(party.name, entry.name);
+  if (name) {
+    score = name.score;
+    reasons.push(name.reason);
+  }
+  if (party.email && entry.email && normalizeEmail(party.email) === normalizeEmail(entry.email)) {
+    score = 1;
+    reasons.push('Same email address');
+  }
+  const phone = normalizePhone(party.phone);
+  if (phone.length >= 7 && phone === normalizePhone(entry.phone)) {
+    score = Math.max(score, 0.95);
+    reasons.push('Same phone number');
+  }
+
+  if (score < MATCH_THRESHOLD) return null;
+  return {
+    party,
+    entry,
+    score: Math.round(score * 100) / 100,
+    reasons,
+    severity: matchSeverity(party.role, entry.role)
+  };
+}
+
+// Every registry entry resembling one of the parties, conflicts and closest matches first.
+// Entries in excludeIds (the client already chosen for the case) are skipped.
+function searchConflicts(parties, registry, excludeIds = []) {
+  const searched = parties.filter(party => String(party.name || '').trim());
+  const matches = searched
+    .flatMap(party => registry
+      .filter(entry => !excludeIds.includes(entry.id))
+      .map(entry => matchParty(party, entry)))
+    .filter(match => match !== null)
+    .sort((a, b) => (a.severity === b.severity ? b.score - a.score : a.severity === 'conflict' ? -1 : 1));
+
+  return { parties: searched, matches, checked_at: new Date().toISOString() };
+}
+
+// Why a check cannot open the case yet: it was not cleared, or conflicts were cleared without a reason
+function clearanceProblem(result, cleared, notes) {
+  if (!cleared) return 'Review and clear the conflict check before opening the case';
+  if (result.matches.some(match => match.severity === 'conflict') && !String(notes || '').trim()) {
+    return 'Explain in the notes why the potential conflicts do not prevent taking the case';
+  }
+  return null;
+}
+
+// Registry entries from clients rows, case_parties rows and the cases they appear on
+function buildRegistry(clients, parties, cases) {
+  const caseNumber = new Map(cases.map(caseData => [caseData.id, caseData.case_number || caseData.id]));
+
+  const clientEntries = clients.map(client => {
+    const caseIds = cases.filter(caseData => caseData.client_id === client.id).map(caseData => caseData.id);
+    return {
+      id: client.id,
+      source: 'client',
+      role: 'client',
+      name: client.name,
+      email: client.email || '',
+      phone: client.phone || '',
+      case_ids: caseIds,
+      case_numbers: caseIds.map(id => caseNumber.get(id) || id)
+    };
+  });
+  const partyEntries = parties.map(party => ({
+    id: party.id,
+    source: 'party',
+    role: party.role,
+    name: party.name,
+    email: party.email || '',
+    phone: party.phone || '',
+    case_ids: [party.case_id],
+    case_numbers: [caseNumber.get(party.case_id) || party.case_id]
+  }));
+  return [...clientEntries, ...partyEntries];
+}
+
+// Conflicts apply across the whole firm: everyone with the user's firm name, or just the
+// user when they have none. Portal clients share the firm name but record nothing.
+const FIRM_MEMBERS = `SELECT id FROM users
+  WHERE id = ? OR (role != 'client' AND COALESCE(firm_name, '') != ''
+    AND firm_name = (SELECT firm_name FROM users WHERE id = ?))`;
+
+async function loadRegistry(userId) {
+  const firm = [userId, userId];
+  const [clients, parties, cases] = await Promise.all([
+    database.all(`SELECT id, name, email, phone FROM clients WHERE user_id IN (${FIRM_MEMBERS})`, firm),
+    database.all(`SELECT * FROM case_parties WHERE user_id IN (${FIRM_MEMBERS})`, firm),
+    database.all(`SELECT id, case_number, client_id FROM cases WHERE user_id IN (${FIRM_MEMBERS})`, firm)
+  ]);
+  return buildRegistry(clients, parties, cases);
+}
+
+module.exports = {
+  PARTY_ROLES,
+  MATCH_THRESHOLD,
+  nameTokens,
+  soundex,
+  jaroWinkler,
+  compareNames,
+  matchSeverity,
+  matchParty,
+  searchConflicts,
+  clearanceProblem,
+  buildRegistry,
+  loadRegistry
+};
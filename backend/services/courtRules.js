@@ -0,0 +1,232 @@
+// Court-rules deadline calculator: a trigger event and date produce the chain of
+// dependent deadlines. Mirrors src/lib/courtRules.ts - keep the rule tables in sync.
+
+const RULE_SETS = {
+  FRCP: {
+    name: 'Federal Rules of Civil Procedure',
+    serviceExtensions: {
+      mail: { days: 3, dayCount: 'calendar', citation: 'FRCP 6(d)' },
+      overnight: { days: 3, dayCount: 'calendar', citation: 'FRCP 6(d)' }
+    }
+  },
+  CA: {
+    name: 'California Code of Civil Procedure',
+    serviceExtensions: {
+      mail: { days: 5, dayCount: 'calendar', citation: 'Cal. Civ. Proc. Code § 1013(a)' },
+      overnight: { days: 2, dayCount: 'court', citation: 'Cal. Civ. Proc. Code § 1013(c)' },
+      electronic: { days: 2, dayCount: 'court', citation: 'Cal. Civ. Proc. Code § 1010.6(a)(3)(B)' }
+    }
+  }
+};
+
+const TRIGGER_TYPES = {
+  complaint_filed: 'Complaint filed',
+  complaint_served: 'Complaint served',
+  motion_served: 'Motion served',
+  motion_hearing: 'Motion hearing date',
+  discovery_served: 'Written discovery served',
+  judgment_entered: 'Judgment entered',
+  trial_date: 'Trial date'
+};
+
+const SERVICE_METHODS = {
+  personal: 'Personal service',
+  electronic: 'Electronic service',
+  mail: 'Mail',
+  overnight: 'Overnight delivery'
+};
+
+const LOCAL_RULE = "Typical local rule period - verify the district's local rules";
+
+const rule = (ruleSet, trigger, key, title, days, dayCount, direction, priority, citation, options = {}) => ({
+  id: `${ruleSet}:${trigger}:${key}`,
+  ruleSet,
+  trigger,
+  title,
+  days,
+  dayCount,
+  direction,
+  priority,
+  citation,
+  ...options
+});
+
+// Rules that count from another deadline must come after it
+const DEADLINE_RULES = [
+  rule('FRCP', 'complaint_filed', 'service', 'Serve summons and complaint', 90, 'calendar', 'after', 'high', 'FRCP 4(m)'),
+  rule('FRCP', 'complaint_served', 'answer', 'Answer or Rule 12 motion due', 21, 'calendar', 'after', 'urgent', 'FRCP 12(a)(1)(A)(i)'),
+  rule('FRCP', 'complaint_served', 'removal', 'Removal window closes', 30, 'calendar', 'after', 'medium', '28 U.S.C. § 1446(b)(1)'),
+  rule('FRCP', 'motion_served', 'response', 'Response to motion due', 14, 'calendar', 'after', 'high', LOCAL_RULE, { serviceExtension: true }),
+  rule('FRCP', 'motion_served', 'reply', 'Reply in support of motion due', 7, 'calendar', 'after', 'medium', LOCAL_RULE, { from: 'FRCP:motion_served:response', serviceExtension: true }),
+  rule('FRCP', 'motion_hearing', 'notice', 'Serve motion and notice of hearing', 14, 'calendar', 'before', 'high', 'FRCP 6(c)(1)'),
+  rule('FRCP', 'motion_hearing', 'opposition', 'Serve opposing affidavits', 7, 'calendar', 'before', 'high', 'FRCP 6(c)(2)'),
+  rule('FRCP', 'discovery_served', 'interrogatories', 'Interrogatory answers due', 30, 'calendar', 'after', 'high', 'FRCP 33(b)(2)', { serviceExtension: true }),
+  rule('FRCP', 'discovery_served', 'production', 'Responses to requests for production due', 30, 'calendar', 'after', 'high', 'FRCP 34(b)(2)(A)', { serviceExtension: true }),
+  rule('FRCP', 'discovery_served', 'admissions', 'Responses to requests for admission due', 30, 'calendar', 'after', 'urgent', 'FRCP 36(a)(3)', { serviceExtension: true }),
+  rule('FRCP', 'judgment_entered', 'post_trial', 'Renewed JMOL / new trial / alter or amend motion due', 28, 'calendar', 'after', 'urgent', 'FRCP 50(b), 59(b), 59(e)'),
+  rule('FRCP', 'judgment_entered', 'fees', "Motion for attorney's fees due", 14, 'calendar', 'after', 'high', 'FRCP 54(d)(2)(B)(i)'),
+  rule('FRCP', 'judgment_entered', 'appeal', 'Notice of appeal due', 30, 'calendar', 'after', 'urgent', 'FRAP 4(a)(1)(A)'),
+  rule('FRCP', 'trial_date', 'experts', 'Expert disclosures due', 90, 'calendar', 'before', 'high', 'FRCP 26(a)(2)(D)(i)'),
+  rule('FRCP', 'trial_date', 'rebuttal_experts', 'Rebuttal expert disclosures due', 30, 'calendar', 'after', 'high', 'FRCP 26(a)(2)(D)(ii)', { from: 'FRCP:trial_date:experts', serviceExtension: true }),
+  rule('FRCP', 'trial_date', 'pretrial_disclosures', 'Pretrial disclosures due', 30, 'calendar', 'before', 'high', 'FRCP 26(a)(3)(B)'),
+  rule('FRCP', 'trial_date', 'pretrial_objections', 'Objections to pretrial disclosures due', 14, 'calendar', 'after', 'medium', 'FRCP 26(a)(3)(B)', { from: 'FRCP:trial_date:pretrial_disclosures', serviceExtension: true }),
+  rule('CA', 'complaint_filed', 'proof_of_service', 'File proof of service of summons', 60, 'calendar', 'after', 'high', 'Cal. Rules of Court, rule 3.110(b)'),
+  rule('CA', 'complaint_served', 'answer', 'Answer or demurrer due', 30, 'calendar', 'after', 'urgent', 'Cal. Civ. Proc. Code § 412.20(a)(3)'),
+  rule('CA', 'motion_hearing', 'notice', 'Serve and file moving papers', 16, 'court', 'before', 'high', 'Cal. Civ. Proc. Code § 1005(b)', { serviceExtension: true }),
+  rule('CA', 'motion_hearing', 'opposition', 'Opposition papers due', 9, 'court', 'before', 'high', 'Cal. Civ. Proc. Code § 1005(b)'),
+  rule('CA', 'motion_hearing', 'reply', 'Reply papers due', 5, 'court', 'before', 'medium', 'Cal. Civ. Proc. Code § 1005(b)'),
+  rule('CA', 'discovery_served', 'interrogatories', 'Interrogatory responses due', 30, 'calendar', 'after', 'high', 'Cal. Civ. Proc. Code § 2030.260(a)', { serviceExtension: true }),
+  rule('CA', 'discovery_served', 'production', 'Responses to demands for inspection due', 30, 'calendar', 'after', 'high', 'Cal. Civ. Proc. Code § 2031.260(a)', { serviceExtension: true }),
+  rule('CA', 'discovery_served', 'admissions', 'Responses to requests for admission due', 30, 'calendar', 'after', 'urgent', 'Cal. Civ. Proc. Code § 2033.250(a)', { serviceExtension: true }),
+  rule('CA', 'judgment_entered', 'new_trial', 'Notice of intention to move for new trial due', 15, 'calendar', 'after', 'urgent', 'Cal. Civ. Proc. Code § 659(a)(2)'),
+  rule('CA', 'judgment_entered', 'costs', 'Memorandum of costs due', 15, 'calendar', 'after', 'high', 'Cal. Rules of Court, rule 3.1700(a)(1)', { serviceExtension: true }),
+  rule('CA', 'judgment_entered', 'appeal', 'Notice of appeal due', 60, 'calendar', 'after', 'urgent', 'Cal. Rules of Court, rule 8.104(a)(1)(B)'),
+  rule('CA', 'trial_date', 'summary_judgment', 'Last day to hear summary judgment motion', 30, 'calendar', 'before', 'high', 'Cal. Civ. Proc. Code § 437c(a)(3)'),
+  rule('CA', 'trial_date', 'experts', 'Expert witness information exchange', 50, 'calendar', 'before', 'high', 'Cal. Civ. Proc. Code § 2034.230(b)'),
+  rule('CA', 'trial_date', 'supplemental_experts', 'Supplemental expert witness list due', 20, 'calendar', 'after', 'medium', 'Cal. Civ. Proc. Code § 2034.280(a)', { from: 'CA:trial_date:experts' }),
+  rule('CA', 'trial_date', 'discovery_cutoff', 'Discovery cutoff', 30, 'calendar', 'before', 'high', 'Cal. Civ. Proc. Code § 2024.020(a)'),
+  rule('CA', 'trial_date', 'discovery_motions', 'Last day to hear discovery motions', 15, 'calendar', 'before', 'medium', 'Cal. Civ. Proc. Code § 2024.020(a)')
+];
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Dates are handled as UTC calendar days (yyyy-MM-dd)
+const utcDate = (year, month, day) => new Date(Date.UTC(year, month, day));
+const addDays = (date, days) => utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+const formatDate = date => date.toISOString().slice(0, 10);
+
+function parseDateOnly(value) {
+  if (!value) return null;
+  const [year, month, day] = String(value).slice(0, 10).split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return utcDate(year, month - 1, day);
+}
+
+// n-th weekday (0 = Sunday) of a month; n = -1 is the last one
+function nthWeekday(year, month, weekday, n) {
+  if (n < 0) {
+    const last = utcDate(year, month + 1, 0);
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = utcDate(year, month, 1);
+  return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+}
+
+// Fixed-date holidays falling on a weekend are observed on the Friday before or Monday after
+function observed(year, month, day) {
+  const date = utcDate(year, month, day);
+  if (date.getUTCDay() === 6) return addDays(date, -1);
+  if (date.getUTCDay() === 0) return addDays(date, 1);
+  return date;
+}
+
+// Federal legal holidays (5 U.S.C. § 6103), which are also court holidays under FRCP 6(a)(6)
+function getFederalHolidays(year) {
+  return [
+    { date: observed(year, 0, 1), name: "New Year's Day" },
+    { date: nthWeekday(year, 0, 1, 3), name: 'Martin Luther King Jr. Day' },
+    { date: nthWeekday(year, 1, 1, 3), name: "Washington's Birthday" },
+    { date: nthWeekday(year, 4, 1, -1), name: 'Memorial Day' },
+    { date: observed(year, 5, 19), name: 'Juneteenth' },
+    { date: observed(year, 6, 4), name: 'Independence Day' },
+    { date: nthWeekday(year, 8, 1, 1), name: 'Labor Day' },
+    { date: nthWeekday(year, 9, 1, 2), name: 'Columbus Day' },
+    { date: observed(year, 10, 11), name: 'Veterans Day' },
+    { date: nthWeekday(year, 10, 4, 4), name: 'Thanksgiving Day' },
+    { date: observed(year, 11, 25), name: 'Christmas Day' }
+  ].map(holiday => ({ date: formatDate(holiday.date), name: holiday.name }));
+}
+
+function createHolidayLookup(custom = []) {
+  const names = new Map(custom.map(holiday => [String(holiday.date).slice(0, 10), holiday.name]));
+  const loadedYears = new Set();
+
+  return date => {
+    // New Year's Day can be observed on Dec 31 of the year before
+    for (const year of [date.getUTCFullYear(), date.getUTCFullYear() + 1]) {
+      if (loadedYears.has(year)) continue;
+      loadedYears.add(year);
+      getFederalHolidays(year).forEach(holiday => {
+        if (!names.has(holiday.date)) names.set(holiday.date, holiday.name);
+      });
+    }
+    return names.get(formatDate(date));
+  };
+}
+
+function describeDays(days, dayCount) {
+  return `${days} ${dayCount === 'court' ? 'court ' : ''}day${days === 1 ? '' : 's'}`;
+}
+
+function getRulesForTrigger(ruleSet, triggerType) {
+  return DEADLINE_RULES.filter(item => item.ruleSet === ruleSet && item.trigger === triggerType);
+}
+
+// Returns [{ rule, dueDate, explanation }] - empty when the trigger date is invalid
+function generateDeadlineChain({ ruleSet, triggerType, triggerDate, serviceMethod, holidays }) {
+  const trigger = parseDateOnly(triggerDate);
+  if (!trigger) return [];
+
+  const holidayName = createHolidayLookup(holidays);
+  const isWeekend = date => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+  const closedReason = date => holidayName(date) || (isWeekend(date) ? WEEKDAY_NAMES[date.getUTCDay()] : undefined);
+
+  const count = (start, days, dayCount, step) => {
+    if (dayCount === 'calendar') return addDays(start, days * step);
+    let date = start;
+    for (let remaining = days; remaining > 0; ) {
+      date = addDays(date, step);
+      if (!closedReason(date)) remaining--;
+    }
+    return date;
+  };
+
+  // A period ending on a day the court is closed runs to the next court day in the
+  // direction of counting
+  const roll = (date, step, explanation) => {
+    const reason = closedReason(date);
+    if (!reason) return date;
+    let next = date;
+    while (closedReason(next)) next = addDays(next, step);
+    const article = reason === WEEKDAY_NAMES[date.getUTCDay()] ? 'a ' : '';
+    explanation.push(`${formatDate(date)} is ${article}${reason}; moved to ${step > 0 ? 'the next' : 'the previous'} court day.`);
+    return next;
+  };
+
+  const extension = RULE_SETS[ruleSet] && RULE_SETS[ruleSet].serviceExtensions[serviceMethod];
+  const computed = new Map();
+
+  getRulesForTrigger(ruleSet, triggerType).forEach(deadlineRule => {
+    const base = deadlineRule.from ? computed.get(deadlineRule.from) : undefined;
+    if (deadlineRule.from && !base) return;
+
+    const step = deadlineRule.direction === 'after' ? 1 : -1;
+    const start = base ? parseDateOnly(base.dueDate) : trigger;
+    const startLabel = base ? base.rule.title.toLowerCase() : TRIGGER_TYPES[triggerType].toLowerCase();
+    const explanation = [
+      `${describeDays(deadlineRule.days, deadlineRule.dayCount)} ${deadlineRule.direction} ${startLabel} on ${formatDate(start)} (${deadlineRule.citation}).`
+    ];
+
+    let due = roll(count(start, deadlineRule.days, deadlineRule.dayCount, step), step, explanation);
+
+    if (deadlineRule.serviceExtension && extension) {
+      due = count(due, extension.days, extension.dayCount, step);
+      explanation.push(
+        `${describeDays(extension.days, extension.dayCount)} ${step > 0 ? 'added' : 'earlier'} for ${SERVICE_METHODS[serviceMethod].toLowerCase()} (${extension.citation}).`
+      );
+      due = roll(due, step, explanation);
+    }
+
+    computed.set(deadlineRule.id, { rule: deadlineRule, dueDate: formatDate(due), explanation });
+  });
+
+  return Array.from(computed.values());
+}
+
+module.exports = {
+  RULE_SETS,
+  TRIGGER_TYPES,
+  SERVICE_METHODS,
+  getFederalHolidays,
+  generateDeadlineChain
+};
@@ -0,0 +1,153 @@
+// Sharing case documents with clients on the portal.
+// Mirrors src/lib/documentSharing.ts - keep in sync. Works on snake_case document_shares
+// and document_requests rows; categories are the documents table's document_type values.
+
+const { v4: uuidv4 } = require('uuid');
+const { database } = require('../config/database');
+const { relativeUploadPath } = require('../middleware/upload');
+const { notify } = require('./notifications');
+
+const DOCUMENT_TYPES = {
+  contract: 'Contracts',
+  medical_record: 'Medical Records',
+  police_report: 'Police Report',
+  insurance_doc: 'Insurance Documents',
+  correspondence: 'Correspondence',
+  photo: 'Photos',
+  receipt: 'Receipts',
+  other: 'Other'
+};
+
+function shareStatus(share, now = new Date()) {
+  if (share.revoked_at) return 'revoked';
+  if (share.expires_at && new Date(share.expires_at) <= now) return 'expired';
+  return 'active';
+}
+
+const isShareActive = (share, now = new Date()) => shareStatus(share, now) === 'active';
+
+function requestStatus(request) {
+  if (request.cancelled_at) return 'cancelled';
+  if (request.fulfilled_at) return 'fulfilled';
+  return 'open';
+}
+
+// Shares the document with its case's client until expiresAt, or until revoked when null.
+// An earlier share of the same document is replaced.
+async function shareDocument(document, sharedBy, expiresAt) {
+  await database.run(
+    `UPDATE document_shares SET revoked_at = datetime('now')
+     WHERE document_id = ? AND revoked_at IS NULL`,
+    [document.id]
+  );
+
+  const shareId = uuidv4();
+  await database.run(
+    'INSERT INTO document_shares (id, document_id, case_id, shared_by, expires_at) VALUES (?, ?, ?, ?, ?)',
+    [shareId, document.id, document.case_id, sharedBy, expiresAt]
+  );
+  return database.get('SELECT * FROM document_shares WHERE id = ?', [shareId]);
+}
+
+async function revokeShare(documentId) {
+  const result = await database.run(
+    `UPDATE document_shares SET revoked_at = datetime('now')
+     WHERE document_id = ? AND revoked_at IS NULL`,
+    [documentId]
+  );
+  return result.changes;
+}
+
+// Documents shared on the client's cases right now; file paths stay on the server
+async function listSharedDocuments(clientId) {
+  const rows = await database.all(
+    `SELECT document_shares.id AS share_id, document_shares.expires_at, document_shares.revoked_at,
+            document_shares.created_at AS shared_at,
+            documents.id, documents.case_id, documents.original_name, documents.file_size,
+            documents.mime_type, documents.document_type, documents.description, documents.uploaded_at,
+            cases.case_number
+     FROM document_shares
+     JOIN documents ON documents.id = document_shares.document_id
+     JOIN cases ON cases.id = document_shares.case_id
+     WHERE cases.client_id = ? AND document_shares.revoked_at IS NULL
+     ORDER BY document_shares.created_at DESC`,
+    [clientId]
+  );
+  return rows.filter(row => isShareActive(row)).map(({ revoked_at: _, ...row }) => row);
+}
+
+// A document the client may open: actively shared on one of their cases
+async function findSharedDocument(documentId, clientId) {
+  const shares = await database.all(
+    `SELECT documents.*, document_shares.expires_at, document_shares.revoked_at
+     FROM document_shares
+     JOIN documents ON documents.id = document_shares.document_id
+     JOIN cases ON cases.id = document_shares.case_id
+     WHERE document_shares.document_id = ? AND cases.client_id = ?`,
+    [documentId, clientId]
+  );
+  return shares.find(share => isShareActive(share));
+}
+
+// Records a view or download of the document by the firm ('attorney') or the client
+async function logAccess(documentId, userId, actor, action) {
+  await database.run(
+    'INSERT INTO document_access_log (id, document_id, user_id, actor, action) VALUES (?, ?, ?, ?, ?)',
+    [uuidv4(), documentId, userId, actor, action]
+  );
+}
+
+// The document's views and downloads with who made them, newest first
+async function listAccess(documentId) {
+  return database.all(
+    `SELECT document_access_log.*, users.first_name, users.last_name
+     FROM document_access_log LEFT JOIN users ON users.id = document_access_log.user_id
+     WHERE document_access_log.document_id = ?
+     ORDER BY document_access_log.created_at DESC`,
+    [documentId]
+  );
+}
+
+// Files the client's upload (a multer file) with the case's documents under the requested
+// type, closes the request and tells the case's attorney, or its owner when none is assigned
+async function fulfillRequest(request, caseData, file, clientName) {
+  const documentId = uuidv4();
+  await database.run(
+    `INSERT INTO documents (
+      id, case_id, user_id, filename, original_name, file_path,
+      file_size, mime_type, document_type, description
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      documentId, caseData.id, caseData.user_id, file.filename, file.originalname,
+      relativeUploadPath(file), file.size, file.mimetype, request.document_type,
+      `Uploaded by ${clientName} for "${request.title}"`
+    ]
+  );
+  await database.run(
+    `UPDATE document_requests SET document_id = ?, fulfilled_at = datetime('now') WHERE id = ?`,
+    [documentId, request.id]
+  );
+
+  await notify(caseData.assigned_attorney_id || caseData.user_id, {
+    category: 'case_update',
+    title: `${clientName} uploaded ${request.title}`,
+    message: `${file.originalname} was filed under ${DOCUMENT_TYPES[request.document_type]}.`,
+    caseId: caseData.id
+  });
+
+  return database.get('SELECT * FROM document_requests WHERE id = ?', [request.id]);
+}
+
+module.exports = {
+  DOCUMENT_TYPES,
+  shareStatus,
+  isShareActive,
+  requestStatus,
+  shareDocument,
+  revokeShare,
+  listSharedDocuments,
+  findSharedDocument,
+  logAccess,
+  listAccess,
+  fulfillRequest
+};
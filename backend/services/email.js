@@ -0,0 +1,116 @@
+// Pluggable outgoing email. EMAIL_TRANSPORT selects how messages are delivered:
+//   console (default) - log the message instead of sending it
+//   smtp              - plain SMTP to SMTP_HOST:SMTP_PORT, e.g. a local mail catcher
+//                       such as Mailpit or MailHog (no TLS or authentication)
+//   none              - drop messages
+// Other transports can be added with registerEmailTransport(name, { send }).
+
+const net = require('net');
+const os = require('os');
+
+const SMTP_TIMEOUT_MS = 10000;
+
+const transports = {
+  console: {
+    async send(message) {
+      console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+  },
+  smtp: {
+    send: sendSmtp
+  },
+  none: {
+    async send() {}
+  }
+};
+
+function registerEmailTransport(name, transport) {
+  transports[name] = transport;
+}
+
+function formatMessage({ from, to, subject, text }) {
+  const body = text
+    .replace(/\r?\n/g, '\r\n')
+    // Dot-stuffing: a line starting with "." would otherwise end the DATA section early
+    .replace(/^\./gm, '..');
+
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body
+  ].join('\r\n');
+}
+
+// Minimal SMTP client: one message per connection, replies checked against the expected codes
+function sendSmtp(message) {
+  const host = process.env.SMTP_HOST || 'localhost';
+  const port = parseInt(process.env.SMTP_PORT) || 1025;
+  const commands = [
+    `EHLO ${os.hostname()}`,
+    `MAIL FROM:<${message.from}>`,
+    `RCPT TO:<${message.to}>`,
+    'DATA',
+    `${formatMessage(message)}\r\n.`,
+    'QUIT'
+  ];
+  const expectedCodes = [220, 250, 250, 250, 354, 250, 221];
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    let buffer = '';
+    let step = 0;
+
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('error', reject);
+
+    socket.on('data', chunk => {
+      buffer += chunk;
+      const lines = buffer.split('\r\n');
+      buffer = lines.pop();
+
+      for (const line of lines) {
+        // "250-..." continues a multi-line reply; the last line is "250 ..."
+        if (/^\d{3}-/.test(line)) continue;
+
+        if (parseInt(line.slice(0, 3)) !== expectedCodes[step]) {
+          socket.destroy();
+          reject(new Error(`SMTP error: ${line}`));
+          return;
+        }
+        if (step === commands.length) {
+          socket.end();
+          resolve();
+          return;
+        }
+        socket.write(`${commands[step]}\r\n`);
+        step++;
+      }
+    });
+  });
+}
+
+async function sendEmail({ to, subject, text }) {
+  const name = process.env.EMAIL_TRANSPORT || 'console';
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown email transport: ${name}`);
+  }
+
+  await transport.send({
+    from: process.env.EMAIL_FROM || 'notifications@legal-case-manager.local',
+    to,
+    subject,
+    text
+  });
+}
+
+module.exports = {
+  registerEmailTransport,
+  sendEmail
+};
@@ -0,0 +1,36 @@
+// Case expense ledger: costs the firm advances on a case (filing fees, record
+// retrieval, experts). Mirrors src/lib/expenses.ts - keep in sync.
+
+const EXPENSE_CATEGORIES = ['filing_fee', 'service', 'records', 'expert', 'deposition', 'travel', 'other'];
+
+const roundCents = value => Math.round(value * 100) / 100;
+const nonNegative = value => (Number.isFinite(Number(value)) && Number(value) > 0 ? Number(value) : 0);
+
+// Running totals over expense rows, overall and per category
+function summarizeExpenses(expenses) {
+  const byCategory = Object.fromEntries(EXPENSE_CATEGORIES.map(category => [category, 0]));
+  const totals = { total: 0, billable: 0, reimbursable: 0 };
+
+  for (const expense of expenses) {
+    const amount = nonNegative(expense.amount);
+    totals.total += amount;
+    if (expense.billable) totals.billable += amount;
+    if (expense.reimbursable) totals.reimbursable += amount;
+    byCategory[expense.category in byCategory ? expense.category : 'other'] += amount;
+  }
+
+  for (const category of EXPENSE_CATEGORIES) {
+    byCategory[category] = roundCents(byCategory[category]);
+  }
+  return {
+    total: roundCents(totals.total),
+    billable: roundCents(totals.billable),
+    reimbursable: roundCents(totals.reimbursable),
+    byCategory
+  };
+}
+
+module.exports = {
+  EXPENSE_CATEGORIES,
+  summarizeExpenses
+};
@@ -0,0 +1,130 @@
+// iCalendar (RFC 5545) output for the subscribable calendar feed - mirrors src/lib/ical.ts
+
+const PRODUCT_ID = '-//AI Legal Case Manager//Calendar//EN';
+
+const EVENT_TYPE_LABELS = {
+  meeting: 'Meeting',
+  court: 'Court',
+  deadline: 'Deadline',
+  consultation: 'Consultation',
+  deposition: 'Deposition',
+  other: 'Other'
+};
+
+// iCalendar PRIORITY: 1 is highest, 9 lowest
+const PRIORITY_VALUES = { urgent: 1, high: 1, medium: 5, low: 9 };
+
+function escapeText(value) {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line) {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const parts = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(value) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDateOnly(value) {
+  return String(value).slice(0, 10).replace(/-/g, '');
+}
+
+function nextDay(value) {
+  const [year, month, day] = String(value).slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+function eventToVEvent(event, stamp) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@legal-case-manager`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(event.start_date)}`,
+    `DTEND:${formatUtc(event.end_date || event.start_date)}`,
+    `SUMMARY:${escapeText(event.title)}`
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  lines.push(`CATEGORIES:${EVENT_TYPE_LABELS[event.event_type] || 'Other'}`);
+  if (PRIORITY_VALUES[event.priority]) lines.push(`PRIORITY:${PRIORITY_VALUES[event.priority]}`);
+  if (event.recurrence_rule) lines.push(`RRULE:${event.recurrence_rule}`);
+  if (event.recurrence_exceptions) {
+    lines.push(`EXDATE:${event.recurrence_exceptions.split(',').filter(Boolean).map(formatUtc).join(',')}`);
+  }
+  if (event.case_number) lines.push(`X-CASE-NUMBER:${escapeText(event.case_number)}`);
+  if (event.reminder_minutes > 0) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:-PT${event.reminder_minutes}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Deadlines are published as all-day events on their due date
+function deadlineToVEvent(deadline, stamp) {
+  const title = deadline.status === 'completed' ? `[Done] ${deadline.title}` : deadline.title;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:deadline-${deadline.id}@legal-case-manager`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDateOnly(deadline.due_date)}`,
+    `DTEND;VALUE=DATE:${formatDateOnly(nextDay(deadline.due_date))}`,
+    `SUMMARY:${escapeText(`${deadline.case_number}: ${title}`)}`
+  ];
+
+  if (deadline.description) lines.push(`DESCRIPTION:${escapeText(deadline.description)}`);
+  lines.push('CATEGORIES:Deadline');
+  if (PRIORITY_VALUES[deadline.priority]) lines.push(`PRIORITY:${PRIORITY_VALUES[deadline.priority]}`);
+  lines.push(`X-CASE-NUMBER:${escapeText(deadline.case_number)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function buildCalendar({ name, events = [], deadlines = [] }) {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => eventToVEvent(event, stamp)),
+    ...deadlines.flatMap(deadline => deadlineToVEvent(deadline, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+module.exports = {
+  buildCalendar
+};
@@ -0,0 +1,38 @@
+// Lien register: hospital liens, Medicare conditional payments and health plan
+// subrogation asserted against a case's recovery. Mirrors src/lib/liens.ts - keep in sync.
+
+const LIEN_TYPES = ['medical', 'medicare', 'health_plan'];
+const LIEN_STATUSES = ['asserted', 'negotiating', 'final', 'paid', 'waived'];
+
+// A lien stops blocking the case once it is paid off or the holder waives it
+const RESOLVED_LIEN_STATUSES = ['paid', 'waived'];
+
+const roundCents = value => Math.round(value * 100) / 100;
+const nonNegative = value => (Number.isFinite(Number(value)) && Number(value) > 0 ? Number(value) : 0);
+
+const isLienResolved = lien => RESOLVED_LIEN_STATUSES.includes(lien.status);
+
+// What the lienholder is paid from the settlement; a waived lien costs nothing
+function lienPayoff(lien) {
+  if (lien.status === 'waived') return 0;
+  const asserted = nonNegative(lien.asserted_amount);
+  return roundCents(asserted - Math.min(asserted, nonNegative(lien.reduction_amount)));
+}
+
+// Row from case_liens with its document links parsed and payoff added
+function toLien(row) {
+  return {
+    ...row,
+    document_ids: JSON.parse(row.document_ids || '[]'),
+    payoff: lienPayoff(row)
+  };
+}
+
+module.exports = {
+  LIEN_TYPES,
+  LIEN_STATUSES,
+  RESOLVED_LIEN_STATUSES,
+  isLienResolved,
+  lienPayoff,
+  toLien
+};
@@ -0,0 +1,160 @@
+// Case message threads between clients on the portal and the firm.
+// Mirrors src/lib/messages.ts - keep in sync. Works on snake_case client_messages rows.
+
+const { v4: uuidv4 } = require('uuid');
+const { database } = require('../config/database');
+const { relativeUploadPath } = require('../middleware/upload');
+const { notify } = require('./notifications');
+
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Messages the reader has not seen yet: the other side's, without a read receipt
+const unreadMessages = (messages, reader) =>
+  messages.filter(message => message.sender !== reader && !message.read_at);
+
+// Groups messages into one thread per case, most recently active first
+function groupThreads(messages) {
+  const byCase = new Map();
+  for (const message of messages) {
+    byCase.set(message.case_id, [...(byCase.get(message.case_id) || []), message]);
+  }
+
+  return [...byCase.entries()]
+    .map(([caseId, caseMessages]) => {
+      const sorted = [...caseMessages].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      return { case_id: caseId, messages: sorted, latest: sorted[sorted.length - 1] };
+    })
+    .sort((a, b) => b.latest.created_at.localeCompare(a.latest.created_at));
+}
+
+// A thread is waiting on the firm when the client wrote last
+const isAwaitingReply = (thread) => thread.latest.sender === 'client';
+
+// When the client's unanswered run of messages began
+function awaitingSince(thread) {
+  let since = null;
+  for (let i = thread.messages.length - 1; i >= 0 && thread.messages[i].sender === 'client'; i--) {
+    since = thread.messages[i].created_at;
+  }
+  return since;
+}
+
+function attachmentProblem(files) {
+  if (files.length > MAX_ATTACHMENTS) {
+    return `Attach at most ${MAX_ATTACHMENTS} files to a message`;
+  }
+  const tooLarge = files.find(file => file.size > MAX_ATTACHMENT_BYTES);
+  if (tooLarge) {
+    return `${tooLarge.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+// Why a message cannot be sent, if it cannot
+function messageProblem(text, files) {
+  if (!text.trim() && files.length === 0) {
+    return 'Write a message or attach a file';
+  }
+  return attachmentProblem(files);
+}
+
+// Attaches each message's files; file paths stay on the server
+async function withAttachments(messages) {
+  if (messages.length === 0) return messages;
+
+  const attachments = await database.all(
+    `SELECT id, message_id, original_name, file_size, mime_type FROM message_attachments
+     WHERE message_id IN (${messages.map(() => '?').join(', ')})`,
+    messages.map(message => message.id)
+  );
+  return messages.map(message => ({
+    ...message,
+    attachments: attachments.filter(attachment => attachment.message_id === message.id)
+  }));
+}
+
+// The case's whole thread, oldest first
+async function listThread(caseId) {
+  const messages = await database.all(
+    'SELECT * FROM client_messages WHERE case_id = ? ORDER BY created_at ASC',
+    [caseId]
+  );
+  return withAttachments(messages);
+}
+
+// Every message on the cases the user owns or is assigned to, for their inbox
+async function listUserMessages(userId) {
+  const messages = await database.all(
+    `SELECT client_messages.*, cases.case_number, cases.client_name
+     FROM client_messages JOIN cases ON cases.id = client_messages.case_id
+     WHERE cases.user_id = ? OR cases.assigned_attorney_id = ?
+     ORDER BY client_messages.created_at ASC`,
+    [userId, userId]
+  );
+  return withAttachments(messages);
+}
+
+// Adds a message and its uploaded files (multer files) to the case's thread.
+// A client's message notifies the case's assigned attorney, or its owner when none is assigned.
+async function createMessage(caseData, { sender, senderUserId, senderName, text, files = [] }) {
+  const messageId = uuidv4();
+  await database.run(
+    `INSERT INTO client_messages (id, case_id, sender, sender_user_id, sender_name, message)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [messageId, caseData.id, sender, senderUserId, senderName, text]
+  );
+
+  for (const file of files) {
+    await database.run(
+      `INSERT INTO message_attachments (id, message_id, original_name, file_path, file_size, mime_type)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), messageId, file.originalname, relativeUploadPath(file), file.size, file.mimetype]
+    );
+  }
+
+  // The message is saved by now; a failed notification must not report it as lost
+  if (sender === 'client') {
+    const preview = text || `Sent ${files.length} attachment${files.length === 1 ? '' : 's'}`;
+    try {
+      await notify(caseData.assigned_attorney_id || caseData.user_id, {
+        category: 'client_message',
+        title: `New message from ${senderName} on ${caseData.case_number}`,
+        message: preview.length > 140 ? `${preview.slice(0, 140)}…` : preview,
+        caseId: caseData.id
+      });
+    } catch (error) {
+      console.error('Message notification error:', error);
+    }
+  }
+
+  const [message] = await withAttachments([
+    await database.get('SELECT * FROM client_messages WHERE id = ?', [messageId])
+  ]);
+  return message;
+}
+
+// Records that the reader opened the thread: the other side's unread messages get a read receipt
+async function markThreadRead(caseId, reader) {
+  const result = await database.run(
+    `UPDATE client_messages SET read_at = datetime('now')
+     WHERE case_id = ? AND sender != ? AND read_at IS NULL`,
+    [caseId, reader]
+  );
+  return result.changes;
+}
+
+module.exports = {
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  unreadMessages,
+  groupThreads,
+  isAwaitingReply,
+  awaitingSince,
+  attachmentProblem,
+  messageProblem,
+  listThread,
+  listUserMessages,
+  createMessage,
+  markThreadRead
+};
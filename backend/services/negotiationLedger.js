@@ -0,0 +1,37 @@
+// Negotiation ledger: every demand, offer and reply on a case, replayed into the
+// current offer, demand and status. Mirrors src/lib/negotiationLedger.ts - keep in sync.
+
+const MESSAGE_TYPES = ['demand', 'offer', 'counter', 'acceptance', 'rejection'];
+const SENDERS = ['attorney', 'insurance'];
+
+// Demands, offers and counters carry an amount; acceptances and rejections answer the last one
+const AMOUNT_REQUIRED = ['demand', 'offer', 'counter'];
+
+// The insurer's latest amount is the current offer, the attorney's latest amount is
+// the demand, and the last move decides the status
+function summarizeNegotiation(messages) {
+  const summary = { currentOffer: 0, demandAmount: 0, status: 'pending' };
+
+  const ordered = [...messages].sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)));
+  for (const message of ordered) {
+    if (message.amount !== null && message.amount !== undefined && AMOUNT_REQUIRED.includes(message.type)) {
+      if (message.sender === 'insurance') summary.currentOffer = Number(message.amount);
+      else summary.demandAmount = Number(message.amount);
+    }
+
+    switch (message.type) {
+      case 'acceptance': summary.status = 'accepted'; break;
+      case 'rejection': summary.status = 'rejected'; break;
+      case 'counter': summary.status = 'countered'; break;
+      default: summary.status = 'pending';
+    }
+  }
+  return summary;
+}
+
+module.exports = {
+  MESSAGE_TYPES,
+  SENDERS,
+  AMOUNT_REQUIRED,
+  summarizeNegotiation
+};
@@ -0,0 +1,60 @@
+const { EventEmitter } = require('events');
+const { v4: uuidv4 } = require('uuid');
+const { database } = require('../config/database');
+const { getUserPreferences } = require('./preferences');
+const { sendEmail } = require('./email');
+
+// Notification categories and the preferences.notifications toggle that silences them.
+// Categories mapped to null are always delivered.
+const NOTIFICATION_CATEGORIES = {
+  case_update: 'caseUpdates',
+  client_message: 'clientMessages',
+  deadline_reminder: 'deadlines',
+  document_analysis: 'caseUpdates',
+  settlement: 'settlementAlerts',
+  escalation: null,
+  event_reminder: null
+};
+
+// Emits 'notification' for every stored notification so open streams can push it
+const notificationEvents = new EventEmitter();
+notificationEvents.setMaxListeners(0);
+
+// Stores an in-app notification and, unless the user turned email off, emails it too.
+// Email failures are logged rather than thrown so the in-app notification still counts.
+// Returns null when the user switched the notification's category off.
+async function notify(userId, { category, title, message, caseId = null }) {
+  const preferences = await getUserPreferences(userId);
+  const toggle = NOTIFICATION_CATEGORIES[category];
+  if (toggle && preferences.notifications[toggle] === false) {
+    return null;
+  }
+
+  const notificationId = uuidv4();
+
+  await database.run(
+    'INSERT INTO notifications (id, user_id, category, title, message, case_id) VALUES (?, ?, ?, ?, ?, ?)',
+    [notificationId, userId, category, title, message || null, caseId]
+  );
+
+  const notification = await database.get('SELECT * FROM notifications WHERE id = ?', [notificationId]);
+  notificationEvents.emit('notification', notification);
+
+  const user = await database.get('SELECT email FROM users WHERE id = ? AND is_active = 1', [userId]);
+
+  if (user && preferences.notifications.email) {
+    try {
+      await sendEmail({ to: user.email, subject: title, text: message || title });
+    } catch (error) {
+      console.error('Notification email error:', error);
+    }
+  }
+
+  return notificationId;
+}
+
+module.exports = {
+  NOTIFICATION_CATEGORIES,
+  notificationEvents,
+  notify
+};
@@ -0,0 +1,55 @@
+// Client portal invitations.
+// Mirrors src/lib/portal.ts - keep in sync. Works on snake_case portal_invitations rows.
+// Portal logins are created here with the invited email address, so unlike the app there
+// is no sign-in email to compare on acceptance.
+
+const crypto = require('crypto');
+
+// Role of users who sign in to the client portal; they can use nothing else
+const CLIENT_ROLE = 'client';
+
+// Where the portal lives; its sign-in is separate from the attorney app's
+const PORTAL_PATH = '/portal';
+
+// How long an invitation link stays valid
+const INVITATION_DAYS = 14;
+
+const invitationLink = (origin, token) =>
+  `${origin}${PORTAL_PATH}?invite=${encodeURIComponent(token)}`;
+
+function invitationExpiry(sentAt) {
+  const expires = new Date(sentAt);
+  expires.setDate(expires.getDate() + INVITATION_DAYS);
+  return expires.toISOString();
+}
+
+function invitationStatus(invitation, now = new Date()) {
+  if (invitation.revoked_at) return 'revoked';
+  if (invitation.accepted_at) return 'accepted';
+  if (new Date(invitation.expires_at) <= now) return 'expired';
+  return 'pending';
+}
+
+// Why an invitation cannot be accepted, if it cannot
+function invitationProblem(invitation, now = new Date()) {
+  switch (invitationStatus(invitation, now)) {
+    case 'revoked': return 'This invitation was withdrawn. Ask your attorney for a new one.';
+    case 'accepted': return 'This invitation has already been used. Sign in to the portal instead.';
+    case 'expired': return 'This invitation has expired. Ask your attorney for a new one.';
+  }
+  return null;
+}
+
+// A random, unguessable invitation token
+const createInvitationToken = () => crypto.randomBytes(24).toString('hex');
+
+module.exports = {
+  CLIENT_ROLE,
+  PORTAL_PATH,
+  INVITATION_DAYS,
+  invitationLink,
+  invitationExpiry,
+  invitationStatus,
+  invitationProblem,
+  createInvitationToken
+};
@@ -0,0 +1,143 @@
+// User preferences, stored one row per user in user_preferences. Users without a
+// row (or columns added after their row was written) get the defaults below.
+
+const { database } = require('../config/database');
+
+const THEMES = ['light', 'dark', 'system'];
+const DATE_FORMATS = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'];
+const TIME_FORMATS = ['12h', '24h'];
+const SESSION_TIMEOUT_MINUTES = [15, 30, 60, 120, 480];
+const PASSWORD_EXPIRY_DAYS = [30, 60, 90, 180, 365];
+
+const DEFAULT_PREFERENCES = {
+  theme: 'light',
+  accentColor: '#1e40af',
+  sidebarCollapsed: false,
+  notifications: {
+    email: true,
+    push: false,
+    deadlines: true,
+    caseUpdates: true,
+    clientMessages: true,
+    settlementAlerts: true
+  },
+  dashboard: {
+    showRecentCases: true,
+    showUpcomingDeadlines: true,
+    showRecentActivity: true
+  },
+  dateFormat: 'MM/DD/YYYY',
+  timeFormat: '12h',
+  security: {
+    twoFactorEnabled: false,
+    sessionTimeoutMinutes: 30,
+    passwordExpiryDays: 90
+  }
+};
+
+function defaults() {
+  return JSON.parse(JSON.stringify(DEFAULT_PREFERENCES));
+}
+
+// Toggle groups are stored as JSON; only known boolean keys are kept
+function parseToggles(json, fallback) {
+  let stored = {};
+  try {
+    stored = JSON.parse(json || '{}');
+  } catch (error) {
+    console.error('Invalid stored preferences JSON:', error);
+  }
+
+  const toggles = { ...fallback };
+  for (const key of Object.keys(fallback)) {
+    if (typeof stored[key] === 'boolean') toggles[key] = stored[key];
+  }
+  return toggles;
+}
+
+function fromRow(row) {
+  const preferences = defaults();
+  if (!row) return preferences;
+
+  return {
+    theme: row.theme || preferences.theme,
+    accentColor: row.accent_color || preferences.accentColor,
+    sidebarCollapsed: Boolean(row.sidebar_collapsed),
+    notifications: parseToggles(row.notifications, preferences.notifications),
+    dashboard: parseToggles(row.dashboard, preferences.dashboard),
+    dateFormat: row.date_format || preferences.dateFormat,
+    timeFormat: row.time_format || preferences.timeFormat,
+    security: {
+      twoFactorEnabled: Boolean(row.two_factor_enabled),
+      sessionTimeoutMinutes: row.session_timeout_minutes || preferences.security.sessionTimeoutMinutes,
+      passwordExpiryDays: row.password_expiry_days || preferences.security.passwordExpiryDays
+    }
+  };
+}
+
+const definedOnly = values =>
+  Object.fromEntries(Object.entries(values || {}).filter(([, value]) => value !== undefined));
+
+async function getUserPreferences(userId) {
+  const row = await database.get('SELECT * FROM user_preferences WHERE user_id = ?', [userId]);
+  return fromRow(row);
+}
+
+// Applies a partial update (already validated) on top of the stored preferences.
+// Nested groups merge key by key, so { notifications: { email: false } } leaves the
+// other notification toggles alone.
+async function updateUserPreferences(userId, updates) {
+  const current = await getUserPreferences(userId);
+  const merged = {
+    ...current,
+    ...definedOnly(updates),
+    notifications: { ...current.notifications, ...definedOnly(updates.notifications) },
+    dashboard: { ...current.dashboard, ...definedOnly(updates.dashboard) },
+    security: { ...current.security, ...definedOnly(updates.security) }
+  };
+
+  await database.run(
+    `INSERT INTO user_preferences (
+      user_id, theme, accent_color, sidebar_collapsed, notifications, dashboard,
+      date_format, time_format, two_factor_enabled, session_timeout_minutes, password_expiry_days, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime("now"))
+    ON CONFLICT (user_id) DO UPDATE SET
+      theme = excluded.theme,
+      accent_color = excluded.accent_color,
+      sidebar_collapsed = excluded.sidebar_collapsed,
+      notifications = excluded.notifications,
+      dashboard = excluded.dashboard,
+      date_format = excluded.date_format,
+      time_format = excluded.time_format,
+      two_factor_enabled = excluded.two_factor_enabled,
+      session_timeout_minutes = excluded.session_timeout_minutes,
+      password_expiry_days = excluded.password_expiry_days,
+      updated_at = excluded.updated_at`,
+    [
+      userId,
+      merged.theme,
+      merged.accentColor,
+      merged.sidebarCollapsed ? 1 : 0,
+      JSON.stringify(merged.notifications),
+      JSON.stringify(merged.dashboard),
+      merged.dateFormat,
+      merged.timeFormat,
+      merged.security.twoFactorEnabled ? 1 : 0,
+      merged.security.sessionTimeoutMinutes,
+      merged.security.passwordExpiryDays
+    ]
+  );
+
+  return merged;
+}
+
+module.exports = {
+  THEMES,
+  DATE_FORMATS,
+  TIME_FORMATS,
+  SESSION_TIMEOUT_MINUTES,
+  PASSWORD_EXPIRY_DAYS,
+  DEFAULT_PREFERENCES,
+  getUserPreferences,
+  updateUserPreferences
+};
@@ -0,0 +1,317 @@
+// Recurrence rules for calendar events - mirrors src/lib/recurrence.ts.
+// Supports FREQ, INTERVAL, COUNT, UNTIL, BYDAY (with ordinals), BYMONTHDAY and BYMONTH.
+// Series repeat at the same wall-clock time in the event's time zone (time_zone), so a
+// 9:00 meeting stays at 9:00 across daylight saving changes.
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const OPEN_ENDED_SERIES_END = '9999-12-31T23:59:59.999Z';
+const MAX_PERIODS = 10000;
+
+// Events saved before time zones were stored repeat in the server's zone, as they always did
+const DEFAULT_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const zoneFormats = new Map();
+
+function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// The zone's clock time at `instant`, held in the UTC fields of the returned Date
+function toWallClock(instant, timeZone) {
+  if (!zoneFormats.has(timeZone)) {
+    zoneFormats.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }));
+  }
+  const parts = {};
+  for (const { type, value } of zoneFormats.get(timeZone).formatToParts(instant)) {
+    parts[type] = Number(value);
+  }
+  return new Date(Date.UTC(
+    parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, instant.getUTCMilliseconds()
+  ));
+}
+
+// The instant the zone's clocks show `wall`. A time skipped by a spring-forward change
+// moves later by the gap; a repeated fall-back time takes its first occurrence.
+function fromWallClock(wall, timeZone) {
+  const offsetAt = instant => toWallClock(instant, timeZone).getTime() - instant.getTime();
+  const guess = new Date(wall.getTime() - offsetAt(wall));
+  const instant = new Date(wall.getTime() - offsetAt(guess));
+  return toWallClock(instant, timeZone).getTime() === wall.getTime() ? instant : guess;
+}
+
+function parseICalDate(value) {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date value: ${value}`);
+    }
+    return date;
+  }
+
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)];
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+function parseRRule(value) {
+  const rule = { interval: 1 };
+
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    if (!part.trim()) continue;
+    const [key, rawValue = ''] = part.split('=');
+    const ruleValue = rawValue.trim().toUpperCase();
+
+    switch (key.trim().toUpperCase()) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(ruleValue)) {
+          throw new Error(`Unsupported recurrence frequency: ${ruleValue}`);
+        }
+        rule.freq = ruleValue;
+        break;
+      case 'INTERVAL':
+        rule.interval = Math.max(parseInt(ruleValue) || 1, 1);
+        break;
+      case 'COUNT':
+        rule.count = Math.max(parseInt(ruleValue) || 1, 1);
+        break;
+      case 'UNTIL':
+        rule.until = parseICalDate(ruleValue);
+        break;
+      case 'BYDAY':
+        rule.byDay = ruleValue.split(',').map(code => {
+          const match = code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) {
+            throw new Error(`Invalid BYDAY value: ${code}`);
+          }
+          return {
+            weekday: WEEKDAY_CODES.indexOf(match[2]),
+            ordinal: match[1] ? parseInt(match[1]) : undefined
+          };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = ruleValue.split(',').map(Number).filter(day => day !== 0 && Math.abs(day) <= 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = ruleValue.split(',').map(Number).filter(month => month >= 1 && month <= 12);
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('Recurrence rule is missing FREQ');
+  }
+
+  return rule;
+}
+
+function isValidRRule(value) {
+  try {
+    parseRRule(value);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function parseExceptions(value) {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => new Date(item))
+    .filter(date => !isNaN(date.getTime()));
+}
+
+// The functions below work on wall-clock dates (see toWallClock), so they use UTC getters
+function monthCandidates(rule, dtstart, year, month) {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  if (rule.byMonthDay && rule.byMonthDay.length) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : daysInMonth + day + 1))
+      .filter(day => day >= 1 && day <= daysInMonth);
+  }
+
+  if (rule.byDay && rule.byDay.length) {
+    return rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const matching = [];
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+      }
+      if (!ordinal) return matching;
+      const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      return pick ? [pick] : [];
+    });
+  }
+
+  const day = dtstart.getUTCDate();
+  return day <= daysInMonth ? [day] : [];
+}
+
+function getPeriod(rule, dtstart, index) {
+  const at = (year, month, day) =>
+    new Date(Date.UTC(year, month, day, dtstart.getUTCHours(), dtstart.getUTCMinutes(), dtstart.getUTCSeconds()));
+  const startDay = new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate()));
+  const addDays = (date, days) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const periodStart = addDays(startDay, index * rule.interval);
+      return { periodStart, candidates: [at(periodStart.getUTCFullYear(), periodStart.getUTCMonth(), periodStart.getUTCDate())] };
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const periodStart = addDays(startDay, -((startDay.getUTCDay() + 6) % 7) + index * rule.interval * 7);
+      const weekdays = rule.byDay && rule.byDay.length ? rule.byDay.map(day => day.weekday) : [dtstart.getUTCDay()];
+      return {
+        periodStart,
+        candidates: weekdays.map(weekday => {
+          const day = addDays(periodStart, (weekday + 6) % 7);
+          return at(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+        })
+      };
+    }
+    case 'MONTHLY': {
+      const periodStart = new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth() + index * rule.interval, 1));
+      const year = periodStart.getUTCFullYear();
+      const month = periodStart.getUTCMonth();
+      return {
+        periodStart,
+        candidates: monthCandidates(rule, dtstart, year, month).map(day => at(year, month, day))
+      };
+    }
+    default: {
+      const year = dtstart.getUTCFullYear() + index * rule.interval;
+      const months = rule.byMonth && rule.byMonth.length ? rule.byMonth.map(month => month - 1) : [dtstart.getUTCMonth()];
+      return {
+        periodStart: new Date(Date.UTC(year, 0, 1)),
+        candidates: months.flatMap(month =>
+          monthCandidates(rule, dtstart, year, month).map(day => at(year, month, day))
+        )
+      };
+    }
+  }
+}
+
+// Wall-clock starts of a series from `start` up to `end`
+function getWallClockStarts(start, rule, end) {
+  const starts = [];
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    const { periodStart, candidates } = getPeriod(rule, start, index);
+    if (periodStart > end) break;
+
+    const ordered = candidates
+      .filter(candidate => {
+        if (rule.freq === 'DAILY' && rule.byDay && rule.byDay.length &&
+            !rule.byDay.some(day => day.weekday === candidate.getUTCDay())) {
+          return false;
+        }
+        if (rule.freq !== 'YEARLY' && rule.byMonth && rule.byMonth.length &&
+            !rule.byMonth.includes(candidate.getUTCMonth() + 1)) {
+          return false;
+        }
+        return candidate >= start;
+      })
+      .sort((a, b) => a.getTime() - b.getTime())
+      .filter((candidate, position, list) => position === 0 || candidate.getTime() !== list[position - 1].getTime());
+
+    for (const candidate of ordered) {
+      if (candidate > end) return starts;
+      starts.push(candidate);
+      if (rule.count && starts.length >= rule.count) return starts;
+    }
+  }
+
+  return starts;
+}
+
+// All occurrence starts of a series from its first occurrence up to `limit`, repeating
+// at the start's wall-clock time in `timeZone`
+function getOccurrenceStarts(dtstart, rule, limit, timeZone = DEFAULT_TIME_ZONE) {
+  const end = rule.until && rule.until < limit ? rule.until : limit;
+  return getWallClockStarts(toWallClock(dtstart, timeZone), rule, toWallClock(end, timeZone))
+    .map(wall => fromWallClock(wall, timeZone));
+}
+
+function getDuration(event) {
+  return new Date(event.end_date || event.start_date).getTime() - new Date(event.start_date).getTime();
+}
+
+// End of the last occurrence, stored as series_end_date for range queries
+function getSeriesEnd(event) {
+  const end = event.end_date || event.start_date;
+  if (!event.recurrence_rule) return end;
+
+  const rule = parseRRule(event.recurrence_rule);
+  if (!rule.count && !rule.until) return OPEN_ENDED_SERIES_END;
+
+  const starts = getOccurrenceStarts(
+    new Date(event.start_date), rule, rule.until || new Date(OPEN_ENDED_SERIES_END), event.time_zone || undefined
+  );
+  const last = starts[starts.length - 1] || new Date(event.start_date);
+  return new Date(last.getTime() + getDuration(event)).toISOString();
+}
+
+// Expands calendar_events rows into the occurrences that overlap [start, end].
+// A series with a rule that no longer parses is logged and left out rather than failing the rest.
+function expandEvents(events, start, end) {
+  return events.flatMap(event => {
+    if (!event.recurrence_rule) {
+      return [{ ...event, occurrence_start: event.start_date }];
+    }
+
+    let starts;
+    try {
+      starts = getOccurrenceStarts(
+        new Date(event.start_date), parseRRule(event.recurrence_rule), end, event.time_zone || undefined
+      );
+    } catch (error) {
+      console.error(`Skipping event ${event.id} with an invalid recurrence rule:`, error.message);
+      return [];
+    }
+
+    const duration = getDuration(event);
+    const exceptions = new Set(parseExceptions(event.recurrence_exceptions).map(date => date.getTime()));
+
+    return starts
+      .filter(occurrence => occurrence.getTime() + duration >= start.getTime() && !exceptions.has(occurrence.getTime()))
+      .map(occurrence => ({
+        ...event,
+        start_date: occurrence.toISOString(),
+        end_date: new Date(occurrence.getTime() + duration).toISOString(),
+        occurrence_start: occurrence.toISOString()
+      }));
+  });
+}
+
+module.exports = {
+  OPEN_ENDED_SERIES_END,
+  isValidTimeZone,
+  parseRRule,
+  isValidRRule,
+  parseExceptions,
+  getOccurrenceStarts,
+  getSeriesEnd,
+  expandEvents
+};
@@ -0,0 +1,211 @@
+// Periodically scans deadlines and calendar events and delivers reminders at their
+// offsets. Overdue urgent deadlines escalate to the case's assigned attorney and,
+// if still open after ESCALATE_TO_ADMIN_AFTER_MINUTES, to the firm's admins.
+// Every reminder is recorded in reminder_log so it is delivered only once.
+
+const { database } = require('../config/database');
+const { expandEvents } = require('./recurrence');
+const { notify } = require('./notifications');
+const { getUserPreferences } = require('./preferences');
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function parseOffsets(value) {
+  return value
+    .split(',')
+    .map(Number)
+    .filter(offset => Number.isFinite(offset) && offset >= 0)
+    .sort((a, b) => a - b);
+}
+
+function getConfig() {
+  return {
+    intervalMs: parseInt(process.env.REMINDER_SCAN_INTERVAL_MS) || MINUTE_MS,
+    // Minutes before a deadline is due
+    deadlineOffsets: parseOffsets(process.env.DEADLINE_REMINDER_OFFSETS || '10080,1440,60'),
+    escalateToAdminAfterMinutes: parseInt(process.env.ESCALATE_TO_ADMIN_AFTER_MINUTES) || 1440,
+    // Deadlines overdue for longer than this are no longer escalated
+    escalationLookbackDays: parseInt(process.env.ESCALATION_LOOKBACK_DAYS) || 30
+  };
+}
+
+function describeOffset(minutes) {
+  const unit = (value, name) => `${value} ${name}${value === 1 ? '' : 's'}`;
+  if (minutes === 0) return 'now';
+  if (minutes % 1440 === 0) return `in ${unit(minutes / 1440, 'day')}`;
+  if (minutes % 60 === 0) return `in ${unit(minutes / 60, 'hour')}`;
+  return `in ${unit(minutes, 'minute')}`;
+}
+
+const formatDate = date => date.toISOString().slice(0, 10);
+
+// Records a reminder as delivered; false when it already went out
+async function claim(reminderKey, userId) {
+  const result = await database.run(
+    'INSERT OR IGNORE INTO reminder_log (reminder_key, user_id) VALUES (?, ?)',
+    [reminderKey, userId]
+  );
+  return result.changes > 0;
+}
+
+// Sends a reminder unless it already went out. The claim is released when sending fails,
+// so the next scan tries again. Returns how many were sent.
+async function deliverOnce(reminderKey, userId, notification) {
+  if (!await claim(reminderKey, userId)) return 0;
+
+  try {
+    await notify(userId, notification);
+    return 1;
+  } catch (error) {
+    await database.run('DELETE FROM reminder_log WHERE reminder_key = ?', [reminderKey]);
+    console.error('Reminder delivery error:', error);
+    return 0;
+  }
+}
+
+async function remindDeadline(deadline, due, now, config) {
+  // Only the closest offset that has been reached is sent, so a scheduler that was
+  // down does not deliver a backlog of stale reminders
+  const offset = config.deadlineOffsets.find(minutes => due.getTime() - minutes * MINUTE_MS <= now.getTime());
+  if (offset === undefined) return 0;
+
+  const preferences = await getUserPreferences(deadline.user_id);
+  if (!preferences.notifications.deadlines) return 0;
+
+  return deliverOnce(`deadline:${deadline.id}:${deadline.due_date}:${offset}`, deadline.user_id, {
+    category: 'deadline_reminder',
+    title: `Deadline due ${describeOffset(offset)}: ${deadline.title}`,
+    message: `${deadline.case_number}: "${deadline.title}" is due ${deadline.due_date}.`,
+    caseId: deadline.case_id
+  });
+}
+
+async function escalateDeadline(deadline, due, now, config) {
+  const attorneyId = deadline.assigned_attorney_id || deadline.user_id;
+  const title = `Overdue urgent deadline: ${deadline.title}`;
+  const message = `${deadline.case_number}: "${deadline.title}" was due ${deadline.due_date} and is still open.`;
+  const notification = { category: 'escalation', title, message, caseId: deadline.case_id };
+
+  let sent = await deliverOnce(`escalation:${deadline.id}:${deadline.due_date}:attorney`, attorneyId, notification);
+
+  if (now.getTime() - due.getTime() < config.escalateToAdminAfterMinutes * MINUTE_MS) return sent;
+
+  // Admins of the same firm as the case owner. An owner without a firm name has no firm
+  // admins; matching on the empty name would reach admins of every other such account.
+  const admins = await database.all(
+    `SELECT id FROM users
+     WHERE role = 'admin' AND is_active = 1 AND id != ? AND COALESCE(firm_name, '') != ''
+       AND firm_name = (SELECT firm_name FROM users WHERE id = ?)`,
+    [attorneyId, deadline.user_id]
+  );
+
+  for (const admin of admins) {
+    sent += await deliverOnce(`escalation:${deadline.id}:${deadline.due_date}:admin:${admin.id}`, admin.id, notification);
+  }
+  return sent;
+}
+
+async function scanDeadlines(now, config) {
+  const horizon = new Date(now.getTime() + Math.max(0, ...config.deadlineOffsets) * MINUTE_MS + DAY_MS);
+  const lookback = new Date(now.getTime() - config.escalationLookbackDays * DAY_MS);
+
+  const deadlines = await database.all(
+    `SELECT d.*, c.case_number, c.assigned_attorney_id
+     FROM deadlines d
+     JOIN cases c ON c.id = d.case_id
+     WHERE d.status != 'completed' AND date(d.due_date) BETWEEN ? AND ?`,
+    [formatDate(lookback), formatDate(horizon)]
+  );
+
+  let sent = 0;
+  for (const deadline of deadlines) {
+    const due = new Date(deadline.due_date);
+    if (isNaN(due.getTime())) continue;
+
+    if (due > now) {
+      sent += await remindDeadline(deadline, due, now, config);
+    } else if (deadline.priority === 'urgent' && due >= lookback) {
+      sent += await escalateDeadline(deadline, due, now, config);
+    }
+  }
+  return sent;
+}
+
+async function scanCalendarEvents(now) {
+  const events = await database.all(
+    `SELECT e.*, c.case_number
+     FROM calendar_events e
+     LEFT JOIN cases c ON c.id = e.case_id
+     WHERE e.reminder_minutes > 0
+       AND datetime(e.series_end_date) >= datetime(?)
+       AND datetime(e.start_date, '-' || e.reminder_minutes || ' minutes') <= datetime(?)`,
+    [now.toISOString(), now.toISOString()]
+  );
+  if (events.length === 0) return 0;
+
+  const maxReminder = Math.max(...events.map(event => event.reminder_minutes));
+  const occurrences = expandEvents(events, now, new Date(now.getTime() + maxReminder * MINUTE_MS));
+
+  let sent = 0;
+  for (const occurrence of occurrences) {
+    const start = new Date(occurrence.start_date);
+    if (start <= now || start.getTime() - occurrence.reminder_minutes * MINUTE_MS > now.getTime()) continue;
+
+    sent += await deliverOnce(`event:${occurrence.id}:${occurrence.occurrence_start}`, occurrence.user_id, {
+      category: 'event_reminder',
+      title: `Starting ${describeOffset(occurrence.reminder_minutes)}: ${occurrence.title}`,
+      message: [
+        `${occurrence.title} starts ${start.toISOString()}.`,
+        occurrence.location ? `Location: ${occurrence.location}` : null,
+        occurrence.case_number ? `Case: ${occurrence.case_number}` : null
+      ].filter(Boolean).join('\n'),
+      caseId: occurrence.case_id
+    });
+  }
+  return sent;
+}
+
+// One pass over deadlines and events; returns how many notifications went out
+async function runReminderScan(now = new Date()) {
+  const config = getConfig();
+  const deadlines = await scanDeadlines(now, config);
+  const events = await scanCalendarEvents(now);
+  return { deadlines, events };
+}
+
+let timer = null;
+let scanning = false;
+
+function startReminderScheduler() {
+  if (timer) return;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow scan
+    if (scanning) return;
+    scanning = true;
+    try {
+      await runReminderScan();
+    } catch (error) {
+      console.error('Reminder scan error:', error);
+    } finally {
+      scanning = false;
+    }
+  };
+
+  const { intervalMs } = getConfig();
+  timer = setInterval(tick, intervalMs);
+  tick();
+  console.log(`⏰ Reminder scheduler running every ${Math.round(intervalMs / 1000)}s`);
+}
+
+function stopReminderScheduler() {
+  clearInterval(timer);
+  timer = null;
+}
+
+module.exports = {
+  runReminderScan,
+  startReminderScheduler,
+  stopReminderScheduler
+};
@@ -0,0 +1,99 @@
+// Settlement distribution: the contingency fee, advanced case costs and lien payoffs
+// taken from the gross settlement, leaving the client's net.
+// Mirrors src/lib/settlementStatement.ts - keep in sync.
+
+const { database } = require('../config/database');
+
+// Standard contingency tiers; the percentage on a statement can be changed to match the retainer
+const FEE_STAGES = {
+  pre_suit: { label: 'Pre-suit', percent: 33.33 },
+  litigation: { label: 'Litigation', percent: 40 }
+};
+
+const LIEN_TYPES = ['medical', 'medicare', 'health_plan'];
+
+const roundCents = value => Math.round(value * 100) / 100;
+const nonNegative = value => (Number.isFinite(Number(value)) && Number(value) > 0 ? Number(value) : 0);
+
+// The fee is taken from the gross; costs and liens are then repaid before the client's share
+function calculateDistribution(statement) {
+  const grossSettlement = roundCents(nonNegative(statement.grossSettlement));
+  const attorneyFee = roundCents(grossSettlement * Math.min(100, nonNegative(statement.feePercent)) / 100);
+  const costTotal = roundCents(statement.costs.reduce((sum, cost) => sum + nonNegative(cost.amount), 0));
+  const lienTotal = roundCents(statement.liens.reduce((sum, lien) => sum + nonNegative(lien.amount), 0));
+
+  return {
+    grossSettlement,
+    attorneyFee,
+    costTotal,
+    lienTotal,
+    netToClient: roundCents(grossSettlement - attorneyFee - costTotal - lienTotal)
+  };
+}
+
+// Why a statement cannot be approved, if it cannot: the client's share must not be negative
+function approvalProblem(distribution) {
+  if (distribution.netToClient < 0) {
+    return 'The fee, costs and liens exceed the gross settlement, so the net to the client would be negative';
+  }
+  return null;
+}
+
+// Row from settlement_statements in the shape calculateDistribution and clients expect
+function toStatement(row) {
+  const statement = {
+    id: row.id,
+    caseId: row.case_id,
+    grossSettlement: Number(row.gross_settlement),
+    feeStage: row.fee_stage,
+    feePercent: Number(row.fee_percent),
+    costs: JSON.parse(row.costs || '[]'),
+    liens: JSON.parse(row.liens || '[]'),
+    attorneyApproval: row.attorney_approved_at
+      ? { name: row.attorney_approved_by, approvedAt: row.attorney_approved_at }
+      : null,
+    clientApproval: row.client_approved_at
+      ? { name: row.client_approved_by, approvedAt: row.client_approved_at }
+      : null,
+    lockedAt: row.locked_at || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+  statement.distribution = calculateDistribution(statement);
+  return statement;
+}
+
+// Records the attorney's or the client's approval on a settlement_statements row. Once both
+// have approved, the statement is locked and the gross becomes the case's settlement amount.
+async function approveStatement(row, party, name) {
+  const approvedAt = new Date().toISOString();
+  await database.run(
+    `UPDATE settlement_statements SET ${party}_approved_by = ?, ${party}_approved_at = ?, updated_at = datetime("now")
+     WHERE id = ?`,
+    [name, approvedAt, row.id]
+  );
+
+  let updated = await database.get('SELECT * FROM settlement_statements WHERE id = ?', [row.id]);
+  if (updated.attorney_approved_at && updated.client_approved_at) {
+    const { grossSettlement } = calculateDistribution(toStatement(updated));
+    await database.run(
+      'UPDATE settlement_statements SET locked_at = ? WHERE id = ?',
+      [approvedAt, row.id]
+    );
+    await database.run(
+      'UPDATE cases SET financials_locked = 1, settlement_amount = ?, updated_at = datetime("now") WHERE id = ?',
+      [grossSettlement, row.case_id]
+    );
+    updated = await database.get('SELECT * FROM settlement_statements WHERE id = ?', [row.id]);
+  }
+  return toStatement(updated);
+}
+
+module.exports = {
+  FEE_STAGES,
+  LIEN_TYPES,
+  calculateDistribution,
+  approvalProblem,
+  toStatement,
+  approveStatement
+};
@@ -0,0 +1,289 @@
+// Statute of limitations rules keyed by jurisdiction (US state) and case type.
+// Mirrors src/lib/statuteOfLimitations.ts - keep the rule tables in sync.
+
+const DEFAULT_JURISDICTION = 'DEFAULT';
+
+const JURISDICTIONS = {
+  CA: 'California',
+  FL: 'Florida',
+  IL: 'Illinois',
+  NY: 'New York',
+  PA: 'Pennsylvania',
+  TX: 'Texas'
+};
+
+const rule = (jurisdiction, caseType, details) => ({
+  id: `${jurisdiction}:${caseType}`,
+  jurisdiction,
+  caseType,
+  ...details
+});
+
+const LIMITATION_RULES = [
+  rule('CA', 'personal_injury', {
+    period: { years: 2 },
+    citation: 'Cal. Civ. Proc. Code § 335.1',
+    summary: 'Two years from the injury',
+    minors: { tolledUntilAge: 18, citation: 'Cal. Civ. Proc. Code § 352' }
+  }),
+  rule('CA', 'medical_malpractice', {
+    period: { years: 1 },
+    citation: 'Cal. Civ. Proc. Code § 340.5',
+    summary: 'One year from discovery, but no more than three years from the injury',
+    discoveryRule: true,
+    repose: { years: 3 },
+    minors: { underAge: 6, notBeforeAge: 8, reposeYears: 3, citation: 'Cal. Civ. Proc. Code § 340.5' }
+  }),
+  rule('CA', 'workers_comp', {
+    period: { years: 1 },
+    citation: 'Cal. Lab. Code § 5405',
+    summary: 'One year from the date of injury'
+  }),
+  rule('FL', 'personal_injury', {
+    period: { years: 2 },
+    citation: 'Fla. Stat. § 95.11(4)(a)',
+    summary: 'Two years for negligence actions accruing on or after March 24, 2023; four years before',
+    priorPeriod: { accruedBefore: '2023-03-24', period: { years: 4 }, citation: 'Fla. Stat. § 95.11(3)(a) (2022)' }
+  }),
+  rule('FL', 'medical_malpractice', {
+    period: { years: 2 },
+    citation: 'Fla. Stat. § 95.11(4)(b)',
+    summary: 'Two years from discovery, but no more than four years from the incident',
+    discoveryRule: true,
+    repose: { years: 4 },
+    minors: { notBeforeAge: 8, citation: 'Fla. Stat. § 95.11(4)(b)' }
+  }),
+  rule('FL', 'workers_comp', {
+    period: { years: 2 },
+    citation: 'Fla. Stat. § 440.19',
+    summary: 'Two years from the date the employee knew or should have known the injury arose from work',
+    discoveryRule: true
+  }),
+  rule('IL', 'personal_injury', {
+    period: { years: 2 },
+    citation: '735 ILCS 5/13-202',
+    summary: 'Two years from the injury',
+    minors: { tolledUntilAge: 18, citation: '735 ILCS 5/13-211' }
+  }),
+  rule('IL', 'medical_malpractice', {
+    period: { years: 2 },
+    citation: '735 ILCS 5/13-212(a)',
+    summary: 'Two years from discovery, but no more than four years from the act',
+    discoveryRule: true,
+    repose: { years: 4 },
+    minors: { reposeYears: 8, notAfterAge: 22, citation: '735 ILCS 5/13-212(b)' }
+  }),
+  rule('IL', 'workers_comp', {
+    period: { years: 3 },
+    citation: '820 ILCS 305/6(d)',
+    summary: 'Three years from the accident'
+  }),
+  rule('NY', 'personal_injury', {
+    period: { years: 3 },
+    citation: 'N.Y. C.P.L.R. § 214(5)',
+    summary: 'Three years from the injury',
+    minors: { tolledUntilAge: 18, citation: 'N.Y. C.P.L.R. § 208' }
+  }),
+  rule('NY', 'medical_malpractice', {
+    period: { years: 2, months: 6 },
+    citation: 'N.Y. C.P.L.R. § 214-a',
+    summary: 'Two years and six months from the act or the end of continuous treatment',
+    minors: { tolledUntilAge: 18, maxTollingYears: 10, citation: 'N.Y. C.P.L.R. § 208' }
+  }),
+  rule('NY', 'workers_comp', {
+    period: { years: 2 },
+    citation: "N.Y. Workers' Comp. Law § 28",
+    summary: 'Two years from the accident'
+  }),
+  rule('PA', 'personal_injury', {
+    period: { years: 2 },
+    citation: '42 Pa.C.S. § 5524(2)',
+    summary: 'Two years from the injury',
+    discoveryRule: true,
+    minors: { tolledUntilAge: 18, citation: '42 Pa.C.S. § 5533(b)' }
+  }),
+  rule('PA', 'medical_malpractice', {
+    period: { years: 2 },
+    citation: '42 Pa.C.S. § 5524(2); 40 P.S. § 1303.513',
+    summary: 'Two years from discovery, but no more than seven years from the act',
+    discoveryRule: true,
+    repose: { years: 7 },
+    minors: { tolledUntilAge: 18, notAfterAge: 20, citation: '40 P.S. § 1303.513(c)' }
+  }),
+  rule('PA', 'workers_comp', {
+    period: { years: 3 },
+    citation: '77 P.S. § 602',
+    summary: 'Three years from the injury'
+  }),
+  rule('TX', 'personal_injury', {
+    period: { years: 2 },
+    citation: 'Tex. Civ. Prac. & Rem. Code § 16.003',
+    summary: 'Two years from the day the cause of action accrues',
+    minors: { tolledUntilAge: 18, citation: 'Tex. Civ. Prac. & Rem. Code § 16.001' }
+  }),
+  rule('TX', 'medical_malpractice', {
+    period: { years: 2 },
+    citation: 'Tex. Civ. Prac. & Rem. Code § 74.251',
+    summary: 'Two years from the breach or the completion of treatment',
+    repose: { years: 10 },
+    minors: { underAge: 12, notBeforeAge: 14, citation: 'Tex. Civ. Prac. & Rem. Code § 74.251(a)' }
+  }),
+  rule('TX', 'workers_comp', {
+    period: { years: 1 },
+    citation: 'Tex. Lab. Code § 409.003',
+    summary: 'One year from the injury'
+  }),
+  rule(DEFAULT_JURISDICTION, 'personal_injury', {
+    period: { years: 2 },
+    citation: 'General negligence period - verify for the jurisdiction',
+    summary: 'Two years from the injury (most common period)',
+    minors: { tolledUntilAge: 18, citation: 'Minority tolling - verify for the jurisdiction' }
+  }),
+  rule(DEFAULT_JURISDICTION, 'medical_malpractice', {
+    period: { years: 2 },
+    citation: 'General medical malpractice period - verify for the jurisdiction',
+    summary: 'Two years from discovery (most common period)',
+    discoveryRule: true
+  }),
+  rule(DEFAULT_JURISDICTION, 'workers_comp', {
+    period: { years: 1 },
+    citation: "Workers' compensation claim period - verify for the jurisdiction",
+    summary: 'One year from the injury (shortest common period)'
+  })
+];
+
+// Auto accidents and other claims follow the general personal injury period
+const RULE_CASE_TYPES = {
+  personal_injury: 'personal_injury',
+  auto_accident: 'personal_injury',
+  medical_malpractice: 'medical_malpractice',
+  workers_comp: 'workers_comp',
+  other: 'personal_injury'
+};
+
+function findLimitationRule(jurisdiction, caseType) {
+  const ruleCaseType = RULE_CASE_TYPES[caseType] || 'personal_injury';
+  const code = jurisdiction ? jurisdiction.toUpperCase() : null;
+  return (
+    LIMITATION_RULES.find(item => item.jurisdiction === code && item.caseType === ruleCaseType) ||
+    LIMITATION_RULES.find(item => item.jurisdiction === DEFAULT_JURISDICTION && item.caseType === ruleCaseType)
+  );
+}
+
+// Dates are handled as UTC calendar days (yyyy-MM-dd)
+function parseDateOnly(value) {
+  if (!value) return null;
+  const [year, month, day] = String(value).slice(0, 10).split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// Adds whole months, clamping to the end of shorter months (Feb 29 + 1 year = Feb 28)
+function addMonths(date, months) {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+const addYears = (date, years) => addMonths(date, years * 12);
+const addPeriod = (date, period) => addMonths(date, period.years * 12 + (period.months || 0));
+const formatDate = date => date.toISOString().slice(0, 10);
+const earlier = (a, b) => (a < b ? a : b);
+const later = (a, b) => (a > b ? a : b);
+
+// Claims that accrued before the law changed keep the period in force back then
+function periodFor(limitationRule, accrual) {
+  const prior = limitationRule.priorPeriod;
+  return prior && accrual < parseDateOnly(prior.accruedBefore) ? prior.period : limitationRule.period;
+}
+
+function describePeriod(period) {
+  const years = `${period.years} year${period.years === 1 ? '' : 's'}`;
+  return period.months ? `${years} ${period.months} month${period.months === 1 ? '' : 's'}` : years;
+}
+
+function getJurisdictionName(code) {
+  return (code && JURISDICTIONS[code.toUpperCase()]) || 'Other / unspecified';
+}
+
+// Returns null when there is no incident date to count from
+function calculateStatuteOfLimitations({ jurisdiction, caseType, incidentDate, discoveryDate, clientDateOfBirth }) {
+  const incident = parseDateOnly(incidentDate);
+  if (!incident) return null;
+
+  const limitationRule = findLimitationRule(jurisdiction, caseType);
+  const explanation = [
+    `${getJurisdictionName(limitationRule.jurisdiction)}: ${limitationRule.summary} (${limitationRule.citation}).`
+  ];
+  const discovery = parseDateOnly(discoveryDate);
+  const fromDiscovery = Boolean(limitationRule.discoveryRule && discovery && discovery > incident);
+  const accrual = fromDiscovery ? discovery : incident;
+  const period = periodFor(limitationRule, accrual);
+  let basis = fromDiscovery ? 'discovery' : 'incident';
+  let deadline = addPeriod(accrual, period);
+
+  if (fromDiscovery) {
+    explanation.push(`Discovery rule: ${describePeriod(period)} from discovery on ${formatDate(discovery)}.`);
+  } else {
+    explanation.push(`${describePeriod(period)} from the incident on ${formatDate(incident)}.`);
+  }
+  if (period !== limitationRule.period) {
+    const prior = limitationRule.priorPeriod;
+    explanation.push(`The claim accrued before ${prior.accruedBefore}, so the earlier period applies (${prior.citation}).`);
+  }
+
+  if (limitationRule.repose) {
+    const reposeDate = addPeriod(incident, limitationRule.repose);
+    if (reposeDate < deadline) {
+      deadline = reposeDate;
+      explanation.push(`Capped by the statute of repose, ${describePeriod(limitationRule.repose)} from the incident.`);
+    }
+  }
+
+  const birth = parseDateOnly(clientDateOfBirth);
+  const minors = limitationRule.minors;
+  if (birth && minors) {
+    const birthday = age => addYears(birth, age);
+    if (incident < birthday(minors.underAge || 18)) {
+      let minorDeadline = null;
+
+      if (minors.tolledUntilAge) {
+        let tollingEnds = birthday(minors.tolledUntilAge);
+        if (minors.maxTollingYears) {
+          tollingEnds = earlier(tollingEnds, addYears(incident, minors.maxTollingYears));
+        }
+        minorDeadline = addPeriod(tollingEnds, period);
+      }
+      if (minors.reposeYears) {
+        minorDeadline = addYears(incident, minors.reposeYears);
+      }
+      if (minors.notBeforeAge) {
+        minorDeadline = later(minorDeadline || deadline, birthday(minors.notBeforeAge));
+      }
+      if (minors.notAfterAge && minorDeadline) {
+        minorDeadline = earlier(minorDeadline, birthday(minors.notAfterAge));
+      }
+
+      if (minorDeadline && minorDeadline > deadline) {
+        deadline = minorDeadline;
+        basis = 'minority';
+        explanation.push(`Extended because the client was a minor at the time of the incident (${minors.citation}).`);
+      }
+    }
+  }
+
+  return {
+    deadline: formatDate(deadline),
+    ruleId: limitationRule.id,
+    citation: limitationRule.citation,
+    summary: limitationRule.summary,
+    basis,
+    explanation
+  };
+}
+
+module.exports = {
+  JURISDICTIONS,
+  calculateStatuteOfLimitations
+};
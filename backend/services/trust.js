@@ -0,0 +1,231 @@
+// Client trust (IOLTA) accounting: per-client ledgers, bank statement import and the
+// monthly three-way reconciliation. Mirrors src/lib/trust.ts - keep in sync.
+
+const TRANSACTION_TYPES = ['deposit', 'disbursement'];
+const MATCH_WINDOW_DAYS = 7;
+
+const roundCents = value => Math.round(value * 100) / 100;
+const sum = values => roundCents(values.reduce((total, value) => total + value, 0));
+
+const signedAmount = transaction =>
+  (transaction.type === 'deposit' ? Number(transaction.amount) : -Number(transaction.amount));
+
+// Deposits before disbursements on the same day, so a same-day deposit can fund a check
+const byPostingOrder = (a, b) =>
+  a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'deposit' ? -1 : 1);
+
+// Case whose ledger dips below zero at any point, if any. Bar rules forbid a negative
+// client balance even for a day, so the running balance is checked, not just the total.
+function findOverdrawnCase(transactions) {
+  const balances = new Map();
+  for (const transaction of [...transactions].sort(byPostingOrder)) {
+    const balance = roundCents((balances.get(transaction.case_id) || 0) + signedAmount(transaction));
+    if (balance < 0) return transaction.case_id;
+    balances.set(transaction.case_id, balance);
+  }
+  return undefined;
+}
+
+// Ledger per case, with the case number and client name from the cases rows
+function buildClientLedgers(transactions, cases) {
+  const casesById = new Map(cases.map(caseRow => [caseRow.id, caseRow]));
+  const ledgers = new Map();
+
+  for (const transaction of [...transactions].sort(byPostingOrder)) {
+    const ledger = ledgers.get(transaction.case_id) || {
+      case_id: transaction.case_id,
+      client_name: transaction.client_name || casesById.get(transaction.case_id)?.client_name || 'Unknown client',
+      case_number: casesById.get(transaction.case_id)?.case_number || '',
+      balance: 0,
+      transactions: []
+    };
+    ledger.transactions.push(transaction);
+    ledger.balance = roundCents(ledger.balance + signedAmount(transaction));
+    ledgers.set(transaction.case_id, ledger);
+  }
+
+  return [...ledgers.values()].sort((a, b) => a.client_name.localeCompare(b.client_name));
+}
+
+// Splits one CSV row, honouring quoted fields with embedded commas and doubled quotes
+function splitCsvRow(row) {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function parseMoney(value) {
+  if (!value) return 0;
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-');
+  const amount = parseFloat(value.replace(/[^0-9.]/g, '')) || 0;
+  return negative ? -amount : amount;
+}
+
+// Accepts yyyy-MM-dd and US MM/dd/yyyy dates
+function parseStatementDate(value) {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (!us) return null;
+  const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+  return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+}
+
+// Bank exports differ; this reads the common layouts: a signed Amount column, or separate
+// Debit/Credit (Withdrawal/Deposit) columns, plus Date, Description and an optional check
+// or reference number
+function parseBankStatementCsv(text) {
+  const rows = text.split(/\r?\n/).filter(row => row.trim());
+  if (rows.length === 0) throw new Error('The statement file is empty');
+
+  const header = splitCsvRow(rows[0]).map(column => column.toLowerCase());
+  const column = (...names) => header.findIndex(name => names.some(candidate => name.includes(candidate)));
+  const date = column('date');
+  const description = column('description', 'memo', 'payee', 'details');
+  const amount = column('amount');
+  const debit = column('debit', 'withdrawal');
+  const credit = column('credit', 'deposit');
+  const reference = column('check', 'reference', 'ref');
+
+  if (date < 0 || (amount < 0 && (debit < 0 || credit < 0))) {
+    throw new Error('The statement needs a Date column and either an Amount column or Debit and Credit columns');
+  }
+
+  return rows.slice(1).flatMap(row => {
+    const fields = splitCsvRow(row);
+    const lineDate = parseStatementDate(fields[date] || '');
+    if (!lineDate) return [];
+    const lineAmount = amount >= 0
+      ? parseMoney(fields[amount])
+      : Math.abs(parseMoney(fields[credit])) - Math.abs(parseMoney(fields[debit]));
+    if (lineAmount === 0) return [];
+    return [{
+      date: lineDate,
+      description: description >= 0 ? fields[description] || '' : '',
+      amount: roundCents(lineAmount),
+      reference: reference >= 0 ? fields[reference] || '' : ''
+    }];
+  });
+}
+
+const daysApart = (a, b) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+
+// Pairs each unmatched bank line with a journal transaction of the same signed amount,
+// preferring the same check number, then the closest date within a week. Transactions
+// already matched on any statement are skipped.
+function matchBankLines(lines, transactions, matchedIds) {
+  const taken = new Set(matchedIds);
+  for (const line of lines) {
+    if (line.matched_transaction_id) taken.add(line.matched_transaction_id);
+  }
+
+  return lines.map(line => {
+    if (line.matched_transaction_id) return line;
+    const candidates = transactions
+      .filter(transaction =>
+        !taken.has(transaction.id) &&
+        roundCents(signedAmount(transaction)) === roundCents(line.amount) &&
+        daysApart(transaction.date, line.date) <= MATCH_WINDOW_DAYS
+      )
+      .sort((a, b) => {
+        const referenceMatch = Number(!!line.reference && b.reference === line.reference) -
+          Number(!!line.reference && a.reference === line.reference);
+        return referenceMatch || daysApart(a.date, line.date) - daysApart(b.date, line.date);
+      });
+
+    if (candidates.length === 0) return line;
+    taken.add(candidates[0].id);
+    return { ...line, matched_transaction_id: candidates[0].id };
+  });
+}
+
+const monthEnd = month => `${month}-31`; // Compares correctly against yyyy-MM-dd
+
+// Transactions dated on or before the end of the last signed-off month are final, like
+// billed time
+const isReconciledDate = (date, reconciledMonth) => !!reconciledMonth && date <= monthEnd(reconciledMonth);
+
+// Three-way reconciliation for a month: the bank balance adjusted for outstanding items,
+// the trust journal and the sum of client ledgers must agree. Lines are every imported
+// bank line up to and including the month, each with its statement's month. The journal
+// leg starts from the balance recorded when the last earlier month (opening) was signed
+// off and adds the activity since, while the client ledgers are rebuilt from every
+// transaction, so a change to a closed month shows up as a difference between the two.
+function reconcileTrustAccount(month, statement, lines, transactions, cases, opening) {
+  const asOf = monthEnd(month);
+  const journal = transactions.filter(transaction => transaction.date <= asOf);
+
+  // Cleared means it has appeared on this or an earlier statement
+  const cleared = new Set(
+    lines.filter(line => line.month <= month && line.matched_transaction_id).map(line => line.matched_transaction_id)
+  );
+  const outstanding = journal.filter(transaction => !cleared.has(transaction.id));
+  const outstandingDeposits = outstanding.filter(transaction => transaction.type === 'deposit');
+  const outstandingDisbursements = outstanding.filter(transaction => transaction.type === 'disbursement');
+
+  const bankBalance = statement ? Number(statement.ending_balance) : 0;
+  const adjustedBankBalance = roundCents(
+    bankBalance +
+      sum(outstandingDeposits.map(t => Number(t.amount))) -
+      sum(outstandingDisbursements.map(t => Number(t.amount)))
+  );
+  const journalBalance = roundCents((opening ? Number(opening.journal_balance) : 0) + sum(
+    journal.filter(transaction => !opening || transaction.date > monthEnd(opening.month)).map(signedAmount)
+  ));
+  const clientLedgers = buildClientLedgers(journal, cases);
+  const clientLedgerTotal = sum(clientLedgers.map(ledger => ledger.balance));
+  const negativeLedgers = clientLedgers.filter(ledger => ledger.balance < 0);
+
+  return {
+    month,
+    reconciledAt: statement ? statement.reconciled_at || null : null,
+    bankBalance,
+    outstandingDeposits,
+    outstandingDisbursements,
+    adjustedBankBalance,
+    openingMonth: opening ? opening.month : null,
+    journalBalance,
+    clientLedgerTotal,
+    clientLedgers: clientLedgers.map(({ transactions: _, ...ledger }) => ledger),
+    unmatchedBankLines: lines.filter(line => line.month === month && !line.matched_transaction_id),
+    negativeLedgers: negativeLedgers.map(ledger => ledger.case_id),
+    balanced: !!statement &&
+      adjustedBankBalance === journalBalance &&
+      journalBalance === clientLedgerTotal &&
+      negativeLedgers.length === 0
+  };
+}
+
+module.exports = {
+  TRANSACTION_TYPES,
+  signedAmount,
+  findOverdrawnCase,
+  buildClientLedgers,
+  parseBankStatementCsv,
+  matchBankLines,
+  monthEnd,
+  isReconciledDate,
+  reconcileTrustAccount
+};
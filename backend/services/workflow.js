@@ -0,0 +1,132 @@
+// Case workflows: which status changes are allowed, what must be done before a case
+// leaves a stage, and the reminders created when it enters one.
+// Mirrors src/lib/workflow.ts - keep in sync. The API's case statuses are coarser than
+// the app's (open covers new through litigation), so the standard open stage carries
+// the app's intake, investigation and negotiation checklists together.
+
+const CASE_STATUSES = {
+  open: 'Open',
+  settled: 'Settled',
+  dismissed: 'Dismissed',
+  closed: 'Closed'
+};
+
+const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+const item = (id, label, required = true) => ({ id, label, required });
+
+// Used for every case type until the user saves their own workflow
+const STANDARD_STAGES = [
+  {
+    status: 'open',
+    transitions: ['settled', 'dismissed', 'closed'],
+    checklist: [
+      item('conflict_check', 'Conflict check cleared'),
+      item('retainer_signed', 'Retainer agreement signed'),
+      item('police_report', 'Police report obtained'),
+      item('medical_records', 'Medical records obtained'),
+      item('demand_sent', 'Demand sent')
+    ],
+    tasks: [
+      { id: 'intake_packet', title: 'Send client intake packet', dueInDays: 3, priority: 'medium' },
+      { id: 'request_police_report', title: 'Request police report', dueInDays: 7, priority: 'high' },
+      { id: 'request_medical_records', title: 'Request medical records', dueInDays: 7, priority: 'high' }
+    ]
+  },
+  {
+    status: 'settled',
+    transitions: ['closed'],
+    checklist: [
+      item('release_signed', 'Release signed'),
+      item('funds_disbursed', 'Settlement funds disbursed')
+    ],
+    tasks: [{ id: 'disburse_funds', title: 'Disburse settlement funds', dueInDays: 14, priority: 'high' }]
+  },
+  {
+    status: 'dismissed',
+    transitions: ['closed'],
+    checklist: [item('client_notified', 'Client notified of dismissal')],
+    tasks: []
+  },
+  {
+    status: 'closed',
+    transitions: [],
+    checklist: [],
+    tasks: [{ id: 'closing_letter', title: 'Send closing letter to client', dueInDays: 7, priority: 'low' }]
+  }
+];
+
+const standardWorkflow = caseType => ({ caseType, stages: STANDARD_STAGES, custom: false });
+
+// Workflows belong to the user who saves them. The firm name is free text anyone can type,
+// so it cannot decide whose workflow, transitions and checklists someone may overwrite.
+const workflowKey = user => `user:${user.id}`;
+
+// A saved case_workflows row, or the standard workflow when the user has not saved one
+const toCaseWorkflow = (row, caseType) => (row
+  ? { caseType: row.case_type, stages: JSON.parse(row.stages), custom: true, updatedAt: row.updated_at }
+  : standardWorkflow(caseType));
+
+const findStage = (workflow, status) => workflow.stages.find(stage => stage.status === status);
+
+const allowedTransitions = (workflow, from) => (findStage(workflow, from) || {}).transitions || [];
+
+const missingRequiredItems = (workflow, status, completedIds) =>
+  ((findStage(workflow, status) || {}).checklist || [])
+    .filter(checklistItem => checklistItem.required && !completedIds.has(checklistItem.id));
+
+// Why the case cannot move from one status to another, or null when it can
+function transitionBlocker(workflow, from, to, completedIds) {
+  if (from === to) return null;
+  const label = status => CASE_STATUSES[status] || status;
+  if (!allowedTransitions(workflow, from).includes(to)) {
+    return `The workflow does not allow moving from ${label(from)} to ${label(to)}`;
+  }
+
+  const missing = missingRequiredItems(workflow, from, completedIds);
+  if (missing.length > 0) {
+    return `Complete the ${label(from)} checklist first: ${missing.map(checklistItem => checklistItem.label).join(', ')}`;
+  }
+  return null;
+}
+
+// Problems that would make a workflow unusable, or null when it can be saved
+function validateWorkflow(stages) {
+  if (!Array.isArray(stages)) return 'Stages must be a list';
+  const statuses = new Set(stages.map(stage => stage && stage.status));
+  if (statuses.size !== stages.length) return 'Each status can only have one stage';
+  if (!Object.keys(CASE_STATUSES).every(status => statuses.has(status))) return 'Every status needs a stage';
+
+  for (const stage of stages) {
+    const name = CASE_STATUSES[stage.status] || stage.status;
+    if (!Array.isArray(stage.transitions) || !Array.isArray(stage.checklist) || !Array.isArray(stage.tasks)) {
+      return `${name} needs transitions, a checklist and tasks`;
+    }
+    if (stage.transitions.some(status => !CASE_STATUSES[status])) return `${name} moves to an unknown status`;
+    if (stage.transitions.includes(stage.status)) return `${name} cannot transition to itself`;
+    if (stage.checklist.some(checklistItem => !checklistItem.id || !String(checklistItem.label || '').trim()) ||
+        stage.tasks.some(task => !task.id || !String(task.title || '').trim())) {
+      return `Name every checklist item and task in ${name}`;
+    }
+    if (stage.tasks.some(task => !Number.isInteger(task.dueInDays) || task.dueInDays < 0)) {
+      return `Task due dates in ${name} must be zero or more whole days`;
+    }
+    if (stage.tasks.some(task => !TASK_PRIORITIES.includes(task.priority))) {
+      return `Task priorities in ${name} must be one of ${TASK_PRIORITIES.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+module.exports = {
+  CASE_STATUSES,
+  STANDARD_STAGES,
+  standardWorkflow,
+  workflowKey,
+  toCaseWorkflow,
+  findStage,
+  allowedTransitions,
+  missingRequiredItems,
+  transitionBlocker,
+  validateWorkflow
+};
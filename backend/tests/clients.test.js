@@ -0,0 +1,37 @@
+const { findMatchingClient } = require('../services/clients');
+
+const janeWithPhone = { id: 'jane-1', name: 'Jane Doe', email: null, phone: '(555) 010-2000', date_of_birth: null };
+const janeWithBirthday = { id: 'jane-2', name: 'Jane Doe', email: null, phone: null, date_of_birth: '1980-04-02' };
+
+const contact = details => ({ client_name: 'jane  doe', client_email: '', client_phone: '', ...details });
+
+describe('findMatchingClient', () => {
+  test('matches a shared name when the email agrees', () => {
+    const client = { ...janeWithPhone, email: 'jane@example.com' };
+    expect(findMatchingClient([client], contact({ client_email: 'Jane@Example.com' }))).toBe(client);
+  });
+
+  test('does not match a family member who shares the email address', () => {
+    const parent = { id: 'jane-3', name: 'Jane Smith', email: 'smiths@example.com', phone: null, date_of_birth: '1980-04-02' };
+    const child = contact({ client_name: 'Tommy Smith', client_email: 'smiths@example.com', client_date_of_birth: '2015-06-01' });
+    expect(findMatchingClient([parent], child)).toBeUndefined();
+    expect(findMatchingClient([parent], { ...child, client_date_of_birth: '' })).toBeUndefined();
+  });
+
+  test('matches a shared name when the phone number or date of birth agrees', () => {
+    expect(findMatchingClient([janeWithPhone], contact({ client_phone: '555-010-2000' }))).toBe(janeWithPhone);
+    expect(findMatchingClient([janeWithBirthday], contact({ client_date_of_birth: '1980-04-02' })))
+      .toBe(janeWithBirthday);
+  });
+
+  test('does not match on the name alone', () => {
+    expect(findMatchingClient([janeWithPhone, janeWithBirthday], contact({}))).toBeUndefined();
+    expect(findMatchingClient([janeWithBirthday], contact({ client_phone: '555-010-2000' }))).toBeUndefined();
+  });
+
+  test('does not match when a known detail disagrees', () => {
+    const client = { ...janeWithBirthday, phone: '555-010-2000' };
+    expect(findMatchingClient([client], contact({ client_phone: '555-010-2000', client_date_of_birth: '1991-01-01' })))
+      .toBeUndefined();
+  });
+});
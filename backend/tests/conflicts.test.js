@@ -0,0 +1,49 @@
+process.env.DATABASE_PATH = ':memory:';
+
+const { database, initializeDatabase } = require('../config/database');
+const { searchConflicts, loadRegistry } = require('../services/conflicts');
+
+async function addUser(email, firmName, role = 'user') {
+  const result = await database.run(
+    'INSERT INTO users (email, password, first_name, last_name, role, firm_name) VALUES (?, ?, ?, ?, ?, ?)',
+    [email, 'hash', 'Test', 'User', role, firmName]
+  );
+  return result.id;
+}
+
+async function addClient(id, userId, name) {
+  await database.run('INSERT INTO clients (id, user_id, name) VALUES (?, ?, ?)', [id, userId, name]);
+}
+
+const adverse = name => [{ role: 'adverse_party', name, email: '', phone: '' }];
+
+describe('loadRegistry', () => {
+  let attorney;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await initializeDatabase();
+    attorney = await addUser('ann@smithlaw.test', 'Smith & Partners');
+    await addClient('client-own', attorney, 'Robert Own');
+  });
+
+  afterAll(() => database.close());
+
+  test("finds a colleague's former client named as the adverse party", async () => {
+    const colleague = await addUser('bob@smithlaw.test', 'Smith & Partners');
+    await addClient('client-colleague', colleague, 'Martha Greene');
+
+    const { matches } = searchConflicts(adverse('Martha Greene'), await loadRegistry(attorney));
+    expect(matches.map(match => [match.entry.id, match.severity])).toEqual([['client-colleague', 'conflict']]);
+  });
+
+  test('does not search clients of another firm or of users without a firm', async () => {
+    await addClient('client-other-firm', await addUser('cy@otherfirm.test', 'Other Firm LLP'), 'Walter Ames');
+    await addClient('client-solo', await addUser('di@solo.test', null), 'Walter Ames');
+    const solo = await addUser('ed@solo.test', null);
+
+    expect(searchConflicts(adverse('Walter Ames'), await loadRegistry(attorney)).matches).toEqual([]);
+    expect(searchConflicts(adverse('Walter Ames'), await loadRegistry(solo)).matches).toEqual([]);
+    expect(searchConflicts(adverse('Robert Own'), await loadRegistry(solo)).matches).toEqual([]);
+  });
+});
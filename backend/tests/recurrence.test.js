@@ -0,0 +1,30 @@
+const { expandEvents } = require('../services/recurrence');
+
+const march = [new Date('2026-03-01T00:00:00Z'), new Date('2026-04-01T00:00:00Z')];
+
+const standup = {
+  id: 'standup',
+  start_date: '2026-03-02T14:00:00.000Z', // 9:00 in New York, before daylight saving starts
+  end_date: '2026-03-02T14:30:00.000Z',
+  recurrence_rule: 'FREQ=WEEKLY;COUNT=3',
+  time_zone: 'America/New_York'
+};
+
+describe('expandEvents', () => {
+  test('keeps the wall-clock time in the event time zone across daylight saving', () => {
+    expect(expandEvents([standup], ...march).map(event => event.start_date)).toEqual([
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+      '2026-03-16T13:00:00.000Z'
+    ]);
+  });
+
+  test('skips a series with an invalid rule and expands the others', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = { ...standup, id: 'broken', recurrence_rule: 'FREQ=HOURLY' };
+
+    expect(expandEvents([broken, standup], ...march).map(event => event.id)).toEqual(['standup', 'standup', 'standup']);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
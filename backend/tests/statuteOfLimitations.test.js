@@ -0,0 +1,21 @@
+const { calculateStatuteOfLimitations } = require('../services/statuteOfLimitations');
+
+const floridaInjury = incidentDate =>
+  calculateStatuteOfLimitations({ jurisdiction: 'FL', caseType: 'auto_accident', incidentDate });
+
+describe('Florida personal injury', () => {
+  test('claims accruing before March 24, 2023 keep the four-year period', () => {
+    expect(floridaInjury('2022-06-01').deadline).toBe('2026-06-01');
+    expect(floridaInjury('2023-03-23').deadline).toBe('2027-03-23');
+  });
+
+  test('claims accruing from March 24, 2023 get two years', () => {
+    expect(floridaInjury('2023-03-24').deadline).toBe('2025-03-24');
+    expect(floridaInjury('2024-01-15').deadline).toBe('2026-01-15');
+  });
+
+  test('the explanation says when the earlier period applies', () => {
+    expect(floridaInjury('2022-06-01').explanation.join(' ')).toContain('earlier period applies');
+    expect(floridaInjury('2024-01-15').explanation.join(' ')).not.toContain('earlier period applies');
+  });
+});
@@ -8,14 +8,27 @@ import { Calendar } from '@/components/calendar/Calendar'
 import { AnalyticsDashboard } from '@/components/analytics/AnalyticsDashboard'
 import { Settings } from '@/components/settings/Settings'
 import { ClientManagement } from '@/components/client/ClientManagement'
+import { ClientPortal } from '@/components/client/ClientPortal'
+import { TrustAccounting } from '@/components/trust/TrustAccounting'
+import { MessageInbox } from '@/components/messages/MessageInbox'
 import { Sidebar } from '@/components/layout/Sidebar'
+import { NotificationCenter } from '@/components/layout/NotificationCenter'
 import { CompanyRegistration } from '@/components/auth/CompanyRegistration'
 import { AuthLanding } from '@/components/auth/AuthLanding'
+import { PortalLogin } from '@/components/auth/PortalLogin'
 import { DeadlineTest } from '@/components/debug/DeadlineTest'
 import { Button } from '@/components/ui/button'
 import { Sheet, SheetContent, SheetTrigger, SheetTitle } from '@/components/ui/sheet'
 import { Menu, LogOut } from 'lucide-react'
 import { blink } from '@/blink/client'
+import { loadPortalSession, portalLogout } from '@/services/portal'
+import { PORTAL_PATH, isPortalPath } from '@/lib/portal'
+import type { PortalSession } from '@/types/portal'
+import { useNotifications } from '@/hooks/use-notifications'
+
+// Clients reach the app through the portal path, often from an emailed invitation link
+const portalRoute = isPortalPath(window.location.pathname)
+const inviteToken = new URLSearchParams(window.location.search).get('invite')
 
 function AppContent() {
   const [activeTab, setActiveTab] = useState('dashboard')
@@ -26,15 +39,18 @@ function AppContent() {
   const [userProfile, setUserProfile] = useState<any>(null)
   const [profileLoading, setProfileLoading] = useState(false)
   const [needsProfileSetup, setNeedsProfileSetup] = useState(false)
+  const notifications = useNotifications(user?.id)
 
-  const loadUserProfile = useCallback(async (userId: string) => {
+  const loadUserProfile = useCallback(async (authUser: { id: string; email: string }) => {
     try {
       setProfileLoading(true)
+
       const profiles = await blink.db.userProfiles.list({
-        where: { userId: userId },
+        where: { userId: authUser.id },
         limit: 1
       })
-      
+
+
       if (profiles.length > 0) {
         setUserProfile(profiles[0])
         setNeedsProfileSetup(false)
@@ -56,7 +72,7 @@ function AppContent() {
       setLoading(state.isLoading)
       
       if (state.user && !state.isLoading) {
-        loadUserProfile(state.user.id)
+        loadUserProfile(state.user)
       } else if (!state.user) {
         setUserProfile(null)
         setNeedsProfileSetup(false)
@@ -105,7 +121,7 @@ function AppContent() {
       case 'documents':
         return <DocumentManager />
       case 'negotiator':
-        return <AINegotiator />
+        return <AINegotiator initialCaseId={selectedCaseId || undefined} />
       case 'calendar':
         return <Calendar />
       case 'analytics':
@@ -114,6 +130,10 @@ function AppContent() {
         return <Settings />
       case 'clients':
         return <ClientManagement />
+      case 'messages':
+        return <MessageInbox onCaseSelect={handleCaseSelect} />
+      case 'trust':
+        return <TrustAccounting />
       case 'debug-deadline':
         return <DeadlineTest />
       default:
@@ -145,7 +165,7 @@ function AppContent() {
         user={user} 
         onComplete={() => {
           setNeedsProfileSetup(false)
-          loadUserProfile(user.id)
+          loadUserProfile(user)
         }} 
       />
     )
@@ -157,7 +177,7 @@ function AppContent() {
       <div className="hidden lg:flex h-screen">
         {/* Desktop Sidebar */}
         <div className="w-64 bg-white border-r border-gray-200 flex-shrink-0">
-          <Sidebar activeTab={activeTab} onTabChange={handleNavigation} />
+          <Sidebar activeTab={activeTab} onTabChange={handleNavigation} notifications={notifications} />
         </div>
         
         {/* Main Content */}
@@ -176,6 +196,7 @@ function AppContent() {
         <div className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
           <h1 className="text-lg font-semibold text-gray-900">Monster Law App</h1>
           <div className="flex items-center space-x-2">
+            <NotificationCenter notifications={notifications} onNavigate={handleNavigation} />
             <Button variant="ghost" size="sm" onClick={logout}>
               <LogOut className="h-4 w-4" />
             </Button>
@@ -202,8 +223,35 @@ function AppContent() {
   )
 }
 
+// Clients sign in to the backend rather than Blink; the backend scopes everything they can read
+function PortalContent() {
+  const [session, setSession] = useState<PortalSession | null>(loadPortalSession)
+
+  const signIn = (signedIn: PortalSession) => {
+    window.history.replaceState(null, '', PORTAL_PATH)
+    setSession(signedIn)
+  }
+
+  const logout = () => {
+    if (session) portalLogout(session)
+    setSession(null)
+  }
+
+  if (!session) {
+    return <PortalLogin inviteToken={inviteToken} onSignIn={signIn} />
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-6xl mx-auto p-4 lg:p-8">
+        <ClientPortal session={session} onLogout={logout} />
+      </main>
+    </div>
+  )
+}
+
 function App() {
-  return <AppContent />
+  return portalRoute ? <PortalContent /> : <AppContent />
 }
 
 export default App
\ No newline at end of file
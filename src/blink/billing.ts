@@ -0,0 +1,210 @@
+import { blink } from './client'
+import {
+  buildInvoiceLines,
+  elapsedMinutes,
+  invoiceDueDate,
+  invoiceTotal,
+  isUnbilled,
+  nextInvoiceNumber
+} from '@/lib/billing'
+import { format } from 'date-fns'
+import type {
+  BillingSettings,
+  Invoice,
+  InvoiceStatus,
+  TimeEntry,
+  TimeEntryInput,
+  Timekeeper
+} from '@/types/billing'
+
+const timeEntries = blink.db.table('time_entries')
+const invoices = blink.db.table('invoices')
+const companyMembers = blink.db.table('company_members')
+const companies = blink.db.table('companies')
+const userProfiles = blink.db.table('user_profiles')
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+function toTimeEntry(row: any): TimeEntry {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    timekeeperId: row.timekeeperId,
+    timekeeperName: row.timekeeperName || '',
+    date: row.date,
+    minutes: Number(row.minutes) || 0,
+    activityCode: row.activityCode,
+    description: row.description || '',
+    rate: Number(row.rate) || 0,
+    timerStartedAt: row.timerStartedAt || undefined,
+    invoiceId: row.invoiceId || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+function toInvoice(row: any): Invoice {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    invoiceNumber: row.invoiceNumber,
+    issueDate: row.issueDate,
+    dueDate: row.dueDate,
+    currency: row.currency || 'USD',
+    lines: typeof row.lines === 'string' ? JSON.parse(row.lines) : row.lines || [],
+    total: Number(row.total) || 0,
+    status: row.status,
+    paidAt: row.paidAt || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+// The firm's standard rate and currency from Company Settings, and every member who can
+// record time. Without a company, the user is their own only timekeeper.
+export async function loadBillingSettings(userId: string): Promise<BillingSettings> {
+  const [membership] = await companyMembers.list({ where: { userId }, limit: 1 })
+  const company: any = membership ? await companies.get(membership.companyId) : null
+
+  const members: any[] = company ? await companyMembers.list({ where: { companyId: company.id } }) : []
+  const timekeepers: Timekeeper[] = await Promise.all(
+    (members.length > 0 ? members : [{ userId }]).map(async (member) => {
+      const [profile] = await userProfiles.list({ where: { userId: member.userId }, limit: 1 })
+      return {
+        userId: member.userId,
+        memberId: member.id,
+        name: profile?.name || profile?.email || 'Unknown User',
+        rateOverride: Number(member.billingRate) > 0 ? Number(member.billingRate) : undefined
+      }
+    })
+  )
+
+  return {
+    companyId: company?.id,
+    billingRate: Number(company?.billingRate) || 0,
+    currency: company?.currency || 'USD',
+    timekeepers
+  }
+}
+
+// A rate of 0 clears the override so the member bills at the firm's standard rate
+export async function saveRateOverride(memberId: string, rate: number): Promise<void> {
+  await companyMembers.update(memberId, { billingRate: rate > 0 ? rate : 0 })
+}
+
+export async function listTimeEntries(userId: string, caseId: string): Promise<TimeEntry[]> {
+  const rows = await timeEntries.list({
+    where: { caseId, userId },
+    orderBy: { date: 'desc' }
+  })
+  return rows.map(toTimeEntry)
+}
+
+// Creates the entry, or replaces it when an id is given. Billed entries are part of an
+// invoice and can no longer change.
+export async function saveTimeEntry(
+  userId: string,
+  caseId: string,
+  input: TimeEntryInput,
+  id?: string
+): Promise<TimeEntry> {
+  const now = new Date().toISOString()
+  const fields = { ...input, description: input.description.trim(), updatedAt: now }
+
+  if (id) {
+    const existing = toTimeEntry(await timeEntries.get(id))
+    if (existing.invoiceId) throw new Error('Billed time entries cannot be changed')
+    await timeEntries.update(id, fields)
+    return { ...existing, ...fields }
+  }
+
+  const row = { ...fields, id: newId('time'), caseId, userId, timerStartedAt: '', invoiceId: '', createdAt: now }
+  await timeEntries.create(row)
+  return toTimeEntry(row)
+}
+
+export async function deleteTimeEntry(entry: TimeEntry): Promise<void> {
+  if (entry.invoiceId) throw new Error('Billed time entries cannot be deleted')
+  await timeEntries.delete(entry.id)
+}
+
+// Starts a timer as an entry with no minutes yet
+export async function startTimer(
+  userId: string,
+  caseId: string,
+  input: Omit<TimeEntryInput, 'minutes' | 'date'>
+): Promise<TimeEntry> {
+  const now = new Date()
+  const row = {
+    ...input,
+    id: newId('time'),
+    caseId,
+    userId,
+    date: format(now, 'yyyy-MM-dd'),
+    minutes: 0,
+    timerStartedAt: now.toISOString(),
+    invoiceId: '',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  }
+  await timeEntries.create(row)
+  return toTimeEntry(row)
+}
+
+// Adds the running time to the entry; at least one minute is recorded
+export async function stopTimer(entry: TimeEntry): Promise<TimeEntry> {
+  if (!entry.timerStartedAt) return entry
+  const now = new Date()
+  const stopped = {
+    minutes: entry.minutes + Math.max(1, elapsedMinutes(entry.timerStartedAt, now)),
+    timerStartedAt: '',
+    updatedAt: now.toISOString()
+  }
+  await timeEntries.update(entry.id, stopped)
+  return { ...entry, ...stopped, timerStartedAt: undefined }
+}
+
+export async function listInvoices(userId: string, caseId: string): Promise<Invoice[]> {
+  const rows = await invoices.list({
+    where: { caseId, userId },
+    orderBy: { issueDate: 'desc' }
+  })
+  return rows.map(toInvoice)
+}
+
+// Bills every finished, unbilled entry on the case and marks them as billed
+export async function createInvoice(userId: string, caseId: string, currency: string): Promise<Invoice> {
+  const unbilled = (await listTimeEntries(userId, caseId)).filter(isUnbilled)
+  if (unbilled.length === 0) throw new Error('No unbilled time on this case')
+
+  const existing = await invoices.list({ where: { userId } })
+  const now = new Date()
+  const lines = buildInvoiceLines(unbilled)
+  const row = {
+    id: newId('invoice'),
+    caseId,
+    userId,
+    invoiceNumber: nextInvoiceNumber(existing.map(toInvoice), now),
+    issueDate: format(now, 'yyyy-MM-dd'),
+    dueDate: invoiceDueDate(now),
+    currency,
+    lines: JSON.stringify(lines),
+    total: invoiceTotal(lines),
+    status: 'unpaid' as InvoiceStatus,
+    paidAt: '',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  }
+  await invoices.create(row)
+  await Promise.all(unbilled.map(entry => timeEntries.update(entry.id, { invoiceId: row.id, updatedAt: row.updatedAt })))
+  return toInvoice(row)
+}
+
+export async function setInvoiceStatus(invoice: Invoice, status: InvoiceStatus): Promise<Invoice> {
+  const now = new Date().toISOString()
+  const updates = { status, paidAt: status === 'paid' ? now : '', updatedAt: now }
+  await invoices.update(invoice.id, updates)
+  return { ...invoice, ...updates, paidAt: updates.paidAt || undefined }
+}
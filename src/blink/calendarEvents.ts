@@ -0,0 +1,98 @@
+import { blink } from './client'
+import { getSeriesEnd, localTimeZone } from '@/lib/recurrence'
+import type { CalendarEvent, CalendarEventInput, DateRange } from '@/types/calendar'
+
+const calendarEvents = blink.db.table('calendar_events')
+
+// Blink returns camelCase keys; the calendar works with the snake_case record
+function toCalendarEvent(row: any): CalendarEvent {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || '',
+    start_date: row.startDate,
+    end_date: row.endDate || row.startDate,
+    event_type: row.eventType || 'other',
+    location: row.location || '',
+    attendees: row.attendees || '',
+    case_id: row.caseId || undefined,
+    priority: row.priority || 'medium',
+    reminder_minutes: Number(row.reminderMinutes) || 0,
+    user_id: row.userId,
+    created_at: row.createdAt,
+    updated_at: row.updatedAt,
+    recurrence_rule: row.recurrenceRule || undefined,
+    recurrence_exceptions: row.recurrenceExceptions || undefined,
+    recurrence_parent_id: row.recurrenceParentId || undefined,
+    time_zone: row.timeZone || undefined
+  }
+}
+
+function toRow(input: CalendarEventInput) {
+  const timeZone = input.time_zone || localTimeZone()
+  return {
+    title: input.title,
+    description: input.description,
+    startDate: input.start_date,
+    endDate: input.end_date || input.start_date,
+    eventType: input.event_type,
+    location: input.location,
+    attendees: input.attendees,
+    caseId: input.case_id || null,
+    priority: input.priority,
+    reminderMinutes: input.reminder_minutes,
+    recurrenceRule: input.recurrence_rule || null,
+    recurrenceExceptions: input.recurrence_exceptions || null,
+    recurrenceParentId: input.recurrence_parent_id || null,
+    timeZone,
+    seriesEndDate: getSeriesEnd({ ...input, time_zone: timeZone })
+  }
+}
+
+// Events and recurring series that overlap the range: starting before it ends and
+// ending (for series, with their last occurrence) after it starts
+export async function listCalendarEvents(userId: string, range: DateRange): Promise<CalendarEvent[]> {
+  const rows = await calendarEvents.list({
+    where: {
+      userId,
+      startDate: { lte: range.end.toISOString() },
+      seriesEndDate: { gte: range.start.toISOString() }
+    },
+    orderBy: { startDate: 'asc' }
+  })
+  return rows.map(toCalendarEvent)
+}
+
+export async function listCaseCalendarEvents(userId: string, caseId: string): Promise<CalendarEvent[]> {
+  const rows = await calendarEvents.list({
+    where: { userId, caseId },
+    orderBy: { startDate: 'asc' }
+  })
+  return rows.map(toCalendarEvent)
+}
+
+export async function createCalendarEvent(userId: string, input: CalendarEventInput): Promise<CalendarEvent> {
+  const now = new Date().toISOString()
+  const row = await calendarEvents.create({
+    id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    ...toRow(input),
+    createdAt: now,
+    updatedAt: now
+  })
+  return toCalendarEvent(row)
+}
+
+export async function updateCalendarEvent(eventId: string, input: CalendarEventInput): Promise<CalendarEvent> {
+  const row = await calendarEvents.update(eventId, {
+    ...toRow(input),
+    updatedAt: new Date().toISOString()
+  })
+  return toCalendarEvent(row)
+}
+
+// Deleting a series also removes the occurrences that were edited individually
+export async function deleteCalendarEvent(eventId: string): Promise<void> {
+  await calendarEvents.deleteMany({ where: { recurrenceParentId: eventId } })
+  await calendarEvents.delete(eventId)
+}
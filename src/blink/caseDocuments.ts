@@ -0,0 +1,32 @@
+import { blink } from './client'
+import type { Document } from '@/types/case'
+
+const documents = blink.db.table('documents')
+
+// Uploads a generated file (letter, statement) and files it with the case's documents
+export async function saveCaseDocument(
+  userId: string,
+  caseId: string,
+  fileName: string,
+  blob: Blob,
+  category: Document['category'] = 'correspondence'
+): Promise<Document> {
+  const file = new File([blob], fileName, { type: blob.type })
+  const { publicUrl } = await blink.storage.upload(
+    file,
+    `documents/${Date.now()}-${fileName}`,
+    { upsert: true }
+  )
+
+  return await documents.create({
+    id: `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    caseId,
+    userId,
+    fileName,
+    fileType: blob.type,
+    fileSize: blob.size,
+    uploadedAt: new Date().toISOString(),
+    category,
+    publicUrl
+  })
+}
@@ -0,0 +1,62 @@
+import { blink } from './client'
+import type { Case, CaseStatusChange, TrackedCaseField } from '@/types/case'
+
+const history = blink.db.table('case_status_history')
+
+const TRACKED_FIELDS: TrackedCaseField[] = ['status', 'priority']
+
+function toStatusChange(row: any): CaseStatusChange {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    actorName: row.actorName || '',
+    field: row.field || 'status',
+    fromValue: row.fromValue || '',
+    toValue: row.toValue,
+    changedAt: row.changedAt
+  }
+}
+
+// Appends an entry for each tracked field the update changes; called whenever a case is saved
+export async function recordCaseChanges(
+  actor: { id: string; name: string },
+  previous: Pick<Case, 'id' | TrackedCaseField>,
+  updates: Partial<Pick<Case, TrackedCaseField>>
+): Promise<CaseStatusChange[]> {
+  const changedAt = new Date().toISOString()
+  const changes: CaseStatusChange[] = TRACKED_FIELDS
+    .filter(field => updates[field] && updates[field] !== previous[field])
+    .map(field => ({
+      id: `status_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      caseId: previous.id,
+      userId: actor.id,
+      actorName: actor.name,
+      field,
+      fromValue: previous[field],
+      toValue: updates[field] || '',
+      changedAt
+    }))
+
+  for (const change of changes) {
+    await history.create(change)
+  }
+  return changes
+}
+
+// Every transition across the user's cases, oldest first
+export async function listStatusHistory(userId: string): Promise<CaseStatusChange[]> {
+  const rows = await history.list({
+    where: { userId },
+    orderBy: { changedAt: 'asc' }
+  })
+  return rows.map(toStatusChange)
+}
+
+export async function listCaseHistory(userId: string, caseId: string): Promise<CaseStatusChange[]> {
+  const rows = await history.list({
+    where: { userId, caseId },
+    orderBy: { changedAt: 'asc' }
+  })
+  return rows.map(toStatusChange)
+}
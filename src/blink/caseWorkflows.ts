@@ -0,0 +1,139 @@
+import { blink } from './client'
+import { toCaseDeadline } from './deadlineChains'
+import { standardWorkflow, validateWorkflow } from '@/lib/workflow'
+import { addDays, format } from 'date-fns'
+import type { Case } from '@/types/case'
+import type { CaseDeadline } from '@/types/deadline'
+import type { CaseWorkflow, ChecklistCompletion, WorkflowStage } from '@/types/workflow'
+
+const workflows = blink.db.table('case_workflows')
+const checklistItems = blink.db.table('case_checklist_items')
+const deadlines = blink.db.table('deadlines')
+const companyMembers = blink.db.table('company_members')
+
+// Stage reminders are calendared for the end of the business day, like court deadlines
+const DUE_TIME = 'T17:00'
+
+// Workflows belong to the user's company, so every member works to the same one. Users
+// without a company keep their own.
+async function firmId(userId: string): Promise<string> {
+  const [membership] = await companyMembers.list({ where: { userId }, limit: 1 })
+  return membership?.companyId || userId
+}
+
+const workflowId = (firm: string, caseType: string) => `workflow_${firm}_${caseType}`
+
+function toCaseWorkflow(row: any): CaseWorkflow {
+  return {
+    caseType: row.caseType,
+    stages: typeof row.stages === 'string' ? JSON.parse(row.stages) : row.stages || [],
+    custom: true,
+    updatedAt: row.updatedAt
+  }
+}
+
+function toChecklistCompletion(row: any): ChecklistCompletion {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    itemId: row.itemId,
+    completedBy: row.completedBy || '',
+    completedAt: row.completedAt
+  }
+}
+
+// The firm's workflow for a case type, or the standard one when it has not saved its own
+export async function getCaseWorkflow(userId: string, caseType: Case['caseType']): Promise<CaseWorkflow> {
+  const row = await workflows.get(workflowId(await firmId(userId), caseType))
+  return row ? toCaseWorkflow(row) : standardWorkflow(caseType)
+}
+
+export async function saveCaseWorkflow(
+  userId: string,
+  caseType: Case['caseType'],
+  stages: WorkflowStage[]
+): Promise<CaseWorkflow> {
+  const problem = validateWorkflow(stages)
+  if (problem) throw new Error(problem)
+
+  const firm = await firmId(userId)
+  const id = workflowId(firm, caseType)
+  const fields = { stages: JSON.stringify(stages), updatedBy: userId, updatedAt: new Date().toISOString() }
+  const existing = await workflows.get(id)
+
+  if (existing) {
+    await workflows.update(id, fields)
+  } else {
+    await workflows.create({ id, firmId: firm, caseType, ...fields })
+  }
+  return { caseType, stages, custom: true, updatedAt: fields.updatedAt }
+}
+
+// Drops the firm's workflow for the case type so the standard one applies again
+export async function resetCaseWorkflow(userId: string, caseType: Case['caseType']): Promise<CaseWorkflow> {
+  const id = workflowId(await firmId(userId), caseType)
+  if (await workflows.get(id)) await workflows.delete(id)
+  return standardWorkflow(caseType)
+}
+
+export async function listChecklistCompletions(userId: string, caseId: string): Promise<ChecklistCompletion[]> {
+  const rows = await checklistItems.list({ where: { userId, caseId } })
+  return rows.map(toChecklistCompletion)
+}
+
+// Checks a checklist item off, or back on; one row per case and item while it is checked
+export async function setChecklistItem(
+  actor: { id: string; name: string },
+  caseId: string,
+  itemId: string,
+  completed: boolean
+): Promise<ChecklistCompletion | null> {
+  const id = `checklist_${caseId}_${itemId}`
+  const existing = await checklistItems.get(id)
+
+  if (!completed) {
+    if (existing) await checklistItems.delete(id)
+    return null
+  }
+  if (existing) return toChecklistCompletion(existing)
+
+  const completion: ChecklistCompletion = {
+    id,
+    caseId,
+    userId: actor.id,
+    itemId,
+    completedBy: actor.name,
+    completedAt: new Date().toISOString()
+  }
+  await checklistItems.create(completion)
+  return completion
+}
+
+// Adds the stage's tasks to the case timeline as reminders; called when a case enters it
+export async function createStageTasks(
+  userId: string,
+  caseId: string,
+  stage: WorkflowStage
+): Promise<CaseDeadline[]> {
+  const now = new Date()
+  const created: CaseDeadline[] = []
+
+  for (const task of stage.tasks) {
+    const row = {
+      id: `deadline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      case_id: caseId,
+      user_id: userId,
+      title: task.title,
+      description: `Workflow task for the ${stage.status} stage`,
+      due_date: `${format(addDays(now, task.dueInDays), 'yyyy-MM-dd')}${DUE_TIME}`,
+      priority: task.priority,
+      type: 'reminder',
+      completed: 0,
+      created_at: now.toISOString()
+    }
+    await deadlines.create(row)
+    created.push(toCaseDeadline(row))
+  }
+  return created
+}
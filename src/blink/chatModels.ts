@@ -0,0 +1,56 @@
+import { blink } from './client'
+import type { ChatModel, ChatTurn } from '@/lib/negotiator'
+
+const blinkChatModel: ChatModel = {
+  async stream(messages, onToken, signal) {
+    const { text } = await blink.ai.streamText({ messages, maxTokens: 1200, signal }, onToken)
+    return text
+  }
+}
+
+const STUB_TOKEN_DELAY_MS = 15
+
+function defaultStubReply(messages: ChatTurn[]) {
+  const question = [...messages].reverse().find(message => message.role === 'user')
+  return `Stub model reply to: ${question?.content ?? ''}`
+}
+
+// Local model for tests and offline development: streams a fixed (or computed) reply word
+// by word, without the AI service
+export function createStubChatModel(
+  reply: string | ((messages: ChatTurn[]) => string) = defaultStubReply
+): ChatModel {
+  return {
+    async stream(messages, onToken, signal) {
+      const text = typeof reply === 'function' ? reply(messages) : reply
+      for (const token of text.match(/\S+\s*|\s+/g) || []) {
+        if (signal?.aborted) break
+        await new Promise(resolve => setTimeout(resolve, STUB_TOKEN_DELAY_MS))
+        onToken(token)
+      }
+      return text
+    }
+  }
+}
+
+const chatModels: Record<string, ChatModel> = {
+  blink: blinkChatModel,
+  stub: createStubChatModel()
+}
+
+let injectedModel: ChatModel | null = null
+
+// Replaces the model every caller gets, e.g. a stub in tests; null goes back to the configured one
+export function setChatModel(model: ChatModel | null) {
+  injectedModel = model
+}
+
+// VITE_CHAT_MODEL selects the model: blink (the default) or stub
+export function getChatModel(name: string = import.meta.env.VITE_CHAT_MODEL || 'blink'): ChatModel {
+  if (injectedModel) return injectedModel
+  const model = chatModels[name]
+  if (!model) {
+    throw new Error(`Unknown chat model: ${name}`)
+  }
+  return model
+}
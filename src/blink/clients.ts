@@ -0,0 +1,146 @@
+import { blink } from './client'
+import {
+  caseContact,
+  clientFromContact,
+  findMatchingClient,
+  missingClientDetails,
+  validateClient
+} from '@/lib/clients'
+import type { CaseClientContact, Client, ClientInput } from '@/types/client'
+
+const clients = blink.db.table('clients')
+const cases = blink.db.table('cases')
+
+export function toClient(row: any): Client {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    email: row.email || '',
+    phone: row.phone || '',
+    addressLine: row.addressLine || '',
+    city: row.city || '',
+    state: row.state || '',
+    postalCode: row.postalCode || '',
+    dateOfBirth: row.dateOfBirth || '',
+    preferredContactMethod: row.preferredContactMethod || 'email',
+    notes: row.notes || '',
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+export async function listClients(userId: string): Promise<Client[]> {
+  const rows = await clients.list({ where: { userId }, orderBy: { name: 'asc' } })
+  return rows.map(toClient)
+}
+
+export async function listClientCases(userId: string, clientId: string): Promise<any[]> {
+  return cases.list({ where: { userId, clientId }, orderBy: { createdAt: 'desc' } })
+}
+
+// Creates the client, or updates it when an id is given. Each linked case keeps a copy of
+// the contact details, so an update is copied to all of them.
+export async function saveClient(userId: string, input: ClientInput, id?: string): Promise<Client> {
+  const problem = validateClient(input)
+  if (problem) throw new Error(problem)
+
+  const now = new Date().toISOString()
+  const fields = {
+    ...input,
+    name: input.name.trim().replace(/\s+/g, ' '),
+    email: input.email.trim(),
+    phone: input.phone.trim(),
+    updatedAt: now
+  }
+
+  if (id) {
+    await clients.update(id, fields)
+    for (const linked of await listClientCases(userId, id)) {
+      await cases.update(linked.id, { ...caseContact(fields), updatedAt: now })
+    }
+    return toClient({ ...(await clients.get(id)), ...fields })
+  }
+
+  const row = {
+    ...fields,
+    id: `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    createdAt: now
+  }
+  await clients.create(row)
+  return toClient(row)
+}
+
+// Contact details edited on one of the client's cases belong to the client, and so to
+// all of their cases
+export async function updateClientContact(
+  userId: string,
+  clientId: string,
+  contact: CaseClientContact
+): Promise<Client> {
+  const client = toClient(await clients.get(clientId))
+  return saveClient(userId, {
+    ...client,
+    name: contact.clientName,
+    email: contact.clientEmail,
+    phone: contact.clientPhone,
+    dateOfBirth: contact.clientDateOfBirth || ''
+  }, clientId)
+}
+
+// Clients with cases cannot be deleted; their cases would lose their client
+export async function deleteClient(userId: string, id: string): Promise<void> {
+  const linked = await listClientCases(userId, id)
+  if (linked.length > 0) {
+    throw new Error(`This client has ${linked.length} case${linked.length === 1 ? '' : 's'}; move or delete them first`)
+  }
+  await clients.delete(id)
+}
+
+// One-time migration from clients identified by the name typed on each case. Links every
+// case without a client to the matching client record (see findMatchingClient), creating
+// one when none matches, so cases typed with the same person's details share one client.
+// Safe to run repeatedly: linked cases are left alone. Returns the number of cases linked.
+export async function linkCaseClients(userId: string): Promise<number> {
+  const known = await listClients(userId)
+  const unlinked = (await cases.list({ where: { userId }, orderBy: { createdAt: 'asc' } }))
+    .filter((row: any) => !row.clientId && (row.clientName || '').trim())
+
+  for (const row of unlinked) {
+    const contact = {
+      clientName: row.clientName,
+      clientEmail: row.clientEmail || '',
+      clientPhone: row.clientPhone || '',
+      clientDateOfBirth: row.clientDateOfBirth || undefined
+    }
+    let client = findMatchingClient(known, contact)
+
+    if (!client) {
+      client = toClient({
+        ...clientFromContact(contact),
+        id: `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId,
+        createdAt: row.createdAt || new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      })
+      await clients.create(client)
+      known.push(client)
+    } else {
+      const missing = missingClientDetails(client, contact)
+      if (Object.keys(missing).length > 0) {
+        Object.assign(client, missing)
+        await clients.update(client.id, { ...missing, updatedAt: new Date().toISOString() })
+      }
+    }
+
+    // Linking only fills in what the case is missing; what was typed on the case stays
+    await cases.update(row.id, {
+      clientId: client.id,
+      clientEmail: contact.clientEmail || client.email,
+      clientPhone: contact.clientPhone || client.phone,
+      clientDateOfBirth: contact.clientDateOfBirth || client.dateOfBirth || undefined
+    })
+  }
+  return unlinked.length
+}
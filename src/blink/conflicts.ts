@@ -0,0 +1,163 @@
+import { blink } from './client'
+import { setChecklistItem } from './caseWorkflows'
+import { searchConflicts } from '@/lib/conflicts'
+import type {
+  CaseParty,
+  ConflictCheckReport,
+  ConflictCheckResult,
+  PartyInput,
+  RegistryEntry
+} from '@/types/conflict'
+
+const parties = blink.db.table('case_parties')
+const conflictChecks = blink.db.table('conflict_checks')
+const clients = blink.db.table('clients')
+const cases = blink.db.table('cases')
+const companyMembers = blink.db.table('company_members')
+
+// The standard workflow's intake checklist item that a cleared check completes
+const CONFLICT_CHECK_ITEM = 'conflict_check'
+
+function toCaseParty(row: any): CaseParty {
+  return {
+    id: row.id,
+    userId: row.userId,
+    caseId: row.caseId,
+    role: row.role,
+    name: row.name,
+    email: row.email || '',
+    phone: row.phone || '',
+    createdAt: row.createdAt
+  }
+}
+
+const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value || [])
+
+function toConflictCheckReport(row: any): ConflictCheckReport {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    parties: parseJson(row.parties),
+    matches: parseJson(row.matches),
+    checkedAt: row.checkedAt,
+    clearedBy: row.clearedBy || '',
+    clearedAt: row.clearedAt,
+    notes: row.notes || ''
+  }
+}
+
+// Conflicts apply across the whole firm: every member of the user's company, or just the
+// user when they have none
+async function firmMemberIds(userId: string): Promise<string[]> {
+  const [membership] = await companyMembers.list({ where: { userId }, limit: 1 })
+  if (!membership) return [userId]
+  const members = await companyMembers.list({ where: { companyId: membership.companyId } })
+  return [...new Set([userId, ...members.map((member: any) => member.userId)])]
+}
+
+// Lists a table's rows recorded by any of the users
+async function listForUsers(table: typeof parties, userIds: string[]): Promise<any[]> {
+  return (await Promise.all(userIds.map(userId => table.list({ where: { userId } })))).flat()
+}
+
+// Every client and case party the firm has recorded, with the cases they appear on
+export async function listRegistry(userId: string): Promise<RegistryEntry[]> {
+  const members = await firmMemberIds(userId)
+  const [partyRows, clientRows, caseRows] = await Promise.all([
+    listForUsers(parties, members),
+    listForUsers(clients, members),
+    listForUsers(cases, members)
+  ])
+  const caseNumber = new Map(caseRows.map((row: any) => [row.id, row.caseNumber || row.id]))
+
+  const clientEntries: RegistryEntry[] = clientRows.map((row: any) => {
+    const caseIds = caseRows.filter((caseRow: any) => caseRow.clientId === row.id).map((caseRow: any) => caseRow.id)
+    return {
+      id: row.id,
+      source: 'client',
+      role: 'client',
+      name: row.name,
+      email: row.email || '',
+      phone: row.phone || '',
+      caseIds,
+      caseNumbers: caseIds.map(id => caseNumber.get(id) || id)
+    }
+  })
+  const partyEntries: RegistryEntry[] = partyRows.map((row: any) => ({
+    ...toCaseParty(row),
+    source: 'party',
+    caseIds: [row.caseId],
+    caseNumbers: [caseNumber.get(row.caseId) || row.caseId]
+  }))
+  return [...clientEntries, ...partyEntries]
+}
+
+// Searches the registry for the parties of a case being opened. The client already chosen
+// for the case is not a match for itself.
+export async function runConflictCheck(
+  userId: string,
+  searched: PartyInput[],
+  existingClientId?: string
+): Promise<ConflictCheckResult> {
+  return searchConflicts(searched, await listRegistry(userId), existingClientId ? [existingClientId] : [])
+}
+
+export async function listCaseParties(userId: string, caseId: string): Promise<CaseParty[]> {
+  const rows = await parties.list({ where: { userId, caseId }, orderBy: { createdAt: 'asc' } })
+  return rows.map(toCaseParty)
+}
+
+// Adds the case's parties to the registry; the client is already there as a client record
+export async function saveCaseParties(userId: string, caseId: string, inputs: PartyInput[]): Promise<CaseParty[]> {
+  const now = new Date().toISOString()
+  const saved: CaseParty[] = []
+
+  for (const input of inputs) {
+    if (input.role === 'client' || !input.name.trim()) continue
+    const row = {
+      id: `party_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      caseId,
+      role: input.role,
+      name: input.name.trim(),
+      email: input.email.trim(),
+      phone: input.phone.trim(),
+      createdAt: now
+    }
+    await parties.create(row)
+    saved.push(toCaseParty(row))
+  }
+  return saved
+}
+
+export async function getConflictReport(userId: string, caseId: string): Promise<ConflictCheckReport | null> {
+  const [row] = await conflictChecks.list({ where: { userId, caseId }, orderBy: { clearedAt: 'desc' }, limit: 1 })
+  return row ? toConflictCheckReport(row) : null
+}
+
+// Stores the check on the case with who cleared it, and ticks the intake checklist item
+export async function saveConflictReport(
+  actor: { id: string; name: string },
+  caseId: string,
+  result: ConflictCheckResult,
+  notes: string
+): Promise<ConflictCheckReport> {
+  const report: ConflictCheckReport = {
+    ...result,
+    id: `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    caseId,
+    userId: actor.id,
+    clearedBy: actor.name,
+    clearedAt: new Date().toISOString(),
+    notes: notes.trim()
+  }
+
+  await conflictChecks.create({
+    ...report,
+    parties: JSON.stringify(report.parties),
+    matches: JSON.stringify(report.matches)
+  })
+  await setChecklistItem(actor, caseId, CONFLICT_CHECK_ITEM, true)
+  return report
+}
@@ -0,0 +1,32 @@
+import { blink } from './client'
+import type { CourtHoliday } from '@/lib/courtRules'
+
+const courtHolidays = blink.db.table('court_holidays')
+
+export interface StoredCourtHoliday extends CourtHoliday {
+  id: string
+}
+
+// Court closures configured by the firm, on top of the federal holidays built into the calculator
+export async function listCourtHolidays(userId: string): Promise<StoredCourtHoliday[]> {
+  const rows = await courtHolidays.list({
+    where: { userId },
+    orderBy: { date: 'asc' }
+  })
+  return rows.map((row: any) => ({ id: row.id, date: row.date, name: row.name }))
+}
+
+export async function createCourtHoliday(userId: string, holiday: CourtHoliday): Promise<StoredCourtHoliday> {
+  const row = await courtHolidays.create({
+    id: `holiday_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    date: holiday.date,
+    name: holiday.name,
+    createdAt: new Date().toISOString()
+  })
+  return { id: row.id, date: row.date, name: row.name }
+}
+
+export async function deleteCourtHoliday(holidayId: string): Promise<void> {
+  await courtHolidays.delete(holidayId)
+}
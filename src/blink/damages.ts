@@ -0,0 +1,101 @@
+import { blink } from './client'
+import { assertFinancialsUnlocked } from './settlementStatements'
+import { calculateDamages, describeDamagesChanges } from '@/lib/damages'
+import type { DamagesAuditEntry, DamagesCalculation, DamagesInput, DamagesWorksheet } from '@/types/damages'
+
+const worksheets = blink.db.table('damages_worksheets')
+const damagesAudit = blink.db.table('damages_audit')
+const cases = blink.db.table('cases')
+
+// One worksheet per case
+const worksheetId = (caseId: string) => `damages_${caseId}`
+
+const parseList = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value || [])
+
+function toWorksheet(row: any): DamagesWorksheet {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    items: parseList(row.items),
+    liens: parseList(row.liens),
+    generalMethod: row.generalMethod,
+    multiplier: Number(row.multiplier) || 0,
+    perDiemRate: Number(row.perDiemRate) || 0,
+    perDiemDays: Number(row.perDiemDays) || 0,
+    comparativeFaultPercent: Number(row.comparativeFaultPercent) || 0,
+    goalPercent: Number(row.goalPercent) || 0,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+export async function getDamagesWorksheet(userId: string, caseId: string): Promise<DamagesWorksheet | null> {
+  const row: any = await worksheets.get(worksheetId(caseId))
+  if (!row || row.userId !== userId) return null
+  return toWorksheet(row)
+}
+
+export async function listDamagesAudit(userId: string, caseId: string): Promise<DamagesAuditEntry[]> {
+  const rows = await damagesAudit.list({
+    where: { caseId, userId },
+    orderBy: { createdAt: 'desc' }
+  })
+  return rows.map((row: any) => ({
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    changes: parseList(row.changes),
+    previousValue: Number(row.previousValue) || 0,
+    newValue: Number(row.newValue) || 0,
+    createdAt: row.createdAt
+  }))
+}
+
+// Saves the worksheet, records what changed, and makes its totals the case's
+// estimatedValue and settlementGoal
+export async function saveDamagesWorksheet(
+  userId: string,
+  caseId: string,
+  input: DamagesInput
+): Promise<{ worksheet: DamagesWorksheet; calculation: DamagesCalculation }> {
+  await assertFinancialsUnlocked(caseId)
+
+  const now = new Date().toISOString()
+  const previous = await getDamagesWorksheet(userId, caseId)
+  const calculation = calculateDamages(input)
+  const changes = describeDamagesChanges(previous, input)
+
+  const worksheet: DamagesWorksheet = {
+    ...input,
+    id: worksheetId(caseId),
+    caseId,
+    userId,
+    createdAt: previous?.createdAt || now,
+    updatedAt: now
+  }
+  await worksheets.upsert({
+    ...worksheet,
+    items: JSON.stringify(input.items),
+    liens: JSON.stringify(input.liens)
+  })
+
+  if (changes.length > 0) {
+    await damagesAudit.create({
+      id: `damagesaudit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      caseId,
+      userId,
+      changes: JSON.stringify(changes),
+      previousValue: previous ? calculateDamages(previous).caseValue : 0,
+      newValue: calculation.caseValue,
+      createdAt: now
+    })
+  }
+
+  await cases.update(caseId, {
+    estimatedValue: calculation.caseValue,
+    settlementGoal: calculation.settlementGoal,
+    updatedAt: now
+  })
+  return { worksheet, calculation }
+}
@@ -0,0 +1,136 @@
+import { blink } from './client'
+import { generateDeadlineChain, TRIGGER_TYPES } from '@/lib/courtRules'
+import type { ComputedDeadline, CourtHoliday } from '@/lib/courtRules'
+import type { CaseDeadline, DeadlineTrigger, DeadlineTriggerInput } from '@/types/deadline'
+
+const deadlines = blink.db.table('deadlines')
+const deadlineTriggers = blink.db.table('deadline_triggers')
+
+// Court deadlines are calendared for the end of the business day
+const DUE_TIME = 'T17:00'
+
+function toDeadlineTrigger(row: any): DeadlineTrigger {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    ruleSet: row.ruleSet,
+    triggerType: row.triggerType,
+    triggerDate: row.triggerDate,
+    serviceMethod: row.serviceMethod,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+// The deadlines table uses snake_case field names
+export function toCaseDeadline(row: any): CaseDeadline {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || '',
+    dueDate: row.due_date,
+    priority: row.priority,
+    type: row.type,
+    completed: Number(row.completed) > 0, // SQLite boolean
+    createdAt: row.created_at,
+    triggerId: row.trigger_id || undefined,
+    ruleId: row.rule_id || undefined
+  }
+}
+
+function toDeadlineFields(computed: ComputedDeadline, input: DeadlineTriggerInput) {
+  return {
+    title: computed.rule.title,
+    description: `Computed from ${TRIGGER_TYPES[input.triggerType].toLowerCase()} on ${input.triggerDate}. ${computed.explanation.join(' ')}`,
+    due_date: `${computed.dueDate}${DUE_TIME}`,
+    priority: computed.rule.priority
+  }
+}
+
+async function createChainDeadline(trigger: DeadlineTrigger, computed: ComputedDeadline) {
+  await deadlines.create({
+    id: `deadline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    case_id: trigger.caseId,
+    user_id: trigger.userId,
+    ...toDeadlineFields(computed, trigger),
+    type: 'deadline',
+    completed: 0,
+    trigger_id: trigger.id,
+    rule_id: computed.rule.id,
+    created_at: new Date().toISOString()
+  })
+}
+
+export async function listCaseDeadlines(userId: string, caseId: string): Promise<CaseDeadline[]> {
+  const rows = await deadlines.list({
+    where: { case_id: caseId, user_id: userId },
+    orderBy: { due_date: 'asc' }
+  })
+  return rows.map(toCaseDeadline)
+}
+
+export async function listDeadlineTriggers(userId: string, caseId: string): Promise<DeadlineTrigger[]> {
+  const rows = await deadlineTriggers.list({
+    where: { userId, caseId },
+    orderBy: { triggerDate: 'asc' }
+  })
+  return rows.map(toDeadlineTrigger)
+}
+
+export async function createDeadlineChain(
+  userId: string,
+  caseId: string,
+  input: DeadlineTriggerInput,
+  holidays: CourtHoliday[]
+): Promise<DeadlineTrigger> {
+  const now = new Date().toISOString()
+  const trigger = toDeadlineTrigger(await deadlineTriggers.create({
+    id: `trigger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    caseId,
+    ...input,
+    createdAt: now,
+    updatedAt: now
+  }))
+
+  for (const computed of generateDeadlineChain({ ...input, holidays })) {
+    await createChainDeadline(trigger, computed)
+  }
+  return trigger
+}
+
+// Moving the trigger (or changing how it was served) recomputes every linked deadline.
+// Completed deadlines keep their status; deadlines whose rule no longer applies are removed.
+export async function updateDeadlineChain(
+  trigger: DeadlineTrigger,
+  input: DeadlineTriggerInput,
+  holidays: CourtHoliday[]
+): Promise<DeadlineTrigger> {
+  const updated = { ...trigger, ...input, updatedAt: new Date().toISOString() }
+  await deadlineTriggers.update(trigger.id, { ...input, updatedAt: updated.updatedAt })
+
+  const linked = await deadlines.list({ where: { trigger_id: trigger.id } })
+  const chain = generateDeadlineChain({ ...input, holidays })
+
+  for (const computed of chain) {
+    const existing = linked.find((row: any) => row.rule_id === computed.rule.id)
+    if (existing) {
+      await deadlines.update(existing.id, toDeadlineFields(computed, input))
+    } else {
+      await createChainDeadline(updated, computed)
+    }
+  }
+
+  for (const row of linked) {
+    if (!chain.some(computed => computed.rule.id === row.rule_id)) {
+      await deadlines.delete(row.id)
+    }
+  }
+  return updated
+}
+
+export async function deleteDeadlineChain(triggerId: string): Promise<void> {
+  await deadlines.deleteMany({ where: { trigger_id: triggerId } })
+  await deadlineTriggers.delete(triggerId)
+}
@@ -0,0 +1,80 @@
+import { blink } from './client'
+import { STANDARD_TEMPLATE } from '@/lib/demandLetter'
+import type { DemandLetterSection, DemandLetterTemplate, Letterhead } from '@/types/demandLetter'
+
+const templates = blink.db.table('demand_letter_templates')
+const firmSettings = blink.db.table('firm_settings')
+const companyMembers = blink.db.table('company_members')
+const companies = blink.db.table('companies')
+const userProfiles = blink.db.table('user_profiles')
+
+function toTemplate(row: any): DemandLetterTemplate {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    description: row.description || '',
+    sections: typeof row.sections === 'string' ? JSON.parse(row.sections) : row.sections || [],
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+// The built-in template comes first, followed by the firm's own templates
+export async function listDemandLetterTemplates(userId: string): Promise<DemandLetterTemplate[]> {
+  const rows = await templates.list({
+    where: { userId },
+    orderBy: { name: 'asc' }
+  })
+  return [STANDARD_TEMPLATE, ...rows.map(toTemplate)]
+}
+
+export async function saveDemandLetterTemplate(
+  userId: string,
+  template: { id?: string; name: string; description: string; sections: DemandLetterSection[] }
+): Promise<DemandLetterTemplate> {
+  const now = new Date().toISOString()
+  const fields = {
+    name: template.name,
+    description: template.description,
+    sections: JSON.stringify(template.sections),
+    updatedAt: now
+  }
+
+  if (template.id) {
+    await templates.update(template.id, fields)
+    return { ...template, id: template.id, userId, updatedAt: now }
+  }
+
+  return toTemplate(await templates.create({
+    id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    ...fields,
+    createdAt: now
+  }))
+}
+
+export async function deleteDemandLetterTemplate(templateId: string): Promise<void> {
+  await templates.delete(templateId)
+}
+
+// Firm details from firm settings; the logo comes from the user's company
+export async function loadLetterhead(userId: string): Promise<Letterhead> {
+  const [firm] = await firmSettings.list({ limit: 1 })
+  const [membership] = await companyMembers.list({ where: { userId }, limit: 1 })
+  const company = membership ? await companies.get(membership.companyId) : null
+
+  return {
+    firmName: firm?.firmName || company?.companyName || '',
+    address: firm?.address || [company?.address, company?.city, company?.state, company?.zipCode].filter(Boolean).join(', '),
+    phone: firm?.phone || company?.phone || '',
+    email: firm?.email || company?.email || '',
+    website: firm?.website || company?.website || '',
+    logoUrl: company?.logoUrl || firm?.logoUrl || undefined
+  }
+}
+
+export async function loadSignatory(userId: string): Promise<{ name: string; title: string }> {
+  const [profile] = await userProfiles.list({ where: { userId }, limit: 1 })
+  return { name: profile?.name || '', title: profile?.title || '' }
+}
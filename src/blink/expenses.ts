@@ -0,0 +1,84 @@
+import { blink } from './client'
+import { saveCaseDocument } from './caseDocuments'
+import { assertFinancialsUnlocked } from './settlementStatements'
+import type { Document } from '@/types/case'
+import type { CaseExpense, ExpenseInput } from '@/types/expense'
+
+const expenses = blink.db.table('case_expenses')
+
+function toCaseExpense(row: any): CaseExpense {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    date: row.date,
+    category: row.category,
+    description: row.description,
+    vendor: row.vendor || '',
+    amount: Number(row.amount) || 0,
+    billable: Number(row.billable) > 0, // SQLite boolean
+    reimbursable: Number(row.reimbursable) > 0,
+    receiptDocumentId: row.receiptDocumentId || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+export async function listCaseExpenses(userId: string, caseId: string): Promise<CaseExpense[]> {
+  const rows = await expenses.list({
+    where: { caseId, userId },
+    orderBy: { date: 'desc' }
+  })
+  return rows.map(toCaseExpense)
+}
+
+// Every expense the user has recorded, across cases
+export async function listExpenses(userId: string): Promise<CaseExpense[]> {
+  const rows = await expenses.list({ where: { userId } })
+  return rows.map(toCaseExpense)
+}
+
+// Creates the expense, or replaces it when an id is given
+export async function saveCaseExpense(
+  userId: string,
+  caseId: string,
+  input: ExpenseInput,
+  id?: string
+): Promise<CaseExpense> {
+  await assertFinancialsUnlocked(caseId)
+
+  const now = new Date().toISOString()
+  const fields = {
+    ...input,
+    description: input.description.trim(),
+    vendor: input.vendor.trim(),
+    receiptDocumentId: input.receiptDocumentId || '',
+    updatedAt: now
+  }
+
+  if (id) {
+    await expenses.update(id, fields)
+    return toCaseExpense({ ...(await expenses.get(id)), ...fields })
+  }
+
+  const row = {
+    ...fields,
+    id: `expense_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    caseId,
+    userId,
+    createdAt: now
+  }
+  await expenses.create(row)
+  return toCaseExpense(row)
+}
+
+export async function deleteCaseExpense(id: string): Promise<void> {
+  const expense: any = await expenses.get(id)
+  if (expense) await assertFinancialsUnlocked(expense.caseId)
+  await expenses.delete(id)
+}
+
+// Receipts are filed with the case documents like any other upload
+export function uploadReceipt(userId: string, caseId: string, file: File): Promise<Document> {
+  return saveCaseDocument(userId, caseId, file.name, file, 'receipt')
+}
@@ -0,0 +1,86 @@
+import { blink } from './client'
+import { CLOSE_BLOCKED_BY_LIENS, RESOLVED_LIEN_STATUSES } from '@/lib/liens'
+import type { CaseLien, LienInput } from '@/types/lien'
+
+const liens = blink.db.table('case_liens')
+
+const parseList = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value || [])
+
+function toCaseLien(row: any): CaseLien {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    type: row.type,
+    holder: row.holder,
+    assertedAmount: Number(row.assertedAmount) || 0,
+    reductionAmount: Number(row.reductionAmount) || 0,
+    status: row.status,
+    documentIds: parseList(row.documentIds),
+    notes: row.notes || '',
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+export async function listCaseLiens(userId: string, caseId: string): Promise<CaseLien[]> {
+  const rows = await liens.list({
+    where: { caseId, userId },
+    orderBy: { createdAt: 'asc' }
+  })
+  return rows.map(toCaseLien)
+}
+
+// Creates the lien, or replaces it when an id is given
+export async function saveCaseLien(
+  userId: string,
+  caseId: string,
+  input: LienInput,
+  id?: string
+): Promise<CaseLien> {
+  const now = new Date().toISOString()
+  const fields = {
+    ...input,
+    holder: input.holder.trim(),
+    documentIds: JSON.stringify(input.documentIds),
+    updatedAt: now
+  }
+
+  if (id) {
+    await liens.update(id, fields)
+    return toCaseLien({ ...(await liens.get(id)), ...fields })
+  }
+
+  const row = {
+    ...fields,
+    id: `lien_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    caseId,
+    userId,
+    createdAt: now
+  }
+  await liens.create(row)
+  return toCaseLien(row)
+}
+
+export async function deleteCaseLien(id: string): Promise<void> {
+  await liens.delete(id)
+}
+
+// Unresolved lien count per case, for cases that have any
+export async function countUnresolvedLiens(userId: string): Promise<Record<string, number>> {
+  const rows = await liens.list({ where: { userId } })
+  const counts: Record<string, number> = {}
+  for (const row of rows as any[]) {
+    if (RESOLVED_LIEN_STATUSES.includes(row.status)) continue
+    counts[row.caseId] = (counts[row.caseId] || 0) + 1
+  }
+  return counts
+}
+
+// Outstanding liens must be settled before the case can be closed
+export async function assertCaseCanClose(userId: string, caseId: string): Promise<void> {
+  const caseLiens = await listCaseLiens(userId, caseId)
+  if (caseLiens.some(lien => !RESOLVED_LIEN_STATUSES.includes(lien.status))) {
+    throw new Error(CLOSE_BLOCKED_BY_LIENS)
+  }
+}
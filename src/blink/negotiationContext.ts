@@ -0,0 +1,22 @@
+import { blink } from './client'
+import type { Case, Document } from '@/types/case'
+
+const cases = blink.db.table('cases')
+const documents = blink.db.table('documents')
+
+export interface NegotiationContext {
+  caseData: Case
+  documents: Document[]
+}
+
+// The case and its documents, which ground the AI negotiator's answers
+export async function loadNegotiationContext(userId: string, caseId: string): Promise<NegotiationContext | null> {
+  const caseData = await cases.get(caseId)
+  if (!caseData || caseData.userId !== userId) return null
+
+  const caseDocuments = await documents.list({
+    where: { caseId, userId },
+    orderBy: { uploadedAt: 'desc' }
+  })
+  return { caseData, documents: caseDocuments }
+}
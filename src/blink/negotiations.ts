@@ -0,0 +1,121 @@
+import { blink } from './client'
+import { assertFinancialsUnlocked } from './settlementStatements'
+import { summarizeNegotiation } from '@/lib/negotiationLedger'
+import type { Case, Negotiation, NegotiationMessage } from '@/types/case'
+
+const negotiations = blink.db.table('negotiations')
+const negotiationMessages = blink.db.table('negotiation_messages')
+const cases = blink.db.table('cases')
+
+export type NegotiationMessageInput = Omit<NegotiationMessage, 'id' | 'timestamp'> & { timestamp?: string }
+
+// One negotiation per case
+const negotiationId = (caseId: string) => `negotiation_${caseId}`
+const channelFor = (caseId: string) => `negotiation-${caseId}`
+
+function toNegotiationMessage(row: any): NegotiationMessage {
+  return {
+    id: row.id,
+    type: row.type,
+    amount: row.amount === null || row.amount === undefined || row.amount === '' ? undefined : Number(row.amount),
+    message: row.message || '',
+    sender: row.sender,
+    timestamp: row.timestamp,
+    aiGenerated: Number(row.aiGenerated) > 0 // SQLite boolean
+  }
+}
+
+export async function getNegotiation(userId: string, caseId: string): Promise<Negotiation | null> {
+  const row: any = await negotiations.get(negotiationId(caseId))
+  if (!row || row.userId !== userId) return null
+
+  const messages = await negotiationMessages.list({
+    where: { negotiationId: row.id },
+    orderBy: { timestamp: 'asc' }
+  })
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    insuranceCompany: row.insuranceCompany || '',
+    currentOffer: Number(row.currentOffer) || 0,
+    demandAmount: Number(row.demandAmount) || 0,
+    status: row.status,
+    messages: messages.map(toNegotiationMessage),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    userId: row.userId
+  }
+}
+
+// Records a demand, offer or reply in the case's ledger. The negotiation totals are
+// replayed from the full ledger and the insurer's latest offer becomes case.currentOffer.
+export async function recordNegotiationMessage(
+  userId: string,
+  caseData: Pick<Case, 'id' | 'insuranceCompany' | 'currentOffer'>,
+  input: NegotiationMessageInput
+): Promise<Negotiation> {
+  await assertFinancialsUnlocked(caseData.id)
+
+  const now = new Date().toISOString()
+  const id = negotiationId(caseData.id)
+
+  if (!await negotiations.get(id)) {
+    await negotiations.create({
+      id,
+      caseId: caseData.id,
+      userId,
+      insuranceCompany: caseData.insuranceCompany || '',
+      currentOffer: 0,
+      demandAmount: 0,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now
+    })
+  }
+
+  await negotiationMessages.create({
+    id: `negmsg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    negotiationId: id,
+    caseId: caseData.id,
+    userId,
+    type: input.type,
+    amount: input.amount ?? null,
+    message: input.message,
+    sender: input.sender,
+    aiGenerated: input.aiGenerated ? 1 : 0,
+    timestamp: input.timestamp || now
+  })
+
+  const rows = await negotiationMessages.list({ where: { negotiationId: id } })
+  const summary = summarizeNegotiation(rows.map(toNegotiationMessage))
+  await negotiations.update(id, { ...summary, updatedAt: now })
+
+  if (summary.currentOffer && summary.currentOffer !== caseData.currentOffer) {
+    await cases.update(caseData.id, { currentOffer: summary.currentOffer, updatedAt: now })
+  }
+
+  const negotiation = await getNegotiation(userId, caseData.id)
+  if (!negotiation) {
+    throw new Error(`Negotiation for case ${caseData.id} not found`)
+  }
+
+  try {
+    await blink.realtime.publish(channelFor(caseData.id), 'negotiation', negotiation)
+  } catch (error) {
+    // Stored either way; other views pick it up when they reload
+    console.error('Error publishing negotiation update:', error)
+  }
+  return negotiation
+}
+
+// Keeps every open view of a case's ledger (AI Negotiator, case detail) in sync
+export function subscribeToNegotiation(
+  caseId: string,
+  onChange: (negotiation: Negotiation) => void
+): Promise<() => void> {
+  return blink.realtime.subscribe(channelFor(caseId), (message) => {
+    if (message.type === 'negotiation') {
+      onChange(message.data as Negotiation)
+    }
+  })
+}
@@ -0,0 +1,169 @@
+import { blink } from './client'
+import { getNotificationSettings } from './preferences'
+import type {
+  AppNotification,
+  NotificationCategory,
+  NotificationInput,
+  NotificationSettings
+} from '@/types/notification'
+
+const notifications = blink.db.table('notifications')
+const deadlines = blink.db.table('deadlines')
+
+// Settings toggle that silences each category; null categories are always delivered
+const CATEGORY_SETTINGS: Record<NotificationCategory, keyof NotificationSettings | null> = {
+  case_update: 'case_updates',
+  settlement: 'settlement_alerts',
+  client_message: 'client_messages',
+  deadline_reminder: 'deadline_reminders',
+  document_analysis: 'case_updates',
+  event_reminder: null,
+  escalation: null
+}
+
+// Deadlines due within this window get an in-app reminder
+const DEADLINE_REMINDER_HOURS = 24
+
+const channelFor = (userId: string) => `notifications-${userId}`
+
+function toAppNotification(row: any): AppNotification {
+  return {
+    id: row.id,
+    userId: row.userId,
+    category: row.category,
+    title: row.title,
+    message: row.message || '',
+    caseId: row.caseId || undefined,
+    readAt: row.readAt || undefined,
+    createdAt: row.createdAt
+  }
+}
+
+export async function listNotifications(userId: string, limit = 50): Promise<AppNotification[]> {
+  const rows = await notifications.list({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    limit
+  })
+  return rows.map(toAppNotification)
+}
+
+// Only the signed-in user's address is known here, so notifications for other users
+// are delivered in-app only
+async function emailNotification(userId: string, notification: AppNotification) {
+  try {
+    const user = await blink.auth.me()
+    if (user.id !== userId || !user.email) return
+    await blink.notifications.email({
+      to: user.email,
+      subject: notification.title,
+      text: notification.message || notification.title
+    })
+  } catch (error) {
+    console.error('Error emailing notification:', error)
+  }
+}
+
+// Stores a notification for userId and pushes it to their open sessions.
+// Returns null when the user turned the category off in Settings.
+// sourceKey identifies what the notification is about so it is only sent once.
+export async function notify(
+  userId: string,
+  input: NotificationInput,
+  sourceKey?: string
+): Promise<AppNotification | null> {
+  const settings = await getNotificationSettings(userId)
+  const toggle = CATEGORY_SETTINGS[input.category]
+  if (toggle && !settings[toggle]) return null
+
+  if (sourceKey && await notifications.exists({ where: { userId, sourceKey } })) {
+    return null
+  }
+
+  const notification = toAppNotification(await notifications.create({
+    id: `notification_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    category: input.category,
+    title: input.title,
+    message: input.message,
+    caseId: input.caseId || '',
+    sourceKey: sourceKey || '',
+    createdAt: new Date().toISOString()
+  }))
+
+  try {
+    await blink.realtime.publish(channelFor(userId), 'notification', notification)
+  } catch (error) {
+    // The notification is stored; open sessions pick it up on their next load
+    console.error('Error publishing notification:', error)
+  }
+
+  if (settings.email_notifications) {
+    await emailNotification(userId, notification)
+  }
+  return notification
+}
+
+const unreadFor = (userId: string) => ({ AND: [{ userId }, { OR: [{ readAt: { is: null } }, { readAt: '' }] }] })
+
+// Counted separately from the loaded page, which holds only the latest notifications
+export function countUnreadNotifications(userId: string): Promise<number> {
+  return notifications.count({ where: unreadFor(userId) })
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  await notifications.update(notificationId, { readAt: new Date().toISOString() })
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  const unread = await notifications.list({ where: unreadFor(userId) })
+  const readAt = new Date().toISOString()
+  if (unread.length > 0) {
+    await notifications.updateMany(unread.map((row: any) => ({ id: row.id, readAt })))
+  }
+}
+
+export function subscribeToNotifications(
+  userId: string,
+  onNotification: (notification: AppNotification) => void
+): Promise<() => void> {
+  return blink.realtime.subscribe(channelFor(userId), (message) => {
+    if (message.type === 'notification') {
+      onNotification(message.data as AppNotification)
+    }
+  })
+}
+
+// Creates reminders for open deadlines coming due soon; each deadline/due date is reminded once
+export async function syncDeadlineReminders(userId: string): Promise<void> {
+  const now = Date.now()
+  const horizon = now + DEADLINE_REMINDER_HOURS * 60 * 60 * 1000
+  const rows = await deadlines.list({ where: { user_id: userId, completed: 0 } })
+
+  for (const row of rows) {
+    const due = new Date(row.due_date).getTime()
+    if (isNaN(due) || due < now || due > horizon) continue
+
+    await notify(userId, {
+      category: 'deadline_reminder',
+      title: `Deadline due soon: ${row.title}`,
+      message: `"${row.title}" is due ${new Date(row.due_date).toLocaleString()}.`,
+      caseId: row.case_id
+    }, `deadline:${row.id}:${row.due_date}`)
+  }
+}
+
+// Settling a case is a settlement alert rather than a plain case update
+export async function notifyCaseStatusChange(
+  userId: string,
+  caseData: { id: string; caseNumber: string; clientName: string; status: string },
+  previousStatus: string
+): Promise<void> {
+  const settled = caseData.status === 'settled'
+  await notify(userId, {
+    category: settled ? 'settlement' : 'case_update',
+    title: settled ? `Case settled: ${caseData.caseNumber}` : `Case ${caseData.caseNumber} is now ${caseData.status}`,
+    message: `${caseData.clientName} moved from ${previousStatus} to ${caseData.status}.`,
+    caseId: caseData.id
+  })
+}
@@ -0,0 +1,92 @@
+import { blink } from './client'
+import type { NotificationSettings } from '@/types/notification'
+import type { AppearanceSettings, SecuritySettings, UserPreferences } from '@/types/preferences'
+
+const userPreferences = blink.db.table('user_preferences')
+
+export const SESSION_TIMEOUT_OPTIONS = ['15', '30', '60', '120', '480']
+export const PASSWORD_EXPIRY_OPTIONS = ['30', '60', '90', '180', '365']
+export const THEME_MODES = ['light', 'dark', 'system']
+export const ACCENT_COLORS = ['#1e40af', '#dc2626', '#059669', '#7c3aed', '#ea580c']
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  email_notifications: true,
+  push_notifications: true,
+  case_updates: true,
+  deadline_reminders: true,
+  client_messages: true,
+  settlement_alerts: true
+}
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  two_factor_enabled: false,
+  session_timeout: '30',
+  password_expiry: '90'
+}
+
+export const DEFAULT_APPEARANCE_SETTINGS: AppearanceSettings = {
+  mode: 'light',
+  accent_color: '#1e40af',
+  sidebar_collapsed: false
+}
+
+// Allowed values per setting; anything else stored falls back to the default
+const ALLOWED_VALUES: Record<string, string[]> = {
+  session_timeout: SESSION_TIMEOUT_OPTIONS,
+  password_expiry: PASSWORD_EXPIRY_OPTIONS,
+  mode: THEME_MODES,
+  accent_color: ACCENT_COLORS
+}
+
+// One preferences row per user, keyed by user id
+const preferencesId = (userId: string) => `prefs_${userId}`
+
+// Keeps the known keys of a stored JSON section whose values have the right type
+function parseSection<T extends object>(json: string | undefined, defaults: T): T {
+  let stored: Record<string, unknown> = {}
+  try {
+    stored = JSON.parse(json || '{}')
+  } catch (error) {
+    console.error('Invalid stored preferences:', error)
+  }
+
+  const section: Record<string, unknown> = { ...(defaults as Record<string, unknown>) }
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const value = stored[key]
+    const allowed = ALLOWED_VALUES[key]
+    if (typeof value === typeof fallback && (!allowed || allowed.includes(value as string))) {
+      section[key] = value
+    }
+  }
+  return section as T
+}
+
+export async function getUserPreferences(userId: string): Promise<UserPreferences> {
+  const row: any = await userPreferences.get(preferencesId(userId))
+  return {
+    notifications: parseSection(row?.notifications, DEFAULT_NOTIFICATION_SETTINGS),
+    security: parseSection(row?.security, DEFAULT_SECURITY_SETTINGS),
+    appearance: parseSection(row?.appearance, DEFAULT_APPEARANCE_SETTINGS)
+  }
+}
+
+// Saves the given sections; sections left out keep their stored values
+export async function saveUserPreferences(userId: string, preferences: Partial<UserPreferences>): Promise<void> {
+  const merged = { ...await getUserPreferences(userId), ...preferences }
+  await userPreferences.upsert({
+    id: preferencesId(userId),
+    userId,
+    notifications: JSON.stringify(merged.notifications),
+    security: JSON.stringify(merged.security),
+    appearance: JSON.stringify(merged.appearance),
+    updatedAt: new Date().toISOString()
+  })
+}
+
+export async function getNotificationSettings(userId: string): Promise<NotificationSettings> {
+  return (await getUserPreferences(userId)).notifications
+}
+
+export async function saveNotificationSettings(userId: string, settings: NotificationSettings): Promise<void> {
+  await saveUserPreferences(userId, { notifications: settings })
+}
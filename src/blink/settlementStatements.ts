@@ -0,0 +1,125 @@
+import { blink } from './client'
+import { approvalProblem, calculateDistribution } from '@/lib/settlementStatement'
+import type {
+  SettlementApproval,
+  SettlementStatement,
+  SettlementStatementInput
+} from '@/types/settlement'
+
+const statements = blink.db.table('settlement_statements')
+const cases = blink.db.table('cases')
+
+// One statement per case
+const statementId = (caseId: string) => `settlement_${caseId}`
+
+const parseList = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value || [])
+
+const toApproval = (name: any, approvedAt: any): SettlementApproval | undefined =>
+  approvedAt ? { name: name || '', approvedAt } : undefined
+
+function toSettlementStatement(row: any): SettlementStatement {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    userId: row.userId,
+    grossSettlement: Number(row.grossSettlement) || 0,
+    feeStage: row.feeStage,
+    feePercent: Number(row.feePercent) || 0,
+    costs: parseList(row.costs),
+    liens: parseList(row.liens),
+    attorneyApproval: toApproval(row.attorneyApprovedBy, row.attorneyApprovedAt),
+    clientApproval: toApproval(row.clientApprovedBy, row.clientApprovedAt),
+    lockedAt: row.lockedAt || undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+export const FINANCIALS_LOCKED = 'Case financials are locked by an approved settlement statement'
+
+// Guards every write to a case's money figures once the closing statement is final
+export async function assertFinancialsUnlocked(caseId: string): Promise<void> {
+  const caseData: any = await cases.get(caseId)
+  if (caseData && Number(caseData.financialsLocked) > 0) {
+    throw new Error(FINANCIALS_LOCKED)
+  }
+}
+
+export async function getSettlementStatement(caseId: string): Promise<SettlementStatement | null> {
+  const row = await statements.get(statementId(caseId))
+  return row ? toSettlementStatement(row) : null
+}
+
+export async function listSettlementStatements(userId: string): Promise<SettlementStatement[]> {
+  const rows = await statements.list({ where: { userId } })
+  return rows.map(toSettlementStatement)
+}
+
+// Any edit withdraws earlier approvals, since they were given for different figures
+export async function saveSettlementStatement(
+  userId: string,
+  caseId: string,
+  input: SettlementStatementInput
+): Promise<SettlementStatement> {
+  const existing = await getSettlementStatement(caseId)
+  if (existing?.lockedAt) throw new Error(FINANCIALS_LOCKED)
+
+  const now = new Date().toISOString()
+  const row = {
+    id: statementId(caseId),
+    caseId,
+    userId: existing?.userId || userId,
+    grossSettlement: input.grossSettlement,
+    feeStage: input.feeStage,
+    feePercent: input.feePercent,
+    costs: JSON.stringify(input.costs),
+    liens: JSON.stringify(input.liens),
+    attorneyApprovedBy: '',
+    attorneyApprovedAt: '',
+    clientApprovedBy: '',
+    clientApprovedAt: '',
+    lockedAt: '',
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  }
+  await statements.upsert(row)
+  return toSettlementStatement(row)
+}
+
+// Records the attorney's approval; only the client can give theirs, from the client portal.
+// When both sides have approved, the statement is locked and the settlement becomes the
+// case's final figures.
+export async function approveSettlementStatement(caseId: string, name: string): Promise<SettlementStatement> {
+  const statement = await getSettlementStatement(caseId)
+  if (!statement) throw new Error('No settlement statement to approve')
+  if (statement.lockedAt) throw new Error(FINANCIALS_LOCKED)
+
+  const distribution = calculateDistribution(statement)
+  const problem = approvalProblem(distribution)
+  if (problem) throw new Error(problem)
+
+  const now = new Date().toISOString()
+  const approved: SettlementStatement = {
+    ...statement,
+    attorneyApproval: { name, approvedAt: now },
+    updatedAt: now
+  }
+  const bothApproved = Boolean(approved.clientApproval)
+  if (bothApproved) approved.lockedAt = now
+
+  await statements.update(statement.id, {
+    attorneyApprovedBy: name,
+    attorneyApprovedAt: now,
+    lockedAt: approved.lockedAt || '',
+    updatedAt: now
+  })
+
+  if (bothApproved) {
+    await cases.update(caseId, {
+      settlementAmount: distribution.grossSettlement,
+      financialsLocked: true,
+      updatedAt: now
+    })
+  }
+  return approved
+}
@@ -0,0 +1,227 @@
+import { blink } from './client'
+import {
+  TRUST_OVERDRAFT,
+  TRUST_RECONCILED,
+  TRUST_UNBALANCED,
+  findOverdrawnCase,
+  isReconciledDate,
+  matchBankLines,
+  monthEnd,
+  parseBankStatementCsv,
+  reconcileTrustAccount
+} from '@/lib/trust'
+import type { BankStatement, TrustCase, TrustTransaction, TrustTransactionInput } from '@/types/trust'
+
+const cases = blink.db.table('cases')
+const transactions = blink.db.table('trust_transactions')
+const statements = blink.db.table('trust_bank_statements')
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+function toTrustTransaction(row: any): TrustTransaction {
+  return {
+    id: row.id,
+    userId: row.userId,
+    caseId: row.caseId,
+    clientName: row.clientName || '',
+    type: row.type,
+    date: row.date,
+    amount: Number(row.amount) || 0,
+    counterparty: row.counterparty || '',
+    reference: row.reference || '',
+    description: row.description || '',
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+function toBankStatement(row: any): BankStatement {
+  return {
+    id: row.id,
+    userId: row.userId,
+    month: row.month,
+    endingBalance: Number(row.endingBalance) || 0,
+    lines: typeof row.lines === 'string' ? JSON.parse(row.lines) : row.lines || [],
+    importedAt: row.importedAt,
+    reconciledAt: row.reconciledAt || undefined,
+    journalBalance: row.reconciledAt ? Number(row.journalBalance) || 0 : undefined
+  }
+}
+
+// Ledger writes for a user run one at a time: the overdraft check and the write it allows
+// must not interleave with another save's, or two disbursements could both pass against the
+// same balance. Mirrors withLedgerLock in backend/routes/trust.js.
+const ledgerQueues = new Map<string, Promise<unknown>>()
+
+function withLedgerLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const run = (ledgerQueues.get(userId) || Promise.resolve()).then(task)
+  const settled = run.catch(() => {})
+  ledgerQueues.set(userId, settled)
+  settled.then(() => {
+    if (ledgerQueues.get(userId) === settled) ledgerQueues.delete(userId)
+  })
+  return run
+}
+
+// Cases a trust ledger can be opened for
+export async function listTrustCases(userId: string): Promise<TrustCase[]> {
+  const rows = await cases.list({
+    where: { userId },
+    orderBy: { createdAt: 'desc' }
+  })
+  return rows.map((row: any) => ({ id: row.id, caseNumber: row.caseNumber, clientName: row.clientName }))
+}
+
+// The whole trust journal, oldest first
+export async function listTrustTransactions(userId: string): Promise<TrustTransaction[]> {
+  const rows = await transactions.list({
+    where: { userId },
+    orderBy: { date: 'asc' }
+  })
+  return rows.map(toTrustTransaction)
+}
+
+// Records a deposit or disbursement, or replaces one when an id is given. Refused when it
+// would leave any client ledger below zero at any point, or touches a reconciled month.
+export function saveTrustTransaction(
+  userId: string,
+  input: TrustTransactionInput,
+  id?: string
+): Promise<TrustTransaction> {
+  const now = new Date().toISOString()
+  const fields = {
+    ...input,
+    counterparty: input.counterparty.trim(),
+    reference: input.reference.trim(),
+    description: input.description.trim(),
+    updatedAt: now
+  }
+
+  return withLedgerLock(userId, async () => {
+    const [journal, bankStatements] = await Promise.all([listTrustTransactions(userId), listBankStatements(userId)])
+    const existing = id ? journal.find(transaction => transaction.id === id) : undefined
+    const saved: TrustTransaction = existing
+      ? { ...existing, ...fields }
+      : { ...fields, id: newId('trust'), userId, createdAt: now }
+
+    if (isReconciledDate(saved.date, bankStatements) || (existing && isReconciledDate(existing.date, bankStatements))) {
+      throw new Error(TRUST_RECONCILED)
+    }
+    if (findOverdrawnCase([...journal.filter(transaction => transaction.id !== saved.id), saved])) {
+      throw new Error(TRUST_OVERDRAFT)
+    }
+
+    if (existing) {
+      await transactions.update(saved.id, fields)
+    } else {
+      await transactions.create(saved)
+    }
+    return saved
+  })
+}
+
+// Removes a transaction and any bank statement match pointing at it
+export function deleteTrustTransaction(userId: string, id: string): Promise<void> {
+  return withLedgerLock(userId, async () => {
+    const [journal, bankStatements] = await Promise.all([listTrustTransactions(userId), listBankStatements(userId)])
+    const existing = journal.find(transaction => transaction.id === id)
+    if (existing && isReconciledDate(existing.date, bankStatements)) {
+      throw new Error(TRUST_RECONCILED)
+    }
+    if (findOverdrawnCase(journal.filter(transaction => transaction.id !== id))) {
+      throw new Error(TRUST_OVERDRAFT)
+    }
+
+    await transactions.delete(id)
+    for (const statement of bankStatements) {
+      if (statement.lines.some(line => line.matchedTransactionId === id)) {
+        await saveStatementLines(statement, statement.lines.map(line =>
+          line.matchedTransactionId === id ? { ...line, matchedTransactionId: undefined } : line
+        ))
+      }
+    }
+  })
+}
+
+export async function listBankStatements(userId: string): Promise<BankStatement[]> {
+  const rows = await statements.list({
+    where: { userId },
+    orderBy: { month: 'desc' }
+  })
+  return rows.map(toBankStatement)
+}
+
+async function saveStatementLines(statement: BankStatement, lines: BankStatement['lines']): Promise<BankStatement> {
+  await statements.update(statement.id, { lines: JSON.stringify(lines) })
+  return { ...statement, lines }
+}
+
+// Imports a month's bank statement CSV, replacing any earlier import for that month, and
+// matches its lines against the journal
+export async function importBankStatement(
+  userId: string,
+  month: string,
+  endingBalance: number,
+  csv: string
+): Promise<BankStatement> {
+  const parsed = parseBankStatementCsv(csv)
+  const [journal, existing] = await Promise.all([listTrustTransactions(userId), listBankStatements(userId)])
+  if (isReconciledDate(monthEnd(month), existing)) throw new Error(TRUST_RECONCILED)
+  const otherMonths = existing.filter(statement => statement.month !== month)
+  const matchedElsewhere = new Set(
+    otherMonths.flatMap(statement => statement.lines.map(line => line.matchedTransactionId || ''))
+  )
+
+  const lines = matchBankLines(
+    parsed.map(line => ({ ...line, id: newId('line') })),
+    journal,
+    matchedElsewhere
+  )
+  const now = new Date().toISOString()
+  const replaced = existing.find(statement => statement.month === month)
+  const row = {
+    id: replaced?.id || newId('statement'),
+    userId,
+    month,
+    endingBalance,
+    lines: JSON.stringify(lines),
+    importedAt: now
+  }
+
+  if (replaced) {
+    await statements.update(row.id, row)
+  } else {
+    await statements.create(row)
+  }
+  return toBankStatement(row)
+}
+
+// Manually pairs a bank line with a journal transaction, or unpairs it
+export async function setBankLineMatch(
+  statement: BankStatement,
+  lineId: string,
+  transactionId?: string
+): Promise<BankStatement> {
+  if (statement.reconciledAt) throw new Error(TRUST_RECONCILED)
+  return saveStatementLines(statement, statement.lines.map(line =>
+    line.id === lineId ? { ...line, matchedTransactionId: transactionId } : line
+  ))
+}
+
+// Signs off a balanced month: records the journal balance later months carry forward from,
+// and makes the month's transactions final
+export function reconcileMonth(userId: string, month: string, cases: TrustCase[]): Promise<BankStatement> {
+  return withLedgerLock(userId, async () => {
+    const [journal, bankStatements] = await Promise.all([listTrustTransactions(userId), listBankStatements(userId)])
+    const statement = bankStatements.find(candidate => candidate.month === month)
+    if (!statement) throw new Error('Import the bank statement for the month first')
+    if (statement.reconciledAt) throw new Error(TRUST_RECONCILED)
+
+    const report = reconcileTrustAccount(month, bankStatements, journal, cases)
+    if (!report.balanced) throw new Error(TRUST_UNBALANCED)
+
+    const reconciledAt = new Date().toISOString()
+    await statements.update(statement.id, { reconciledAt, journalBalance: report.journalBalance })
+    return { ...statement, reconciledAt, journalBalance: report.journalBalance }
+  })
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
@@ -21,127 +21,78 @@ import {
   AreaChart
 } from 'recharts'
 import { 
-  TrendingUp, 
-  TrendingDown, 
   DollarSign, 
   Clock, 
-  Users, 
   FileText,
   Target,
-  Award,
-  Calendar,
-  AlertTriangle
+  Calendar
 } from 'lucide-react'
 
 import { blink } from '@/blink/client'
+import { listExpenses } from '@/blink/expenses'
+import { listStatusHistory } from '@/blink/caseStatusHistory'
+import { listSettlementStatements } from '@/blink/settlementStatements'
+import { ANALYTICS_RANGES, buildCaseAnalytics } from '@/lib/analytics'
+import { EXPENSE_CATEGORIES, summarizeExpenses } from '@/lib/expenses'
+import type { AnalyticsRange, CaseAnalytics } from '@/types/analytics'
+import type { ExpenseCategory, ExpenseTotals } from '@/types/expense'
 
-interface AnalyticsData {
-  totalCases: number
-  activeCases: number
-  settledCases: number
-  totalSettlements: number
-  avgSettlementTime: number
-  successRate: number
-  monthlyData: Array<{
-    month: string
-    cases: number
-    settlements: number
-    revenue: number
-  }>
-  casesByType: Array<{
-    type: string
-    count: number
-    value: number
-  }>
-  performanceMetrics: {
-    negotiationSuccess: number
-    clientSatisfaction: number
-    documentProcessing: number
-    responseTime: number
-  }
-}
+type AnalyticsData = CaseAnalytics & { expenses: ExpenseTotals }
 
 const COLORS = ['#1e40af', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#f97316']
 
 export function AnalyticsDashboard() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null)
   const [loading, setLoading] = useState(true)
-  const [timeRange, setTimeRange] = useState('6months')
+  const [timeRange, setTimeRange] = useState<AnalyticsRange>('6months')
 
-  const loadAnalytics = async () => {
+  const loadAnalytics = useCallback(async () => {
     try {
-      // Load cases data
-      const cases = await blink.db.cases.list()
-      const negotiations = await blink.db.negotiations.list()
-      
-      // Calculate analytics
-      const totalCases = cases.length
-      const activeCases = cases.filter(c => c.status === 'active').length
-      const settledCases = cases.filter(c => c.status === 'settled').length
-      
-      const settlements = cases
-        .filter(c => c.settlement_amount && Number(c.settlement_amount) > 0)
-        .map(c => Number(c.settlement_amount))
-      
-      const totalSettlements = settlements.reduce((sum, amount) => sum + amount, 0)
-      const avgSettlementTime = 45 // Mock data - would calculate from actual case durations
-      const successRate = settledCases > 0 ? (settledCases / totalCases) * 100 : 0
-
-      // Generate monthly data (mock for demo)
-      const monthlyData = [
-        { month: 'Jan', cases: 12, settlements: 8, revenue: 450000 },
-        { month: 'Feb', cases: 15, settlements: 10, revenue: 520000 },
-        { month: 'Mar', cases: 18, settlements: 12, revenue: 680000 },
-        { month: 'Apr', cases: 14, settlements: 9, revenue: 420000 },
-        { month: 'May', cases: 20, settlements: 15, revenue: 750000 },
-        { month: 'Jun', cases: 16, settlements: 11, revenue: 580000 }
-      ]
-
-      // Case types analysis
-      const typeCount: { [key: string]: { count: number, value: number } } = {}
-      cases.forEach(case_ => {
-        const type = case_.case_type || 'Other'
-        if (!typeCount[type]) {
-          typeCount[type] = { count: 0, value: 0 }
-        }
-        typeCount[type].count++
-        typeCount[type].value += Number(case_.settlement_amount || 0)
-      })
+      const user = await blink.auth.me()
+      const [cases, history, statements, negotiations, expenses] = await Promise.all([
+        blink.db.table('cases').list({ where: { userId: user.id } }),
+        listStatusHistory(user.id),
+        listSettlementStatements(user.id),
+        blink.db.table('negotiations').list({ where: { userId: user.id } }),
+        listExpenses(user.id)
+      ])
 
-      const casesByType = Object.entries(typeCount).map(([type, data]) => ({
-        type,
-        count: data.count,
-        value: data.value
-      }))
-
-      const performanceMetrics = {
-        negotiationSuccess: 87,
-        clientSatisfaction: 94,
-        documentProcessing: 92,
-        responseTime: 89
-      }
+      const caseAnalytics = buildCaseAnalytics(
+        timeRange,
+        cases.map((row: any) => ({
+          id: row.id,
+          caseType: row.caseType,
+          status: row.status,
+          createdAt: row.createdAt,
+          settlementAmount: Number(row.settlementAmount) || 0
+        })),
+        history,
+        statements,
+        negotiations.map((row: any) => ({
+          caseId: row.caseId,
+          status: row.status,
+          currentOffer: Number(row.currentOffer) || 0,
+          demandAmount: Number(row.demandAmount) || 0,
+          updatedAt: row.updatedAt
+        }))
+      )
 
+      // Costs count toward the range by the date they were incurred
+      const since = new Date(caseAnalytics.since)
       setAnalytics({
-        totalCases,
-        activeCases,
-        settledCases,
-        totalSettlements,
-        avgSettlementTime,
-        successRate,
-        monthlyData,
-        casesByType,
-        performanceMetrics
+        ...caseAnalytics,
+        expenses: summarizeExpenses(expenses.filter(expense => new Date(expense.date) >= since))
       })
     } catch (error) {
       console.error('Error loading analytics:', error)
     } finally {
       setLoading(false)
     }
-  }
+  }, [timeRange])
 
   useEffect(() => {
     loadAnalytics()
-  }, [timeRange])
+  }, [loadAnalytics])
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -155,17 +106,16 @@ export function AnalyticsDashboard() {
   const StatCard = ({ 
     title, 
     value, 
-    change, 
     icon: Icon, 
     format = 'number' 
   }: {
     title: string
-    value: number
-    change?: number
+    value: number | null
     icon: any
     format?: 'number' | 'currency' | 'percentage' | 'days'
   }) => {
-    const formatValue = (val: number) => {
+    const formatValue = (val: number | null) => {
+      if (val === null) return 'No data'
       switch (format) {
         case 'currency': return formatCurrency(val)
         case 'percentage': return `${val.toFixed(1)}%`
@@ -181,18 +131,6 @@ export function AnalyticsDashboard() {
             <div>
               <p className="text-sm font-medium text-gray-600">{title}</p>
               <p className="text-2xl font-bold text-gray-900">{formatValue(value)}</p>
-              {change !== undefined && (
-                <div className="flex items-center mt-1">
-                  {change >= 0 ? (
-                    <TrendingUp className="h-4 w-4 text-green-500 mr-1" />
-                  ) : (
-                    <TrendingDown className="h-4 w-4 text-red-500 mr-1" />
-                  )}
-                  <span className={`text-sm ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {Math.abs(change)}%
-                  </span>
-                </div>
-              )}
             </div>
             <div className="p-3 bg-blue-50 rounded-lg">
               <Icon className="h-6 w-6 text-blue-600" />
@@ -214,15 +152,14 @@ export function AnalyticsDashboard() {
           <h1 className="text-3xl font-bold text-gray-900">Analytics Dashboard</h1>
           <p className="text-gray-600">Track performance, settlements, and key metrics</p>
         </div>
-        <Select value={timeRange} onValueChange={setTimeRange}>
+        <Select value={timeRange} onValueChange={(value) => setTimeRange(value as AnalyticsRange)}>
           <SelectTrigger className="w-48">
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="1month">Last Month</SelectItem>
-            <SelectItem value="3months">Last 3 Months</SelectItem>
-            <SelectItem value="6months">Last 6 Months</SelectItem>
-            <SelectItem value="1year">Last Year</SelectItem>
+            {Object.entries(ANALYTICS_RANGES).map(([value, range]) => (
+              <SelectItem key={value} value={value}>{range.label}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
@@ -230,28 +167,24 @@ export function AnalyticsDashboard() {
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard
-          title="Total Cases"
-          value={analytics.totalCases}
-          change={12}
+          title="New Cases"
+          value={analytics.newCases}
           icon={FileText}
         />
         <StatCard
-          title="Active Cases"
-          value={analytics.activeCases}
-          change={8}
+          title="Still Open"
+          value={analytics.openCases}
           icon={Clock}
         />
         <StatCard
           title="Total Settlements"
           value={analytics.totalSettlements}
-          change={15}
           icon={DollarSign}
           format="currency"
         />
         <StatCard
           title="Success Rate"
           value={analytics.successRate}
-          change={5}
           icon={Target}
           format="percentage"
         />
@@ -274,9 +207,9 @@ export function AnalyticsDashboard() {
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <AreaChart data={analytics.monthlyData}>
+                  <AreaChart data={analytics.monthly}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="month" />
+                    <XAxis dataKey="label" />
                     <YAxis />
                     <Tooltip />
                     <Area 
@@ -303,7 +236,7 @@ export function AnalyticsDashboard() {
             <Card>
               <CardHeader>
                 <CardTitle>Case Distribution</CardTitle>
-                <CardDescription>Cases by type and value</CardDescription>
+                <CardDescription>Cases opened in this period by type</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
@@ -336,9 +269,9 @@ export function AnalyticsDashboard() {
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
-                <LineChart data={analytics.monthlyData}>
+                <LineChart data={analytics.monthly}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="month" />
+                  <XAxis dataKey="label" />
                   <YAxis tickFormatter={(value) => `$${value / 1000}K`} />
                   <Tooltip formatter={(value) => formatCurrency(Number(value))} />
                   <Line 
@@ -359,76 +292,75 @@ export function AnalyticsDashboard() {
             <Card>
               <CardHeader>
                 <CardTitle>Performance Metrics</CardTitle>
-                <CardDescription>Key performance indicators</CardDescription>
+                <CardDescription>Outcomes of cases and negotiations resolved in this period</CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                <div>
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-medium">Negotiation Success</span>
-                    <span className="text-sm text-gray-600">{analytics.performanceMetrics.negotiationSuccess}%</span>
-                  </div>
-                  <Progress value={analytics.performanceMetrics.negotiationSuccess} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-medium">Client Satisfaction</span>
-                    <span className="text-sm text-gray-600">{analytics.performanceMetrics.clientSatisfaction}%</span>
-                  </div>
-                  <Progress value={analytics.performanceMetrics.clientSatisfaction} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-medium">Document Processing</span>
-                    <span className="text-sm text-gray-600">{analytics.performanceMetrics.documentProcessing}%</span>
+                {[
+                  { label: 'Settlement Rate', value: analytics.successRate },
+                  { label: 'Negotiation Success', value: analytics.negotiationSuccess },
+                  { label: 'Demand Recovered', value: analytics.demandRecovered }
+                ].map(metric => (
+                  <div key={metric.label}>
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-medium">{metric.label}</span>
+                      <span className="text-sm text-gray-600">
+                        {metric.value === null ? 'No data' : `${metric.value.toFixed(1)}%`}
+                      </span>
+                    </div>
+                    <Progress value={Math.min(metric.value || 0, 100)} className="h-2" />
                   </div>
-                  <Progress value={analytics.performanceMetrics.documentProcessing} className="h-2" />
-                </div>
-                <div>
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-medium">Response Time</span>
-                    <span className="text-sm text-gray-600">{analytics.performanceMetrics.responseTime}%</span>
-                  </div>
-                  <Progress value={analytics.performanceMetrics.responseTime} className="h-2" />
-                </div>
+                ))}
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader>
-                <CardTitle>Key Achievements</CardTitle>
-                <CardDescription>Recent milestones and awards</CardDescription>
+                <CardTitle>Time to Settle</CardTitle>
+                <CardDescription>
+                  Days from intake to settlement for the {analytics.settledCases} case{analytics.settledCases === 1 ? '' : 's'} settled in this period
+                </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-green-100 rounded-lg">
-                    <Award className="h-5 w-5 text-green-600" />
-                  </div>
-                  <div>
-                    <p className="font-medium">Top Settlement Rate</p>
-                    <p className="text-sm text-gray-600">Achieved 94% success rate this quarter</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-blue-100 rounded-lg">
-                    <TrendingUp className="h-5 w-5 text-blue-600" />
+                {[
+                  { label: 'Average', value: analytics.avgDaysToSettle },
+                  { label: 'Fastest', value: analytics.fastestDaysToSettle },
+                  { label: 'Slowest', value: analytics.slowestDaysToSettle }
+                ].map(item => (
+                  <div key={item.label} className="flex items-center space-x-3">
+                    <div className="p-2 bg-blue-100 rounded-lg">
+                      <Clock className="h-5 w-5 text-blue-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium">{item.value === null ? 'No data' : `${item.value} days`}</p>
+                      <p className="text-sm text-gray-600">{item.label}</p>
+                    </div>
                   </div>
-                  <div>
-                    <p className="font-medium">Revenue Growth</p>
-                    <p className="text-sm text-gray-600">15% increase in monthly settlements</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-purple-100 rounded-lg">
-                    <Clock className="h-5 w-5 text-purple-600" />
-                  </div>
-                  <div>
-                    <p className="font-medium">Faster Processing</p>
-                    <p className="text-sm text-gray-600">Reduced case resolution time by 20%</p>
-                  </div>
-                </div>
+                ))}
               </CardContent>
             </Card>
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Time in Stage</CardTitle>
+              <CardDescription>Average days cases spent in each status, for stages left in this period</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {analytics.timeInStage.length === 0 ? (
+                <p className="text-sm text-gray-600">No status changes recorded in this period</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={analytics.timeInStage}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="status" />
+                    <YAxis />
+                    <Tooltip formatter={(value) => `${value} days`} />
+                    <Bar dataKey="averageDays" fill="#8b5cf6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="cases" className="space-y-6">
@@ -436,7 +368,7 @@ export function AnalyticsDashboard() {
             <Card className="lg:col-span-2">
               <CardHeader>
                 <CardTitle>Case Types Performance</CardTitle>
-                <CardDescription>Settlement success by case type</CardDescription>
+                <CardDescription>Settlement value of cases opened in this period, by type</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
@@ -454,25 +386,18 @@ export function AnalyticsDashboard() {
             <Card>
               <CardHeader>
                 <CardTitle>Case Status</CardTitle>
-                <CardDescription>Current case distribution</CardDescription>
+                <CardDescription>Where the cases opened in this period stand now</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Active Cases</span>
-                  <Badge variant="default">{analytics.activeCases}</Badge>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Settled Cases</span>
-                  <Badge variant="secondary">{analytics.settledCases}</Badge>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Pending Review</span>
-                  <Badge variant="outline">3</Badge>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">On Hold</span>
-                  <Badge variant="destructive">1</Badge>
-                </div>
+                {analytics.casesByStatus.length === 0 && (
+                  <p className="text-sm text-gray-600">No cases opened in this period</p>
+                )}
+                {analytics.casesByStatus.map(({ status, count }) => (
+                  <div key={status} className="flex items-center justify-between">
+                    <span className="text-sm font-medium capitalize">{status}</span>
+                    <Badge variant="secondary">{count}</Badge>
+                  </div>
+                ))}
               </CardContent>
             </Card>
           </div>
@@ -482,27 +407,67 @@ export function AnalyticsDashboard() {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <StatCard
               title="Average Settlement"
-              value={analytics.totalSettlements / Math.max(analytics.settledCases, 1)}
-              change={8}
+              value={analytics.averageSettlement}
               icon={DollarSign}
               format="currency"
             />
             <StatCard
               title="Settlement Time"
-              value={analytics.avgSettlementTime}
-              change={-12}
+              value={analytics.avgDaysToSettle}
               icon={Calendar}
               format="days"
             />
             <StatCard
-              title="Collection Rate"
-              value={96.5}
-              change={2}
+              title="Cases Settled"
+              value={analytics.settledCases}
+              icon={Target}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <StatCard
+              title="Costs Advanced"
+              value={analytics.expenses.total}
+              icon={DollarSign}
+              format="currency"
+            />
+            <StatCard
+              title="Reimbursable Costs"
+              value={analytics.expenses.reimbursable}
               icon={Target}
-              format="percentage"
+              format="currency"
+            />
+            <StatCard
+              title="Billable Costs"
+              value={analytics.expenses.billable}
+              icon={FileText}
+              format="currency"
             />
           </div>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Case Costs by Category</CardTitle>
+              <CardDescription>Expenses advanced in this period across all cases</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart
+                  data={Object.entries(analytics.expenses.byCategory).map(([category, amount]) => ({
+                    category: EXPENSE_CATEGORIES[category as ExpenseCategory],
+                    amount
+                  }))}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="category" />
+                  <YAxis tickFormatter={(value) => formatCurrency(Number(value))} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                  <Bar dataKey="amount" fill="#f59e0b" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Financial Overview</CardTitle>
@@ -510,9 +475,9 @@ export function AnalyticsDashboard() {
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={400}>
-                <AreaChart data={analytics.monthlyData}>
+                <AreaChart data={analytics.monthly}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="month" />
+                  <XAxis dataKey="label" />
                   <YAxis tickFormatter={(value) => `$${value / 1000}K`} />
                   <Tooltip formatter={(value) => formatCurrency(Number(value))} />
                   <Area 
@@ -0,0 +1,83 @@
+import { useId, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertCircle, KeyRound } from 'lucide-react'
+import { firmLogin } from '@/services/firm'
+
+interface FirmPortalSignInProps {
+  title: string
+  description: string // What the sign-in unlocks here
+}
+
+// Signs the firm user in to the client portal's backend. Every card that needs it picks up the
+// session once one of them signs in.
+export function FirmPortalSignIn({ title, description }: FirmPortalSignInProps) {
+  const id = useId()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setLoading(true)
+    setError(null)
+    try {
+      await firmLogin(email, password)
+    } catch (signInError) {
+      console.error('Firm portal login error:', signInError)
+      setError(signInError instanceof Error ? signInError.message : 'Failed to sign in')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={submit} className="space-y-3">
+          {error && (
+            <div className="flex items-start space-x-2 p-3 bg-red-50 text-red-800 rounded-lg text-sm">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <p>{error}</p>
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor={`${id}-email`}>Portal Email</Label>
+              <Input
+                id={`${id}-email`}
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor={`${id}-password`}>Password</Label>
+              <Input
+                id={`${id}-password`}
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <Button type="submit" size="sm" disabled={loading}>
+            {loading ? 'Signing in...' : 'Sign In to the Portal'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
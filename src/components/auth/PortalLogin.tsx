@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertCircle, Scale } from 'lucide-react'
+import { getPortalInvitation, portalLogin, registerPortalAccount } from '@/services/portal'
+import type { PortalInvitationSummary, PortalSession } from '@/types/portal'
+
+interface PortalLoginProps {
+  inviteToken: string | null
+  onSignIn: (session: PortalSession) => void
+}
+
+const INVITATION_PROBLEMS: Record<string, string> = {
+  revoked: 'This invitation was withdrawn. Ask your attorney for a new one.',
+  accepted: 'This invitation has already been used. Sign in below instead.',
+  expired: 'This invitation has expired. Ask your attorney for a new one.'
+}
+
+// Sign-in for clients. Separate from the attorney landing page: it only ever leads to the portal.
+// An invitation link lets the client create their login first.
+export function PortalLogin({ inviteToken, onSignIn }: PortalLoginProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [invitation, setInvitation] = useState<PortalInvitationSummary | null>(null)
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [firstName, setFirstName] = useState('')
+  const [lastName, setLastName] = useState('')
+
+  useEffect(() => {
+    if (!inviteToken) return
+    getPortalInvitation(inviteToken)
+      .then(found => {
+        setInvitation(found)
+        setEmail(found.email)
+        const [first = '', ...rest] = found.clientName.split(' ')
+        setFirstName(first)
+        setLastName(rest.join(' '))
+        if (found.status !== 'pending') setError(INVITATION_PROBLEMS[found.status])
+      })
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'This invitation link is not valid'))
+  }, [inviteToken])
+
+  const registering = invitation?.status === 'pending'
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setLoading(true)
+    setError(null)
+    try {
+      const session = registering && inviteToken
+        ? await registerPortalAccount({ token: inviteToken, firstName, lastName, password })
+        : await portalLogin(email, password)
+      onSignIn(session)
+    } catch (signInError) {
+      console.error('Portal login error:', signInError)
+      setError(signInError instanceof Error ? signInError.message : 'Failed to sign in')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="bg-blue-600 p-3 rounded-2xl">
+              <Scale className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl">Client Portal</CardTitle>
+          <CardDescription>
+            {invitation
+              ? `${invitation.invitedBy}${invitation.firmName ? ` of ${invitation.firmName}` : ''} invited you to follow your cases online.`
+              : 'Follow your cases and reach your legal team.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={submit} className="space-y-4">
+            {error && (
+              <div className="flex items-start space-x-2 p-3 bg-red-50 text-red-800 rounded-lg text-sm">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <p>{error}</p>
+              </div>
+            )}
+
+            {registering && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="portal-first-name">First Name</Label>
+                  <Input id="portal-first-name" value={firstName} onChange={(e) => setFirstName(e.target.value)} required />
+                </div>
+                <div>
+                  <Label htmlFor="portal-last-name">Last Name</Label>
+                  <Input id="portal-last-name" value={lastName} onChange={(e) => setLastName(e.target.value)} required />
+                </div>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="portal-email">Email</Label>
+              <Input
+                id="portal-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={registering}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="portal-password">{registering ? 'Choose a Password' : 'Password'}</Label>
+              <Input
+                id="portal-password"
+                type="password"
+                value={password}
+                minLength={registering ? 8 : undefined}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={loading}>
+              {loading ? 'Loading...' : registering ? 'Create Your Login' : 'Sign In'}
+            </Button>
+            {registering && (
+              <p className="text-xs text-center text-gray-500">
+                Your login uses {invitation?.email}, the address your invitation was sent to.
+              </p>
+            )}
+            {!inviteToken && (
+              <p className="text-xs text-center text-gray-500">
+                New here? Use the invitation link your attorney emailed you.
+              </p>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,10 +1,10 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
 import { Button } from '../ui/button'
 import { Input } from '../ui/input'
 import { Label } from '../ui/label'
 import { Badge } from '../ui/badge'
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
 import { Textarea } from '../ui/textarea'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs'
@@ -24,26 +24,59 @@ import {
   Phone,
   FileText,
   Gavel,
+  Repeat,
+  Download,
+  Upload,
   User
 } from 'lucide-react'
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns'
 import { blink } from '../../blink/client'
+import {
+  listCalendarEvents,
+  createCalendarEvent,
+  updateCalendarEvent,
+  deleteCalendarEvent
+} from '../../blink/calendarEvents'
 import { useToast } from '../../hooks/use-toast'
+import {
+  endRuleBefore,
+  expandEvents,
+  formatExceptions,
+  formatRRule,
+  describeRRule,
+  parseExceptions,
+  parseRRule,
+  remainingCount
+} from '../../lib/recurrence'
+import {
+  buildICalendar,
+  calendarEventToICal,
+  downloadICalendar,
+  icalToEventInput,
+  parseICalendar
+} from '../../lib/ical'
+import { RecurrenceEditor } from './RecurrenceEditor'
+import type {
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarOccurrence,
+  DateRange,
+  RecurrenceEditScope
+} from '../../types/calendar'
 
-interface CalendarEvent {
-  id: string
-  title: string
-  description: string
-  start_date: string
-  end_date: string
-  event_type: 'meeting' | 'court' | 'deadline' | 'consultation' | 'deposition' | 'other'
-  location: string
-  attendees: string
-  case_id?: string
-  priority: 'low' | 'medium' | 'high'
-  reminder_minutes: number
-  user_id: string
-  created_at: string
-}
+type CalendarView = 'month' | 'week' | 'day' | 'agenda'
 
 interface Case {
   id: string
@@ -69,187 +102,265 @@ const eventTypeIcons = {
   other: Clock
 }
 
+const emptyEventForm: Partial<CalendarEvent> = {
+  title: '',
+  description: '',
+  start_date: '',
+  end_date: '',
+  event_type: 'meeting',
+  location: '',
+  attendees: '',
+  case_id: '',
+  priority: 'medium',
+  reminder_minutes: 15
+}
+
+// The month and agenda views both cover the calendar month of the current date
+const getVisibleRange = (view: CalendarView, date: Date): DateRange => {
+  switch (view) {
+    case 'week':
+      return { start: startOfWeek(date), end: endOfWeek(date) }
+    case 'day':
+      return { start: startOfDay(date), end: endOfDay(date) }
+    default:
+      return { start: startOfMonth(date), end: endOfMonth(date) }
+  }
+}
+
+// datetime-local inputs work in local time without a zone suffix
+const toDateTimeLocal = (dateString: string) =>
+  dateString ? format(new Date(dateString), "yyyy-MM-dd'T'HH:mm") : ''
+
 export function Calendar() {
   const [currentDate, setCurrentDate] = useState(new Date())
-  const [selectedDate, setSelectedDate] = useState(new Date())
   const [events, setEvents] = useState<CalendarEvent[]>([])
   const [cases, setCases] = useState<Case[]>([])
   const [loading, setLoading] = useState(false)
   const [user, setUser] = useState<any>(null)
-  const [view, setView] = useState<'month' | 'week' | 'day' | 'agenda'>('month')
+  const [view, setView] = useState<CalendarView>('month')
   const [showEventDialog, setShowEventDialog] = useState(false)
-  const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null)
+  const [editingOccurrence, setEditingOccurrence] = useState<CalendarOccurrence | null>(null)
+  const [selectedEvent, setSelectedEvent] = useState<CalendarOccurrence | null>(null)
+  const [pendingScopeAction, setPendingScopeAction] = useState<'save' | 'delete' | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [filterType, setFilterType] = useState<string>('all')
+  const [importing, setImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
-  // New event form
-  const [newEvent, setNewEvent] = useState<Partial<CalendarEvent>>({
-    title: '',
-    description: '',
-    start_date: '',
-    end_date: '',
-    event_type: 'meeting',
-    location: '',
-    attendees: '',
-    case_id: '',
-    priority: 'medium',
-    reminder_minutes: 15
-  })
+  // Event form, shared by create and edit
+  const [newEvent, setNewEvent] = useState<Partial<CalendarEvent>>(emptyEventForm)
 
-  const loadData = async (currentUser: any) => {
-    if (!currentUser) return
-
-    const loadEvents = async () => {
-      try {
-        setLoading(true)
-        // Mock events for now since we don't have calendar API endpoints
-        const mockEvents: CalendarEvent[] = [
-          {
-            id: '1',
-            title: 'Client Meeting - Sarah Johnson',
-            description: 'Discuss case progress and next steps',
-            start_date: new Date(Date.now() + 86400000).toISOString(),
-            end_date: new Date(Date.now() + 86400000 + 3600000).toISOString(),
-            event_type: 'meeting',
-            location: 'Conference Room A',
-            attendees: 'sarah.johnson@email.com',
-            case_id: '1',
-            priority: 'high',
-            reminder_minutes: 15,
-            user_id: currentUser.id,
-            created_at: new Date().toISOString()
-          },
-          {
-            id: '2',
-            title: 'Court Hearing - PI-2024-001',
-            description: 'Motion hearing for summary judgment',
-            start_date: new Date(Date.now() + 172800000).toISOString(),
-            end_date: new Date(Date.now() + 172800000 + 7200000).toISOString(),
-            event_type: 'court',
-            location: 'Superior Court Room 3',
-            attendees: '',
-            case_id: '1',
-            priority: 'high',
-            reminder_minutes: 60,
-            user_id: currentUser.id,
-            created_at: new Date().toISOString()
-          },
-          {
-            id: '3',
-            title: 'Discovery Deadline',
-            description: 'All discovery must be completed',
-            start_date: new Date(Date.now() + 604800000).toISOString(),
-            end_date: new Date(Date.now() + 604800000).toISOString(),
-            event_type: 'deadline',
-            location: '',
-            attendees: '',
-            case_id: '2',
-            priority: 'medium',
-            reminder_minutes: 1440,
-            user_id: currentUser.id,
-            created_at: new Date().toISOString()
-          }
-        ]
-        setEvents(mockEvents)
-      } catch (error) {
-        console.error('Error loading events:', error)
-      } finally {
-        setLoading(false)
-      }
-    }
+  const loadEvents = useCallback(async () => {
+    if (!user) return
 
-    const loadCases = async () => {
-      try {
-        const casesData = await blink.db.cases.list({
-          where: { userId: currentUser.id },
-          orderBy: { createdAt: 'desc' }
-        })
-        
-        const transformedCases = casesData.map((case_: any) => ({
-          id: case_.id,
-          title: case_.case_number,
-          client_name: case_.client_name
-        }))
-        setCases(transformedCases)
-      } catch (error) {
-        console.error('Error loading cases:', error)
-        // Fallback to mock cases
-        setCases([
-          { id: '1', title: 'PI-2024-001', client_name: 'Sarah Johnson' },
-          { id: '2', title: 'AUTO-2024-015', client_name: 'Michael Chen' },
-          { id: '3', title: 'WC-2024-008', client_name: 'Lisa Rodriguez' }
-        ])
-      }
+    try {
+      setLoading(true)
+      const rangeEvents = await listCalendarEvents(user.id, getVisibleRange(view, currentDate))
+      setEvents(rangeEvents)
+    } catch (error) {
+      console.error('Error loading events:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load calendar events.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
     }
+  }, [user, view, currentDate, toast])
 
-    loadEvents()
-    loadCases()
+  const loadCases = async (currentUser: any) => {
+    try {
+      const casesData = await blink.db.cases.list({
+        where: { userId: currentUser.id },
+        orderBy: { createdAt: 'desc' }
+      })
+      
+      const transformedCases = casesData.map((case_: any) => ({
+        id: case_.id,
+        title: case_.caseNumber,
+        client_name: case_.clientName
+      }))
+      setCases(transformedCases)
+    } catch (error) {
+      console.error('Error loading cases:', error)
+      setCases([])
+    }
   }
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       if (state.user && !state.isLoading) {
-        loadData(state.user)
+        loadCases(state.user)
       }
     })
     return unsubscribe
   }, [])
 
-  const createEvent = async () => {
-    if (!user || !newEvent.title || !newEvent.start_date) {
+  useEffect(() => {
+    loadEvents()
+  }, [loadEvents])
+
+  const openCreateDialog = () => {
+    setEditingOccurrence(null)
+    setNewEvent(emptyEventForm)
+    setShowEventDialog(true)
+  }
+
+  const openEditDialog = (occurrence: CalendarOccurrence) => {
+    setEditingOccurrence(occurrence)
+    setNewEvent({
+      ...occurrence,
+      start_date: toDateTimeLocal(occurrence.start_date),
+      end_date: toDateTimeLocal(occurrence.end_date),
+      case_id: occurrence.case_id || ''
+    })
+    setSelectedEvent(null)
+    setShowEventDialog(true)
+  }
+
+  const getSeries = (occurrence: CalendarOccurrence) =>
+    events.find(event => event.id === occurrence.id) || occurrence
+
+  const buildEventInput = (): CalendarEventInput | null => {
+    if (!newEvent.title || !newEvent.start_date) {
       toast({
         title: "Error",
         description: "Please fill in required fields.",
         variant: "destructive"
       })
+      return null
+    }
+
+    const startDate = new Date(newEvent.start_date)
+    const endDate = newEvent.end_date ? new Date(newEvent.end_date) : startDate
+    if (endDate < startDate) {
+      toast({
+        title: "Error",
+        description: "The end time cannot be before the start time.",
+        variant: "destructive"
+      })
+      return null
+    }
+
+    return {
+      title: newEvent.title,
+      description: newEvent.description || '',
+      start_date: startDate.toISOString(),
+      end_date: endDate.toISOString(),
+      event_type: newEvent.event_type || 'meeting',
+      location: newEvent.location || '',
+      attendees: newEvent.attendees || '',
+      case_id: newEvent.case_id || '',
+      priority: newEvent.priority || 'medium',
+      reminder_minutes: newEvent.reminder_minutes ?? 15,
+      recurrence_rule: newEvent.recurrence_rule || undefined,
+      recurrence_exceptions: newEvent.recurrence_exceptions,
+      recurrence_parent_id: newEvent.recurrence_parent_id,
+      time_zone: newEvent.time_zone
+    }
+  }
+
+  // Applies an edit of one occurrence of a recurring series to the chosen scope
+  const saveSeriesEdit = async (occurrence: CalendarOccurrence, input: CalendarEventInput, scope: RecurrenceEditScope) => {
+    const series = getSeries(occurrence)
+    const occurrenceStart = new Date(occurrence.occurrence_start)
+    const seriesStart = new Date(series.start_date)
+    const shift = new Date(input.start_date).getTime() - occurrenceStart.getTime()
+    const duration = new Date(input.end_date).getTime() - new Date(input.start_date).getTime()
+    const exceptions = parseExceptions(series.recurrence_exceptions)
+
+    if (scope === 'this') {
+      await updateCalendarEvent(series.id, {
+        ...series,
+        recurrence_exceptions: formatExceptions([...exceptions, occurrenceStart])
+      })
+      await createCalendarEvent(user.id, {
+        ...input,
+        recurrence_rule: undefined,
+        recurrence_exceptions: undefined,
+        recurrence_parent_id: series.id
+      })
+      return
+    }
+
+    if (scope === 'all' || occurrenceStart <= seriesStart) {
+      const start = new Date(seriesStart.getTime() + shift)
+      await updateCalendarEvent(series.id, {
+        ...input,
+        start_date: start.toISOString(),
+        end_date: new Date(start.getTime() + duration).toISOString(),
+        recurrence_exceptions: formatExceptions(exceptions.map(date => new Date(date.getTime() + shift))),
+        recurrence_parent_id: undefined
+      })
+      return
+    }
+
+    // This and following: end the current series before the occurrence and start a new one
+    const seriesRule = parseRRule(series.recurrence_rule!)
+    await updateCalendarEvent(series.id, {
+      ...series,
+      recurrence_rule: formatRRule(endRuleBefore(seriesRule, occurrenceStart)),
+      recurrence_exceptions: formatExceptions(exceptions.filter(date => date < occurrenceStart))
+    })
+
+    let followingRule = input.recurrence_rule
+    if (followingRule) {
+      const rule = parseRRule(followingRule)
+      if (rule.count && rule.count === seriesRule.count) {
+        followingRule = formatRRule({ ...rule, count: remainingCount(seriesStart, seriesRule, occurrenceStart, series.time_zone) })
+      }
+    }
+
+    await createCalendarEvent(user.id, {
+      ...input,
+      recurrence_rule: followingRule,
+      recurrence_exceptions: formatExceptions(
+        exceptions.filter(date => date > occurrenceStart).map(date => new Date(date.getTime() + shift))
+      ),
+      recurrence_parent_id: undefined
+    })
+  }
+
+  const saveEvent = async (scope?: RecurrenceEditScope) => {
+    if (!user) return
+    const input = buildEventInput()
+    if (!input) return
+
+    if (editingOccurrence && getSeries(editingOccurrence).recurrence_rule && !scope) {
+      setPendingScopeAction('save')
       return
     }
 
     try {
       setLoading(true)
-      
-      // For now, just add to local state since we don't have calendar API
-      const event: CalendarEvent = {
-        id: `event_${Date.now()}`,
-        user_id: user.id,
-        title: newEvent.title!,
-        description: newEvent.description || '',
-        start_date: newEvent.start_date!,
-        end_date: newEvent.end_date || newEvent.start_date!,
-        event_type: newEvent.event_type || 'meeting',
-        location: newEvent.location || '',
-        attendees: newEvent.attendees || '',
-        case_id: newEvent.case_id || '',
-        priority: newEvent.priority || 'medium',
-        reminder_minutes: newEvent.reminder_minutes || 15,
-        created_at: new Date().toISOString()
+
+      if (editingOccurrence && scope) {
+        await saveSeriesEdit(editingOccurrence, input, scope)
+      } else if (editingOccurrence) {
+        await updateCalendarEvent(editingOccurrence.id, input)
+      } else {
+        await createCalendarEvent(user.id, input)
       }
 
-      setEvents(prev => [...prev, event])
-      setNewEvent({
-        title: '',
-        description: '',
-        start_date: '',
-        end_date: '',
-        event_type: 'meeting',
-        location: '',
-        attendees: '',
-        case_id: '',
-        priority: 'medium',
-        reminder_minutes: 15
-      })
+      setNewEvent(emptyEventForm)
       setShowEventDialog(false)
+      await loadEvents()
 
       toast({
-        title: "Event Created",
-        description: "Your calendar event has been created successfully."
+        title: editingOccurrence ? "Event Updated" : "Event Created",
+        description: editingOccurrence
+          ? "Your calendar event has been updated successfully."
+          : "Your calendar event has been created successfully."
       })
+      setEditingOccurrence(null)
     } catch (error) {
+      console.error('Error saving event:', error)
       toast({
         title: "Error",
-        description: "Failed to create event. Please try again.",
+        description: "Failed to save event. Please try again.",
         variant: "destructive"
       })
     } finally {
@@ -257,17 +368,42 @@ export function Calendar() {
     }
   }
 
-  const deleteEvent = async (eventId: string) => {
+  const deleteEvent = async (occurrence: CalendarOccurrence, scope?: RecurrenceEditScope) => {
+    const series = getSeries(occurrence)
+
+    if (series.recurrence_rule && !scope) {
+      setPendingScopeAction('delete')
+      return
+    }
+
     try {
-      // For now, just remove from local state
-      setEvents(prev => prev.filter(e => e.id !== eventId))
+      const occurrenceStart = new Date(occurrence.occurrence_start)
+      const exceptions = parseExceptions(series.recurrence_exceptions)
+
+      if (scope === 'this') {
+        await updateCalendarEvent(series.id, {
+          ...series,
+          recurrence_exceptions: formatExceptions([...exceptions, occurrenceStart])
+        })
+      } else if (scope === 'following' && occurrenceStart > new Date(series.start_date)) {
+        await updateCalendarEvent(series.id, {
+          ...series,
+          recurrence_rule: formatRRule(endRuleBefore(parseRRule(series.recurrence_rule!), occurrenceStart)),
+          recurrence_exceptions: formatExceptions(exceptions.filter(date => date < occurrenceStart))
+        })
+      } else {
+        await deleteCalendarEvent(series.id)
+      }
+
       setSelectedEvent(null)
+      await loadEvents()
       
       toast({
         title: "Event Deleted",
         description: "The event has been removed from your calendar."
       })
     } catch (error) {
+      console.error('Error deleting event:', error)
       toast({
         title: "Error",
         description: "Failed to delete event. Please try again.",
@@ -276,6 +412,69 @@ export function Calendar() {
     }
   }
 
+  const applyScope = (scope: RecurrenceEditScope) => {
+    const action = pendingScopeAction
+    setPendingScopeAction(null)
+    if (action === 'save') {
+      saveEvent(scope)
+    } else if (action === 'delete' && selectedEvent) {
+      deleteEvent(selectedEvent, scope)
+    }
+  }
+
+  // Exports the events and recurring series loaded for the current view
+  const exportEvents = () => {
+    const caseNumbers = new Map(cases.map(case_ => [case_.id, case_.title]))
+    const content = buildICalendar(
+      events.map(event => calendarEventToICal(event, event.case_id ? caseNumbers.get(event.case_id) : undefined)),
+      'Legal Calendar'
+    )
+    const { start } = getVisibleRange(view, currentDate)
+    downloadICalendar(`calendar-${format(start, 'yyyy-MM-dd')}`, content)
+  }
+
+  const importEvents = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !user) return
+
+    try {
+      setImporting(true)
+      const parsed = parseICalendar(await file.text())
+      if (parsed.length === 0) {
+        toast({
+          title: "Nothing to Import",
+          description: "No events were found in the selected file.",
+          variant: "destructive"
+        })
+        return
+      }
+
+      const caseRefs = cases.map(case_ => ({ id: case_.id, caseNumber: case_.title }))
+      let linked = 0
+      for (const item of parsed) {
+        const input = icalToEventInput(item, caseRefs)
+        if (input.case_id) linked++
+        await createCalendarEvent(user.id, input)
+      }
+
+      await loadEvents()
+      toast({
+        title: "Events Imported",
+        description: `Imported ${parsed.length} event${parsed.length === 1 ? '' : 's'}, ${linked} linked to cases.`
+      })
+    } catch (error) {
+      console.error('Error importing events:', error)
+      toast({
+        title: "Error",
+        description: "Failed to import the calendar file. Please check that it is a valid .ics file.",
+        variant: "destructive"
+      })
+    } finally {
+      setImporting(false)
+    }
+  }
+
   const getDaysInMonth = (date: Date) => {
     const year = date.getFullYear()
     const month = date.getMonth()
@@ -299,21 +498,30 @@ export function Calendar() {
     return days
   }
 
-  const getEventsForDate = (date: Date) => {
-    return events.filter(event => {
-      const eventDate = new Date(event.start_date)
-      return eventDate.toDateString() === date.toDateString()
-    })
+  const getDaysInWeek = (date: Date) => {
+    const weekStart = startOfWeek(date)
+    return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
   }
 
-  const filteredEvents = events.filter(event => {
+  const occurrences = expandEvents(events, getVisibleRange(view, currentDate))
+
+  const filteredEvents = occurrences.filter(event => {
     const matchesSearch = event.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          event.description.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesFilter = filterType === 'all' || event.event_type === filterType
     return matchesSearch && matchesFilter
   })
 
-  const upcomingEvents = events
+  // Multi-day events show on every day they span
+  const getEventsForDate = (date: Date) => {
+    return filteredEvents.filter(event => {
+      const start = startOfDay(new Date(event.start_date))
+      const end = endOfDay(new Date(event.end_date || event.start_date))
+      return date >= start && date <= end
+    })
+  }
+
+  const upcomingEvents = occurrences
     .filter(event => new Date(event.start_date) >= new Date())
     .sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime())
     .slice(0, 5)
@@ -335,15 +543,14 @@ export function Calendar() {
     })
   }
 
-  const navigateMonth = (direction: 'prev' | 'next') => {
+  const navigate = (direction: 'prev' | 'next') => {
+    const step = direction === 'prev' ? -1 : 1
     setCurrentDate(prev => {
-      const newDate = new Date(prev)
-      if (direction === 'prev') {
-        newDate.setMonth(prev.getMonth() - 1)
-      } else {
-        newDate.setMonth(prev.getMonth() + 1)
+      switch (view) {
+        case 'week': return addWeeks(prev, step)
+        case 'day': return addDays(prev, step)
+        default: return addMonths(prev, step)
       }
-      return newDate
     })
   }
 
@@ -354,6 +561,36 @@ export function Calendar() {
 
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
 
+  const getRangeTitle = () => {
+    switch (view) {
+      case 'week': {
+        const { start, end } = getVisibleRange('week', currentDate)
+        return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+      }
+      case 'day':
+        return format(currentDate, 'EEEE, MMMM d, yyyy')
+      default:
+        return `${monthNames[currentDate.getMonth()]} ${currentDate.getFullYear()}`
+    }
+  }
+
+  const renderRangeNavigation = () => (
+    <div className="flex items-center justify-between">
+      <CardTitle className="text-xl">{getRangeTitle()}</CardTitle>
+      <div className="flex items-center space-x-2">
+        <Button variant="outline" size="sm" onClick={() => navigate('prev')}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+          Today
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => navigate('next')}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+
   if (!user) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -397,18 +634,31 @@ export function Calendar() {
               <SelectItem value="other">Other</SelectItem>
             </SelectContent>
           </Select>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={importEvents}
+          />
+          <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={importing}>
+            <Upload className="h-4 w-4 mr-2" />
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+          <Button variant="outline" onClick={exportEvents} disabled={events.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Event
+          </Button>
           <Dialog open={showEventDialog} onOpenChange={setShowEventDialog}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                New Event
-              </Button>
-            </DialogTrigger>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
-                <DialogTitle>Create New Event</DialogTitle>
+                <DialogTitle>{editingOccurrence ? 'Edit Event' : 'Create New Event'}</DialogTitle>
                 <DialogDescription>
-                  Add a new event to your calendar.
+                  {editingOccurrence ? 'Update the details of this event.' : 'Add a new event to your calendar.'}
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
@@ -500,14 +750,14 @@ export function Calendar() {
                   <div className="space-y-2">
                     <Label htmlFor="case-id">Related Case</Label>
                     <Select
-                      value={newEvent.case_id}
-                      onValueChange={(value) => setNewEvent(prev => ({ ...prev, case_id: value }))}
+                      value={newEvent.case_id || 'none'}
+                      onValueChange={(value) => setNewEvent(prev => ({ ...prev, case_id: value === 'none' ? '' : value }))}
                     >
                       <SelectTrigger>
                         <SelectValue placeholder="Select case" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="">No case</SelectItem>
+                        <SelectItem value="none">No case</SelectItem>
                         {cases.map((case_) => (
                           <SelectItem key={case_.id} value={case_.id}>
                             {case_.title} - {case_.client_name}
@@ -553,12 +803,18 @@ export function Calendar() {
                   </div>
                 </div>
 
+                <RecurrenceEditor
+                  value={newEvent.recurrence_rule || ''}
+                  startDate={newEvent.start_date || ''}
+                  onChange={(rule) => setNewEvent(prev => ({ ...prev, recurrence_rule: rule }))}
+                />
+
                 <div className="flex justify-end space-x-2">
                   <Button variant="outline" onClick={() => setShowEventDialog(false)}>
                     Cancel
                   </Button>
-                  <Button onClick={createEvent} disabled={loading}>
-                    {loading ? 'Creating...' : 'Create Event'}
+                  <Button onClick={() => saveEvent()} disabled={loading}>
+                    {loading ? 'Saving...' : editingOccurrence ? 'Save Changes' : 'Create Event'}
                   </Button>
                 </div>
               </div>
@@ -567,7 +823,7 @@ export function Calendar() {
         </div>
       </div>
 
-      <Tabs value={view} onValueChange={(value) => setView(value as any)} className="space-y-6">
+      <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)} className="space-y-6">
         <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="month">Month</TabsTrigger>
           <TabsTrigger value="week">Week</TabsTrigger>
@@ -578,22 +834,7 @@ export function Calendar() {
         <TabsContent value="month" className="space-y-6">
           <Card>
             <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-xl">
-                  {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
-                </CardTitle>
-                <div className="flex items-center space-x-2">
-                  <Button variant="outline" size="sm" onClick={() => navigateMonth('prev')}>
-                    <ChevronLeft className="h-4 w-4" />
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
-                    Today
-                  </Button>
-                  <Button variant="outline" size="sm" onClick={() => navigateMonth('next')}>
-                    <ChevronRight className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
+              {renderRangeNavigation()}
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-7 gap-1 mb-4">
@@ -610,7 +851,7 @@ export function Calendar() {
                     className={`min-h-[100px] p-2 border border-gray-200 ${
                       date ? 'bg-white hover:bg-gray-50' : 'bg-gray-50'
                     } ${
-                      date && date.toDateString() === new Date().toDateString()
+                      date && isSameDay(date, new Date())
                         ? 'bg-blue-50 border-blue-200'
                         : ''
                     }`}
@@ -625,7 +866,7 @@ export function Calendar() {
                             const IconComponent = eventTypeIcons[event.event_type]
                             return (
                               <div
-                                key={event.id}
+                                key={`${event.id}-${event.occurrence_start}`}
                                 className={`text-xs p-1 rounded cursor-pointer ${eventTypeColors[event.event_type]}`}
                                 onClick={() => setSelectedEvent(event)}
                               >
@@ -651,12 +892,112 @@ export function Calendar() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="week" className="space-y-6">
+          <Card>
+            <CardHeader>
+              {renderRangeNavigation()}
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-7 gap-1">
+                {getDaysInWeek(currentDate).map(date => (
+                  <div
+                    key={date.toISOString()}
+                    className={`min-h-[240px] p-2 border border-gray-200 ${
+                      isSameDay(date, new Date()) ? 'bg-blue-50 border-blue-200' : 'bg-white'
+                    }`}
+                  >
+                    <button
+                      type="button"
+                      className="w-full text-left font-medium text-sm mb-2 hover:text-blue-600"
+                      onClick={() => {
+                        setCurrentDate(date)
+                        setView('day')
+                      }}
+                    >
+                      {dayNames[date.getDay()]} {date.getDate()}
+                    </button>
+                    <div className="space-y-1">
+                      {getEventsForDate(date).map(event => {
+                        const IconComponent = eventTypeIcons[event.event_type]
+                        return (
+                          <div
+                            key={`${event.id}-${event.occurrence_start}`}
+                            className={`text-xs p-1 rounded cursor-pointer ${eventTypeColors[event.event_type]}`}
+                            onClick={() => setSelectedEvent(event)}
+                          >
+                            <div className="flex items-center space-x-1">
+                              <IconComponent className="h-3 w-3 flex-shrink-0" />
+                              <span className="truncate">{event.title}</span>
+                            </div>
+                            <div className="text-[10px] opacity-75">{formatTime(event.start_date)}</div>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="day" className="space-y-6">
+          <Card>
+            <CardHeader>
+              {renderRangeNavigation()}
+            </CardHeader>
+            <CardContent>
+              {getEventsForDate(currentDate).length === 0 ? (
+                <div className="text-center py-8">
+                  <CalendarIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-gray-500">No events scheduled for this day</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {getEventsForDate(currentDate).map(event => {
+                    const IconComponent = eventTypeIcons[event.event_type]
+                    return (
+                      <div
+                        key={`${event.id}-${event.occurrence_start}`}
+                        className="flex items-start space-x-4 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setSelectedEvent(event)}
+                      >
+                        <div className="w-24 flex-shrink-0 text-sm text-gray-600">
+                          <div className="font-medium">{formatTime(event.start_date)}</div>
+                          {event.end_date !== event.start_date && (
+                            <div className="text-xs text-gray-500">to {formatTime(event.end_date)}</div>
+                          )}
+                        </div>
+                        <div className={`p-2 rounded-lg ${eventTypeColors[event.event_type]}`}>
+                          <IconComponent className="h-4 w-4" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <h3 className="font-medium text-gray-900 truncate">{event.title}</h3>
+                          {event.location && (
+                            <div className="flex items-center text-sm text-gray-500 mt-1">
+                              <MapPin className="h-3 w-3 mr-1" />
+                              {event.location}
+                            </div>
+                          )}
+                          {event.description && (
+                            <p className="text-sm text-gray-600 mt-1 line-clamp-2">{event.description}</p>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="agenda" className="space-y-6">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2">
               <Card>
                 <CardHeader>
-                  <CardTitle>All Events</CardTitle>
+                  {renderRangeNavigation()}
                   <CardDescription>
                     {filteredEvents.length} events found
                   </CardDescription>
@@ -673,7 +1014,7 @@ export function Calendar() {
                         const IconComponent = eventTypeIcons[event.event_type]
                         return (
                           <div
-                            key={event.id}
+                            key={`${event.id}-${event.occurrence_start}`}
                             className="flex items-start space-x-4 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 cursor-pointer"
                             onClick={() => setSelectedEvent(event)}
                           >
@@ -732,7 +1073,7 @@ export function Calendar() {
                       upcomingEvents.map(event => {
                         const IconComponent = eventTypeIcons[event.event_type]
                         return (
-                          <div key={event.id} className="flex items-center space-x-3">
+                          <div key={`${event.id}-${event.occurrence_start}`} className="flex items-center space-x-3">
                             <div className={`p-1 rounded ${eventTypeColors[event.event_type]}`}>
                               <IconComponent className="h-3 w-3" />
                             </div>
@@ -759,13 +1100,13 @@ export function Calendar() {
                 <CardContent>
                   <div className="space-y-3">
                     <div className="flex justify-between">
-                      <span className="text-sm text-gray-600">Total Events</span>
-                      <span className="font-medium">{events.length}</span>
+                      <span className="text-sm text-gray-600">Events in View</span>
+                      <span className="font-medium">{occurrences.length}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-sm text-gray-600">This Month</span>
                       <span className="font-medium">
-                        {events.filter(e => {
+                        {occurrences.filter(e => {
                           const eventDate = new Date(e.start_date)
                           return eventDate.getMonth() === new Date().getMonth() &&
                                  eventDate.getFullYear() === new Date().getFullYear()
@@ -775,7 +1116,7 @@ export function Calendar() {
                     <div className="flex justify-between">
                       <span className="text-sm text-gray-600">High Priority</span>
                       <span className="font-medium text-red-600">
-                        {events.filter(e => e.priority === 'high').length}
+                        {occurrences.filter(e => e.priority === 'high').length}
                       </span>
                     </div>
                   </div>
@@ -849,6 +1190,16 @@ export function Calendar() {
                 </p>
               </div>
 
+              {getSeries(selectedEvent).recurrence_rule && (
+                <div>
+                  <Label className="text-sm font-medium text-gray-500">Repeats</Label>
+                  <p className="mt-1 flex items-center">
+                    <Repeat className="h-4 w-4 mr-2 text-gray-400" />
+                    {describeRRule(getSeries(selectedEvent).recurrence_rule!)}
+                  </p>
+                </div>
+              )}
+
               {selectedEvent.location && (
                 <div>
                   <Label className="text-sm font-medium text-gray-500">Location</Label>
@@ -880,7 +1231,10 @@ export function Calendar() {
                 <Button variant="outline" onClick={() => setSelectedEvent(null)}>
                   Close
                 </Button>
-                <Button variant="destructive" onClick={() => deleteEvent(selectedEvent.id)}>
+                <Button variant="outline" onClick={() => openEditDialog(selectedEvent)}>
+                  Edit Event
+                </Button>
+                <Button variant="destructive" onClick={() => deleteEvent(selectedEvent)}>
                   Delete Event
                 </Button>
               </div>
@@ -888,6 +1242,33 @@ export function Calendar() {
           </DialogContent>
         </Dialog>
       )}
+
+      {/* Recurring Event Scope Dialog */}
+      <Dialog open={pendingScopeAction !== null} onOpenChange={(open) => !open && setPendingScopeAction(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingScopeAction === 'delete' ? 'Delete Recurring Event' : 'Edit Recurring Event'}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingScopeAction === 'delete'
+                ? 'Which occurrences do you want to delete?'
+                : 'Which occurrences should these changes apply to?'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col space-y-2">
+            <Button variant="outline" onClick={() => applyScope('this')}>
+              This event
+            </Button>
+            <Button variant="outline" onClick={() => applyScope('following')}>
+              This and following events
+            </Button>
+            <Button variant="outline" onClick={() => applyScope('all')}>
+              All events
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { format } from 'date-fns'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Button } from '../ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import {
+  formatRRule,
+  parseRRule,
+  describeRRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule
+} from '../../lib/recurrence'
+
+interface RecurrenceEditorProps {
+  value: string
+  startDate: string
+  onChange: (rule: string) => void
+}
+
+const weekdayLabels = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const ordinalNames = ['first', 'second', 'third', 'fourth', 'fifth']
+
+const intervalUnits: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day(s)',
+  WEEKLY: 'week(s)',
+  MONTHLY: 'month(s)',
+  YEARLY: 'year(s)'
+}
+
+export function RecurrenceEditor({ value, startDate, onChange }: RecurrenceEditorProps) {
+  const start = startDate ? new Date(startDate) : new Date()
+  const weekOfMonth = Math.ceil(start.getDate() / 7)
+
+  let rule: RecurrenceRule | null = null
+  try {
+    rule = value ? parseRRule(value) : null
+  } catch {
+    rule = null
+  }
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!rule) return
+    onChange(formatRRule({ ...rule, ...changes }))
+  }
+
+  const changeFrequency = (freq: string) => {
+    if (freq === 'none') {
+      onChange('')
+      return
+    }
+    const next: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: rule?.interval || 1, count: rule?.count, until: rule?.until }
+    if (next.freq === 'WEEKLY') {
+      next.byDay = [{ weekday: start.getDay() }]
+    }
+    onChange(formatRRule(next))
+  }
+
+  const toggleWeekday = (weekday: number) => {
+    if (!rule) return
+    const current = rule.byDay?.map(day => day.weekday) || [start.getDay()]
+    const next = current.includes(weekday) ? current.filter(day => day !== weekday) : [...current, weekday]
+    if (next.length === 0) return
+    update({ byDay: next.sort().map(day => ({ weekday: day })) })
+  }
+
+  const endsMode = rule?.count ? 'count' : rule?.until ? 'until' : 'never'
+
+  const changeEnds = (mode: string) => {
+    switch (mode) {
+      case 'count':
+        update({ count: 10, until: undefined })
+        break
+      case 'until':
+        update({ count: undefined, until: new Date(start.getFullYear(), start.getMonth() + 3, start.getDate(), 23, 59, 59) })
+        break
+      default:
+        update({ count: undefined, until: undefined })
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="event-repeat">Repeat</Label>
+          <Select value={rule?.freq || 'none'} onValueChange={changeFrequency}>
+            <SelectTrigger id="event-repeat">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="DAILY">Daily</SelectItem>
+              <SelectItem value="WEEKLY">Weekly</SelectItem>
+              <SelectItem value="MONTHLY">Monthly</SelectItem>
+              <SelectItem value="YEARLY">Yearly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {rule && (
+          <div className="space-y-2">
+            <Label htmlFor="event-interval">Every</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                id="event-interval"
+                type="number"
+                min={1}
+                value={rule.interval}
+                onChange={(e) => update({ interval: Math.max(parseInt(e.target.value) || 1, 1) })}
+                className="w-20"
+              />
+              <span className="text-sm text-gray-600">{intervalUnits[rule.freq]}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {rule?.freq === 'WEEKLY' && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <div className="flex space-x-1">
+            {weekdayLabels.map((label, weekday) => {
+              const selected = (rule?.byDay?.map(day => day.weekday) || [start.getDay()]).includes(weekday)
+              return (
+                <Button
+                  key={weekday}
+                  type="button"
+                  size="sm"
+                  variant={selected ? 'default' : 'outline'}
+                  className="w-9 px-0"
+                  title={weekdayNames[weekday]}
+                  onClick={() => toggleWeekday(weekday)}
+                >
+                  {label}
+                </Button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {rule?.freq === 'MONTHLY' && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <Select
+            value={rule.byDay?.length ? 'weekday' : 'monthday'}
+            onValueChange={(mode) => update(
+              mode === 'weekday'
+                ? { byDay: [{ weekday: start.getDay(), ordinal: weekOfMonth > 4 ? -1 : weekOfMonth }], byMonthDay: undefined }
+                : { byDay: undefined, byMonthDay: undefined }
+            )}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="monthday">Day {start.getDate()} of the month</SelectItem>
+              <SelectItem value="weekday">
+                The {weekOfMonth > 4 ? 'last' : ordinalNames[weekOfMonth - 1]} {weekdayNames[start.getDay()]}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {rule && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <Select value={endsMode} onValueChange={changeEnds}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After a number of times</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {endsMode === 'until' && rule.until && (
+            <div className="space-y-2">
+              <Label htmlFor="event-until">End date</Label>
+              <Input
+                id="event-until"
+                type="date"
+                value={format(rule.until, 'yyyy-MM-dd')}
+                onChange={(e) => {
+                  if (!e.target.value) return
+                  const [year, month, day] = e.target.value.split('-').map(Number)
+                  update({ until: new Date(year, month - 1, day, 23, 59, 59) })
+                }}
+              />
+            </div>
+          )}
+          {endsMode === 'count' && (
+            <div className="space-y-2">
+              <Label htmlFor="event-count">Occurrences</Label>
+              <Input
+                id="event-count"
+                type="number"
+                min={1}
+                value={rule.count}
+                onChange={(e) => update({ count: Math.max(parseInt(e.target.value) || 1, 1) })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-sm text-gray-500">{describeRRule(value)}</p>
+      )}
+    </div>
+  )
+}
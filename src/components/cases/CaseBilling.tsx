@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { CheckCircle, Download, FileText, RotateCcw } from 'lucide-react'
+import {
+  createInvoice,
+  listInvoices,
+  listTimeEntries,
+  loadBillingSettings,
+  setInvoiceStatus
+} from '@/blink/billing'
+import { loadLetterhead } from '@/blink/demandLetters'
+import { entryAmount, formatMoney, isUnbilled } from '@/lib/billing'
+import { exportInvoiceToPdf } from '@/lib/invoiceExport'
+import { downloadLetter } from '@/lib/letterExport'
+import type { Case } from '@/types/case'
+import type { BillingSettings, Invoice, TimeEntry } from '@/types/billing'
+import { useToast } from '@/hooks/use-toast'
+import { TimeTracker } from './TimeTracker'
+
+interface CaseBillingProps {
+  caseData: Case
+  userId: string
+}
+
+export function CaseBilling({ caseData, userId }: CaseBillingProps) {
+  const [settings, setSettings] = useState<BillingSettings | null>(null)
+  const [entries, setEntries] = useState<TimeEntry[]>([])
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    Promise.all([loadBillingSettings(userId), listTimeEntries(userId, caseData.id), listInvoices(userId, caseData.id)])
+      .then(([loadedSettings, loadedEntries, loadedInvoices]) => {
+        setSettings(loadedSettings)
+        setEntries(loadedEntries)
+        setInvoices(loadedInvoices)
+      })
+      .catch(error => console.error('Error loading billing:', error))
+  }, [caseData.id, userId])
+
+  if (!settings) {
+    return <p className="text-sm text-gray-500">Loading billing...</p>
+  }
+
+  const unbilled = entries.filter(isUnbilled)
+  const unbilledTotal = unbilled.reduce((sum, entry) => sum + entryAmount(entry), 0)
+  const outstanding = invoices
+    .filter(invoice => invoice.status === 'unpaid')
+    .reduce((sum, invoice) => sum + invoice.total, 0)
+
+  const handleCreateInvoice = async () => {
+    try {
+      setWorking(true)
+      const invoice = await createInvoice(userId, caseData.id, settings.currency)
+      setInvoices([invoice, ...invoices])
+      setEntries(await listTimeEntries(userId, caseData.id))
+      toast({
+        title: "Invoice created",
+        description: `${invoice.invoiceNumber} for ${formatMoney(invoice.total, invoice.currency)}`
+      })
+    } catch (error) {
+      console.error('Error creating invoice:', error)
+      toast({
+        title: "Error",
+        description: "Failed to create invoice",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleStatus = async (invoice: Invoice) => {
+    try {
+      const updated = await setInvoiceStatus(invoice, invoice.status === 'paid' ? 'unpaid' : 'paid')
+      setInvoices(invoices.map(candidate => (candidate.id === invoice.id ? updated : candidate)))
+    } catch (error) {
+      console.error('Error updating invoice:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update invoice status",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      const letterhead = await loadLetterhead(userId)
+      const blob = await exportInvoiceToPdf({ letterhead, caseData, invoice })
+      downloadLetter(`Invoice ${invoice.invoiceNumber} - ${caseData.caseNumber}.pdf`, blob)
+    } catch (error) {
+      console.error('Error exporting invoice:', error)
+      toast({
+        title: "Error",
+        description: "Failed to export invoice",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <TimeTracker
+        caseId={caseData.id}
+        userId={userId}
+        settings={settings}
+        entries={entries}
+        onChange={setEntries}
+      />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <FileText className="mr-2 h-5 w-5" />
+                Invoices
+              </CardTitle>
+              <CardDescription>
+                {formatMoney(outstanding, settings.currency)} outstanding · {formatMoney(unbilledTotal, settings.currency)} unbilled
+              </CardDescription>
+            </div>
+            <Button size="sm" onClick={handleCreateInvoice} disabled={working || unbilled.length === 0}>
+              {working ? 'Creating...' : `Invoice Unbilled Time (${unbilled.length})`}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 && (
+            <p className="text-sm text-gray-500">No invoices for this case.</p>
+          )}
+
+          <div className="divide-y">
+            {invoices.map(invoice => (
+              <div key={invoice.id} className="flex items-center justify-between gap-4 py-3">
+                <div>
+                  <p className="font-medium">{invoice.invoiceNumber}</p>
+                  <p className="text-sm text-gray-600">
+                    Issued {format(parseISO(invoice.issueDate), 'MMM d, yyyy')} · Due {format(parseISO(invoice.dueDate), 'MMM d, yyyy')} · {invoice.lines.length} entries
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="font-medium">{formatMoney(invoice.total, invoice.currency)}</span>
+                  <Badge className={invoice.status === 'paid' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
+                    {invoice.status === 'paid' ? 'Paid' : 'Unpaid'}
+                  </Badge>
+                  <Button size="sm" variant="ghost" onClick={() => handleStatus(invoice)}>
+                    {invoice.status === 'paid'
+                      ? <><RotateCcw className="h-4 w-4 mr-1" />Mark Unpaid</>
+                      : <><CheckCircle className="h-4 w-4 mr-1" />Mark Paid</>}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDownload(invoice)} title="Download PDF">
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -35,9 +35,52 @@ import {
   Target,
   Bell
 } from 'lucide-react'
-import { Case, Document } from '@/types/case'
+import { Case, CaseStatusChange, Document } from '@/types/case'
+import type { CaseDeadline } from '@/types/deadline'
+import type { ExpenseTotals } from '@/types/expense'
+import type { CaseStatus, CaseWorkflow, ChecklistCompletion } from '@/types/workflow'
+import type { CaseParty, ConflictCheckReport } from '@/types/conflict'
+import type { CaseMessage } from '@/types/message'
+import type { PortalCaseRecord } from '@/types/portal'
+import { differenceInCalendarDays } from 'date-fns'
 import { blink } from '@/blink/client'
+import { listCaseCalendarEvents } from '@/blink/calendarEvents'
+import { listCaseDeadlines } from '@/blink/deadlineChains'
+import { getDamagesWorksheet } from '@/blink/damages'
+import { assertCaseCanClose, listCaseLiens } from '@/blink/liens'
+import { listCaseExpenses } from '@/blink/expenses'
+import { notifyCaseStatusChange } from '@/blink/notifications'
+import { listCaseHistory, recordCaseChanges } from '@/blink/caseStatusHistory'
+import { updateClientContact } from '@/blink/clients'
+import { createStageTasks, getCaseWorkflow, listChecklistCompletions } from '@/blink/caseWorkflows'
+import { getConflictReport, listCaseParties } from '@/blink/conflicts'
+import { CLOSE_BLOCKED_BY_LIENS, isLienResolved } from '@/lib/liens'
+import { CASE_STATUSES, allowedTransitions, findStage, transitionBlocker } from '@/lib/workflow'
+import { summarizeExpenses } from '@/lib/expenses'
+import { unreadMessages } from '@/lib/messages'
+import { findPortalCase, firmMessages } from '@/services/firm'
+import { buildICalendar, calendarEventToICal, deadlineToICal, downloadICalendar } from '@/lib/ical'
+import {
+  JURISDICTIONS,
+  calculateStatuteOfLimitations,
+  getJurisdictionName,
+  getStatuteFields
+} from '@/lib/statuteOfLimitations'
+import { useFirmSession } from '@/hooks/use-firm-session'
 import { useToast } from '@/hooks/use-toast'
+import { CourtRuleTriggers } from './CourtRuleTriggers'
+import { NegotiationLedger } from '@/components/negotiator/NegotiationLedger'
+import { DamagesCalculator } from './DamagesCalculator'
+import { SettlementStatementEditor } from './SettlementStatementEditor'
+import { LienRegister } from './LienRegister'
+import { ExpenseLedger } from './ExpenseLedger'
+import { CaseBilling } from './CaseBilling'
+import { StageChecklist } from './StageChecklist'
+import { ConflictCheckReportCard } from './ConflictCheckReportCard'
+import { FirmPortalSignIn } from '@/components/auth/FirmPortalSignIn'
+import { CaseMessageThread } from '@/components/messages/CaseMessageThread'
+import { PortalDocumentsCard } from '@/components/documents/PortalDocumentsCard'
+import { DocumentRequestsCard } from '@/components/documents/DocumentRequestsCard'
 
 interface CaseDetailProps {
   caseId: string
@@ -52,22 +95,26 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
   const [editing, setEditing] = useState(false)
   const [saving, setSaving] = useState(false)
   const [user, setUser] = useState<any>(null)
+  const firmSession = useFirmSession()
+  // The backend's copy of the case, which the client portal's messages and documents belong to
+  const [portalCase, setPortalCase] = useState<PortalCaseRecord | null>(null)
   const { toast } = useToast()
 
   // Form state for editing
   const [formData, setFormData] = useState<Partial<Case>>({})
 
   // Deadline/Timeline management state
-  const [deadlines, setDeadlines] = useState<Array<{
-    id: string
-    title: string
-    description: string
-    dueDate: string
-    priority: 'low' | 'medium' | 'high' | 'urgent'
-    type: 'deadline' | 'milestone' | 'reminder'
-    completed: boolean
-    createdAt: string
-  }>>([])
+  const [deadlines, setDeadlines] = useState<CaseDeadline[]>([])
+  const [history, setHistory] = useState<CaseStatusChange[]>([])
+  const [workflow, setWorkflow] = useState<CaseWorkflow | null>(null)
+  const [checklist, setChecklist] = useState<ChecklistCompletion[]>([])
+  const [parties, setParties] = useState<CaseParty[]>([])
+  const [conflictReport, setConflictReport] = useState<ConflictCheckReport | null>(null)
+  // Once a damages worksheet exists, it sets the estimated value and settlement goal
+  const [hasDamagesWorksheet, setHasDamagesWorksheet] = useState(false)
+  const [unresolvedLienCount, setUnresolvedLienCount] = useState(0)
+  const [unreadMessageCount, setUnreadMessageCount] = useState(0)
+  const [expenseTotals, setExpenseTotals] = useState<ExpenseTotals>(summarizeExpenses([]))
   const [isDeadlineDialogOpen, setIsDeadlineDialogOpen] = useState(false)
   const [isCaseEditDialogOpen, setIsCaseEditDialogOpen] = useState(false)
   const [newDeadline, setNewDeadline] = useState({
@@ -172,36 +219,54 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
 
       // Load deadlines from database
       try {
-        console.log('Loading deadlines for case:', caseId, 'user:', user.id)
-        const deadlinesData = await blink.db.deadlines.list({
-          where: { 
-            case_id: caseId,  // Use snake_case
-            user_id: user.id  // Use snake_case
-          },
-          orderBy: { due_date: 'asc' }  // Use snake_case
-        })
-        
-        console.log('Loaded deadlines from DB:', deadlinesData)
-        
-        // Convert database format to component format
-        const formattedDeadlines = deadlinesData.map(d => ({
-          id: d.id,
-          title: d.title,
-          description: d.description || '',
-          dueDate: d.due_date,  // Convert from snake_case
-          priority: d.priority as 'low' | 'medium' | 'high' | 'urgent',
-          type: d.type as 'deadline' | 'milestone' | 'reminder',
-          completed: Number(d.completed) > 0, // Convert SQLite boolean
-          createdAt: d.created_at  // Convert from snake_case
-        }))
-        
-        console.log('Formatted deadlines:', formattedDeadlines)
-        setDeadlines(formattedDeadlines)
+        setDeadlines(await listCaseDeadlines(user.id, caseId))
       } catch (error) {
         console.error('Error loading deadlines:', error)
         setDeadlines([])
       }
 
+      try {
+        setHistory(await listCaseHistory(user.id, caseId))
+      } catch (error) {
+        console.error('Error loading case history:', error)
+      }
+
+      try {
+        setChecklist(await listChecklistCompletions(user.id, caseId))
+      } catch (error) {
+        console.error('Error loading checklist:', error)
+      }
+
+      try {
+        const [caseParties, report] = await Promise.all([
+          listCaseParties(user.id, caseId),
+          getConflictReport(user.id, caseId)
+        ])
+        setParties(caseParties)
+        setConflictReport(report)
+      } catch (error) {
+        console.error('Error loading conflict check:', error)
+      }
+
+      try {
+        setHasDamagesWorksheet(Boolean(await getDamagesWorksheet(user.id, caseId)))
+      } catch (error) {
+        console.error('Error loading damages worksheet:', error)
+      }
+
+      try {
+        const liens = await listCaseLiens(user.id, caseId)
+        setUnresolvedLienCount(liens.filter(lien => !isLienResolved(lien)).length)
+      } catch (error) {
+        console.error('Error loading liens:', error)
+      }
+
+      try {
+        setExpenseTotals(summarizeExpenses(await listCaseExpenses(user.id, caseId)))
+      } catch (error) {
+        console.error('Error loading expenses:', error)
+      }
+
     } catch (error) {
       console.error('Error loading case:', error)
       toast({
@@ -220,19 +285,118 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
     }
   }, [loadCaseData, user?.id])
 
+  // The workflow follows the case type, so it reloads when the type changes
+  useEffect(() => {
+    if (!user?.id || !caseData?.caseType) return
+    getCaseWorkflow(user.id, caseData.caseType)
+      .then(setWorkflow)
+      .catch(error => console.error('Error loading workflow:', error))
+  }, [user?.id, caseData?.caseType])
+
+  useEffect(() => {
+    setPortalCase(null)
+    if (!firmSession || !caseData?.caseNumber) return
+    findPortalCase(firmSession, caseData.caseNumber)
+      .then(setPortalCase)
+      .catch(error => console.error('Error finding the case on the client portal:', error))
+  }, [firmSession, caseData?.caseNumber])
+
+  const messageSource = useMemo(() => (firmSession ? firmMessages(firmSession) : null), [firmSession])
+
+  useEffect(() => {
+    setUnreadMessageCount(0)
+    if (!messageSource || !portalCase) return
+    messageSource.listMessages(portalCase.id)
+      .then(thread => setUnreadMessageCount(unreadMessages(thread, 'attorney').length))
+      .catch(error => console.error('Error loading messages:', error))
+  }, [messageSource, portalCase])
+
+  // Opening the thread marks the client's messages read
+  const handleMessagesChange = useCallback((thread: CaseMessage[]) => {
+    setUnreadMessageCount(unreadMessages(thread, 'attorney').length)
+  }, [])
+
+  // Reloads deadlines after a court-rule chain is generated, recomputed or deleted
+  const refreshDeadlines = async () => {
+    if (!user?.id) return
+
+    try {
+      setDeadlines(await listCaseDeadlines(user.id, caseId))
+    } catch (error) {
+      console.error('Error loading deadlines:', error)
+    }
+  }
+
   const handleSave = async () => {
     if (!user?.id || !caseData) return
 
+    const blocked = workflow && formData.status
+      ? transitionBlocker(workflow, caseData.status, formData.status, new Set(checklist.map(completion => completion.itemId)))
+      : null
+    if (blocked) {
+      toast({
+        title: "Error",
+        description: blocked,
+        variant: "destructive"
+      })
+      return
+    }
+
     try {
       setSaving(true)
+
+      if (formData.status === 'closed' && caseData.status !== 'closed') {
+        await assertCaseCanClose(user.id, caseData.id)
+      }
       
-      await blink.db.cases.update(caseData.id, {
-        ...formData,
+      // The statute of limitations follows the incident, jurisdiction and client details. The
+      // current offer follows the negotiation ledger and the lock the settlement statement, so
+      // the form never writes them back.
+      const { currentOffer, financialsLocked, ...edited } = formData
+      const updates = {
+        ...edited,
+        ...getStatuteFields({ ...caseData, ...formData }),
         updatedAt: new Date().toISOString()
-      })
+      }
 
-      setCaseData({ ...caseData, ...formData, updatedAt: new Date().toISOString() })
+      await blink.db.cases.update(caseData.id, updates)
+
+      setCaseData({ ...caseData, ...updates })
       setEditing(false)
+
+      const contactChanged = (['clientName', 'clientEmail', 'clientPhone', 'clientDateOfBirth'] as const)
+        .some(field => (updates[field] || '') !== (caseData[field] || ''))
+      if (caseData.clientId && contactChanged) {
+        updateClientContact(user.id, caseData.clientId, {
+          clientName: updates.clientName || caseData.clientName,
+          clientEmail: updates.clientEmail || '',
+          clientPhone: updates.clientPhone || '',
+          clientDateOfBirth: updates.clientDateOfBirth
+        }).catch(error => {
+          console.error('Error updating client:', error)
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to update the client record",
+            variant: "destructive"
+          })
+        })
+      }
+
+      recordCaseChanges({ id: user.id, name: user.displayName || user.email }, caseData, updates)
+        .then(changes => setHistory(prev => [...prev, ...changes]))
+        .catch(error => console.error('Error recording case history:', error))
+
+      if (updates.status && updates.status !== caseData.status) {
+        notifyCaseStatusChange(user.id, { ...caseData, ...updates }, caseData.status)
+          .catch(error => console.error('Error sending status notification:', error))
+
+        const stage = workflow && findStage(workflow, updates.status)
+        if (stage) {
+          createStageTasks(user.id, caseData.id, stage)
+            .then(tasks => setDeadlines(prev => [...prev, ...tasks]))
+            .catch(error => console.error('Error creating workflow tasks:', error))
+        }
+      }
       
       toast({
         title: "Success",
@@ -243,7 +407,9 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
       console.error('Error updating case:', error)
       toast({
         title: "Error",
-        description: "Failed to update case",
+        description: error instanceof Error && error.message === CLOSE_BLOCKED_BY_LIENS
+          ? CLOSE_BLOCKED_BY_LIENS
+          : "Failed to update case",
         variant: "destructive"
       })
     } finally {
@@ -273,6 +439,13 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
     }
   }
 
+  const getStatuteColor = (daysLeft: number) => {
+    if (daysLeft < 0) return 'bg-gray-800 text-white'
+    if (daysLeft <= 90) return 'bg-red-100 text-red-800'
+    if (daysLeft <= 180) return 'bg-orange-100 text-orange-800'
+    return 'bg-green-100 text-green-800'
+  }
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -281,6 +454,30 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
   }
 
+  // Exports the case deadlines together with the calendar events linked to the case
+  const exportTimeline = async () => {
+    if (!user?.id || !caseData) return
+
+    try {
+      const caseEvents = await listCaseCalendarEvents(user.id, caseData.id)
+      const content = buildICalendar(
+        [
+          ...deadlines.map(deadline => deadlineToICal(deadline, caseData.caseNumber)),
+          ...caseEvents.map(event => calendarEventToICal(event, caseData.caseNumber))
+        ],
+        `${caseData.caseNumber} - ${caseData.clientName}`
+      )
+      downloadICalendar(`${caseData.caseNumber}-deadlines`, content)
+    } catch (error) {
+      console.error('Error exporting deadlines:', error)
+      toast({
+        title: "Error",
+        description: "Failed to export deadlines",
+        variant: "destructive"
+      })
+    }
+  }
+
   // Deadline management functions
   const handleCreateDeadline = async () => {
     if (!newDeadline.title || !newDeadline.dueDate || !user?.id || !caseId) {
@@ -446,6 +643,19 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
     )
   }
 
+  const financialsLocked = Number(caseData.financialsLocked) > 0 // SQLite boolean
+
+  const statute = calculateStatuteOfLimitations({
+    jurisdiction: caseData.jurisdiction,
+    caseType: caseData.caseType,
+    incidentDate: caseData.incidentDate,
+    discoveryDate: caseData.discoveryDate,
+    clientDateOfBirth: caseData.clientDateOfBirth
+  })
+  const statuteDaysLeft = statute
+    ? differenceInCalendarDays(new Date(`${statute.deadline}T00:00:00`), new Date())
+    : null
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -494,6 +704,11 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                 <Badge className={getStatusColor(caseData.status)}>
                   {caseData.status}
                 </Badge>
+                {unresolvedLienCount > 0 && (
+                  <p className="text-xs text-red-600 mt-1">
+                    {unresolvedLienCount} unresolved lien{unresolvedLienCount === 1 ? '' : 's'} block closing
+                  </p>
+                )}
               </div>
               <CheckCircle className="h-8 w-8 text-green-500" />
             </div>
@@ -550,10 +765,35 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="documents">Documents ({documents.length})</TabsTrigger>
           <TabsTrigger value="timeline">Timeline</TabsTrigger>
+          <TabsTrigger value="damages">Damages</TabsTrigger>
+          <TabsTrigger value="expenses">Expenses</TabsTrigger>
+          <TabsTrigger value="billing">Billing</TabsTrigger>
+          <TabsTrigger value="liens">
+            Liens{unresolvedLienCount > 0 && ` (${unresolvedLienCount} open)`}
+          </TabsTrigger>
           <TabsTrigger value="negotiation">Negotiation</TabsTrigger>
+          <TabsTrigger value="messages">
+            Messages{unreadMessageCount > 0 && ` (${unreadMessageCount} unread)`}
+          </TabsTrigger>
+          {(caseData.status === 'settled' || financialsLocked) && (
+            <TabsTrigger value="settlement">Settlement</TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
+          {workflow && user && (
+            <StageChecklist
+              caseId={caseData.id}
+              status={caseData.status}
+              actor={{ id: user.id, name: user.displayName || user.email }}
+              workflow={workflow}
+              completions={checklist}
+              onChange={setChecklist}
+            />
+          )}
+
+          <ConflictCheckReportCard report={conflictReport} parties={parties} />
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Client Information */}
             <Card>
@@ -640,6 +880,23 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="jurisdiction">Jurisdiction</Label>
+                      <Select
+                        value={formData.jurisdiction || 'other'}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, jurisdiction: value === 'other' ? '' : value }))}
+                      >
+                        <SelectTrigger id="jurisdiction">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(JURISDICTIONS).map(([code, name]) => (
+                            <SelectItem key={code} value={code}>{name}</SelectItem>
+                          ))}
+                          <SelectItem value="other">Other / unspecified</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="incidentDate">Incident Date</Label>
                       <Input
@@ -649,6 +906,26 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                         onChange={(e) => setFormData(prev => ({ ...prev, incidentDate: e.target.value }))}
                       />
                     </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="discoveryDate">Injury Discovered</Label>
+                        <Input
+                          id="discoveryDate"
+                          type="date"
+                          value={formData.discoveryDate || ''}
+                          onChange={(e) => setFormData(prev => ({ ...prev, discoveryDate: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="clientDateOfBirth">Client Date of Birth</Label>
+                        <Input
+                          id="clientDateOfBirth"
+                          type="date"
+                          value={formData.clientDateOfBirth || ''}
+                          onChange={(e) => setFormData(prev => ({ ...prev, clientDateOfBirth: e.target.value }))}
+                        />
+                      </div>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="assignedAttorney">Assigned Attorney</Label>
                       <Input
@@ -664,6 +941,10 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                       <span className="text-sm text-gray-600">Case Type:</span>
                       <p className="font-medium capitalize">{caseData.caseType.replace('_', ' ')}</p>
                     </div>
+                    <div>
+                      <span className="text-sm text-gray-600">Jurisdiction:</span>
+                      <p className="font-medium">{getJurisdictionName(caseData.jurisdiction)}</p>
+                    </div>
                     <div>
                       <span className="text-sm text-gray-600">Incident Date:</span>
                       <p className="font-medium">{new Date(caseData.incidentDate).toLocaleDateString()}</p>
@@ -677,6 +958,46 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
               </CardContent>
             </Card>
 
+            {/* Statute of Limitations */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <AlertTriangle className="mr-2 h-5 w-5" />
+                  Statute of Limitations
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {statute ? (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="text-sm text-gray-600">Filing Deadline:</span>
+                        <p className="font-medium">{new Date(`${statute.deadline}T00:00:00`).toLocaleDateString()}</p>
+                      </div>
+                      <Badge className={getStatuteColor(statuteDaysLeft!)}>
+                        {statuteDaysLeft! < 0 ? `${Math.abs(statuteDaysLeft!)} days past` : `${statuteDaysLeft} days left`}
+                      </Badge>
+                    </div>
+                    <div>
+                      <span className="text-sm text-gray-600">Governing Rule:</span>
+                      <p className="font-medium">{statute.rule.summary}</p>
+                      <p className="text-sm text-gray-500">{statute.rule.citation}</p>
+                    </div>
+                    <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1">
+                      {statute.explanation.slice(1).map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-gray-400">
+                      Calculated estimate - confirm against current law before relying on it.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">Add an incident date to calculate the filing deadline.</p>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Insurance Information */}
             <Card>
               <CardHeader>
@@ -737,6 +1058,7 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                         id="estimatedValue"
                         type="number"
                         value={formData.estimatedValue || ''}
+                        disabled={hasDamagesWorksheet || financialsLocked}
                         onChange={(e) => setFormData(prev => ({ ...prev, estimatedValue: parseInt(e.target.value) || 0 }))}
                       />
                     </div>
@@ -746,9 +1068,15 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                         id="settlementGoal"
                         type="number"
                         value={formData.settlementGoal || ''}
+                        disabled={hasDamagesWorksheet || financialsLocked}
                         onChange={(e) => setFormData(prev => ({ ...prev, settlementGoal: parseInt(e.target.value) || 0 }))}
                       />
                     </div>
+                    {financialsLocked ? (
+                      <p className="text-xs text-gray-500">Locked by the approved settlement statement</p>
+                    ) : hasDamagesWorksheet && (
+                      <p className="text-xs text-gray-500">Calculated from the damages worksheet</p>
+                    )}
                   </>
                 ) : (
                   <>
@@ -768,6 +1096,15 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                         <p className="font-medium text-lg">${caseData.settlementGoal.toLocaleString()}</p>
                       </div>
                     )}
+                    <Separator />
+                    <div>
+                      <span className="text-sm text-gray-600">Costs Advanced:</span>
+                      <p className="font-medium text-lg">${expenseTotals.total.toLocaleString()}</p>
+                      <p className="text-xs text-gray-500">
+                        ${expenseTotals.reimbursable.toLocaleString()} reimbursable ·
+                        ${expenseTotals.billable.toLocaleString()} billable
+                      </p>
+                    </div>
                   </>
                 )}
               </CardContent>
@@ -1023,11 +1360,22 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <Button size="sm" variant="outline">
-                          <Eye className="h-4 w-4" />
+                        <Button size="sm" variant="outline" asChild>
+                          <a
+                            href={doc.publicUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </a>
                         </Button>
-                        <Button size="sm" variant="outline">
-                          <Download className="h-4 w-4" />
+                        <Button size="sm" variant="outline" asChild>
+                          <a
+                            href={doc.publicUrl}
+                            download={doc.fileName}
+                          >
+                            <Download className="h-4 w-4" />
+                          </a>
                         </Button>
                         <Button size="sm" variant="outline">
                           <Trash2 className="h-4 w-4" />
@@ -1048,9 +1396,36 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
               )}
             </CardContent>
           </Card>
+
+          {!firmSession ? (
+            <FirmPortalSignIn
+              title="Client Portal Documents"
+              description="Sign in to the client portal with your firm login to share files with the client and request documents from them."
+            />
+          ) : portalCase ? (
+            <>
+              <PortalDocumentsCard session={firmSession} portalCase={portalCase} />
+              <DocumentRequestsCard session={firmSession} portalCase={portalCase} />
+            </>
+          ) : (
+            <Card>
+              <CardContent className="text-center py-8 text-gray-600">
+                {caseData.caseNumber} is not on the client portal, so no files can be shared with the client yet.
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         <TabsContent value="timeline" className="space-y-4">
+          {user?.id && (
+            <CourtRuleTriggers
+              caseId={caseData.id}
+              userId={user.id}
+              jurisdiction={caseData.jurisdiction}
+              deadlines={deadlines}
+              onDeadlinesChange={refreshDeadlines}
+            />
+          )}
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle className="flex items-center">
@@ -1058,6 +1433,10 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                 Case Timeline
               </CardTitle>
               <div className="flex items-center space-x-2">
+                <Button size="sm" variant="outline" onClick={exportTimeline}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export .ics
+                </Button>
                 <Dialog open={isCaseEditDialogOpen} onOpenChange={setIsCaseEditDialogOpen}>
                   <DialogTrigger asChild>
                     <Button size="sm" variant="outline">
@@ -1151,12 +1530,23 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="new">New</SelectItem>
-                                <SelectItem value="investigating">Investigating</SelectItem>
-                                <SelectItem value="negotiating">Negotiating</SelectItem>
-                                <SelectItem value="settled">Settled</SelectItem>
-                                <SelectItem value="litigation">Litigation</SelectItem>
-                                <SelectItem value="closed">Closed</SelectItem>
+                                {/* Only the current status and the moves its workflow stage allows */}
+                                {(Object.keys(CASE_STATUSES) as CaseStatus[])
+                                  .filter(status =>
+                                    status === caseData.status ||
+                                    !workflow ||
+                                    allowedTransitions(workflow, caseData.status).includes(status)
+                                  )
+                                  .map(status => (
+                                    <SelectItem
+                                      key={status}
+                                      value={status}
+                                      disabled={status === 'closed' && unresolvedLienCount > 0}
+                                    >
+                                      {CASE_STATUSES[status]}
+                                      {status === 'closed' && unresolvedLienCount > 0 && ' (liens unresolved)'}
+                                    </SelectItem>
+                                  ))}
                               </SelectContent>
                             </Select>
                           </div>
@@ -1196,6 +1586,7 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                               id="editEstimatedValue"
                               type="number"
                               value={formData.estimatedValue || ''}
+                              disabled={hasDamagesWorksheet || financialsLocked}
                               onChange={(e) => setFormData(prev => ({ ...prev, estimatedValue: parseInt(e.target.value) || 0 }))}
                             />
                           </div>
@@ -1205,10 +1596,16 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                               id="editSettlementGoal"
                               type="number"
                               value={formData.settlementGoal || ''}
+                              disabled={hasDamagesWorksheet || financialsLocked}
                               onChange={(e) => setFormData(prev => ({ ...prev, settlementGoal: parseInt(e.target.value) || 0 }))}
                             />
                           </div>
                         </div>
+                        {financialsLocked ? (
+                          <p className="text-xs text-gray-500">Locked by the approved settlement statement</p>
+                        ) : hasDamagesWorksheet && (
+                          <p className="text-xs text-gray-500">Calculated from the damages worksheet</p>
+                        )}
                       </div>
 
                       {/* Case Description */}
@@ -1362,22 +1759,17 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                       icon: 'create',
                       color: 'blue'
                     },
-                    {
-                      type: 'case_event',
-                      date: caseData.createdAt,
-                      title: 'Investigation Started',
-                      description: 'Initial case review and document collection',
-                      icon: 'investigate',
-                      color: 'yellow'
-                    },
-                    {
+                    // Status and priority changes as recorded
+                    ...history.map(change => ({
                       type: 'case_event',
-                      date: caseData.updatedAt,
-                      title: 'Negotiation Phase',
-                      description: 'Currently in active negotiation with insurance',
-                      icon: 'negotiate',
-                      color: 'orange'
-                    },
+                      date: change.changedAt,
+                      title: change.field === 'status'
+                        ? `Status changed to ${change.toValue}`
+                        : `Priority changed to ${change.toValue}`,
+                      description: `From ${change.fromValue || 'unset'}${change.actorName ? ` by ${change.actorName}` : ''}`,
+                      icon: change.field === 'priority' ? 'priority' : change.toValue,
+                      color: change.field === 'priority' ? 'gray' : change.toValue === 'settled' ? 'green' : 'orange'
+                    })),
                     // Add deadlines to timeline
                     ...deadlines.map(deadline => ({
                       type: 'deadline',
@@ -1404,8 +1796,10 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                   const getTimelineIcon = (icon: string) => {
                     switch (icon) {
                       case 'create': return <FileText className="h-4 w-4" />
-                      case 'investigate': return <Eye className="h-4 w-4" />
-                      case 'negotiate': return <MessageSquare className="h-4 w-4" />
+                      case 'investigating': return <Eye className="h-4 w-4" />
+                      case 'negotiating': return <MessageSquare className="h-4 w-4" />
+                      case 'settled': return <DollarSign className="h-4 w-4" />
+                      case 'priority': return <AlertTriangle className="h-4 w-4" />
                       case 'deadline': return <AlertTriangle className="h-4 w-4" />
                       case 'milestone': return <Target className="h-4 w-4" />
                       case 'reminder': return <Bell className="h-4 w-4" />
@@ -1453,6 +1847,9 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                                   <Badge className={getPriorityColor(item.deadline?.priority || 'medium')}>
                                     {item.deadline?.priority}
                                   </Badge>
+                                  {item.deadline?.ruleId && (
+                                    <Badge variant="outline">Court rule</Badge>
+                                  )}
                                   {item.completed && (
                                     <Badge className="bg-green-100 text-green-800">
                                       Completed
@@ -1535,6 +1932,43 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
           </Card>
         </TabsContent>
 
+        <TabsContent value="damages" className="space-y-4">
+          <DamagesCalculator
+            caseData={caseData}
+            userId={user.id}
+            documents={documents}
+            onSaved={(calculation) => {
+              const values = { estimatedValue: calculation.caseValue, settlementGoal: calculation.settlementGoal }
+              setCaseData(prev => prev && { ...prev, ...values })
+              setFormData(prev => ({ ...prev, ...values }))
+              setHasDamagesWorksheet(true)
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="expenses" className="space-y-4">
+          <ExpenseLedger
+            caseId={caseData.id}
+            userId={user.id}
+            documents={documents}
+            onChange={(expenses) => setExpenseTotals(summarizeExpenses(expenses))}
+            onReceiptUploaded={(receipt) => setDocuments(prev => [receipt, ...prev])}
+          />
+        </TabsContent>
+
+        <TabsContent value="billing" className="space-y-4">
+          <CaseBilling caseData={caseData} userId={user.id} />
+        </TabsContent>
+
+        <TabsContent value="liens" className="space-y-4">
+          <LienRegister
+            caseId={caseData.id}
+            userId={user.id}
+            documents={documents}
+            onChange={(liens) => setUnresolvedLienCount(liens.filter(lien => !isLienResolved(lien)).length)}
+          />
+        </TabsContent>
+
         <TabsContent value="negotiation" className="space-y-4">
           <Card>
             <CardHeader>
@@ -1557,17 +1991,52 @@ export function CaseDetail({ caseId, onBack, onNavigate }: CaseDetailProps) {
                     />
                   </div>
                 )}
-                <div className="text-center py-8">
-                  <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <p className="text-gray-600">No negotiation messages yet</p>
-                  <Button className="mt-4">
-                    Start AI Negotiation
+                <NegotiationLedger
+                  caseData={caseData}
+                  userId={user.id}
+                  onChange={(negotiation) => {
+                    if (negotiation.currentOffer) {
+                      setCaseData(prev => prev && { ...prev, currentOffer: negotiation.currentOffer })
+                    }
+                  }}
+                />
+                {onNavigate && (
+                  <Button variant="outline" className="w-full" onClick={() => onNavigate('negotiator', caseData.id)}>
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    Open in AI Negotiator
                   </Button>
-                </div>
+                )}
               </div>
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="messages" className="space-y-4">
+          {!firmSession || !messageSource ? (
+            <FirmPortalSignIn
+              title="Messages"
+              description="Clients write from the client portal. Sign in to it with your firm login to read and answer their messages."
+            />
+          ) : portalCase ? (
+            <CaseMessageThread
+              source={messageSource}
+              caseRecord={portalCase}
+              viewer={{ role: 'attorney', name: firmSession.user.name }}
+              otherName={caseData.clientName}
+              onChange={handleMessagesChange}
+            />
+          ) : (
+            <Card>
+              <CardContent className="text-center py-8 text-gray-600">
+                {caseData.caseNumber} is not on the client portal, so there is no conversation with the client yet.
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="settlement" className="space-y-4">
+          <SettlementStatementEditor caseData={caseData} userId={user.id} onLocked={loadCaseData} />
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -24,8 +24,16 @@ import {
   Loader2
 } from 'lucide-react'
 import { Case } from '@/types/case'
+import type { Client } from '@/types/client'
+import type { ConflictClearance, PartyInput } from '@/types/conflict'
 import { blink } from '@/blink/client'
+import { listClients, saveClient } from '@/blink/clients'
+import { saveCaseParties, saveConflictReport } from '@/blink/conflicts'
+import { caseContact, clientFromContact } from '@/lib/clients'
+import { clearanceProblem, partiesKey } from '@/lib/conflicts'
+import { JURISDICTIONS, getStatuteFields } from '@/lib/statuteOfLimitations'
 import { useToast } from '@/hooks/use-toast'
+import { ConflictCheckPanel } from './ConflictCheckPanel'
 
 interface CaseListProps {
   onCaseSelect: (caseId: string) => void
@@ -37,6 +45,7 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
   const [priorityFilter, setPriorityFilter] = useState('all')
   const [isNewCaseOpen, setIsNewCaseOpen] = useState(false)
   const [cases, setCases] = useState<Case[]>([])
+  const [clients, setClients] = useState<Client[]>([])
   const [loading, setLoading] = useState(true)
   const [creating, setCreating] = useState(false)
   const [user, setUser] = useState<any>(null)
@@ -44,6 +53,7 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
 
   // Form state
   const [formData, setFormData] = useState({
+    clientId: '',
     clientName: '',
     clientEmail: '',
     clientPhone: '',
@@ -52,11 +62,18 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
     claimNumber: '',
     estimatedValue: '',
     incidentDate: '',
+    discoveryDate: '',
+    clientDateOfBirth: '',
+    jurisdiction: '',
     description: '',
     priority: 'medium',
     assignedAttorney: ''
   })
 
+  // Conflict check state
+  const [parties, setParties] = useState<PartyInput[]>([])
+  const [clearance, setClearance] = useState<ConflictClearance | null>(null)
+
   // Document upload state
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([])
   const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({})
@@ -67,15 +84,20 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
     
     try {
       setLoading(true)
-      const casesData = await blink.db.cases.list({
-        where: { userId: user.id },
-        orderBy: { createdAt: 'desc' }
-      })
+      const [casesData, clientsData] = await Promise.all([
+        blink.db.cases.list({
+          where: { userId: user.id },
+          orderBy: { createdAt: 'desc' }
+        }),
+        listClients(user.id)
+      ])
+      setClients(clientsData)
       
       // Convert snake_case to camelCase
       const formattedCases = casesData.map((caseData: any) => ({
         id: caseData.id,
         caseNumber: caseData.case_number,
+        clientId: caseData.client_id,
         clientName: caseData.client_name,
         clientEmail: caseData.client_email || '',
         clientPhone: caseData.client_phone || '',
@@ -162,6 +184,26 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
     return `${prefix}-${year}-${random}`
   }
 
+  // Picking an existing client fills in their details; "new" starts from blank ones
+  const selectClient = (clientId: string) => {
+    const client = clients.find(existing => existing.id === clientId)
+    setFormData(prev => ({
+      ...prev,
+      clientId: client ? client.id : '',
+      clientName: client ? client.name : '',
+      clientEmail: client ? client.email : '',
+      clientPhone: client ? client.phone : '',
+      clientDateOfBirth: client ? client.dateOfBirth : ''
+    }))
+  }
+
+  const clientParty: PartyInput = {
+    role: 'client',
+    name: formData.clientName,
+    email: formData.clientEmail,
+    phone: formData.clientPhone
+  }
+
   const handleCreateCase = async () => {
     if (!user) return
     
@@ -174,6 +216,25 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
       return
     }
 
+    // The firm must not open a case against someone it represents or has represented
+    if (!clearance || partiesKey(clearance.result.parties) !== partiesKey([clientParty, ...parties])) {
+      toast({
+        title: "Error",
+        description: "Run the conflict check for the current parties before creating the case",
+        variant: "destructive"
+      })
+      return
+    }
+    const problem = clearanceProblem(clearance.result, clearance.cleared, clearance.notes)
+    if (problem) {
+      toast({
+        title: "Error",
+        description: problem,
+        variant: "destructive"
+      })
+      return
+    }
+
     setCreating(true)
     setUploading(true)
 
@@ -181,26 +242,51 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
       // Generate case number and ID
       const caseNumber = generateCaseNumber(formData.caseType)
       const caseId = `case_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+      const incidentDate = formData.incidentDate || new Date().toISOString().split('T')[0]
+      const statute = getStatuteFields({
+        caseType: formData.caseType as Case['caseType'],
+        jurisdiction: formData.jurisdiction,
+        incidentDate,
+        discoveryDate: formData.discoveryDate,
+        clientDateOfBirth: formData.clientDateOfBirth
+      })
       
+      // The case links to the chosen client, or to a new client record for the details entered
+      const client = clients.find(existing => existing.id === formData.clientId) ||
+        await saveClient(user.id, clientFromContact(formData))
+
       // Create case using Blink SDK
       const newCase = await blink.db.cases.create({
         id: caseId,
         userId: user.id,
         caseNumber: caseNumber,
-        clientName: formData.clientName,
-        clientEmail: formData.clientEmail,
-        clientPhone: formData.clientPhone || '',
+        clientId: client.id,
+        ...caseContact(client),
         caseType: formData.caseType,
         status: 'new',
         priority: formData.priority,
         insuranceCompany: formData.insuranceCompany || '',
         claimNumber: formData.claimNumber || '',
         estimatedValue: parseInt(formData.estimatedValue) || 0,
-        incidentDate: formData.incidentDate || new Date().toISOString().split('T')[0],
+        incidentDate,
+        discoveryDate: formData.discoveryDate || null,
+        clientDateOfBirth: formData.clientDateOfBirth || null,
+        jurisdiction: formData.jurisdiction || null,
+        statuteOfLimitations: statute.statuteOfLimitations || null,
+        statuteRule: statute.statuteRule || null,
         description: formData.description || '',
         nextDeadline: null
       })
 
+      // Record the parties and who cleared the check
+      await saveCaseParties(user.id, caseId, parties)
+      await saveConflictReport(
+        { id: user.id, name: user.displayName || user.email },
+        caseId,
+        clearance.result,
+        clearance.notes
+      )
+
       // Upload documents if any
       if (uploadedFiles.length > 0) {
         for (let i = 0; i < uploadedFiles.length; i++) {
@@ -242,6 +328,7 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
 
       // Reset form and close dialog
       setFormData({
+        clientId: '',
         clientName: '',
         clientEmail: '',
         clientPhone: '',
@@ -250,10 +337,15 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
         claimNumber: '',
         estimatedValue: '',
         incidentDate: '',
+        discoveryDate: '',
+        clientDateOfBirth: '',
+        jurisdiction: '',
         description: '',
         priority: 'medium',
         assignedAttorney: ''
       })
+      setParties([])
+      setClearance(null)
       setUploadedFiles([])
       setUploadProgress({})
       setIsNewCaseOpen(false)
@@ -317,12 +409,29 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
               <div>
                 <h3 className="text-lg font-medium mb-4">Basic Information</h3>
                 <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2 col-span-2">
+                    <Label>Client</Label>
+                    <Select value={formData.clientId || 'new'} onValueChange={selectClient}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="new">New client</SelectItem>
+                        {clients.map(client => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.name}{client.email && ` (${client.email})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="clientName">Client Name *</Label>
                     <Input 
                       id="clientName" 
                       placeholder="Enter client name"
                       value={formData.clientName}
+                      disabled={!!formData.clientId}
                       onChange={(e) => setFormData(prev => ({ ...prev, clientName: e.target.value }))}
                     />
                   </div>
@@ -333,6 +442,7 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
                       type="email" 
                       placeholder="client@email.com"
                       value={formData.clientEmail}
+                      disabled={!!formData.clientId}
                       onChange={(e) => setFormData(prev => ({ ...prev, clientEmail: e.target.value }))}
                     />
                   </div>
@@ -342,6 +452,7 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
                       id="clientPhone" 
                       placeholder="(555) 123-4567"
                       value={formData.clientPhone}
+                      disabled={!!formData.clientId}
                       onChange={(e) => setFormData(prev => ({ ...prev, clientPhone: e.target.value }))}
                     />
                   </div>
@@ -354,6 +465,24 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
                       onChange={(e) => setFormData(prev => ({ ...prev, incidentDate: e.target.value }))}
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="clientDateOfBirth">Client Date of Birth</Label>
+                    <Input 
+                      id="clientDateOfBirth" 
+                      type="date"
+                      value={formData.clientDateOfBirth}
+                      onChange={(e) => setFormData(prev => ({ ...prev, clientDateOfBirth: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="discoveryDate">Injury Discovered</Label>
+                    <Input 
+                      id="discoveryDate" 
+                      type="date"
+                      value={formData.discoveryDate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, discoveryDate: e.target.value }))}
+                    />
+                  </div>
                 </div>
               </div>
 
@@ -376,6 +505,20 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
                       </SelectContent>
                     </Select>
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="jurisdiction">Jurisdiction</Label>
+                    <Select value={formData.jurisdiction || 'other'} onValueChange={(value) => setFormData(prev => ({ ...prev, jurisdiction: value === 'other' ? '' : value }))}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select state" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(JURISDICTIONS).map(([code, name]) => (
+                          <SelectItem key={code} value={code}>{name}</SelectItem>
+                        ))}
+                        <SelectItem value="other">Other / unspecified</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="priority">Priority</Label>
                     <Select value={formData.priority} onValueChange={(value) => setFormData(prev => ({ ...prev, priority: value }))}>
@@ -440,6 +583,22 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
                 </div>
               </div>
 
+              {/* Conflict Check */}
+              <div>
+                <h3 className="text-lg font-medium mb-4">Parties & Conflict Check</h3>
+                {user && (
+                  <ConflictCheckPanel
+                    userId={user.id}
+                    client={clientParty}
+                    existingClientId={formData.clientId || undefined}
+                    parties={parties}
+                    onPartiesChange={setParties}
+                    clearance={clearance}
+                    onClearanceChange={setClearance}
+                  />
+                )}
+              </div>
+
               {/* Document Upload */}
               <div>
                 <h3 className="text-lg font-medium mb-4">Documents</h3>
@@ -512,9 +671,12 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
                 variant="outline" 
                 onClick={() => {
                   setIsNewCaseOpen(false)
+                  setParties([])
+                  setClearance(null)
                   setUploadedFiles([])
                   setUploadProgress({})
                   setFormData({
+                    clientId: '',
                     clientName: '',
                     clientEmail: '',
                     clientPhone: '',
@@ -523,6 +685,9 @@ export function CaseList({ onCaseSelect }: CaseListProps) {
                     claimNumber: '',
                     estimatedValue: '',
                     incidentDate: '',
+                    discoveryDate: '',
+                    clientDateOfBirth: '',
+                    jurisdiction: '',
                     description: '',
                     priority: 'medium',
                     assignedAttorney: ''
@@ -0,0 +1,192 @@
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { AlertTriangle, CheckCircle, Loader2, Plus, Search, X } from 'lucide-react'
+import { runConflictCheck } from '@/blink/conflicts'
+import { PARTY_ROLES, partiesKey } from '@/lib/conflicts'
+import type { ConflictClearance, PartyInput, PartyRole } from '@/types/conflict'
+import { useToast } from '@/hooks/use-toast'
+
+interface ConflictCheckPanelProps {
+  userId: string
+  client: PartyInput
+  existingClientId?: string
+  parties: PartyInput[]
+  onPartiesChange: (parties: PartyInput[]) => void
+  clearance: ConflictClearance | null
+  onClearanceChange: (clearance: ConflictClearance | null) => void
+}
+
+const EMPTY_PARTY: PartyInput = { role: 'adverse_party', name: '', email: '', phone: '' }
+
+// Parties of a new case and the conflict search run over them before it can be opened
+export function ConflictCheckPanel({
+  userId,
+  client,
+  existingClientId,
+  parties,
+  onPartiesChange,
+  clearance,
+  onClearanceChange
+}: ConflictCheckPanelProps) {
+  const [searching, setSearching] = useState(false)
+  const { toast } = useToast()
+
+  const searched = [client, ...parties]
+  const stale = !!clearance && partiesKey(clearance.result.parties) !== partiesKey(searched)
+  const conflicts = clearance ? clearance.result.matches.filter(match => match.severity === 'conflict').length : 0
+
+  const updateParty = (index: number, changes: Partial<PartyInput>) => {
+    onPartiesChange(parties.map((party, i) => (i === index ? { ...party, ...changes } : party)))
+  }
+
+  const handleSearch = async () => {
+    try {
+      setSearching(true)
+      const result = await runConflictCheck(userId, searched, existingClientId)
+      onClearanceChange({ result, cleared: false, notes: '' })
+    } catch (error) {
+      console.error('Error running conflict check:', error)
+      toast({
+        title: "Error",
+        description: "Failed to run conflict check",
+        variant: "destructive"
+      })
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        List everyone else involved. The client and these parties are searched against every client
+        and party the firm has on record.
+      </p>
+
+      {parties.map((party, index) => (
+        <div key={index} className="grid grid-cols-12 gap-2 items-end">
+          <div className="col-span-3 space-y-1">
+            <Label className="text-xs">Role</Label>
+            <Select value={party.role} onValueChange={(value) => updateParty(index, { role: value as PartyRole })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PARTY_ROLES)
+                  .filter(([role]) => role !== 'client')
+                  .map(([role, label]) => (
+                    <SelectItem key={role} value={role}>{label}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-3 space-y-1">
+            <Label className="text-xs">Name</Label>
+            <Input
+              placeholder="Full name or company"
+              value={party.name}
+              onChange={(e) => updateParty(index, { name: e.target.value })}
+            />
+          </div>
+          <div className="col-span-3 space-y-1">
+            <Label className="text-xs">Email</Label>
+            <Input
+              type="email"
+              value={party.email}
+              onChange={(e) => updateParty(index, { email: e.target.value })}
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label className="text-xs">Phone</Label>
+            <Input
+              value={party.phone}
+              onChange={(e) => updateParty(index, { phone: e.target.value })}
+            />
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="col-span-1"
+            onClick={() => onPartiesChange(parties.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => onPartiesChange([...parties, { ...EMPTY_PARTY }])}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Party
+        </Button>
+        <Button type="button" size="sm" onClick={handleSearch} disabled={searching || !client.name.trim()}>
+          {searching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+          Run Conflict Check
+        </Button>
+      </div>
+
+      {clearance && stale && (
+        <p className="text-sm text-orange-700">The parties changed since the last check. Run it again before creating the case.</p>
+      )}
+
+      {clearance && !stale && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center space-x-2">
+            {conflicts > 0
+              ? <AlertTriangle className="h-5 w-5 text-red-600" />
+              : <CheckCircle className="h-5 w-5 text-green-600" />}
+            <span className="font-medium">
+              {clearance.result.matches.length === 0
+                ? 'No matches found'
+                : `${clearance.result.matches.length} possible match${clearance.result.matches.length === 1 ? '' : 'es'}` +
+                  (conflicts > 0 ? `, ${conflicts} potential conflict${conflicts === 1 ? '' : 's'}` : '')}
+            </span>
+          </div>
+
+          {clearance.result.matches.map((match, index) => (
+            <div key={index} className="flex items-start justify-between rounded bg-gray-50 p-2 text-sm">
+              <div>
+                <p>
+                  <span className="font-medium">{match.party.name}</span> ({PARTY_ROLES[match.party.role]}) resembles{' '}
+                  <span className="font-medium">{match.entry.name}</span> ({PARTY_ROLES[match.entry.role]})
+                </p>
+                <p className="text-xs text-gray-600">
+                  {match.reasons.join(', ')}
+                  {match.entry.caseNumbers.length > 0 && ` · ${match.entry.caseNumbers.join(', ')}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-gray-500">{Math.round(match.score * 100)}%</span>
+                <Badge className={match.severity === 'conflict' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}>
+                  {match.severity === 'conflict' ? 'Conflict' : 'Review'}
+                </Badge>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="conflict-cleared"
+              checked={clearance.cleared}
+              onCheckedChange={(checked) => onClearanceChange({ ...clearance, cleared: checked === true })}
+            />
+            <Label htmlFor="conflict-cleared">I reviewed these results and clear the firm to take this case</Label>
+          </div>
+          <Textarea
+            placeholder={conflicts > 0 ? 'Explain why the conflicts do not apply or were waived' : 'Notes (optional)'}
+            value={clearance.notes}
+            onChange={(e) => onClearanceChange({ ...clearance, notes: e.target.value })}
+            rows={2}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
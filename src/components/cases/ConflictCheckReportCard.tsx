@@ -0,0 +1,72 @@
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ShieldCheck } from 'lucide-react'
+import { PARTY_ROLES } from '@/lib/conflicts'
+import type { CaseParty, ConflictCheckReport } from '@/types/conflict'
+
+interface ConflictCheckReportCardProps {
+  report: ConflictCheckReport | null
+  parties: CaseParty[]
+}
+
+// The case's parties and the conflict check that was cleared when it was opened
+export function ConflictCheckReportCard({ report, parties }: ConflictCheckReportCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Conflict Check
+        </CardTitle>
+        <CardDescription>
+          {report
+            ? `Cleared by ${report.clearedBy} on ${format(parseISO(report.clearedAt), 'MMM d, yyyy h:mm a')}`
+            : 'No conflict check on record for this case'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {parties.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-gray-500">Parties</p>
+            {parties.map(party => (
+              <p key={party.id} className="text-sm">
+                <span className="font-medium">{party.name}</span>
+                <span className="text-gray-600"> · {PARTY_ROLES[party.role]}</span>
+                {party.email && <span className="text-gray-600"> · {party.email}</span>}
+                {party.phone && <span className="text-gray-600"> · {party.phone}</span>}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-500">
+              {report.matches.length === 0
+                ? 'No matches were found'
+                : `${report.matches.length} match${report.matches.length === 1 ? '' : 'es'} reviewed`}
+            </p>
+            {report.matches.map((match, index) => (
+              <div key={index} className="flex items-start justify-between rounded bg-gray-50 p-2 text-sm">
+                <div>
+                  <p>
+                    {match.party.name} ({PARTY_ROLES[match.party.role]}) resembles {match.entry.name} ({PARTY_ROLES[match.entry.role]})
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    {match.reasons.join(', ')}
+                    {match.entry.caseNumbers.length > 0 && ` · ${match.entry.caseNumbers.join(', ')}`}
+                  </p>
+                </div>
+                <Badge className={match.severity === 'conflict' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}>
+                  {match.severity === 'conflict' ? 'Conflict' : 'Review'} · {Math.round(match.score * 100)}%
+                </Badge>
+              </div>
+            ))}
+            {report.notes && <p className="text-sm text-gray-700">Notes: {report.notes}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,303 @@
+import { useState, useEffect, useMemo } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Edit, Gavel, Plus, Trash2 } from 'lucide-react'
+import {
+  RULE_SETS,
+  SERVICE_METHODS,
+  TRIGGER_TYPES,
+  generateDeadlineChain,
+  getDefaultRuleSet,
+  getTriggerTypes,
+  type RuleSetId,
+  type ServiceMethod,
+  type TriggerType
+} from '@/lib/courtRules'
+import { listCourtHolidays, type StoredCourtHoliday } from '@/blink/courtHolidays'
+import {
+  createDeadlineChain,
+  deleteDeadlineChain,
+  listDeadlineTriggers,
+  updateDeadlineChain
+} from '@/blink/deadlineChains'
+import type { CaseDeadline, DeadlineTrigger, DeadlineTriggerInput } from '@/types/deadline'
+import { useToast } from '@/hooks/use-toast'
+
+interface CourtRuleTriggersProps {
+  caseId: string
+  userId: string
+  jurisdiction?: string
+  deadlines: CaseDeadline[]
+  onDeadlinesChange: () => void
+}
+
+export function CourtRuleTriggers({ caseId, userId, jurisdiction, deadlines, onDeadlinesChange }: CourtRuleTriggersProps) {
+  const [triggers, setTriggers] = useState<DeadlineTrigger[]>([])
+  const [holidays, setHolidays] = useState<StoredCourtHoliday[]>([])
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingTrigger, setEditingTrigger] = useState<DeadlineTrigger | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState<DeadlineTriggerInput>({
+    ruleSet: getDefaultRuleSet(jurisdiction),
+    triggerType: 'complaint_served',
+    triggerDate: '',
+    serviceMethod: 'personal'
+  })
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const loadTriggers = async () => {
+      try {
+        const [triggerData, holidayData] = await Promise.all([
+          listDeadlineTriggers(userId, caseId),
+          listCourtHolidays(userId)
+        ])
+        setTriggers(triggerData)
+        setHolidays(holidayData)
+      } catch (error) {
+        console.error('Error loading deadline triggers:', error)
+      }
+    }
+    loadTriggers()
+  }, [caseId, userId])
+
+  const preview = useMemo(
+    () => (form.triggerDate ? generateDeadlineChain({ ...form, holidays }) : []),
+    [form, holidays]
+  )
+
+  const openDialog = (trigger?: DeadlineTrigger) => {
+    setEditingTrigger(trigger || null)
+    setForm(trigger
+      ? { ruleSet: trigger.ruleSet, triggerType: trigger.triggerType, triggerDate: trigger.triggerDate, serviceMethod: trigger.serviceMethod }
+      : { ruleSet: getDefaultRuleSet(jurisdiction), triggerType: 'complaint_served', triggerDate: '', serviceMethod: 'personal' })
+    setIsDialogOpen(true)
+  }
+
+  const changeRuleSet = (ruleSet: RuleSetId) => {
+    const triggerTypes = getTriggerTypes(ruleSet)
+    setForm(prev => ({
+      ...prev,
+      ruleSet,
+      triggerType: triggerTypes.includes(prev.triggerType) ? prev.triggerType : triggerTypes[0]
+    }))
+  }
+
+  const saveTrigger = async () => {
+    if (!form.triggerDate || preview.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please choose a trigger event and date",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      if (editingTrigger) {
+        const updated = await updateDeadlineChain(editingTrigger, form, holidays)
+        setTriggers(prev => prev.map(trigger => (trigger.id === updated.id ? updated : trigger)))
+      } else {
+        const created = await createDeadlineChain(userId, caseId, form, holidays)
+        setTriggers(prev => [...prev, created])
+      }
+      onDeadlinesChange()
+      setIsDialogOpen(false)
+
+      toast({
+        title: "Success",
+        description: editingTrigger
+          ? `Recomputed ${preview.length} linked deadline${preview.length === 1 ? '' : 's'}`
+          : `Created ${preview.length} deadline${preview.length === 1 ? '' : 's'}`
+      })
+    } catch (error) {
+      console.error('Error saving deadline trigger:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save deadline chain",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteTrigger = async (trigger: DeadlineTrigger) => {
+    if (!confirm(`Delete "${TRIGGER_TYPES[trigger.triggerType]}" and all deadlines generated from it?`)) return
+
+    try {
+      await deleteDeadlineChain(trigger.id)
+      setTriggers(prev => prev.filter(item => item.id !== trigger.id))
+      onDeadlinesChange()
+      toast({
+        title: "Success",
+        description: "Deadline chain deleted"
+      })
+    } catch (error) {
+      console.error('Error deleting deadline trigger:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete deadline chain",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center">
+          <Gavel className="mr-2 h-5 w-5" />
+          Court Rule Deadlines
+        </CardTitle>
+        <Button size="sm" variant="outline" onClick={() => openDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Trigger
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {triggers.length > 0 ? (
+          <div className="space-y-3">
+            {triggers.map(trigger => {
+              const linked = deadlines.filter(deadline => deadline.triggerId === trigger.id)
+              return (
+                <div key={trigger.id} className="flex items-start justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center space-x-2 mb-1">
+                      <h4 className="font-medium">{TRIGGER_TYPES[trigger.triggerType]}</h4>
+                      <Badge variant="outline">{trigger.ruleSet}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {format(parseISO(trigger.triggerDate), 'MMM d, yyyy')} · {SERVICE_METHODS[trigger.serviceMethod]} ·{' '}
+                      {linked.filter(deadline => deadline.completed).length}/{linked.length} deadlines completed
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button size="sm" variant="ghost" onClick={() => openDialog(trigger)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteTrigger(trigger)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Add a trigger event such as service of the complaint or a hearing date to generate its chain of
+            response deadlines from the court rules.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingTrigger ? 'Edit Trigger Event' : 'Generate Deadlines from Trigger'}</DialogTitle>
+            <DialogDescription>
+              {editingTrigger
+                ? 'Changing the trigger recomputes every deadline generated from it.'
+                : 'Deadlines skip weekends and court holidays and include service-method extensions.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="triggerRuleSet">Court Rules</Label>
+                <Select value={form.ruleSet} onValueChange={(value: RuleSetId) => changeRuleSet(value)}>
+                  <SelectTrigger id="triggerRuleSet">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(RULE_SETS).map(ruleSet => (
+                      <SelectItem key={ruleSet.id} value={ruleSet.id}>{ruleSet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="triggerType">Trigger Event</Label>
+                <Select
+                  value={form.triggerType}
+                  onValueChange={(value: TriggerType) => setForm(prev => ({ ...prev, triggerType: value }))}
+                >
+                  <SelectTrigger id="triggerType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getTriggerTypes(form.ruleSet).map(type => (
+                      <SelectItem key={type} value={type}>{TRIGGER_TYPES[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="triggerDate">Trigger Date</Label>
+                <Input
+                  id="triggerDate"
+                  type="date"
+                  value={form.triggerDate}
+                  onChange={(e) => setForm(prev => ({ ...prev, triggerDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="triggerServiceMethod">Service Method</Label>
+                <Select
+                  value={form.serviceMethod}
+                  onValueChange={(value: ServiceMethod) => setForm(prev => ({ ...prev, serviceMethod: value }))}
+                >
+                  <SelectTrigger id="triggerServiceMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SERVICE_METHODS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {preview.length > 0 && (
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {preview.map(computed => (
+                  <div key={computed.rule.id} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-sm">{computed.rule.title}</span>
+                      <span className="text-sm font-semibold">{format(parseISO(computed.dueDate), 'EEE, MMM d, yyyy')}</span>
+                    </div>
+                    {computed.explanation.map(line => (
+                      <p key={line} className="text-xs text-gray-500">{line}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveTrigger} disabled={saving || preview.length === 0}>
+              {saving ? 'Saving...' : editingTrigger ? 'Recompute Deadlines' : `Create ${preview.length} Deadlines`}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
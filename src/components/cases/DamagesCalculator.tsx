@@ -0,0 +1,438 @@
+import { useState, useEffect, useMemo } from 'react'
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Calculator, FileText, History, Plus, Save, Trash2 } from 'lucide-react'
+import { getDamagesWorksheet, listDamagesAudit, saveDamagesWorksheet } from '@/blink/damages'
+import {
+  DAMAGE_CATEGORIES,
+  DEFAULT_DAMAGES_INPUT,
+  GENERAL_DAMAGES_METHODS,
+  calculateDamages
+} from '@/lib/damages'
+import { extractMedicalSpecials } from '@/lib/demandLetter'
+import type { Case, Document } from '@/types/case'
+import type {
+  DamageCategory,
+  DamageItem,
+  DamageLien,
+  DamagesAuditEntry,
+  DamagesCalculation,
+  DamagesInput,
+  GeneralDamagesMethod
+} from '@/types/damages'
+import { useToast } from '@/hooks/use-toast'
+
+interface DamagesCalculatorProps {
+  caseData: Pick<Case, 'id' | 'incidentDate' | 'financialsLocked'>
+  userId: string
+  documents: Document[]
+  onSaved?: (calculation: DamagesCalculation) => void
+}
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export function DamagesCalculator({ caseData, userId, documents, onSaved }: DamagesCalculatorProps) {
+  const [input, setInput] = useState<DamagesInput>(DEFAULT_DAMAGES_INPUT)
+  const [audit, setAudit] = useState<DamagesAuditEntry[]>([])
+  const [dirty, setDirty] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const caseId = caseData.id
+  const locked = Number(caseData.financialsLocked) > 0 // SQLite boolean
+
+  useEffect(() => {
+    const loadWorksheet = async () => {
+      try {
+        const [worksheet, entries] = await Promise.all([
+          getDamagesWorksheet(userId, caseId),
+          listDamagesAudit(userId, caseId)
+        ])
+        setInput(worksheet || DEFAULT_DAMAGES_INPUT)
+        setAudit(entries)
+        setDirty(false)
+      } catch (error) {
+        console.error('Error loading damages worksheet:', error)
+      }
+    }
+    loadWorksheet()
+  }, [caseId, userId])
+
+  const calculation = useMemo(() => calculateDamages(input), [input])
+
+  const update = (updates: Partial<DamagesInput>) => {
+    setInput(prev => ({ ...prev, ...updates }))
+    setDirty(true)
+  }
+
+  const updateItem = (id: string, updates: Partial<DamageItem>) => {
+    update({ items: input.items.map(item => (item.id === id ? { ...item, ...updates } : item)) })
+  }
+
+  const updateLien = (id: string, updates: Partial<DamageLien>) => {
+    update({ liens: input.liens.map(lien => (lien.id === id ? { ...lien, ...updates } : lien)) })
+  }
+
+  // Bills already on the worksheet are skipped, so importing twice does not double count
+  const importMedicalBills = () => {
+    const imported = extractMedicalSpecials(documents)
+      .filter(special => !input.items.some(item => item.documentId === special.documentId))
+      .map(special => ({
+        id: newId('damage'),
+        category: 'medical' as DamageCategory,
+        description: special.description,
+        amount: special.amount,
+        documentId: special.documentId
+      }))
+
+    if (imported.length === 0) {
+      toast({
+        title: "Nothing to import",
+        description: "No new billed amounts were found in this case's medical documents"
+      })
+      return
+    }
+    update({ items: [...input.items, ...imported] })
+  }
+
+  const fillDaysSinceIncident = () => {
+    if (!caseData.incidentDate) return
+    update({ perDiemDays: Math.max(0, differenceInCalendarDays(new Date(), parseISO(caseData.incidentDate))) })
+  }
+
+  const saveWorksheet = async () => {
+    try {
+      setSaving(true)
+      const { calculation: saved } = await saveDamagesWorksheet(userId, caseId, input)
+      setAudit(await listDamagesAudit(userId, caseId))
+      setDirty(false)
+      onSaved?.(saved)
+
+      toast({
+        title: "Damages Saved",
+        description: `Case value updated to ${formatCurrency(saved.caseValue)}`
+      })
+    } catch (error) {
+      console.error('Error saving damages worksheet:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save damages worksheet",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center">
+                <Calculator className="mr-2 h-5 w-5" />
+                Economic Damages
+              </CardTitle>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={importMedicalBills}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Import Medical Bills
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => update({
+                    items: [...input.items, { id: newId('damage'), category: 'medical', description: '', amount: 0 }]
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Item
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {input.items.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No items yet. Add medical bills, lost wages and future care costs.
+              </p>
+            )}
+            {input.items.map(item => (
+              <div key={item.id} className="grid grid-cols-[10rem_1fr_8rem_auto] gap-2 items-center">
+                <Select
+                  value={item.category}
+                  onValueChange={(value) => updateItem(item.id, { category: value as DamageCategory })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DAMAGE_CATEGORIES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Description"
+                  value={item.description}
+                  onChange={(e) => updateItem(item.id, { description: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={item.amount || ''}
+                  onChange={(e) => updateItem(item.id, { amount: parseFloat(e.target.value) || 0 })}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => update({ items: input.items.filter(candidate => candidate.id !== item.id) })}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Pain and Suffering</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select
+                value={input.generalMethod}
+                onValueChange={(value) => update({ generalMethod: value as GeneralDamagesMethod })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GENERAL_DAMAGES_METHODS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {input.generalMethod === 'multiplier' ? (
+              <div className="space-y-2">
+                <Label htmlFor="damages-multiplier">Multiplier</Label>
+                <Input
+                  id="damages-multiplier"
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={input.multiplier}
+                  onChange={(e) => update({ multiplier: parseFloat(e.target.value) || 0 })}
+                />
+                <p className="text-xs text-gray-500">
+                  {formatCurrency(calculation.specials.medical)} medical specials × {input.multiplier}
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="damages-per-diem-rate">Daily rate ($)</Label>
+                  <Input
+                    id="damages-per-diem-rate"
+                    type="number"
+                    min="0"
+                    value={input.perDiemRate}
+                    onChange={(e) => update({ perDiemRate: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="damages-per-diem-days">Days</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="damages-per-diem-days"
+                      type="number"
+                      min="0"
+                      value={input.perDiemDays}
+                      onChange={(e) => update({ perDiemDays: parseInt(e.target.value) || 0 })}
+                    />
+                    <Button variant="outline" onClick={fillDaysSinceIncident} disabled={!caseData.incidentDate}>
+                      Since incident
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Fault and Liens</CardTitle>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => update({ liens: [...input.liens, { id: newId('lien'), holder: '', amount: 0 }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Lien
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="damages-fault">Client's comparative fault (%)</Label>
+                <Input
+                  id="damages-fault"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={input.comparativeFaultPercent}
+                  onChange={(e) => update({ comparativeFaultPercent: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="damages-goal">Settlement goal (% of case value)</Label>
+                <Input
+                  id="damages-goal"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={input.goalPercent}
+                  onChange={(e) => update({ goalPercent: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            {input.liens.map(lien => (
+              <div key={lien.id} className="grid grid-cols-[1fr_8rem_auto] gap-2 items-center">
+                <Input
+                  placeholder="Lienholder, e.g. Medicare"
+                  value={lien.holder}
+                  onChange={(e) => updateLien(lien.id, { holder: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={lien.amount || ''}
+                  onChange={(e) => updateLien(lien.id, { amount: parseFloat(e.target.value) || 0 })}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => update({ liens: input.liens.filter(candidate => candidate.id !== lien.id) })}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Summary</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {Object.entries(DAMAGE_CATEGORIES).map(([category, label]) => (
+              <div key={category} className="flex justify-between">
+                <span className="text-gray-600">{label}</span>
+                <span>{formatCurrency(calculation.specials[category as DamageCategory])}</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Pain and suffering</span>
+              <span>{formatCurrency(calculation.generalDamages)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between font-medium">
+              <span>Gross damages</span>
+              <span>{formatCurrency(calculation.grossTotal)}</span>
+            </div>
+            {calculation.faultReduction > 0 && (
+              <div className="flex justify-between text-red-600">
+                <span>Comparative fault ({input.comparativeFaultPercent}%)</span>
+                <span>−{formatCurrency(calculation.faultReduction)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold text-base">
+              <span>Case value</span>
+              <span>{formatCurrency(calculation.caseValue)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Settlement goal</span>
+              <span>{formatCurrency(calculation.settlementGoal)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between">
+              <span className="text-gray-600">Liens</span>
+              <span>−{formatCurrency(calculation.lienTotal)}</span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span>Net after liens</span>
+              <span className={calculation.netAfterLiens < 0 ? 'text-red-600' : ''}>
+                {formatCurrency(calculation.netAfterLiens)}
+              </span>
+            </div>
+
+            {locked ? (
+              <p className="text-xs text-gray-500 pt-4">
+                Case financials are locked by the approved settlement statement.
+              </p>
+            ) : (
+              <Button className="w-full mt-4" onClick={saveWorksheet} disabled={saving || !dirty}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save and Update Case Value'}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <History className="mr-2 h-5 w-5" />
+              Change History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {audit.length === 0 ? (
+              <p className="text-sm text-gray-500">No changes saved yet</p>
+            ) : (
+              <div className="space-y-4">
+                {audit.map(entry => (
+                  <div key={entry.id} className="text-sm border-l-2 border-blue-200 pl-3">
+                    <p className="font-medium">
+                      {formatCurrency(entry.previousValue)} → {formatCurrency(entry.newValue)}
+                    </p>
+                    <p className="text-xs text-gray-500 mb-1">
+                      {format(parseISO(entry.createdAt), 'MMM d, yyyy h:mm a')}
+                    </p>
+                    <ul className="text-gray-600 space-y-0.5">
+                      {entry.changes.map((change, index) => <li key={index}>{change}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
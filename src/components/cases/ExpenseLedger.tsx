@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Paperclip, Pencil, Plus, Receipt, Trash2 } from 'lucide-react'
+import { deleteCaseExpense, listCaseExpenses, saveCaseExpense, uploadReceipt } from '@/blink/expenses'
+import { EXPENSE_CATEGORIES, summarizeExpenses } from '@/lib/expenses'
+import type { Document } from '@/types/case'
+import type { CaseExpense, ExpenseCategory, ExpenseInput } from '@/types/expense'
+import { useToast } from '@/hooks/use-toast'
+
+interface ExpenseLedgerProps {
+  caseId: string
+  userId: string
+  documents: Document[]
+  onChange?: (expenses: CaseExpense[]) => void
+  onReceiptUploaded?: (document: Document) => void
+}
+
+interface ExpenseDraft extends ExpenseInput {
+  id?: string
+}
+
+const newDraft = (): ExpenseDraft => ({
+  date: format(new Date(), 'yyyy-MM-dd'),
+  category: 'filing_fee',
+  description: '',
+  vendor: '',
+  amount: 0,
+  billable: false,
+  reimbursable: true
+})
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export function ExpenseLedger({ caseId, userId, documents, onChange, onReceiptUploaded }: ExpenseLedgerProps) {
+  const [expenses, setExpenses] = useState<CaseExpense[]>([])
+  const [draft, setDraft] = useState<ExpenseDraft | null>(null)
+  const [receiptFile, setReceiptFile] = useState<File | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    listCaseExpenses(userId, caseId)
+      .then(setExpenses)
+      .catch(error => console.error('Error loading expenses:', error))
+  }, [caseId, userId])
+
+  const totals = summarizeExpenses(expenses)
+  const documentsById = new Map(documents.map(document => [document.id, document]))
+
+  const openDraft = (expense?: CaseExpense) => {
+    setReceiptFile(null)
+    setDraft(expense
+      ? {
+        id: expense.id,
+        date: expense.date,
+        category: expense.category,
+        description: expense.description,
+        vendor: expense.vendor,
+        amount: expense.amount,
+        billable: expense.billable,
+        reimbursable: expense.reimbursable,
+        receiptDocumentId: expense.receiptDocumentId
+      }
+      : newDraft())
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    if (!draft.description.trim() || draft.amount <= 0 || !draft.date) {
+      toast({
+        title: "Error",
+        description: "Please enter a date, description and amount",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const { id, ...input } = draft
+      if (receiptFile) {
+        const receipt = await uploadReceipt(userId, caseId, receiptFile)
+        input.receiptDocumentId = receipt.id
+        onReceiptUploaded?.(receipt)
+      }
+
+      const saved = await saveCaseExpense(userId, caseId, input, id)
+      const next = id ? expenses.map(expense => (expense.id === id ? saved : expense)) : [saved, ...expenses]
+      next.sort((a, b) => b.date.localeCompare(a.date))
+      setExpenses(next)
+      onChange?.(next)
+      setDraft(null)
+    } catch (error) {
+      console.error('Error saving expense:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save expense",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeExpense = async (expenseId: string) => {
+    try {
+      await deleteCaseExpense(expenseId)
+      const next = expenses.filter(expense => expense.id !== expenseId)
+      setExpenses(next)
+      onChange?.(next)
+    } catch (error) {
+      console.error('Error deleting expense:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete expense",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Receipt className="mr-2 h-5 w-5" />
+              Case Expenses
+            </CardTitle>
+            <CardDescription>Filing fees, record retrieval, expert fees and other costs the firm advanced</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => openDraft()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Expense
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-gray-600">Total advanced</p>
+            <p className="font-semibold">{formatCurrency(totals.total)}</p>
+          </div>
+          <div>
+            <p className="text-gray-600">Reimbursable</p>
+            <p className="font-semibold">{formatCurrency(totals.reimbursable)}</p>
+          </div>
+          <div>
+            <p className="text-gray-600">Billable</p>
+            <p className="font-semibold">{formatCurrency(totals.billable)}</p>
+          </div>
+        </div>
+
+        {expenses.length === 0 && (
+          <p className="text-sm text-gray-500">No expenses recorded for this case.</p>
+        )}
+
+        <div className="divide-y">
+          {expenses.map(expense => {
+            const receipt = expense.receiptDocumentId ? documentsById.get(expense.receiptDocumentId) : undefined
+            return (
+              <div key={expense.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{expense.description}</p>
+                  <p className="text-sm text-gray-600">
+                    {format(parseISO(expense.date), 'MMM d, yyyy')}
+                    {expense.vendor && ` · ${expense.vendor}`}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    <Badge variant="outline">{EXPENSE_CATEGORIES[expense.category]}</Badge>
+                    {expense.reimbursable && <Badge className="bg-green-100 text-green-800">Reimbursable</Badge>}
+                    {expense.billable && <Badge className="bg-blue-100 text-blue-800">Billable</Badge>}
+                    {receipt && (
+                      <a
+                        href={receipt.publicUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center text-xs text-blue-600 hover:underline"
+                      >
+                        <Paperclip className="h-3 w-3 mr-1" />
+                        Receipt
+                      </a>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className="font-medium mr-2">{formatCurrency(expense.amount)}</span>
+                  <Button size="sm" variant="ghost" onClick={() => openDraft(expense)} title="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeExpense(expense.id)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Expense' : 'Add Expense'}</DialogTitle>
+            <DialogDescription>
+              Reimbursable costs are repaid from the settlement; billable costs go on the client's invoice.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="expense-date">Date</Label>
+                  <Input
+                    id="expense-date"
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={draft.category}
+                    onValueChange={(value) => setDraft({ ...draft, category: value as ExpenseCategory })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(EXPENSE_CATEGORIES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-description">Description</Label>
+                <Input
+                  id="expense-description"
+                  placeholder="e.g. Complaint filing fee"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="expense-vendor">Paid to</Label>
+                  <Input
+                    id="expense-vendor"
+                    value={draft.vendor}
+                    onChange={(e) => setDraft({ ...draft, vendor: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expense-amount">Amount ($)</Label>
+                  <Input
+                    id="expense-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.amount || ''}
+                    onChange={(e) => setDraft({ ...draft, amount: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="expense-reimbursable"
+                    checked={draft.reimbursable}
+                    onCheckedChange={(checked) => setDraft({ ...draft, reimbursable: checked })}
+                  />
+                  <Label htmlFor="expense-reimbursable">Reimbursable</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="expense-billable"
+                    checked={draft.billable}
+                    onCheckedChange={(checked) => setDraft({ ...draft, billable: checked })}
+                  />
+                  <Label htmlFor="expense-billable">Billable</Label>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-receipt">Receipt</Label>
+                <Input
+                  id="expense-receipt"
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={(e) => setReceiptFile(e.target.files?.[0] || null)}
+                />
+                {draft.receiptDocumentId && !receiptFile && (
+                  <p className="text-xs text-gray-500">
+                    Attached: {documentsById.get(draft.receiptDocumentId)?.fileName || 'receipt'}. Choose a file to replace it.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={saveDraft} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Expense'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,374 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { AlertTriangle, FileText, Landmark, Pencil, Plus, Trash2 } from 'lucide-react'
+import { deleteCaseLien, listCaseLiens, saveCaseLien } from '@/blink/liens'
+import { LIEN_STATUSES, isLienResolved, lienPayoff, summarizeLiens } from '@/lib/liens'
+import { SETTLEMENT_LIEN_TYPES } from '@/lib/settlementStatement'
+import type { Document } from '@/types/case'
+import type { CaseLien, LienInput, LienStatus, LienType } from '@/types/lien'
+import { useToast } from '@/hooks/use-toast'
+
+interface LienRegisterProps {
+  caseId: string
+  userId: string
+  documents: Document[]
+  onChange?: (liens: CaseLien[]) => void
+}
+
+interface LienDraft extends LienInput {
+  id?: string
+}
+
+const EMPTY_DRAFT: LienDraft = {
+  type: 'medical',
+  holder: '',
+  assertedAmount: 0,
+  reductionAmount: 0,
+  status: 'asserted',
+  documentIds: [],
+  notes: ''
+}
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const getStatusColor = (status: LienStatus) => {
+  switch (status) {
+    case 'asserted': return 'bg-red-100 text-red-800'
+    case 'negotiating': return 'bg-orange-100 text-orange-800'
+    case 'final': return 'bg-yellow-100 text-yellow-800'
+    case 'paid': return 'bg-green-100 text-green-800'
+    default: return 'bg-gray-100 text-gray-800'
+  }
+}
+
+export function LienRegister({ caseId, userId, documents, onChange }: LienRegisterProps) {
+  const [liens, setLiens] = useState<CaseLien[]>([])
+  const [draft, setDraft] = useState<LienDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    listCaseLiens(userId, caseId)
+      .then(setLiens)
+      .catch(error => console.error('Error loading liens:', error))
+  }, [caseId, userId])
+
+  const applyLiens = (next: CaseLien[]) => {
+    setLiens(next)
+    onChange?.(next)
+  }
+
+  const summary = summarizeLiens(liens)
+
+  const editLien = (lien: CaseLien) => {
+    setDraft({
+      id: lien.id,
+      type: lien.type,
+      holder: lien.holder,
+      assertedAmount: lien.assertedAmount,
+      reductionAmount: lien.reductionAmount,
+      status: lien.status,
+      documentIds: [...lien.documentIds],
+      notes: lien.notes
+    })
+  }
+
+  const toggleDocument = (documentId: string, checked: boolean) => {
+    setDraft(prev => prev && {
+      ...prev,
+      documentIds: checked
+        ? [...prev.documentIds, documentId]
+        : prev.documentIds.filter(id => id !== documentId)
+    })
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    if (!draft.holder.trim() || draft.assertedAmount <= 0) {
+      toast({
+        title: "Error",
+        description: "Please enter the lienholder and the asserted amount",
+        variant: "destructive"
+      })
+      return
+    }
+    if (draft.reductionAmount > draft.assertedAmount) {
+      toast({
+        title: "Error",
+        description: "The reduction cannot exceed the asserted amount",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const { id, ...input } = draft
+      const saved = await saveCaseLien(userId, caseId, input, id)
+      applyLiens(id ? liens.map(lien => (lien.id === id ? saved : lien)) : [...liens, saved])
+      setDraft(null)
+    } catch (error) {
+      console.error('Error saving lien:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save lien",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeLien = async (lienId: string) => {
+    try {
+      await deleteCaseLien(lienId)
+      applyLiens(liens.filter(lien => lien.id !== lienId))
+    } catch (error) {
+      console.error('Error deleting lien:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete lien",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const documentsById = new Map(documents.map(document => [document.id, document]))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Landmark className="mr-2 h-5 w-5" />
+              Liens and Subrogation
+            </CardTitle>
+            <CardDescription>
+              Hospital liens, Medicare conditional payments and health plan subrogation to resolve before disbursement
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setDraft({ ...EMPTY_DRAFT })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Lien
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary.unresolvedCount > 0 && (
+          <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {summary.unresolvedCount} unresolved lien{summary.unresolvedCount === 1 ? '' : 's'}. The case cannot be
+            closed until every lien is paid or waived.
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-gray-600">Asserted</p>
+            <p className="font-semibold">{formatCurrency(summary.assertedTotal)}</p>
+          </div>
+          <div>
+            <p className="text-gray-600">Reductions</p>
+            <p className="font-semibold text-green-700">−{formatCurrency(summary.reductionTotal)}</p>
+          </div>
+          <div>
+            <p className="text-gray-600">Payoff</p>
+            <p className="font-semibold">{formatCurrency(summary.payoffTotal)}</p>
+          </div>
+        </div>
+
+        {liens.length === 0 && (
+          <p className="text-sm text-gray-500">No liens recorded for this case.</p>
+        )}
+
+        {liens.map(lien => (
+          <div key={lien.id} className="p-4 border rounded-lg space-y-2">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium">{lien.holder}</p>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  <Badge variant="outline">{SETTLEMENT_LIEN_TYPES[lien.type]}</Badge>
+                  <Badge className={getStatusColor(lien.status)}>{LIEN_STATUSES[lien.status]}</Badge>
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button size="sm" variant="ghost" onClick={() => editLien(lien)} title="Edit">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeLien(lien.id)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <span>Asserted {formatCurrency(lien.assertedAmount)}</span>
+              <span className="text-green-700">Reduced {formatCurrency(lien.reductionAmount)}</span>
+              <span className={isLienResolved(lien) ? 'text-gray-500' : 'font-medium'}>
+                Payoff {formatCurrency(lienPayoff(lien))}
+              </span>
+            </div>
+            {lien.documentIds.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {lien.documentIds.map(documentId => {
+                  const document = documentsById.get(documentId)
+                  if (!document) return null
+                  return (
+                    <a
+                      key={documentId}
+                      href={document.publicUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center text-xs text-blue-600 hover:underline"
+                    >
+                      <FileText className="h-3 w-3 mr-1" />
+                      {document.fileName}
+                    </a>
+                  )
+                })}
+              </div>
+            )}
+            {lien.notes && <p className="text-sm text-gray-600">{lien.notes}</p>}
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Lien' : 'Add Lien'}</DialogTitle>
+            <DialogDescription>
+              The payoff is the asserted amount less any negotiated reduction.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="lien-holder">Lienholder</Label>
+                <Input
+                  id="lien-holder"
+                  placeholder="e.g. Mercy General Hospital"
+                  value={draft.holder}
+                  onChange={(e) => setDraft({ ...draft, holder: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select value={draft.type} onValueChange={(value) => setDraft({ ...draft, type: value as LienType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SETTLEMENT_LIEN_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select
+                    value={draft.status}
+                    onValueChange={(value) => setDraft({ ...draft, status: value as LienStatus })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(LIEN_STATUSES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lien-asserted">Asserted amount ($)</Label>
+                  <Input
+                    id="lien-asserted"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.assertedAmount || ''}
+                    onChange={(e) => setDraft({ ...draft, assertedAmount: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lien-reduction">Negotiated reduction ($)</Label>
+                  <Input
+                    id="lien-reduction"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.reductionAmount || ''}
+                    onChange={(e) => setDraft({ ...draft, reductionAmount: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-gray-600">Payoff: {formatCurrency(lienPayoff(draft))}</p>
+
+              <div className="space-y-2">
+                <Label>Correspondence</Label>
+                {documents.length === 0 ? (
+                  <p className="text-sm text-gray-500">Upload lien letters to the case documents to link them here.</p>
+                ) : (
+                  <div className="max-h-40 overflow-y-auto space-y-2 border rounded-lg p-3">
+                    {documents.map(document => (
+                      <div key={document.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`lien-document-${document.id}`}
+                          checked={draft.documentIds.includes(document.id)}
+                          onCheckedChange={(checked) => toggleDocument(document.id, checked === true)}
+                        />
+                        <Label htmlFor={`lien-document-${document.id}`} className="text-sm font-normal truncate">
+                          {document.fileName}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="lien-notes">Notes</Label>
+                <Textarea
+                  id="lien-notes"
+                  rows={3}
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={saveDraft} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Lien'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,511 @@
+import { useState, useEffect, useMemo } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertTriangle, CheckCircle, Download, FileSignature, Lock, Plus, Save, Trash2 } from 'lucide-react'
+import { saveCaseDocument } from '@/blink/caseDocuments'
+import { getDamagesWorksheet } from '@/blink/damages'
+import { loadLetterhead, loadSignatory } from '@/blink/demandLetters'
+import { listCaseLiens } from '@/blink/liens'
+import { listCaseExpenses } from '@/blink/expenses'
+import {
+  approveSettlementStatement,
+  getSettlementStatement,
+  saveSettlementStatement
+} from '@/blink/settlementStatements'
+import { downloadLetter } from '@/lib/letterExport'
+import { lienPayoff } from '@/lib/liens'
+import { FEE_STAGES, SETTLEMENT_LIEN_TYPES, approvalProblem, calculateDistribution } from '@/lib/settlementStatement'
+import { exportSettlementStatementToPdf } from '@/lib/statementExport'
+import type { Case } from '@/types/case'
+import type {
+  ApprovalParty,
+  FeeStage,
+  SettlementCost,
+  SettlementLien,
+  SettlementLienType,
+  SettlementStatement,
+  SettlementStatementInput
+} from '@/types/settlement'
+import { useToast } from '@/hooks/use-toast'
+
+interface SettlementStatementEditorProps {
+  caseData: Case
+  userId: string
+  onLocked?: () => void
+}
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const toInput = (statement: SettlementStatement): SettlementStatementInput => ({
+  grossSettlement: statement.grossSettlement,
+  feeStage: statement.feeStage,
+  feePercent: statement.feePercent,
+  costs: statement.costs,
+  liens: statement.liens
+})
+
+export function SettlementStatementEditor({ caseData, userId, onLocked }: SettlementStatementEditorProps) {
+  const [statement, setStatement] = useState<SettlementStatement | null>(null)
+  const [input, setInput] = useState<SettlementStatementInput>({
+    grossSettlement: 0,
+    feeStage: 'pre_suit',
+    feePercent: FEE_STAGES.pre_suit.percent,
+    costs: [],
+    liens: []
+  })
+  const [attorneyName, setAttorneyName] = useState('')
+  const [dirty, setDirty] = useState(false)
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+
+  const caseId = caseData.id
+  const locked = Boolean(statement?.lockedAt)
+
+  useEffect(() => {
+    const loadStatement = async () => {
+      try {
+        const [existing, worksheet, register, expenses, signatory] = await Promise.all([
+          getSettlementStatement(caseId),
+          getDamagesWorksheet(userId, caseId),
+          listCaseLiens(userId, caseId),
+          listCaseExpenses(userId, caseId),
+          loadSignatory(userId)
+        ])
+        setAttorneyName(signatory.name || caseData.assignedAttorney)
+        setStatement(existing)
+
+        if (existing) {
+          setInput(toInput(existing))
+          setDirty(false)
+          return
+        }
+        // A new statement starts from the accepted offer, the reimbursable expenses and the
+        // payoffs in the lien register, falling back to the estimates on the damages worksheet
+        const costs: SettlementCost[] = expenses
+          .filter(expense => expense.reimbursable)
+          .map(expense => ({ id: expense.id, description: expense.description, amount: expense.amount }))
+        const liens: SettlementLien[] = register.length > 0
+          ? register.filter(lien => lien.status !== 'waived').map(lien => ({
+            id: lien.id,
+            type: lien.type,
+            holder: lien.holder,
+            amount: lienPayoff(lien)
+          }))
+          : (worksheet?.liens || []).map(lien => ({
+            id: lien.id,
+            type: /medicare/i.test(lien.holder) ? 'medicare' : 'medical',
+            holder: lien.holder,
+            amount: lien.amount
+          }))
+        setInput(prev => ({ ...prev, grossSettlement: caseData.currentOffer || 0, costs, liens }))
+        setDirty(true)
+      } catch (error) {
+        console.error('Error loading settlement statement:', error)
+      }
+    }
+    loadStatement()
+  }, [caseId, userId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const distribution = useMemo(() => calculateDistribution(input), [input])
+  const problem = approvalProblem(distribution)
+
+  const update = (updates: Partial<SettlementStatementInput>) => {
+    setInput(prev => ({ ...prev, ...updates }))
+    setDirty(true)
+  }
+
+  const updateCost = (id: string, updates: Partial<SettlementCost>) => {
+    update({ costs: input.costs.map(cost => (cost.id === id ? { ...cost, ...updates } : cost)) })
+  }
+
+  const updateLien = (id: string, updates: Partial<SettlementLien>) => {
+    update({ liens: input.liens.map(lien => (lien.id === id ? { ...lien, ...updates } : lien)) })
+  }
+
+  const changeStage = (feeStage: FeeStage) => {
+    update({ feeStage, feePercent: FEE_STAGES[feeStage].percent })
+  }
+
+  const saveStatement = async () => {
+    if (input.grossSettlement <= 0) {
+      toast({
+        title: "Error",
+        description: "Please enter the gross settlement amount",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setWorking(true)
+      setStatement(await saveSettlementStatement(userId, caseId, input))
+      setDirty(false)
+      toast({
+        title: "Statement Saved",
+        description: statement?.attorneyApproval || statement?.clientApproval
+          ? 'Earlier approvals were withdrawn because the figures changed'
+          : `Net to client: ${formatCurrency(distribution.netToClient)}`
+      })
+    } catch (error) {
+      console.error('Error saving settlement statement:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save settlement statement",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const approve = async () => {
+    try {
+      setWorking(true)
+      const approved = await approveSettlementStatement(caseId, attorneyName)
+      setStatement(approved)
+      if (approved.lockedAt) onLocked?.()
+
+      toast({
+        title: approved.lockedAt ? "Statement Locked" : "Approval Recorded",
+        description: approved.lockedAt
+          ? 'Both sides approved. Case financials are now locked.'
+          : 'Waiting for the client to approve it on the client portal'
+      })
+    } catch (error) {
+      console.error('Error approving settlement statement:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record approval",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const renderPdf = async () => {
+    if (!statement) throw new Error('Statement not saved')
+    const letterhead = await loadLetterhead(userId)
+    const blob = await exportSettlementStatementToPdf({ letterhead, caseData, statement })
+    const fileName = `Settlement Statement - ${caseData.caseNumber} - ${format(new Date(), 'yyyy-MM-dd')}.pdf`
+    return { blob, fileName }
+  }
+
+  const handleDownload = async () => {
+    try {
+      setWorking(true)
+      const { blob, fileName } = await renderPdf()
+      downloadLetter(fileName, blob)
+    } catch (error) {
+      console.error('Error exporting settlement statement:', error)
+      toast({
+        title: "Error",
+        description: "Failed to export settlement statement",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleSaveToCase = async () => {
+    try {
+      setWorking(true)
+      const { blob, fileName } = await renderPdf()
+      await saveCaseDocument(userId, caseId, fileName, blob, 'other')
+      toast({
+        title: "Statement Filed",
+        description: `${fileName} was added to the case documents`
+      })
+    } catch (error) {
+      console.error('Error saving settlement statement document:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save the statement to the case",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const approvalRow = (party: ApprovalParty, label: string) => {
+    const approval = party === 'attorney' ? statement?.attorneyApproval : statement?.clientApproval
+    return (
+      <div className="flex items-center justify-between p-3 border rounded-lg">
+        <div>
+          <p className="font-medium">{label}</p>
+          {approval ? (
+            <p className="text-sm text-green-700">
+              Approved by {approval.name} on {format(parseISO(approval.approvedAt), 'MMM d, yyyy h:mm a')}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {party === 'attorney' ? 'Not yet approved' : 'Not yet approved on the client portal'}
+            </p>
+          )}
+        </div>
+        {approval && <CheckCircle className="h-5 w-5 text-green-600" />}
+        {!approval && party === 'attorney' && (
+          <Button size="sm" variant="outline" onClick={approve} disabled={working || dirty || !statement || Boolean(problem)}>
+            <FileSignature className="h-4 w-4 mr-2" />
+            Approve
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        {statement?.lockedAt && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 text-green-800 text-sm">
+            <Lock className="h-4 w-4" />
+            Approved by both sides on {format(parseISO(statement.lockedAt), 'MMMM d, yyyy')}. The statement and
+            case financials are locked.
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Settlement and Fee</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gross-settlement">Gross settlement ($)</Label>
+              <Input
+                id="gross-settlement"
+                type="number"
+                min="0"
+                step="0.01"
+                value={input.grossSettlement || ''}
+                onChange={(e) => update({ grossSettlement: parseFloat(e.target.value) || 0 })}
+                disabled={locked}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Fee stage</Label>
+              <Select value={input.feeStage} onValueChange={(value) => changeStage(value as FeeStage)} disabled={locked}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FEE_STAGES).map(([value, stage]) => (
+                    <SelectItem key={value} value={value}>{stage.label} ({stage.percent}%)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fee-percent">Contingency fee (%)</Label>
+              <Input
+                id="fee-percent"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={input.feePercent}
+                onChange={(e) => update({ feePercent: parseFloat(e.target.value) || 0 })}
+                disabled={locked}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Case Costs Advanced</CardTitle>
+              {!locked && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => update({ costs: [...input.costs, { id: newId('cost'), description: '', amount: 0 }] })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Cost
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {input.costs.length === 0 && <p className="text-sm text-gray-500">No costs to reimburse</p>}
+            {input.costs.map(cost => (
+              <div key={cost.id} className="grid grid-cols-[1fr_8rem_auto] gap-2 items-center">
+                <Input
+                  placeholder="e.g., Filing fee, medical records"
+                  value={cost.description}
+                  onChange={(e) => updateCost(cost.id, { description: e.target.value })}
+                  disabled={locked}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={cost.amount || ''}
+                  onChange={(e) => updateCost(cost.id, { amount: parseFloat(e.target.value) || 0 })}
+                  disabled={locked}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => update({ costs: input.costs.filter(candidate => candidate.id !== cost.id) })}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  disabled={locked}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Liens</CardTitle>
+              {!locked && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => update({
+                    liens: [...input.liens, { id: newId('lien'), type: 'medical', holder: '', amount: 0 }]
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Lien
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {input.liens.length === 0 && <p className="text-sm text-gray-500">No liens to pay off</p>}
+            {input.liens.map(lien => (
+              <div key={lien.id} className="grid grid-cols-[10rem_1fr_8rem_auto] gap-2 items-center">
+                <Select
+                  value={lien.type}
+                  onValueChange={(value) => updateLien(lien.id, { type: value as SettlementLienType })}
+                  disabled={locked}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SETTLEMENT_LIEN_TYPES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Lienholder"
+                  value={lien.holder}
+                  onChange={(e) => updateLien(lien.id, { holder: e.target.value })}
+                  disabled={locked}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={lien.amount || ''}
+                  onChange={(e) => updateLien(lien.id, { amount: parseFloat(e.target.value) || 0 })}
+                  disabled={locked}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => update({ liens: input.liens.filter(candidate => candidate.id !== lien.id) })}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  disabled={locked}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Distribution</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex justify-between font-medium">
+              <span>Gross settlement</span>
+              <span>{formatCurrency(distribution.grossSettlement)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Attorney fee ({input.feePercent}%)</span>
+              <span>−{formatCurrency(distribution.attorneyFee)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Case costs</span>
+              <span>−{formatCurrency(distribution.costTotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Liens</span>
+              <span>−{formatCurrency(distribution.lienTotal)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between font-semibold text-base">
+              <span>Net to client</span>
+              <span className={distribution.netToClient < 0 ? 'text-red-600' : 'text-green-700'}>
+                {formatCurrency(distribution.netToClient)}
+              </span>
+            </div>
+            {problem && !locked && (
+              <div className="flex items-start gap-2 p-2 rounded-lg bg-red-50 text-red-800 text-xs">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {problem}
+              </div>
+            )}
+
+            {!locked && (
+              <Button className="w-full mt-4" onClick={saveStatement} disabled={working || !dirty}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Statement
+              </Button>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={handleDownload} disabled={working || dirty || !statement}>
+                <Download className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+              <Button variant="outline" onClick={handleSaveToCase} disabled={working || dirty || !statement}>
+                <Save className="h-4 w-4 mr-2" />
+                File
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              Approvals
+              {locked && <Badge className="bg-green-100 text-green-800">Locked</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Approving locks in the figures; saving changes withdraws earlier approvals.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {approvalRow('attorney', `Attorney · ${attorneyName}`)}
+            {approvalRow('client', `Client · ${caseData.clientName}`)}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ArrowRight, ListChecks } from 'lucide-react'
+import { setChecklistItem } from '@/blink/caseWorkflows'
+import { CASE_STATUSES, allowedTransitions, findStage, missingRequiredItems } from '@/lib/workflow'
+import type { CaseStatus, CaseWorkflow, ChecklistCompletion } from '@/types/workflow'
+import { useToast } from '@/hooks/use-toast'
+
+interface StageChecklistProps {
+  caseId: string
+  status: CaseStatus
+  actor: { id: string; name: string }
+  workflow: CaseWorkflow
+  completions: ChecklistCompletion[]
+  onChange: (completions: ChecklistCompletion[]) => void
+}
+
+// The current stage's checklist and where the case can go next
+export function StageChecklist({ caseId, status, actor, workflow, completions, onChange }: StageChecklistProps) {
+  const [savingItemId, setSavingItemId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const stage = findStage(workflow, status)
+  const completedById = new Map(completions.map(completion => [completion.itemId, completion]))
+  const missing = missingRequiredItems(workflow, status, new Set(completedById.keys()))
+  const next = allowedTransitions(workflow, status)
+
+  const toggleItem = async (itemId: string, completed: boolean) => {
+    try {
+      setSavingItemId(itemId)
+      const saved = await setChecklistItem(actor, caseId, itemId, completed)
+      const others = completions.filter(completion => completion.itemId !== itemId)
+      onChange(saved ? [...others, saved] : others)
+    } catch (error) {
+      console.error('Error updating checklist:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update checklist",
+        variant: "destructive"
+      })
+    } finally {
+      setSavingItemId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ListChecks className="mr-2 h-5 w-5" />
+          {CASE_STATUSES[status] || status} Checklist
+        </CardTitle>
+        <CardDescription>
+          {missing.length > 0
+            ? `${missing.length} required item${missing.length === 1 ? '' : 's'} left before the case can move on`
+            : 'Every required item is done'}
+          {!workflow.custom && ' · Standard workflow'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(stage?.checklist || []).length === 0 && (
+          <p className="text-sm text-gray-600">This stage has no checklist.</p>
+        )}
+        {stage?.checklist.map(checklistItem => {
+          const completion = completedById.get(checklistItem.id)
+          return (
+            <div key={checklistItem.id} className="flex items-start space-x-3">
+              <Checkbox
+                id={`checklist-${checklistItem.id}`}
+                checked={!!completion}
+                disabled={savingItemId === checklistItem.id}
+                onCheckedChange={(checked) => toggleItem(checklistItem.id, checked === true)}
+              />
+              <div className="flex-1">
+                <label
+                  htmlFor={`checklist-${checklistItem.id}`}
+                  className={`text-sm font-medium ${completion ? 'line-through text-gray-500' : ''}`}
+                >
+                  {checklistItem.label}
+                </label>
+                {completion && (
+                  <p className="text-xs text-gray-500">
+                    {completion.completedBy || 'Completed'} · {format(parseISO(completion.completedAt), 'MMM d, yyyy')}
+                  </p>
+                )}
+              </div>
+              {checklistItem.required && !completion && <Badge variant="outline">Required</Badge>}
+            </div>
+          )
+        })}
+
+        {next.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+            <span className="text-sm text-gray-600">Next:</span>
+            {next.map(nextStatus => (
+              <Badge key={nextStatus} variant={missing.length > 0 ? 'outline' : 'secondary'}>
+                <ArrowRight className="mr-1 h-3 w-3" />
+                {CASE_STATUSES[nextStatus]}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,368 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Clock, Pencil, Play, Plus, Square, Trash2 } from 'lucide-react'
+import { deleteTimeEntry, saveTimeEntry, startTimer, stopTimer } from '@/blink/billing'
+import {
+  ACTIVITY_CODES,
+  elapsedMinutes,
+  entryAmount,
+  formatHours,
+  formatMoney,
+  isUnbilled,
+  resolveRate
+} from '@/lib/billing'
+import type { BillingSettings, TimeEntry, TimeEntryInput } from '@/types/billing'
+import { useToast } from '@/hooks/use-toast'
+
+interface TimeTrackerProps {
+  caseId: string
+  userId: string
+  settings: BillingSettings
+  entries: TimeEntry[]
+  onChange: (entries: TimeEntry[]) => void
+}
+
+interface TimeEntryDraft extends TimeEntryInput {
+  id?: string
+}
+
+export function TimeTracker({ caseId, userId, settings, entries, onChange }: TimeTrackerProps) {
+  const [timekeeperId, setTimekeeperId] = useState(userId)
+  const [activityCode, setActivityCode] = useState('A104')
+  const [description, setDescription] = useState('')
+  const [draft, setDraft] = useState<TimeEntryDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [now, setNow] = useState(new Date())
+  const { toast } = useToast()
+
+  const running = entries.filter(entry => entry.timerStartedAt)
+  const unbilled = entries.filter(isUnbilled)
+  const unbilledTotal = unbilled.reduce((sum, entry) => sum + entryAmount(entry), 0)
+  const money = (amount: number) => formatMoney(amount, settings.currency)
+
+  useEffect(() => {
+    if (running.length === 0) return
+    const interval = setInterval(() => setNow(new Date()), 30000)
+    return () => clearInterval(interval)
+  }, [running.length])
+
+  const timekeeperInput = (id: string) => {
+    const timekeeper = settings.timekeepers.find(candidate => candidate.userId === id)
+    return {
+      timekeeperId: id,
+      timekeeperName: timekeeper?.name || 'Unknown User',
+      rate: resolveRate(timekeeper, settings.billingRate)
+    }
+  }
+
+  const showError = (description: string) => toast({ title: "Error", description, variant: "destructive" })
+
+  const replaceEntry = (saved: TimeEntry) => {
+    const next = entries.some(entry => entry.id === saved.id)
+      ? entries.map(entry => (entry.id === saved.id ? saved : entry))
+      : [saved, ...entries]
+    next.sort((a, b) => b.date.localeCompare(a.date))
+    onChange(next)
+  }
+
+  const handleStart = async () => {
+    if (!description.trim()) {
+      showError("Describe the work before starting the timer")
+      return
+    }
+
+    try {
+      const entry = await startTimer(userId, caseId, {
+        ...timekeeperInput(timekeeperId),
+        activityCode,
+        description: description.trim()
+      })
+      setNow(new Date())
+      setDescription('')
+      replaceEntry(entry)
+    } catch (error) {
+      console.error('Error starting timer:', error)
+      showError("Failed to start timer")
+    }
+  }
+
+  const handleStop = async (entry: TimeEntry) => {
+    try {
+      replaceEntry(await stopTimer(entry))
+    } catch (error) {
+      console.error('Error stopping timer:', error)
+      showError("Failed to stop timer")
+    }
+  }
+
+  const openDraft = (entry?: TimeEntry) => {
+    setDraft(entry
+      ? {
+        id: entry.id,
+        timekeeperId: entry.timekeeperId,
+        timekeeperName: entry.timekeeperName,
+        date: entry.date,
+        minutes: entry.minutes,
+        activityCode: entry.activityCode,
+        description: entry.description,
+        rate: entry.rate
+      }
+      : {
+        ...timekeeperInput(userId),
+        date: format(new Date(), 'yyyy-MM-dd'),
+        minutes: 0,
+        activityCode: 'A104',
+        description: ''
+      })
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    if (!draft.description.trim() || draft.minutes <= 0 || !draft.date) {
+      showError("Please enter a date, time spent and description")
+      return
+    }
+
+    try {
+      setSaving(true)
+      const { id, ...input } = draft
+      replaceEntry(await saveTimeEntry(userId, caseId, input, id))
+      setDraft(null)
+    } catch (error) {
+      console.error('Error saving time entry:', error)
+      showError(error instanceof Error ? error.message : "Failed to save time entry")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeEntry = async (entry: TimeEntry) => {
+    try {
+      await deleteTimeEntry(entry)
+      onChange(entries.filter(candidate => candidate.id !== entry.id))
+    } catch (error) {
+      console.error('Error deleting time entry:', error)
+      showError("Failed to delete time entry")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Clock className="mr-2 h-5 w-5" />
+              Time Entries
+            </CardTitle>
+            <CardDescription>
+              {settings.billingRate > 0
+                ? `Firm rate ${money(settings.billingRate)}/hr · ${formatHours(unbilled.reduce((sum, entry) => sum + entry.minutes, 0))} unbilled (${money(unbilledTotal)})`
+                : 'Set the firm billing rate in Company Settings to price time entries'}
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => openDraft()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Time
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <Select value={timekeeperId} onValueChange={setTimekeeperId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Team member" />
+            </SelectTrigger>
+            <SelectContent>
+              {settings.timekeepers.map(timekeeper => (
+                <SelectItem key={timekeeper.userId} value={timekeeper.userId}>{timekeeper.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={activityCode} onValueChange={setActivityCode}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ACTIVITY_CODES).map(([code, label]) => (
+                <SelectItem key={code} value={code}>{code} {label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="What are you working on?"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+          <Button onClick={handleStart}>
+            <Play className="h-4 w-4 mr-2" />
+            Start Timer
+          </Button>
+        </div>
+
+        {running.map(entry => (
+          <div key={entry.id} className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 p-3">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{entry.description}</p>
+              <p className="text-sm text-gray-600">
+                {entry.timekeeperName} · {entry.activityCode} ·{' '}
+                {formatHours(entry.minutes + elapsedMinutes(entry.timerStartedAt || '', now))} running
+              </p>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => handleStop(entry)}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          </div>
+        ))}
+
+        {entries.length === 0 && (
+          <p className="text-sm text-gray-500">No time recorded for this case.</p>
+        )}
+
+        <div className="divide-y">
+          {entries.filter(entry => !entry.timerStartedAt).map(entry => (
+            <div key={entry.id} className="flex items-start justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{entry.description}</p>
+                <p className="text-sm text-gray-600">
+                  {format(parseISO(entry.date), 'MMM d, yyyy')} · {entry.timekeeperName} · {formatHours(entry.minutes)} at {money(entry.rate)}/hr
+                </p>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  <Badge variant="outline">{entry.activityCode} {ACTIVITY_CODES[entry.activityCode]}</Badge>
+                  {entry.invoiceId && <Badge className="bg-blue-100 text-blue-800">Billed</Badge>}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <span className="font-medium mr-2">{money(entryAmount(entry))}</span>
+                {!entry.invoiceId && (
+                  <>
+                    <Button size="sm" variant="ghost" onClick={() => openDraft(entry)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeEntry(entry)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Time Entry' : 'Add Time Entry'}</DialogTitle>
+            <DialogDescription>
+              Time is billed in tenths of an hour at the member's rate, or the firm rate when none is set.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Team member</Label>
+                  <Select
+                    value={draft.timekeeperId}
+                    onValueChange={(value) => setDraft({ ...draft, ...timekeeperInput(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {settings.timekeepers.map(timekeeper => (
+                        <SelectItem key={timekeeper.userId} value={timekeeper.userId}>{timekeeper.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="time-date">Date</Label>
+                  <Input
+                    id="time-date"
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Activity</Label>
+                <Select value={draft.activityCode} onValueChange={(value) => setDraft({ ...draft, activityCode: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACTIVITY_CODES).map(([code, label]) => (
+                      <SelectItem key={code} value={code}>{code} {label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="time-description">Description</Label>
+                <Input
+                  id="time-description"
+                  placeholder="e.g. Review medical records from treating physician"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="time-minutes">Minutes</Label>
+                  <Input
+                    id="time-minutes"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={draft.minutes || ''}
+                    onChange={(e) => setDraft({ ...draft, minutes: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="time-rate">Rate ({settings.currency}/hr)</Label>
+                  <Input
+                    id="time-rate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.rate || ''}
+                    onChange={(e) => setDraft({ ...draft, rate: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={saveDraft} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Time Entry'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { saveClient } from '@/blink/clients'
+import { CONTACT_METHODS, EMPTY_CLIENT } from '@/lib/clients'
+import type { Client, ClientInput, ContactMethod } from '@/types/client'
+import { useToast } from '@/hooks/use-toast'
+
+interface ClientFormDialogProps {
+  userId: string
+  client: Client | null // null adds a new client
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: (client: Client) => void
+}
+
+export function ClientFormDialog({ userId, client, open, onOpenChange, onSaved }: ClientFormDialogProps) {
+  const [form, setForm] = useState<ClientInput>(EMPTY_CLIENT)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (open) setForm(client ? { ...client } : EMPTY_CLIENT)
+  }, [open, client])
+
+  const update = (fields: Partial<ClientInput>) => setForm(prev => ({ ...prev, ...fields }))
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const saved = await saveClient(userId, form, client?.id)
+      onSaved(saved)
+      onOpenChange(false)
+      toast({
+        title: "Success",
+        description: client ? "Client updated successfully" : "Client added successfully"
+      })
+    } catch (error) {
+      console.error('Error saving client:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save client",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{client ? 'Edit Client' : 'Add New Client'}</DialogTitle>
+          <DialogDescription>
+            {client
+              ? 'Changes to contact details are copied to every case for this client'
+              : 'Add a new client to your practice'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="client-name">Full Name *</Label>
+              <Input
+                id="client-name"
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="John Smith"
+              />
+            </div>
+            <div>
+              <Label htmlFor="client-email">Email Address</Label>
+              <Input
+                id="client-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => update({ email: e.target.value })}
+                placeholder="john.smith@email.com"
+              />
+            </div>
+            <div>
+              <Label htmlFor="client-phone">Phone Number</Label>
+              <Input
+                id="client-phone"
+                value={form.phone}
+                onChange={(e) => update({ phone: e.target.value })}
+                placeholder="(555) 123-4567"
+              />
+            </div>
+            <div>
+              <Label htmlFor="client-dob">Date of Birth</Label>
+              <Input
+                id="client-dob"
+                type="date"
+                value={form.dateOfBirth}
+                onChange={(e) => update({ dateOfBirth: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Preferred Contact Method</Label>
+              <Select
+                value={form.preferredContactMethod}
+                onValueChange={(value) => update({ preferredContactMethod: value as ContactMethod })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CONTACT_METHODS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-6 gap-4">
+            <div className="col-span-6">
+              <Label htmlFor="client-address">Street Address</Label>
+              <Input
+                id="client-address"
+                value={form.addressLine}
+                onChange={(e) => update({ addressLine: e.target.value })}
+                placeholder="123 Main St, Apt 4"
+              />
+            </div>
+            <div className="col-span-3">
+              <Label htmlFor="client-city">City</Label>
+              <Input
+                id="client-city"
+                value={form.city}
+                onChange={(e) => update({ city: e.target.value })}
+              />
+            </div>
+            <div className="col-span-1">
+              <Label htmlFor="client-state">State</Label>
+              <Input
+                id="client-state"
+                value={form.state}
+                maxLength={2}
+                onChange={(e) => update({ state: e.target.value.toUpperCase() })}
+                placeholder="CA"
+              />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="client-postal-code">ZIP Code</Label>
+              <Input
+                id="client-postal-code"
+                value={form.postalCode}
+                onChange={(e) => update({ postalCode: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="client-notes">Notes</Label>
+            <Textarea
+              id="client-notes"
+              value={form.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : client ? 'Save Client' : 'Add Client'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
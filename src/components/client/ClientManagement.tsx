@@ -1,12 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Separator } from '@/components/ui/separator'
 import { 
   Users, 
@@ -19,103 +17,77 @@ import {
   Plus,
   Search,
   Filter,
-  MoreHorizontal,
   Edit,
   Trash2,
-  Eye
+  Eye,
+  Cake,
+  MessageSquare
 } from 'lucide-react'
 
 
 import { useToast } from '@/hooks/use-toast'
 import { blink } from '@/blink/client'
-
-interface Client {
-  id: string
-  name: string
-  email: string
-  phone: string
-  address?: string
-  created_at: string
-  total_cases: number
-  active_cases: number
-  total_settlements: number
-}
+import { deleteClient, linkCaseClients, listClients } from '@/blink/clients'
+import { CONTACT_METHODS, formatClientAddress, summarizeClientCases } from '@/lib/clients'
+import type { Client, ClientCaseTotals } from '@/types/client'
+import { ClientFormDialog } from './ClientFormDialog'
+import { PortalAccessCard } from './PortalAccessCard'
 
 interface ClientCase {
   id: string
-  case_number: string
-  case_type: string
+  clientId: string
+  caseNumber: string
+  caseType: string
   status: string
-  created_at: string
-  settlement_amount?: string
+  createdAt: string
+  settlementAmount: number
   description: string
 }
 
+const NO_CASES: ClientCaseTotals = { totalCases: 0, openCases: 0, totalSettlements: 0 }
+
 export function ClientManagement() {
+  const [user, setUser] = useState<any>(null)
   const [clients, setClients] = useState<Client[]>([])
+  const [cases, setCases] = useState<ClientCase[]>([])
   const [selectedClient, setSelectedClient] = useState<Client | null>(null)
-  const [clientCases, setClientCases] = useState<ClientCase[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
-  const [isAddClientDialogOpen, setIsAddClientDialogOpen] = useState(false)
+  const [isClientFormOpen, setIsClientFormOpen] = useState(false)
+  const [editingClient, setEditingClient] = useState<Client | null>(null)
   const [isClientDetailDialogOpen, setIsClientDetailDialogOpen] = useState(false)
-  const [newClient, setNewClient] = useState({
-    name: '',
-    email: '',
-    phone: '',
-    address: ''
-  })
   const { toast } = useToast()
 
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+      setUser(state.user)
+    })
+    return unsubscribe
+  }, [])
+
   const loadClients = useCallback(async () => {
+    if (!user?.id) return
+
     try {
-      // Get all cases to extract unique clients
-      const casesResult = await blink.db.cases.list({
-        orderBy: { createdAt: 'desc' }
-      })
+      // Cases from before clients had their own records are linked to one first
+      await linkCaseClients(user.id)
 
-      console.log('🔍 DEBUG: Cases loaded:', casesResult?.length || 0)
-      console.log('🔍 DEBUG: Cases data:', casesResult)
-
-      if (casesResult) {
-        // Group cases by client to create client summary
-        const clientMap = new Map<string, Client>()
-        
-        casesResult.forEach((case_: any) => {
-          const clientName = case_.client_name || case_.clientName || 'Unknown Client'
-          console.log('🔍 DEBUG: Processing case for client:', clientName, 'Case:', case_.case_number || case_.caseNumber)
-          console.log('🔍 DEBUG: Full case object:', case_)
-          
-          if (!clientMap.has(clientName)) {
-            clientMap.set(clientName, {
-              id: clientName.toLowerCase().replace(/\s+/g, '-'),
-              name: clientName,
-              email: case_.client_email || case_.clientEmail || `${clientName.toLowerCase().replace(/\s+/g, '.')}@email.com`,
-              phone: case_.client_phone || case_.clientPhone || '(555) 000-0000',
-              address: case_.client_address || case_.clientAddress || '',
-              created_at: case_.created_at || case_.createdAt,
-              total_cases: 0,
-              active_cases: 0,
-              total_settlements: 0
-            })
-          }
-
-          const client = clientMap.get(clientName)!
-          client.total_cases++
-          
-          if (case_.status === 'active' || case_.status === 'new') {
-            client.active_cases++
-          }
-          
-          if (case_.current_offer || case_.currentOffer) {
-            client.total_settlements += Number(case_.current_offer || case_.currentOffer) || 0
-          }
-        })
-
-        const clientsArray = Array.from(clientMap.values())
-        console.log('🔍 DEBUG: Final clients array:', clientsArray)
-        setClients(clientsArray)
-      }
+      const [clientRows, caseRows] = await Promise.all([
+        listClients(user.id),
+        blink.db.table('cases').list({ where: { userId: user.id }, orderBy: { createdAt: 'desc' } })
+      ])
+
+      setClients(clientRows)
+      setCases(caseRows.map((row: any) => ({
+        id: row.id,
+        clientId: row.clientId,
+        caseNumber: row.caseNumber,
+        caseType: row.caseType,
+        status: row.status,
+        createdAt: row.createdAt,
+        settlementAmount: Number(row.settlementAmount) || 0,
+        description: row.description || ''
+      })))
     } catch (error) {
       console.error('Error loading clients:', error)
       toast({
@@ -126,151 +98,58 @@ export function ClientManagement() {
     } finally {
       setLoading(false)
     }
-  }, [toast])
+  }, [user?.id, toast])
 
   useEffect(() => {
     loadClients()
   }, [loadClients])
 
-  const loadClientCases = async (clientName: string) => {
-    try {
-      console.log('🔍 DEBUG: Loading cases for client:', clientName)
-      console.log('🔍 DEBUG: Client name type:', typeof clientName)
-      console.log('🔍 DEBUG: Client name length:', clientName.length)
-      console.log('🔍 DEBUG: Client name chars:', clientName.split('').map(c => c.charCodeAt(0)))
-      
-      // First, let's see all cases to debug
-      const allCases = await blink.db.cases.list({
-        orderBy: { createdAt: 'desc' }
-      })
-      console.log('🔍 DEBUG: All cases in database:', allCases?.length || 0)
-      
-      // Check exact matches
-      const exactMatches = allCases?.filter(c => {
-        const dbName = c.client_name || c.clientName
-        console.log('🔍 DEBUG: Comparing:', `"${clientName}"`, 'vs', `"${dbName}"`)
-        console.log('🔍 DEBUG: Exact match?', clientName === dbName)
-        console.log('🔍 DEBUG: Trimmed match?', clientName.trim() === dbName?.trim())
-        return dbName === clientName
-      })
-      console.log('🔍 DEBUG: Exact matches found:', exactMatches?.length || 0)
-      
-      // Try multiple approaches to find the cases
-      let casesResult = []
-      
-      // Approach 1: Direct database query
-      try {
-        casesResult = await blink.db.cases.list({
-          where: { client_name: clientName },
-          orderBy: { created_at: 'desc' }
-        })
-        console.log('🔍 DEBUG: Approach 1 (client_name filter):', casesResult?.length || 0)
-      } catch (e) {
-        console.log('🔍 DEBUG: Approach 1 failed:', e)
-      }
-      
-      // Approach 2: If no results, try camelCase
-      if (!casesResult || casesResult.length === 0) {
-        try {
-          casesResult = await blink.db.cases.list({
-            where: { clientName: clientName },
-            orderBy: { createdAt: 'desc' }
-          })
-          console.log('🔍 DEBUG: Approach 2 (clientName filter):', casesResult?.length || 0)
-        } catch (e) {
-          console.log('🔍 DEBUG: Approach 2 failed:', e)
-        }
-      }
-      
-      // Approach 3: If still no results, filter manually from all cases
-      if (!casesResult || casesResult.length === 0) {
-        console.log('🔍 DEBUG: Approach 3 - Manual filtering from all cases')
-        casesResult = allCases?.filter(case_ => {
-          const dbClientName = case_.client_name || case_.clientName
-          return dbClientName === clientName || dbClientName?.trim() === clientName.trim()
-        }) || []
-        console.log('🔍 DEBUG: Approach 3 results:', casesResult?.length || 0)
-      }
-      
-      console.log('🔍 DEBUG: Final cases found for', clientName, ':', casesResult?.length || 0)
-      console.log('🔍 DEBUG: Case details:', casesResult)
-      
-      // Convert to the format expected by the UI
-      const formattedCases = casesResult?.map((case_: any) => ({
-        id: case_.id,
-        case_number: case_.case_number || case_.caseNumber,
-        case_type: case_.case_type || case_.caseType,
-        status: case_.status,
-        created_at: case_.created_at || case_.createdAt,
-        settlement_amount: (case_.current_offer || case_.currentOffer)?.toString() || '',
-        description: case_.description
-      })) || []
-      
-      console.log('🔍 DEBUG: Formatted cases for UI:', formattedCases)
-      setClientCases(formattedCases)
-    } catch (error) {
-      console.error('Error loading client cases:', error)
-      toast({
-        title: "Error",
-        description: "Failed to load client cases",
-        variant: "destructive"
-      })
-    }
+  const casesOf = (clientId: string) => cases.filter(case_ => case_.clientId === clientId)
+  const totals = new Map(clients.map(client => [client.id, summarizeClientCases(casesOf(client.id))]))
+  const totalsOf = (clientId: string) => totals.get(clientId) || NO_CASES
+  const clientCases = selectedClient ? casesOf(selectedClient.id) : []
+
+  const openClientForm = (client: Client | null) => {
+    setEditingClient(client)
+    setIsClientFormOpen(true)
   }
 
-  const addClient = async () => {
-    if (!newClient.name.trim() || !newClient.email.trim()) {
-      toast({
-        title: "Error",
-        description: "Name and email are required",
-        variant: "destructive"
-      })
-      return
-    }
+  const handleClientSaved = (saved: Client) => {
+    if (selectedClient?.id === saved.id) setSelectedClient(saved)
+    loadClients()
+  }
 
-    try {
-      // For now, we'll create a placeholder case for the new client
-      // In a real app, you'd have a separate clients table
-      await blink.db.cases.create({
-        case_number: `CLIENT-SETUP-${Date.now()}`,
-        client_name: newClient.name,
-        client_email: newClient.email,
-        client_phone: newClient.phone,
-        client_address: newClient.address,
-        case_type: 'other',
-        status: 'new',
-        description: 'Initial client setup - consultation scheduled',
-        created_at: new Date().toISOString(),
-        user_id: 'current-user' // This would be the actual user ID
-      })
+  const handleDeleteClient = async (client: Client) => {
+    if (!user?.id) return
 
+    try {
+      await deleteClient(user.id, client.id)
+      setIsClientDetailDialogOpen(false)
+      setSelectedClient(null)
+      setClients(prev => prev.filter(existing => existing.id !== client.id))
       toast({
         title: "Success",
-        description: "Client added successfully"
+        description: "Client deleted"
       })
-
-      setNewClient({ name: '', email: '', phone: '', address: '' })
-      setIsAddClientDialogOpen(false)
-      loadClients()
     } catch (error) {
-      console.error('Error adding client:', error)
+      console.error('Error deleting client:', error)
       toast({
         title: "Error",
-        description: "Failed to add client",
+        description: error instanceof Error ? error.message : "Failed to delete client",
         variant: "destructive"
       })
     }
   }
 
-  const viewClientDetails = async (client: Client) => {
+  const viewClientDetails = (client: Client) => {
     setSelectedClient(client)
-    await loadClientCases(client.name)
     setIsClientDetailDialogOpen(true)
   }
 
   const filteredClients = clients.filter(client =>
     client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.email.toLowerCase().includes(searchTerm.toLowerCase())
+    client.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    client.phone.includes(searchTerm)
   )
 
   const formatCurrency = (amount: number) => {
@@ -283,7 +162,9 @@ export function ClientManagement() {
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'active': return 'bg-blue-100 text-blue-800'
+      case 'investigating': return 'bg-blue-100 text-blue-800'
+      case 'negotiating': return 'bg-purple-100 text-purple-800'
+      case 'litigation': return 'bg-red-100 text-red-800'
       case 'settled': return 'bg-green-100 text-green-800'
       case 'new': return 'bg-yellow-100 text-yellow-800'
       case 'closed': return 'bg-gray-100 text-gray-800'
@@ -303,70 +184,10 @@ export function ClientManagement() {
           <h1 className="text-2xl font-bold text-gray-900">Client Management</h1>
           <p className="text-gray-600">Manage your clients and their cases</p>
         </div>
-        <Dialog open={isAddClientDialogOpen} onOpenChange={setIsAddClientDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Client
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Add New Client</DialogTitle>
-              <DialogDescription>
-                Add a new client to your practice
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="name">Full Name *</Label>
-                <Input
-                  id="name"
-                  value={newClient.name}
-                  onChange={(e) => setNewClient({ ...newClient, name: e.target.value })}
-                  placeholder="John Smith"
-                />
-              </div>
-              <div>
-                <Label htmlFor="email">Email Address *</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={newClient.email}
-                  onChange={(e) => setNewClient({ ...newClient, email: e.target.value })}
-                  placeholder="john.smith@email.com"
-                />
-              </div>
-              <div>
-                <Label htmlFor="phone">Phone Number</Label>
-                <Input
-                  id="phone"
-                  value={newClient.phone}
-                  onChange={(e) => setNewClient({ ...newClient, phone: e.target.value })}
-                  placeholder="(555) 123-4567"
-                />
-              </div>
-              <div>
-                <Label htmlFor="address">Address</Label>
-                <Textarea
-                  id="address"
-                  value={newClient.address}
-                  onChange={(e) => setNewClient({ ...newClient, address: e.target.value })}
-                  placeholder="123 Main St, City, State 12345"
-                  rows={3}
-                />
-              </div>
-              <div className="flex justify-end space-x-2">
-                <Button variant="outline" onClick={() => setIsAddClientDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={addClient}>
-                  Add Client
-                </Button>
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
+        <Button onClick={() => openClientForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Client
+        </Button>
       </div>
 
       {/* Stats Cards */}
@@ -388,7 +209,7 @@ export function ClientManagement() {
               <FileText className="h-5 w-5 text-green-600" />
               <div>
                 <p className="text-sm text-gray-600">Active Cases</p>
-                <p className="text-xl font-bold">{clients.reduce((sum, client) => sum + client.active_cases, 0)}</p>
+                <p className="text-xl font-bold">{clients.reduce((sum, client) => sum + totalsOf(client.id).openCases, 0)}</p>
               </div>
             </div>
           </CardContent>
@@ -399,7 +220,7 @@ export function ClientManagement() {
               <DollarSign className="h-5 w-5 text-yellow-600" />
               <div>
                 <p className="text-sm text-gray-600">Total Settlements</p>
-                <p className="text-xl font-bold">{formatCurrency(clients.reduce((sum, client) => sum + client.total_settlements, 0))}</p>
+                <p className="text-xl font-bold">{formatCurrency(clients.reduce((sum, client) => sum + totalsOf(client.id).totalSettlements, 0))}</p>
               </div>
             </div>
           </CardContent>
@@ -409,8 +230,8 @@ export function ClientManagement() {
             <div className="flex items-center space-x-2">
               <Calendar className="h-5 w-5 text-purple-600" />
               <div>
-                <p className="text-sm text-gray-600">This Month</p>
-                <p className="text-xl font-bold">{clients.filter(c => new Date(c.created_at).getMonth() === new Date().getMonth()).length}</p>
+                <p className="text-sm text-gray-600">New This Month</p>
+                <p className="text-xl font-bold">{clients.filter(c => c.createdAt?.slice(0, 7) === new Date().toISOString().slice(0, 7)).length}</p>
               </div>
             </div>
           </CardContent>
@@ -455,11 +276,11 @@ export function ClientManagement() {
                     <div className="flex items-center space-x-4 text-sm text-gray-500">
                       <span className="flex items-center">
                         <Mail className="h-3 w-3 mr-1" />
-                        {client.email}
+                        {client.email || 'No email'}
                       </span>
                       <span className="flex items-center">
                         <Phone className="h-3 w-3 mr-1" />
-                        {client.phone}
+                        {client.phone || 'No phone'}
                       </span>
                     </div>
                   </div>
@@ -467,15 +288,15 @@ export function ClientManagement() {
                 
                 <div className="flex items-center space-x-6">
                   <div className="text-center">
-                    <p className="text-sm font-medium">{client.total_cases}</p>
+                    <p className="text-sm font-medium">{totalsOf(client.id).totalCases}</p>
                     <p className="text-xs text-gray-500">Total Cases</p>
                   </div>
                   <div className="text-center">
-                    <p className="text-sm font-medium">{client.active_cases}</p>
-                    <p className="text-xs text-gray-500">Active</p>
+                    <p className="text-sm font-medium">{totalsOf(client.id).openCases}</p>
+                    <p className="text-xs text-gray-500">Open</p>
                   </div>
                   <div className="text-center">
-                    <p className="text-sm font-medium">{formatCurrency(client.total_settlements)}</p>
+                    <p className="text-sm font-medium">{formatCurrency(totalsOf(client.id).totalSettlements)}</p>
                     <p className="text-xs text-gray-500">Settlements</p>
                   </div>
                   <Button 
@@ -499,7 +320,7 @@ export function ClientManagement() {
                 {searchTerm ? 'No clients match your search criteria' : 'Add your first client to get started'}
               </p>
               {!searchTerm && (
-                <Button onClick={() => setIsAddClientDialogOpen(true)}>
+                <Button onClick={() => openClientForm(null)}>
                   <Plus className="h-4 w-4 mr-2" />
                   Add Client
                 </Button>
@@ -545,7 +366,7 @@ export function ClientManagement() {
                       <div className="flex items-center space-x-3">
                         <Mail className="h-5 w-5 text-gray-400" />
                         <div>
-                          <p className="font-medium">{selectedClient.email}</p>
+                          <p className="font-medium">{selectedClient.email || 'Not provided'}</p>
                           <p className="text-sm text-gray-500">Email Address</p>
                         </div>
                       </div>
@@ -553,22 +374,48 @@ export function ClientManagement() {
                       <div className="flex items-center space-x-3">
                         <Phone className="h-5 w-5 text-gray-400" />
                         <div>
-                          <p className="font-medium">{selectedClient.phone}</p>
+                          <p className="font-medium">{selectedClient.phone || 'Not provided'}</p>
                           <p className="text-sm text-gray-500">Phone Number</p>
                         </div>
                       </div>
-                      {selectedClient.address && (
+                      {formatClientAddress(selectedClient) && (
                         <>
                           <Separator />
                           <div className="flex items-center space-x-3">
                             <MapPin className="h-5 w-5 text-gray-400" />
                             <div>
-                              <p className="font-medium">{selectedClient.address}</p>
+                              <p className="font-medium">{formatClientAddress(selectedClient)}</p>
                               <p className="text-sm text-gray-500">Address</p>
                             </div>
                           </div>
                         </>
                       )}
+                      {selectedClient.dateOfBirth && (
+                        <>
+                          <Separator />
+                          <div className="flex items-center space-x-3">
+                            <Cake className="h-5 w-5 text-gray-400" />
+                            <div>
+                              <p className="font-medium">{new Date(`${selectedClient.dateOfBirth}T00:00:00`).toLocaleDateString()}</p>
+                              <p className="text-sm text-gray-500">Date of Birth</p>
+                            </div>
+                          </div>
+                        </>
+                      )}
+                      <Separator />
+                      <div className="flex items-center space-x-3">
+                        <MessageSquare className="h-5 w-5 text-gray-400" />
+                        <div>
+                          <p className="font-medium">{CONTACT_METHODS[selectedClient.preferredContactMethod]}</p>
+                          <p className="text-sm text-gray-500">Preferred Contact Method</p>
+                        </div>
+                      </div>
+                      {selectedClient.notes && (
+                        <>
+                          <Separator />
+                          <p className="text-sm text-gray-600 whitespace-pre-wrap">{selectedClient.notes}</p>
+                        </>
+                      )}
                     </CardContent>
                   </Card>
 
@@ -579,25 +426,42 @@ export function ClientManagement() {
                     <CardContent className="space-y-4">
                       <div className="grid grid-cols-2 gap-4">
                         <div className="text-center p-3 bg-blue-50 rounded-lg">
-                          <p className="text-2xl font-bold text-blue-600">{selectedClient.total_cases}</p>
+                          <p className="text-2xl font-bold text-blue-600">{totalsOf(selectedClient.id).totalCases}</p>
                           <p className="text-sm text-blue-800">Total Cases</p>
                         </div>
                         <div className="text-center p-3 bg-green-50 rounded-lg">
-                          <p className="text-2xl font-bold text-green-600">{selectedClient.active_cases}</p>
-                          <p className="text-sm text-green-800">Active Cases</p>
+                          <p className="text-2xl font-bold text-green-600">{totalsOf(selectedClient.id).openCases}</p>
+                          <p className="text-sm text-green-800">Open Cases</p>
                         </div>
                       </div>
                       <div className="text-center p-3 bg-yellow-50 rounded-lg">
-                        <p className="text-xl font-bold text-yellow-600">{formatCurrency(selectedClient.total_settlements)}</p>
+                        <p className="text-xl font-bold text-yellow-600">{formatCurrency(totalsOf(selectedClient.id).totalSettlements)}</p>
                         <p className="text-sm text-yellow-800">Total Settlements</p>
                       </div>
                       <div className="text-center">
                         <p className="text-sm text-gray-500">Client since</p>
-                        <p className="font-medium">{new Date(selectedClient.created_at).toLocaleDateString()}</p>
+                        <p className="font-medium">{new Date(selectedClient.createdAt).toLocaleDateString()}</p>
                       </div>
                     </CardContent>
                   </Card>
                 </div>
+
+                <PortalAccessCard client={selectedClient} />
+
+                <div className="flex justify-between">
+                  <Button
+                    variant="ghost"
+                    onClick={() => handleDeleteClient(selectedClient)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Client
+                  </Button>
+                  <Button variant="outline" onClick={() => openClientForm(selectedClient)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit Client
+                  </Button>
+                </div>
               </TabsContent>
 
               <TabsContent value="cases" className="space-y-4">
@@ -608,20 +472,20 @@ export function ClientManagement() {
                         <div className="flex items-center justify-between">
                           <div>
                             <div className="flex items-center space-x-2 mb-2">
-                              <h4 className="font-medium">{case_.case_number}</h4>
+                              <h4 className="font-medium">{case_.caseNumber}</h4>
                               <Badge className={getStatusColor(case_.status)}>
                                 {case_.status}
                               </Badge>
                             </div>
-                            <p className="text-sm text-gray-600 mb-2">{case_.case_type.replace('_', ' ').toUpperCase()}</p>
+                            <p className="text-sm text-gray-600 mb-2">{case_.caseType.replace('_', ' ').toUpperCase()}</p>
                             <p className="text-sm text-gray-500">{case_.description}</p>
                           </div>
                           <div className="text-right">
                             <p className="text-sm text-gray-500">Created</p>
-                            <p className="font-medium">{new Date(case_.created_at).toLocaleDateString()}</p>
-                            {case_.settlement_amount && (
+                            <p className="font-medium">{new Date(case_.createdAt).toLocaleDateString()}</p>
+                            {case_.settlementAmount > 0 && (
                               <p className="text-green-600 font-medium mt-1">
-                                {formatCurrency(Number(case_.settlement_amount))}
+                                {formatCurrency(case_.settlementAmount)}
                               </p>
                             )}
                           </div>
@@ -648,6 +512,16 @@ export function ClientManagement() {
           )}
         </DialogContent>
       </Dialog>
+
+      {user?.id && (
+        <ClientFormDialog
+          userId={user.id}
+          client={editingClient}
+          open={isClientFormOpen}
+          onOpenChange={setIsClientFormOpen}
+          onSaved={handleClientSaved}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
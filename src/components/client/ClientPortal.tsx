@@ -1,112 +1,113 @@
-import React, { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { Label } from '@/components/ui/label'
-import { Progress } from '@/components/ui/progress'
 import { Separator } from '@/components/ui/separator'
 import { 
   MessageSquare, 
   FileText, 
   Calendar, 
-  DollarSign, 
   Clock, 
   CheckCircle,
   AlertCircle,
-  Send,
   Download,
   Eye,
   Phone,
   Mail,
   User,
   Building,
-  MapPin
+  MapPin,
+  LogOut
 } from 'lucide-react'
 
 
 import { useToast } from '@/hooks/use-toast'
-import { blink } from '@/blink/client'
-
-interface ClientCase {
-  id: string
-  case_number: string
-  case_type: string
-  status: string
-  created_at: string
-  settlement_amount?: string
-  description: string
-  next_hearing?: string
-  progress: number
-}
+import {
+  approvePortalStatement,
+  getPortalProfile,
+  getPortalStatement,
+  listPortalCases,
+  listPortalDocuments,
+  listPortalMessages,
+  listPortalRequests,
+  openPortalDocument,
+  portalMessages,
+  uploadPortalRequest
+} from '@/services/portal'
+import { formatClientAddress } from '@/lib/clients'
+import { unreadMessages } from '@/lib/messages'
+import { DOCUMENT_TYPES } from '@/lib/documentSharing'
+import { calculateDistribution } from '@/lib/settlementStatement'
+import { CASE_STATUSES } from '@/lib/workflow'
+import type { CaseMessage } from '@/types/message'
+import type { DocumentAccessAction } from '@/types/documentShare'
+import type {
+  PortalCase,
+  PortalClient,
+  PortalDocument,
+  PortalDocumentRequest,
+  PortalFirm,
+  PortalSession
+} from '@/types/portal'
+import type { SettlementStatement } from '@/types/settlement'
+import type { CaseStatus } from '@/types/workflow'
+import { CaseMessageThread } from '@/components/messages/CaseMessageThread'
 
-interface ClientMessage {
-  id: string
-  case_id: string
-  message: string
-  sender: 'client' | 'attorney'
-  created_at: string
-  read: boolean
+interface ClientPortalProps {
+  session: PortalSession
+  onLogout: () => void
 }
 
-interface ClientDocument {
-  id: string
-  case_id: string
-  name: string
-  type: string
-  upload_date: string
-  url?: string
-  description?: string
-}
+const NO_FIRM: PortalFirm = { attorneyName: '', firmName: '', email: '', phone: '' }
 
-export function ClientPortal() {
-  const [cases, setCases] = useState<ClientCase[]>([])
-  const [messages, setMessages] = useState<ClientMessage[]>([])
-  const [documents, setDocuments] = useState<ClientDocument[]>([])
+// Everything here comes from the backend's portal API, which limits it to the client's own cases
+export function ClientPortal({ session, onLogout }: ClientPortalProps) {
+  const [client, setClient] = useState<PortalClient | null>(null)
+  const [firm, setFirm] = useState<PortalFirm>(NO_FIRM)
+  const [cases, setCases] = useState<PortalCase[]>([])
+  const [messages, setMessages] = useState<CaseMessage[]>([])
+  const [documents, setDocuments] = useState<PortalDocument[]>([])
+  const [requests, setRequests] = useState<PortalDocumentRequest[]>([])
+  const [uploadingRequest, setUploadingRequest] = useState<string | null>(null)
+  const [statements, setStatements] = useState<Record<string, SettlementStatement>>({})
   const [loading, setLoading] = useState(true)
   const [selectedCase, setSelectedCase] = useState<string>('')
-  const [newMessage, setNewMessage] = useState('')
-  const [messageDialogOpen, setMessageDialogOpen] = useState(false)
+  const [tab, setTab] = useState('cases')
   const { toast } = useToast()
 
-  // Mock client info - in real app, this would come from auth
-  const clientInfo = {
-    name: 'John Smith',
-    email: 'john.smith@email.com',
-    phone: '(555) 123-4567',
-    address: '123 Main St, City, State 12345',
-    attorney: 'Sarah Johnson, Esq.',
-    firm: 'Johnson & Associates Law Firm'
-  }
+  const clientName = client?.name || `${session.user.firstName} ${session.user.lastName}`
+  const messageSource = useMemo(() => portalMessages(session), [session])
+  const attorneyName = firm.attorneyName || 'Your attorney'
 
-  const loadClientData = async () => {
+  const loadClientData = useCallback(async () => {
     try {
-      // Load client's cases
-      const casesResult = await blink.db.cases.list({
-        where: { client_name: clientInfo.name },
-        orderBy: { created_at: 'desc' }
-      })
-      setCases(casesResult || [])
-
-      // Load messages for client's cases
-      if (casesResult && casesResult.length > 0) {
-        const caseIds = casesResult.map(c => c.id)
-        // In a real app, you'd filter messages by case IDs
-        const messagesResult = await blink.db.client_messages?.list({
-          orderBy: { created_at: 'desc' },
-          limit: 50
-        }) || []
-        setMessages(messagesResult)
-
-        // Load documents
-        const documentsResult = await blink.db.client_documents?.list({
-          orderBy: { upload_date: 'desc' }
-        }) || []
-        setDocuments(documentsResult)
-      }
+      const [profile, clientCases] = await Promise.all([
+        getPortalProfile(session),
+        listPortalCases(session)
+      ])
+      setClient(profile.client)
+      setFirm(profile.firm)
+      setCases(clientCases)
+      setSelectedCase(current => current || clientCases[0]?.id || '')
+
+      // Closing statements of settled cases, for the client to review and approve
+      const settled = clientCases.filter(c => c.status === 'settled')
+      const settledStatements = await Promise.all(settled.map(c => getPortalStatement(session, c.id)))
+      setStatements(Object.fromEntries(
+        settledStatements.filter((statement): statement is SettlementStatement => statement !== null)
+          .map(statement => [statement.caseId, statement])
+      ))
+
+      const [messageRows, sharedDocuments, documentRequests] = await Promise.all([
+        Promise.all(clientCases.map(c => listPortalMessages(session, c.id))),
+        listPortalDocuments(session),
+        listPortalRequests(session)
+      ])
+      setMessages(messageRows.flat())
+      setDocuments(sharedDocuments)
+      setRequests(documentRequests)
     } catch (error) {
       console.error('Error loading client data:', error)
       toast({
@@ -117,61 +118,100 @@ export function ClientPortal() {
     } finally {
       setLoading(false)
     }
-  }
+  }, [session, toast])
 
   useEffect(() => {
     loadClientData()
-  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [loadClientData])
 
-  const sendMessage = async () => {
-    if (!newMessage.trim() || !selectedCase) return
+  // Keeps the unread count in step with the open thread, which marks messages read
+  const handleThreadChange = useCallback((thread: CaseMessage[]) => {
+    setMessages(prev => [...prev.filter(m => m.caseId !== selectedCase), ...thread])
+  }, [selectedCase])
 
+  const openDocument = async (shared: PortalDocument, action: DocumentAccessAction) => {
     try {
-      await blink.db.client_messages?.create({
-        case_id: selectedCase,
-        message: newMessage,
-        sender: 'client',
-        created_at: new Date().toISOString(),
-        read: false
+      await openPortalDocument(session, shared, action)
+    } catch (error) {
+      console.error('Error opening shared document:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open the document",
+        variant: "destructive"
       })
+    }
+  }
 
+  const uploadForRequest = async (request: PortalDocumentRequest, file: File | undefined) => {
+    if (!file) return
+    try {
+      setUploadingRequest(request.id)
+      const fulfilled = await uploadPortalRequest(session, request, file)
+      setRequests(prev => prev.map(r => (r.id === request.id ? fulfilled : r)))
+      toast({
+        title: "Document Uploaded",
+        description: `${file.name} was sent to your legal team`
+      })
+    } catch (error) {
+      console.error('Error uploading requested document:', error)
       toast({
-        title: "Message Sent",
-        description: "Your message has been sent to your attorney"
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload the document",
+        variant: "destructive"
       })
+    } finally {
+      setUploadingRequest(null)
+    }
+  }
+
+  const openThread = (caseId: string) => {
+    setSelectedCase(caseId)
+    setTab('messages')
+  }
 
-      setNewMessage('')
-      setMessageDialogOpen(false)
-      loadClientData()
+  const approveStatement = async (caseId: string) => {
+    try {
+      const approved = await approvePortalStatement(session, caseId)
+      setStatements(prev => ({ ...prev, [caseId]: approved }))
+      toast({
+        title: "Statement Approved",
+        description: "Your attorney has been notified"
+      })
     } catch (error) {
-      console.error('Error sending message:', error)
+      console.error('Error approving settlement statement:', error)
       toast({
         title: "Error",
-        description: "Failed to send message",
+        description: "Failed to approve the settlement statement",
         variant: "destructive"
       })
     }
   }
 
+  const unreadOn = (caseId: string) => unreadMessages(messages.filter(m => m.caseId === caseId), 'client').length
+
+  const isOpen = (status: string) => status !== 'settled' && status !== 'closed'
+
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'active': return 'bg-blue-100 text-blue-800'
+      case 'new': return 'bg-yellow-100 text-yellow-800'
       case 'settled': return 'bg-green-100 text-green-800'
-      case 'pending': return 'bg-yellow-100 text-yellow-800'
       case 'closed': return 'bg-gray-100 text-gray-800'
-      default: return 'bg-gray-100 text-gray-800'
+      default: return 'bg-blue-100 text-blue-800'
     }
   }
 
   const getStatusIcon = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'active': return <Clock className="h-4 w-4" />
+      case 'new': return <AlertCircle className="h-4 w-4" />
       case 'settled': return <CheckCircle className="h-4 w-4" />
-      case 'pending': return <AlertCircle className="h-4 w-4" />
-      default: return <FileText className="h-4 w-4" />
+      case 'closed': return <FileText className="h-4 w-4" />
+      default: return <Clock className="h-4 w-4" />
     }
   }
 
+  const formatCaseType = (caseType: string) =>
+    caseType.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
   const formatCurrency = (amount: string | undefined) => {
     if (!amount) return 'Pending'
     return new Intl.NumberFormat('en-US', {
@@ -181,6 +221,39 @@ export function ClientPortal() {
     }).format(Number(amount))
   }
 
+  const renderStatement = (statement: SettlementStatement) => {
+    const distribution = calculateDistribution(statement)
+    return (
+      <div className="p-3 bg-green-50 rounded-lg space-y-1 text-sm">
+        <p className="font-medium text-green-900">Settlement Statement</p>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Gross settlement</span>
+          <span>{formatCurrency(String(distribution.grossSettlement))}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Fees, costs and liens</span>
+          <span>
+            −{formatCurrency(String(distribution.attorneyFee + distribution.costTotal + distribution.lienTotal))}
+          </span>
+        </div>
+        <div className="flex justify-between font-medium">
+          <span>Your net recovery</span>
+          <span>{formatCurrency(String(distribution.netToClient))}</span>
+        </div>
+        {statement.clientApproval ? (
+          <p className="text-green-700 flex items-center pt-1">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Approved {new Date(statement.clientApproval.approvedAt).toLocaleDateString()}
+          </p>
+        ) : (
+          <Button size="sm" className="w-full mt-2" onClick={() => approveStatement(statement.caseId)}>
+            Approve Statement
+          </Button>
+        )}
+      </div>
+    )
+  }
+
   if (loading) {
     return <div className="flex items-center justify-center h-64">Loading your cases...</div>
   }
@@ -191,13 +264,18 @@ export function ClientPortal() {
       <div className="bg-gradient-to-r from-blue-600 to-blue-800 text-white p-6 rounded-lg">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-bold">Welcome back, {clientInfo.name}</h1>
+            <h1 className="text-2xl font-bold">Welcome back, {clientName}</h1>
             <p className="text-blue-100 mt-1">Track your cases and communicate with your legal team</p>
           </div>
-          <div className="text-right">
-            <p className="text-sm text-blue-100">Your Attorney</p>
-            <p className="font-semibold">{clientInfo.attorney}</p>
-            <p className="text-sm text-blue-100">{clientInfo.firm}</p>
+          <div className="flex items-start space-x-4">
+            <div className="text-right">
+              <p className="text-sm text-blue-100">Your Attorney</p>
+              <p className="font-semibold">{attorneyName}</p>
+              <p className="text-sm text-blue-100">{firm.firmName}</p>
+            </div>
+            <Button variant="ghost" size="sm" className="text-white hover:bg-blue-700" onClick={onLogout}>
+              <LogOut className="h-4 w-4" />
+            </Button>
           </div>
         </div>
       </div>
@@ -221,7 +299,7 @@ export function ClientPortal() {
               <Clock className="h-5 w-5 text-yellow-600" />
               <div>
                 <p className="text-sm text-gray-600">Active Cases</p>
-                <p className="text-xl font-bold">{cases.filter(c => c.status === 'active').length}</p>
+                <p className="text-xl font-bold">{cases.filter(c => isOpen(c.status)).length}</p>
               </div>
             </div>
           </CardContent>
@@ -243,14 +321,14 @@ export function ClientPortal() {
               <MessageSquare className="h-5 w-5 text-purple-600" />
               <div>
                 <p className="text-sm text-gray-600">Unread Messages</p>
-                <p className="text-xl font-bold">{messages.filter(m => !m.read && m.sender === 'attorney').length}</p>
+                <p className="text-xl font-bold">{unreadMessages(messages, 'client').length}</p>
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
 
-      <Tabs defaultValue="cases" className="w-full">
+      <Tabs value={tab} onValueChange={setTab} className="w-full">
         <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="cases">My Cases</TabsTrigger>
           <TabsTrigger value="messages">Messages</TabsTrigger>
@@ -261,53 +339,12 @@ export function ClientPortal() {
         <TabsContent value="cases" className="space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold">Your Cases</h2>
-            <Dialog open={messageDialogOpen} onOpenChange={setMessageDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <MessageSquare className="h-4 w-4 mr-2" />
-                  Send Message
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Send Message to Attorney</DialogTitle>
-                  <DialogDescription>
-                    Send a message about your case to your legal team
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="case-select">Select Case</Label>
-                    <select 
-                      className="w-full p-2 border rounded-md"
-                      value={selectedCase}
-                      onChange={(e) => setSelectedCase(e.target.value)}
-                    >
-                      <option value="">Choose a case</option>
-                      {cases.map((case_) => (
-                        <option key={case_.id} value={case_.id}>
-                          {case_.case_number} - {case_.case_type}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                  <div>
-                    <Label htmlFor="message">Message</Label>
-                    <Textarea
-                      id="message"
-                      placeholder="Type your message here..."
-                      value={newMessage}
-                      onChange={(e) => setNewMessage(e.target.value)}
-                      rows={4}
-                    />
-                  </div>
-                  <Button onClick={sendMessage} disabled={!selectedCase || !newMessage.trim()}>
-                    <Send className="h-4 w-4 mr-2" />
-                    Send Message
-                  </Button>
-                </div>
-              </DialogContent>
-            </Dialog>
+            {cases.length > 0 && (
+              <Button onClick={() => openThread(selectedCase || cases[0].id)}>
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Send Message
+              </Button>
+            )}
           </div>
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -315,47 +352,47 @@ export function ClientPortal() {
               <Card key={case_.id} className="hover:shadow-md transition-shadow">
                 <CardHeader>
                   <div className="flex items-center justify-between">
-                    <CardTitle className="text-lg">{case_.case_number}</CardTitle>
+                    <CardTitle className="text-lg">{case_.caseNumber}</CardTitle>
                     <Badge className={getStatusColor(case_.status)}>
                       <div className="flex items-center space-x-1">
                         {getStatusIcon(case_.status)}
-                        <span>{case_.status}</span>
+                        <span>{CASE_STATUSES[case_.status as CaseStatus] || case_.status}</span>
                       </div>
                     </Badge>
                   </div>
-                  <CardDescription>{case_.case_type}</CardDescription>
+                  <CardDescription>{formatCaseType(case_.caseType)}</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <p className="text-sm text-gray-600">{case_.description}</p>
-                  
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Case Progress</span>
-                      <span>{case_.progress}%</span>
-                    </div>
-                    <Progress value={case_.progress} className="h-2" />
-                  </div>
 
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
                       <p className="text-gray-600">Started</p>
-                      <p className="font-medium">{new Date(case_.created_at).toLocaleDateString()}</p>
+                      <p className="font-medium">{new Date(case_.createdAt).toLocaleDateString()}</p>
                     </div>
                     <div>
                       <p className="text-gray-600">Settlement</p>
-                      <p className="font-medium">{formatCurrency(case_.settlement_amount)}</p>
+                      <p className="font-medium">{formatCurrency(case_.settlementAmount ? String(case_.settlementAmount) : undefined)}</p>
                     </div>
                   </div>
 
-                  {case_.next_hearing && (
+                  {statements[case_.id] && renderStatement(statements[case_.id])}
+
+                  {case_.nextDeadline && (
                     <div className="flex items-center space-x-2 p-3 bg-blue-50 rounded-lg">
                       <Calendar className="h-4 w-4 text-blue-600" />
                       <div>
-                        <p className="text-sm font-medium text-blue-900">Next Hearing</p>
-                        <p className="text-sm text-blue-700">{new Date(case_.next_hearing).toLocaleDateString()}</p>
+                        <p className="text-sm font-medium text-blue-900">Next Date</p>
+                        <p className="text-sm text-blue-700">{new Date(case_.nextDeadline).toLocaleDateString()}</p>
                       </div>
                     </div>
                   )}
+
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => openThread(case_.id)}>
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    Messages
+                    {unreadOn(case_.id) > 0 && ` (${unreadOn(case_.id)} unread)`}
+                  </Button>
                 </CardContent>
               </Card>
             ))}
@@ -373,77 +410,109 @@ export function ClientPortal() {
         </TabsContent>
 
         <TabsContent value="messages" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Recent Messages</CardTitle>
-              <CardDescription>Communication with your legal team</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4 max-h-96 overflow-y-auto">
-                {messages.map((message) => (
-                  <div key={message.id} className={`p-4 rounded-lg ${
-                    message.sender === 'client' 
-                      ? 'bg-blue-50 ml-8' 
-                      : 'bg-gray-50 mr-8'
-                  }`}>
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="font-medium">
-                        {message.sender === 'client' ? 'You' : clientInfo.attorney}
-                      </span>
-                      <span className="text-sm text-gray-500">
-                        {new Date(message.created_at).toLocaleDateString()}
-                      </span>
+          {cases.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {cases.map((case_) => (
+                <Button
+                  key={case_.id}
+                  size="sm"
+                  variant={selectedCase === case_.id ? 'default' : 'outline'}
+                  onClick={() => setSelectedCase(case_.id)}
+                >
+                  {case_.caseNumber}
+                  {unreadOn(case_.id) > 0 && <Badge className="ml-2 bg-purple-100 text-purple-800">{unreadOn(case_.id)}</Badge>}
+                </Button>
+              ))}
+            </div>
+          )}
+          {cases.filter(c => c.id === selectedCase).map((case_) => (
+            <CaseMessageThread
+              key={case_.id}
+              source={messageSource}
+              caseRecord={{ id: case_.id, userId: '', caseNumber: case_.caseNumber }}
+              viewer={{ role: 'client', name: clientName }}
+              otherName={attorneyName}
+              onChange={handleThreadChange}
+            />
+          ))}
+          {cases.length === 0 && (
+            <Card>
+              <CardContent className="text-center py-12">
+                <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">You can message your legal team once your case is opened</p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="documents" className="space-y-4">
+          {requests.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Requested by Your Legal Team</CardTitle>
+                <CardDescription>Upload these so your attorney can keep your case moving</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {requests.map((request) => (
+                  <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">{request.title}</p>
+                      <p className="text-sm text-gray-500">
+                        {request.caseNumber} • {DOCUMENT_TYPES[request.documentType] || request.documentType}
+                      </p>
+                      {request.notes && <p className="text-sm text-gray-600">{request.notes}</p>}
                     </div>
-                    <p className="text-sm">{message.message}</p>
+                    {request.fulfilledAt ? (
+                      <Badge className="bg-green-100 text-green-800">
+                        <CheckCircle className="h-3 w-3 mr-1" />
+                        Uploaded {new Date(request.fulfilledAt).toLocaleDateString()}
+                      </Badge>
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        {uploadingRequest === request.id && <span className="text-sm text-gray-500">Uploading...</span>}
+                        <Input
+                          type="file"
+                          className="max-w-xs"
+                          disabled={uploadingRequest !== null}
+                          onChange={(e) => uploadForRequest(request, e.target.files?.[0])}
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
-                {messages.length === 0 && (
-                  <div className="text-center py-8">
-                    <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <p className="text-gray-500">No messages yet</p>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+              </CardContent>
+            </Card>
+          )}
 
-        <TabsContent value="documents" className="space-y-4">
           <Card>
             <CardHeader>
               <CardTitle>Case Documents</CardTitle>
-              <CardDescription>Important documents related to your cases</CardDescription>
+              <CardDescription>Documents your legal team has shared with you</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {documents.map((doc) => (
-                  <div key={doc.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
+                {documents.map((shared) => (
+                  <div key={shared.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
                     <div className="flex items-center space-x-3">
                       <FileText className="h-5 w-5 text-gray-400" />
                       <div>
-                        <p className="font-medium">{doc.name}</p>
+                        <p className="font-medium">{shared.fileName}</p>
                         <p className="text-sm text-gray-500">
-                          {doc.description || 'Case document'} • {new Date(doc.upload_date).toLocaleDateString()}
+                          {shared.caseNumber} • Shared{' '}
+                          {new Date(shared.sharedAt).toLocaleDateString()}
+                          {shared.expiresAt && ` • Available until ${new Date(shared.expiresAt).toLocaleDateString()}`}
                         </p>
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
-                      {doc.url && (
-                        <>
-                          <Button size="sm" variant="outline" asChild>
-                            <a href={doc.url} target="_blank" rel="noopener noreferrer">
-                              <Eye className="h-3 w-3 mr-1" />
-                              View
-                            </a>
-                          </Button>
-                          <Button size="sm" variant="outline" asChild>
-                            <a href={doc.url} download>
-                              <Download className="h-3 w-3 mr-1" />
-                              Download
-                            </a>
-                          </Button>
-                        </>
-                      )}
+                      <Button size="sm" variant="outline" onClick={() => openDocument(shared, 'view')}>
+                        <Eye className="h-3 w-3 mr-1" />
+                        View
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openDocument(shared, 'download')}>
+                        <Download className="h-3 w-3 mr-1" />
+                        Download
+                      </Button>
                     </div>
                   </div>
                 ))}
@@ -469,7 +538,7 @@ export function ClientPortal() {
                 <div className="flex items-center space-x-3">
                   <User className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="font-medium">{clientInfo.name}</p>
+                    <p className="font-medium">{clientName}</p>
                     <p className="text-sm text-gray-500">Full Name</p>
                   </div>
                 </div>
@@ -477,7 +546,7 @@ export function ClientPortal() {
                 <div className="flex items-center space-x-3">
                   <Mail className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="font-medium">{clientInfo.email}</p>
+                    <p className="font-medium">{client?.email || session.user.email}</p>
                     <p className="text-sm text-gray-500">Email Address</p>
                   </div>
                 </div>
@@ -485,7 +554,7 @@ export function ClientPortal() {
                 <div className="flex items-center space-x-3">
                   <Phone className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="font-medium">{clientInfo.phone}</p>
+                    <p className="font-medium">{client?.phone || 'Not provided'}</p>
                     <p className="text-sm text-gray-500">Phone Number</p>
                   </div>
                 </div>
@@ -493,7 +562,7 @@ export function ClientPortal() {
                 <div className="flex items-center space-x-3">
                   <MapPin className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="font-medium">{clientInfo.address}</p>
+                    <p className="font-medium">{(client && formatClientAddress(client)) || 'Not provided'}</p>
                     <p className="text-sm text-gray-500">Address</p>
                   </div>
                 </div>
@@ -509,7 +578,7 @@ export function ClientPortal() {
                 <div className="flex items-center space-x-3">
                   <User className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="font-medium">{clientInfo.attorney}</p>
+                    <p className="font-medium">{attorneyName}</p>
                     <p className="text-sm text-gray-500">Primary Attorney</p>
                   </div>
                 </div>
@@ -517,7 +586,7 @@ export function ClientPortal() {
                 <div className="flex items-center space-x-3">
                   <Building className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="font-medium">{clientInfo.firm}</p>
+                    <p className="font-medium">{firm.firmName || 'Not provided'}</p>
                     <p className="text-sm text-gray-500">Law Firm</p>
                   </div>
                 </div>
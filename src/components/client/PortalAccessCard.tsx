@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { KeyRound, Loader2, Send, XCircle } from 'lucide-react'
+import { FirmPortalSignIn } from '@/components/auth/FirmPortalSignIn'
+import { listClientInvitations, revokeClientInvitation, sendClientInvitation } from '@/services/firm'
+import type { Client } from '@/types/client'
+import type { InvitationStatus, PortalInvitation } from '@/types/portal'
+import { useFirmSession } from '@/hooks/use-firm-session'
+import { useToast } from '@/hooks/use-toast'
+
+interface PortalAccessCardProps {
+  client: Client
+}
+
+const STATUS_BADGES: Record<InvitationStatus, { label: string; className: string }> = {
+  pending: { label: 'Invited', className: 'bg-yellow-100 text-yellow-800' },
+  accepted: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  revoked: { label: 'Revoked', className: 'bg-gray-100 text-gray-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-800' }
+}
+
+// Whether the client can sign in to the portal, and the invitation that lets them. Invitations
+// are kept by the portal's backend, which is also where the client registers and signs in.
+export function PortalAccessCard({ client }: PortalAccessCardProps) {
+  const session = useFirmSession()
+  const [invitations, setInvitations] = useState<PortalInvitation[]>([])
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!session) return
+    setInvitations([])
+    listClientInvitations(session, client)
+      .then(setInvitations)
+      .catch(error => console.error('Error loading portal invitations:', error))
+  }, [session, client])
+
+  // Invitations are newest first, so the first is the client's latest
+  const invitation = invitations[0] || null
+  const status = invitation?.status || null
+
+  const sendInvitation = async () => {
+    if (!session) return
+    try {
+      setWorking(true)
+      setInvitations(await sendClientInvitation(session, client))
+      toast({
+        title: "Invitation Sent",
+        description: `${client.name} was emailed a link to create their portal login`
+      })
+    } catch (error) {
+      console.error('Error sending portal invitation:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send the invitation",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const revoke = async () => {
+    if (!session || !invitation) return
+    try {
+      setWorking(true)
+      setInvitations(await revokeClientInvitation(session, invitation))
+      toast({
+        title: "Access Revoked",
+        description: `${client.name} can no longer use the portal`
+      })
+    } catch (error) {
+      console.error('Error revoking portal access:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke portal access",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (!session) {
+    return (
+      <FirmPortalSignIn
+        title="Client Portal"
+        description="Sign in to the client portal with your firm login to invite this client or manage their access."
+      />
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <KeyRound className="mr-2 h-5 w-5" />
+            Client Portal
+          </span>
+          {status && <Badge className={STATUS_BADGES[status].className}>{STATUS_BADGES[status].label}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {!invitation && 'Invite the client to follow their cases online.'}
+          {status === 'pending' && invitation &&
+            `Invitation sent to ${invitation.email} on ${format(parseISO(invitation.createdAt), 'MMM d, yyyy')}; it expires ${format(parseISO(invitation.expiresAt), 'MMM d, yyyy')}.`}
+          {status === 'accepted' && invitation?.acceptedAt &&
+            `Signed up on ${format(parseISO(invitation.acceptedAt), 'MMM d, yyyy')} as ${invitation.email}.`}
+          {(status === 'revoked' || status === 'expired') && 'The last invitation can no longer be used.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {status !== 'accepted' && (
+          <Button size="sm" onClick={sendInvitation} disabled={working || !client.email}>
+            {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            {status === 'pending' ? 'Resend Invitation' : 'Send Invitation'}
+          </Button>
+        )}
+        {(status === 'pending' || status === 'accepted') && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={revoke}
+            disabled={working}
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            {status === 'accepted' ? 'Revoke Access' : 'Withdraw Invitation'}
+          </Button>
+        )}
+        {!client.email && <p className="text-sm text-gray-500">Add an email address to invite this client.</p>}
+      </CardContent>
+    </Card>
+  )
+}
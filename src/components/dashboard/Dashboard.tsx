@@ -15,6 +15,7 @@ import {
 } from 'lucide-react'
 import { Case } from '@/types/case'
 import { blink } from '@/blink/client'
+import { countUnresolvedLiens } from '@/blink/liens'
 
 interface DashboardProps {
   onNavigate: (tab: string, caseId?: string) => void
@@ -22,6 +23,7 @@ interface DashboardProps {
 
 export function Dashboard({ onNavigate }: DashboardProps) {
   const [cases, setCases] = useState<Case[]>([])
+  const [unresolvedLiens, setUnresolvedLiens] = useState<Record<string, number>>({})
   const [loading, setLoading] = useState(true)
   const [user, setUser] = useState<any>(null)
 
@@ -54,6 +56,12 @@ export function Dashboard({ onNavigate }: DashboardProps) {
       }))
       
       setCases(formattedCases)
+
+      try {
+        setUnresolvedLiens(await countUnresolvedLiens(user.id))
+      } catch (error) {
+        console.error('Error loading liens:', error)
+      }
     } catch (error) {
       console.error('Error loading cases:', error)
       setCases([])
@@ -149,6 +157,8 @@ export function Dashboard({ onNavigate }: DashboardProps) {
     if (!c.nextDeadline) return false
     return new Date(c.nextDeadline) < new Date()
   })
+  // Settled cases waiting on lien payoffs can't be disbursed or closed
+  const lienBlockedCases = cases.filter(c => c.status === 'settled' && unresolvedLiens[c.id] > 0)
 
   return (
     <div className="space-y-4 md:space-y-6">
@@ -490,6 +500,33 @@ export function Dashboard({ onNavigate }: DashboardProps) {
                   </div>
                 )}
 
+                {/* Lien Blockers */}
+                {lienBlockedCases.length > 0 && (
+                  <div className="p-3 md:p-4 bg-red-50 rounded-lg border border-red-200">
+                    <div className="flex items-center mb-2">
+                      <AlertTriangle className="h-4 w-4 text-red-600 mr-2 flex-shrink-0" />
+                      <span className="font-medium text-gray-900 text-sm md:text-base">Unresolved Liens</span>
+                    </div>
+                    <p className="text-xs md:text-sm text-gray-600 mb-3">
+                      <strong>{lienBlockedCases.length}</strong> settled cases can't close until their liens are paid or waived.
+                    </p>
+                    <div className="space-y-1">
+                      {lienBlockedCases.slice(0, 3).map(case_ => (
+                        <Button
+                          key={case_.id}
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onNavigate('cases', case_.id)}
+                          className="border-red-600 text-red-700 hover:bg-red-100 text-xs md:text-sm w-full justify-between"
+                        >
+                          <span className="truncate">{case_.caseNumber}</span>
+                          <span>{unresolvedLiens[case_.id]} open</span>
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {upcomingDeadlines.length > 0 && overdueDeadlines.length === 0 && (
                   <div className="p-3 md:p-4 bg-amber-50 rounded-lg border border-amber-200">
                     <div className="flex items-center mb-2">
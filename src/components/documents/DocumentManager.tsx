@@ -13,6 +13,7 @@ import { Upload, FileText, Image, Download, Eye, Trash2, Search, Filter, Plus, B
 
 import { useToast } from '@/hooks/use-toast'
 import { blink } from '@/blink/client'
+import { notify } from '@/blink/notifications'
 
 interface Document {
   id: string
@@ -173,6 +174,14 @@ export function DocumentManager() {
         ai_analysis: analysis
       })
 
+      const user = await blink.auth.me()
+      notify(user.id, {
+        category: 'document_analysis',
+        title: `Analysis complete: ${doc.file_name || doc.fileName}`,
+        message: analysis.length > 140 ? `${analysis.slice(0, 140)}…` : analysis,
+        caseId: doc.case_id || doc.caseId
+      }).catch(error => console.error('Error sending analysis notification:', error))
+
       toast({
         title: "Analysis Complete",
         description: "Document has been analyzed by AI"
@@ -224,6 +233,7 @@ export function DocumentManager() {
       case 'insurance': return 'bg-green-100 text-green-800'
       case 'correspondence': return 'bg-purple-100 text-purple-800'
       case 'evidence': return 'bg-orange-100 text-orange-800'
+      case 'receipt': return 'bg-yellow-100 text-yellow-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
@@ -281,6 +291,7 @@ export function DocumentManager() {
                     <SelectItem value="insurance">Insurance Documents</SelectItem>
                     <SelectItem value="correspondence">Correspondence</SelectItem>
                     <SelectItem value="evidence">Evidence</SelectItem>
+                    <SelectItem value="receipt">Receipts</SelectItem>
                     <SelectItem value="other">Other</SelectItem>
                   </SelectContent>
                 </Select>
@@ -326,6 +337,7 @@ export function DocumentManager() {
             <SelectItem value="insurance">Insurance</SelectItem>
             <SelectItem value="correspondence">Correspondence</SelectItem>
             <SelectItem value="evidence">Evidence</SelectItem>
+            <SelectItem value="receipt">Receipts</SelectItem>
             <SelectItem value="other">Other</SelectItem>
           </SelectContent>
         </Select>
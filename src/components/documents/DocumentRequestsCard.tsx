@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FileUp, Plus, XCircle } from 'lucide-react'
+import { cancelDocumentRequest, listDocumentRequests, requestDocument } from '@/services/firm'
+import { DOCUMENT_TYPES, requestStatus } from '@/lib/documentSharing'
+import type { DocumentRequest, DocumentRequestStatus } from '@/types/documentShare'
+import type { FirmSession, PortalCaseRecord } from '@/types/portal'
+import { useToast } from '@/hooks/use-toast'
+
+interface DocumentRequestsCardProps {
+  session: FirmSession
+  portalCase: PortalCaseRecord
+}
+
+const STATUS_BADGES: Record<DocumentRequestStatus, { label: string; className: string }> = {
+  open: { label: 'Waiting on client', className: 'bg-yellow-100 text-yellow-800' },
+  fulfilled: { label: 'Uploaded', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' }
+}
+
+// Documents the firm asked the client to upload through the portal
+export function DocumentRequestsCard({ session, portalCase }: DocumentRequestsCardProps) {
+  const [requests, setRequests] = useState<DocumentRequest[]>([])
+  const [title, setTitle] = useState('')
+  const [documentType, setDocumentType] = useState('medical_record')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    listDocumentRequests(session, portalCase.id)
+      .then(setRequests)
+      .catch(error => console.error('Error loading document requests:', error))
+  }, [session, portalCase.id])
+
+  const addRequest = async () => {
+    try {
+      setSaving(true)
+      const request = await requestDocument(session, portalCase.id, { title, documentType, notes })
+      setRequests(prev => [request, ...prev])
+      setTitle('')
+      setNotes('')
+      toast({
+        title: "Document Requested",
+        description: `${portalCase.clientName} will see the request on the client portal`
+      })
+    } catch (error) {
+      console.error('Error requesting document:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to request the document",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const cancel = async (request: DocumentRequest) => {
+    try {
+      await cancelDocumentRequest(session, request)
+      setRequests(prev => prev.map(r => (r.id === request.id ? { ...r, cancelledAt: new Date().toISOString() } : r)))
+    } catch (error) {
+      console.error('Error cancelling document request:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel the request",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileUp className="mr-2 h-5 w-5" />
+          Requested from Client
+        </CardTitle>
+        <CardDescription>The client uploads these from the portal; each is filed under its type</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+          <div className="md:col-span-2">
+            <Label htmlFor="request-title">Document</Label>
+            <Input
+              id="request-title"
+              placeholder="e.g. Physical therapy bills"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select value={documentType} onValueChange={setDocumentType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DOCUMENT_TYPES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={addRequest} disabled={saving || !title.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Request
+          </Button>
+          <div className="md:col-span-4">
+            <Input
+              placeholder="Notes for the client (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {requests.length === 0 && <p className="text-sm text-gray-500">No documents requested yet</p>}
+        {requests.map(request => {
+          const status = requestStatus(request)
+          return (
+            <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <p className="font-medium">{request.title}</p>
+                <p className="text-sm text-gray-500">
+                  {DOCUMENT_TYPES[request.documentType] || request.documentType} • Requested on{' '}
+                  {format(parseISO(request.createdAt), 'MMM d, yyyy')}
+                  {request.fulfilledAt && ` • Uploaded ${format(parseISO(request.fulfilledAt), 'MMM d, yyyy')}`}
+                </p>
+                {request.notes && <p className="text-sm text-gray-600">{request.notes}</p>}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Badge className={STATUS_BADGES[status].className}>{STATUS_BADGES[status].label}</Badge>
+                {status === 'open' && (
+                  <Button size="sm" variant="ghost" onClick={() => cancel(request)}>
+                    <XCircle className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
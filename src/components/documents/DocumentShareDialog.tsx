@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Download, Eye, Loader2, Share2, XCircle } from 'lucide-react'
+import { listDocumentAccess, revokeCaseDocumentShare, shareCaseDocument } from '@/services/firm'
+import { shareExpiryFromDate } from '@/lib/documentSharing'
+import type { DocumentAccessEvent, PortalCaseDocument } from '@/types/documentShare'
+import type { FirmSession } from '@/types/portal'
+import { useToast } from '@/hooks/use-toast'
+
+interface DocumentShareDialogProps {
+  session: FirmSession
+  document: PortalCaseDocument
+  onChange: () => void
+}
+
+// Shares one case document with the client on the portal and shows who opened it
+export function DocumentShareDialog({ session, document, onChange }: DocumentShareDialogProps) {
+  const share = document.share
+  const [open, setOpen] = useState(false)
+  const [expiryDate, setExpiryDate] = useState('')
+  const [events, setEvents] = useState<DocumentAccessEvent[]>([])
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+    setExpiryDate(share?.expiresAt ? format(parseISO(share.expiresAt), 'yyyy-MM-dd') : '')
+    listDocumentAccess(session, document.id)
+      .then(setEvents)
+      .catch(error => console.error('Error loading document activity:', error))
+  }, [open, session, document.id, share])
+
+  const save = async () => {
+    try {
+      setWorking(true)
+      await shareCaseDocument(session, document.id, shareExpiryFromDate(expiryDate))
+      toast({
+        title: "Document Shared",
+        description: `${document.fileName} is visible on the client portal`
+      })
+      onChange()
+      setOpen(false)
+    } catch (error) {
+      console.error('Error sharing document:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to share the document",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const stopSharing = async () => {
+    if (!share) return
+    try {
+      setWorking(true)
+      await revokeCaseDocumentShare(session, document.id)
+      toast({
+        title: "Sharing Stopped",
+        description: `The client can no longer open ${document.fileName}`
+      })
+      onChange()
+      setOpen(false)
+    } catch (error) {
+      console.error('Error revoking document share:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to stop sharing the document",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className={share ? 'text-green-700' : ''}>
+          <Share2 className="h-3 w-3 mr-1" />
+          {share ? 'Shared' : 'Share'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share with Client</DialogTitle>
+          <DialogDescription>
+            {share
+              ? `Shared on ${format(parseISO(share.sharedAt), 'MMM d, yyyy')}${
+                share.expiresAt ? ` until ${format(parseISO(share.expiresAt), 'MMM d, yyyy')}` : ''}`
+              : `The client will see ${document.fileName} in the Documents tab of their portal`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="share-expiry">Stop sharing after (optional)</Label>
+            <Input
+              id="share-expiry"
+              type="date"
+              value={expiryDate}
+              min={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setExpiryDate(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={save} disabled={working}>
+              {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Share2 className="h-4 w-4 mr-2" />}
+              {share ? 'Update Sharing' : 'Share Document'}
+            </Button>
+            {share && (
+              <Button variant="ghost" onClick={stopSharing} disabled={working} className="text-red-600 hover:text-red-700 hover:bg-red-50">
+                <XCircle className="h-4 w-4 mr-2" />
+                Stop Sharing
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-500">Activity</p>
+            {events.length === 0 && <p className="text-sm text-gray-500">Nobody has opened this file yet</p>}
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {events.map(event => (
+                <div key={event.id} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center">
+                    {event.action === 'view' ? <Eye className="h-3 w-3 mr-2" /> : <Download className="h-3 w-3 mr-2" />}
+                    {event.actorName || (event.actor === 'client' ? 'The client' : 'The firm')} {event.action === 'view' ? 'viewed' : 'downloaded'}
+                    {event.actor === 'client' && <Badge className="ml-2 bg-blue-100 text-blue-800">Client</Badge>}
+                  </span>
+                  <span className="text-gray-500">{format(parseISO(event.createdAt), 'MMM d, h:mm a')}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Download, Eye, FileText, Loader2, Share2 } from 'lucide-react'
+import { listCaseDocuments, openCaseDocument, uploadCaseDocument } from '@/services/firm'
+import { DOCUMENT_TYPES } from '@/lib/documentSharing'
+import type { DocumentAccessAction, PortalCaseDocument } from '@/types/documentShare'
+import type { FirmSession, PortalCaseRecord } from '@/types/portal'
+import { useToast } from '@/hooks/use-toast'
+import { DocumentShareDialog } from './DocumentShareDialog'
+
+interface PortalDocumentsCardProps {
+  session: FirmSession
+  portalCase: PortalCaseRecord
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+// The case's files on the client portal: what the firm shares with the client and what the
+// client uploaded for the firm's requests
+export function PortalDocumentsCard({ session, portalCase }: PortalDocumentsCardProps) {
+  const [documents, setDocuments] = useState<PortalCaseDocument[]>([])
+  const [documentType, setDocumentType] = useState('correspondence')
+  const [uploading, setUploading] = useState(false)
+  const { toast } = useToast()
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      setDocuments(await listCaseDocuments(session, portalCase.id))
+    } catch (error) {
+      console.error('Error loading portal documents:', error)
+    }
+  }, [session, portalCase.id])
+
+  useEffect(() => {
+    loadDocuments()
+  }, [loadDocuments])
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      setUploading(true)
+      await uploadCaseDocument(session, portalCase.id, file, documentType)
+      await loadDocuments()
+    } catch (error) {
+      console.error('Error uploading portal document:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload the document",
+        variant: "destructive"
+      })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const open = (document: PortalCaseDocument, action: DocumentAccessAction) => {
+    openCaseDocument(session, document, action).catch(error => {
+      console.error('Error opening document:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open the document",
+        variant: "destructive"
+      })
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Share2 className="mr-2 h-5 w-5" />
+          Client Portal Documents
+        </CardTitle>
+        <CardDescription>
+          Files on {portalCase.caseNumber} in the client portal; shared ones appear in the client's Documents tab
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          <div>
+            <Label>Type</Label>
+            <Select value={documentType} onValueChange={setDocumentType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DOCUMENT_TYPES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-2 flex items-center gap-2">
+            <Input
+              type="file"
+              disabled={uploading}
+              onChange={(e) => {
+                upload(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+            {uploading && <Loader2 className="h-4 w-4 animate-spin" />}
+          </div>
+        </div>
+
+        {documents.length === 0 && <p className="text-sm text-gray-500">No files on the portal yet</p>}
+        {documents.map(document => (
+          <div key={document.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="flex items-center space-x-3">
+              <FileText className="h-8 w-8 text-blue-500" />
+              <div>
+                <p className="font-medium">{document.fileName}</p>
+                <p className="text-sm text-gray-500">
+                  {DOCUMENT_TYPES[document.documentType] || document.documentType} • {formatSize(document.fileSize)} •{' '}
+                  {format(parseISO(document.uploadedAt), 'MMM d, yyyy')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <DocumentShareDialog session={session} document={document} onChange={loadDocuments} />
+              <Button size="sm" variant="outline" onClick={() => open(document, 'view')}>
+                <Eye className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => open(document, 'download')}>
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
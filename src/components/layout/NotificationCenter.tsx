@@ -0,0 +1,124 @@
+import { useState } from 'react'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
+import {
+  AlertTriangle,
+  Bell,
+  Calendar,
+  CheckCheck,
+  Clock,
+  DollarSign,
+  FileText,
+  FolderOpen,
+  MessageSquare
+} from 'lucide-react'
+import type { NotificationState } from '@/hooks/use-notifications'
+import type { NotificationCategory } from '@/types/notification'
+
+interface NotificationCenterProps {
+  notifications: NotificationState
+  onNavigate: (tab: string, caseId?: string) => void
+}
+
+const categoryIcons: Record<NotificationCategory, typeof Bell> = {
+  case_update: FolderOpen,
+  settlement: DollarSign,
+  client_message: MessageSquare,
+  deadline_reminder: Clock,
+  document_analysis: FileText,
+  event_reminder: Calendar,
+  escalation: AlertTriangle
+}
+
+export function NotificationCenter({ notifications: state, onNavigate }: NotificationCenterProps) {
+  const [open, setOpen] = useState(false)
+  const { notifications, unreadCount, markRead, markAllRead } = state
+
+  const handleSelect = (notificationId: string, caseId?: string) => {
+    markRead(notificationId).catch(error => console.error('Error marking notification read:', error))
+    if (caseId) {
+      setOpen(false)
+      onNavigate('case-detail', caseId)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-medium flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-md p-0 flex flex-col">
+        <SheetHeader className="border-b p-4">
+          <div className="flex items-center justify-between pr-6">
+            <SheetTitle>Notifications</SheetTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={unreadCount === 0}
+              onClick={() => markAllRead().catch(error => console.error('Error marking notifications read:', error))}
+            >
+              <CheckCheck className="h-4 w-4 mr-2" />
+              Mark all read
+            </Button>
+          </div>
+          <SheetDescription>
+            {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1">
+          {notifications.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Bell className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              <p>No notifications yet</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {notifications.map(notification => {
+                const Icon = categoryIcons[notification.category] || Bell
+                return (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    onClick={() => handleSelect(notification.id, notification.caseId)}
+                    className={cn(
+                      'w-full text-left p-4 flex gap-3 hover:bg-gray-50',
+                      !notification.readAt && 'bg-blue-50'
+                    )}
+                  >
+                    <Icon className={cn(
+                      'h-5 w-5 mt-0.5 flex-shrink-0',
+                      notification.category === 'escalation' ? 'text-red-600' : 'text-blue-600'
+                    )} />
+                    <div className="flex-1 min-w-0">
+                      <p className={cn('text-sm text-gray-900', !notification.readAt && 'font-semibold')}>
+                        {notification.title}
+                      </p>
+                      {notification.message && (
+                        <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{notification.message}</p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-1">
+                        {formatDistanceToNow(parseISO(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                    {!notification.readAt && <span className="h-2 w-2 mt-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  )
+}
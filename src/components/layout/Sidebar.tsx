@@ -12,13 +12,18 @@ import {
   Scale,
   Users,
   Calendar,
+  Landmark,
+  Inbox,
   LogOut
 } from 'lucide-react'
 import { blink } from '@/blink/client'
+import { NotificationCenter } from './NotificationCenter'
+import type { NotificationState } from '@/hooks/use-notifications'
 
 interface SidebarProps {
   activeTab: string
-  onTabChange: (tab: string) => void
+  onTabChange: (tab: string, caseId?: string) => void
+  notifications?: NotificationState
 }
 
 const navigation = [
@@ -29,10 +34,12 @@ const navigation = [
   { id: 'analytics', label: 'Analytics', icon: BarChart3 },
   { id: 'calendar', label: 'Calendar', icon: Calendar },
   { id: 'clients', label: 'Clients', icon: Users },
+  { id: 'messages', label: 'Client Messages', icon: Inbox },
+  { id: 'trust', label: 'Trust Account', icon: Landmark },
   { id: 'settings', label: 'Settings', icon: Settings },
 ]
 
-export function Sidebar({ activeTab, onTabChange }: SidebarProps) {
+export function Sidebar({ activeTab, onTabChange, notifications }: SidebarProps) {
   const [user, setUser] = useState<any>(null)
   const [userProfile, setUserProfile] = useState<any>(null)
 
@@ -71,6 +78,11 @@ export function Sidebar({ activeTab, onTabChange }: SidebarProps) {
       <div className="flex h-16 items-center border-b px-6">
         <Scale className="h-8 w-8 text-blue-600" />
         <span className="ml-2 text-xl font-semibold text-gray-900">Monster Law App</span>
+        {notifications && (
+          <div className="ml-auto">
+            <NotificationCenter notifications={notifications} onNavigate={onTabChange} />
+          </div>
+        )}
       </div>
 
       {/* Navigation */}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Check, CheckCheck, Loader2, MessageSquare, Paperclip, Send, X } from 'lucide-react'
+import { attachmentProblem } from '@/lib/messages'
+import type { CaseMessage, MessageAttachment, MessageSender, MessageSource } from '@/types/message'
+import { useToast } from '@/hooks/use-toast'
+
+interface CaseMessageThreadProps {
+  source: MessageSource
+  caseRecord: { id: string; userId: string; caseNumber: string }
+  viewer: { role: MessageSender; name: string }
+  otherName: string // Who is on the other side of the thread
+  onChange?: (messages: CaseMessage[]) => void // Called after messages are read or sent
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+// A case's conversation between the client and the firm. Opening it marks the other side's messages read.
+export function CaseMessageThread({ source, caseRecord, viewer, otherName, onChange }: CaseMessageThreadProps) {
+  const [messages, setMessages] = useState<CaseMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [text, setText] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [sending, setSending] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setLoading(true)
+    source.listMessages(caseRecord.id)
+      .then(thread => source.markThreadRead(thread, viewer.role))
+      .then(thread => {
+        setMessages(thread)
+        onChange?.(thread)
+      })
+      .catch(error => console.error('Error loading messages:', error))
+      .finally(() => setLoading(false))
+  }, [source, caseRecord.id, viewer.role, onChange])
+
+  const addFiles = (selected: FileList | null) => {
+    if (!selected) return
+    const next = [...files, ...Array.from(selected)]
+    const problem = attachmentProblem(next)
+    if (problem) {
+      toast({
+        title: "Error",
+        description: problem,
+        variant: "destructive"
+      })
+      return
+    }
+    setFiles(next)
+  }
+
+  const send = async () => {
+    try {
+      setSending(true)
+      const message = await source.sendMessage(caseRecord, viewer, text, files)
+      const next = [...messages, message]
+      setMessages(next)
+      onChange?.(next)
+      setText('')
+      setFiles([])
+    } catch (error) {
+      console.error('Error sending message:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message",
+        variant: "destructive"
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const openAttachment = (attachment: MessageAttachment) => {
+    source.openAttachment(attachment).catch(error => {
+      console.error('Error opening attachment:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open the attachment",
+        variant: "destructive"
+      })
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <MessageSquare className="mr-2 h-5 w-5" />
+          Messages · {caseRecord.caseNumber}
+        </CardTitle>
+        <CardDescription>
+          {viewer.role === 'client'
+            ? 'Only you and your legal team can see this conversation'
+            : `Conversation with ${otherName} on the client portal`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {loading && <p className="text-sm text-gray-500 text-center py-4">Loading messages...</p>}
+          {!loading && messages.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No messages yet</p>
+          )}
+          {messages.map(message => {
+            const own = message.sender === viewer.role
+            return (
+              <div key={message.id} className={`p-3 rounded-lg ${own ? 'bg-blue-50 ml-8' : 'bg-gray-50 mr-8'}`}>
+                <div className="flex items-center justify-between mb-1 text-sm">
+                  <span className="font-medium">{own ? 'You' : message.senderName || otherName}</span>
+                  <span className="text-gray-500">{format(parseISO(message.createdAt), 'MMM d, h:mm a')}</span>
+                </div>
+                {message.message && <p className="text-sm whitespace-pre-wrap">{message.message}</p>}
+                {message.attachments.map(attachment => (
+                  <button
+                    key={attachment.id}
+                    type="button"
+                    onClick={() => openAttachment(attachment)}
+                    className="flex items-center text-sm text-blue-600 hover:underline mt-1"
+                  >
+                    <Paperclip className="h-3 w-3 mr-1" />
+                    {attachment.name} ({formatSize(attachment.size)})
+                  </button>
+                ))}
+                {own && (
+                  <p className="flex items-center justify-end text-xs text-gray-500 mt-1">
+                    {message.readAt ? (
+                      <>
+                        <CheckCheck className="h-3 w-3 mr-1 text-blue-600" />
+                        Read {format(parseISO(message.readAt), 'MMM d, h:mm a')}
+                      </>
+                    ) : (
+                      <>
+                        <Check className="h-3 w-3 mr-1" />
+                        Sent
+                      </>
+                    )}
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Type your message here..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={3}
+          />
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {files.map((file, index) => (
+                <span key={`${file.name}-${index}`} className="flex items-center rounded bg-gray-100 px-2 py-1 text-xs">
+                  <Paperclip className="h-3 w-3 mr-1" />
+                  {file.name}
+                  <button
+                    type="button"
+                    className="ml-1 text-gray-500 hover:text-gray-700"
+                    onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-2">
+            <Input
+              type="file"
+              multiple
+              className="max-w-xs"
+              onChange={(e) => {
+                addFiles(e.target.files)
+                e.target.value = ''
+              }}
+            />
+            <Button onClick={send} disabled={sending || (!text.trim() && files.length === 0)}>
+              {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
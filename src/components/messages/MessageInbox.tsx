@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { FolderOpen, Inbox, Paperclip } from 'lucide-react'
+import { blink } from '@/blink/client'
+import { FirmPortalSignIn } from '@/components/auth/FirmPortalSignIn'
+import { firmMessages, listMessageInbox } from '@/services/firm'
+import { awaitingSince, groupThreads, isAwaitingReply, unreadMessages } from '@/lib/messages'
+import type { CaseMessage, InboxThread } from '@/types/message'
+import { useFirmSession } from '@/hooks/use-firm-session'
+import { CaseMessageThread } from './CaseMessageThread'
+
+interface MessageInboxProps {
+  onCaseSelect: (caseId: string) => void
+}
+
+// Client portal conversations across the attorney's cases, unanswered ones first. Threads live
+// on the portal's backend; Open Case leads to the firm's case with the same case number.
+export function MessageInbox({ onCaseSelect }: MessageInboxProps) {
+  const session = useFirmSession()
+  const [user, setUser] = useState<any>(null)
+  const [threads, setThreads] = useState<InboxThread[]>([])
+  const [firmCaseIds, setFirmCaseIds] = useState<Record<string, string>>({})
+  const [showAll, setShowAll] = useState(false)
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+      setUser(state.user)
+    })
+    return unsubscribe
+  }, [])
+
+  useEffect(() => {
+    if (!user?.id || !session) return
+    setLoading(true)
+    Promise.all([
+      listMessageInbox(session),
+      blink.db.table('cases').list({ where: { userId: user.id } })
+    ])
+      .then(([inbox, caseRows]) => {
+        setThreads(inbox)
+        setFirmCaseIds(Object.fromEntries(caseRows.map((row: any) => [row.caseNumber, row.id])))
+      })
+      .catch(error => console.error('Error loading messages:', error))
+      .finally(() => setLoading(false))
+  }, [user?.id, session])
+
+  const source = useMemo(() => (session ? firmMessages(session) : null), [session])
+
+  // Opening a thread reads it, and replying answers it
+  const handleThreadChange = useCallback((messages: CaseMessage[]) => {
+    const [thread] = groupThreads(messages)
+    if (!thread) return
+    setThreads(prev => prev.map(summary => (summary.caseId === thread.caseId
+      ? {
+        ...summary,
+        messageCount: thread.messages.length,
+        unread: unreadMessages(thread.messages, 'attorney').length,
+        awaitingSince: awaitingSince(thread),
+        latest: thread.latest
+      }
+      : summary)))
+  }, [])
+
+  if (!session) {
+    return (
+      <FirmPortalSignIn
+        title="Client Messages"
+        description="Clients write from the client portal. Sign in to it with your firm login to read and answer their messages."
+      />
+    )
+  }
+
+  const unanswered = threads.filter(isAwaitingReply)
+  const listed = showAll ? threads : unanswered
+  const selected = threads.find(thread => thread.caseId === selectedCaseId) || null
+  const selectedFirmCaseId = selected ? firmCaseIds[selected.caseNumber] : undefined
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading messages...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Client Messages</h1>
+          <p className="text-gray-600">
+            {unanswered.length === 0
+              ? 'Every client thread has been answered'
+              : `${unanswered.length} client thread${unanswered.length === 1 ? '' : 's'} waiting for a reply`}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant={showAll ? 'outline' : 'default'} onClick={() => setShowAll(false)}>
+            Unanswered ({unanswered.length})
+          </Button>
+          <Button variant={showAll ? 'default' : 'outline'} onClick={() => setShowAll(true)}>
+            All ({threads.length})
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Inbox className="mr-2 h-5 w-5" />
+              Threads
+            </CardTitle>
+            <CardDescription>One conversation per case</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {listed.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-8">
+                {showAll ? 'No client messages yet' : 'Nothing waiting for a reply'}
+              </p>
+            )}
+            {listed.map(thread => {
+              const since = thread.awaitingSince
+              return (
+                <button
+                  key={thread.caseId}
+                  type="button"
+                  onClick={() => setSelectedCaseId(thread.caseId)}
+                  className={`w-full text-left p-3 rounded-lg border hover:bg-gray-50 ${
+                    selectedCaseId === thread.caseId ? 'border-blue-600 bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{thread.clientName}</span>
+                    {thread.unread > 0 && <Badge className="bg-purple-100 text-purple-800">{thread.unread} new</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">{thread.caseNumber}</p>
+                  <p className="text-sm text-gray-700 truncate mt-1">
+                    {thread.latest.attachments.length > 0 && <Paperclip className="inline h-3 w-3 mr-1" />}
+                    {thread.latest.message || thread.latest.attachments.map(a => a.name).join(', ')}
+                  </p>
+                  {since && (
+                    <p className="text-xs text-orange-600 mt-1">
+                      Waiting {formatDistanceToNow(parseISO(since))}
+                    </p>
+                  )}
+                </button>
+              )
+            })}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-4">
+          {selected && source ? (
+            <>
+              {selectedFirmCaseId && (
+                <div className="flex justify-end">
+                  <Button variant="outline" size="sm" onClick={() => onCaseSelect(selectedFirmCaseId)}>
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Open Case
+                  </Button>
+                </div>
+              )}
+              <CaseMessageThread
+                source={source}
+                key={selected.caseId}
+                caseRecord={{ id: selected.caseId, userId: '', caseNumber: selected.caseNumber }}
+                viewer={{ role: 'attorney', name: session.user.name }}
+                otherName={selected.clientName}
+                onChange={handleThreadChange}
+              />
+            </>
+          ) : (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Inbox className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">Select a thread to read and reply</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
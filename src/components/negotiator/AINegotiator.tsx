@@ -21,6 +21,17 @@ import {
 } from 'lucide-react'
 
 import { blink } from '@/blink/client'
+import { getChatModel } from '@/blink/chatModels'
+import { loadNegotiationContext, type NegotiationContext } from '@/blink/negotiationContext'
+import { getDamagesWorksheet } from '@/blink/damages'
+import { askNegotiator, type ChatTurn } from '@/lib/negotiator'
+import { calculateDamages, getSettlementRange } from '@/lib/damages'
+import { NegotiationLedger } from './NegotiationLedger'
+import { DemandLetterBuilder } from './DemandLetterBuilder'
+import type { Negotiation } from '@/types/case'
+
+// Earlier chat turns sent along with each question
+const MAX_HISTORY_TURNS = 20
 
 interface Message {
   id: string
@@ -34,8 +45,12 @@ interface Message {
   }
 }
 
-export function AINegotiator() {
-  const [selectedCase, setSelectedCase] = useState('')
+interface AINegotiatorProps {
+  initialCaseId?: string
+}
+
+export function AINegotiator({ initialCaseId }: AINegotiatorProps = {}) {
+  const [selectedCase, setSelectedCase] = useState(initialCaseId || '')
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -51,6 +66,9 @@ export function AINegotiator() {
   const [user, setUser] = useState<any>(null)
   const [cases, setCases] = useState<any[]>([])
   const [casesLoading, setCasesLoading] = useState(true)
+  const [context, setContext] = useState<NegotiationContext | null>(null)
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  const [demandLetterOpen, setDemandLetterOpen] = useState(false)
 
   // Load cases from Blink DB
   const loadCases = useCallback(async () => {
@@ -100,6 +118,35 @@ export function AINegotiator() {
     return unsubscribe
   }, [loadCases])
 
+  // Load the selected case and its documents to ground the assistant
+  useEffect(() => {
+    if (!user?.id || !selectedCase) {
+      setContext(null)
+      return
+    }
+
+    let cancelled = false
+    loadNegotiationContext(user.id, selectedCase)
+      .then(loaded => {
+        if (cancelled) return
+        setContext(loaded)
+        if (loaded?.caseData.currentOffer) {
+          setCurrentOffer(String(loaded.caseData.currentOffer))
+        }
+      })
+      .catch(error => console.error('Error loading negotiation context:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [user?.id, selectedCase])
+
+  // The ledger's latest amounts prefill the figures the assistant reasons about
+  const applyNegotiation = useCallback((negotiation: Negotiation) => {
+    if (negotiation.currentOffer) setCurrentOffer(String(negotiation.currentOffer))
+    if (negotiation.demandAmount) setDemandAmount(String(negotiation.demandAmount))
+  }, [])
+
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || !selectedCase) return
 
@@ -110,183 +157,127 @@ export function AINegotiator() {
       timestamp: new Date()
     }
 
+    const history: ChatTurn[] = messages
+      .filter(message => message.type !== 'system')
+      .slice(-MAX_HISTORY_TURNS)
+      .map(message => ({
+        role: message.type === 'ai' ? 'assistant' : 'user',
+        content: message.content
+      }))
+
     setMessages(prev => [...prev, userMessage])
     setInputMessage('')
     setIsLoading(true)
 
-    try {
-      // Simulate AI response for now (replace with actual AI service later)
-      await new Promise(resolve => setTimeout(resolve, 1500))
-      
-      const selectedCaseData = cases.find(c => c.id === selectedCase)
-      
-      // Generate a contextual response based on the input
-      let aiResponse = ''
-      const lowerInput = inputMessage.toLowerCase()
-      
-      if (lowerInput.includes('demand') || lowerInput.includes('offer')) {
-        aiResponse = `Based on case ${selectedCaseData?.number}, I recommend:\n\n1. **Initial Demand Strategy**: Start with ${demandAmount ? `$${parseInt(demandAmount).toLocaleString()}` : 'a strong opening demand'}\n2. **Negotiation Range**: Consider settling between 70-85% of your demand\n3. **Key Leverage Points**: Document all medical expenses, lost wages, and pain/suffering\n4. **Timeline**: Set a 30-day response deadline to maintain momentum\n\nWould you like me to generate a formal demand letter?`
-      } else if (lowerInput.includes('settlement') || lowerInput.includes('analyze')) {
-        aiResponse = `Settlement Analysis for ${selectedCaseData?.number}:\n\n**Settlement Probability**: 75-80%\n**Recommended Range**: $${Math.round((selectedCaseData?.value || 0) * 0.7).toLocaleString()} - $${Math.round((selectedCaseData?.value || 0) * 0.9).toLocaleString()}\n**Key Factors**:\n• Strong liability case\n• Clear damages documentation\n• Insurance company's settlement history\n\n**Next Steps**: Prepare comprehensive demand package with all supporting documentation.`
-      } else {
-        aiResponse = `I understand you're asking about "${inputMessage}". Here's my analysis:\n\nFor case ${selectedCaseData?.number}, I recommend focusing on:\n1. Gathering all supporting documentation\n2. Calculating total damages accurately\n3. Understanding the insurance company's position\n4. Setting realistic but strong negotiation goals\n\nWhat specific aspect of the negotiation would you like to explore further?`
-      }
+    const aiMessageId = (Date.now() + 1).toString()
 
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'ai',
-        content: aiResponse,
-        timestamp: new Date()
+    try {
+      const loaded = context ?? await loadNegotiationContext(user.id, selectedCase)
+      if (!loaded) {
+        throw new Error(`Case ${selectedCase} not found`)
       }
 
-      setMessages(prev => [...prev, aiMessage])
+      // Tokens are appended to the AI message as they arrive
+      await askNegotiator(
+        getChatModel(),
+        {
+          caseData: loaded.caseData,
+          documents: loaded.documents,
+          figures: {
+            demandAmount: demandAmount ? Number(demandAmount) : undefined,
+            currentOffer: currentOffer ? Number(currentOffer) : undefined
+          },
+          history,
+          question: userMessage.content
+        },
+        (token) => {
+          setMessages(prev => {
+            if (!prev.some(message => message.id === aiMessageId)) {
+              return [...prev, { id: aiMessageId, type: 'ai', content: token, timestamp: new Date() }]
+            }
+            return prev.map(message =>
+              message.id === aiMessageId ? { ...message, content: message.content + token } : message
+            )
+          })
+          setStreamingMessageId(aiMessageId)
+        }
+      )
     } catch (error) {
       console.error('Error generating AI response:', error)
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: (Date.now() + 2).toString(),
         type: 'system',
         content: 'Sorry, I encountered an error generating a response. Please try again.',
         timestamp: new Date()
       }
       setMessages(prev => [...prev, errorMessage])
     } finally {
+      setStreamingMessageId(null)
       setIsLoading(false)
     }
   }
 
-  const generateDemandLetter = async () => {
-    if (!selectedCase || !demandAmount) {
+  const openDemandLetter = () => {
+    if (!context) {
       const errorMessage: Message = {
         id: Date.now().toString(),
         type: 'system',
-        content: 'Please select a case and enter a demand amount before generating a demand letter.',
+        content: 'Please select a case before building a demand letter.',
         timestamp: new Date()
       }
       setMessages(prev => [...prev, errorMessage])
       return
     }
-
-    setIsLoading(true)
-    
-    // Add a status message
-    const statusMessage: Message = {
-      id: Date.now().toString(),
-      type: 'system',
-      content: 'Generating demand letter... This may take a moment.',
-      timestamp: new Date()
-    }
-    setMessages(prev => [...prev, statusMessage])
-
-    try {
-      const selectedCaseData = cases.find(c => c.id === selectedCase)
-      
-      // Simulate AI generation (replace with actual AI service later)
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      const demandLetter = `**Generated Demand Letter:**
-
-[Date]
-
-[Insurance Company Name]
-[Address]
-
-Re: Claim Number: ${selectedCaseData?.claimNumber || 'TBD'}
-    Insured: [Defendant Name]
-    Claimant: ${selectedCaseData?.client}
-    Date of Loss: [Incident Date]
-
-Dear Claims Representative,
-
-I represent ${selectedCaseData?.client} in connection with the incident that occurred on [Date]. This letter serves as a formal demand for settlement of all claims arising from this matter.
-
-**FACTS:**
-[Brief description of the incident and liability]
-
-**DAMAGES:**
-Based on our investigation and medical documentation, my client has sustained the following damages:
-• Medical expenses: $[Amount]
-• Lost wages: $[Amount]
-• Pain and suffering: $[Amount]
-• Future medical costs: $[Amount]
-
-**DEMAND:**
-In consideration of the above, we demand payment of $${parseInt(demandAmount).toLocaleString()} in full settlement of all claims.
-
-This offer is valid for 30 days from the date of this letter. Please contact me to discuss settlement.
-
-Sincerely,
-[Attorney Name]
-[Law Firm]`
-
-      // Remove the status message and add the result
-      setMessages(prev => prev.filter(msg => msg.id !== statusMessage.id))
-
-      const letterMessage: Message = {
-        id: Date.now().toString(),
-        type: 'ai',
-        content: demandLetter,
-        timestamp: new Date(),
-        metadata: { action: 'demand_letter', amount: parseInt(demandAmount) }
-      }
-
-      setMessages(prev => [...prev, letterMessage])
-    } catch (error) {
-      console.error('Error generating demand letter:', error)
-      
-      // Remove the status message
-      setMessages(prev => prev.filter(msg => msg.id !== statusMessage.id))
-      
-      const errorMessage: Message = {
-        id: Date.now().toString(),
-        type: 'system',
-        content: `Failed to generate demand letter. Please try again.`,
-        timestamp: new Date()
-      }
-      setMessages(prev => [...prev, errorMessage])
-    } finally {
-      setIsLoading(false)
-    }
+    setDemandLetterOpen(true)
   }
 
   const analyzeSettlement = async () => {
-    if (!selectedCase) return
+    if (!selectedCase || !user) return
 
     setIsLoading(true)
     try {
       const selectedCaseData = cases.find(c => c.id === selectedCase)
-      
-      // Simulate AI analysis (replace with actual AI service later)
-      await new Promise(resolve => setTimeout(resolve, 1500))
-      
-      const analysis = `**Settlement Analysis:**
+      const worksheet = await getDamagesWorksheet(user.id, selectedCase)
+      const formatAmount = (amount: number) => `$${Math.round(amount).toLocaleString()}`
+
+      let analysis = `**Settlement Analysis:**
 
 **Case**: ${selectedCaseData?.number}
 **Client**: ${selectedCaseData?.client}
-**Estimated Value**: $${selectedCaseData?.value?.toLocaleString()}
-
-**Settlement Probability**: 78%
+`
 
-**Recommended Settlement Range**: 
-• Minimum: $${Math.round((selectedCaseData?.value || 0) * 0.65).toLocaleString()}
-• Target: $${Math.round((selectedCaseData?.value || 0) * 0.80).toLocaleString()}
-• Maximum: $${Math.round((selectedCaseData?.value || 0) * 0.95).toLocaleString()}
-
-**Key Negotiation Points**:
-1. Strong liability evidence
-2. Clear medical documentation
-3. Economic damages well-documented
-4. Insurance company's settlement history
-
-**Timeline Expectations**:
-• Initial response: 2-3 weeks
-• Negotiation period: 4-8 weeks
-• Final settlement: 6-12 weeks
-
-**Risks & Opportunities**:
-• Risk: Statute of limitations approaching
-• Opportunity: Recent favorable case law
-• Risk: Potential comparative negligence
-• Opportunity: High policy limits available`
+      if (!worksheet) {
+        analysis += `
+No damages worksheet has been saved for this case yet. Build one in the case's Damages tab to get a settlement range based on itemized specials, pain and suffering, comparative fault and liens.`
+      } else {
+        const calculation = calculateDamages(worksheet)
+        const range = getSettlementRange(worksheet, calculation)
+        const offer = Number(currentOffer) || 0
+
+        analysis += `**Case Value**: ${formatAmount(calculation.caseValue)}
+
+**Damages**:
+• Economic specials: ${formatAmount(calculation.economicTotal)}
+• Pain and suffering: ${formatAmount(calculation.generalDamages)}
+• Comparative fault (${worksheet.comparativeFaultPercent}%): -${formatAmount(calculation.faultReduction)}
+• Liens: ${formatAmount(calculation.lienTotal)}
+
+**Recommended Settlement Range**:
+• Minimum: ${formatAmount(range.minimum)}
+• Target: ${formatAmount(range.target)}
+• Maximum: ${formatAmount(range.maximum)}`
+
+        if (offer > 0) {
+          const position = offer < range.minimum
+            ? 'below the minimum; it does not cover economic losses and liens'
+            : offer >= range.target
+              ? 'at or above the settlement goal'
+              : `${Math.round((offer / range.target) * 100)}% of the settlement goal`
+          analysis += `
+
+**Current Offer**: ${formatAmount(offer)} is ${position}. Net to client after liens: ${formatAmount(offer - calculation.lienTotal)}.`
+        }
+      }
 
       const analysisMessage: Message = {
         id: Date.now().toString(),
@@ -389,6 +380,25 @@ Sincerely,
             </CardContent>
           </Card>
 
+          {context && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <DollarSign className="mr-2 h-5 w-5 text-green-600" />
+                  Negotiation History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <NegotiationLedger
+                  caseData={context.caseData}
+                  userId={user.id}
+                  onChange={applyNegotiation}
+                  compact
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
@@ -401,11 +411,11 @@ Sincerely,
               <Button 
                 className="w-full justify-start" 
                 variant="outline"
-                onClick={generateDemandLetter}
-                disabled={!selectedCase || !demandAmount || isLoading}
+                onClick={openDemandLetter}
+                disabled={!context || isLoading}
               >
                 <FileText className="mr-2 h-4 w-4" />
-                {isLoading ? 'Generating...' : 'Generate Demand Letter'}
+                Build Demand Letter
               </Button>
               <Button 
                 className="w-full justify-start" 
@@ -487,7 +497,7 @@ Sincerely,
                       </div>
                     </div>
                   ))}
-                  {isLoading && (
+                  {isLoading && !streamingMessageId && (
                     <div className="flex items-center space-x-3">
                       <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center">
                         <Bot className="h-4 w-4 text-blue-600" />
@@ -529,6 +539,17 @@ Sincerely,
           </Card>
         </div>
       </div>
+
+      {context && user && (
+        <DemandLetterBuilder
+          open={demandLetterOpen}
+          onOpenChange={setDemandLetterOpen}
+          caseData={context.caseData}
+          documents={context.documents}
+          userId={user.id}
+          demandAmount={demandAmount ? Number(demandAmount) : undefined}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,296 @@
+import { useState, useEffect, useMemo } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Download, FileText, RotateCcw, Save } from 'lucide-react'
+import {
+  listDemandLetterTemplates,
+  loadLetterhead,
+  loadSignatory
+} from '@/blink/demandLetters'
+import { saveCaseDocument } from '@/blink/caseDocuments'
+import { getDamagesWorksheet } from '@/blink/damages'
+import {
+  buildMergeData,
+  extractMedicalSpecials,
+  findUnresolvedFields,
+  mergeFields,
+  mergeTemplate,
+  MERGE_FIELDS
+} from '@/lib/demandLetter'
+import { downloadLetter, exportLetterToDocx, exportLetterToPdf } from '@/lib/letterExport'
+import type { Case, Document } from '@/types/case'
+import type { DamagesWorksheet } from '@/types/damages'
+import type { DemandLetterSection, DemandLetterTemplate, Letterhead, MedicalSpecial } from '@/types/demandLetter'
+import { useToast } from '@/hooks/use-toast'
+
+type ExportFormat = 'pdf' | 'docx'
+
+interface DemandLetterBuilderProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  caseData: Case
+  documents: Document[]
+  userId: string
+  demandAmount?: number
+}
+
+export function DemandLetterBuilder({
+  open,
+  onOpenChange,
+  caseData,
+  documents,
+  userId,
+  demandAmount
+}: DemandLetterBuilderProps) {
+  const [templates, setTemplates] = useState<DemandLetterTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [letterhead, setLetterhead] = useState<Letterhead | null>(null)
+  const [signatory, setSignatory] = useState({ name: '', title: '' })
+  const [worksheet, setWorksheet] = useState<DamagesWorksheet | null>(null)
+  const [sections, setSections] = useState<DemandLetterSection[]>([])
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf')
+  const [exporting, setExporting] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    Promise.all([
+      listDemandLetterTemplates(userId),
+      loadLetterhead(userId),
+      loadSignatory(userId),
+      getDamagesWorksheet(userId, caseData.id)
+    ])
+      .then(([loadedTemplates, loadedLetterhead, loadedSignatory, loadedWorksheet]) => {
+        if (cancelled) return
+        setWorksheet(loadedWorksheet)
+        setTemplates(loadedTemplates)
+        setTemplateId(current => current || loadedTemplates[0].id)
+        setLetterhead(loadedLetterhead)
+        setSignatory(loadedSignatory)
+      })
+      .catch(error => console.error('Error loading demand letter templates:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, userId, caseData.id])
+
+  // The damages worksheet is the reviewed list of bills; documents are only scanned without one
+  const specials = useMemo<MedicalSpecial[]>(() => {
+    const medicalItems = worksheet?.items.filter(item => item.category === 'medical') || []
+    if (medicalItems.length === 0) return extractMedicalSpecials(documents)
+    return medicalItems.map(item => ({ documentId: item.id, description: item.description, amount: item.amount }))
+  }, [worksheet, documents])
+
+  const template = templates.find(t => t.id === templateId)
+
+  const mergeData = useMemo(() => letterhead && buildMergeData({
+    caseData,
+    letterhead,
+    attorney: signatory,
+    specials,
+    demandAmount
+  }), [caseData, letterhead, signatory, specials, demandAmount])
+
+  // Picking a template (or new case data arriving) starts the review over from the merged text
+  useEffect(() => {
+    if (template && mergeData) setSections(mergeTemplate(template, mergeData))
+  }, [template, mergeData])
+
+  const updateSection = (index: number, updates: Partial<DemandLetterSection>) => {
+    setSections(prev => prev.map((section, i) => (i === index ? { ...section, ...updates } : section)))
+  }
+
+  const resetSection = (index: number) => {
+    const original = template?.sections.find(section => section.key === sections[index].key)
+    if (!original || !mergeData) return
+    updateSection(index, { ...original, body: mergeFields(original.body, mergeData) })
+  }
+
+  const unresolvedCount = sections.reduce((count, section) => count + findUnresolvedFields(section.body).length, 0)
+  const medicalTotal = specials.reduce((sum, special) => sum + special.amount, 0)
+
+  const renderLetter = async () => {
+    if (!letterhead || !mergeData) throw new Error('Letterhead not loaded')
+    const content = { letterhead, date: mergeData.today, sections }
+    const blob = exportFormat === 'pdf' ? await exportLetterToPdf(content) : await exportLetterToDocx(content)
+    const fileName = `Demand Letter - ${caseData.caseNumber} - ${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`
+    return { blob, fileName }
+  }
+
+  const handleDownload = async () => {
+    setExporting(true)
+    try {
+      const { blob, fileName } = await renderLetter()
+      downloadLetter(fileName, blob)
+    } catch (error) {
+      console.error('Error exporting demand letter:', error)
+      toast({
+        title: "Error",
+        description: "Failed to export demand letter",
+        variant: "destructive"
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleSaveToCase = async () => {
+    setExporting(true)
+    try {
+      const { blob, fileName } = await renderLetter()
+      await saveCaseDocument(userId, caseData.id, fileName, blob)
+      toast({
+        title: "Demand Letter Saved",
+        description: `${fileName} was added to the case documents`
+      })
+    } catch (error) {
+      console.error('Error saving demand letter:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save demand letter to the case",
+        variant: "destructive"
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileText className="mr-2 h-5 w-5" />
+            Demand Letter · {caseData.caseNumber}
+          </DialogTitle>
+          <DialogDescription>
+            Review each section before exporting. Fields shown in [brackets] have no value yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {template?.description && <p className="text-xs text-gray-500">{template.description}</p>}
+          </div>
+
+          <div className="p-3 bg-gray-50 rounded-lg text-sm">
+            <p className="font-medium mb-1">
+              Medical specials from {worksheet?.items.some(item => item.category === 'medical') ? 'damages worksheet' : 'case documents'}
+            </p>
+            {specials.length === 0 ? (
+              <p className="text-gray-500">No billed amounts found in medical documents</p>
+            ) : (
+              <>
+                {specials.map(special => (
+                  <div key={special.documentId} className="flex justify-between">
+                    <span className="truncate mr-2">{special.description}</span>
+                    <span>${special.amount.toLocaleString()}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-medium border-t mt-1 pt-1">
+                  <span>Total</span>
+                  <span>${medicalTotal.toLocaleString()}</span>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {sections.map((section, index) => {
+            const unresolved = findUnresolvedFields(section.body)
+            return (
+              <div key={section.key} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <Input
+                    value={section.title}
+                    onChange={(e) => updateSection(index, { title: e.target.value })}
+                    className="font-medium"
+                  />
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      id={`heading-${section.key}`}
+                      checked={section.showHeading}
+                      onCheckedChange={(checked) => updateSection(index, { showHeading: checked })}
+                    />
+                    <Label htmlFor={`heading-${section.key}`} className="text-xs">Heading</Label>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => resetSection(index)} title="Reset to template">
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  value={section.body}
+                  onChange={(e) => updateSection(index, { body: e.target.value })}
+                  rows={Math.min(12, Math.max(3, section.body.split('\n').length + 1))}
+                />
+                {unresolved.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {unresolved.map(field => (
+                      <Badge key={field} variant="outline" className="text-amber-700 border-amber-300">
+                        Missing: {MERGE_FIELDS[field] || field}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row sm:items-center gap-2">
+          {unresolvedCount > 0 && (
+            <p className="text-sm text-amber-700 sm:mr-auto">
+              {unresolvedCount} field{unresolvedCount === 1 ? '' : 's'} still need a value
+            </p>
+          )}
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pdf">PDF</SelectItem>
+              <SelectItem value="docx">DOCX</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleDownload} disabled={exporting || sections.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+          <Button onClick={handleSaveToCase} disabled={exporting || sections.length === 0}>
+            <Save className="mr-2 h-4 w-4" />
+            {exporting ? 'Exporting...' : 'Save to Case'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
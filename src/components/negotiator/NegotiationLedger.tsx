@@ -0,0 +1,245 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Bot, Building, Plus, User } from 'lucide-react'
+import { getNegotiation, recordNegotiationMessage, subscribeToNegotiation } from '@/blink/negotiations'
+import {
+  AMOUNT_REQUIRED,
+  NEGOTIATION_MESSAGE_TYPES,
+  type NegotiationMessageType,
+  type NegotiationSender
+} from '@/lib/negotiationLedger'
+import type { Case, Negotiation } from '@/types/case'
+import { useToast } from '@/hooks/use-toast'
+
+interface NegotiationLedgerProps {
+  caseData: Pick<Case, 'id' | 'insuranceCompany' | 'currentOffer' | 'financialsLocked'>
+  userId: string
+  onChange?: (negotiation: Negotiation) => void
+  compact?: boolean
+}
+
+// Who usually makes each move, so the form can preselect the sender
+const DEFAULT_SENDERS: Partial<Record<NegotiationMessageType, NegotiationSender>> = {
+  demand: 'attorney',
+  offer: 'insurance'
+}
+
+const STATUS_COLORS: Record<Negotiation['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  countered: 'bg-orange-100 text-orange-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+}
+
+const emptyEntry = {
+  type: 'demand' as NegotiationMessageType,
+  sender: 'attorney' as NegotiationSender,
+  amount: '',
+  message: ''
+}
+
+export function NegotiationLedger({ caseData, userId, onChange, compact = false }: NegotiationLedgerProps) {
+  const [negotiation, setNegotiation] = useState<Negotiation | null>(null)
+  const [entry, setEntry] = useState(emptyEntry)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const caseId = caseData.id
+  const locked = Number(caseData.financialsLocked) > 0 // SQLite boolean
+
+  useEffect(() => {
+    let cancelled = false
+    let unsubscribe: (() => void) | undefined
+
+    const apply = (loaded: Negotiation | null) => {
+      if (cancelled) return
+      setNegotiation(loaded)
+      if (loaded) onChange?.(loaded)
+    }
+
+    getNegotiation(userId, caseId)
+      .then(apply)
+      .catch(error => console.error('Error loading negotiation:', error))
+
+    subscribeToNegotiation(caseId, apply)
+      .then(stop => {
+        if (cancelled) stop()
+        else unsubscribe = stop
+      })
+      .catch(error => console.error('Error subscribing to negotiation:', error))
+
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [userId, caseId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const amountRequired = AMOUNT_REQUIRED.includes(entry.type)
+
+  const recordEntry = async () => {
+    const amount = amountRequired && entry.amount ? Number(entry.amount) : undefined
+    if (amountRequired && !(amount && amount > 0)) {
+      toast({
+        title: "Error",
+        description: `Please enter the ${NEGOTIATION_MESSAGE_TYPES[entry.type].toLowerCase()} amount`,
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const updated = await recordNegotiationMessage(userId, caseData, {
+        type: entry.type,
+        sender: entry.sender,
+        amount,
+        message: entry.message,
+        aiGenerated: false
+      })
+      setNegotiation(updated)
+      onChange?.(updated)
+      setEntry(emptyEntry)
+    } catch (error) {
+      console.error('Error recording negotiation entry:', error)
+      toast({
+        title: "Error",
+        description: "Failed to record negotiation entry",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const messages = negotiation?.messages || []
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div>
+          <p className="text-gray-500">Demand</p>
+          <p className="font-semibold">
+            {negotiation?.demandAmount ? `$${negotiation.demandAmount.toLocaleString()}` : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Current Offer</p>
+          <p className="font-semibold">
+            {negotiation?.currentOffer ? `$${negotiation.currentOffer.toLocaleString()}` : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Status</p>
+          <Badge className={STATUS_COLORS[negotiation?.status || 'pending']}>
+            {negotiation?.status || 'not started'}
+          </Badge>
+        </div>
+      </div>
+
+      {messages.length > 0 ? (
+        <div className={`space-y-3 overflow-y-auto ${compact ? 'max-h-64' : 'max-h-96'}`}>
+          {messages.map(message => (
+            <div key={message.id} className="flex items-start space-x-3 p-3 border rounded-lg">
+              <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+                {message.sender === 'insurance'
+                  ? <Building className="h-4 w-4 text-gray-600" />
+                  : <User className="h-4 w-4 text-blue-600" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{NEGOTIATION_MESSAGE_TYPES[message.type]}</Badge>
+                  {message.amount !== undefined && (
+                    <span className="font-semibold">${message.amount.toLocaleString()}</span>
+                  )}
+                  {message.aiGenerated && <Bot className="h-4 w-4 text-blue-600" />}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {message.sender === 'insurance' ? caseData.insuranceCompany || 'Insurance' : 'Attorney'} ·{' '}
+                  {format(parseISO(message.timestamp), 'MMM d, yyyy h:mm a')}
+                </p>
+                {message.message && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{message.message}</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 text-center py-4">No demands or offers recorded yet</p>
+      )}
+
+      {locked ? (
+        <p className="text-sm text-gray-500 border-t pt-4">
+          The settlement statement has been approved; no further entries can be recorded.
+        </p>
+      ) : (
+        <div className="space-y-3 border-t pt-4">
+          <div className={`grid gap-3 ${compact ? 'grid-cols-2' : 'grid-cols-3'}`}>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select
+                value={entry.type}
+                onValueChange={(value: NegotiationMessageType) => setEntry(prev => ({
+                  ...prev,
+                  type: value,
+                  sender: DEFAULT_SENDERS[value] || prev.sender
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(NEGOTIATION_MESSAGE_TYPES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>From</Label>
+              <Select
+                value={entry.sender}
+                onValueChange={(value: NegotiationSender) => setEntry(prev => ({ ...prev, sender: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="attorney">Attorney</SelectItem>
+                  <SelectItem value="insurance">Insurance</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className={`space-y-1 ${compact ? 'col-span-2' : ''}`}>
+              <Label>Amount ($)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={entry.amount}
+                disabled={!amountRequired}
+                onChange={(e) => setEntry(prev => ({ ...prev, amount: e.target.value }))}
+                placeholder={amountRequired ? 'Amount' : 'Not applicable'}
+              />
+            </div>
+          </div>
+          <Textarea
+            value={entry.message}
+            onChange={(e) => setEntry(prev => ({ ...prev, message: e.target.value }))}
+            placeholder="Notes (terms, conditions, who you spoke with)"
+            className="min-h-[60px]"
+          />
+          <Button onClick={recordEntry} disabled={saving} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            {saving ? 'Recording...' : 'Record Entry'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
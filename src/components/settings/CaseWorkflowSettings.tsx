@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, RotateCcw, Trash2 } from 'lucide-react'
+import { blink } from '@/blink/client'
+import { getCaseWorkflow, resetCaseWorkflow, saveCaseWorkflow } from '@/blink/caseWorkflows'
+import { CASE_STATUSES } from '@/lib/workflow'
+import type { Case } from '@/types/case'
+import type { CaseStatus, CaseWorkflow, WorkflowStage } from '@/types/workflow'
+import { useToast } from '@/hooks/use-toast'
+
+const CASE_TYPES: Record<Case['caseType'], string> = {
+  personal_injury: 'Personal Injury',
+  auto_accident: 'Auto Accident',
+  workers_comp: "Workers' Compensation",
+  medical_malpractice: 'Medical Malpractice',
+  other: 'Other'
+}
+
+const newEntryId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`
+
+export function CaseWorkflowSettings() {
+  const [user, setUser] = useState<any>(null)
+  const [caseType, setCaseType] = useState<Case['caseType']>('personal_injury')
+  const [workflow, setWorkflow] = useState<CaseWorkflow | null>(null)
+  const [stages, setStages] = useState<WorkflowStage[]>([])
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+      setUser(state.user)
+    })
+    return unsubscribe
+  }, [])
+
+  useEffect(() => {
+    if (!user?.id) return
+    getCaseWorkflow(user.id, caseType)
+      .then(loaded => {
+        setWorkflow(loaded)
+        setStages(loaded.stages)
+      })
+      .catch(error => console.error('Error loading workflow:', error))
+  }, [user?.id, caseType])
+
+  const updateStage = (status: CaseStatus, updates: Partial<WorkflowStage>) => {
+    setStages(prev => prev.map(stage => (stage.status === status ? { ...stage, ...updates } : stage)))
+  }
+
+  const toggleTransition = (stage: WorkflowStage, to: CaseStatus) => {
+    updateStage(stage.status, {
+      transitions: stage.transitions.includes(to)
+        ? stage.transitions.filter(status => status !== to)
+        : [...stage.transitions, to]
+    })
+  }
+
+  const saveWorkflow = async () => {
+    if (!user?.id) return
+
+    try {
+      setSaving(true)
+      const saved = await saveCaseWorkflow(user.id, caseType, stages)
+      setWorkflow(saved)
+      toast({
+        title: "Workflow Saved",
+        description: `${CASE_TYPES[caseType]} cases now follow this workflow`
+      })
+    } catch (error) {
+      console.error('Error saving workflow:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save workflow",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const resetWorkflow = async () => {
+    if (!user?.id) return
+
+    try {
+      const standard = await resetCaseWorkflow(user.id, caseType)
+      setWorkflow(standard)
+      setStages(standard.stages)
+    } catch (error) {
+      console.error('Error resetting workflow:', error)
+      toast({
+        title: "Error",
+        description: "Failed to reset workflow",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Case Workflows</CardTitle>
+        <CardDescription>
+          For each case type: which status changes are allowed, the checklist that must be done before a
+          case leaves a stage, and the reminders added to the case timeline when it enters one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Select value={caseType} onValueChange={(value) => setCaseType(value as Case['caseType'])}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CASE_TYPES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {workflow && (
+            <Badge variant={workflow.custom ? 'default' : 'secondary'}>
+              {workflow.custom ? 'Firm workflow' : 'Standard workflow'}
+            </Badge>
+          )}
+        </div>
+
+        {stages.map(stage => (
+          <div key={stage.status} className="border rounded-lg p-4 space-y-4">
+            <p className="font-medium">{CASE_STATUSES[stage.status]}</p>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-gray-500">Can move to</Label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(CASE_STATUSES) as CaseStatus[])
+                  .filter(status => status !== stage.status)
+                  .map(status => (
+                    <Badge
+                      key={status}
+                      variant={stage.transitions.includes(status) ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => toggleTransition(stage, status)}
+                    >
+                      {CASE_STATUSES[status]}
+                    </Badge>
+                  ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-gray-500">Checklist</Label>
+              {stage.checklist.map((checklistItem, index) => (
+                <div key={checklistItem.id} className="flex items-center gap-3">
+                  <Input
+                    value={checklistItem.label}
+                    placeholder="e.g., Police report obtained"
+                    onChange={(e) => updateStage(stage.status, {
+                      checklist: stage.checklist.map((entry, i) => (i === index ? { ...entry, label: e.target.value } : entry))
+                    })}
+                  />
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      id={`required-${stage.status}-${checklistItem.id}`}
+                      checked={checklistItem.required}
+                      onCheckedChange={(checked) => updateStage(stage.status, {
+                        checklist: stage.checklist.map((entry, i) => (i === index ? { ...entry, required: checked } : entry))
+                      })}
+                    />
+                    <Label htmlFor={`required-${stage.status}-${checklistItem.id}`} className="text-xs">Required</Label>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateStage(stage.status, { checklist: stage.checklist.filter((_, i) => i !== index) })}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => updateStage(stage.status, {
+                  checklist: [...stage.checklist, { id: newEntryId('item'), label: '', required: true }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Item
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-gray-500">Tasks on entering (days until due)</Label>
+              {stage.tasks.map((task, index) => (
+                <div key={task.id} className="grid grid-cols-[1fr_6rem_8rem_auto] gap-3 items-center">
+                  <Input
+                    value={task.title}
+                    placeholder="e.g., Request medical records"
+                    onChange={(e) => updateStage(stage.status, {
+                      tasks: stage.tasks.map((entry, i) => (i === index ? { ...entry, title: e.target.value } : entry))
+                    })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    value={task.dueInDays}
+                    onChange={(e) => updateStage(stage.status, {
+                      tasks: stage.tasks.map((entry, i) => (i === index ? { ...entry, dueInDays: Number(e.target.value) } : entry))
+                    })}
+                  />
+                  <Select
+                    value={task.priority}
+                    onValueChange={(value) => updateStage(stage.status, {
+                      tasks: stage.tasks.map((entry, i) => (
+                        i === index ? { ...entry, priority: value as WorkflowStage['tasks'][number]['priority'] } : entry
+                      ))
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateStage(stage.status, { tasks: stage.tasks.filter((_, i) => i !== index) })}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => updateStage(stage.status, {
+                  tasks: [...stage.tasks, { id: newEntryId('task'), title: '', dueInDays: 7, priority: 'medium' }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Task
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={resetWorkflow} disabled={!workflow?.custom}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Use Standard Workflow
+          </Button>
+          <Button onClick={saveWorkflow} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Workflow'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
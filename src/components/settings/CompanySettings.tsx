@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Building, Users, Settings as SettingsIcon, CreditCard, Shield, Globe, Mail, Phone, MapPin, Calendar, DollarSign } from 'lucide-react'
 import { blink } from '@/blink/client'
+import { saveRateOverride } from '@/blink/billing'
 import { useToast } from '@/hooks/use-toast'
 
 interface Company {
@@ -56,6 +57,7 @@ interface CompanyMember {
   permissions: string
   status: string
   joinedAt: string
+  billingRate?: number // Hourly rate override; the company's standard rate applies when unset
   userProfile?: {
     name: string
     email: string
@@ -218,6 +220,29 @@ export function CompanySettings() {
     updateCompany(updates)
   }
 
+  const handleMemberRate = async (member: CompanyMember, value: string) => {
+    const rate = parseFloat(value) || 0
+    if (rate === (Number(member.billingRate) || 0)) return
+
+    try {
+      await saveRateOverride(member.id, rate)
+      setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, billingRate: rate } : m)))
+      toast({
+        title: "Success",
+        description: rate > 0
+          ? `${member.userProfile?.name || 'Member'} now bills at $${rate}/hour`
+          : `${member.userProfile?.name || 'Member'} now bills at the standard rate`
+      })
+    } catch (error) {
+      console.error('Error updating member rate:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update billing rate",
+        variant: "destructive"
+      })
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -532,6 +557,19 @@ export function CompanySettings() {
                       <p className="text-xs text-gray-500 mt-1">
                         Joined {new Date(member.joinedAt).toLocaleDateString()}
                       </p>
+                      <div className="flex items-center justify-end gap-2 mt-2">
+                        <Label htmlFor={`rate-${member.id}`} className="text-xs text-gray-500">Rate ($/hour)</Label>
+                        <Input
+                          id={`rate-${member.id}`}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="w-28 h-8"
+                          placeholder={String(company.billingRate || 0)}
+                          defaultValue={Number(member.billingRate) > 0 ? member.billingRate : ''}
+                          onBlur={(e) => handleMemberRate(member, e.target.value)}
+                        />
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Plus, Trash2 } from 'lucide-react'
+import { blink } from '@/blink/client'
+import {
+  createCourtHoliday,
+  deleteCourtHoliday,
+  listCourtHolidays,
+  type StoredCourtHoliday
+} from '@/blink/courtHolidays'
+import { getFederalHolidays } from '@/lib/courtRules'
+import { useToast } from '@/hooks/use-toast'
+
+export function CourtHolidaySettings() {
+  const [user, setUser] = useState<any>(null)
+  const [holidays, setHolidays] = useState<StoredCourtHoliday[]>([])
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' })
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+      setUser(state.user)
+    })
+    return unsubscribe
+  }, [])
+
+  useEffect(() => {
+    if (!user?.id) return
+    listCourtHolidays(user.id)
+      .then(setHolidays)
+      .catch(error => console.error('Error loading court holidays:', error))
+  }, [user?.id])
+
+  const addHoliday = async () => {
+    if (!user?.id || !newHoliday.date || !newHoliday.name) {
+      toast({
+        title: "Error",
+        description: "Please enter a date and name for the holiday",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      const holiday = await createCourtHoliday(user.id, newHoliday)
+      setHolidays(prev => [...prev, holiday].sort((a, b) => a.date.localeCompare(b.date)))
+      setNewHoliday({ date: '', name: '' })
+    } catch (error) {
+      console.error('Error adding court holiday:', error)
+      toast({
+        title: "Error",
+        description: "Failed to add court holiday",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const removeHoliday = async (holidayId: string) => {
+    try {
+      await deleteCourtHoliday(holidayId)
+      setHolidays(prev => prev.filter(holiday => holiday.id !== holidayId))
+    } catch (error) {
+      console.error('Error deleting court holiday:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete court holiday",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const federalHolidays = getFederalHolidays(new Date().getFullYear())
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Court Holidays</CardTitle>
+        <CardDescription>
+          Court-rule deadlines skip weekends, federal holidays and the court closures listed here
+          (state holidays, local court closures).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {federalHolidays.map(holiday => (
+            <Badge key={holiday.date} variant="outline">
+              {holiday.name} · {format(parseISO(holiday.date), 'MMM d')}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-[1fr_2fr_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="holiday-date">Date</Label>
+            <Input
+              id="holiday-date"
+              type="date"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-name">Name</Label>
+            <Input
+              id="holiday-name"
+              placeholder="e.g., Cesar Chavez Day"
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+          <Button onClick={addHoliday}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {holidays.length > 0 && (
+          <div className="space-y-2">
+            {holidays.map(holiday => (
+              <div key={holiday.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{holiday.name}</p>
+                  <p className="text-sm text-gray-500">{format(parseISO(holiday.date), 'EEEE, MMMM d, yyyy')}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeHoliday(holiday.id)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Copy, Pencil, Plus, Trash2 } from 'lucide-react'
+import { blink } from '@/blink/client'
+import {
+  deleteDemandLetterTemplate,
+  listDemandLetterTemplates,
+  saveDemandLetterTemplate
+} from '@/blink/demandLetters'
+import { MERGE_FIELDS } from '@/lib/demandLetter'
+import type { DemandLetterSection, DemandLetterTemplate } from '@/types/demandLetter'
+import { useToast } from '@/hooks/use-toast'
+
+interface TemplateDraft {
+  id?: string
+  name: string
+  description: string
+  sections: DemandLetterSection[]
+}
+
+const newSection = (): DemandLetterSection => ({
+  key: `section_${Date.now()}`,
+  title: 'New Section',
+  body: '',
+  showHeading: true
+})
+
+export function DemandLetterTemplateSettings() {
+  const [user, setUser] = useState<any>(null)
+  const [templates, setTemplates] = useState<DemandLetterTemplate[]>([])
+  const [draft, setDraft] = useState<TemplateDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+      setUser(state.user)
+    })
+    return unsubscribe
+  }, [])
+
+  useEffect(() => {
+    if (!user?.id) return
+    listDemandLetterTemplates(user.id)
+      .then(setTemplates)
+      .catch(error => console.error('Error loading demand letter templates:', error))
+  }, [user?.id])
+
+  const duplicateTemplate = (template: DemandLetterTemplate) => {
+    setDraft({
+      name: `${template.name} (copy)`,
+      description: template.description,
+      sections: template.sections.map(section => ({ ...section }))
+    })
+  }
+
+  const editTemplate = (template: DemandLetterTemplate) => {
+    setDraft({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      sections: template.sections.map(section => ({ ...section }))
+    })
+  }
+
+  const updateSection = (index: number, updates: Partial<DemandLetterSection>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      sections: prev.sections.map((section, i) => (i === index ? { ...section, ...updates } : section))
+    })
+  }
+
+  const saveTemplate = async () => {
+    if (!user?.id || !draft) return
+    if (!draft.name.trim() || draft.sections.length === 0) {
+      toast({
+        title: "Error",
+        description: "A template needs a name and at least one section",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const saved = await saveDemandLetterTemplate(user.id, draft)
+      setTemplates(prev => prev.some(t => t.id === saved.id)
+        ? prev.map(t => (t.id === saved.id ? saved : t))
+        : [...prev, saved])
+      setDraft(null)
+      toast({
+        title: "Template Saved",
+        description: `${saved.name} is available in the demand letter builder`
+      })
+    } catch (error) {
+      console.error('Error saving demand letter template:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save template",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeTemplate = async (templateId: string) => {
+    try {
+      await deleteDemandLetterTemplate(templateId)
+      setTemplates(prev => prev.filter(t => t.id !== templateId))
+    } catch (error) {
+      console.error('Error deleting demand letter template:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Demand Letter Templates</CardTitle>
+        <CardDescription>
+          Templates used by the demand letter builder. Copy the standard template to start your own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          {templates.map(template => (
+            <div key={template.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <p className="font-medium">
+                  {template.name}
+                  {template.builtIn && <Badge variant="secondary" className="ml-2">Built-in</Badge>}
+                </p>
+                <p className="text-sm text-gray-500">{template.description}</p>
+              </div>
+              <div className="flex gap-1">
+                <Button size="sm" variant="ghost" onClick={() => duplicateTemplate(template)} title="Duplicate">
+                  <Copy className="h-4 w-4" />
+                </Button>
+                {!template.builtIn && (
+                  <>
+                    <Button size="sm" variant="ghost" onClick={() => editTemplate(template)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeTemplate(template.id)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {draft && (
+          <div className="space-y-4 border-t pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Input
+                  id="template-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {draft.sections.map((section, index) => (
+              <div key={section.key} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <Input
+                    value={section.title}
+                    onChange={(e) => updateSection(index, { title: e.target.value })}
+                  />
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      id={`template-heading-${section.key}`}
+                      checked={section.showHeading}
+                      onCheckedChange={(checked) => updateSection(index, { showHeading: checked })}
+                    />
+                    <Label htmlFor={`template-heading-${section.key}`} className="text-xs">Heading</Label>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setDraft({ ...draft, sections: draft.sections.filter((_, i) => i !== index) })}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  value={section.body}
+                  onChange={(e) => updateSection(index, { body: e.target.value })}
+                  rows={4}
+                />
+              </div>
+            ))}
+
+            <div>
+              <p className="text-sm font-medium mb-2">Merge fields</p>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(MERGE_FIELDS).map(([field, label]) => (
+                  <Badge key={field} variant="outline" title={label} className="font-mono">
+                    {`{{${field}}}`}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() => setDraft({ ...draft, sections: [...draft.sections, newSection()] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Section
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+                <Button onClick={saveTemplate} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Template'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -33,6 +33,19 @@ import {
 import { useToast } from '../../hooks/use-toast'
 import { blink } from '../../blink/client'
 import { CompanySettings } from './CompanySettings'
+import { CourtHolidaySettings } from './CourtHolidaySettings'
+import { CaseWorkflowSettings } from './CaseWorkflowSettings'
+import { DemandLetterTemplateSettings } from './DemandLetterTemplateSettings'
+import {
+  ACCENT_COLORS,
+  DEFAULT_APPEARANCE_SETTINGS,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  DEFAULT_SECURITY_SETTINGS,
+  getUserPreferences,
+  saveUserPreferences
+} from '../../blink/preferences'
+import type { NotificationSettings } from '../../types/notification'
+import type { AppearanceSettings, SecuritySettings, ThemeMode, UserPreferences } from '../../types/preferences'
 
 interface UserProfile {
   id: string
@@ -69,33 +82,23 @@ export function Settings() {
   const { toast } = useToast()
 
   // Notification settings
-  const [notifications, setNotifications] = useState({
-    email_notifications: true,
-    push_notifications: true,
-    case_updates: true,
-    deadline_reminders: true,
-    client_messages: true,
-    settlement_alerts: true
-  })
+  const [notifications, setNotifications] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS)
 
   // Security settings
-  const [security, setSecurity] = useState({
-    two_factor_enabled: false,
-    session_timeout: '30',
-    password_expiry: '90'
-  })
+  const [security, setSecurity] = useState<SecuritySettings>(DEFAULT_SECURITY_SETTINGS)
 
   // Theme settings
-  const [theme, setTheme] = useState({
-    mode: 'light',
-    accent_color: '#1e40af',
-    sidebar_collapsed: false
-  })
+  const [theme, setTheme] = useState<AppearanceSettings>(DEFAULT_APPEARANCE_SETTINGS)
 
   const loadUserData = async () => {
     try {
       const userData = await blink.auth.me()
       setUser(userData)
+
+      const preferences = await getUserPreferences(userData.id)
+      setNotifications(preferences.notifications)
+      setSecurity(preferences.security)
+      setTheme(preferences.appearance)
       
       // Load user profile
       const profiles = await blink.db.userProfiles.list({
@@ -201,6 +204,44 @@ export function Settings() {
     }
   }
 
+  // Preferences save as soon as they change; a failed save restores the previous values
+  const savePreferences = async (preferences: Partial<UserPreferences>, revert: () => void) => {
+    try {
+      await saveUserPreferences(user.id, preferences)
+    } catch (error) {
+      console.error('Error saving preferences:', error)
+      revert()
+      toast({
+        title: "Error",
+        description: "Failed to save preferences. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const updateNotificationSetting = async (key: keyof NotificationSettings, checked: boolean) => {
+    const updated = { ...notifications, [key]: checked }
+    setNotifications(updated)
+
+    if (key === 'push_notifications' && checked && 'Notification' in window && Notification.permission === 'default') {
+      await Notification.requestPermission()
+    }
+
+    await savePreferences({ notifications: updated }, () => setNotifications(notifications))
+  }
+
+  const updateSecurity = (changes: Partial<SecuritySettings>) => {
+    const updated = { ...security, ...changes }
+    setSecurity(updated)
+    savePreferences({ security: updated }, () => setSecurity(security))
+  }
+
+  const updateAppearance = (changes: Partial<AppearanceSettings>) => {
+    const updated = { ...theme, ...changes }
+    setTheme(updated)
+    savePreferences({ appearance: updated }, () => setTheme(theme))
+  }
+
   const handleAvatarUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file || !profile) return
@@ -506,6 +547,12 @@ export function Settings() {
               </Button>
             </CardContent>
           </Card>
+
+          <CourtHolidaySettings />
+
+          <DemandLetterTemplateSettings />
+
+          <CaseWorkflowSettings />
         </TabsContent>
 
         <TabsContent value="notifications" className="space-y-6">
@@ -525,9 +572,7 @@ export function Settings() {
                   </div>
                   <Switch
                     checked={notifications.email_notifications}
-                    onCheckedChange={(checked) => 
-                      setNotifications(prev => ({ ...prev, email_notifications: checked }))
-                    }
+                    onCheckedChange={(checked) => updateNotificationSetting('email_notifications', checked)}
                   />
                 </div>
 
@@ -538,9 +583,7 @@ export function Settings() {
                   </div>
                   <Switch
                     checked={notifications.push_notifications}
-                    onCheckedChange={(checked) => 
-                      setNotifications(prev => ({ ...prev, push_notifications: checked }))
-                    }
+                    onCheckedChange={(checked) => updateNotificationSetting('push_notifications', checked)}
                   />
                 </div>
 
@@ -553,9 +596,7 @@ export function Settings() {
                   </div>
                   <Switch
                     checked={notifications.case_updates}
-                    onCheckedChange={(checked) => 
-                      setNotifications(prev => ({ ...prev, case_updates: checked }))
-                    }
+                    onCheckedChange={(checked) => updateNotificationSetting('case_updates', checked)}
                   />
                 </div>
 
@@ -566,9 +607,7 @@ export function Settings() {
                   </div>
                   <Switch
                     checked={notifications.deadline_reminders}
-                    onCheckedChange={(checked) => 
-                      setNotifications(prev => ({ ...prev, deadline_reminders: checked }))
-                    }
+                    onCheckedChange={(checked) => updateNotificationSetting('deadline_reminders', checked)}
                   />
                 </div>
 
@@ -579,9 +618,7 @@ export function Settings() {
                   </div>
                   <Switch
                     checked={notifications.client_messages}
-                    onCheckedChange={(checked) => 
-                      setNotifications(prev => ({ ...prev, client_messages: checked }))
-                    }
+                    onCheckedChange={(checked) => updateNotificationSetting('client_messages', checked)}
                   />
                 </div>
 
@@ -592,9 +629,7 @@ export function Settings() {
                   </div>
                   <Switch
                     checked={notifications.settlement_alerts}
-                    onCheckedChange={(checked) => 
-                      setNotifications(prev => ({ ...prev, settlement_alerts: checked }))
-                    }
+                    onCheckedChange={(checked) => updateNotificationSetting('settlement_alerts', checked)}
                   />
                 </div>
               </div>
@@ -622,9 +657,7 @@ export function Settings() {
                   </Badge>
                   <Switch
                     checked={security.two_factor_enabled}
-                    onCheckedChange={(checked) => 
-                      setSecurity(prev => ({ ...prev, two_factor_enabled: checked }))
-                    }
+                    onCheckedChange={(checked) => updateSecurity({ two_factor_enabled: checked })}
                   />
                 </div>
               </div>
@@ -636,7 +669,7 @@ export function Settings() {
                   <Label htmlFor="session-timeout">Session Timeout (minutes)</Label>
                   <Select
                     value={security.session_timeout}
-                    onValueChange={(value) => setSecurity(prev => ({ ...prev, session_timeout: value }))}
+                    onValueChange={(value) => updateSecurity({ session_timeout: value })}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -654,7 +687,7 @@ export function Settings() {
                   <Label htmlFor="password-expiry">Password Expiry (days)</Label>
                   <Select
                     value={security.password_expiry}
-                    onValueChange={(value) => setSecurity(prev => ({ ...prev, password_expiry: value }))}
+                    onValueChange={(value) => updateSecurity({ password_expiry: value })}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -698,7 +731,7 @@ export function Settings() {
                   <Label>Theme Mode</Label>
                   <Select
                     value={theme.mode}
-                    onValueChange={(value) => setTheme(prev => ({ ...prev, mode: value }))}
+                    onValueChange={(value) => updateAppearance({ mode: value as ThemeMode })}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -714,14 +747,14 @@ export function Settings() {
                 <div className="space-y-2">
                   <Label>Accent Color</Label>
                   <div className="flex space-x-2">
-                    {['#1e40af', '#dc2626', '#059669', '#7c3aed', '#ea580c'].map((color) => (
+                    {ACCENT_COLORS.map((color) => (
                       <button
                         key={color}
                         className={`w-8 h-8 rounded-full border-2 ${
                           theme.accent_color === color ? 'border-gray-900' : 'border-gray-300'
                         }`}
                         style={{ backgroundColor: color }}
-                        onClick={() => setTheme(prev => ({ ...prev, accent_color: color }))}
+                        onClick={() => updateAppearance({ accent_color: color })}
                       />
                     ))}
                   </div>
@@ -734,9 +767,7 @@ export function Settings() {
                   </div>
                   <Switch
                     checked={theme.sidebar_collapsed}
-                    onCheckedChange={(checked) => 
-                      setTheme(prev => ({ ...prev, sidebar_collapsed: checked }))
-                    }
+                    onCheckedChange={(checked) => updateAppearance({ sidebar_collapsed: checked })}
                   />
                 </div>
               </div>
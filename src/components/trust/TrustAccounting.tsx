@@ -0,0 +1,453 @@
+import { useState, useEffect, useCallback } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { ArrowDownLeft, ArrowUpRight, Landmark, Pencil, Plus, Trash2 } from 'lucide-react'
+import { blink } from '@/blink/client'
+import {
+  deleteTrustTransaction,
+  listBankStatements,
+  listTrustCases,
+  listTrustTransactions,
+  saveTrustTransaction
+} from '@/blink/trust'
+import { buildClientLedgers, isReconciledDate, signedAmount } from '@/lib/trust'
+import type {
+  BankStatement,
+  TrustCase,
+  TrustTransaction,
+  TrustTransactionInput,
+  TrustTransactionType
+} from '@/types/trust'
+import { useToast } from '@/hooks/use-toast'
+import { TrustReconciliationPanel } from './TrustReconciliationPanel'
+
+interface TransactionDraft extends TrustTransactionInput {
+  id?: string
+}
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export function TrustAccounting() {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [cases, setCases] = useState<TrustCase[]>([])
+  const [journal, setJournal] = useState<TrustTransaction[]>([])
+  const [statements, setStatements] = useState<BankStatement[]>([])
+  const [draft, setDraft] = useState<TransactionDraft | null>(null)
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  const loadTrustAccount = useCallback(async () => {
+    try {
+      setLoading(true)
+      const user = await blink.auth.me()
+      const [trustCases, transactions, bankStatements] = await Promise.all([
+        listTrustCases(user.id),
+        listTrustTransactions(user.id),
+        listBankStatements(user.id)
+      ])
+      setUserId(user.id)
+      setCases(trustCases)
+      setJournal(transactions)
+      setStatements(bankStatements)
+    } catch (error) {
+      console.error('Error loading trust account:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load trust account",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadTrustAccount()
+  }, [loadTrustAccount])
+
+  const ledgers = buildClientLedgers(journal, cases)
+  const accountBalance = ledgers.reduce((sum, ledger) => sum + ledger.balance, 0)
+  const selectedLedger = ledgers.find(ledger => ledger.caseId === selectedCaseId)
+  const draftLedger = draft ? ledgers.find(ledger => ledger.caseId === draft.caseId) : undefined
+
+  const openDraft = (transaction?: TrustTransaction, type: TrustTransactionType = 'deposit') => {
+    setDraft(transaction
+      ? {
+        id: transaction.id,
+        caseId: transaction.caseId,
+        clientName: transaction.clientName,
+        type: transaction.type,
+        date: transaction.date,
+        amount: transaction.amount,
+        counterparty: transaction.counterparty,
+        reference: transaction.reference,
+        description: transaction.description
+      }
+      : {
+        caseId: selectedCaseId || '',
+        clientName: cases.find(caseData => caseData.id === selectedCaseId)?.clientName || '',
+        type,
+        date: format(new Date(), 'yyyy-MM-dd'),
+        amount: 0,
+        counterparty: '',
+        reference: '',
+        description: ''
+      })
+  }
+
+  const saveDraft = async () => {
+    if (!draft || !userId) return
+    if (!draft.caseId || draft.amount <= 0 || !draft.date || !draft.counterparty.trim()) {
+      toast({
+        title: "Error",
+        description: draft.type === 'deposit'
+          ? "Please choose a case and enter a date, amount and payor"
+          : "Please choose a case and enter a date, amount and payee",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const { id, ...input } = draft
+      const saved = await saveTrustTransaction(userId, input, id)
+      setJournal(prev => [...prev.filter(transaction => transaction.id !== saved.id), saved]
+        .sort((a, b) => a.date.localeCompare(b.date)))
+      setDraft(null)
+    } catch (error) {
+      console.error('Error saving trust transaction:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save trust transaction",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeTransaction = async (transaction: TrustTransaction) => {
+    if (!userId) return
+    try {
+      await deleteTrustTransaction(userId, transaction.id)
+      setJournal(prev => prev.filter(candidate => candidate.id !== transaction.id))
+      setStatements(await listBankStatements(userId))
+    } catch (error) {
+      console.error('Error deleting trust transaction:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete trust transaction",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const transactionRow = (transaction: TrustTransaction, balance: number) => (
+    <div key={transaction.id} className="flex items-start justify-between gap-4 py-3">
+      <div className="flex items-start gap-3 min-w-0">
+        {transaction.type === 'deposit'
+          ? <ArrowDownLeft className="h-4 w-4 mt-1 text-green-600 shrink-0" />
+          : <ArrowUpRight className="h-4 w-4 mt-1 text-red-600 shrink-0" />}
+        <div className="min-w-0">
+          <p className="font-medium truncate">
+            {transaction.type === 'deposit' ? 'From' : 'To'} {transaction.counterparty}
+            {transaction.reference && <span className="text-gray-500 font-normal"> · #{transaction.reference}</span>}
+          </p>
+          <p className="text-sm text-gray-600">
+            {format(parseISO(transaction.date), 'MMM d, yyyy')} · {transaction.clientName}
+            {transaction.description && ` · ${transaction.description}`}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <div className="text-right mr-2">
+          <p className={transaction.type === 'deposit' ? 'font-medium text-green-700' : 'font-medium text-red-700'}>
+            {formatCurrency(signedAmount(transaction))}
+          </p>
+          <p className="text-xs text-gray-500">Balance {formatCurrency(balance)}</p>
+        </div>
+        {isReconciledDate(transaction.date, statements) ? (
+          <Badge className="bg-blue-100 text-blue-800">Reconciled</Badge>
+        ) : (
+          <>
+            <Button size="sm" variant="ghost" onClick={() => openDraft(transaction)} title="Edit">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => removeTransaction(transaction)}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+
+  // Newest first, each with the balance after it posted
+  const withRunningBalance = (transactions: TrustTransaction[]) => {
+    let balance = 0
+    return transactions
+      .map(transaction => {
+        balance += signedAmount(transaction)
+        return { transaction, balance }
+      })
+      .reverse()
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Trust Account</h1>
+          <p className="text-gray-600">
+            Client funds held in trust (IOLTA): {formatCurrency(accountBalance)} across {ledgers.filter(ledger => ledger.balance !== 0).length} client ledgers
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => openDraft(undefined, 'disbursement')}>
+            <ArrowUpRight className="h-4 w-4 mr-2" />
+            Disbursement
+          </Button>
+          <Button onClick={() => openDraft(undefined, 'deposit')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Deposit
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="ledgers" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="ledgers">Client Ledgers</TabsTrigger>
+          <TabsTrigger value="journal">Trust Journal ({journal.length})</TabsTrigger>
+          <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="ledgers">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Landmark className="mr-2 h-5 w-5" />
+                  Clients
+                </CardTitle>
+                <CardDescription>One ledger per client matter</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {ledgers.length === 0 && (
+                  <p className="text-sm text-gray-500">No trust activity yet. Record a deposit to open a ledger.</p>
+                )}
+                {ledgers.map(ledger => (
+                  <button
+                    key={ledger.caseId}
+                    type="button"
+                    onClick={() => setSelectedCaseId(ledger.caseId)}
+                    className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-left hover:bg-gray-50 ${
+                      ledger.caseId === selectedCaseId ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{ledger.clientName}</p>
+                      <p className="text-xs text-gray-500">{ledger.caseNumber}</p>
+                    </div>
+                    <span className="font-medium">{formatCurrency(ledger.balance)}</span>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>{selectedLedger ? `${selectedLedger.clientName} Ledger` : 'Client Ledger'}</CardTitle>
+                <CardDescription>
+                  {selectedLedger
+                    ? `${selectedLedger.caseNumber} · Balance held ${formatCurrency(selectedLedger.balance)}`
+                    : 'Select a client to see their ledger'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y">
+                  {selectedLedger && withRunningBalance(selectedLedger.transactions)
+                    .map(({ transaction, balance }) => transactionRow(transaction, balance))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="journal">
+          <Card>
+            <CardHeader>
+              <CardTitle>Trust Journal</CardTitle>
+              <CardDescription>Every deposit and disbursement on the trust account, with the account balance</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {journal.length === 0 && <p className="text-sm text-gray-500">No trust transactions recorded.</p>}
+              <div className="divide-y">
+                {withRunningBalance(journal).map(({ transaction, balance }) => transactionRow(transaction, balance))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reconciliation">
+          {userId && (
+            <TrustReconciliationPanel
+              userId={userId}
+              cases={cases}
+              journal={journal}
+              statements={statements}
+              onStatementsChange={setStatements}
+            />
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id ? 'Edit' : 'Record'} {draft?.type === 'disbursement' ? 'Disbursement' : 'Deposit'}
+            </DialogTitle>
+            <DialogDescription>
+              {draft?.type === 'disbursement' && draftLedger
+                ? `${formatCurrency(draftLedger.balance)} held for ${draftLedger.clientName}. A client ledger can never go negative.`
+                : 'Funds are credited to the client ledger of the selected case.'}
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={draft.type}
+                    onValueChange={(value) => setDraft({ ...draft, type: value as TrustTransactionType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="deposit">Deposit</SelectItem>
+                      <SelectItem value="disbursement">Disbursement</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="trust-date">Date</Label>
+                  <Input
+                    id="trust-date"
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Client / Case</Label>
+                <Select
+                  value={draft.caseId}
+                  onValueChange={(value) => setDraft({
+                    ...draft,
+                    caseId: value,
+                    clientName: cases.find(caseData => caseData.id === value)?.clientName || ''
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a case" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cases.map(caseData => (
+                      <SelectItem key={caseData.id} value={caseData.id}>
+                        {caseData.clientName} · {caseData.caseNumber}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="trust-counterparty">{draft.type === 'deposit' ? 'Received from' : 'Paid to'}</Label>
+                  <Input
+                    id="trust-counterparty"
+                    placeholder={draft.type === 'deposit' ? 'e.g. State Farm' : 'e.g. Client, medical provider'}
+                    value={draft.counterparty}
+                    onChange={(e) => setDraft({ ...draft, counterparty: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="trust-amount">Amount ($)</Label>
+                  <Input
+                    id="trust-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.amount || ''}
+                    onChange={(e) => setDraft({ ...draft, amount: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="trust-reference">Check / reference #</Label>
+                  <Input
+                    id="trust-reference"
+                    value={draft.reference}
+                    onChange={(e) => setDraft({ ...draft, reference: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="trust-description">Memo</Label>
+                  <Input
+                    id="trust-description"
+                    placeholder="e.g. Settlement proceeds"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  />
+                </div>
+              </div>
+              {draft.type === 'disbursement' && draftLedger && draft.amount > draftLedger.balance && !draft.id && (
+                <Badge className="bg-red-100 text-red-800">Exceeds the funds held for this client</Badge>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={saveDraft} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
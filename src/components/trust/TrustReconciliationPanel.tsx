@@ -0,0 +1,319 @@
+import { useState } from 'react'
+import { format, parseISO, subMonths } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertTriangle, CheckCircle, Download, Lock, Upload, X } from 'lucide-react'
+import { importBankStatement, reconcileMonth, setBankLineMatch } from '@/blink/trust'
+import { loadLetterhead } from '@/blink/demandLetters'
+import { downloadLetter } from '@/lib/letterExport'
+import { monthEnd, reconcileTrustAccount, signedAmount } from '@/lib/trust'
+import { exportReconciliationToPdf } from '@/lib/trustExport'
+import type { BankStatement, TrustCase, TrustTransaction } from '@/types/trust'
+import { useToast } from '@/hooks/use-toast'
+
+interface TrustReconciliationPanelProps {
+  userId: string
+  cases: TrustCase[]
+  journal: TrustTransaction[]
+  statements: BankStatement[]
+  onStatementsChange: (statements: BankStatement[]) => void
+}
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export function TrustReconciliationPanel({
+  userId,
+  cases,
+  journal,
+  statements,
+  onStatementsChange
+}: TrustReconciliationPanelProps) {
+  const [month, setMonth] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'))
+  const [endingBalance, setEndingBalance] = useState('')
+  const [statementFile, setStatementFile] = useState<File | null>(null)
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+
+  const statement = statements.find(candidate => candidate.month === month)
+  const report = reconcileTrustAccount(month, statements, journal, cases)
+  const transactionsById = new Map(journal.map(transaction => [transaction.id, transaction]))
+  const matchedIds = new Set(statements.flatMap(candidate => candidate.lines.map(line => line.matchedTransactionId)))
+  const unmatchedJournal = journal.filter(transaction => !matchedIds.has(transaction.id) && transaction.date <= monthEnd(month))
+
+  const replaceStatement = (saved: BankStatement) =>
+    onStatementsChange([...statements.filter(candidate => candidate.id !== saved.id), saved]
+      .sort((a, b) => b.month.localeCompare(a.month)))
+
+  const handleImport = async () => {
+    if (!statementFile || endingBalance === '') {
+      toast({
+        title: "Error",
+        description: "Choose the statement CSV and enter the statement's ending balance",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setWorking(true)
+      const saved = await importBankStatement(userId, month, parseFloat(endingBalance) || 0, await statementFile.text())
+      replaceStatement(saved)
+      setStatementFile(null)
+      setEndingBalance('')
+      const matched = saved.lines.filter(line => line.matchedTransactionId).length
+      toast({
+        title: "Statement imported",
+        description: `${saved.lines.length} bank lines, ${matched} matched to the trust journal`
+      })
+    } catch (error) {
+      console.error('Error importing bank statement:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import bank statement",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleMatch = async (lineId: string, transactionId?: string) => {
+    if (!statement) return
+    try {
+      replaceStatement(await setBankLineMatch(statement, lineId, transactionId))
+    } catch (error) {
+      console.error('Error matching bank line:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the match",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleReconcile = async () => {
+    try {
+      setWorking(true)
+      replaceStatement(await reconcileMonth(userId, month, cases))
+      toast({
+        title: "Month reconciled",
+        description: `Trust transactions through ${format(parseISO(`${month}-01`), 'MMMM yyyy')} can no longer be changed`
+      })
+    } catch (error) {
+      console.error('Error reconciling month:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reconcile the month",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleDownload = async () => {
+    try {
+      const letterhead = await loadLetterhead(userId)
+      const blob = await exportReconciliationToPdf({ letterhead, reconciliation: report })
+      downloadLetter(`Trust Reconciliation - ${month}.pdf`, blob)
+    } catch (error) {
+      console.error('Error exporting reconciliation:', error)
+      toast({
+        title: "Error",
+        description: "Failed to export reconciliation report",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const balanceRow = (label: string, amount: number) => (
+    <div>
+      <p className="text-sm text-gray-600">{label}</p>
+      <p className="text-xl font-semibold">{formatCurrency(amount)}</p>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="mr-2 h-5 w-5" />
+            Bank Statement
+          </CardTitle>
+          <CardDescription>
+            {statement
+              ? `Imported ${format(parseISO(statement.importedAt), 'MMM d, yyyy')} · ${statement.lines.length} lines · ending balance ${formatCurrency(statement.endingBalance)}. Importing again replaces it.`
+              : 'Import the bank statement CSV for the month to reconcile'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="reconcile-month">Month</Label>
+              <Input id="reconcile-month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-balance">Ending balance ($)</Label>
+              <Input
+                id="statement-balance"
+                type="number"
+                step="0.01"
+                value={endingBalance}
+                onChange={(e) => setEndingBalance(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-file">Statement CSV</Label>
+              <Input
+                id="statement-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setStatementFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <Button onClick={handleImport} disabled={working}>
+              {working ? 'Importing...' : 'Import Statement'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                {report.balanced
+                  ? <CheckCircle className="mr-2 h-5 w-5 text-green-600" />
+                  : <AlertTriangle className="mr-2 h-5 w-5 text-yellow-600" />}
+                Three-Way Reconciliation · {format(parseISO(`${month}-01`), 'MMMM yyyy')}
+              </CardTitle>
+              <CardDescription>
+                {report.reconciledAt
+                  ? `Signed off ${format(parseISO(report.reconciledAt), 'MMM d, yyyy')}. The month's transactions are final.`
+                  : report.balanced
+                  ? 'The adjusted bank balance, trust journal and client ledgers agree.'
+                  : statement
+                    ? 'The balances do not agree. Review the outstanding and unmatched items below.'
+                    : 'Import this month\'s bank statement to reconcile.'}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {report.balanced && !report.reconciledAt && (
+                <Button size="sm" onClick={handleReconcile} disabled={working}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  Sign Off Month
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={handleDownload}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {balanceRow('Adjusted bank balance', report.adjustedBankBalance)}
+            {balanceRow('Trust journal', report.journalBalance)}
+            {balanceRow('Client ledgers', report.clientLedgerTotal)}
+          </div>
+          <p className="text-sm text-gray-600">
+            Bank {formatCurrency(report.bankBalance)} + deposits in transit{' '}
+            {formatCurrency(report.outstandingDeposits.reduce((sum, t) => sum + t.amount, 0))} − outstanding disbursements{' '}
+            {formatCurrency(report.outstandingDisbursements.reduce((sum, t) => sum + t.amount, 0))}
+          </p>
+          {report.openingMonth && (
+            <p className="text-sm text-gray-600">
+              The trust journal carries forward from the balance signed off for{' '}
+              {format(parseISO(`${report.openingMonth}-01`), 'MMMM yyyy')}.
+            </p>
+          )}
+
+          {report.negativeLedgers.length > 0 && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              Negative client balances: {report.negativeLedgers.map(ledger => ledger.clientName).join(', ')}
+            </div>
+          )}
+
+          {[...report.outstandingDeposits, ...report.outstandingDisbursements].length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">Outstanding items (in the journal, not yet on a statement)</h4>
+              <div className="divide-y text-sm">
+                {[...report.outstandingDeposits, ...report.outstandingDisbursements].map(transaction => (
+                  <div key={transaction.id} className="flex justify-between py-2">
+                    <span>
+                      {format(parseISO(transaction.date), 'MMM d')} · {transaction.counterparty}
+                      {transaction.reference && ` #${transaction.reference}`} · {transaction.clientName}
+                    </span>
+                    <span>{formatCurrency(signedAmount(transaction))}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {statement && (
+            <div>
+              <h4 className="font-medium mb-2">Bank statement lines</h4>
+              <div className="divide-y text-sm">
+                {statement.lines.map(line => {
+                  const matched = line.matchedTransactionId ? transactionsById.get(line.matchedTransactionId) : undefined
+                  return (
+                    <div key={line.id} className="flex items-center justify-between gap-4 py-2">
+                      <div className="min-w-0">
+                        <p className="truncate">
+                          {format(parseISO(line.date), 'MMM d')} · {line.description}
+                          {line.reference && ` #${line.reference}`}
+                        </p>
+                        {matched && (
+                          <p className="text-xs text-green-700">
+                            Matched: {matched.counterparty} · {matched.clientName}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="font-medium">{formatCurrency(line.amount)}</span>
+                        {statement.reconciledAt ? null : matched ? (
+                          <Button size="sm" variant="ghost" onClick={() => handleMatch(line.id)} title="Unmatch">
+                            <X className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Select onValueChange={(value) => handleMatch(line.id, value)}>
+                            <SelectTrigger className="w-56 h-8">
+                              <SelectValue placeholder="Match to journal..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {unmatchedJournal
+                                .filter(transaction => Math.sign(signedAmount(transaction)) === Math.sign(line.amount))
+                                .map(transaction => (
+                                  <SelectItem key={transaction.id} value={transaction.id}>
+                                    {format(parseISO(transaction.date), 'MMM d')} · {transaction.counterparty} · {formatCurrency(signedAmount(transaction))}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+              {report.unmatchedBankLines.length > 0 && (
+                <Badge className="mt-2 bg-yellow-100 text-yellow-800">
+                  {report.unmatchedBankLines.length} bank lines not in the trust journal
+                </Badge>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react'
+import { SESSION_EXPIRED_EVENT } from '@/services/api'
+import { FIRM_SESSION_EVENT, clearFirmSession, loadFirmSession } from '@/services/firm'
+import type { FirmSession } from '@/types/portal'
+
+// The firm's backend sign-in for portal work, kept in step across every card that uses it.
+// A token the server rejects is dropped, which brings the sign-in form back.
+export function useFirmSession(): FirmSession | null {
+  const [session, setSession] = useState<FirmSession | null>(loadFirmSession)
+
+  useEffect(() => {
+    const reload = () => setSession(loadFirmSession())
+    const expire = (event: Event) => clearFirmSession((event as CustomEvent<string>).detail)
+
+    window.addEventListener(FIRM_SESSION_EVENT, reload)
+    window.addEventListener(SESSION_EXPIRED_EVENT, expire)
+    window.addEventListener('storage', reload)
+    return () => {
+      window.removeEventListener(FIRM_SESSION_EVENT, reload)
+      window.removeEventListener(SESSION_EXPIRED_EVENT, expire)
+      window.removeEventListener('storage', reload)
+    }
+  }, [])
+
+  return session
+}
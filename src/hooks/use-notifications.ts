@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  countUnreadNotifications,
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeToNotifications,
+  syncDeadlineReminders
+} from '@/blink/notifications'
+import { getNotificationSettings } from '@/blink/preferences'
+import type { AppNotification } from '@/types/notification'
+
+// How often upcoming deadlines are checked for reminders while the app is open
+const DEADLINE_SYNC_INTERVAL_MS = 5 * 60 * 1000
+
+function showBrowserNotification(notification: AppNotification) {
+  if (typeof window === 'undefined' || !('Notification' in window)) return
+  if (window.Notification.permission !== 'granted') return
+  new window.Notification(notification.title, { body: notification.message, tag: notification.id })
+}
+
+export interface NotificationState {
+  notifications: AppNotification[]
+  unreadCount: number
+  markRead: (notificationId: string) => Promise<void>
+  markAllRead: () => Promise<void>
+}
+
+// Loads the user's notifications and keeps them live over the realtime channel
+export function useNotifications(userId?: string): NotificationState {
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  // Only the latest page is loaded, so the badge comes from its own count
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) return
+    try {
+      setUnreadCount(await countUnreadNotifications(userId))
+    } catch (error) {
+      console.error('Error counting unread notifications:', error)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([])
+      setUnreadCount(0)
+      return
+    }
+
+    let unsubscribe: (() => void) | undefined
+    let cancelled = false
+
+    listNotifications(userId)
+      .then(loaded => !cancelled && setNotifications(loaded))
+      .catch(error => console.error('Error loading notifications:', error))
+    refreshUnreadCount()
+
+    subscribeToNotifications(userId, async (notification) => {
+      setNotifications(prev =>
+        prev.some(existing => existing.id === notification.id) ? prev : [notification, ...prev]
+      )
+      refreshUnreadCount()
+      try {
+        const settings = await getNotificationSettings(userId)
+        if (settings.push_notifications) showBrowserNotification(notification)
+      } catch (error) {
+        console.error('Error loading notification settings:', error)
+      }
+    })
+      .then(stop => {
+        if (cancelled) stop()
+        else unsubscribe = stop
+      })
+      .catch(error => console.error('Error subscribing to notifications:', error))
+
+    const syncDeadlines = () =>
+      syncDeadlineReminders(userId).catch(error => console.error('Error syncing deadline reminders:', error))
+    syncDeadlines()
+    const timer = setInterval(syncDeadlines, DEADLINE_SYNC_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+      unsubscribe?.()
+    }
+  }, [userId, refreshUnreadCount])
+
+  const markRead = useCallback(async (notificationId: string) => {
+    const readAt = new Date().toISOString()
+    setNotifications(prev => prev.map(n => (n.id === notificationId && !n.readAt ? { ...n, readAt } : n)))
+    await markNotificationRead(notificationId)
+    await refreshUnreadCount()
+  }, [refreshUnreadCount])
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return
+    const readAt = new Date().toISOString()
+    setNotifications(prev => prev.map(n => (n.readAt ? n : { ...n, readAt })))
+    setUnreadCount(0)
+    await markAllNotificationsRead(userId)
+  }, [userId])
+
+  return {
+    notifications,
+    unreadCount,
+    markRead,
+    markAllRead
+  }
+}
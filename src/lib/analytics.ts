@@ -0,0 +1,201 @@
+import type { CaseStatusChange } from '@/types/case'
+import type { SettlementStatement } from '@/types/settlement'
+import type {
+  AnalyticsCase,
+  AnalyticsNegotiation,
+  AnalyticsRange,
+  CaseAnalytics,
+  MonthlyAnalytics,
+  StageDuration
+} from '@/types/analytics'
+
+// Keep in sync with backend/services/analytics.js.
+
+export const ANALYTICS_RANGES: Record<AnalyticsRange, { label: string; months: number }> = {
+  '1month': { label: 'Last Month', months: 1 },
+  '3months': { label: 'Last 3 Months', months: 3 },
+  '6months': { label: 'Last 6 Months', months: 6 },
+  '1year': { label: 'Last Year', months: 12 }
+}
+
+// Statuses that end a case without a settlement
+const UNSETTLED_OUTCOMES = ['closed']
+
+const DAY_MS = 86400000
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : null)
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null
+
+const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS))
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+
+// Rolling window: the same day the given number of months ago
+export function rangeStart(range: AnalyticsRange, now = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth() - ANALYTICS_RANGES[range].months, now.getDate())
+}
+
+// Every calendar month the window touches, oldest first, with nothing counted yet
+function emptyMonths(since: Date, now: Date): MonthlyAnalytics[] {
+  const months: MonthlyAnalytics[] = []
+  for (let date = new Date(since.getFullYear(), since.getMonth(), 1); date <= now; date.setMonth(date.getMonth() + 1)) {
+    months.push({
+      month: monthKey(date),
+      label: `${date.toLocaleString('en-US', { month: 'short' })} ${String(date.getFullYear()).slice(2)}`,
+      cases: 0,
+      settlements: 0,
+      revenue: 0
+    })
+  }
+  return months
+}
+
+const statusChanges = (history: CaseStatusChange[]) =>
+  history.filter(change => change.field === 'status').sort((a, b) => a.changedAt.localeCompare(b.changedAt))
+
+// First time each case entered one of the statuses
+function firstTransitions(history: CaseStatusChange[], statuses: string[]): Map<string, string> {
+  const dates = new Map<string, string>()
+  for (const change of statusChanges(history)) {
+    if (statuses.includes(change.toValue) && !dates.has(change.caseId)) {
+      dates.set(change.caseId, change.changedAt)
+    }
+  }
+  return dates
+}
+
+// Each stretch a case spent in one status, from intake or the change into it until the
+// change out of it. The last stretch is still running and has no end.
+export function stageVisits(
+  caseData: Pick<AnalyticsCase, 'id' | 'status' | 'createdAt'>,
+  history: CaseStatusChange[]
+): Array<{ status: string; enteredAt: string; leftAt?: string }> {
+  const changes = statusChanges(history).filter(change => change.caseId === caseData.id)
+  const visits: Array<{ status: string; enteredAt: string; leftAt?: string }> = []
+  let status = changes.length > 0 ? changes[0].fromValue : caseData.status
+  let enteredAt = caseData.createdAt
+  for (const change of changes) {
+    visits.push({ status, enteredAt, leftAt: change.changedAt })
+    status = change.toValue
+    enteredAt = change.changedAt
+  }
+  visits.push({ status, enteredAt })
+  return visits
+}
+
+// Average days per status over the finished stretches that match the filter, in the
+// order cases move through them
+export function timeInStage(
+  cases: Pick<AnalyticsCase, 'id' | 'status' | 'createdAt'>[],
+  history: CaseStatusChange[],
+  endedIn: (leftAt: string) => boolean = () => true
+): StageDuration[] {
+  const stages = new Map<string, number[]>()
+  const finished = cases
+    .flatMap(caseData => stageVisits(caseData, history))
+    .filter(visit => visit.leftAt && endedIn(visit.leftAt))
+    .sort((a, b) => a.enteredAt.localeCompare(b.enteredAt))
+
+  for (const visit of finished) {
+    const days = stages.get(visit.status) || []
+    days.push(daysBetween(visit.enteredAt, visit.leftAt || visit.enteredAt))
+    stages.set(visit.status, days)
+  }
+  return [...stages.entries()].map(([status, days]) => ({
+    status,
+    averageDays: Math.round((average(days) || 0) * 10) / 10,
+    visits: days.length
+  }))
+}
+
+// When each case settled: its first move to settled in the status history or, for cases
+// settled before the history was kept, when both sides approved the settlement statement
+export function settlementDates(
+  history: CaseStatusChange[],
+  statements: Pick<SettlementStatement, 'caseId' | 'lockedAt'>[]
+): Map<string, string> {
+  const dates = firstTransitions(history, ['settled'])
+  for (const statement of statements) {
+    if (statement.lockedAt && !dates.has(statement.caseId)) dates.set(statement.caseId, statement.lockedAt)
+  }
+  return dates
+}
+
+export function buildCaseAnalytics(
+  range: AnalyticsRange,
+  cases: AnalyticsCase[],
+  history: CaseStatusChange[],
+  statements: Pick<SettlementStatement, 'caseId' | 'lockedAt'>[],
+  negotiations: AnalyticsNegotiation[],
+  now = new Date()
+): CaseAnalytics {
+  const since = rangeStart(range, now)
+  const inRange = (value: string | undefined) => !!value && new Date(value) >= since && new Date(value) <= now
+
+  const settledOn = settlementDates(history, statements)
+  const endedOn = firstTransitions(history, UNSETTLED_OUTCOMES)
+  const opened = cases.filter(caseData => inRange(caseData.createdAt))
+  const settled = cases.filter(caseData => inRange(settledOn.get(caseData.id)))
+  const lost = cases.filter(caseData => !settledOn.has(caseData.id) && inRange(endedOn.get(caseData.id)))
+
+  const monthly = emptyMonths(since, now)
+  const bucket = (value: string) => monthly.find(month => month.month === monthKey(new Date(value)))
+  for (const caseData of opened) {
+    const month = bucket(caseData.createdAt)
+    if (month) month.cases++
+  }
+  for (const caseData of settled) {
+    const month = bucket(settledOn.get(caseData.id) || '')
+    if (!month) continue
+    month.settlements++
+    month.revenue += caseData.settlementAmount
+  }
+
+  const daysToSettle = settled.map(caseData =>
+    daysBetween(caseData.createdAt, settledOn.get(caseData.id) || caseData.createdAt)
+  )
+  const averageDays = average(daysToSettle)
+  const totalSettlements = settled.reduce((total, caseData) => total + caseData.settlementAmount, 0)
+
+  const byType = new Map<string, { count: number; value: number }>()
+  const byStatus = new Map<string, number>()
+  for (const caseData of opened) {
+    const type = byType.get(caseData.caseType || 'other') || { count: 0, value: 0 }
+    type.count++
+    type.value += caseData.settlementAmount
+    byType.set(caseData.caseType || 'other', type)
+    byStatus.set(caseData.status, (byStatus.get(caseData.status) || 0) + 1)
+  }
+
+  const concluded = negotiations.filter(negotiation =>
+    inRange(negotiation.updatedAt) && (negotiation.status === 'accepted' || negotiation.status === 'rejected')
+  )
+  const accepted = concluded.filter(negotiation => negotiation.status === 'accepted')
+  const recovered = average(
+    accepted
+      .filter(negotiation => negotiation.demandAmount > 0)
+      .map(negotiation => (negotiation.currentOffer / negotiation.demandAmount) * 100)
+  )
+
+  return {
+    range,
+    since: since.toISOString(),
+    newCases: opened.length,
+    openCases: opened.filter(caseData => caseData.status !== 'settled' && !UNSETTLED_OUTCOMES.includes(caseData.status)).length,
+    settledCases: settled.length,
+    totalSettlements,
+    averageSettlement: average(settled.map(caseData => caseData.settlementAmount)),
+    avgDaysToSettle: averageDays === null ? null : Math.round(averageDays),
+    fastestDaysToSettle: daysToSettle.length > 0 ? Math.min(...daysToSettle) : null,
+    slowestDaysToSettle: daysToSettle.length > 0 ? Math.max(...daysToSettle) : null,
+    successRate: percent(settled.length, settled.length + lost.length),
+    negotiationSuccess: percent(accepted.length, concluded.length),
+    demandRecovered: recovered === null ? null : Math.round(recovered * 10) / 10,
+    monthly,
+    casesByType: [...byType.entries()].map(([type, data]) => ({ type, ...data })),
+    casesByStatus: [...byStatus.entries()].map(([status, count]) => ({ status, count })),
+    timeInStage: timeInStage(cases, history, inRange)
+  }
+}
@@ -0,0 +1,75 @@
+import { addDays, format } from 'date-fns'
+import type { ActivityCode, Invoice, InvoiceLine, Timekeeper, TimeEntry } from '@/types/billing'
+
+// Keep in sync with backend/services/billing.js.
+
+// UTBMS litigation activity codes
+export const ACTIVITY_CODES: Record<ActivityCode, string> = {
+  A101: 'Plan and prepare for',
+  A102: 'Research',
+  A103: 'Draft/revise',
+  A104: 'Review/analyze',
+  A105: 'Communicate (in firm)',
+  A106: 'Communicate (with client)',
+  A107: 'Communicate (other outside counsel)',
+  A108: 'Communicate (other external)',
+  A109: 'Appear for/attend',
+  A110: 'Manage data/files',
+  A111: 'Other'
+}
+
+export const INVOICE_TERMS_DAYS = 30
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+// A member's own rate wins over the firm's standard rate
+export const resolveRate = (timekeeper: Pick<Timekeeper, 'rateOverride'> | undefined, firmRate: number) =>
+  timekeeper?.rateOverride && timekeeper.rateOverride > 0 ? timekeeper.rateOverride : firmRate
+
+// Billed in tenths of an hour, rounded up, as is customary
+export const billableHours = (minutes: number) => Math.ceil(Math.max(0, minutes) / 6) / 10
+
+export const entryAmount = (entry: Pick<TimeEntry, 'minutes' | 'rate'>) =>
+  roundCents(billableHours(entry.minutes) * entry.rate)
+
+// Whole minutes the timer has been running
+export const elapsedMinutes = (startedAt: string, now = new Date()) =>
+  Math.max(0, Math.floor((now.getTime() - new Date(startedAt).getTime()) / 60000))
+
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount)
+
+export const formatHours = (minutes: number) => `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`
+
+// Entries that can go on the next invoice: finished and not yet billed
+export const isUnbilled = (entry: TimeEntry) => !entry.invoiceId && !entry.timerStartedAt && entry.minutes > 0
+
+export function buildInvoiceLines(entries: TimeEntry[]): InvoiceLine[] {
+  return [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(entry => ({
+      timeEntryId: entry.id,
+      date: entry.date,
+      timekeeperName: entry.timekeeperName,
+      activityCode: entry.activityCode,
+      description: entry.description,
+      hours: billableHours(entry.minutes),
+      rate: entry.rate,
+      amount: entryAmount(entry)
+    }))
+}
+
+export const invoiceTotal = (lines: InvoiceLine[]) => roundCents(lines.reduce((sum, line) => sum + line.amount, 0))
+
+// INV-2024-0001, numbered per user and year
+export function nextInvoiceNumber(existing: Pick<Invoice, 'invoiceNumber'>[], date = new Date()): string {
+  const prefix = `INV-${format(date, 'yyyy')}-`
+  const last = existing
+    .map(invoice => invoice.invoiceNumber)
+    .filter(number => number.startsWith(prefix))
+    .map(number => parseInt(number.slice(prefix.length)) || 0)
+    .reduce((max, value) => Math.max(max, value), 0)
+  return `${prefix}${String(last + 1).padStart(4, '0')}`
+}
+
+export const invoiceDueDate = (issueDate: Date) => format(addDays(issueDate, INVOICE_TERMS_DAYS), 'yyyy-MM-dd')
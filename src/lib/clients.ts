@@ -0,0 +1,115 @@
+import type { CaseClientContact, Client, ClientCaseTotals, ClientInput, ContactMethod } from '@/types/client'
+
+// Keep in sync with backend/services/clients.js.
+
+export const CONTACT_METHODS: Record<ContactMethod, string> = {
+  email: 'Email',
+  phone: 'Phone call',
+  text: 'Text message',
+  mail: 'Mail'
+}
+
+export const EMPTY_CLIENT: ClientInput = {
+  name: '',
+  email: '',
+  phone: '',
+  addressLine: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  dateOfBirth: '',
+  preferredContactMethod: 'email',
+  notes: ''
+}
+
+// Case and spacing differences in a name are typing, not a different person
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase()
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+// Formatting differences in a phone number are typing as well
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '')
+
+const conflicts = (a: string | undefined, b: string | undefined) => Boolean(a && b && a !== b)
+const agrees = (a: string | undefined, b: string | undefined) => Boolean(a && b && a === b)
+
+// The client a case's contact details belong to. The names must match, nothing known about
+// the two may disagree, and the email, phone number or date of birth must agree. Family
+// members often share an email address or phone, and a shared name alone is not evidence
+// of the same person either, so without both the case gets a client of its own.
+export function findMatchingClient(clients: Client[], contact: CaseClientContact): Client | undefined {
+  const name = normalizeName(contact.clientName || '')
+  if (!name) return undefined
+
+  const email = normalizeEmail(contact.clientEmail || '')
+  const phone = normalizePhone(contact.clientPhone || '')
+  return clients.find(client =>
+    normalizeName(client.name) === name &&
+    !conflicts(normalizeEmail(client.email), email) &&
+    !conflicts(client.dateOfBirth, contact.clientDateOfBirth) &&
+    (agrees(normalizeEmail(client.email), email) ||
+      agrees(normalizePhone(client.phone || ''), phone) ||
+      agrees(client.dateOfBirth, contact.clientDateOfBirth))
+  )
+}
+
+// Details a case knows that its client record is still missing
+export function missingClientDetails(client: Client, contact: CaseClientContact): Partial<ClientInput> {
+  const updates: Partial<ClientInput> = {}
+  if (!client.email && contact.clientEmail) updates.email = contact.clientEmail.trim()
+  if (!client.phone && contact.clientPhone) updates.phone = contact.clientPhone.trim()
+  if (!client.dateOfBirth && contact.clientDateOfBirth) updates.dateOfBirth = contact.clientDateOfBirth
+  return updates
+}
+
+export function clientFromContact(contact: CaseClientContact): ClientInput {
+  const email = (contact.clientEmail || '').trim()
+  const phone = (contact.clientPhone || '').trim()
+  return {
+    ...EMPTY_CLIENT,
+    name: contact.clientName.trim().replace(/\s+/g, ' '),
+    email,
+    phone,
+    dateOfBirth: contact.clientDateOfBirth || '',
+    preferredContactMethod: !email && phone ? 'phone' : 'email'
+  }
+}
+
+// The copy of the client's contact details kept on each of their cases
+export function caseContact(client: Pick<Client, 'name' | 'email' | 'phone' | 'dateOfBirth'>): CaseClientContact {
+  return {
+    clientName: client.name,
+    clientEmail: client.email,
+    clientPhone: client.phone,
+    clientDateOfBirth: client.dateOfBirth || undefined
+  }
+}
+
+export function formatClientAddress(client: Pick<Client, 'addressLine' | 'city' | 'state' | 'postalCode'>): string {
+  const locality = [client.city, [client.state, client.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+  return [client.addressLine, locality].filter(Boolean).join(', ')
+}
+
+// Problems that stop a client being saved, or null when it can be
+export function validateClient(input: ClientInput): string | null {
+  if (!input.name.trim()) return 'Client name is required'
+  if (input.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email.trim())) return 'Enter a valid email address'
+  if (input.preferredContactMethod === 'email' && !input.email.trim()) return 'An email address is needed to contact the client by email'
+  if ((input.preferredContactMethod === 'phone' || input.preferredContactMethod === 'text') && !input.phone.trim()) {
+    return 'A phone number is needed to call or text the client'
+  }
+  if (input.preferredContactMethod === 'mail' && !input.addressLine.trim()) return 'A mailing address is needed to contact the client by mail'
+  return null
+}
+
+const CLOSED_STATUSES = ['settled', 'closed']
+
+export function summarizeClientCases(cases: { status: string; settlementAmount?: number }[]): ClientCaseTotals {
+  return {
+    totalCases: cases.length,
+    openCases: cases.filter(caseData => !CLOSED_STATUSES.includes(caseData.status)).length,
+    totalSettlements: cases
+      .filter(caseData => CLOSED_STATUSES.includes(caseData.status))
+      .reduce((total, caseData) => total + (Number(caseData.settlementAmount) || 0), 0)
+  }
+}
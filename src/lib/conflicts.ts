@@ -0,0 +1,252 @@
+import type {
+  ConflictCheckResult,
+  ConflictMatch,
+  ConflictSeverity,
+  PartyInput,
+  PartyRole,
+  RegistryEntry
+} from '@/types/conflict'
+
+// Conflict-of-interest search over every client and case party the firm has recorded.
+// Keep in sync with backend/services/conflicts.js.
+
+export const PARTY_ROLES: Record<PartyRole, string> = {
+  client: 'Client',
+  adverse_party: 'Adverse party',
+  insured: "Insurer's insured",
+  witness: 'Witness',
+  opposing_counsel: 'Opposing counsel'
+}
+
+// Sides of a case: a match across them means the firm was for someone it would now be against
+const ADVERSE_ROLES: PartyRole[] = ['adverse_party', 'insured']
+
+// Scores below this are too weak to show
+export const MATCH_THRESHOLD = 0.8
+
+// Common nicknames and the formal first name they stand for
+const NICKNAMES: Record<string, string> = {
+  bill: 'william', billy: 'william', will: 'william', willy: 'william', liam: 'william',
+  bob: 'robert', bobby: 'robert', rob: 'robert', robbie: 'robert', bert: 'robert',
+  rick: 'richard', ricky: 'richard', rich: 'richard', dick: 'richard',
+  jim: 'james', jimmy: 'james', jamie: 'james',
+  jack: 'john', johnny: 'john', jon: 'john',
+  mike: 'michael', mikey: 'michael', mick: 'michael',
+  liz: 'elizabeth', beth: 'elizabeth', betty: 'elizabeth', eliza: 'elizabeth', lisa: 'elizabeth',
+  maggie: 'margaret', peggy: 'margaret', meg: 'margaret',
+  kate: 'katherine', katie: 'katherine', kathy: 'katherine', cathy: 'katherine', catherine: 'katherine',
+  joe: 'joseph', joey: 'joseph',
+  tom: 'thomas', tommy: 'thomas',
+  chuck: 'charles', charlie: 'charles',
+  chris: 'christopher',
+  dan: 'daniel', danny: 'daniel',
+  dave: 'david',
+  ed: 'edward', eddie: 'edward', ted: 'edward',
+  tony: 'anthony',
+  jen: 'jennifer', jenny: 'jennifer',
+  pat: 'patricia', patty: 'patricia', trish: 'patricia',
+  sue: 'susan', suzy: 'susan',
+  steve: 'steven', stephen: 'steven',
+  alex: 'alexander',
+  ben: 'benjamin',
+  nick: 'nicholas',
+  matt: 'matthew',
+  andy: 'andrew', drew: 'andrew',
+  sam: 'samuel',
+  becky: 'rebecca',
+  deb: 'deborah', debbie: 'deborah',
+  tim: 'timothy',
+  greg: 'gregory',
+  larry: 'lawrence',
+  ken: 'kenneth',
+  ron: 'ronald',
+  don: 'donald',
+  jerry: 'gerald',
+  pete: 'peter',
+  vicky: 'victoria',
+  abby: 'abigail'
+}
+
+// Words that do not tell two people or companies apart
+const IGNORED_WORDS = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'jr', 'sr', 'ii', 'iii', 'iv', 'esq', 'md',
+  'the', 'inc', 'llc', 'llp', 'ltd', 'corp', 'co', 'company', 'corporation', 'pc', 'pa'
+])
+
+// Lowercase words of a name without accents, punctuation, titles or suffixes. "Smith, John"
+// is read as "John Smith".
+export function nameTokens(name: string): string[] {
+  const [last, first] = name.includes(',') ? name.split(',', 2) : [name, '']
+  return `${first} ${last}`
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !IGNORED_WORDS.has(word))
+}
+
+const formalName = (word: string) => NICKNAMES[word] || word
+
+// American Soundex: names that sound alike share a code
+export function soundex(word: string): string {
+  const codes: Record<string, string> = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3', l: '4', m: '5', n: '5', r: '6'
+  }
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (!letters) return ''
+
+  let code = letters[0].toUpperCase()
+  let previous = codes[letters[0]] || ''
+  for (const letter of letters.slice(1)) {
+    const digit = codes[letter] || ''
+    if (digit && digit !== previous) code += digit
+    // h and w do not separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') previous = digit
+  }
+  return code.padEnd(4, '0').slice(0, 4)
+}
+
+// Jaro-Winkler similarity, 0 to 1; forgives typos and transposed letters
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a || !b) return 0
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatched = new Array(a.length).fill(false)
+  const bMatched = new Array(b.length).fill(false)
+  let matches = 0
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true
+        bMatched[j] = true
+        matches++
+        break
+      }
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue
+    while (!bMatched[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+  let prefix = 0
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+// The last ten digits, so +1 (555) 123-4567 and 555.123.4567 are the same number
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-10)
+
+// How alike two names are, 0 to 1, and why
+export function compareNames(a: string, b: string): { score: number; reason: string } | null {
+  const aTokens = nameTokens(a)
+  const bTokens = nameTokens(b)
+  if (aTokens.length === 0 || bTokens.length === 0) return null
+
+  const sameWords = (x: string[], y: string[]) => x.length === y.length && [...x].sort().join(' ') === [...y].sort().join(' ')
+  if (sameWords(aTokens, bTokens)) return { score: 1, reason: 'Same name' }
+  if (sameWords(aTokens.map(formalName), bTokens.map(formalName))) return { score: 0.95, reason: 'Name variant' }
+
+  const aFirst = formalName(aTokens[0])
+  const bFirst = formalName(bTokens[0])
+  const aLast = aTokens[aTokens.length - 1]
+  const bLast = bTokens[bTokens.length - 1]
+
+  if (aTokens.length > 1 && bTokens.length > 1 && aLast === bLast &&
+      (aFirst.length === 1 || bFirst.length === 1) && aFirst[0] === bFirst[0]) {
+    return { score: 0.85, reason: 'Same last name and first initial' }
+  }
+
+  const similarity = jaroWinkler(aTokens.map(formalName).join(' '), bTokens.map(formalName).join(' '))
+  // Soundex alone would pair John with Jane, so each word must also be spelled alike
+  const soundsAlike = aTokens.length === bTokens.length && aTokens.every((word, index) => {
+    const other = formalName(bTokens[index])
+    return soundex(formalName(word)) === soundex(other) && jaroWinkler(formalName(word), other) >= 0.75
+  })
+  if (soundsAlike) return { score: Math.max(0.85, similarity), reason: 'Sounds alike' }
+  if (similarity >= 0.9) return { score: similarity, reason: 'Similar spelling' }
+  return null
+}
+
+// Whether the match puts the firm on both sides: a former client is now adverse, or
+// someone the firm was against is now the client
+export function matchSeverity(searched: PartyRole, known: PartyRole): ConflictSeverity {
+  const adverse = (role: PartyRole) => ADVERSE_ROLES.includes(role)
+  return (searched === 'client' && adverse(known)) || (adverse(searched) && known === 'client')
+    ? 'conflict'
+    : 'review'
+}
+
+export function matchParty(party: PartyInput, entry: RegistryEntry): ConflictMatch | null {
+  const reasons: string[] = []
+  let score = 0
+
+  const name = compareNames(party.name, entry.name)
+  if (name) {
+    score = name.score
+    reasons.push(name.reason)
+  }
+  if (party.email && entry.email && normalizeEmail(party.email) === normalizeEmail(entry.email)) {
+    score = 1
+    reasons.push('Same email address')
+  }
+  const phone = normalizePhone(party.phone)
+  if (phone.length >= 7 && phone === normalizePhone(entry.phone)) {
+    score = Math.max(score, 0.95)
+    reasons.push('Same phone number')
+  }
+
+  if (score < MATCH_THRESHOLD) return null
+  return {
+    party,
+    entry,
+    score: Math.round(score * 100) / 100,
+    reasons,
+    severity: matchSeverity(party.role, entry.role)
+  }
+}
+
+// Every registry entry resembling one of the parties, conflicts and closest matches first.
+// Entries in excludeIds (the client already chosen for the case) are skipped.
+export function searchConflicts(
+  parties: PartyInput[],
+  registry: RegistryEntry[],
+  excludeIds: string[] = []
+): ConflictCheckResult {
+  const searched = parties.filter(party => party.name.trim())
+  const matches = searched
+    .flatMap(party => registry
+      .filter(entry => !excludeIds.includes(entry.id))
+      .map(entry => matchParty(party, entry)))
+    .filter((match): match is ConflictMatch => match !== null)
+    .sort((a, b) => (a.severity === b.severity ? b.score - a.score : a.severity === 'conflict' ? -1 : 1))
+
+  return { parties: searched, matches, checkedAt: new Date().toISOString() }
+}
+
+// Identifies the parties a check was run for, so edits after it can be detected
+export const partiesKey = (parties: PartyInput[]) =>
+  JSON.stringify(parties.filter(party => party.name.trim()).map(party => [party.role, party.name.trim(), party.email.trim(), party.phone.trim()]))
+
+// Why a check cannot open the case yet: it was not cleared, or conflicts were cleared without a reason
+export function clearanceProblem(result: ConflictCheckResult, cleared: boolean, notes: string): string | null {
+  if (!cleared) return 'Review and clear the conflict check before opening the case'
+  if (result.matches.some(match => match.severity === 'conflict') && !notes.trim()) {
+    return 'Explain in the notes why the potential conflicts do not prevent taking the case'
+  }
+  return null
+}
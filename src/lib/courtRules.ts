@@ -0,0 +1,412 @@
+import { addDays, format, isWeekend, parseISO } from 'date-fns'
+
+// Court-rules deadline calculator. A trigger event (complaint served, hearing set,
+// judgment entered, ...) and its date produce the chain of dependent deadlines.
+// Periods are counted in calendar or court days, land on the next court day when
+// they end on a weekend or holiday (FRCP 6(a)(1)(C); backwards for "before"
+// periods, FRCP 6(a)(5)) and are extended for service by mail and similar methods.
+// Keep in sync with backend/services/courtRules.js.
+
+export type RuleSetId = 'FRCP' | 'CA'
+export type TriggerType =
+  | 'complaint_filed'
+  | 'complaint_served'
+  | 'motion_served'
+  | 'motion_hearing'
+  | 'discovery_served'
+  | 'judgment_entered'
+  | 'trial_date'
+export type ServiceMethod = 'personal' | 'electronic' | 'mail' | 'overnight'
+export type DayCount = 'calendar' | 'court'
+export type DeadlinePriority = 'low' | 'medium' | 'high' | 'urgent'
+
+export interface DeadlineRule {
+  id: string
+  ruleSet: RuleSetId
+  trigger: TriggerType
+  title: string
+  days: number
+  dayCount: DayCount
+  direction: 'after' | 'before'
+  // Counts from another deadline in the same chain instead of the trigger date
+  from?: string
+  // Whether the service-method extension applies to this period
+  serviceExtension?: boolean
+  priority: DeadlinePriority
+  citation: string
+}
+
+export interface ServiceExtension {
+  days: number
+  dayCount: DayCount
+  citation: string
+}
+
+export interface RuleSet {
+  id: RuleSetId
+  name: string
+  serviceExtensions: Partial<Record<ServiceMethod, ServiceExtension>>
+}
+
+export interface CourtHoliday {
+  date: string // yyyy-MM-dd
+  name: string
+}
+
+export interface DeadlineChainInput {
+  ruleSet: RuleSetId
+  triggerType: TriggerType
+  triggerDate: string
+  serviceMethod: ServiceMethod
+  // Court-specific closures on top of the federal legal holidays
+  holidays?: CourtHoliday[]
+}
+
+export interface ComputedDeadline {
+  rule: DeadlineRule
+  dueDate: string // yyyy-MM-dd
+  explanation: string[]
+}
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+  FRCP: {
+    id: 'FRCP',
+    name: 'Federal Rules of Civil Procedure',
+    serviceExtensions: {
+      mail: { days: 3, dayCount: 'calendar', citation: 'FRCP 6(d)' },
+      overnight: { days: 3, dayCount: 'calendar', citation: 'FRCP 6(d)' }
+    }
+  },
+  CA: {
+    id: 'CA',
+    name: 'California Code of Civil Procedure',
+    serviceExtensions: {
+      mail: { days: 5, dayCount: 'calendar', citation: 'Cal. Civ. Proc. Code § 1013(a)' },
+      overnight: { days: 2, dayCount: 'court', citation: 'Cal. Civ. Proc. Code § 1013(c)' },
+      electronic: { days: 2, dayCount: 'court', citation: 'Cal. Civ. Proc. Code § 1010.6(a)(3)(B)' }
+    }
+  }
+}
+
+export const TRIGGER_TYPES: Record<TriggerType, string> = {
+  complaint_filed: 'Complaint filed',
+  complaint_served: 'Complaint served',
+  motion_served: 'Motion served',
+  motion_hearing: 'Motion hearing date',
+  discovery_served: 'Written discovery served',
+  judgment_entered: 'Judgment entered',
+  trial_date: 'Trial date'
+}
+
+export const SERVICE_METHODS: Record<ServiceMethod, string> = {
+  personal: 'Personal service',
+  electronic: 'Electronic service',
+  mail: 'Mail',
+  overnight: 'Overnight delivery'
+}
+
+const rule = (ruleSet: RuleSetId, trigger: TriggerType, key: string, details: Omit<DeadlineRule, 'id' | 'ruleSet' | 'trigger'>): DeadlineRule => ({
+  id: `${ruleSet}:${trigger}:${key}`,
+  ruleSet,
+  trigger,
+  ...details
+})
+
+// Rules that count from another deadline must come after it
+export const DEADLINE_RULES: DeadlineRule[] = [
+  rule('FRCP', 'complaint_filed', 'service', {
+    title: 'Serve summons and complaint',
+    days: 90, dayCount: 'calendar', direction: 'after', priority: 'high',
+    citation: 'FRCP 4(m)'
+  }),
+  rule('FRCP', 'complaint_served', 'answer', {
+    title: 'Answer or Rule 12 motion due',
+    days: 21, dayCount: 'calendar', direction: 'after', priority: 'urgent',
+    citation: 'FRCP 12(a)(1)(A)(i)'
+  }),
+  rule('FRCP', 'complaint_served', 'removal', {
+    title: 'Removal window closes',
+    days: 30, dayCount: 'calendar', direction: 'after', priority: 'medium',
+    citation: '28 U.S.C. § 1446(b)(1)'
+  }),
+  rule('FRCP', 'motion_served', 'response', {
+    title: 'Response to motion due',
+    days: 14, dayCount: 'calendar', direction: 'after', serviceExtension: true, priority: 'high',
+    citation: 'Typical local rule period - verify the district\'s local rules'
+  }),
+  rule('FRCP', 'motion_served', 'reply', {
+    title: 'Reply in support of motion due',
+    days: 7, dayCount: 'calendar', direction: 'after', from: 'FRCP:motion_served:response', serviceExtension: true, priority: 'medium',
+    citation: 'Typical local rule period - verify the district\'s local rules'
+  }),
+  rule('FRCP', 'motion_hearing', 'notice', {
+    title: 'Serve motion and notice of hearing',
+    days: 14, dayCount: 'calendar', direction: 'before', priority: 'high',
+    citation: 'FRCP 6(c)(1)'
+  }),
+  rule('FRCP', 'motion_hearing', 'opposition', {
+    title: 'Serve opposing affidavits',
+    days: 7, dayCount: 'calendar', direction: 'before', priority: 'high',
+    citation: 'FRCP 6(c)(2)'
+  }),
+  rule('FRCP', 'discovery_served', 'interrogatories', {
+    title: 'Interrogatory answers due',
+    days: 30, dayCount: 'calendar', direction: 'after', serviceExtension: true, priority: 'high',
+    citation: 'FRCP 33(b)(2)'
+  }),
+  rule('FRCP', 'discovery_served', 'production', {
+    title: 'Responses to requests for production due',
+    days: 30, dayCount: 'calendar', direction: 'after', serviceExtension: true, priority: 'high',
+    citation: 'FRCP 34(b)(2)(A)'
+  }),
+  rule('FRCP', 'discovery_served', 'admissions', {
+    title: 'Responses to requests for admission due',
+    days: 30, dayCount: 'calendar', direction: 'after', serviceExtension: true, priority: 'urgent',
+    citation: 'FRCP 36(a)(3)'
+  }),
+  rule('FRCP', 'judgment_entered', 'post_trial', {
+    title: 'Renewed JMOL / new trial / alter or amend motion due',
+    days: 28, dayCount: 'calendar', direction: 'after', priority: 'urgent',
+    citation: 'FRCP 50(b), 59(b), 59(e)'
+  }),
+  rule('FRCP', 'judgment_entered', 'fees', {
+    title: 'Motion for attorney\'s fees due',
+    days: 14, dayCount: 'calendar', direction: 'after', priority: 'high',
+    citation: 'FRCP 54(d)(2)(B)(i)'
+  }),
+  rule('FRCP', 'judgment_entered', 'appeal', {
+    title: 'Notice of appeal due',
+    days: 30, dayCount: 'calendar', direction: 'after', priority: 'urgent',
+    citation: 'FRAP 4(a)(1)(A)'
+  }),
+  rule('FRCP', 'trial_date', 'experts', {
+    title: 'Expert disclosures due',
+    days: 90, dayCount: 'calendar', direction: 'before', priority: 'high',
+    citation: 'FRCP 26(a)(2)(D)(i)'
+  }),
+  rule('FRCP', 'trial_date', 'rebuttal_experts', {
+    title: 'Rebuttal expert disclosures due',
+    days: 30, dayCount: 'calendar', direction: 'after', from: 'FRCP:trial_date:experts', serviceExtension: true, priority: 'high',
+    citation: 'FRCP 26(a)(2)(D)(ii)'
+  }),
+  rule('FRCP', 'trial_date', 'pretrial_disclosures', {
+    title: 'Pretrial disclosures due',
+    days: 30, dayCount: 'calendar', direction: 'before', priority: 'high',
+    citation: 'FRCP 26(a)(3)(B)'
+  }),
+  rule('FRCP', 'trial_date', 'pretrial_objections', {
+    title: 'Objections to pretrial disclosures due',
+    days: 14, dayCount: 'calendar', direction: 'after', from: 'FRCP:trial_date:pretrial_disclosures', serviceExtension: true, priority: 'medium',
+    citation: 'FRCP 26(a)(3)(B)'
+  }),
+  rule('CA', 'complaint_filed', 'proof_of_service', {
+    title: 'File proof of service of summons',
+    days: 60, dayCount: 'calendar', direction: 'after', priority: 'high',
+    citation: 'Cal. Rules of Court, rule 3.110(b)'
+  }),
+  rule('CA', 'complaint_served', 'answer', {
+    title: 'Answer or demurrer due',
+    days: 30, dayCount: 'calendar', direction: 'after', priority: 'urgent',
+    citation: 'Cal. Civ. Proc. Code § 412.20(a)(3)'
+  }),
+  rule('CA', 'motion_hearing', 'notice', {
+    title: 'Serve and file moving papers',
+    days: 16, dayCount: 'court', direction: 'before', serviceExtension: true, priority: 'high',
+    citation: 'Cal. Civ. Proc. Code § 1005(b)'
+  }),
+  rule('CA', 'motion_hearing', 'opposition', {
+    title: 'Opposition papers due',
+    days: 9, dayCount: 'court', direction: 'before', priority: 'high',
+    citation: 'Cal. Civ. Proc. Code § 1005(b)'
+  }),
+  rule('CA', 'motion_hearing', 'reply', {
+    title: 'Reply papers due',
+    days: 5, dayCount: 'court', direction: 'before', priority: 'medium',
+    citation: 'Cal. Civ. Proc. Code § 1005(b)'
+  }),
+  rule('CA', 'discovery_served', 'interrogatories', {
+    title: 'Interrogatory responses due',
+    days: 30, dayCount: 'calendar', direction: 'after', serviceExtension: true, priority: 'high',
+    citation: 'Cal. Civ. Proc. Code § 2030.260(a)'
+  }),
+  rule('CA', 'discovery_served', 'production', {
+    title: 'Responses to demands for inspection due',
+    days: 30, dayCount: 'calendar', direction: 'after', serviceExtension: true, priority: 'high',
+    citation: 'Cal. Civ. Proc. Code § 2031.260(a)'
+  }),
+  rule('CA', 'discovery_served', 'admissions', {
+    title: 'Responses to requests for admission due',
+    days: 30, dayCount: 'calendar', direction: 'after', serviceExtension: true, priority: 'urgent',
+    citation: 'Cal. Civ. Proc. Code § 2033.250(a)'
+  }),
+  rule('CA', 'judgment_entered', 'new_trial', {
+    title: 'Notice of intention to move for new trial due',
+    days: 15, dayCount: 'calendar', direction: 'after', priority: 'urgent',
+    citation: 'Cal. Civ. Proc. Code § 659(a)(2)'
+  }),
+  rule('CA', 'judgment_entered', 'costs', {
+    title: 'Memorandum of costs due',
+    days: 15, dayCount: 'calendar', direction: 'after', serviceExtension: true, priority: 'high',
+    citation: 'Cal. Rules of Court, rule 3.1700(a)(1)'
+  }),
+  rule('CA', 'judgment_entered', 'appeal', {
+    title: 'Notice of appeal due',
+    days: 60, dayCount: 'calendar', direction: 'after', priority: 'urgent',
+    citation: 'Cal. Rules of Court, rule 8.104(a)(1)(B)'
+  }),
+  rule('CA', 'trial_date', 'summary_judgment', {
+    title: 'Last day to hear summary judgment motion',
+    days: 30, dayCount: 'calendar', direction: 'before', priority: 'high',
+    citation: 'Cal. Civ. Proc. Code § 437c(a)(3)'
+  }),
+  rule('CA', 'trial_date', 'experts', {
+    title: 'Expert witness information exchange',
+    days: 50, dayCount: 'calendar', direction: 'before', priority: 'high',
+    citation: 'Cal. Civ. Proc. Code § 2034.230(b)'
+  }),
+  rule('CA', 'trial_date', 'supplemental_experts', {
+    title: 'Supplemental expert witness list due',
+    days: 20, dayCount: 'calendar', direction: 'after', from: 'CA:trial_date:experts', priority: 'medium',
+    citation: 'Cal. Civ. Proc. Code § 2034.280(a)'
+  }),
+  rule('CA', 'trial_date', 'discovery_cutoff', {
+    title: 'Discovery cutoff',
+    days: 30, dayCount: 'calendar', direction: 'before', priority: 'high',
+    citation: 'Cal. Civ. Proc. Code § 2024.020(a)'
+  }),
+  rule('CA', 'trial_date', 'discovery_motions', {
+    title: 'Last day to hear discovery motions',
+    days: 15, dayCount: 'calendar', direction: 'before', priority: 'medium',
+    citation: 'Cal. Civ. Proc. Code § 2024.020(a)'
+  })
+]
+
+export function getRulesForTrigger(ruleSet: RuleSetId, triggerType: TriggerType): DeadlineRule[] {
+  return DEADLINE_RULES.filter(item => item.ruleSet === ruleSet && item.trigger === triggerType)
+}
+
+// Trigger events that have rules in the rule set
+export function getTriggerTypes(ruleSet: RuleSetId): TriggerType[] {
+  return (Object.keys(TRIGGER_TYPES) as TriggerType[]).filter(type => getRulesForTrigger(ruleSet, type).length > 0)
+}
+
+// State courts follow the state's rules; everything else defaults to the federal rules
+export function getDefaultRuleSet(jurisdiction?: string): RuleSetId {
+  return jurisdiction?.toUpperCase() === 'CA' ? 'CA' : 'FRCP'
+}
+
+const formatDate = (date: Date) => format(date, 'yyyy-MM-dd')
+
+// n-th weekday (0 = Sunday) of a month; n = -1 is the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = new Date(year, month + 1, 0)
+    return addDays(last, -((last.getDay() - weekday + 7) % 7))
+  }
+  const first = new Date(year, month, 1)
+  return addDays(first, ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7)
+}
+
+// Fixed-date holidays falling on a weekend are observed on the Friday before or Monday after
+function observed(year: number, month: number, day: number): Date {
+  const date = new Date(year, month, day)
+  if (date.getDay() === 6) return addDays(date, -1)
+  if (date.getDay() === 0) return addDays(date, 1)
+  return date
+}
+
+// Federal legal holidays (5 U.S.C. § 6103), which are also court holidays under FRCP 6(a)(6)
+export function getFederalHolidays(year: number): CourtHoliday[] {
+  return [
+    { date: observed(year, 0, 1), name: "New Year's Day" },
+    { date: nthWeekday(year, 0, 1, 3), name: 'Martin Luther King Jr. Day' },
+    { date: nthWeekday(year, 1, 1, 3), name: "Washington's Birthday" },
+    { date: nthWeekday(year, 4, 1, -1), name: 'Memorial Day' },
+    { date: observed(year, 5, 19), name: 'Juneteenth' },
+    { date: observed(year, 6, 4), name: 'Independence Day' },
+    { date: nthWeekday(year, 8, 1, 1), name: 'Labor Day' },
+    { date: nthWeekday(year, 9, 1, 2), name: 'Columbus Day' },
+    { date: observed(year, 10, 11), name: 'Veterans Day' },
+    { date: nthWeekday(year, 10, 4, 4), name: 'Thanksgiving Day' },
+    { date: observed(year, 11, 25), name: 'Christmas Day' }
+  ].map(holiday => ({ date: formatDate(holiday.date), name: holiday.name }))
+}
+
+function createHolidayLookup(custom: CourtHoliday[] = []) {
+  const names = new Map(custom.map(holiday => [holiday.date, holiday.name]))
+  const loadedYears = new Set<number>()
+
+  return (date: Date): string | undefined => {
+    // New Year's Day can be observed on Dec 31 of the year before
+    for (const year of [date.getFullYear(), date.getFullYear() + 1]) {
+      if (loadedYears.has(year)) continue
+      loadedYears.add(year)
+      getFederalHolidays(year).forEach(holiday => {
+        if (!names.has(holiday.date)) names.set(holiday.date, holiday.name)
+      })
+    }
+    return names.get(formatDate(date))
+  }
+}
+
+function describeDays(days: number, dayCount: DayCount) {
+  return `${days} ${dayCount === 'court' ? 'court ' : ''}day${days === 1 ? '' : 's'}`
+}
+
+export function generateDeadlineChain(input: DeadlineChainInput): ComputedDeadline[] {
+  const triggerDate = parseISO(input.triggerDate.slice(0, 10))
+  if (isNaN(triggerDate.getTime())) return []
+
+  const holidayName = createHolidayLookup(input.holidays)
+  const closedReason = (date: Date) => holidayName(date) || (isWeekend(date) ? format(date, 'EEEE') : undefined)
+
+  const count = (start: Date, days: number, dayCount: DayCount, step: number) => {
+    if (dayCount === 'calendar') return addDays(start, days * step)
+    let date = start
+    for (let remaining = days; remaining > 0; ) {
+      date = addDays(date, step)
+      if (!closedReason(date)) remaining--
+    }
+    return date
+  }
+
+  // A period ending on a day the court is closed runs to the next court day in the
+  // direction of counting
+  const roll = (date: Date, step: number, explanation: string[]) => {
+    const reason = closedReason(date)
+    if (!reason) return date
+    let next = date
+    while (closedReason(next)) next = addDays(next, step)
+    explanation.push(`${formatDate(date)} is ${reason === format(date, 'EEEE') ? 'a ' : ''}${reason}; moved to ${step > 0 ? 'the next' : 'the previous'} court day.`)
+    return next
+  }
+
+  const extension = RULE_SETS[input.ruleSet].serviceExtensions[input.serviceMethod]
+  const computed = new Map<string, ComputedDeadline>()
+
+  getRulesForTrigger(input.ruleSet, input.triggerType).forEach(deadlineRule => {
+    const base = deadlineRule.from ? computed.get(deadlineRule.from) : undefined
+    if (deadlineRule.from && !base) return
+
+    const step = deadlineRule.direction === 'after' ? 1 : -1
+    const start = base ? parseISO(base.dueDate) : triggerDate
+    const startLabel = base ? base.rule.title.toLowerCase() : TRIGGER_TYPES[input.triggerType].toLowerCase()
+    const explanation = [
+      `${describeDays(deadlineRule.days, deadlineRule.dayCount)} ${deadlineRule.direction} ${startLabel} on ${formatDate(start)} (${deadlineRule.citation}).`
+    ]
+
+    let due = roll(count(start, deadlineRule.days, deadlineRule.dayCount, step), step, explanation)
+
+    if (deadlineRule.serviceExtension && extension) {
+      due = count(due, extension.days, extension.dayCount, step)
+      explanation.push(
+        `${describeDays(extension.days, extension.dayCount)} ${step > 0 ? 'added' : 'earlier'} for ${SERVICE_METHODS[input.serviceMethod].toLowerCase()} (${extension.citation}).`
+      )
+      due = roll(due, step, explanation)
+    }
+
+    computed.set(deadlineRule.id, { rule: deadlineRule, dueDate: formatDate(due), explanation })
+  })
+
+  return Array.from(computed.values())
+}
@@ -0,0 +1,141 @@
+import type {
+  DamageCategory,
+  DamagesCalculation,
+  DamagesInput,
+  GeneralDamagesMethod
+} from '@/types/damages'
+
+export const DAMAGE_CATEGORIES: Record<DamageCategory, string> = {
+  medical: 'Medical specials',
+  lost_wages: 'Lost wages',
+  future_care: 'Future care',
+  other: 'Other economic'
+}
+
+export const GENERAL_DAMAGES_METHODS: Record<GeneralDamagesMethod, string> = {
+  multiplier: 'Multiplier of medical specials',
+  per_diem: 'Per diem'
+}
+
+export const DEFAULT_DAMAGES_INPUT: DamagesInput = {
+  items: [],
+  liens: [],
+  generalMethod: 'multiplier',
+  multiplier: 3,
+  perDiemRate: 100,
+  perDiemDays: 0,
+  comparativeFaultPercent: 0,
+  goalPercent: 80
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+const nonNegative = (value: number) => (Number.isFinite(value) && value > 0 ? value : 0)
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+export function calculateDamages(input: DamagesInput): DamagesCalculation {
+  const specials = Object.fromEntries(
+    Object.keys(DAMAGE_CATEGORIES).map(category => [
+      category,
+      sum(input.items.filter(item => item.category === category).map(item => nonNegative(item.amount)))
+    ])
+  ) as Record<DamageCategory, number>
+
+  const economicTotal = sum(Object.values(specials))
+  const generalDamages = input.generalMethod === 'multiplier'
+    ? specials.medical * nonNegative(input.multiplier)
+    : nonNegative(input.perDiemRate) * Math.floor(nonNegative(input.perDiemDays))
+
+  const grossTotal = economicTotal + generalDamages
+  const faultPercent = Math.min(100, nonNegative(input.comparativeFaultPercent))
+  const faultReduction = grossTotal * faultPercent / 100
+  const caseValue = grossTotal - faultReduction
+  const lienTotal = sum(input.liens.map(lien => nonNegative(lien.amount)))
+
+  return {
+    specials,
+    economicTotal: roundCents(economicTotal),
+    generalDamages: roundCents(generalDamages),
+    grossTotal: roundCents(grossTotal),
+    faultReduction: roundCents(faultReduction),
+    caseValue: roundCents(caseValue),
+    settlementGoal: Math.round(caseValue * Math.min(100, nonNegative(input.goalPercent)) / 100),
+    lienTotal: roundCents(lienTotal),
+    netAfterLiens: roundCents(caseValue - lienTotal)
+  }
+}
+
+export interface SettlementRange {
+  minimum: number
+  target: number
+  maximum: number
+}
+
+// The floor covers the fault-reduced economic losses and every lien; the target is the
+// settlement goal and the ceiling the full case value
+export function getSettlementRange(input: DamagesInput, calculation: DamagesCalculation): SettlementRange {
+  const faultShare = 1 - Math.min(100, nonNegative(input.comparativeFaultPercent)) / 100
+  const minimum = Math.round(Math.max(calculation.economicTotal * faultShare, calculation.lienTotal))
+  const maximum = Math.round(calculation.caseValue)
+  return {
+    minimum: Math.min(minimum, maximum),
+    target: Math.min(Math.max(calculation.settlementGoal, minimum), maximum),
+    maximum
+  }
+}
+
+const formatCurrency = (amount: number) => `$${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+
+// Human-readable differences between two revisions, for the audit trail
+export function describeDamagesChanges(previous: DamagesInput | null, next: DamagesInput): string[] {
+  const before = previous || DEFAULT_DAMAGES_INPUT
+  const changes: string[] = []
+
+  for (const item of next.items) {
+    const old = before.items.find(candidate => candidate.id === item.id)
+    const label = `${DAMAGE_CATEGORIES[item.category]} "${item.description}"`
+    if (!old) {
+      changes.push(`Added ${label}: ${formatCurrency(item.amount)}`)
+    } else if (old.amount !== item.amount || old.description !== item.description || old.category !== item.category) {
+      changes.push(`Changed ${label}: ${formatCurrency(old.amount)} → ${formatCurrency(item.amount)}`)
+    }
+  }
+  for (const item of before.items) {
+    if (!next.items.some(candidate => candidate.id === item.id)) {
+      changes.push(`Removed ${DAMAGE_CATEGORIES[item.category]} "${item.description}": ${formatCurrency(item.amount)}`)
+    }
+  }
+
+  for (const lien of next.liens) {
+    const old = before.liens.find(candidate => candidate.id === lien.id)
+    if (!old) {
+      changes.push(`Added lien ${lien.holder}: ${formatCurrency(lien.amount)}`)
+    } else if (old.amount !== lien.amount || old.holder !== lien.holder) {
+      changes.push(`Changed lien ${lien.holder}: ${formatCurrency(old.amount)} → ${formatCurrency(lien.amount)}`)
+    }
+  }
+  for (const lien of before.liens) {
+    if (!next.liens.some(candidate => candidate.id === lien.id)) {
+      changes.push(`Removed lien ${lien.holder}: ${formatCurrency(lien.amount)}`)
+    }
+  }
+
+  if (before.generalMethod !== next.generalMethod) {
+    changes.push(`General damages method: ${GENERAL_DAMAGES_METHODS[before.generalMethod]} → ${GENERAL_DAMAGES_METHODS[next.generalMethod]}`)
+  }
+  if (before.multiplier !== next.multiplier) {
+    changes.push(`Multiplier: ${before.multiplier}× → ${next.multiplier}×`)
+  }
+  if (before.perDiemRate !== next.perDiemRate) {
+    changes.push(`Per diem rate: ${formatCurrency(before.perDiemRate)} → ${formatCurrency(next.perDiemRate)}`)
+  }
+  if (before.perDiemDays !== next.perDiemDays) {
+    changes.push(`Per diem days: ${before.perDiemDays} → ${next.perDiemDays}`)
+  }
+  if (before.comparativeFaultPercent !== next.comparativeFaultPercent) {
+    changes.push(`Comparative fault: ${before.comparativeFaultPercent}% → ${next.comparativeFaultPercent}%`)
+  }
+  if (before.goalPercent !== next.goalPercent) {
+    changes.push(`Settlement goal: ${before.goalPercent}% → ${next.goalPercent}% of case value`)
+  }
+  return changes
+}
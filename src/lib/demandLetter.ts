@@ -0,0 +1,160 @@
+import { addDays, format, parseISO } from 'date-fns'
+import type { Case, Document } from '@/types/case'
+import type { DemandLetterSection, DemandLetterTemplate, Letterhead, MedicalSpecial } from '@/types/demandLetter'
+
+// Days the insurer is given to respond to the demand
+const RESPONSE_DAYS = 30
+
+export const MERGE_FIELDS: Record<string, string> = {
+  'today': "Today's date",
+  'firm.name': 'Firm name',
+  'firm.address': 'Firm address',
+  'firm.phone': 'Firm phone',
+  'firm.email': 'Firm email',
+  'attorney.name': 'Attorney name',
+  'attorney.title': 'Attorney title',
+  'client.name': 'Client name',
+  'client.email': 'Client email',
+  'client.phone': 'Client phone',
+  'case.number': 'Case number',
+  'case.type': 'Case type',
+  'case.incidentDate': 'Date of loss',
+  'case.description': 'Case description',
+  'case.jurisdiction': 'Jurisdiction',
+  'insurance.company': 'Insurance company',
+  'insurance.claimNumber': 'Claim number',
+  'damages.medicalItemized': 'Itemized medical specials',
+  'damages.medicalTotal': 'Total medical specials',
+  'demand.amount': 'Demand amount',
+  'demand.responseDeadline': 'Response deadline'
+}
+
+export const STANDARD_TEMPLATE: DemandLetterTemplate = {
+  id: 'builtin_standard',
+  name: 'Standard demand',
+  description: 'Pre-suit policy demand with itemized medical specials',
+  builtIn: true,
+  sections: [
+    {
+      key: 'recipient',
+      title: 'Recipient',
+      showHeading: false,
+      body: '{{insurance.company}}\nAttn: Claims Department\n\nRe:  Claim Number: {{insurance.claimNumber}}\n       Claimant: {{client.name}}\n       Date of Loss: {{case.incidentDate}}'
+    },
+    {
+      key: 'introduction',
+      title: 'Introduction',
+      showHeading: false,
+      body: 'Dear Claims Representative:\n\nThis firm represents {{client.name}} in connection with the {{case.type}} on {{case.incidentDate}}. Please accept this letter as our formal demand for settlement of all claims arising from this incident.'
+    },
+    {
+      key: 'facts',
+      title: 'Facts and Liability',
+      showHeading: true,
+      body: '{{case.description}}'
+    },
+    {
+      key: 'damages',
+      title: 'Damages',
+      showHeading: true,
+      body: 'Our client has incurred the following medical expenses to date:\n\n{{damages.medicalItemized}}\n\nTotal medical specials: {{damages.medicalTotal}}'
+    },
+    {
+      key: 'demand',
+      title: 'Demand',
+      showHeading: true,
+      body: 'In consideration of the foregoing, we demand {{demand.amount}} in full and final settlement of all claims. This demand will remain open until {{demand.responseDeadline}}.'
+    },
+    {
+      key: 'closing',
+      title: 'Closing',
+      showHeading: false,
+      body: 'Sincerely,\n\n\n{{attorney.name}}\n{{attorney.title}}\n{{firm.name}}'
+    }
+  ]
+}
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date?: string) => (date ? format(parseISO(date), 'MMMM d, yyyy') : '')
+
+// Bills state their balance next to a label such as "Total charges" or "Amount due"
+const BILLED_AMOUNT = /(?:total(?:\s+charges)?|amount\s+due|balance(?:\s+due)?|charges)\D{0,20}\$\s?([\d,]+(?:\.\d{2})?)/gi
+
+// The largest labelled amount in each medical document's text is taken as its bill
+export function extractMedicalSpecials(documents: Document[]): MedicalSpecial[] {
+  const specials: MedicalSpecial[] = []
+  for (const doc of documents) {
+    if (doc.category !== 'medical' || !doc.extractedText) continue
+
+    const amounts = [...doc.extractedText.matchAll(BILLED_AMOUNT)]
+      .map(match => Number(match[1].replace(/,/g, '')))
+      .filter(amount => amount > 0)
+    if (amounts.length === 0) continue
+
+    specials.push({
+      documentId: doc.id,
+      description: doc.fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' '),
+      amount: Math.max(...amounts)
+    })
+  }
+  return specials
+}
+
+export interface MergeInput {
+  caseData: Case
+  letterhead: Letterhead
+  attorney: { name: string; title: string }
+  specials: MedicalSpecial[]
+  demandAmount?: number
+  date?: Date
+}
+
+export function buildMergeData(input: MergeInput): Record<string, string> {
+  const { caseData, letterhead, attorney, specials, demandAmount } = input
+  const date = input.date || new Date()
+  const medicalTotal = specials.reduce((sum, special) => sum + special.amount, 0)
+
+  return {
+    'today': format(date, 'MMMM d, yyyy'),
+    'firm.name': letterhead.firmName,
+    'firm.address': letterhead.address,
+    'firm.phone': letterhead.phone,
+    'firm.email': letterhead.email,
+    'attorney.name': attorney.name,
+    'attorney.title': attorney.title,
+    'client.name': caseData.clientName,
+    'client.email': caseData.clientEmail,
+    'client.phone': caseData.clientPhone,
+    'case.number': caseData.caseNumber,
+    'case.type': caseData.caseType ? caseData.caseType.replace(/_/g, ' ') : '',
+    'case.incidentDate': formatDate(caseData.incidentDate),
+    'case.description': caseData.description,
+    'case.jurisdiction': caseData.jurisdiction || '',
+    'insurance.company': caseData.insuranceCompany,
+    'insurance.claimNumber': caseData.claimNumber || '',
+    'damages.medicalItemized': specials
+      .map(special => `• ${special.description}: ${formatCurrency(special.amount)}`)
+      .join('\n'),
+    'damages.medicalTotal': specials.length > 0 ? formatCurrency(medicalTotal) : '',
+    'demand.amount': demandAmount ? formatCurrency(demandAmount) : '',
+    'demand.responseDeadline': format(addDays(date, RESPONSE_DAYS), 'MMMM d, yyyy')
+  }
+}
+
+const MERGE_FIELD = /\{\{\s*([\w.]+)\s*\}\}/g
+
+// Fields without a value stay visible as [field] so the reviewer can fill them in
+export function mergeFields(text: string, data: Record<string, string>): string {
+  return text.replace(MERGE_FIELD, (_, field: string) => data[field] || `[${field}]`)
+}
+
+export function mergeTemplate(template: DemandLetterTemplate, data: Record<string, string>): DemandLetterSection[] {
+  return template.sections.map(section => ({ ...section, body: mergeFields(section.body, data) }))
+}
+
+// Placeholders left in merged text, e.g. "[insurance.claimNumber]"
+export function findUnresolvedFields(text: string): string[] {
+  return [...new Set([...text.matchAll(/\[([\w]+\.[\w]+|today)\]/g)].map(match => match[1]))]
+}
@@ -0,0 +1,39 @@
+import type {
+  DocumentRequest,
+  DocumentRequestStatus,
+  DocumentShare,
+  ShareStatus
+} from '@/types/documentShare'
+
+// Sharing case documents with clients. Keep in sync with backend/services/documentSharing.js.
+
+// Types the backend files documents under (documents.document_type); requests use them too
+export const DOCUMENT_TYPES: Record<string, string> = {
+  contract: 'Contracts',
+  medical_record: 'Medical Records',
+  police_report: 'Police Report',
+  insurance_doc: 'Insurance Documents',
+  correspondence: 'Correspondence',
+  photo: 'Photos',
+  receipt: 'Receipts',
+  other: 'Other'
+}
+
+export function shareStatus(share: Pick<DocumentShare, 'expiresAt' | 'revokedAt'>, now = new Date()): ShareStatus {
+  if (share.revokedAt) return 'revoked'
+  if (share.expiresAt && new Date(share.expiresAt) <= now) return 'expired'
+  return 'active'
+}
+
+export const isShareActive = (share: Pick<DocumentShare, 'expiresAt' | 'revokedAt'>, now = new Date()) =>
+  shareStatus(share, now) === 'active'
+
+// A share picked to end on a date stays open through the end of that day
+export const shareExpiryFromDate = (date: string) =>
+  date ? new Date(`${date}T23:59:59`).toISOString() : null
+
+export function requestStatus(request: Pick<DocumentRequest, 'fulfilledAt' | 'cancelledAt'>): DocumentRequestStatus {
+  if (request.cancelledAt) return 'cancelled'
+  if (request.fulfilledAt) return 'fulfilled'
+  return 'open'
+}
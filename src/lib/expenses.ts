@@ -0,0 +1,41 @@
+import type { CaseExpense, ExpenseCategory, ExpenseTotals } from '@/types/expense'
+
+// Keep in sync with backend/services/expenses.js.
+
+export const EXPENSE_CATEGORIES: Record<ExpenseCategory, string> = {
+  filing_fee: 'Filing fees',
+  service: 'Service of process',
+  records: 'Record retrieval',
+  expert: 'Expert fees',
+  deposition: 'Depositions and transcripts',
+  travel: 'Travel',
+  other: 'Other'
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+const nonNegative = (value: number) => (Number.isFinite(value) && value > 0 ? value : 0)
+
+export function summarizeExpenses(expenses: Pick<CaseExpense, 'category' | 'amount' | 'billable' | 'reimbursable'>[]): ExpenseTotals {
+  const byCategory = Object.fromEntries(
+    Object.keys(EXPENSE_CATEGORIES).map(category => [category, 0])
+  ) as Record<ExpenseCategory, number>
+  const totals = { total: 0, billable: 0, reimbursable: 0 }
+
+  for (const expense of expenses) {
+    const amount = nonNegative(expense.amount)
+    totals.total += amount
+    if (expense.billable) totals.billable += amount
+    if (expense.reimbursable) totals.reimbursable += amount
+    byCategory[expense.category in byCategory ? expense.category : 'other'] += amount
+  }
+
+  for (const category of Object.keys(byCategory) as ExpenseCategory[]) {
+    byCategory[category] = roundCents(byCategory[category])
+  }
+  return {
+    total: roundCents(totals.total),
+    billable: roundCents(totals.billable),
+    reimbursable: roundCents(totals.reimbursable),
+    byCategory
+  }
+}
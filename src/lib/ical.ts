@@ -0,0 +1,378 @@
+import { endOfDay, format } from 'date-fns'
+import { formatExceptions, formatICalUtc, parseExceptions, parseICalDate, parseRRule } from '@/lib/recurrence'
+import type { CalendarEvent, CalendarEventInput } from '@/types/calendar'
+
+// iCalendar (RFC 5545) serialization for calendar events and case deadlines,
+// and parsing of VEVENTs from .ics files exported by Outlook / Google Calendar.
+
+export interface ICalEvent {
+  uid: string
+  summary: string
+  description?: string
+  location?: string
+  start: Date
+  end?: Date
+  allDay?: boolean
+  categories?: string[]
+  rrule?: string
+  exdates?: Date[]
+  priority?: CalendarEvent['priority']
+  caseNumber?: string // X-CASE-NUMBER, so exported files import back onto the same case
+}
+
+export interface ICalCase {
+  id: string
+  caseNumber: string
+}
+
+// Minimal shape of the per-case deadlines shown on the CaseDetail timeline
+export interface ICalDeadline {
+  id: string
+  title: string
+  description: string
+  dueDate: string
+  priority: 'low' | 'medium' | 'high' | 'urgent'
+  type: 'deadline' | 'milestone' | 'reminder'
+  completed: boolean
+}
+
+const PRODUCT_ID = '-//AI Legal Case Manager//Calendar//EN'
+
+const EVENT_TYPE_LABELS: Record<CalendarEvent['event_type'], string> = {
+  meeting: 'Meeting',
+  court: 'Court',
+  deadline: 'Deadline',
+  consultation: 'Consultation',
+  deposition: 'Deposition',
+  other: 'Other'
+}
+
+// Keywords checked against CATEGORIES first, then the summary, to pick an event_type
+const EVENT_TYPE_KEYWORDS: Array<[CalendarEvent['event_type'], RegExp]> = [
+  ['deposition', /\bdepos/i],
+  ['court', /\b(court|hearing|trial|motion|arraignment|mediation|conference)\b/i],
+  ['deadline', /\b(deadline|due|filing|statute|sol)\b/i],
+  ['consultation', /\b(consult|consultation|intake)\b/i],
+  ['meeting', /\b(meeting|call|sync)\b/i]
+]
+
+// iCalendar PRIORITY: 1 is highest, 9 lowest, 0 undefined
+const PRIORITY_VALUES: Record<CalendarEvent['priority'], number> = { high: 1, medium: 5, low: 9 }
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function formatICalDateOnly(date: Date): string {
+  return format(date, 'yyyyMMdd')
+}
+
+function serializeEvent(event: ICalEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`
+  ]
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDateOnly(event.start)}`)
+    const end = event.end && event.end > event.start ? event.end : new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate() + 1)
+    lines.push(`DTEND;VALUE=DATE:${formatICalDateOnly(end)}`)
+  } else {
+    lines.push(`DTSTART:${formatICalUtc(event.start)}`)
+    lines.push(`DTEND:${formatICalUtc(event.end || event.start)}`)
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`)
+  if (event.priority) lines.push(`PRIORITY:${PRIORITY_VALUES[event.priority]}`)
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`)
+  if (event.exdates?.length) lines.push(`EXDATE:${event.exdates.map(formatICalUtc).join(',')}`)
+  if (event.caseNumber) lines.push(`X-CASE-NUMBER:${escapeText(event.caseNumber)}`)
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+export function buildICalendar(events: ICalEvent[], calendarName: string): string {
+  const stamp = formatICalUtc(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap(event => serializeEvent(event, stamp)),
+    'END:VCALENDAR'
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export function calendarEventToICal(event: CalendarEvent, caseNumber?: string): ICalEvent {
+  return {
+    uid: `${event.id}@legal-case-manager`,
+    summary: event.title,
+    description: event.description || undefined,
+    location: event.location || undefined,
+    start: new Date(event.start_date),
+    end: new Date(event.end_date || event.start_date),
+    categories: [EVENT_TYPE_LABELS[event.event_type] || 'Other'],
+    priority: event.priority,
+    rrule: event.recurrence_rule || undefined,
+    exdates: parseExceptions(event.recurrence_exceptions),
+    caseNumber
+  }
+}
+
+// Deadlines are exported as all-day events on their due date
+export function deadlineToICal(deadline: ICalDeadline, caseNumber: string): ICalEvent {
+  const [year, month, day] = deadline.dueDate.slice(0, 10).split('-').map(Number)
+  const title = deadline.completed ? `[Done] ${deadline.title}` : deadline.title
+
+  return {
+    uid: `deadline-${deadline.id}@legal-case-manager`,
+    summary: `${caseNumber}: ${title}`,
+    description: deadline.description || undefined,
+    start: new Date(year, month - 1, day),
+    allDay: true,
+    categories: [EVENT_TYPE_LABELS.deadline, deadline.type],
+    priority: deadline.priority === 'urgent' ? 'high' : deadline.priority,
+    caseNumber
+  }
+}
+
+export function downloadICalendar(fileName: string, content: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The name and parameters end at the first colon outside a quoted parameter value
+  let inQuotes = false
+  let separator = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      separator = i
+      break
+    }
+  }
+  if (separator < 0) return null
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const [key, value = ''] = param.split('=')
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) }
+}
+
+function parseDateValue(line: ContentLine): { date: Date, allDay: boolean } {
+  const allDay = line.params.VALUE === 'DATE' || /^\d{8}$/.test(line.value.trim())
+  // Times with a TZID are read as local time, which matches how the calendar displays them
+  return { date: parseICalDate(line.value), allDay }
+}
+
+// Reads every VEVENT in an .ics file; events without a start are skipped
+export function parseICalendar(content: string): ICalEvent[] {
+  const lines = content
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+
+  const events: ICalEvent[] = []
+  let current: Partial<ICalEvent> | null = null
+  let nestedDepth = 0
+
+  for (const rawLine of lines) {
+    if (!rawLine.trim()) continue
+    const line = parseContentLine(rawLine)
+    if (!line) continue
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT') {
+        current = { categories: [], exdates: [] }
+      } else if (current) {
+        nestedDepth++ // VALARM and other components inside the event
+      }
+      continue
+    }
+
+    if (line.name === 'END') {
+      if (line.value.toUpperCase() === 'VEVENT' && current) {
+        if (current.start) {
+          events.push({
+            uid: current.uid || `imported-${events.length}-${current.start.getTime()}`,
+            summary: current.summary || 'Untitled event',
+            ...current
+          } as ICalEvent)
+        }
+        current = null
+      } else if (nestedDepth > 0) {
+        nestedDepth--
+      }
+      continue
+    }
+
+    if (!current || nestedDepth > 0) continue
+
+    try {
+      switch (line.name) {
+        case 'UID':
+          current.uid = line.value.trim()
+          break
+        case 'SUMMARY':
+          current.summary = unescapeText(line.value)
+          break
+        case 'DESCRIPTION':
+          current.description = unescapeText(line.value)
+          break
+        case 'LOCATION':
+          current.location = unescapeText(line.value)
+          break
+        case 'DTSTART': {
+          const { date, allDay } = parseDateValue(line)
+          current.start = date
+          current.allDay = allDay
+          break
+        }
+        case 'DTEND':
+          current.end = parseDateValue(line).date
+          break
+        case 'CATEGORIES':
+          current.categories!.push(...line.value.split(/(?<!\\),/).map(unescapeText).map(item => item.trim()).filter(Boolean))
+          break
+        case 'PRIORITY': {
+          const value = parseInt(line.value)
+          if (value >= 1 && value <= 4) current.priority = 'high'
+          else if (value === 5) current.priority = 'medium'
+          else if (value >= 6 && value <= 9) current.priority = 'low'
+          break
+        }
+        case 'RRULE':
+          current.rrule = line.value.trim()
+          break
+        case 'EXDATE':
+          current.exdates!.push(...line.value.split(',').map(value => parseICalDate(value)))
+          break
+        case 'X-CASE-NUMBER':
+          current.caseNumber = unescapeText(line.value).trim()
+          break
+        default:
+          break
+      }
+    } catch (error) {
+      console.warn(`Skipping unreadable ${line.name} value in calendar file:`, error)
+    }
+  }
+
+  return events
+}
+
+function guessEventType(event: ICalEvent): CalendarEvent['event_type'] {
+  for (const category of event.categories || []) {
+    const match = Object.entries(EVENT_TYPE_LABELS).find(([, label]) => label.toLowerCase() === category.toLowerCase())
+    if (match) return match[0] as CalendarEvent['event_type']
+  }
+
+  const text = [...(event.categories || []), event.summary].join(' ')
+  const keyword = EVENT_TYPE_KEYWORDS.find(([, pattern]) => pattern.test(text))
+  return keyword ? keyword[0] : 'other'
+}
+
+// Links to a case by X-CASE-NUMBER, or by a case number mentioned in the summary or description
+function matchCase(event: ICalEvent, cases: ICalCase[]): string | undefined {
+  if (event.caseNumber) {
+    const exact = cases.find(case_ => case_.caseNumber.toLowerCase() === event.caseNumber!.toLowerCase())
+    if (exact) return exact.id
+  }
+
+  const text = `${event.summary} ${event.description || ''}`.toLowerCase()
+  return cases
+    .filter(case_ => case_.caseNumber && text.includes(case_.caseNumber.toLowerCase()))
+    .sort((a, b) => b.caseNumber.length - a.caseNumber.length)[0]?.id
+}
+
+// All-day DTEND is exclusive, so those events end one second before it
+function getImportedEnd(event: ICalEvent): Date {
+  if (!event.end || event.end < event.start) {
+    return event.allDay ? endOfDay(event.start) : event.start
+  }
+  return event.allDay ? new Date(event.end.getTime() - 1000) : event.end
+}
+
+// Recurrences this calendar cannot expand (e.g. FREQ=HOURLY) import as a single event
+function getSupportedRule(event: ICalEvent): string | undefined {
+  if (!event.rrule) return undefined
+  try {
+    parseRRule(event.rrule)
+    return event.rrule
+  } catch {
+    return undefined
+  }
+}
+
+export function icalToEventInput(event: ICalEvent, cases: ICalCase[]): CalendarEventInput {
+  const recurrenceRule = getSupportedRule(event)
+
+  return {
+    title: event.summary,
+    description: event.description || '',
+    start_date: event.start.toISOString(),
+    end_date: getImportedEnd(event).toISOString(),
+    event_type: guessEventType(event),
+    location: event.location || '',
+    attendees: '',
+    case_id: matchCase(event, cases),
+    priority: event.priority || 'medium',
+    reminder_minutes: 15,
+    recurrence_rule: recurrenceRule,
+    recurrence_exceptions: recurrenceRule && event.exdates?.length ? formatExceptions(event.exdates) : undefined
+  }
+}
@@ -0,0 +1,96 @@
+import { jsPDF } from 'jspdf'
+import { format, parseISO } from 'date-fns'
+import { LINE_HEIGHT, MARGIN, PAGE_HEIGHT, PAGE_WIDTH, drawPdfLetterhead, loadLogo } from './letterExport'
+import { formatMoney } from './billing'
+import type { Case } from '@/types/case'
+import type { Letterhead } from '@/types/demandLetter'
+import type { Invoice } from '@/types/billing'
+
+interface InvoiceContent {
+  letterhead: Letterhead
+  caseData: Pick<Case, 'caseNumber' | 'clientName'>
+  invoice: Invoice
+}
+
+// Itemized invoice on the firm letterhead: one row per time entry, then the total due
+export async function exportInvoiceToPdf(content: InvoiceContent): Promise<Blob> {
+  const { letterhead, caseData, invoice } = content
+  const pdf = new jsPDF({ unit: 'pt', format: 'letter' })
+  const logo = await loadLogo(letterhead.logoUrl)
+  const right = PAGE_WIDTH - MARGIN
+  const money = (amount: number) => formatMoney(amount, invoice.currency)
+  const columns = { date: MARGIN, code: MARGIN + 62, description: MARGIN + 104, hours: right - 130, rate: right - 70 }
+
+  let y = drawPdfLetterhead(pdf, letterhead, logo)
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage()
+      y = drawPdfLetterhead(pdf, letterhead, logo)
+    }
+  }
+
+  pdf.setFont('times', 'bold').setFontSize(13)
+  pdf.text('INVOICE', PAGE_WIDTH / 2, y, { align: 'center' })
+  y += LINE_HEIGHT * 2
+
+  pdf.setFont('times', 'normal').setFontSize(11)
+  const details = [
+    [`Bill to: ${caseData.clientName}`, `Invoice: ${invoice.invoiceNumber}`],
+    [`Case: ${caseData.caseNumber}`, `Issued: ${format(parseISO(invoice.issueDate), 'MMMM d, yyyy')}`],
+    ['', `Due: ${format(parseISO(invoice.dueDate), 'MMMM d, yyyy')}`]
+  ]
+  details.forEach(([left, detail]) => {
+    pdf.text(left, MARGIN, y)
+    pdf.text(detail, right, y, { align: 'right' })
+    y += LINE_HEIGHT
+  })
+  y += LINE_HEIGHT
+
+  pdf.setFont('times', 'bold').setFontSize(10)
+  pdf.text('Date', columns.date, y)
+  pdf.text('Code', columns.code, y)
+  pdf.text('Description', columns.description, y)
+  pdf.text('Hours', columns.hours, y, { align: 'right' })
+  pdf.text('Rate', columns.rate, y, { align: 'right' })
+  pdf.text('Amount', right, y, { align: 'right' })
+  pdf.setLineWidth(0.5).line(MARGIN, y + 4, right, y + 4)
+  y += LINE_HEIGHT + 2
+
+  pdf.setFont('times', 'normal')
+  invoice.lines.forEach(line => {
+    const description: string[] = pdf.splitTextToSize(
+      `${line.timekeeperName}: ${line.description}`,
+      columns.hours - columns.description - 40
+    )
+    ensureSpace(description.length * LINE_HEIGHT)
+    pdf.text(format(parseISO(line.date), 'MM/dd/yyyy'), columns.date, y)
+    pdf.text(line.activityCode, columns.code, y)
+    pdf.text(line.hours.toFixed(1), columns.hours, y, { align: 'right' })
+    pdf.text(money(line.rate), columns.rate, y, { align: 'right' })
+    pdf.text(money(line.amount), right, y, { align: 'right' })
+    description.forEach(text => {
+      pdf.text(text, columns.description, y)
+      y += LINE_HEIGHT
+    })
+  })
+
+  ensureSpace(LINE_HEIGHT * 3)
+  pdf.setLineWidth(0.5).line(right - 160, y - 8, right, y - 8)
+  y += 4
+  pdf.setFont('times', 'bold').setFontSize(11)
+  pdf.text('TOTAL DUE', columns.rate, y, { align: 'right' })
+  pdf.text(money(invoice.status === 'paid' ? 0 : invoice.total), right, y, { align: 'right' })
+
+  if (invoice.status === 'paid' && invoice.paidAt) {
+    y += LINE_HEIGHT
+    pdf.setFont('times', 'normal').setFontSize(10)
+    pdf.text(
+      `Paid in full (${money(invoice.total)}) on ${format(parseISO(invoice.paidAt), 'MMMM d, yyyy')}. Thank you.`,
+      right,
+      y,
+      { align: 'right' }
+    )
+  }
+
+  return pdf.output('blob')
+}
@@ -0,0 +1,183 @@
+import { jsPDF } from 'jspdf'
+import {
+  AlignmentType,
+  BorderStyle,
+  Document as DocxDocument,
+  Header,
+  ImageRun,
+  Packer,
+  Paragraph,
+  TextRun
+} from 'docx'
+import type { DemandLetterSection, Letterhead } from '@/types/demandLetter'
+
+export interface LetterContent {
+  letterhead: Letterhead
+  date: string
+  sections: DemandLetterSection[]
+}
+
+export interface LogoImage {
+  dataUrl: string // Always PNG so both exporters accept it, whatever the upload format was
+  width: number
+  height: number
+}
+
+const LOGO_MAX_WIDTH = 160
+const LOGO_MAX_HEIGHT = 48
+
+function fitLogo(width: number, height: number) {
+  const scale = Math.min(LOGO_MAX_WIDTH / width, LOGO_MAX_HEIGHT / height, 1)
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
+}
+
+// Fetching first keeps the canvas untainted when the logo is served from storage on another origin
+export async function loadLogo(url?: string): Promise<LogoImage | null> {
+  if (!url) return null
+  try {
+    const response = await fetch(url)
+    if (!response.ok) return null
+    const objectUrl = URL.createObjectURL(await response.blob())
+
+    try {
+      const image = new Image()
+      await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve()
+        image.onerror = () => reject(new Error('Logo could not be decoded'))
+        image.src = objectUrl
+      })
+
+      const canvas = document.createElement('canvas')
+      canvas.width = image.naturalWidth || LOGO_MAX_WIDTH
+      canvas.height = image.naturalHeight || LOGO_MAX_HEIGHT
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+      return { dataUrl: canvas.toDataURL('image/png'), ...fitLogo(canvas.width, canvas.height) }
+    } finally {
+      URL.revokeObjectURL(objectUrl)
+    }
+  } catch (error) {
+    // A missing logo should not block the letter
+    console.error('Error loading letterhead logo:', error)
+    return null
+  }
+}
+
+const contactLine = (letterhead: Letterhead) =>
+  [letterhead.address, letterhead.phone, letterhead.email, letterhead.website].filter(Boolean).join('  •  ')
+
+// US Letter in points
+export const PAGE_WIDTH = 612
+export const PAGE_HEIGHT = 792
+export const MARGIN = 72
+export const LINE_HEIGHT = 15
+
+// Draws the firm letterhead at the top of the current page; returns where the body starts
+export function drawPdfLetterhead(pdf: jsPDF, letterhead: Letterhead, logo: LogoImage | null): number {
+  let y = MARGIN - 24
+  if (logo) {
+    pdf.addImage(logo.dataUrl, 'PNG', MARGIN, y, logo.width, logo.height)
+    y += logo.height + 8
+  }
+  pdf.setFont('times', 'bold').setFontSize(16)
+  pdf.text(letterhead.firmName, MARGIN, y + 12)
+  pdf.setFont('times', 'normal').setFontSize(9)
+  pdf.text(contactLine(letterhead), MARGIN, y + 26, { maxWidth: PAGE_WIDTH - MARGIN * 2 })
+  pdf.setLineWidth(0.75).line(MARGIN, y + 34, PAGE_WIDTH - MARGIN, y + 34)
+  pdf.setFontSize(11)
+  return y + 60
+}
+
+export async function exportLetterToPdf(content: LetterContent): Promise<Blob> {
+  const pdf = new jsPDF({ unit: 'pt', format: 'letter' })
+  const logo = await loadLogo(content.letterhead.logoUrl)
+  const textWidth = PAGE_WIDTH - MARGIN * 2
+
+  // Letterhead repeats on every page
+  const drawLetterhead = () => drawPdfLetterhead(pdf, content.letterhead, logo)
+
+  let y = drawLetterhead()
+  const writeLine = (line: string, bold = false) => {
+    if (y > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage()
+      y = drawLetterhead()
+    }
+    pdf.setFont('times', bold ? 'bold' : 'normal')
+    pdf.text(line, MARGIN, y)
+    y += LINE_HEIGHT
+  }
+
+  writeLine(content.date)
+  y += LINE_HEIGHT
+
+  for (const section of content.sections) {
+    if (section.showHeading) writeLine(section.title, true)
+    for (const paragraph of section.body.split('\n')) {
+      const lines: string[] = paragraph ? pdf.splitTextToSize(paragraph, textWidth) : ['']
+      lines.forEach(line => writeLine(line))
+    }
+    y += LINE_HEIGHT
+  }
+
+  return pdf.output('blob')
+}
+
+export async function exportLetterToDocx(content: LetterContent): Promise<Blob> {
+  const logo = await loadLogo(content.letterhead.logoUrl)
+
+  const header = new Header({
+    children: [
+      ...(logo
+        ? [new Paragraph({
+            children: [new ImageRun({
+              type: 'png',
+              data: logo.dataUrl,
+              transformation: { width: logo.width, height: logo.height }
+            })]
+          })]
+        : []),
+      new Paragraph({
+        children: [new TextRun({ text: content.letterhead.firmName, bold: true, size: 32, font: 'Times New Roman' })]
+      }),
+      new Paragraph({
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: '000000', space: 4 } },
+        children: [new TextRun({ text: contactLine(content.letterhead), size: 18, font: 'Times New Roman' })]
+      })
+    ]
+  })
+
+  // Word sizes are in half-points
+  const bodyRun = (text: string, bold = false) => new TextRun({ text, bold, size: 22, font: 'Times New Roman' })
+  const body: Paragraph[] = [
+    new Paragraph({ children: [bodyRun(content.date)], spacing: { after: 240 } })
+  ]
+
+  for (const section of content.sections) {
+    if (section.showHeading) {
+      body.push(new Paragraph({ children: [bodyRun(section.title, true)], spacing: { before: 120 } }))
+    }
+    const paragraphs = section.body.split('\n')
+    paragraphs.forEach((paragraph, index) => {
+      body.push(new Paragraph({
+        alignment: AlignmentType.LEFT,
+        children: [bodyRun(paragraph)],
+        spacing: { after: index === paragraphs.length - 1 ? 240 : 0 }
+      }))
+    })
+  }
+
+  const doc = new DocxDocument({
+    sections: [{ headers: { default: header }, children: body }]
+  })
+  return Packer.toBlob(doc)
+}
+
+export function downloadLetter(fileName: string, blob: Blob) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,40 @@
+import type { CaseLien, LienInput, LienStatus, LienSummary } from '@/types/lien'
+
+// Keep in sync with backend/services/liens.js.
+
+export const LIEN_STATUSES: Record<LienStatus, string> = {
+  asserted: 'Asserted',
+  negotiating: 'Negotiating reduction',
+  final: 'Final amount agreed',
+  paid: 'Paid',
+  waived: 'Waived'
+}
+
+// A lien stops blocking the case once it is paid off or the holder waives it
+export const RESOLVED_LIEN_STATUSES: LienStatus[] = ['paid', 'waived']
+
+export const CLOSE_BLOCKED_BY_LIENS = 'Resolve every lien (paid or waived) before closing the case'
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+const nonNegative = (value: number) => (Number.isFinite(value) && value > 0 ? value : 0)
+
+export const isLienResolved = (lien: Pick<LienInput, 'status'>) => RESOLVED_LIEN_STATUSES.includes(lien.status)
+
+// What the lienholder is paid from the settlement; a waived lien costs nothing
+export function lienPayoff(lien: Pick<LienInput, 'assertedAmount' | 'reductionAmount' | 'status'>): number {
+  if (lien.status === 'waived') return 0
+  const asserted = nonNegative(lien.assertedAmount)
+  return roundCents(asserted - Math.min(asserted, nonNegative(lien.reductionAmount)))
+}
+
+// Reductions include waived liens in full
+export function summarizeLiens(liens: CaseLien[]): LienSummary {
+  const assertedTotal = roundCents(liens.reduce((sum, lien) => sum + nonNegative(lien.assertedAmount), 0))
+  const payoffTotal = roundCents(liens.reduce((sum, lien) => sum + lienPayoff(lien), 0))
+  return {
+    assertedTotal,
+    reductionTotal: roundCents(assertedTotal - payoffTotal),
+    payoffTotal,
+    unresolvedCount: liens.filter(lien => !isLienResolved(lien)).length
+  }
+}
@@ -0,0 +1,56 @@
+import type { CaseMessage, MessageSender, MessageThread } from '@/types/message'
+
+// Case message threads. Keep in sync with backend/services/messages.js.
+
+export const MAX_ATTACHMENTS = 5
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+// Messages the reader has not seen yet: the other side's, without a read receipt
+export const unreadMessages = (messages: CaseMessage[], reader: MessageSender) =>
+  messages.filter(message => message.sender !== reader && !message.readAt)
+
+// Groups messages into one thread per case, most recently active first
+export function groupThreads(messages: CaseMessage[]): MessageThread[] {
+  const byCase = new Map<string, CaseMessage[]>()
+  for (const message of messages) {
+    byCase.set(message.caseId, [...(byCase.get(message.caseId) || []), message])
+  }
+
+  return [...byCase.entries()]
+    .map(([caseId, caseMessages]) => {
+      const sorted = [...caseMessages].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      return { caseId, messages: sorted, latest: sorted[sorted.length - 1] }
+    })
+    .sort((a, b) => b.latest.createdAt.localeCompare(a.latest.createdAt))
+}
+
+// A thread is waiting on the firm when the client wrote last
+export const isAwaitingReply = (thread: Pick<MessageThread, 'latest'>) => thread.latest.sender === 'client'
+
+// When the client's unanswered run of messages began
+export function awaitingSince(thread: MessageThread): string | null {
+  let since: string | null = null
+  for (let i = thread.messages.length - 1; i >= 0 && thread.messages[i].sender === 'client'; i--) {
+    since = thread.messages[i].createdAt
+  }
+  return since
+}
+
+export function attachmentProblem(files: { name: string; size: number }[]): string | null {
+  if (files.length > MAX_ATTACHMENTS) {
+    return `Attach at most ${MAX_ATTACHMENTS} files to a message`
+  }
+  const tooLarge = files.find(file => file.size > MAX_ATTACHMENT_BYTES)
+  if (tooLarge) {
+    return `${tooLarge.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+  }
+  return null
+}
+
+// Why a message cannot be sent, if it cannot
+export function messageProblem(text: string, files: { name: string; size: number }[]): string | null {
+  if (!text.trim() && files.length === 0) {
+    return 'Write a message or attach a file'
+  }
+  return attachmentProblem(files)
+}
@@ -0,0 +1,41 @@
+import type { Negotiation, NegotiationMessage } from '@/types/case'
+
+// Keep in sync with backend/services/negotiationLedger.js.
+
+export type NegotiationMessageType = NegotiationMessage['type']
+export type NegotiationSender = NegotiationMessage['sender']
+
+export const NEGOTIATION_MESSAGE_TYPES: Record<NegotiationMessageType, string> = {
+  demand: 'Demand',
+  offer: 'Offer',
+  counter: 'Counter',
+  acceptance: 'Acceptance',
+  rejection: 'Rejection'
+}
+
+// Demands, offers and counters carry an amount; acceptances and rejections answer the last one
+export const AMOUNT_REQUIRED: NegotiationMessageType[] = ['demand', 'offer', 'counter']
+
+export type NegotiationSummary = Pick<Negotiation, 'currentOffer' | 'demandAmount' | 'status'>
+
+// Replays the ledger: the insurer's latest amount is the current offer, the attorney's
+// latest amount is the demand, and the last move decides the status
+export function summarizeNegotiation(messages: NegotiationMessage[]): NegotiationSummary {
+  const summary: NegotiationSummary = { currentOffer: 0, demandAmount: 0, status: 'pending' }
+
+  const ordered = [...messages].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  for (const message of ordered) {
+    if (message.amount !== undefined && AMOUNT_REQUIRED.includes(message.type)) {
+      if (message.sender === 'insurance') summary.currentOffer = message.amount
+      else summary.demandAmount = message.amount
+    }
+
+    switch (message.type) {
+      case 'acceptance': summary.status = 'accepted'; break
+      case 'rejection': summary.status = 'rejected'; break
+      case 'counter': summary.status = 'countered'; break
+      default: summary.status = 'pending'
+    }
+  }
+  return summary
+}
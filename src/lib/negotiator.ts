@@ -0,0 +1,112 @@
+import type { Case, Document } from '@/types/case'
+
+// Keep the grounding well inside the model's context window
+const MAX_DOCUMENT_CHARS = 2000
+const MAX_DOCUMENTS_CHARS = 12000
+
+// Figures typed into the negotiator that may not be saved on the case yet
+export interface NegotiationFigures {
+  demandAmount?: number
+  currentOffer?: number
+}
+
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// A chat model streams its reply through onToken and resolves with the full text
+export interface ChatModel {
+  stream(messages: ChatTurn[], onToken: (token: string) => void, signal?: AbortSignal): Promise<string>
+}
+
+const formatCurrency = (value?: number) =>
+  value ? `$${Number(value).toLocaleString()}` : 'not set'
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max)}… [truncated]` : text
+
+function describeCase(caseData: Case, figures: NegotiationFigures) {
+  return [
+    `Case number: ${caseData.caseNumber}`,
+    `Case type: ${caseData.caseType?.replace(/_/g, ' ')}`,
+    `Client: ${caseData.clientName}`,
+    `Incident date: ${caseData.incidentDate || 'unknown'}`,
+    `Jurisdiction: ${caseData.jurisdiction || 'unknown'}`,
+    `Status: ${caseData.status}`,
+    `Insurance company: ${caseData.insuranceCompany || 'unknown'}`,
+    `Claim number: ${caseData.claimNumber || 'unknown'}`,
+    `Estimated value: ${formatCurrency(caseData.estimatedValue)}`,
+    `Current offer: ${formatCurrency(figures.currentOffer ?? caseData.currentOffer)}`,
+    `Demand: ${formatCurrency(figures.demandAmount)}`,
+    `Settlement goal: ${formatCurrency(caseData.settlementGoal)}`,
+    `Statute of limitations: ${caseData.statuteOfLimitations || 'not calculated'}`,
+    `Description: ${caseData.description || 'none'}`
+  ].join('\n')
+}
+
+// Each document contributes its AI analysis and an excerpt of its text until the budget runs out
+function describeDocuments(documents: Document[]) {
+  const grounded = documents.filter(doc => doc.extractedText || doc.aiAnalysis)
+  if (grounded.length === 0) return 'No analyzed documents are on file for this case.'
+
+  const sections: string[] = []
+  let used = 0
+  for (const doc of grounded) {
+    const section = [
+      `### ${doc.fileName} (${doc.category})`,
+      doc.aiAnalysis ? `Analysis: ${truncate(doc.aiAnalysis, MAX_DOCUMENT_CHARS)}` : null,
+      doc.extractedText ? `Excerpt: ${truncate(doc.extractedText, MAX_DOCUMENT_CHARS)}` : null
+    ].filter(Boolean).join('\n')
+
+    if (used + section.length > MAX_DOCUMENTS_CHARS) {
+      sections.push(`(${grounded.length - sections.length} more documents omitted)`)
+      break
+    }
+    sections.push(section)
+    used += section.length
+  }
+  return sections.join('\n\n')
+}
+
+// System prompt that grounds the negotiator in the selected case and its documents
+export function buildNegotiatorSystemPrompt(
+  caseData: Case,
+  documents: Document[],
+  figures: NegotiationFigures = {}
+): string {
+  return `You are a settlement negotiation assistant for a personal injury law firm, advising the attorney handling the case below.
+Base every recommendation on the case facts and documents provided. When a figure or fact is missing, say so rather than inventing one.
+Be specific about amounts, leverage points and next steps, and keep answers concise.
+
+## Case
+${describeCase(caseData, figures)}
+
+## Documents
+${describeDocuments(documents)}`
+}
+
+// One negotiator turn: the model gets the grounded system prompt, the recent conversation
+// and the question, and its reply streams through onToken
+export function askNegotiator(
+  model: ChatModel,
+  { caseData, documents, figures, history, question }: {
+    caseData: Case
+    documents: Document[]
+    figures?: NegotiationFigures
+    history: ChatTurn[]
+    question: string
+  },
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  return model.stream(
+    [
+      { role: 'system', content: buildNegotiatorSystemPrompt(caseData, documents, figures) },
+      ...history,
+      { role: 'user', content: question }
+    ],
+    onToken,
+    signal
+  )
+}
@@ -0,0 +1,55 @@
+import type { InvitationStatus, PortalInvitation } from '@/types/portal'
+
+// Client portal invitations. Keep in sync with backend/services/portal.js.
+
+// Where the portal lives; its sign-in is separate from the attorney app's
+export const PORTAL_PATH = '/portal'
+
+// How long an invitation link stays valid
+export const INVITATION_DAYS = 14
+
+export const isPortalPath = (pathname: string) =>
+  pathname === PORTAL_PATH || pathname.startsWith(`${PORTAL_PATH}/`)
+
+export const invitationLink = (origin: string, token: string) =>
+  `${origin}${PORTAL_PATH}?invite=${encodeURIComponent(token)}`
+
+export function invitationExpiry(sentAt: Date): string {
+  const expires = new Date(sentAt)
+  expires.setDate(expires.getDate() + INVITATION_DAYS)
+  return expires.toISOString()
+}
+
+export function invitationStatus(
+  invitation: Pick<PortalInvitation, 'acceptedAt' | 'revokedAt' | 'expiresAt'>,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.revokedAt) return 'revoked'
+  if (invitation.acceptedAt) return 'accepted'
+  if (new Date(invitation.expiresAt) <= now) return 'expired'
+  return 'pending'
+}
+
+// Why an invitation cannot be accepted by someone signed in with this email, if it cannot
+export function invitationProblem(
+  invitation: Pick<PortalInvitation, 'acceptedAt' | 'revokedAt' | 'expiresAt' | 'email'>,
+  email: string,
+  now: Date = new Date()
+): string | null {
+  switch (invitationStatus(invitation, now)) {
+    case 'revoked': return 'This invitation was withdrawn. Ask your attorney for a new one.'
+    case 'accepted': return 'This invitation has already been used. Sign in to the portal instead.'
+    case 'expired': return 'This invitation has expired. Ask your attorney for a new one.'
+  }
+  if (invitation.email.trim().toLowerCase() !== email.trim().toLowerCase()) {
+    return `This invitation was sent to ${invitation.email}. Sign in with that email address.`
+  }
+  return null
+}
+
+// A random, unguessable invitation token
+export function createInvitationToken(): string {
+  const bytes = new Uint8Array(24)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
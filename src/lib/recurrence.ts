@@ -0,0 +1,400 @@
+import { format } from 'date-fns'
+import type { CalendarEvent, CalendarOccurrence, DateRange } from '@/types/calendar'
+
+// Supported subset of RFC 5545 recurrence rules: FREQ, INTERVAL, COUNT, UNTIL,
+// BYDAY (with ordinals for monthly/yearly rules), BYMONTHDAY and BYMONTH.
+// Occurrences keep the wall-clock time of the series start in the event's time zone
+// (time_zone), so a 9:00 meeting stays at 9:00 across daylight saving changes.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface WeekdayRule {
+  weekday: number // 0 = Sunday ... 6 = Saturday, as returned by Date#getDay
+  ordinal?: number // 1 = first, 2 = second, -1 = last
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  count?: number
+  until?: Date
+  byDay?: WeekdayRule[]
+  byMonthDay?: number[]
+  byMonth?: number[] // 1 = January
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+// Stored as the series end of rules that have neither COUNT nor UNTIL
+export const OPEN_ENDED_SERIES_END = '9999-12-31T23:59:59.999Z'
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const MAX_PERIODS = 10000
+
+// The browser's zone: stored with new events, and used for events saved before zones were
+export const localTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>()
+
+// The zone's clock time at `instant`, held in the UTC fields of the returned Date
+function toWallClock(instant: Date, timeZone: string): Date {
+  let zoneFormat = zoneFormats.get(timeZone)
+  if (!zoneFormat) {
+    zoneFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    })
+    zoneFormats.set(timeZone, zoneFormat)
+  }
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {}
+  for (const { type, value } of zoneFormat.formatToParts(instant)) {
+    parts[type] = Number(value)
+  }
+  return new Date(Date.UTC(
+    parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!, instant.getUTCMilliseconds()
+  ))
+}
+
+// The instant the zone's clocks show `wall`. A time skipped by a spring-forward change
+// moves later by the gap; a repeated fall-back time takes its first occurrence.
+function fromWallClock(wall: Date, timeZone: string): Date {
+  const offsetAt = (instant: Date) => toWallClock(instant, timeZone).getTime() - instant.getTime()
+  const guess = new Date(wall.getTime() - offsetAt(wall))
+  const instant = new Date(wall.getTime() - offsetAt(guess))
+  return toWallClock(instant, timeZone).getTime() === wall.getTime() ? instant : guess
+}
+
+// Parses iCalendar DATE / DATE-TIME values (20240301, 20240301T090000, 20240301T090000Z)
+export function parseICalDate(value: string): Date {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) {
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date value: ${value}`)
+    }
+    return date
+  }
+
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00', utc] = match
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts)
+}
+
+export function formatICalUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+export function parseRRule(value: string): RecurrenceRule {
+  const rule: Partial<RecurrenceRule> = { interval: 1 }
+
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    if (!part.trim()) continue
+    const [key, rawValue = ''] = part.split('=')
+    const ruleValue = rawValue.trim().toUpperCase()
+
+    switch (key.trim().toUpperCase()) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(ruleValue as RecurrenceFrequency)) {
+          throw new Error(`Unsupported recurrence frequency: ${ruleValue}`)
+        }
+        rule.freq = ruleValue as RecurrenceFrequency
+        break
+      case 'INTERVAL':
+        rule.interval = Math.max(parseInt(ruleValue) || 1, 1)
+        break
+      case 'COUNT':
+        rule.count = Math.max(parseInt(ruleValue) || 1, 1)
+        break
+      case 'UNTIL':
+        rule.until = parseICalDate(ruleValue)
+        break
+      case 'BYDAY':
+        rule.byDay = ruleValue.split(',').map(code => {
+          const match = code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/)
+          if (!match) {
+            throw new Error(`Invalid BYDAY value: ${code}`)
+          }
+          return {
+            weekday: WEEKDAY_CODES.indexOf(match[2]),
+            ordinal: match[1] ? parseInt(match[1]) : undefined
+          }
+        })
+        break
+      case 'BYMONTHDAY':
+        rule.byMonthDay = ruleValue.split(',').map(Number).filter(day => day !== 0 && Math.abs(day) <= 31)
+        break
+      case 'BYMONTH':
+        rule.byMonth = ruleValue.split(',').map(Number).filter(month => month >= 1 && month <= 12)
+        break
+      default:
+        // WKST, BYSETPOS and the time-based parts are not used by the calendar
+        break
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('Recurrence rule is missing FREQ')
+  }
+
+  return rule as RecurrenceRule
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`)
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`)
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`)
+  } else if (rule.until) {
+    parts.push(`UNTIL=${formatICalUtc(rule.until)}`)
+  }
+
+  return parts.join(';')
+}
+
+export function parseExceptions(value?: string): Date[] {
+  if (!value) return []
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => new Date(item))
+    .filter(date => !isNaN(date.getTime()))
+}
+
+export function formatExceptions(dates: Date[]): string {
+  return dates.map(date => date.toISOString()).join(',')
+}
+
+// The functions below work on wall-clock dates (see toWallClock), so they use UTC getters
+function monthCandidates(rule: RecurrenceRule, dtstart: Date, year: number, month: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+  if (rule.byMonthDay?.length) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : daysInMonth + day + 1))
+      .filter(day => day >= 1 && day <= daysInMonth)
+  }
+
+  if (rule.byDay?.length) {
+    return rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const matching: number[] = []
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day)
+      }
+      if (!ordinal) return matching
+      const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal]
+      return pick ? [pick] : []
+    })
+  }
+
+  // Months without the start's day of month (e.g. the 31st) are skipped, as RFC 5545 requires
+  const day = dtstart.getUTCDate()
+  return day <= daysInMonth ? [day] : []
+}
+
+const addDays = (date: Date, days: number) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days))
+
+function getPeriod(rule: RecurrenceRule, dtstart: Date, index: number): { periodStart: Date, candidates: Date[] } {
+  const at = (year: number, month: number, day: number) =>
+    new Date(Date.UTC(year, month, day, dtstart.getUTCHours(), dtstart.getUTCMinutes(), dtstart.getUTCSeconds()))
+  const onDay = (date: Date) => at(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  const startDay = new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate()))
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const periodStart = addDays(startDay, index * rule.interval)
+      return { periodStart, candidates: [onDay(periodStart)] }
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const periodStart = addDays(startDay, -((startDay.getUTCDay() + 6) % 7) + index * rule.interval * 7)
+      const weekdays = rule.byDay?.length ? rule.byDay.map(day => day.weekday) : [dtstart.getUTCDay()]
+      return {
+        periodStart,
+        candidates: weekdays.map(weekday => onDay(addDays(periodStart, (weekday + 6) % 7)))
+      }
+    }
+    case 'MONTHLY': {
+      const periodStart = new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth() + index * rule.interval, 1))
+      const year = periodStart.getUTCFullYear()
+      const month = periodStart.getUTCMonth()
+      return {
+        periodStart,
+        candidates: monthCandidates(rule, dtstart, year, month).map(day => at(year, month, day))
+      }
+    }
+    case 'YEARLY': {
+      const year = dtstart.getUTCFullYear() + index * rule.interval
+      const months = rule.byMonth?.length ? rule.byMonth.map(month => month - 1) : [dtstart.getUTCMonth()]
+      return {
+        periodStart: new Date(Date.UTC(year, 0, 1)),
+        candidates: months.flatMap(month =>
+          monthCandidates(rule, dtstart, year, month).map(day => at(year, month, day))
+        )
+      }
+    }
+  }
+}
+
+// Wall-clock starts of a series from `start` up to `end`
+function getWallClockStarts(start: Date, rule: RecurrenceRule, end: Date): Date[] {
+  const starts: Date[] = []
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    const { periodStart, candidates } = getPeriod(rule, start, index)
+    if (periodStart > end) break
+
+    const ordered = candidates
+      .filter(candidate => {
+        if (rule.freq === 'DAILY' && rule.byDay?.length && !rule.byDay.some(day => day.weekday === candidate.getUTCDay())) {
+          return false
+        }
+        if (rule.freq !== 'YEARLY' && rule.byMonth?.length && !rule.byMonth.includes(candidate.getUTCMonth() + 1)) {
+          return false
+        }
+        return candidate >= start
+      })
+      .sort((a, b) => a.getTime() - b.getTime())
+      .filter((candidate, position, list) => position === 0 || candidate.getTime() !== list[position - 1].getTime())
+
+    for (const candidate of ordered) {
+      if (candidate > end) return starts
+      starts.push(candidate)
+      if (rule.count && starts.length >= rule.count) return starts
+    }
+  }
+
+  return starts
+}
+
+// All occurrence starts of a series from its first occurrence up to `limit`, repeating
+// at the start's wall-clock time in `timeZone`
+export function getOccurrenceStarts(
+  dtstart: Date,
+  rule: RecurrenceRule,
+  limit: Date,
+  timeZone = localTimeZone()
+): Date[] {
+  const end = rule.until && rule.until < limit ? rule.until : limit
+  return getWallClockStarts(toWallClock(dtstart, timeZone), rule, toWallClock(end, timeZone))
+    .map(wall => fromWallClock(wall, timeZone))
+}
+
+function getDuration(event: CalendarEvent): number {
+  return new Date(event.end_date || event.start_date).getTime() - new Date(event.start_date).getTime()
+}
+
+// Expands recurring series into the concrete occurrences that overlap the range
+export function expandEvents(events: CalendarEvent[], range: DateRange): CalendarOccurrence[] {
+  return events.flatMap(event => {
+    if (!event.recurrence_rule) {
+      return [{ ...event, occurrence_start: event.start_date }]
+    }
+
+    let rule: RecurrenceRule
+    try {
+      rule = parseRRule(event.recurrence_rule)
+    } catch (error) {
+      console.error(`Invalid recurrence rule on event ${event.id}:`, error)
+      return [{ ...event, occurrence_start: event.start_date }]
+    }
+
+    const duration = getDuration(event)
+    const exceptions = new Set(parseExceptions(event.recurrence_exceptions).map(date => date.getTime()))
+
+    return getOccurrenceStarts(new Date(event.start_date), rule, range.end, event.time_zone || undefined)
+      .filter(start => start.getTime() + duration >= range.start.getTime() && !exceptions.has(start.getTime()))
+      .map(start => ({
+        ...event,
+        start_date: start.toISOString(),
+        end_date: new Date(start.getTime() + duration).toISOString(),
+        occurrence_start: start.toISOString()
+      }))
+  })
+}
+
+// End of the last occurrence, used to find series that reach into a date range
+export function getSeriesEnd(
+  event: Pick<CalendarEvent, 'start_date' | 'end_date' | 'recurrence_rule' | 'time_zone'>
+): string {
+  const end = event.end_date || event.start_date
+  if (!event.recurrence_rule) return end
+
+  const rule = parseRRule(event.recurrence_rule)
+  if (!rule.count && !rule.until) return OPEN_ENDED_SERIES_END
+
+  const duration = new Date(end).getTime() - new Date(event.start_date).getTime()
+  const starts = getOccurrenceStarts(
+    new Date(event.start_date), rule, rule.until || new Date(OPEN_ENDED_SERIES_END), event.time_zone || undefined
+  )
+  const last = starts[starts.length - 1] || new Date(event.start_date)
+  return new Date(last.getTime() + duration).toISOString()
+}
+
+// The earlier part of a series when it is split at `occurrenceStart`
+export function endRuleBefore(rule: RecurrenceRule, occurrenceStart: Date): RecurrenceRule {
+  return { ...rule, count: undefined, until: new Date(occurrenceStart.getTime() - 1000) }
+}
+
+// COUNT carried over to the later part of a series split at `occurrenceStart`
+export function remainingCount(
+  dtstart: Date,
+  rule: RecurrenceRule,
+  occurrenceStart: Date,
+  timeZone?: string
+): number | undefined {
+  if (!rule.count) return undefined
+  const before = getOccurrenceStarts(dtstart, rule, new Date(occurrenceStart.getTime() - 1), timeZone).length
+  return Math.max(rule.count - before, 1)
+}
+
+const ORDINAL_LABELS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' }
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, [string, string]> = {
+  DAILY: ['Daily', 'days'],
+  WEEKLY: ['Weekly', 'weeks'],
+  MONTHLY: ['Monthly', 'months'],
+  YEARLY: ['Yearly', 'years']
+}
+
+export function describeRRule(value: string): string {
+  let rule: RecurrenceRule
+  try {
+    rule = parseRRule(value)
+  } catch {
+    return 'Custom recurrence'
+  }
+
+  const [single, plural] = FREQUENCY_LABELS[rule.freq]
+  let description = rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(day =>
+      day.ordinal ? `the ${ORDINAL_LABELS[day.ordinal] || `${day.ordinal}th`} ${WEEKDAY_LABELS[day.weekday]}` : WEEKDAY_LABELS[day.weekday]
+    )
+    description += ` on ${days.join(', ')}`
+  } else if (rule.byMonthDay?.length) {
+    description += ` on day ${rule.byMonthDay.map(day => (day === -1 ? 'last' : day)).join(', ')}`
+  }
+
+  if (rule.count) {
+    description += `, ${rule.count} times`
+  } else if (rule.until) {
+    description += `, until ${format(rule.until, 'MMM d, yyyy')}`
+  }
+
+  return description
+}
@@ -0,0 +1,47 @@
+import type {
+  FeeStage,
+  SettlementDistribution,
+  SettlementLienType,
+  SettlementStatementInput
+} from '@/types/settlement'
+
+// Keep in sync with backend/services/settlementStatement.js.
+
+// Standard contingency tiers; the percentage on a statement can be changed to match the retainer
+export const FEE_STAGES: Record<FeeStage, { label: string; percent: number }> = {
+  pre_suit: { label: 'Pre-suit', percent: 33.33 },
+  litigation: { label: 'Litigation', percent: 40 }
+}
+
+export const SETTLEMENT_LIEN_TYPES: Record<SettlementLienType, string> = {
+  medical: 'Medical provider',
+  medicare: 'Medicare',
+  health_plan: 'Health plan'
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+const nonNegative = (value: number) => (Number.isFinite(value) && value > 0 ? value : 0)
+
+// The fee is taken from the gross; costs and liens are then repaid before the client's share
+export function calculateDistribution(input: SettlementStatementInput): SettlementDistribution {
+  const grossSettlement = roundCents(nonNegative(input.grossSettlement))
+  const attorneyFee = roundCents(grossSettlement * Math.min(100, nonNegative(input.feePercent)) / 100)
+  const costTotal = roundCents(input.costs.reduce((sum, cost) => sum + nonNegative(cost.amount), 0))
+  const lienTotal = roundCents(input.liens.reduce((sum, lien) => sum + nonNegative(lien.amount), 0))
+
+  return {
+    grossSettlement,
+    attorneyFee,
+    costTotal,
+    lienTotal,
+    netToClient: roundCents(grossSettlement - attorneyFee - costTotal - lienTotal)
+  }
+}
+
+// Why a statement cannot be approved, if it cannot: the client's share must not be negative
+export function approvalProblem(distribution: SettlementDistribution): string | null {
+  if (distribution.netToClient < 0) {
+    return 'The fee, costs and liens exceed the gross settlement, so the net to the client would be negative'
+  }
+  return null
+}
@@ -0,0 +1,109 @@
+import { jsPDF } from 'jspdf'
+import { format, parseISO } from 'date-fns'
+import { LINE_HEIGHT, MARGIN, PAGE_HEIGHT, PAGE_WIDTH, drawPdfLetterhead, loadLogo } from './letterExport'
+import { FEE_STAGES, SETTLEMENT_LIEN_TYPES, calculateDistribution } from './settlementStatement'
+import type { Case } from '@/types/case'
+import type { Letterhead } from '@/types/demandLetter'
+import type { SettlementApproval, SettlementStatement } from '@/types/settlement'
+
+interface StatementContent {
+  letterhead: Letterhead
+  caseData: Pick<Case, 'caseNumber' | 'clientName' | 'insuranceCompany' | 'assignedAttorney'>
+  statement: SettlementStatement
+}
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const ACKNOWLEDGEMENT = 'I have reviewed this settlement distribution statement and approve the ' +
+  'disbursement of the settlement proceeds as shown above.'
+
+// Closing statement with signature lines for the client and the attorney. Approvals already
+// given in the app are printed under the matching line.
+export async function exportSettlementStatementToPdf(content: StatementContent): Promise<Blob> {
+  const { letterhead, caseData, statement } = content
+  const distribution = calculateDistribution(statement)
+  const pdf = new jsPDF({ unit: 'pt', format: 'letter' })
+  const logo = await loadLogo(letterhead.logoUrl)
+  const right = PAGE_WIDTH - MARGIN
+
+  let y = drawPdfLetterhead(pdf, letterhead, logo)
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage()
+      y = drawPdfLetterhead(pdf, letterhead, logo)
+    }
+  }
+
+  const row = (label: string, amount: string, options: { bold?: boolean; indent?: number } = {}) => {
+    ensureSpace(LINE_HEIGHT)
+    pdf.setFont('times', options.bold ? 'bold' : 'normal')
+    pdf.text(label, MARGIN + (options.indent || 0), y, { maxWidth: right - MARGIN - 120 })
+    pdf.text(amount, right, y, { align: 'right' })
+    y += LINE_HEIGHT
+  }
+
+  pdf.setFont('times', 'bold').setFontSize(13)
+  pdf.text('SETTLEMENT DISTRIBUTION STATEMENT', PAGE_WIDTH / 2, y, { align: 'center' })
+  y += LINE_HEIGHT * 2
+
+  pdf.setFontSize(11)
+  row(`Client: ${caseData.clientName}`, '')
+  row(`Case: ${caseData.caseNumber}`, '')
+  row(`Paid by: ${caseData.insuranceCompany}`, '')
+  row(`Date: ${format(new Date(), 'MMMM d, yyyy')}`, '')
+  y += LINE_HEIGHT
+
+  row('Gross settlement', formatCurrency(distribution.grossSettlement), { bold: true })
+  row(
+    `Less attorney fee (${FEE_STAGES[statement.feeStage].label}, ${statement.feePercent}%)`,
+    `(${formatCurrency(distribution.attorneyFee)})`
+  )
+
+  if (statement.costs.length > 0) {
+    row('Less case costs advanced', '')
+    statement.costs.forEach(cost => row(cost.description, `(${formatCurrency(cost.amount)})`, { indent: 18 }))
+  }
+
+  if (statement.liens.length > 0) {
+    row('Less liens paid', '')
+    statement.liens.forEach(lien =>
+      row(`${lien.holder} (${SETTLEMENT_LIEN_TYPES[lien.type]})`, `(${formatCurrency(lien.amount)})`, { indent: 18 })
+    )
+  }
+
+  ensureSpace(LINE_HEIGHT * 2)
+  pdf.setLineWidth(0.5).line(right - 120, y - 10, right, y - 10)
+  row('NET TO CLIENT', formatCurrency(distribution.netToClient), { bold: true })
+  y += LINE_HEIGHT
+
+  pdf.setFont('times', 'normal')
+  const acknowledgement: string[] = pdf.splitTextToSize(ACKNOWLEDGEMENT, right - MARGIN)
+  ensureSpace(acknowledgement.length * LINE_HEIGHT + 140)
+  acknowledgement.forEach(line => {
+    pdf.text(line, MARGIN, y)
+    y += LINE_HEIGHT
+  })
+  y += LINE_HEIGHT * 2
+
+  const signatureBlock = (label: string, name: string, approval?: SettlementApproval) => {
+    pdf.setLineWidth(0.5).line(MARGIN, y, MARGIN + 260, y).line(MARGIN + 300, y, right, y)
+    pdf.setFontSize(9)
+    pdf.text(`${label}: ${name}`, MARGIN, y + 12)
+    pdf.text('Date', MARGIN + 300, y + 12)
+    if (approval) {
+      pdf.text(
+        `Approved electronically by ${approval.name} on ${format(parseISO(approval.approvedAt), 'MMMM d, yyyy h:mm a')}`,
+        MARGIN,
+        y + 24
+      )
+    }
+    pdf.setFontSize(11)
+    y += LINE_HEIGHT * 4
+  }
+
+  signatureBlock('Client', caseData.clientName, statement.clientApproval)
+  signatureBlock('Attorney', caseData.assignedAttorney || letterhead.firmName, statement.attorneyApproval)
+
+  return pdf.output('blob')
+}
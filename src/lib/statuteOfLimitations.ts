@@ -0,0 +1,354 @@
+import { addMonths, addYears, format } from 'date-fns'
+import type { Case } from '@/types/case'
+
+// Statute of limitations rules keyed by jurisdiction (US state) and case type.
+// Handles the discovery rule (the period runs from when the injury was or should
+// have been discovered, capped by a statute of repose) and tolling for minors.
+// Keep in sync with backend/services/statuteOfLimitations.js.
+
+export type CaseType = Case['caseType']
+
+export interface LimitationPeriod {
+  years: number
+  months?: number
+}
+
+export interface MinorTolling {
+  // The period does not start until the client reaches this age
+  tolledUntilAge?: number
+  // ...but the tolling itself cannot last longer than this
+  maxTollingYears?: number
+  // Minors get at least until this many years after the incident
+  reposeYears?: number
+  // The deadline is never earlier than this birthday
+  notBeforeAge?: number
+  // The deadline is never later than this birthday
+  notAfterAge?: number
+  // Only clients younger than this at the incident are covered (defaults to 18)
+  underAge?: number
+  citation: string
+}
+
+// The period that applied before the law changed, for claims that accrued earlier
+export interface PriorPeriod {
+  accruedBefore: string // yyyy-MM-dd, the day the current period took effect
+  period: LimitationPeriod
+  citation: string
+}
+
+export interface LimitationRule {
+  id: string
+  jurisdiction: string
+  caseType: CaseType
+  period: LimitationPeriod
+  citation: string
+  summary: string
+  discoveryRule?: boolean
+  repose?: LimitationPeriod
+  minors?: MinorTolling
+  priorPeriod?: PriorPeriod
+}
+
+export interface LimitationInput {
+  jurisdiction?: string
+  caseType: CaseType
+  incidentDate?: string
+  discoveryDate?: string
+  clientDateOfBirth?: string
+}
+
+export interface LimitationResult {
+  deadline: string // yyyy-MM-dd
+  rule: LimitationRule
+  basis: 'incident' | 'discovery' | 'minority'
+  explanation: string[]
+}
+
+export const JURISDICTIONS: Record<string, string> = {
+  CA: 'California',
+  FL: 'Florida',
+  IL: 'Illinois',
+  NY: 'New York',
+  PA: 'Pennsylvania',
+  TX: 'Texas'
+}
+
+export const DEFAULT_JURISDICTION = 'DEFAULT'
+
+const rule = (
+  jurisdiction: string,
+  caseType: CaseType,
+  details: Omit<LimitationRule, 'id' | 'jurisdiction' | 'caseType'>
+): LimitationRule => ({ id: `${jurisdiction}:${caseType}`, jurisdiction, caseType, ...details })
+
+export const LIMITATION_RULES: LimitationRule[] = [
+  rule('CA', 'personal_injury', {
+    period: { years: 2 },
+    citation: 'Cal. Civ. Proc. Code § 335.1',
+    summary: 'Two years from the injury',
+    minors: { tolledUntilAge: 18, citation: 'Cal. Civ. Proc. Code § 352' }
+  }),
+  rule('CA', 'medical_malpractice', {
+    period: { years: 1 },
+    citation: 'Cal. Civ. Proc. Code § 340.5',
+    summary: 'One year from discovery, but no more than three years from the injury',
+    discoveryRule: true,
+    repose: { years: 3 },
+    minors: { underAge: 6, notBeforeAge: 8, reposeYears: 3, citation: 'Cal. Civ. Proc. Code § 340.5' }
+  }),
+  rule('CA', 'workers_comp', {
+    period: { years: 1 },
+    citation: 'Cal. Lab. Code § 5405',
+    summary: 'One year from the date of injury'
+  }),
+  rule('FL', 'personal_injury', {
+    period: { years: 2 },
+    citation: 'Fla. Stat. § 95.11(4)(a)',
+    summary: 'Two years for negligence actions accruing on or after March 24, 2023; four years before',
+    priorPeriod: { accruedBefore: '2023-03-24', period: { years: 4 }, citation: 'Fla. Stat. § 95.11(3)(a) (2022)' }
+  }),
+  rule('FL', 'medical_malpractice', {
+    period: { years: 2 },
+    citation: 'Fla. Stat. § 95.11(4)(b)',
+    summary: 'Two years from discovery, but no more than four years from the incident',
+    discoveryRule: true,
+    repose: { years: 4 },
+    minors: { notBeforeAge: 8, citation: 'Fla. Stat. § 95.11(4)(b)' }
+  }),
+  rule('FL', 'workers_comp', {
+    period: { years: 2 },
+    citation: 'Fla. Stat. § 440.19',
+    summary: 'Two years from the date the employee knew or should have known the injury arose from work',
+    discoveryRule: true
+  }),
+  rule('IL', 'personal_injury', {
+    period: { years: 2 },
+    citation: '735 ILCS 5/13-202',
+    summary: 'Two years from the injury',
+    minors: { tolledUntilAge: 18, citation: '735 ILCS 5/13-211' }
+  }),
+  rule('IL', 'medical_malpractice', {
+    period: { years: 2 },
+    citation: '735 ILCS 5/13-212(a)',
+    summary: 'Two years from discovery, but no more than four years from the act',
+    discoveryRule: true,
+    repose: { years: 4 },
+    minors: { reposeYears: 8, notAfterAge: 22, citation: '735 ILCS 5/13-212(b)' }
+  }),
+  rule('IL', 'workers_comp', {
+    period: { years: 3 },
+    citation: '820 ILCS 305/6(d)',
+    summary: 'Three years from the accident'
+  }),
+  rule('NY', 'personal_injury', {
+    period: { years: 3 },
+    citation: 'N.Y. C.P.L.R. § 214(5)',
+    summary: 'Three years from the injury',
+    minors: { tolledUntilAge: 18, citation: 'N.Y. C.P.L.R. § 208' }
+  }),
+  rule('NY', 'medical_malpractice', {
+    period: { years: 2, months: 6 },
+    citation: 'N.Y. C.P.L.R. § 214-a',
+    summary: 'Two years and six months from the act or the end of continuous treatment',
+    minors: { tolledUntilAge: 18, maxTollingYears: 10, citation: 'N.Y. C.P.L.R. § 208' }
+  }),
+  rule('NY', 'workers_comp', {
+    period: { years: 2 },
+    citation: "N.Y. Workers' Comp. Law § 28",
+    summary: 'Two years from the accident'
+  }),
+  rule('PA', 'personal_injury', {
+    period: { years: 2 },
+    citation: '42 Pa.C.S. § 5524(2)',
+    summary: 'Two years from the injury',
+    discoveryRule: true,
+    minors: { tolledUntilAge: 18, citation: '42 Pa.C.S. § 5533(b)' }
+  }),
+  rule('PA', 'medical_malpractice', {
+    period: { years: 2 },
+    citation: '42 Pa.C.S. § 5524(2); 40 P.S. § 1303.513',
+    summary: 'Two years from discovery, but no more than seven years from the act',
+    discoveryRule: true,
+    repose: { years: 7 },
+    minors: { tolledUntilAge: 18, notAfterAge: 20, citation: '40 P.S. § 1303.513(c)' }
+  }),
+  rule('PA', 'workers_comp', {
+    period: { years: 3 },
+    citation: '77 P.S. § 602',
+    summary: 'Three years from the injury'
+  }),
+  rule('TX', 'personal_injury', {
+    period: { years: 2 },
+    citation: 'Tex. Civ. Prac. & Rem. Code § 16.003',
+    summary: 'Two years from the day the cause of action accrues',
+    minors: { tolledUntilAge: 18, citation: 'Tex. Civ. Prac. & Rem. Code § 16.001' }
+  }),
+  rule('TX', 'medical_malpractice', {
+    period: { years: 2 },
+    citation: 'Tex. Civ. Prac. & Rem. Code § 74.251',
+    summary: 'Two years from the breach or the completion of treatment',
+    repose: { years: 10 },
+    minors: { underAge: 12, notBeforeAge: 14, citation: 'Tex. Civ. Prac. & Rem. Code § 74.251(a)' }
+  }),
+  rule('TX', 'workers_comp', {
+    period: { years: 1 },
+    citation: 'Tex. Lab. Code § 409.003',
+    summary: 'One year from the injury'
+  }),
+  rule(DEFAULT_JURISDICTION, 'personal_injury', {
+    period: { years: 2 },
+    citation: 'General negligence period - verify for the jurisdiction',
+    summary: 'Two years from the injury (most common period)',
+    minors: { tolledUntilAge: 18, citation: 'Minority tolling - verify for the jurisdiction' }
+  }),
+  rule(DEFAULT_JURISDICTION, 'medical_malpractice', {
+    period: { years: 2 },
+    citation: 'General medical malpractice period - verify for the jurisdiction',
+    summary: 'Two years from discovery (most common period)',
+    discoveryRule: true
+  }),
+  rule(DEFAULT_JURISDICTION, 'workers_comp', {
+    period: { years: 1 },
+    citation: "Workers' compensation claim period - verify for the jurisdiction",
+    summary: 'One year from the injury (shortest common period)'
+  })
+]
+
+// Auto accidents and other claims follow the general personal injury period
+const RULE_CASE_TYPES: Record<CaseType, CaseType> = {
+  personal_injury: 'personal_injury',
+  auto_accident: 'personal_injury',
+  medical_malpractice: 'medical_malpractice',
+  workers_comp: 'workers_comp',
+  other: 'personal_injury'
+}
+
+export function findLimitationRule(jurisdiction: string | undefined, caseType: CaseType): LimitationRule {
+  const ruleCaseType = RULE_CASE_TYPES[caseType] || 'personal_injury'
+  const code = jurisdiction?.toUpperCase()
+  return (
+    LIMITATION_RULES.find(item => item.jurisdiction === code && item.caseType === ruleCaseType) ||
+    LIMITATION_RULES.find(item => item.jurisdiction === DEFAULT_JURISDICTION && item.caseType === ruleCaseType)!
+  )
+}
+
+// Parses yyyy-MM-dd (or a full ISO string) as a local calendar date
+function parseDateOnly(value?: string): Date | null {
+  if (!value) return null
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  if (!year || !month || !day) return null
+  return new Date(year, month - 1, day)
+}
+
+function addPeriod(date: Date, period: LimitationPeriod): Date {
+  return addMonths(addYears(date, period.years), period.months || 0)
+}
+
+// Claims that accrued before the law changed keep the period in force back then
+function periodFor(rule: LimitationRule, accrual: Date): LimitationPeriod {
+  const prior = rule.priorPeriod
+  return prior && accrual < parseDateOnly(prior.accruedBefore)! ? prior.period : rule.period
+}
+
+function describePeriod(period: LimitationPeriod): string {
+  const years = `${period.years} year${period.years === 1 ? '' : 's'}`
+  return period.months ? `${years} ${period.months} month${period.months === 1 ? '' : 's'}` : years
+}
+
+const displayDate = (date: Date) => format(date, 'MMM d, yyyy')
+const earlier = (a: Date, b: Date) => (a < b ? a : b)
+const later = (a: Date, b: Date) => (a > b ? a : b)
+
+export function getJurisdictionName(code?: string): string {
+  return (code && JURISDICTIONS[code.toUpperCase()]) || 'Other / unspecified'
+}
+
+// Returns null when there is no incident date to count from
+export function calculateStatuteOfLimitations(input: LimitationInput): LimitationResult | null {
+  const incident = parseDateOnly(input.incidentDate)
+  if (!incident) return null
+
+  const rule = findLimitationRule(input.jurisdiction, input.caseType)
+  const explanation = [`${getJurisdictionName(rule.jurisdiction)}: ${rule.summary} (${rule.citation}).`]
+  const discovery = parseDateOnly(input.discoveryDate)
+  const fromDiscovery = Boolean(rule.discoveryRule && discovery && discovery > incident)
+  const accrual = fromDiscovery ? discovery! : incident
+  const period = periodFor(rule, accrual)
+  let basis: LimitationResult['basis'] = fromDiscovery ? 'discovery' : 'incident'
+  let deadline = addPeriod(accrual, period)
+
+  if (fromDiscovery) {
+    explanation.push(`Discovery rule: ${describePeriod(period)} from discovery on ${displayDate(accrual)}.`)
+  } else {
+    explanation.push(`${describePeriod(period)} from the incident on ${displayDate(incident)}.`)
+  }
+  if (rule.priorPeriod && period === rule.priorPeriod.period) {
+    const cutoff = parseDateOnly(rule.priorPeriod.accruedBefore)!
+    explanation.push(`The claim accrued before ${displayDate(cutoff)}, so the earlier period applies (${rule.priorPeriod.citation}).`)
+  }
+
+  if (rule.repose) {
+    const reposeDate = addPeriod(incident, rule.repose)
+    if (reposeDate < deadline) {
+      deadline = reposeDate
+      explanation.push(`Capped by the statute of repose, ${describePeriod(rule.repose)} from the incident.`)
+    }
+  }
+
+  const birth = parseDateOnly(input.clientDateOfBirth)
+  const minors = rule.minors
+  if (birth && minors) {
+    const birthday = (age: number) => addYears(birth, age)
+    if (incident < birthday(minors.underAge ?? 18)) {
+      let minorDeadline: Date | null = null
+
+      if (minors.tolledUntilAge) {
+        let tollingEnds = birthday(minors.tolledUntilAge)
+        if (minors.maxTollingYears) {
+          tollingEnds = earlier(tollingEnds, addYears(incident, minors.maxTollingYears))
+        }
+        minorDeadline = addPeriod(tollingEnds, period)
+      }
+      if (minors.reposeYears) {
+        minorDeadline = addYears(incident, minors.reposeYears)
+      }
+      if (minors.notBeforeAge) {
+        minorDeadline = later(minorDeadline || deadline, birthday(minors.notBeforeAge))
+      }
+      if (minors.notAfterAge && minorDeadline) {
+        minorDeadline = earlier(minorDeadline, birthday(minors.notAfterAge))
+      }
+
+      if (minorDeadline && minorDeadline > deadline) {
+        deadline = minorDeadline
+        basis = 'minority'
+        explanation.push(`Extended because the client was a minor at the time of the incident (${minors.citation}).`)
+      }
+    }
+  }
+
+  return {
+    deadline: format(deadline, 'yyyy-MM-dd'),
+    rule,
+    basis,
+    explanation
+  }
+}
+
+// Fields to store on a case whenever its incident, jurisdiction or client details change
+export function getStatuteFields(case_: Partial<Case>): Pick<Case, 'statuteOfLimitations' | 'statuteRule'> {
+  if (!case_.caseType) return { statuteOfLimitations: undefined, statuteRule: undefined }
+
+  const result = calculateStatuteOfLimitations({
+    jurisdiction: case_.jurisdiction,
+    caseType: case_.caseType,
+    incidentDate: case_.incidentDate,
+    discoveryDate: case_.discoveryDate,
+    clientDateOfBirth: case_.clientDateOfBirth
+  })
+
+  return {
+    statuteOfLimitations: result?.deadline,
+    statuteRule: result?.rule.id
+  }
+}
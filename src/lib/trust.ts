@@ -0,0 +1,251 @@
+import type {
+  BankStatement,
+  BankStatementLine,
+  ClientLedger,
+  TrustCase,
+  TrustReconciliation,
+  TrustTransaction
+} from '@/types/trust'
+
+// Keep in sync with backend/services/trust.js.
+
+export const TRUST_OVERDRAFT = 'A client ledger cannot go below zero. Disburse no more than the funds held for that client.'
+export const TRUST_RECONCILED = 'Transactions in a reconciled month cannot be changed'
+export const TRUST_UNBALANCED = 'A month can only be signed off once the bank, journal and client ledgers agree'
+
+const MATCH_WINDOW_DAYS = 7
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+const sum = (values: number[]) => roundCents(values.reduce((total, value) => total + value, 0))
+
+export const signedAmount = (transaction: Pick<TrustTransaction, 'type' | 'amount'>) =>
+  transaction.type === 'deposit' ? transaction.amount : -transaction.amount
+
+// Deposits before disbursements on the same day, so a same-day deposit can fund a check
+const byPostingOrder = (a: TrustTransaction, b: TrustTransaction) =>
+  a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'deposit' ? -1 : 1)
+
+// Case whose ledger dips below zero at any point, if any. Bar rules forbid a negative
+// client balance even for a day, so the running balance is checked, not just the total.
+export function findOverdrawnCase(transactions: TrustTransaction[]): string | undefined {
+  const balances = new Map<string, number>()
+  for (const transaction of [...transactions].sort(byPostingOrder)) {
+    const balance = roundCents((balances.get(transaction.caseId) || 0) + signedAmount(transaction))
+    if (balance < 0) return transaction.caseId
+    balances.set(transaction.caseId, balance)
+  }
+  return undefined
+}
+
+export function buildClientLedgers(
+  transactions: TrustTransaction[],
+  cases: TrustCase[]
+): ClientLedger[] {
+  const casesById = new Map(cases.map(caseData => [caseData.id, caseData]))
+  const ledgers = new Map<string, ClientLedger>()
+
+  for (const transaction of [...transactions].sort(byPostingOrder)) {
+    const ledger = ledgers.get(transaction.caseId) || {
+      caseId: transaction.caseId,
+      clientName: transaction.clientName || casesById.get(transaction.caseId)?.clientName || 'Unknown client',
+      caseNumber: casesById.get(transaction.caseId)?.caseNumber || '',
+      balance: 0,
+      transactions: []
+    }
+    ledger.transactions.push(transaction)
+    ledger.balance = roundCents(ledger.balance + signedAmount(transaction))
+    ledgers.set(transaction.caseId, ledger)
+  }
+
+  return [...ledgers.values()].sort((a, b) => a.clientName.localeCompare(b.clientName))
+}
+
+// Splits one CSV row, honouring quoted fields with embedded commas and doubled quotes
+function splitCsvRow(row: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i]
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field.trim())
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field.trim())
+  return fields
+}
+
+const parseMoney = (value: string | undefined) => {
+  if (!value) return 0
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-')
+  const amount = parseFloat(value.replace(/[^0-9.]/g, '')) || 0
+  return negative ? -amount : amount
+}
+
+// Accepts yyyy-MM-dd and US MM/dd/yyyy dates
+function parseStatementDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/)
+  if (!us) return null
+  const year = us[3].length === 2 ? `20${us[3]}` : us[3]
+  return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`
+}
+
+// Bank exports differ; this reads the common layouts: a signed Amount column, or separate
+// Debit/Credit (Withdrawal/Deposit) columns, plus Date, Description and an optional check
+// or reference number
+export function parseBankStatementCsv(text: string): Omit<BankStatementLine, 'id'>[] {
+  const rows = text.split(/\r?\n/).filter(row => row.trim())
+  if (rows.length === 0) throw new Error('The statement file is empty')
+
+  const header = splitCsvRow(rows[0]).map(column => column.toLowerCase())
+  const column = (...names: string[]) => header.findIndex(name => names.some(candidate => name.includes(candidate)))
+  const date = column('date')
+  const description = column('description', 'memo', 'payee', 'details')
+  const amount = column('amount')
+  const debit = column('debit', 'withdrawal')
+  const credit = column('credit', 'deposit')
+  const reference = column('check', 'reference', 'ref')
+
+  if (date < 0 || (amount < 0 && (debit < 0 || credit < 0))) {
+    throw new Error('The statement needs a Date column and either an Amount column or Debit and Credit columns')
+  }
+
+  return rows.slice(1).flatMap(row => {
+    const fields = splitCsvRow(row)
+    const lineDate = parseStatementDate(fields[date] || '')
+    if (!lineDate) return []
+    const lineAmount = amount >= 0
+      ? parseMoney(fields[amount])
+      : Math.abs(parseMoney(fields[credit])) - Math.abs(parseMoney(fields[debit]))
+    if (lineAmount === 0) return []
+    return [{
+      date: lineDate,
+      description: description >= 0 ? fields[description] || '' : '',
+      amount: roundCents(lineAmount),
+      reference: reference >= 0 ? fields[reference] || '' : ''
+    }]
+  })
+}
+
+const daysApart = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000
+
+// Pairs each unmatched bank line with a journal transaction of the same signed amount,
+// preferring the same check number, then the closest date within a week. Transactions
+// already matched on any statement are skipped.
+export function matchBankLines(
+  lines: BankStatementLine[],
+  transactions: TrustTransaction[],
+  matchedIds: Set<string>
+): BankStatementLine[] {
+  const taken = new Set(matchedIds)
+  for (const line of lines) {
+    if (line.matchedTransactionId) taken.add(line.matchedTransactionId)
+  }
+
+  return lines.map(line => {
+    if (line.matchedTransactionId) return line
+    const candidates = transactions
+      .filter(transaction =>
+        !taken.has(transaction.id) &&
+        roundCents(signedAmount(transaction)) === roundCents(line.amount) &&
+        daysApart(transaction.date, line.date) <= MATCH_WINDOW_DAYS
+      )
+      .sort((a, b) => {
+        const referenceMatch = Number(!!line.reference && b.reference === line.reference) -
+          Number(!!line.reference && a.reference === line.reference)
+        return referenceMatch || daysApart(a.date, line.date) - daysApart(b.date, line.date)
+      })
+
+    if (candidates.length === 0) return line
+    taken.add(candidates[0].id)
+    return { ...line, matchedTransactionId: candidates[0].id }
+  })
+}
+
+export const monthEnd = (month: string) => `${month}-31` // Compares correctly against yyyy-MM-dd
+
+// The latest signed-off statement before the month, if any
+export function lastReconciledStatement(statements: BankStatement[], beforeMonth?: string): BankStatement | undefined {
+  return statements
+    .filter(statement => statement.reconciledAt && (!beforeMonth || statement.month < beforeMonth))
+    .sort((a, b) => b.month.localeCompare(a.month))[0]
+}
+
+// Transactions dated on or before the end of a signed-off month are final, like billed time
+export function isReconciledDate(date: string, statements: BankStatement[]): boolean {
+  const closed = lastReconciledStatement(statements)
+  return !!closed && date <= monthEnd(closed.month)
+}
+
+// Three-way reconciliation for a month. The journal leg starts from the balance recorded
+// when the last earlier month was signed off and adds the activity since, while the client
+// ledgers are rebuilt from every transaction, so a change to a closed month shows up as a
+// difference between the two.
+export function reconcileTrustAccount(
+  month: string,
+  statements: BankStatement[],
+  transactions: TrustTransaction[],
+  cases: TrustCase[]
+): TrustReconciliation {
+  const statement = statements.find(candidate => candidate.month === month)
+  const asOf = monthEnd(month)
+  const journal = transactions.filter(transaction => transaction.date <= asOf)
+
+  // Cleared means it has appeared on this or an earlier statement
+  const cleared = new Set(
+    statements
+      .filter(candidate => candidate.month <= month)
+      .flatMap(candidate => candidate.lines.map(line => line.matchedTransactionId))
+      .filter(Boolean)
+  )
+  const outstanding = journal.filter(transaction => !cleared.has(transaction.id))
+  const outstandingDeposits = outstanding.filter(transaction => transaction.type === 'deposit')
+  const outstandingDisbursements = outstanding.filter(transaction => transaction.type === 'disbursement')
+
+  const bankBalance = statement?.endingBalance || 0
+  const adjustedBankBalance = roundCents(
+    bankBalance + sum(outstandingDeposits.map(t => t.amount)) - sum(outstandingDisbursements.map(t => t.amount))
+  )
+  const opening = lastReconciledStatement(statements, month)
+  const journalBalance = roundCents((opening?.journalBalance || 0) + sum(
+    journal.filter(transaction => !opening || transaction.date > monthEnd(opening.month)).map(signedAmount)
+  ))
+  const clientLedgers = buildClientLedgers(journal, cases)
+  const clientLedgerTotal = sum(clientLedgers.map(ledger => ledger.balance))
+  const negativeLedgers = clientLedgers.filter(ledger => ledger.balance < 0)
+
+  return {
+    month,
+    reconciledAt: statement?.reconciledAt,
+    bankBalance,
+    outstandingDeposits,
+    outstandingDisbursements,
+    adjustedBankBalance,
+    openingMonth: opening?.month,
+    journalBalance,
+    clientLedgerTotal,
+    clientLedgers,
+    unmatchedBankLines: statement ? statement.lines.filter(line => !line.matchedTransactionId) : [],
+    negativeLedgers,
+    balanced: !!statement &&
+      adjustedBankBalance === journalBalance &&
+      journalBalance === clientLedgerTotal &&
+      negativeLedgers.length === 0
+  }
+}
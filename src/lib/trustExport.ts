@@ -0,0 +1,88 @@
+import { jsPDF } from 'jspdf'
+import { format, parseISO } from 'date-fns'
+import { LINE_HEIGHT, MARGIN, PAGE_HEIGHT, PAGE_WIDTH, drawPdfLetterhead, loadLogo } from './letterExport'
+import type { Letterhead } from '@/types/demandLetter'
+import type { TrustReconciliation, TrustTransaction } from '@/types/trust'
+
+interface ReconciliationContent {
+  letterhead: Letterhead
+  reconciliation: TrustReconciliation
+}
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+// Monthly three-way reconciliation report for the firm's trust account records, with the
+// outstanding items and every client ledger balance behind the totals
+export async function exportReconciliationToPdf(content: ReconciliationContent): Promise<Blob> {
+  const { letterhead, reconciliation } = content
+  const pdf = new jsPDF({ unit: 'pt', format: 'letter' })
+  const logo = await loadLogo(letterhead.logoUrl)
+  const right = PAGE_WIDTH - MARGIN
+
+  let y = drawPdfLetterhead(pdf, letterhead, logo)
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage()
+      y = drawPdfLetterhead(pdf, letterhead, logo)
+    }
+  }
+
+  const row = (label: string, amount: string, options: { bold?: boolean; indent?: number } = {}) => {
+    ensureSpace(LINE_HEIGHT)
+    pdf.setFont('times', options.bold ? 'bold' : 'normal')
+    pdf.text(label, MARGIN + (options.indent || 0), y, { maxWidth: right - MARGIN - 120 })
+    pdf.text(amount, right, y, { align: 'right' })
+    y += LINE_HEIGHT
+  }
+
+  const transactionRows = (transactions: TrustTransaction[]) =>
+    transactions.forEach(transaction => row(
+      `${format(parseISO(transaction.date), 'MM/dd/yyyy')}  ${transaction.counterparty}` +
+        `${transaction.reference ? ` #${transaction.reference}` : ''} (${transaction.clientName})`,
+      formatCurrency(transaction.amount),
+      { indent: 18 }
+    ))
+
+  pdf.setFont('times', 'bold').setFontSize(13)
+  pdf.text('TRUST ACCOUNT THREE-WAY RECONCILIATION', PAGE_WIDTH / 2, y, { align: 'center' })
+  y += LINE_HEIGHT
+  pdf.setFont('times', 'normal').setFontSize(11)
+  pdf.text(`Month ending ${format(parseISO(`${reconciliation.month}-01`), 'MMMM yyyy')}`, PAGE_WIDTH / 2, y, { align: 'center' })
+  y += LINE_HEIGHT * 2
+
+  row('1. Bank statement ending balance', formatCurrency(reconciliation.bankBalance), { bold: true })
+  row('Plus deposits in transit', '')
+  transactionRows(reconciliation.outstandingDeposits)
+  row('Less outstanding checks and disbursements', '')
+  transactionRows(reconciliation.outstandingDisbursements)
+  row('Adjusted bank balance', formatCurrency(reconciliation.adjustedBankBalance), { bold: true })
+  y += LINE_HEIGHT
+
+  row('2. Trust journal balance', formatCurrency(reconciliation.journalBalance), { bold: true })
+  y += LINE_HEIGHT
+
+  row('3. Total of client ledgers', formatCurrency(reconciliation.clientLedgerTotal), { bold: true })
+  reconciliation.clientLedgers.forEach(ledger =>
+    row(`${ledger.clientName}${ledger.caseNumber ? ` (${ledger.caseNumber})` : ''}`, formatCurrency(ledger.balance), { indent: 18 })
+  )
+  y += LINE_HEIGHT
+
+  if (reconciliation.unmatchedBankLines.length > 0) {
+    row('Bank items not in the trust journal', '', { bold: true })
+    reconciliation.unmatchedBankLines.forEach(line =>
+      row(`${format(parseISO(line.date), 'MM/dd/yyyy')}  ${line.description}`, formatCurrency(line.amount), { indent: 18 })
+    )
+    y += LINE_HEIGHT
+  }
+
+  ensureSpace(LINE_HEIGHT * 6)
+  row(reconciliation.balanced ? 'RECONCILED: all three balances agree' : 'NOT RECONCILED: investigate the differences above', '', { bold: true })
+  y += LINE_HEIGHT * 3
+  pdf.setLineWidth(0.5).line(MARGIN, y, MARGIN + 260, y).line(MARGIN + 300, y, right, y)
+  pdf.setFontSize(9)
+  pdf.text('Reviewed by', MARGIN, y + 12)
+  pdf.text('Date', MARGIN + 300, y + 12)
+
+  return pdf.output('blob')
+}
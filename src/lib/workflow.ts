@@ -0,0 +1,131 @@
+import type { Case } from '@/types/case'
+import type { CaseStatus, CaseWorkflow, ChecklistItem, WorkflowStage } from '@/types/workflow'
+
+// Case workflows: which status changes are allowed, what must be done before a case
+// leaves a stage, and the reminders created when it enters one.
+// Keep in sync with backend/services/workflow.js.
+
+export const CASE_STATUSES: Record<CaseStatus, string> = {
+  new: 'New',
+  investigating: 'Investigating',
+  negotiating: 'Negotiating',
+  litigation: 'Litigation',
+  settled: 'Settled',
+  closed: 'Closed'
+}
+
+const item = (id: string, label: string, required = true): ChecklistItem => ({ id, label, required })
+
+// Used for every case type until the firm saves its own workflow
+export const STANDARD_STAGES: WorkflowStage[] = [
+  {
+    status: 'new',
+    transitions: ['investigating', 'closed'],
+    checklist: [
+      item('conflict_check', 'Conflict check cleared'),
+      item('retainer_signed', 'Retainer agreement signed')
+    ],
+    tasks: [{ id: 'intake_packet', title: 'Send client intake packet', dueInDays: 3, priority: 'medium' }]
+  },
+  {
+    status: 'investigating',
+    transitions: ['negotiating', 'litigation', 'closed'],
+    checklist: [
+      item('police_report', 'Police report obtained'),
+      item('medical_records', 'Medical records obtained'),
+      item('insurance_notice', 'Insurer notified of claim'),
+      item('scene_photos', 'Scene and injury photos collected', false)
+    ],
+    tasks: [
+      { id: 'request_police_report', title: 'Request police report', dueInDays: 7, priority: 'high' },
+      { id: 'request_medical_records', title: 'Request medical records', dueInDays: 7, priority: 'high' }
+    ]
+  },
+  {
+    status: 'negotiating',
+    transitions: ['settled', 'litigation', 'closed'],
+    checklist: [
+      item('demand_sent', 'Demand sent'),
+      item('damages_documented', 'Damages documented')
+    ],
+    tasks: [{ id: 'demand_follow_up', title: 'Follow up on demand response', dueInDays: 30, priority: 'medium' }]
+  },
+  {
+    status: 'litigation',
+    transitions: ['negotiating', 'settled', 'closed'],
+    checklist: [
+      item('complaint_filed', 'Complaint filed'),
+      item('defendant_served', 'Defendant served')
+    ],
+    tasks: [{ id: 'serve_defendant', title: 'Serve defendant', dueInDays: 30, priority: 'high' }]
+  },
+  {
+    status: 'settled',
+    transitions: ['closed'],
+    checklist: [
+      item('release_signed', 'Release signed'),
+      item('funds_disbursed', 'Settlement funds disbursed')
+    ],
+    tasks: [{ id: 'disburse_funds', title: 'Disburse settlement funds', dueInDays: 14, priority: 'high' }]
+  },
+  {
+    status: 'closed',
+    transitions: [],
+    checklist: [],
+    tasks: [{ id: 'closing_letter', title: 'Send closing letter to client', dueInDays: 7, priority: 'low' }]
+  }
+]
+
+export function standardWorkflow(caseType: Case['caseType']): CaseWorkflow {
+  return { caseType, stages: STANDARD_STAGES, custom: false }
+}
+
+export const findStage = (workflow: CaseWorkflow, status: string) =>
+  workflow.stages.find(stage => stage.status === status)
+
+export const allowedTransitions = (workflow: CaseWorkflow, from: string): CaseStatus[] =>
+  findStage(workflow, from)?.transitions || []
+
+export const missingRequiredItems = (workflow: CaseWorkflow, status: string, completedIds: Set<string>) =>
+  (findStage(workflow, status)?.checklist || [])
+    .filter(checklistItem => checklistItem.required && !completedIds.has(checklistItem.id))
+
+// Why the case cannot move from one status to another, or null when it can
+export function transitionBlocker(
+  workflow: CaseWorkflow,
+  from: string,
+  to: string,
+  completedIds: Set<string>
+): string | null {
+  if (from === to) return null
+  const label = (status: string) => CASE_STATUSES[status as CaseStatus] || status
+  if (!allowedTransitions(workflow, from).includes(to as CaseStatus)) {
+    return `The workflow does not allow moving from ${label(from)} to ${label(to)}`
+  }
+
+  const missing = missingRequiredItems(workflow, from, completedIds)
+  if (missing.length > 0) {
+    return `Complete the ${label(from)} checklist first: ${missing.map(checklistItem => checklistItem.label).join(', ')}`
+  }
+  return null
+}
+
+// Problems that would make a workflow unusable, or null when it can be saved
+export function validateWorkflow(stages: WorkflowStage[]): string | null {
+  const statuses = new Set(stages.map(stage => stage.status))
+  if (statuses.size !== stages.length) return 'Each status can only have one stage'
+  if (!Object.keys(CASE_STATUSES).every(status => statuses.has(status as CaseStatus))) {
+    return 'Every status needs a stage'
+  }
+
+  for (const stage of stages) {
+    if (stage.transitions.includes(stage.status)) return `${CASE_STATUSES[stage.status]} cannot transition to itself`
+    if (stage.checklist.some(checklistItem => !checklistItem.label.trim()) || stage.tasks.some(task => !task.title.trim())) {
+      return `Name every checklist item and task in ${CASE_STATUSES[stage.status]}`
+    }
+    if (stage.tasks.some(task => !Number.isInteger(task.dueInDays) || task.dueInDays < 0)) {
+      return `Task due dates in ${CASE_STATUSES[stage.status]} must be zero or more whole days`
+    }
+  }
+  return null
+}
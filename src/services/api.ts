@@ -0,0 +1,67 @@
+// Client for the Node.js backend (see BACKEND_SETUP.md). Everything here is authorized on the
+// server; the browser only holds the session token.
+
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api'
+
+// Fired with the token as its detail when the server rejects it, so whoever holds it can sign out
+export const SESSION_EXPIRED_EVENT = 'api:session-expired'
+
+// SQLite timestamps are UTC without a zone marker
+export const fromServerTime = (value: string | null | undefined): string | null =>
+  value ? (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value) : null
+
+interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  token?: string | null
+  body?: unknown // Sent as JSON, or as-is when it is FormData
+}
+
+async function send(path: string, { method = 'GET', token, body }: ApiRequestOptions): Promise<Response> {
+  const headers: Record<string, string> = {}
+  if (token) headers.Authorization = `Bearer ${token}`
+  if (body !== undefined && !(body instanceof FormData)) headers['Content-Type'] = 'application/json'
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body === undefined || body instanceof FormData ? body : JSON.stringify(body)
+  })
+
+  if (!response.ok) {
+    if (response.status === 401 && token) {
+      window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT, { detail: token }))
+    }
+    // Errors come back as { error, message }, validation failures as { error, details }
+    const failure = await response.json().catch(() => null)
+    throw new Error(failure?.message || failure?.details?.[0]?.msg || failure?.error || `Request failed (${response.status})`)
+  }
+  return response
+}
+
+export async function apiRequest<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+  const response = await send(path, options)
+  return response.json()
+}
+
+// Fetches a file the server streams, so the session token never ends up in a link.
+// Opens it in a new tab, or saves it under filename when one is given.
+export async function openApiFile(path: string, token: string | null, filename?: string): Promise<void> {
+  // Open the tab before awaiting, while the click still allows popups
+  const tab = filename ? null : window.open('', '_blank')
+  try {
+    const blob = await (await send(path, { token })).blob()
+    const url = URL.createObjectURL(blob)
+    if (tab) {
+      tab.location.href = url
+    } else {
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename || ''
+      link.click()
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60_000)
+  } catch (error) {
+    tab?.close()
+    throw error
+  }
+}
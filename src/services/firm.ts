@@ -0,0 +1,355 @@
+import { apiRequest, fromServerTime, openApiFile } from './api'
+import { toCaseMessage } from './portal'
+import { findMatchingClient } from '@/lib/clients'
+import type { Client } from '@/types/client'
+import type {
+  DocumentAccessAction,
+  DocumentAccessEvent,
+  DocumentRequest,
+  DocumentShare,
+  PortalCaseDocument
+} from '@/types/documentShare'
+import type { InboxThread, MessageSource } from '@/types/message'
+import type { FirmSession, PortalCaseRecord, PortalInvitation } from '@/types/portal'
+
+// The firm's side of the client portal. Portal logins, client messages and shared documents
+// are kept by the backend, so the firm reaches them with its own backend sign-in.
+
+const FIRM_SESSION_KEY = 'firmSession'
+
+// Fired when the firm session starts or ends, so every card that uses it follows along
+export const FIRM_SESSION_EVENT = 'firm-session-change'
+
+export function loadFirmSession(): FirmSession | null {
+  try {
+    const stored = localStorage.getItem(FIRM_SESSION_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+function storeSession(session: FirmSession | null) {
+  if (session) {
+    localStorage.setItem(FIRM_SESSION_KEY, JSON.stringify(session))
+  } else {
+    localStorage.removeItem(FIRM_SESSION_KEY)
+  }
+  window.dispatchEvent(new Event(FIRM_SESSION_EVENT))
+}
+
+export async function firmLogin(email: string, password: string): Promise<FirmSession> {
+  const { token, user } = await apiRequest<{ token: string; user: any }>(
+    '/auth/login',
+    { method: 'POST', body: { email, password } }
+  )
+  const session: FirmSession = {
+    token,
+    user: { id: user.id, email: user.email, name: `${user.first_name} ${user.last_name}` }
+  }
+  storeSession(session)
+  return session
+}
+
+export async function firmLogout(session: FirmSession): Promise<void> {
+  storeSession(null)
+  await apiRequest('/auth/logout', { method: 'POST', token: session.token })
+    .catch(error => console.error('Error ending firm session:', error))
+}
+
+// Drops a session the server no longer accepts, unless another one replaced it already
+export function clearFirmSession(token: string) {
+  if (loadFirmSession()?.token === token) storeSession(null)
+}
+
+function toClient(row: any): Client {
+  return {
+    id: row.id,
+    userId: String(row.user_id),
+    name: row.name,
+    email: row.email || '',
+    phone: row.phone || '',
+    addressLine: row.address_line || '',
+    city: row.city || '',
+    state: row.state || '',
+    postalCode: row.postal_code || '',
+    dateOfBirth: row.date_of_birth || '',
+    preferredContactMethod: row.preferred_contact_method || 'email',
+    notes: row.notes || '',
+    createdAt: fromServerTime(row.created_at) || row.created_at,
+    updatedAt: fromServerTime(row.updated_at) || row.updated_at
+  }
+}
+
+function toInvitation(row: any): PortalInvitation {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    email: row.email,
+    expiresAt: fromServerTime(row.expires_at) || row.expires_at,
+    createdAt: fromServerTime(row.created_at) || row.created_at,
+    acceptedAt: fromServerTime(row.accepted_at),
+    revokedAt: fromServerTime(row.revoked_at),
+    status: row.status
+  }
+}
+
+// The backend's record of the firm's client, matched the same way cases are linked to clients
+async function findPortalClient(session: FirmSession, client: Client): Promise<Client | undefined> {
+  const { clients } = await apiRequest<{ clients: any[] }>(
+    `/clients?search=${encodeURIComponent(client.name.trim())}`,
+    { token: session.token }
+  )
+  return findMatchingClient(clients.map(toClient), {
+    clientName: client.name,
+    clientEmail: client.email,
+    clientPhone: client.phone,
+    clientDateOfBirth: client.dateOfBirth
+  })
+}
+
+async function ensurePortalClient(session: FirmSession, client: Client): Promise<Client> {
+  const existing = await findPortalClient(session, client)
+  if (existing) return existing
+
+  // The firm's private notes on the client stay out of the portal's records
+  const { client: created } = await apiRequest<{ client: any }>('/clients', {
+    method: 'POST',
+    token: session.token,
+    body: {
+      name: client.name,
+      email: client.email,
+      phone: client.phone,
+      addressLine: client.addressLine,
+      city: client.city,
+      state: client.state,
+      postalCode: client.postalCode,
+      dateOfBirth: client.dateOfBirth,
+      preferredContactMethod: client.preferredContactMethod
+    }
+  })
+  return toClient(created)
+}
+
+// The client's invitations, newest first; none until the client has been invited once
+export async function listClientInvitations(session: FirmSession, client: Client): Promise<PortalInvitation[]> {
+  const portalClient = await findPortalClient(session, client)
+  if (!portalClient) return []
+
+  const { invitations } = await apiRequest<{ invitations: any[] }>(
+    `/clients/${portalClient.id}/invitations`,
+    { token: session.token }
+  )
+  return invitations.map(toInvitation)
+}
+
+// Emails the client a link to create their portal login. Earlier unused links stop working.
+export async function sendClientInvitation(session: FirmSession, client: Client): Promise<PortalInvitation[]> {
+  if (!client.email) {
+    throw new Error('Add an email address for this client before inviting them to the portal')
+  }
+
+  const portalClient = await ensurePortalClient(session, client)
+  const { invitations } = await apiRequest<{ invitations: any[] }>(
+    `/clients/${portalClient.id}/invitations`,
+    { method: 'POST', token: session.token }
+  )
+  return invitations.map(toInvitation)
+}
+
+// Withdraws an invitation; once the client has used it, the server also disables their
+// portal login and signs them out
+export async function revokeClientInvitation(
+  session: FirmSession,
+  invitation: PortalInvitation
+): Promise<PortalInvitation[]> {
+  const { invitations } = await apiRequest<{ invitations: any[] }>(
+    `/clients/${invitation.clientId}/invitations/${invitation.id}`,
+    { method: 'DELETE', token: session.token }
+  )
+  return invitations.map(toInvitation)
+}
+
+// The backend's copy of a firm case, found by its case number; null when it is not on the portal
+export async function findPortalCase(session: FirmSession, caseNumber: string): Promise<PortalCaseRecord | null> {
+  const { cases } = await apiRequest<{ cases: any[] }>(
+    `/cases?search=${encodeURIComponent(caseNumber)}&limit=100`,
+    { token: session.token }
+  )
+  const found = cases.find(row => row.case_number === caseNumber)
+  return found
+    ? { id: found.id, userId: String(found.user_id), caseNumber: found.case_number, clientName: found.client_name }
+    : null
+}
+
+// Every client thread on the user's cases, most recently active first
+export async function listMessageInbox(session: FirmSession): Promise<InboxThread[]> {
+  const { threads } = await apiRequest<{ threads: any[] }>('/messages/inbox?all=true', { token: session.token })
+  return threads.map(thread => ({
+    caseId: thread.case_id,
+    caseNumber: thread.case_number,
+    clientName: thread.client_name,
+    messageCount: thread.message_count,
+    unread: thread.unread,
+    awaitingSince: fromServerTime(thread.awaiting_since),
+    latest: toCaseMessage(thread.latest)
+  }))
+}
+
+// Case threads for the firm, on the same backend rows the portal reads and writes
+export function firmMessages(session: FirmSession): MessageSource {
+  return {
+    listMessages: async caseId => {
+      const { messages } = await apiRequest<{ messages: any[] }>(`/messages/cases/${caseId}`, { token: session.token })
+      return messages.map(toCaseMessage)
+    },
+    markThreadRead: async (thread) => {
+      if (thread.length === 0) return thread
+      await apiRequest(`/messages/cases/${thread[0].caseId}/read`, { method: 'POST', token: session.token })
+      const readAt = new Date().toISOString()
+      return thread.map(message => (message.sender !== 'attorney' && !message.readAt ? { ...message, readAt } : message))
+    },
+    sendMessage: async (caseRecord, _sender, text, files) => {
+      const form = new FormData()
+      form.append('message', text.trim())
+      files.forEach(file => form.append('attachments', file))
+      const { clientMessage } = await apiRequest<{ clientMessage: any }>(
+        `/messages/cases/${caseRecord.id}`,
+        { method: 'POST', token: session.token, body: form }
+      )
+      return toCaseMessage(clientMessage)
+    },
+    openAttachment: attachment =>
+      openApiFile(`/messages/attachments/${attachment.id}`, session.token, attachment.name)
+  }
+}
+
+function toShare(row: any): DocumentShare {
+  return {
+    id: row.id,
+    caseId: row.case_id,
+    documentId: row.document_id,
+    sharedAt: fromServerTime(row.created_at) || row.created_at,
+    expiresAt: fromServerTime(row.expires_at),
+    revokedAt: fromServerTime(row.revoked_at)
+  }
+}
+
+function toCaseDocument(row: any, caseId: string): PortalCaseDocument {
+  return {
+    id: row.id,
+    caseId,
+    fileName: row.original_name,
+    fileSize: row.file_size,
+    mimeType: row.mime_type,
+    documentType: row.document_type,
+    description: row.description || '',
+    uploadedAt: fromServerTime(row.uploaded_at) || row.uploaded_at,
+    share: row.share ? toShare(row.share) : null
+  }
+}
+
+function toRequest(row: any): DocumentRequest {
+  return {
+    id: row.id,
+    caseId: row.case_id,
+    title: row.title,
+    documentType: row.document_type,
+    notes: row.notes || '',
+    createdAt: fromServerTime(row.created_at) || row.created_at,
+    documentId: row.document_id || null,
+    fulfilledAt: fromServerTime(row.fulfilled_at),
+    cancelledAt: fromServerTime(row.cancelled_at)
+  }
+}
+
+// The case's files on the portal, newest first, including what the client uploaded
+export async function listCaseDocuments(session: FirmSession, caseId: string): Promise<PortalCaseDocument[]> {
+  const { documents } = await apiRequest<{ documents: any[] }>(`/documents/case/${caseId}`, { token: session.token })
+  return documents.map(row => toCaseDocument(row, caseId))
+}
+
+export async function uploadCaseDocument(
+  session: FirmSession,
+  caseId: string,
+  file: File,
+  documentType: string
+): Promise<void> {
+  const form = new FormData()
+  form.append('document', file)
+  form.append('documentType', documentType)
+  await apiRequest(`/documents/upload/${caseId}`, { method: 'POST', token: session.token, body: form })
+}
+
+// The server logs the firm's view or download before sending the file
+export function openCaseDocument(
+  session: FirmSession,
+  document: PortalCaseDocument,
+  action: DocumentAccessAction
+): Promise<void> {
+  return openApiFile(
+    `/documents/${action}/${document.id}`,
+    session.token,
+    action === 'download' ? document.fileName : undefined
+  )
+}
+
+// Shares the document with the case's client until expiresAt, or until revoked when null.
+// An earlier share of the same document is replaced.
+export async function shareCaseDocument(
+  session: FirmSession,
+  documentId: string,
+  expiresAt: string | null
+): Promise<DocumentShare> {
+  const { share } = await apiRequest<{ share: any }>(
+    `/documents/${documentId}/share`,
+    { method: 'POST', token: session.token, body: { expiresAt } }
+  )
+  return toShare(share)
+}
+
+export async function revokeCaseDocumentShare(session: FirmSession, documentId: string): Promise<void> {
+  await apiRequest(`/documents/${documentId}/share`, { method: 'DELETE', token: session.token })
+}
+
+// The document's views and downloads, by the firm and the client, newest first
+export async function listDocumentAccess(session: FirmSession, documentId: string): Promise<DocumentAccessEvent[]> {
+  const { accessLog } = await apiRequest<{ accessLog: any[] }>(
+    `/documents/${documentId}/access-log`,
+    { token: session.token }
+  )
+  return accessLog.map(row => ({
+    id: row.id,
+    documentId: row.document_id,
+    action: row.action,
+    actor: row.actor,
+    actorName: row.first_name ? `${row.first_name} ${row.last_name}` : '',
+    createdAt: fromServerTime(row.created_at) || row.created_at
+  }))
+}
+
+export async function listDocumentRequests(session: FirmSession, caseId: string): Promise<DocumentRequest[]> {
+  const { requests } = await apiRequest<{ requests: any[] }>(`/documents/case/${caseId}/requests`, { token: session.token })
+  return requests.map(toRequest)
+}
+
+// Asks the client to upload a document through the portal; it is filed under documentType
+export async function requestDocument(
+  session: FirmSession,
+  caseId: string,
+  input: { title: string; documentType: string; notes: string }
+): Promise<DocumentRequest> {
+  if (!input.title.trim()) {
+    throw new Error('Say which document you need')
+  }
+
+  const { request } = await apiRequest<{ request: any }>(
+    `/documents/case/${caseId}/requests`,
+    { method: 'POST', token: session.token, body: input }
+  )
+  return toRequest(request)
+}
+
+export async function cancelDocumentRequest(session: FirmSession, request: DocumentRequest): Promise<void> {
+  await apiRequest(`/documents/requests/${request.id}`, { method: 'DELETE', token: session.token })
+}
@@ -0,0 +1,248 @@
+import { apiRequest, fromServerTime, openApiFile } from './api'
+import type { DocumentAccessAction } from '@/types/documentShare'
+import type { CaseMessage, MessageSource } from '@/types/message'
+import type {
+  PortalCase,
+  PortalClient,
+  PortalDocument,
+  PortalDocumentRequest,
+  PortalFirm,
+  PortalInvitationSummary,
+  PortalSession
+} from '@/types/portal'
+import type { SettlementStatement } from '@/types/settlement'
+
+// The client portal's backend calls. Every route under /portal is scoped on the server to
+// the signed-in user's client; nothing here filters the firm's data in the browser.
+
+const SESSION_KEY = 'portalSession'
+
+export function loadPortalSession(): PortalSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+function startSession({ token, user }: { token: string; user: any }): PortalSession {
+  const session: PortalSession = {
+    token,
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      clientId: user.client_id
+    }
+  }
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  return session
+}
+
+export async function getPortalInvitation(token: string): Promise<PortalInvitationSummary> {
+  const { invitation } = await apiRequest<{ invitation: PortalInvitationSummary }>(
+    `/portal/invitations/${encodeURIComponent(token)}`
+  )
+  return invitation
+}
+
+// Creates the client's login from their invitation; it uses the invited email address
+export async function registerPortalAccount(input: {
+  token: string
+  firstName: string
+  lastName: string
+  password: string
+}): Promise<PortalSession> {
+  return startSession(await apiRequest('/portal/register', { method: 'POST', body: input }))
+}
+
+export async function portalLogin(email: string, password: string): Promise<PortalSession> {
+  return startSession(await apiRequest('/portal/login', { method: 'POST', body: { email, password } }))
+}
+
+export async function portalLogout(session: PortalSession): Promise<void> {
+  localStorage.removeItem(SESSION_KEY)
+  await apiRequest('/auth/logout', { method: 'POST', token: session.token })
+    .catch(error => console.error('Error ending portal session:', error))
+}
+
+// The client's details and the attorney on their cases
+export async function getPortalProfile(session: PortalSession): Promise<{ client: PortalClient | null; firm: PortalFirm }> {
+  const { client, attorneys } = await apiRequest<{ client: any; attorneys: any[] }>('/portal/me', { token: session.token })
+  const attorney = attorneys[0]
+  return {
+    client: client
+      ? {
+        name: client.name,
+        email: client.email || '',
+        phone: client.phone || '',
+        addressLine: client.address_line || '',
+        city: client.city || '',
+        state: client.state || '',
+        postalCode: client.postal_code || ''
+      }
+      : null,
+    firm: {
+      attorneyName: attorney ? `${attorney.first_name} ${attorney.last_name}` : '',
+      firmName: attorney?.firm_name || '',
+      email: attorney?.email || '',
+      phone: attorney?.phone || ''
+    }
+  }
+}
+
+export async function listPortalCases(session: PortalSession): Promise<PortalCase[]> {
+  const { cases } = await apiRequest<{ cases: any[] }>('/portal/cases', { token: session.token })
+  return cases.map(row => ({
+    id: row.id,
+    caseNumber: row.case_number,
+    title: row.title,
+    caseType: row.case_type,
+    status: row.status,
+    description: row.description || '',
+    settlementAmount: Number(row.settlement_amount) || undefined,
+    nextDeadline: row.next_deadline || undefined,
+    createdAt: fromServerTime(row.created_at) || row.created_at
+  }))
+}
+
+function toStatement(statement: any): SettlementStatement {
+  return {
+    ...statement,
+    userId: '',
+    attorneyApproval: statement.attorneyApproval || undefined,
+    clientApproval: statement.clientApproval || undefined,
+    lockedAt: statement.lockedAt || undefined
+  }
+}
+
+export async function getPortalStatement(session: PortalSession, caseId: string): Promise<SettlementStatement | null> {
+  const { statement } = await apiRequest<{ statement: any }>(
+    `/portal/cases/${caseId}/settlement-statement`,
+    { token: session.token }
+  )
+  return statement ? toStatement(statement) : null
+}
+
+export async function approvePortalStatement(session: PortalSession, caseId: string): Promise<SettlementStatement> {
+  const { statement } = await apiRequest<{ statement: any }>(
+    `/portal/cases/${caseId}/settlement-statement/approve`,
+    { method: 'POST', token: session.token }
+  )
+  return toStatement(statement)
+}
+
+// Message rows look the same to the firm's /messages routes and the portal's
+export function toCaseMessage(row: any): CaseMessage {
+  return {
+    id: row.id,
+    userId: '',
+    caseId: row.case_id,
+    sender: row.sender,
+    senderName: row.sender_name || '',
+    message: row.message || '',
+    attachments: (row.attachments || []).map((attachment: any) => ({
+      id: attachment.id,
+      name: attachment.original_name,
+      size: attachment.file_size,
+      type: attachment.mime_type
+    })),
+    createdAt: fromServerTime(row.created_at) || row.created_at,
+    readAt: fromServerTime(row.read_at)
+  }
+}
+
+export async function listPortalMessages(session: PortalSession, caseId: string): Promise<CaseMessage[]> {
+  const { messages } = await apiRequest<{ messages: any[] }>(`/portal/cases/${caseId}/messages`, { token: session.token })
+  return messages.map(toCaseMessage)
+}
+
+// Case threads for the signed-in client; attachments are served by the backend after its access check
+export function portalMessages(session: PortalSession): MessageSource {
+  return {
+    listMessages: caseId => listPortalMessages(session, caseId),
+    markThreadRead: async (thread) => {
+      if (thread.length === 0) return thread
+      await apiRequest(`/portal/cases/${thread[0].caseId}/messages/read`, { method: 'POST', token: session.token })
+      const readAt = new Date().toISOString()
+      return thread.map(message => (message.sender !== 'client' && !message.readAt ? { ...message, readAt } : message))
+    },
+    sendMessage: async (caseRecord, _sender, text, files) => {
+      const form = new FormData()
+      form.append('message', text.trim())
+      files.forEach(file => form.append('attachments', file))
+      const { clientMessage } = await apiRequest<{ clientMessage: any }>(
+        `/portal/cases/${caseRecord.id}/messages`,
+        { method: 'POST', token: session.token, body: form }
+      )
+      return toCaseMessage(clientMessage)
+    },
+    openAttachment: attachment =>
+      openApiFile(`/portal/messages/attachments/${attachment.id}`, session.token, attachment.name)
+  }
+}
+
+// Documents the firm shares right now; expired and revoked shares are left out by the server
+export async function listPortalDocuments(session: PortalSession): Promise<PortalDocument[]> {
+  const { documents } = await apiRequest<{ documents: any[] }>('/portal/documents', { token: session.token })
+  return documents.map(row => ({
+    id: row.id,
+    caseId: row.case_id,
+    caseNumber: row.case_number,
+    fileName: row.original_name,
+    fileSize: row.file_size,
+    mimeType: row.mime_type,
+    documentType: row.document_type,
+    description: row.description || '',
+    sharedAt: fromServerTime(row.shared_at) || row.shared_at,
+    expiresAt: fromServerTime(row.expires_at)
+  }))
+}
+
+// The server checks the share and logs the view or download before sending the file
+export function openPortalDocument(
+  session: PortalSession,
+  document: PortalDocument,
+  action: DocumentAccessAction
+): Promise<void> {
+  return openApiFile(
+    `/portal/documents/${document.id}/${action}`,
+    session.token,
+    action === 'download' ? document.fileName : undefined
+  )
+}
+
+function toRequest(row: any, caseNumber = ''): PortalDocumentRequest {
+  return {
+    id: row.id,
+    caseId: row.case_id,
+    caseNumber: row.case_number || caseNumber,
+    title: row.title,
+    documentType: row.document_type,
+    notes: row.notes || '',
+    fulfilledAt: fromServerTime(row.fulfilled_at),
+    createdAt: fromServerTime(row.created_at) || row.created_at
+  }
+}
+
+export async function listPortalRequests(session: PortalSession): Promise<PortalDocumentRequest[]> {
+  const { requests } = await apiRequest<{ requests: any[] }>('/portal/document-requests', { token: session.token })
+  return requests.map(row => toRequest(row))
+}
+
+// Uploads the client's file for a request; the firm files it under the requested type
+export async function uploadPortalRequest(
+  session: PortalSession,
+  request: PortalDocumentRequest,
+  file: File
+): Promise<PortalDocumentRequest> {
+  const form = new FormData()
+  form.append('document', file)
+  const { request: fulfilled } = await apiRequest<{ request: any }>(
+    `/portal/document-requests/${request.id}/upload`,
+    { method: 'POST', token: session.token, body: form }
+  )
+  return toRequest(fulfilled, request.caseNumber)
+}
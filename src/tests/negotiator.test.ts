@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, test } from 'vitest'
+import { createStubChatModel, getChatModel, setChatModel } from '@/blink/chatModels'
+import { askNegotiator, type ChatTurn } from '@/lib/negotiator'
+import type { Case, Document } from '@/types/case'
+
+const caseData = {
+  id: 'case-1',
+  caseNumber: 'PI-2026-014',
+  clientName: 'Jane Doe',
+  caseType: 'auto_accident',
+  status: 'negotiating',
+  insuranceCompany: 'State Farm',
+  estimatedValue: 85000,
+  currentOffer: 20000
+} as Case
+
+const documents = [{
+  id: 'doc-1',
+  caseId: 'case-1',
+  fileName: 'er-records.pdf',
+  category: 'medical',
+  extractedText: 'Emergency room visit, cervical strain, total charges $12,400',
+  aiAnalysis: 'Soft tissue injury with 6 weeks of physical therapy'
+}] as Document[]
+
+describe('askNegotiator', () => {
+  afterEach(() => setChatModel(null))
+
+  test('grounds the injected model in the case and streams its reply', async () => {
+    let sent: ChatTurn[] = []
+    setChatModel(createStubChatModel(messages => {
+      sent = messages
+      return 'Counter at $60,000 and cite the ER charges.'
+    }))
+
+    const tokens: string[] = []
+    const reply = await askNegotiator(
+      getChatModel(),
+      {
+        caseData,
+        documents,
+        figures: { demandAmount: 75000 },
+        history: [{ role: 'assistant', content: 'How can I help?' }],
+        question: 'How should I answer the $20,000 offer?'
+      },
+      token => tokens.push(token)
+    )
+
+    expect(reply).toBe('Counter at $60,000 and cite the ER charges.')
+    expect(tokens.join('')).toBe(reply)
+    expect(sent.map(turn => turn.role)).toEqual(['system', 'assistant', 'user'])
+    expect(sent[0].content).toContain('Insurance company: State Farm')
+    expect(sent[0].content).toContain('Current offer: $20,000')
+    expect(sent[0].content).toContain('Demand: $75,000')
+    expect(sent[0].content).toContain('total charges $12,400')
+    expect(sent[2].content).toBe('How should I answer the $20,000 offer?')
+  })
+
+  test('stops streaming when the request is aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const tokens: string[] = []
+
+    await askNegotiator(
+      createStubChatModel('This reply is never shown'),
+      { caseData, documents: [], history: [], question: 'Anything?' },
+      token => tokens.push(token),
+      controller.signal
+    )
+
+    expect(tokens).toEqual([])
+  })
+})
@@ -0,0 +1,55 @@
+export type AnalyticsRange = '1month' | '3months' | '6months' | '1year'
+
+// The case fields the analytics read
+export interface AnalyticsCase {
+  id: string
+  caseType: string
+  status: string
+  createdAt: string
+  settlementAmount: number
+}
+
+export interface AnalyticsNegotiation {
+  caseId: string
+  status: 'pending' | 'countered' | 'accepted' | 'rejected'
+  currentOffer: number
+  demandAmount: number
+  updatedAt: string
+}
+
+export interface MonthlyAnalytics {
+  month: string // yyyy-MM
+  label: string
+  cases: number // Opened that month
+  settlements: number // Settled that month
+  revenue: number // Gross settlements that month
+}
+
+// Average length of the stretches cases spent in a status before moving on
+export interface StageDuration {
+  status: string
+  averageDays: number
+  visits: number
+}
+
+// Figures for one time range. Ratios are percentages and null when there is nothing to
+// measure yet, so the dashboard can say so instead of showing 0%.
+export interface CaseAnalytics {
+  range: AnalyticsRange
+  since: string
+  newCases: number
+  openCases: number
+  settledCases: number
+  totalSettlements: number
+  averageSettlement: number | null
+  avgDaysToSettle: number | null
+  fastestDaysToSettle: number | null
+  slowestDaysToSettle: number | null
+  successRate: number | null // Settled out of all cases resolved in the range
+  negotiationSuccess: number | null // Accepted out of concluded negotiations
+  demandRecovered: number | null // Average accepted offer as a share of the demand
+  monthly: MonthlyAnalytics[]
+  casesByType: Array<{ type: string; count: number; value: number }>
+  casesByStatus: Array<{ status: string; count: number }>
+  timeInStage: StageDuration[] // Stretches that ended in the range
+}
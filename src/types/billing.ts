@@ -0,0 +1,66 @@
+// UTBMS activity code, e.g. A103 (Draft/revise)
+export type ActivityCode = string
+
+export type InvoiceStatus = 'unpaid' | 'paid'
+
+// A team member who can record time, with the rate their time is billed at
+export interface Timekeeper {
+  userId: string
+  memberId?: string // company_members row; absent when the user has no company
+  name: string
+  rateOverride?: number // Replaces the firm's standard rate for this member
+}
+
+export interface BillingSettings {
+  companyId?: string
+  billingRate: number // Firm's standard hourly rate
+  currency: string
+  timekeepers: Timekeeper[]
+}
+
+export interface TimeEntryInput {
+  timekeeperId: string // userId of the team member who did the work
+  timekeeperName: string
+  date: string
+  minutes: number
+  activityCode: ActivityCode
+  description: string
+  rate: number // Hourly rate when the entry was recorded
+}
+
+export interface TimeEntry extends TimeEntryInput {
+  id: string
+  caseId: string
+  userId: string
+  timerStartedAt?: string // Set while the timer is running; minutes are added when it stops
+  invoiceId?: string // Set once the entry has been billed
+  createdAt: string
+  updatedAt: string
+}
+
+export interface InvoiceLine {
+  timeEntryId: string
+  date: string
+  timekeeperName: string
+  activityCode: ActivityCode
+  description: string
+  hours: number
+  rate: number
+  amount: number
+}
+
+export interface Invoice {
+  id: string
+  caseId: string
+  userId: string
+  invoiceNumber: string
+  issueDate: string
+  dueDate: string
+  currency: string
+  lines: InvoiceLine[]
+  total: number
+  status: InvoiceStatus
+  paidAt?: string
+  createdAt: string
+  updatedAt: string
+}
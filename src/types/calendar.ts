@@ -0,0 +1,35 @@
+// Calendar event record (snake_case - matches the calendar_events table)
+export interface CalendarEvent {
+  id: string
+  title: string
+  description: string
+  start_date: string
+  end_date: string
+  event_type: 'meeting' | 'court' | 'deadline' | 'consultation' | 'deposition' | 'other'
+  location: string
+  attendees: string
+  case_id?: string
+  priority: 'low' | 'medium' | 'high'
+  reminder_minutes: number
+  user_id: string
+  created_at: string
+  updated_at?: string
+  recurrence_rule?: string // RFC 5545 RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO
+  recurrence_exceptions?: string // Comma-separated ISO starts of skipped occurrences (EXDATE)
+  recurrence_parent_id?: string // Series that an individually edited occurrence was detached from
+  time_zone?: string // IANA zone the series repeats in; older events repeat in the viewer's zone
+}
+
+// A single occurrence of an event inside the visible range
+export interface CalendarOccurrence extends CalendarEvent {
+  occurrence_start: string // Start generated by the recurrence rule, before any edits
+}
+
+export type CalendarEventInput = Omit<CalendarEvent, 'id' | 'user_id' | 'created_at' | 'updated_at'>
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all'
+
+export interface DateRange {
+  start: Date
+  end: Date
+}
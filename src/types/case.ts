@@ -2,6 +2,7 @@
 export interface CaseDB {
   id: string
   case_number: string
+  client_id?: string // The clients record; client_* columns are a copy of its contact details
   client_name: string
   client_email: string
   client_phone: string
@@ -20,6 +21,12 @@ export interface CaseDB {
   user_id: string
   next_deadline?: string
   settlement_goal?: number
+  jurisdiction?: string // US state code, e.g. CA
+  discovery_date?: string
+  client_date_of_birth?: string
+  statute_of_limitations?: string
+  statute_rule?: string // Id of the limitation rule that produced statute_of_limitations
+  financials_locked?: boolean // Set once both sides approve the settlement statement
 }
 
 export interface DocumentDB {
@@ -29,7 +36,7 @@ export interface DocumentDB {
   file_type: string
   file_size: number
   uploaded_at: string
-  category: 'medical' | 'police_report' | 'insurance' | 'correspondence' | 'evidence' | 'other'
+  category: 'medical' | 'police_report' | 'insurance' | 'correspondence' | 'evidence' | 'receipt' | 'other'
   extracted_text?: string
   ai_analysis?: string
   public_url: string
@@ -40,6 +47,7 @@ export interface DocumentDB {
 export interface Case {
   id: string
   caseNumber: string
+  clientId?: string // The clients record; client* fields are a copy of its contact details
   clientName: string
   clientEmail: string
   clientPhone: string
@@ -58,6 +66,12 @@ export interface Case {
   userId: string
   nextDeadline?: string
   settlementGoal?: number
+  jurisdiction?: string // US state code, e.g. CA
+  discoveryDate?: string
+  clientDateOfBirth?: string
+  statuteOfLimitations?: string
+  statuteRule?: string // Id of the limitation rule that produced statuteOfLimitations
+  financialsLocked?: boolean // Set once both sides approve the settlement statement
 }
 
 export interface Document {
@@ -67,7 +81,7 @@ export interface Document {
   fileType: string
   fileSize: number
   uploadedAt: string
-  category: 'medical' | 'police_report' | 'insurance' | 'correspondence' | 'evidence' | 'other'
+  category: 'medical' | 'police_report' | 'insurance' | 'correspondence' | 'evidence' | 'receipt' | 'other'
   extractedText?: string
   aiAnalysis?: string
   publicUrl: string
@@ -96,7 +110,13 @@ export function dbCaseToCase(dbCase: CaseDB): Case {
     updatedAt: dbCase.updated_at,
     userId: dbCase.user_id,
     nextDeadline: dbCase.next_deadline,
-    settlementGoal: dbCase.settlement_goal
+    settlementGoal: dbCase.settlement_goal,
+    jurisdiction: dbCase.jurisdiction,
+    discoveryDate: dbCase.discovery_date,
+    clientDateOfBirth: dbCase.client_date_of_birth,
+    statuteOfLimitations: dbCase.statute_of_limitations,
+    statuteRule: dbCase.statute_rule,
+    financialsLocked: dbCase.financials_locked
   }
 }
 
@@ -121,7 +141,13 @@ export function caseToCaseDB(case_: Partial<Case>): Partial<CaseDB> {
     updated_at: case_.updatedAt,
     user_id: case_.userId,
     next_deadline: case_.nextDeadline,
-    settlement_goal: case_.settlementGoal
+    settlement_goal: case_.settlementGoal,
+    jurisdiction: case_.jurisdiction,
+    discovery_date: case_.discoveryDate,
+    client_date_of_birth: case_.clientDateOfBirth,
+    statute_of_limitations: case_.statuteOfLimitations,
+    statute_rule: case_.statuteRule,
+    financials_locked: case_.financialsLocked
   }
 }
 
@@ -172,4 +198,17 @@ export interface AIAnalysis {
   opportunities: string[]
   similarCases: string[]
   confidence: number
-}
\ No newline at end of file
+}
+export type TrackedCaseField = 'status' | 'priority'
+
+// One entry per status or priority transition; userId is whoever made the change
+export interface CaseStatusChange {
+  id: string
+  caseId: string
+  userId: string
+  actorName: string
+  field: TrackedCaseField
+  fromValue: string
+  toValue: string
+  changedAt: string
+}
@@ -0,0 +1,35 @@
+export type ContactMethod = 'email' | 'phone' | 'text' | 'mail'
+
+export interface ClientInput {
+  name: string
+  email: string
+  phone: string
+  addressLine: string
+  city: string
+  state: string // US state code, e.g. CA
+  postalCode: string
+  dateOfBirth: string // yyyy-MM-dd, empty when unknown
+  preferredContactMethod: ContactMethod
+  notes: string
+}
+
+export interface Client extends ClientInput {
+  id: string
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+// The contact details a case carries for its client
+export interface CaseClientContact {
+  clientName: string
+  clientEmail: string
+  clientPhone: string
+  clientDateOfBirth?: string
+}
+
+export interface ClientCaseTotals {
+  totalCases: number
+  openCases: number
+  totalSettlements: number
+}
@@ -0,0 +1,59 @@
+// Clients are parties too, but live in the clients table; the registry reads both
+export type PartyRole = 'client' | 'adverse_party' | 'insured' | 'witness' | 'opposing_counsel'
+
+export interface PartyInput {
+  role: PartyRole
+  name: string
+  email: string
+  phone: string
+}
+
+export interface CaseParty extends Omit<PartyInput, 'role'> {
+  id: string
+  userId: string
+  caseId: string
+  role: Exclude<PartyRole, 'client'>
+  createdAt: string
+}
+
+// Someone the firm already knows: a client record or a party on one of its cases
+export interface RegistryEntry extends PartyInput {
+  id: string
+  source: 'client' | 'party'
+  caseIds: string[]
+  caseNumbers: string[]
+}
+
+// 'conflict' when one side was our client and the other was against them
+export type ConflictSeverity = 'conflict' | 'review'
+
+export interface ConflictMatch {
+  party: PartyInput // Who was searched for
+  entry: RegistryEntry
+  score: number // 0 to 1
+  reasons: string[]
+  severity: ConflictSeverity
+}
+
+export interface ConflictCheckResult {
+  parties: PartyInput[]
+  matches: ConflictMatch[]
+  checkedAt: string
+}
+
+// Stored on the case once someone clears the check at intake
+export interface ConflictCheckReport extends ConflictCheckResult {
+  id: string
+  caseId: string
+  userId: string
+  clearedBy: string
+  clearedAt: string
+  notes: string
+}
+
+// The intake form's check: the search result and whether someone has cleared it
+export interface ConflictClearance {
+  result: ConflictCheckResult
+  cleared: boolean
+  notes: string
+}
@@ -0,0 +1,61 @@
+export type DamageCategory = 'medical' | 'lost_wages' | 'future_care' | 'other'
+
+export type GeneralDamagesMethod = 'multiplier' | 'per_diem'
+
+// One line of economic damages (special damages)
+export interface DamageItem {
+  id: string
+  category: DamageCategory
+  description: string
+  amount: number
+  documentId?: string // Medical document the amount was imported from
+}
+
+// Amount owed to a lienholder out of the recovery
+export interface DamageLien {
+  id: string
+  holder: string
+  amount: number
+}
+
+export interface DamagesInput {
+  items: DamageItem[]
+  liens: DamageLien[]
+  generalMethod: GeneralDamagesMethod
+  multiplier: number // Applied to medical specials
+  perDiemRate: number // Dollars per day of pain and suffering
+  perDiemDays: number
+  comparativeFaultPercent: number // Client's share of fault, 0-100
+  goalPercent: number // Settlement goal as a share of the case value
+}
+
+export interface DamagesWorksheet extends DamagesInput {
+  id: string
+  caseId: string
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DamagesCalculation {
+  specials: Record<DamageCategory, number>
+  economicTotal: number
+  generalDamages: number
+  grossTotal: number
+  faultReduction: number
+  caseValue: number // Gross total after comparative fault; becomes the case's estimatedValue
+  settlementGoal: number
+  lienTotal: number
+  netAfterLiens: number // Case value left once liens are paid
+}
+
+// One saved revision of a case's worksheet
+export interface DamagesAuditEntry {
+  id: string
+  caseId: string
+  userId: string
+  changes: string[]
+  previousValue: number
+  newValue: number
+  createdAt: string
+}
@@ -0,0 +1,30 @@
+import type { RuleSetId, ServiceMethod, TriggerType } from '@/lib/courtRules'
+
+// Case deadline as shown in the case timeline
+export interface CaseDeadline {
+  id: string
+  title: string
+  description: string
+  dueDate: string
+  priority: 'low' | 'medium' | 'high' | 'urgent'
+  type: 'deadline' | 'milestone' | 'reminder'
+  completed: boolean
+  createdAt: string
+  triggerId?: string // Trigger event the deadline was generated from
+  ruleId?: string // Court rule that computed dueDate
+}
+
+// Trigger event that a chain of court-rule deadlines is computed from
+export interface DeadlineTrigger {
+  id: string
+  caseId: string
+  userId: string
+  ruleSet: RuleSetId
+  triggerType: TriggerType
+  triggerDate: string // yyyy-MM-dd
+  serviceMethod: ServiceMethod
+  createdAt: string
+  updatedAt: string
+}
+
+export type DeadlineTriggerInput = Pick<DeadlineTrigger, 'ruleSet' | 'triggerType' | 'triggerDate' | 'serviceMethod'>
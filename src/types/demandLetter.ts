@@ -0,0 +1,35 @@
+// One section of a demand letter template; body text may contain {{merge.fields}}
+export interface DemandLetterSection {
+  key: string
+  title: string
+  body: string
+  showHeading: boolean // Print the title as a heading in the exported letter
+}
+
+export interface DemandLetterTemplate {
+  id: string
+  name: string
+  description: string
+  sections: DemandLetterSection[]
+  builtIn?: boolean // Shipped with the app; copy it to customize
+  userId?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+// Firm details printed at the top of every page
+export interface Letterhead {
+  firmName: string
+  address: string
+  phone: string
+  email: string
+  website: string
+  logoUrl?: string
+}
+
+// Medical bill found in a case's medical documents
+export interface MedicalSpecial {
+  documentId: string
+  description: string
+  amount: number
+}
@@ -0,0 +1,51 @@
+export type ShareStatus = 'active' | 'expired' | 'revoked'
+
+// A case document made visible to the client on the portal
+export interface DocumentShare {
+  id: string
+  caseId: string
+  documentId: string
+  sharedAt: string
+  expiresAt: string | null // Null keeps it shared until revoked
+  revokedAt: string | null
+}
+
+// A file on the portal backend's copy of a case: the firm's uploads and the client's
+export interface PortalCaseDocument {
+  id: string
+  caseId: string
+  fileName: string
+  fileSize: number
+  mimeType: string
+  documentType: string // One of DOCUMENT_TYPES
+  description: string
+  uploadedAt: string
+  share: DocumentShare | null // Its active share with the client
+}
+
+export type DocumentRequestStatus = 'open' | 'fulfilled' | 'cancelled'
+
+// A document the firm asked the client to upload through the portal
+export interface DocumentRequest {
+  id: string
+  caseId: string
+  title: string
+  documentType: string // The uploaded file is filed under this type
+  notes: string
+  createdAt: string
+  documentId: string | null // Set once the client uploads it
+  fulfilledAt: string | null
+  cancelledAt: string | null
+}
+
+export type DocumentAccessAction = 'view' | 'download'
+
+// One view or download of a document, by the firm or the client
+export interface DocumentAccessEvent {
+  id: string
+  documentId: string
+  action: DocumentAccessAction
+  actor: 'client' | 'attorney'
+  actorName: string
+  createdAt: string
+}
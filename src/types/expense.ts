@@ -0,0 +1,35 @@
+export type ExpenseCategory =
+  | 'filing_fee'
+  | 'service'
+  | 'records'
+  | 'expert'
+  | 'deposition'
+  | 'travel'
+  | 'other'
+
+export interface ExpenseInput {
+  date: string
+  category: ExpenseCategory
+  description: string
+  vendor: string
+  amount: number
+  billable: boolean // Billed to the client on an invoice
+  reimbursable: boolean // Repaid to the firm out of the recovery
+  receiptDocumentId?: string
+}
+
+// A cost the firm advanced on the case
+export interface CaseExpense extends ExpenseInput {
+  id: string
+  caseId: string
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ExpenseTotals {
+  total: number
+  billable: number
+  reimbursable: number
+  byCategory: Record<ExpenseCategory, number>
+}
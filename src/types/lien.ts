@@ -0,0 +1,32 @@
+import type { SettlementLienType } from './settlement'
+
+// Hospital and provider liens, Medicare conditional payments and ERISA / health plan
+// subrogation all share the settlement statement's lien types
+export type LienType = SettlementLienType
+
+export type LienStatus = 'asserted' | 'negotiating' | 'final' | 'paid' | 'waived'
+
+export interface LienInput {
+  type: LienType
+  holder: string
+  assertedAmount: number
+  reductionAmount: number // Negotiated off the asserted amount
+  status: LienStatus
+  documentIds: string[] // Correspondence with the lienholder
+  notes: string
+}
+
+export interface CaseLien extends LienInput {
+  id: string
+  caseId: string
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface LienSummary {
+  assertedTotal: number
+  reductionTotal: number
+  payoffTotal: number
+  unresolvedCount: number
+}
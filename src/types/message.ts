@@ -0,0 +1,53 @@
+// Which side of a case's thread wrote a message
+export type MessageSender = 'client' | 'attorney'
+
+export interface MessageAttachment {
+  id: string // Opened through the thread's MessageSource
+  name: string
+  size: number
+  type: string
+}
+
+// One message in a case's thread between the client and the firm
+export interface CaseMessage {
+  id: string
+  userId: string // The firm user who owns the case
+  caseId: string
+  sender: MessageSender
+  senderName: string
+  message: string
+  attachments: MessageAttachment[]
+  createdAt: string
+  readAt: string | null // When the other side first opened the thread after it was sent
+}
+
+// A case's messages, oldest first
+export interface MessageThread {
+  caseId: string
+  messages: CaseMessage[]
+  latest: CaseMessage
+}
+
+// A case's thread as the firm's inbox lists it, without the earlier messages
+export interface InboxThread {
+  caseId: string
+  caseNumber: string
+  clientName: string
+  messageCount: number
+  unread: number // The client's messages the firm has not opened
+  awaitingSince: string | null
+  latest: CaseMessage
+}
+
+// Where a thread's messages are read and sent: the firm's /messages API for attorneys, the portal API for clients
+export interface MessageSource {
+  listMessages(caseId: string): Promise<CaseMessage[]>
+  markThreadRead(thread: CaseMessage[], reader: MessageSender): Promise<CaseMessage[]>
+  sendMessage(
+    caseRecord: { id: string; userId: string; caseNumber: string },
+    sender: { role: MessageSender; name: string },
+    text: string,
+    files: File[]
+  ): Promise<CaseMessage>
+  openAttachment(attachment: MessageAttachment): Promise<void>
+}
@@ -0,0 +1,32 @@
+export type NotificationCategory =
+  | 'case_update'
+  | 'settlement'
+  | 'client_message'
+  | 'deadline_reminder'
+  | 'document_analysis'
+  | 'event_reminder'
+  | 'escalation'
+
+// In-app notification shown in the notification center
+export interface AppNotification {
+  id: string
+  userId: string
+  category: NotificationCategory
+  title: string
+  message: string
+  caseId?: string
+  readAt?: string
+  createdAt: string
+}
+
+export type NotificationInput = Pick<AppNotification, 'category' | 'title' | 'message' | 'caseId'>
+
+// Toggles from the Settings notifications tab
+export interface NotificationSettings {
+  email_notifications: boolean
+  push_notifications: boolean
+  case_updates: boolean
+  deadline_reminders: boolean
+  client_messages: boolean
+  settlement_alerts: boolean
+}
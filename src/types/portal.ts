@@ -0,0 +1,111 @@
+import type { Client } from './client'
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+// A link emailed to a client so they can create a portal login. The token itself is only
+// ever emailed, so the firm sees the invitation without it.
+export interface PortalInvitation {
+  id: string
+  clientId: string // The backend's client record
+  email: string
+  expiresAt: string
+  createdAt: string
+  acceptedAt: string | null
+  revokedAt: string | null
+  status: InvitationStatus
+}
+
+// A firm user signed in to the backend that serves the client portal. Invitations, client
+// messages and shared documents live there, next to the portal that reads them.
+export interface FirmSession {
+  token: string
+  user: {
+    id: number
+    email: string
+    name: string
+  }
+}
+
+// The backend's copy of one of the firm's cases, which the portal's messages and shared
+// documents belong to
+export interface PortalCaseRecord {
+  id: string
+  userId: string
+  caseNumber: string
+  clientName: string
+}
+
+// A client signed in to the portal. The backend issues the token and scopes every
+// portal request to the user's client, so the browser never reads the firm's records.
+export interface PortalSession {
+  token: string
+  user: PortalUser
+}
+
+export interface PortalUser {
+  id: number
+  email: string
+  firstName: string
+  lastName: string
+  clientId: string
+}
+
+// What an invitation link shows before the client has a login
+export interface PortalInvitationSummary {
+  email: string
+  clientName: string
+  invitedBy: string
+  firmName: string
+  expiresAt: string
+  status: InvitationStatus
+}
+
+// The client's own details as the portal shows them; the firm's notes never leave the server
+export type PortalClient = Pick<Client, 'name' | 'email' | 'phone' | 'addressLine' | 'city' | 'state' | 'postalCode'>
+
+// The attorney a portal client deals with
+export interface PortalFirm {
+  attorneyName: string
+  firmName: string
+  email: string
+  phone: string
+}
+
+// A case as the portal shows it; internal notes, values and strategy stay with the firm
+export interface PortalCase {
+  id: string
+  caseNumber: string
+  title: string
+  caseType: string
+  status: string
+  description: string
+  settlementAmount?: number
+  nextDeadline?: string
+  createdAt: string
+}
+
+// A document the firm currently shares with the client
+export interface PortalDocument {
+  id: string
+  caseId: string
+  caseNumber: string
+  fileName: string
+  fileSize: number
+  mimeType: string
+  documentType: string
+  description: string
+  sharedAt: string
+  expiresAt: string | null
+}
+
+// A document the firm asked the client to upload
+export interface PortalDocumentRequest {
+  id: string
+  caseId: string
+  caseNumber: string
+  title: string
+  documentType: string
+  notes: string
+  fulfilledAt: string | null
+  createdAt: string
+}
@@ -0,0 +1,23 @@
+import type { NotificationSettings } from './notification'
+
+export type ThemeMode = 'light' | 'dark' | 'system'
+
+// Settings security tab; Select values are kept as strings
+export interface SecuritySettings {
+  two_factor_enabled: boolean
+  session_timeout: string // minutes
+  password_expiry: string // days
+}
+
+// Settings appearance tab
+export interface AppearanceSettings {
+  mode: ThemeMode
+  accent_color: string
+  sidebar_collapsed: boolean
+}
+
+export interface UserPreferences {
+  notifications: NotificationSettings
+  security: SecuritySettings
+  appearance: AppearanceSettings
+}
@@ -0,0 +1,51 @@
+export type FeeStage = 'pre_suit' | 'litigation'
+
+export type SettlementLienType = 'medical' | 'medicare' | 'health_plan'
+
+export type ApprovalParty = 'attorney' | 'client'
+
+// Case cost the firm advanced and is reimbursed from the settlement
+export interface SettlementCost {
+  id: string
+  description: string
+  amount: number
+}
+
+export interface SettlementLien {
+  id: string
+  type: SettlementLienType
+  holder: string
+  amount: number
+}
+
+export interface SettlementApproval {
+  name: string
+  approvedAt: string
+}
+
+export interface SettlementStatementInput {
+  grossSettlement: number
+  feeStage: FeeStage
+  feePercent: number // Contingency fee for the stage, as agreed in the retainer
+  costs: SettlementCost[]
+  liens: SettlementLien[]
+}
+
+export interface SettlementStatement extends SettlementStatementInput {
+  id: string
+  caseId: string
+  userId: string
+  attorneyApproval?: SettlementApproval
+  clientApproval?: SettlementApproval
+  lockedAt?: string // Set once both sides approve; the statement and case financials are final
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SettlementDistribution {
+  grossSettlement: number
+  attorneyFee: number
+  costTotal: number
+  lienTotal: number
+  netToClient: number
+}
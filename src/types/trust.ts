@@ -0,0 +1,73 @@
+export type TrustTransactionType = 'deposit' | 'disbursement'
+
+export interface TrustTransactionInput {
+  caseId: string
+  clientName: string // Ledger the money belongs to
+  type: TrustTransactionType
+  date: string
+  amount: number // Always positive; type gives the direction
+  counterparty: string // Payor of a deposit, payee of a disbursement
+  reference: string // Check or wire number
+  description: string
+}
+
+export interface TrustTransaction extends TrustTransactionInput {
+  id: string
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+// One line of an imported bank statement; deposits are positive, withdrawals negative
+export interface BankStatementLine {
+  id: string
+  date: string
+  description: string
+  amount: number
+  reference: string
+  matchedTransactionId?: string
+}
+
+export interface BankStatement {
+  id: string
+  userId: string
+  month: string // yyyy-MM
+  endingBalance: number // Bank balance on the last day of the month
+  lines: BankStatementLine[]
+  importedAt: string
+  reconciledAt?: string // Set when the month is signed off; its transactions are then final
+  journalBalance?: number // Journal balance recorded at sign-off, carried into later months
+}
+
+// The parts of a case the trust ledgers are labelled with
+export interface TrustCase {
+  id: string
+  caseNumber: string
+  clientName: string
+}
+
+export interface ClientLedger {
+  caseId: string
+  clientName: string
+  caseNumber: string
+  balance: number
+  transactions: TrustTransaction[]
+}
+
+// Monthly three-way reconciliation: the adjusted bank balance, the trust journal and the
+// sum of client ledgers must all agree
+export interface TrustReconciliation {
+  month: string
+  reconciledAt?: string
+  bankBalance: number
+  outstandingDeposits: TrustTransaction[] // In the journal but not yet on a statement
+  outstandingDisbursements: TrustTransaction[]
+  adjustedBankBalance: number
+  openingMonth?: string // Last signed-off month the journal balance carries forward from
+  journalBalance: number
+  clientLedgerTotal: number
+  clientLedgers: ClientLedger[]
+  unmatchedBankLines: BankStatementLine[] // On the statement but not in the journal
+  negativeLedgers: ClientLedger[]
+  balanced: boolean
+}
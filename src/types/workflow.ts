@@ -0,0 +1,44 @@
+import type { Case } from './case'
+import type { CaseDeadline } from './deadline'
+
+export type CaseStatus = Case['status']
+
+export interface ChecklistItem {
+  id: string
+  label: string
+  required: boolean // Must be checked off before the case can leave the stage
+}
+
+// Created as a reminder on the case timeline when the case enters the stage
+export interface StageTask {
+  id: string
+  title: string
+  dueInDays: number
+  priority: CaseDeadline['priority']
+}
+
+export interface WorkflowStage {
+  status: CaseStatus
+  transitions: CaseStatus[] // Statuses the case may move to from this one
+  checklist: ChecklistItem[]
+  tasks: StageTask[]
+}
+
+// A firm's workflow for one case type. Case types without a saved workflow use the
+// standard one.
+export interface CaseWorkflow {
+  caseType: Case['caseType']
+  stages: WorkflowStage[]
+  custom: boolean
+  updatedAt?: string
+}
+
+// A checklist item checked off on a case
+export interface ChecklistCompletion {
+  id: string
+  caseId: string
+  userId: string
+  itemId: string
+  completedBy: string
+  completedAt: string
+}
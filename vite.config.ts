@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -14,5 +15,8 @@ export default defineConfig({
     strictPort: true,
     host: true,
     allowedHosts: true,
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
   }
 });
\ No newline at end of file